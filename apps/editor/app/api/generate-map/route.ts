@@ -1,25 +1,63 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { waitUntil } from '@vercel/functions';
 import { createServerClient } from '@docmaps/auth/server';
-import { fetchWithBrowser, parseDocumentation, sleep } from '@docmaps/doc-parser';
-import { applyLayout } from '@docmaps/graph/layout';
+import {
+  loadGraphQLSchema,
+  loadOpenApiSpec,
+  validatePublicUrl,
+} from '@docmaps/doc-parser';
+import { configureDocCache } from '@/lib/generation/doc-cache';
+import { startGenerationJob } from '@/lib/generation/job-runner';
 import { checkRateLimit } from '@/lib/utils/rate-limit';
-import type { NodeData, EdgeData } from '@docmaps/database';
-import type { ExtractedNode, ExtractedEdge } from '@docmaps/doc-parser';
+import type { GenerationJob } from '@docmaps/database';
+
+/** Maximum size of an uploaded OpenAPI/Swagger document or GraphQL schema (5 MB) */
+const MAX_SPEC_SIZE = 5 * 1024 * 1024;
+
+/** Version and locale names as they appear in doc URLs (v2, 2.x, latest, en, pt-br, zh_CN) */
+const VARIANT_NAME = /^[A-Za-z0-9][A-Za-z0-9._-]{0,31}$/;
+
+/**
+ * The job runs after the response, in this function: allow its 5-minute
+ * timeout (JOB_TIMEOUT_MS) plus a minute to save the map or record the failure
+ * Route segment config has to be a literal
+ */
+export const maxDuration = 360;
+
+// Keep fetched pages across cold starts when a persistent cache is configured
+configureDocCache();
 
 /**
  * POST /api/generate-map
- * Generate a map from a documentation URL using SSE streaming
+ * Start a generation job for a documentation URL, or an uploaded OpenAPI/Swagger spec or GraphQL schema
+ * Responds with 202 and the job ID; progress is streamed by GET /api/generation-jobs/:id/events
  */
 export async function POST(request: NextRequest) {
   console.log('[API] POST /api/generate-map called');
   try {
     // Parse request body
     const body = await request.json();
-    const { url } = body;
-    console.log('[API] Request URL:', url);
+    const { url, spec, fileName, ensemble, multiView, version, locale } = body;
+    console.log('[API] Request URL:', url, spec ? `(uploaded spec: ${fileName || 'unnamed'})` : '');
 
     // Validate request body
-    if (!url || typeof url !== 'string') {
+    if (spec !== undefined) {
+      if (typeof spec !== 'string' || spec.length > MAX_SPEC_SIZE) {
+        console.log('[API] Invalid spec provided');
+        return NextResponse.json(
+          { error: 'Spec must be a JSON, YAML or GraphQL document under 5 MB' },
+          { status: 400 }
+        );
+      }
+
+      if (!loadOpenApiSpec(spec) && !loadGraphQLSchema(spec)) {
+        console.log('[API] Uploaded file is not an OpenAPI/Swagger spec or GraphQL schema');
+        return NextResponse.json(
+          { error: 'Uploaded file is not a valid OpenAPI 3.x or Swagger 2.0 document, or GraphQL schema' },
+          { status: 400 }
+        );
+      }
+    } else if (!url || typeof url !== 'string') {
       console.log('[API] Invalid URL provided');
       return NextResponse.json(
         { error: 'Missing or invalid url field' },
@@ -27,6 +65,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    for (const [field, value] of [['version', version], ['locale', locale]] as const) {
+      if (value !== undefined && value !== '' && (typeof value !== 'string' || !VARIANT_NAME.test(value))) {
+        console.log(`[API] Invalid ${field} provided`);
+        return NextResponse.json(
+          { error: `Invalid ${field} field` },
+          { status: 400 }
+        );
+      }
+    }
+    // Uploaded specs have a single version and language
+    const docVersion: string | undefined = typeof spec !== 'string' && version ? version : undefined;
+    const docLocale: string | undefined = typeof spec !== 'string' && locale ? locale : undefined;
+
+    // Uploaded specs have no URL; record the file name as the source instead
+    const sourceUrl: string = typeof url === 'string' && url
+      ? url
+      : `upload://${typeof fileName === 'string' && fileName ? fileName : 'openapi.json'}`;
+
     // Authenticate user
     const supabase = await createServerClient();
     const { data: { user }, error: authError } = await supabase.auth.getUser();
@@ -79,210 +135,56 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log('[API] Rate limits passed, starting SSE stream');
-
-    // Create SSE stream
-    const encoder = new TextEncoder();
-    const stream = new ReadableStream({
-      async start(controller) {
-        // Helper to send SSE events
-        const sendEvent = (type: string, data?: unknown) => {
-          try {
-            const event = JSON.stringify({ type, data });
-            console.log('[SSE] Sending event:', type, data);
-            controller.enqueue(encoder.encode(`data: ${event}\n\n`));
-          } catch (e) {
-            console.error('[SSE] Error sending event:', e);
-          }
-        };
-
-        // Set a timeout for the entire generation process (5 minutes max)
-        const timeoutId = setTimeout(() => {
-          console.log('[API] Generation timeout after 5 minutes');
-          sendEvent('error', {
-            code: 'TIMEOUT',
-            message: 'Generation took too long. Please try again with a simpler documentation page.',
-            recoverable: false,
-          });
-          controller.close();
-        }, 5 * 60 * 1000);
-
-        try {
-          // Step 1: Fetch documentation with browser
-          console.log('[API] Step 1: Fetching documentation');
-          sendEvent('status', { message: 'Launching browser and fetching documentation...' });
-          
-          const fetchStartTime = Date.now();
-          const fetchResult = await fetchWithBrowser(url);
-          const fetchDuration = Date.now() - fetchStartTime;
-          console.log('[API] Fetch result:', { statusCode: fetchResult.statusCode, htmlLength: fetchResult.html.length, duration: fetchDuration });
-          
-          if (fetchResult.statusCode !== 200) {
-            console.log('[API] Fetch failed with status:', fetchResult.statusCode);
-            sendEvent('error', {
-              code: 'FETCH_FAILED',
-              message: `Failed to fetch documentation (HTTP ${fetchResult.statusCode})`,
-              recoverable: false,
-            });
-            controller.close();
-            return;
-          }
-
-          // Step 2: Parse and extract
-          console.log('[API] Step 2: Parsing documentation');
-          sendEvent('status', { message: 'Analyzing structure...' });
-          
-          const parseStartTime = Date.now();
-          // Try with deep crawl enabled but with timeout protection
-          const parseResult = await parseDocumentation(fetchResult.html, fetchResult.url, true);
-          const parseDuration = Date.now() - parseStartTime;
-          console.log('[API] Parse result:', { nodesCount: parseResult.nodes.length, edgesCount: parseResult.edges.length, duration: parseDuration, strategy: parseResult.metadata.strategy });
-
-          if (parseResult.nodes.length === 0) {
-            console.log('[API] No nodes extracted');
-            sendEvent('error', {
-              code: 'NO_CONTENT',
-              message: 'No content could be extracted from the documentation. The page may not have a clear hierarchical structure.',
-              recoverable: false,
-            });
-            controller.close();
-            return;
-          }
-
-          // Step 3: Stream nodes
-          console.log('[API] Step 3: Streaming nodes');
-          sendEvent('status', { message: 'Extracting nodes...' });
-          
-          for (const node of parseResult.nodes) {
-            sendEvent('node', node);
-            await sleep(100); // Throttle for visual effect
-          }
-
-          // Step 4: Stream edges
-          console.log('[API] Step 4: Streaming edges');
-          sendEvent('status', { message: 'Extracting relationships...' });
-          
-          for (const edge of parseResult.edges) {
-            sendEvent('edge', edge);
-            await sleep(50); // Throttle for visual effect
-          }
-
-          // Step 5: Calculate layout
-          console.log('[API] Step 5: Calculating layout');
-          sendEvent('status', { message: 'Calculating layout...' });
-
-          // Convert ExtractedNode to NodeData format for layout
-          const nodesForLayout = parseResult.nodes.map((node: ExtractedNode) => ({
-            id: node.id,
-            type: node.type,
-            position: { x: 0, y: 0 }, // Will be calculated by layout
-            data: node.data,
-          }));
-
-          // Convert ExtractedEdge to EdgeData format for layout
-          const edgesForLayout = parseResult.edges.map((edge: ExtractedEdge) => ({
-            id: edge.id,
-            source: edge.source,
-            target: edge.target,
-            type: edge.type,
-            label: edge.label,
-            floating: edge.floating,
-            style: edge.style,
-          }));
-
-          const layoutedNodes = applyLayout(nodesForLayout, edgesForLayout);
-          console.log('[API] Layout calculated:', { nodesCount: layoutedNodes.length });
-
-          sendEvent('layout', { nodes: layoutedNodes });
-
-          // Step 6: Save to database
-          console.log('[API] Step 6: Saving to database');
-          sendEvent('status', { message: 'Saving map...' });
-
-          // Generate slug from URL
-          const urlObj = new URL(url);
-          const hostname = urlObj.hostname.replace(/^www\./, '');
-          const slug = `${hostname.split('.')[0]}-${Date.now()}`;
-
-          console.log('[API] Generated slug:', slug);
-
-          // Create map record
-          // @ts-ignore - Supabase type inference issue with JSONB columns
-          const { data: map, error: insertError } = await supabase
-            .from('maps')
-            // @ts-ignore - Type inference issue
-            .insert({
-              user_id: userId,
-              slug,
-              title: `Generated from ${hostname}`,
-              product_name: hostname,
-              product_url: url,
-              description: `Auto-generated map from ${url}`,
-              status: 'draft',
-              view_type: 'single',
-              nodes: layoutedNodes as NodeData[],
-              edges: edgesForLayout as EdgeData[],
-              metadata: {},
-              generation_metadata: {
-                source_url: url,
-                generated_at: new Date().toISOString(),
-                strategy: parseResult.metadata.strategy,
-                confidence: parseResult.metadata.confidence,
-                warnings: parseResult.metadata.warnings,
-                stats: parseResult.metadata.stats,
-                auto_generated_node_ids: parseResult.nodes.map((n: ExtractedNode) => n.id),
-              },
-              published_at: null,
-            })
-            .select()
-            .single();
-
-          console.log('[API] Database insert result:', { mapId: (map as any)?.id, error: insertError?.message });
+    // Resolve the host before launching a browser on it (SSRF protection)
+    if (typeof spec !== 'string') {
+      const urlValidation = await validatePublicUrl(url);
+      if (!urlValidation.valid) {
+        console.log('[API] URL rejected:', urlValidation.error);
+        return NextResponse.json(
+          { error: urlValidation.error || 'Invalid URL' },
+          { status: 400 }
+        );
+      }
+    }
 
-          if (insertError || !map) {
-            console.log('[API] Database insert failed:', insertError);
-            sendEvent('error', {
-              code: 'DATABASE_ERROR',
-              message: 'Failed to save map to database',
-              details: insertError?.message,
-              recoverable: false,
-            });
-            controller.close();
-            return;
-          }
+    console.log('[API] Rate limits passed, creating generation job');
+
+    // @ts-ignore - Supabase type inference issue with JSONB columns
+    const { data: job, error: jobError } = await supabase
+      .from('generation_jobs')
+      // @ts-ignore - Type inference issue
+      .insert({
+        user_id: userId,
+        source_url: sourceUrl,
+        options: {
+          ensemble: ensemble === true,
+          multiView: multiView === true,
+          ...(docVersion ? { version: docVersion } : {}),
+          ...(docLocale ? { locale: docLocale } : {}),
+        },
+        message: 'Waiting to start...',
+      })
+      .select()
+      .single();
 
-          // Step 7: Complete
-          const mapId = (map as any).id as string;
-          console.log('[API] Generation complete, mapId:', mapId);
-          sendEvent('complete', { mapId });
-          clearTimeout(timeoutId);
-          controller.close();
+    if (jobError || !job) {
+      console.log('[API] Failed to create generation job:', jobError);
+      return NextResponse.json(
+        { error: 'Failed to start generation', details: jobError?.message },
+        { status: 500 }
+      );
+    }
 
-        } catch (error: unknown) {
-          console.log('[API] Error in SSE stream:', error);
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          const errorStack = error instanceof Error ? error.stack : '';
-          console.log('[API] Error stack:', errorStack);
-          
-          sendEvent('error', {
-            code: 'GENERATION_FAILED',
-            message: 'An error occurred during map generation',
-            details: errorMessage,
-            recoverable: false,
-          });
-          clearTimeout(timeoutId);
-          controller.close();
-        }
-      },
-    });
+    // Runs after the response; progress is followed via /api/generation-jobs/:id/events
+    waitUntil(startGenerationJob(job as GenerationJob, {
+      spec: typeof spec === 'string' ? spec : undefined,
+      ensemble: ensemble === true,
+      multiView: multiView === true,
+      version: docVersion,
+      locale: docLocale,
+    }));
 
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
-    });
+    return NextResponse.json({ jobId: (job as GenerationJob).id }, { status: 202 });
 
   } catch (error) {
     console.log('[API] Error in POST handler:', error);
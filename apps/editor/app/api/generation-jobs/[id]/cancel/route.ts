@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@docmaps/auth/server';
+import { createServiceClient } from '@docmaps/auth/service';
+import { abortGenerationJob } from '@/lib/generation/job-runner';
+import { CANCELLABLE_JOB_STATUSES } from '@/lib/generation/job-status';
+
+/**
+ * POST /api/generation-jobs/:id/cancel
+ * Cancel a generation job that has not started saving its map yet
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createServerClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Users cannot update jobs themselves (RLS): the user_id filter scopes the write.
+    // Only move jobs that are still cancellable, so a finishing runner is never overwritten
+    const { data: cancelled, error } = await createServiceClient()
+      .from('generation_jobs')
+      // @ts-ignore - Type inference issue
+      .update({
+        status: 'cancelled',
+        message: 'Generation cancelled',
+        finished_at: new Date().toISOString(),
+      })
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .in('status', CANCELLABLE_JOB_STATUSES)
+      .select('id');
+
+    if (error) {
+      return NextResponse.json({ error: 'Failed to cancel generation job' }, { status: 500 });
+    }
+
+    if (!cancelled || cancelled.length === 0) {
+      return NextResponse.json(
+        { error: 'Generation job not found or can no longer be cancelled' },
+        { status: 409 }
+      );
+    }
+
+    // Stop the crawl right away if the job runs in this process; otherwise the
+    // runner notices the cancelled status on its next progress write
+    abortGenerationJob(params.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error cancelling generation job:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@docmaps/auth/server';
+import { createServiceClient } from '@docmaps/auth/service';
+import { sleep } from '@docmaps/doc-parser';
+import { STALE_JOB_MS, updateActiveJob } from '@/lib/generation/job-runner';
+import { isActiveJobStatus } from '@/lib/generation/job-status';
+import type { GenerationJob } from '@docmaps/database';
+
+/** How often the job row is checked for progress */
+const POLL_INTERVAL_MS = 1000;
+
+/**
+ * GET /api/generation-jobs/:id/events
+ * Stream a generation job's progress using SSE
+ * Clients can (re)connect at any time: the first event is always the job's
+ * current state. The stream ends with a complete, error or cancelled event.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const supabase = await createServerClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const loadJob = async (): Promise<GenerationJob | null> => {
+    const { data } = await supabase
+      .from('generation_jobs')
+      .select('*')
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .single();
+    return data as GenerationJob | null;
+  };
+
+  const initialJob = await loadJob();
+  if (!initialJob) {
+    return NextResponse.json({ error: 'Generation job not found' }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      // Helper to send SSE events
+      const sendEvent = (type: string, data?: unknown) => {
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type, data })}\n\n`));
+        } catch (e) {
+          console.error('[SSE] Error sending event:', e);
+        }
+      };
+
+      let job: GenerationJob | null = initialJob;
+      let lastUpdate: string | null = null;
+
+      while (job && !request.signal.aborted) {
+        if (job.updated_at !== lastUpdate) {
+          lastUpdate = job.updated_at;
+          sendEvent('status', {
+            status: job.status,
+            message: job.message,
+            progress: job.progress,
+          });
+        }
+
+        if (job.status === 'done') {
+          sendEvent('complete', { mapId: job.map_id });
+          break;
+        }
+        if (job.status === 'failed') {
+          sendEvent('error', { ...job.error, recoverable: false });
+          break;
+        }
+        if (job.status === 'cancelled') {
+          sendEvent('cancelled', { message: job.message });
+          break;
+        }
+
+        // The runner writes progress well within this window; silence means its server went away.
+        // Users cannot update jobs themselves (RLS); loadJob has checked this one is theirs.
+        if (isActiveJobStatus(job.status) && Date.now() - new Date(job.updated_at).getTime() > STALE_JOB_MS) {
+          await updateActiveJob(createServiceClient(), job.id, {
+            status: 'failed',
+            message: 'Generation stopped responding',
+            error: { code: 'STALLED', message: 'Generation stopped responding. Please try again.' },
+            finished_at: new Date().toISOString(),
+          });
+        } else {
+          await sleep(POLL_INTERVAL_MS);
+        }
+
+        job = await loadJob();
+      }
+
+      if (!job) {
+        sendEvent('error', { code: 'NOT_FOUND', message: 'Generation job not found', recoverable: false });
+      }
+
+      try {
+        controller.close();
+      } catch {
+        // Client already disconnected
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { createServerClient } from '@docmaps/auth/server';
+import { ACTIVE_JOB_STATUSES } from '@/lib/generation/job-status';
+
+/**
+ * GET /api/generation-jobs
+ * List the user's running generation jobs, newest first, so a client can reconnect to them
+ */
+export async function GET() {
+  try {
+    const supabase = await createServerClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: jobs, error } = await supabase
+      .from('generation_jobs')
+      .select('*')
+      .eq('user_id', user.id)
+      .in('status', ACTIVE_JOB_STATUSES)
+      .order('created_at', { ascending: false })
+      .limit(10);
+
+    if (error) {
+      return NextResponse.json({ error: 'Failed to load generation jobs' }, { status: 500 });
+    }
+
+    return NextResponse.json({ jobs: jobs || [] });
+  } catch (error) {
+    console.error('Error listing generation jobs:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,197 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@docmaps/auth/server';
+import {
+  fetchDocumentation,
+  fetchWithBrowser,
+  isGraphQLSchemaUrl,
+  isOpenApiSpecUrl,
+  parseDocumentation,
+  validatePublicUrl,
+} from '@docmaps/doc-parser';
+import { applyLayout } from '@docmaps/graph/layout';
+import { configureDocCache } from '@/lib/generation/doc-cache';
+import { JOB_TIMEOUT_MS } from '@/lib/generation/job-runner';
+import { checkRateLimit } from '@/lib/utils/rate-limit';
+import type { Map as MapType } from '@docmaps/database';
+import type { ExtractedNode, ExtractedEdge, FetchResult } from '@docmaps/doc-parser';
+
+/**
+ * A refresh fetches and crawls like a generation job, inside the request:
+ * allow the same 5-minute timeout (JOB_TIMEOUT_MS) plus a minute to respond
+ * Route segment config has to be a literal
+ */
+export const maxDuration = 360;
+
+// Keep fetched pages across cold starts when a persistent cache is configured
+configureDocCache();
+
+/**
+ * POST /api/maps/[id]/refresh
+ * Re-run the parser against a generated map's source URL. Returns the fresh
+ * nodes/edges (laid out) without saving; the editor diffs them against the
+ * canvas and applies the changes the user accepts.
+ * The fetch and crawl stop when the client disconnects or after JOB_TIMEOUT_MS.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const controller = new AbortController();
+  const { signal } = controller;
+  const timeoutError = new Error('Refresh timeout after 5 minutes');
+  const timeoutId = setTimeout(() => controller.abort(timeoutError), JOB_TIMEOUT_MS);
+  const onDisconnect = () => controller.abort(new Error('Refresh cancelled'));
+  request.signal.addEventListener('abort', onDisconnect, { once: true });
+
+  try {
+    const supabase = await createServerClient();
+
+    // Check authentication
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: map, error: fetchError } = await supabase
+      .from('maps')
+      .select('*')
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (fetchError || !map) {
+      return NextResponse.json({ error: 'Map not found' }, { status: 404 });
+    }
+
+    const generationMetadata = (map as MapType).generation_metadata;
+    const sourceUrl = generationMetadata?.source_url;
+    if (!sourceUrl || sourceUrl.startsWith('upload://')) {
+      return NextResponse.json(
+        { error: 'This map was not generated from a documentation URL' },
+        { status: 400 }
+      );
+    }
+
+    // Refreshing costs as much as generating, so it shares the generation limit
+    const userRateLimit = checkRateLimit(`user:${user.id}`, {
+      maxAttempts: 10,
+      windowMs: 60 * 1000,
+    });
+
+    if (!userRateLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Rate limit exceeded',
+          message: 'Too many generation requests. Please try again later.',
+          resetTime: userRateLimit.resetTime,
+        },
+        { status: 429 }
+      );
+    }
+
+    // The source may have moved to a private address since the first run
+    const urlValidation = await validatePublicUrl(sourceUrl);
+    if (!urlValidation.valid) {
+      return NextResponse.json(
+        { error: urlValidation.error || 'Invalid URL' },
+        { status: 400 }
+      );
+    }
+
+    console.log('[API] Refreshing map from source:', params.id, sourceUrl);
+
+    // Always ask the origin: a refresh must not return the cached page as-is,
+    // but unchanged pages still come back from the cache with a 304
+    const fetchResult: FetchResult = isOpenApiSpecUrl(sourceUrl) || isGraphQLSchemaUrl(sourceUrl)
+      ? await fetchDocumentation(sourceUrl, { cache: 'no-cache', signal })
+      : await fetchWithBrowser(sourceUrl, { cache: 'no-cache', signal });
+
+    if (fetchResult.statusCode !== 200) {
+      return NextResponse.json(
+        { error: `Failed to fetch documentation (HTTP ${fetchResult.statusCode})` },
+        { status: 502 }
+      );
+    }
+
+    // Use the same mode, version and locale as the original generation
+    const parseResult = await parseDocumentation(fetchResult.html, fetchResult.url, true, {
+      ensemble: generationMetadata.strategy === 'ensemble',
+      version: generationMetadata.version,
+      locale: generationMetadata.locale,
+      cache: 'no-cache',
+      signal,
+    });
+
+    if (parseResult.nodes.length === 0) {
+      return NextResponse.json(
+        { error: 'No content could be extracted from the documentation' },
+        { status: 422 }
+      );
+    }
+
+    const edges = parseResult.edges.map((edge: ExtractedEdge) => ({
+      id: edge.id,
+      source: edge.source,
+      target: edge.target,
+      type: edge.type,
+      label: edge.label,
+      floating: edge.floating,
+      style: edge.style,
+    }));
+
+    const nodes = applyLayout(
+      parseResult.nodes.map((node: ExtractedNode) => ({
+        id: node.id,
+        type: node.type,
+        position: { x: 0, y: 0 }, // Will be calculated by layout
+        data: node.data,
+      })),
+      edges
+    );
+
+    return NextResponse.json({
+      nodes,
+      edges,
+      metadata: {
+        source_url: sourceUrl,
+        generated_at: new Date().toISOString(),
+        strategy: parseResult.metadata.strategy,
+        confidence: parseResult.metadata.confidence,
+        warnings: parseResult.metadata.warnings,
+        crawl_plan_source: parseResult.metadata.crawl_plan_source,
+        ensemble_strategies: parseResult.metadata.ensemble_strategies,
+        node_provenance: parseResult.metadata.node_provenance,
+        status_evidence: parseResult.metadata.status_evidence,
+        version: parseResult.metadata.version,
+        locale: parseResult.metadata.locale,
+        available_versions: parseResult.metadata.available_versions,
+        available_locales: parseResult.metadata.available_locales,
+        stats: parseResult.metadata.stats,
+        trace: parseResult.metadata.trace,
+      },
+    });
+  } catch (error) {
+    if (signal.aborted && signal.reason === timeoutError) {
+      return NextResponse.json(
+        { error: 'Refreshing took too long. Please try again later.' },
+        { status: 504 }
+      );
+    }
+    if (signal.aborted) {
+      // Nobody is waiting for the response
+      console.log('[API] Refresh cancelled by the client:', params.id);
+      return new NextResponse(null, { status: 499 });
+    }
+    console.error('Error refreshing map:', error);
+    return NextResponse.json(
+      { error: 'Failed to refresh map from source' },
+      { status: 500 }
+    );
+  } finally {
+    clearTimeout(timeoutId);
+    request.signal.removeEventListener('abort', onDisconnect);
+  }
+}
@@ -0,0 +1,243 @@
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { createServerClient } from '@docmaps/auth/server';
+import type { Map as MapType } from '@docmaps/database';
+import type { ParseTrace, StrategyAttempt } from '@docmaps/doc-parser';
+
+const OUTCOME_STYLES: Record<StrategyAttempt['outcome'], string> = {
+  selected: 'bg-green-100 text-green-700',
+  merged: 'bg-blue-100 text-blue-700',
+  rejected: 'bg-amber-100 text-amber-700',
+  skipped: 'bg-gray-100 text-gray-600',
+  failed: 'bg-red-100 text-red-700',
+};
+
+interface GenerationStats {
+  nodes_extracted: number;
+  nodes_final: number;
+  nodes_deduplicated: number;
+  nodes_filtered: number;
+  duration_ms: number;
+}
+
+/**
+ * Readable report of a map's parse trace: which strategies ran and why they
+ * lost, which nodes were dropped, which pages were crawled
+ */
+export default async function GenerationReportPage({
+  params,
+}: {
+  params: { id: string };
+}) {
+  const supabase = await createServerClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/sign-in');
+  }
+
+  const { data: map, error } = await supabase
+    .from('maps')
+    .select('*')
+    .eq('id', params.id)
+    .single();
+
+  if (error || !map) {
+    redirect('/editor/dashboard');
+  }
+
+  const mapData = map as MapType;
+  if (mapData.user_id !== user.id) {
+    redirect('/editor/dashboard');
+  }
+
+  const metadata = mapData.generation_metadata;
+  const trace = metadata?.trace as ParseTrace | undefined;
+  if (!metadata || !trace) {
+    redirect(`/editor/maps/${params.id}`);
+  }
+
+  const stats = metadata.stats as GenerationStats | undefined;
+  // Only the first nodes of each step are listed; older traces have no counts
+  const droppedCount = trace.dropped_counts
+    ? trace.dropped_counts.deduplication + trace.dropped_counts.filtering
+    : trace.dropped.length;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <Link
+            href={`/editor/maps/${params.id}`}
+            className="inline-flex items-center gap-1.5 text-sm text-gray-500 hover:text-gray-900 transition-colors"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to editor
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900 mt-3">Generation report</h1>
+          <p className="text-sm text-gray-500 mt-1 break-all">
+            {mapData.title} · generated from {metadata.source_url} on{' '}
+            {new Date(metadata.generated_at).toLocaleString()}
+            {(metadata.version || metadata.locale) &&
+              ` · ${[metadata.version && `version ${metadata.version}`, metadata.locale && `language ${metadata.locale}`]
+                .filter(Boolean)
+                .join(', ')}`}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          <Stat label="Strategy" value={metadata.strategy} />
+          <Stat label="Confidence" value={`${Math.round(metadata.confidence * 100)}%`} />
+          {stats && <Stat label="Nodes" value={`${stats.nodes_final} of ${stats.nodes_extracted}`} />}
+          {stats && <Stat label="Duration" value={formatDuration(stats.duration_ms)} />}
+        </div>
+
+        {metadata.warnings.length > 0 && (
+          <Section title="Warnings">
+            <ul className="list-disc pl-5 space-y-1 text-sm text-amber-700">
+              {metadata.warnings.map((warning, index) => (
+                <li key={index}>{warning}</li>
+              ))}
+            </ul>
+          </Section>
+        )}
+
+        <Section title="Strategies" description="In the order they were tried">
+          <Table headers={['Strategy', 'Outcome', 'Nodes', 'Edges', 'Confidence', 'Time', 'Reason']}>
+            {trace.strategies.map((attempt, index) => (
+              <tr key={index}>
+                <Cell className="font-medium text-gray-900">{attempt.strategy}</Cell>
+                <Cell>
+                  <span className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${OUTCOME_STYLES[attempt.outcome]}`}>
+                    {attempt.outcome}
+                  </span>
+                </Cell>
+                <Cell>{attempt.nodes ?? '—'}</Cell>
+                <Cell>{attempt.edges ?? '—'}</Cell>
+                <Cell>{attempt.confidence !== undefined ? attempt.confidence.toFixed(2) : '—'}</Cell>
+                <Cell>{attempt.duration_ms !== undefined ? formatDuration(attempt.duration_ms) : '—'}</Cell>
+                <Cell className="text-gray-500">{attempt.reason || ''}</Cell>
+              </tr>
+            ))}
+          </Table>
+        </Section>
+
+        <Section
+          title="Dropped nodes"
+          description={
+            stats
+              ? `${stats.nodes_deduplicated} merged as duplicates, ${stats.nodes_filtered} filtered out`
+              : undefined
+          }
+        >
+          {trace.dropped.length === 0 ? (
+            <Empty>No nodes were dropped.</Empty>
+          ) : (
+            <Table headers={['Node', 'Step', 'Reason']}>
+              {trace.dropped.map((node, index) => (
+                <tr key={index}>
+                  <Cell className="font-medium text-gray-900">{node.label}</Cell>
+                  <Cell>{node.step}</Cell>
+                  <Cell className="text-gray-500">{node.reason}</Cell>
+                </tr>
+              ))}
+            </Table>
+          )}
+          {droppedCount > trace.dropped.length && (
+            <p className="text-xs text-gray-500 mt-3">
+              Showing {trace.dropped.length} of {droppedCount} dropped nodes.
+            </p>
+          )}
+        </Section>
+
+        <Section title="Pages crawled">
+          {trace.pages.length === 0 ? (
+            <Empty>Only the start page was used.</Empty>
+          ) : (
+            <Table headers={['Page', 'Status', 'Time']}>
+              {trace.pages.map((page, index) => (
+                <tr key={index}>
+                  <Cell className="break-all">{page.url}</Cell>
+                  <Cell className={page.status === 'failed' ? 'text-red-600' : undefined}>
+                    {page.status === 'failed' ? `Failed: ${page.error || 'unknown error'}` : page.from_cache ? 'Cached' : 'Fetched'}
+                  </Cell>
+                  <Cell>{page.duration_ms !== undefined ? formatDuration(page.duration_ms) : '—'}</Cell>
+                </tr>
+              ))}
+            </Table>
+          )}
+        </Section>
+
+        <Section title="Selectors" description="Page elements the strategies read nodes from">
+          {trace.selectors.length === 0 ? (
+            <Empty>No selectors were recorded.</Empty>
+          ) : (
+            <Table headers={['Strategy', 'Selector', 'Nodes']}>
+              {trace.selectors.map((match, index) => (
+                <tr key={index}>
+                  <Cell>{match.strategy}</Cell>
+                  <Cell className="font-mono text-xs">{match.selector}</Cell>
+                  <Cell>{match.matches}</Cell>
+                </tr>
+              ))}
+            </Table>
+          )}
+        </Section>
+      </div>
+    </div>
+  );
+}
+
+function formatDuration(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-4">
+      <p className="text-xs text-gray-500">{label}</p>
+      <p className="text-lg font-semibold text-gray-900 truncate">{value}</p>
+    </div>
+  );
+}
+
+function Section({ title, description, children }: { title: string; description?: string; children: React.ReactNode }) {
+  return (
+    <section className="bg-white rounded-xl border border-gray-200 p-5">
+      <h2 className="font-semibold text-gray-900">{title}</h2>
+      {description && <p className="text-sm text-gray-500 mt-0.5">{description}</p>}
+      <div className="mt-4">{children}</div>
+    </section>
+  );
+}
+
+function Table({ headers, children }: { headers: string[]; children: React.ReactNode }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm text-left">
+        <thead>
+          <tr className="border-b border-gray-200">
+            {headers.map((header) => (
+              <th key={header} className="py-2 pr-4 text-xs font-medium text-gray-500">
+                {header}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100 text-gray-700">{children}</tbody>
+      </table>
+    </div>
+  );
+}
+
+function Cell({ className, children }: { className?: string; children: React.ReactNode }) {
+  return <td className={`py-2 pr-4 align-top ${className || ''}`}>{children}</td>;
+}
+
+function Empty({ children }: { children: React.ReactNode }) {
+  return <p className="text-sm text-gray-500">{children}</p>;
+}
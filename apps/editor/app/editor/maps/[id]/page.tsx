@@ -35,6 +35,10 @@ export default async function MapEditorPage({
     redirect('/editor/dashboard');
   }
 
+  const reportHref = mapData.generation_metadata?.trace
+    ? `/editor/maps/${mapData.id}/generation-report`
+    : undefined;
+
   // For multi-view maps, fetch associated product_views
   if (mapData.view_type === 'multi') {
     const { data: productViews, error: viewsError } = await supabase
@@ -48,7 +52,7 @@ export default async function MapEditorPage({
 
     return (
       <>
-        <GenerationSuccessBanner />
+        <GenerationSuccessBanner reportHref={reportHref} />
         <UnifiedEditor 
           map={mapData} 
           initialViews={views} 
@@ -60,7 +64,7 @@ export default async function MapEditorPage({
   // Single view maps - no views passed
   return (
     <>
-      <GenerationSuccessBanner />
+      <GenerationSuccessBanner reportHref={reportHref} />
       <UnifiedEditor map={mapData} />
     </>
   );
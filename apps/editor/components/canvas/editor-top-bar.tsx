@@ -2,7 +2,7 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { Eye, MoreVertical, Check } from 'lucide-react';
+import { Eye, MoreVertical, Check, RefreshCw } from 'lucide-react';
 import type { Map as MapType, ProductView } from '@docmaps/database';
 import { ConfirmDialog } from '@docmaps/ui';
 import { PreviewDialog } from './preview-dialog';
@@ -14,6 +14,9 @@ interface EditorTopBarProps {
   hasChanges: boolean;
   onSave: () => void;
   onTogglePublish: (newStatus: 'draft' | 'published') => Promise<void>;
+  /** Re-generate from the documentation source (only for generated maps) */
+  onRefreshFromSource?: () => void;
+  refreshing?: boolean;
 }
 
 export function EditorTopBar({ 
@@ -23,6 +26,8 @@ export function EditorTopBar({
   hasChanges, 
   onSave, 
   onTogglePublish,
+  onRefreshFromSource,
+  refreshing = false,
 }: EditorTopBarProps) {
   const router = useRouter();
   const [isPublishing, setIsPublishing] = useState(false);
@@ -106,6 +111,18 @@ export function EditorTopBar({
               <span>Preview</span>
             </button>
 
+            {/* Refresh From Source Button */}
+            {onRefreshFromSource && (
+              <button
+                onClick={onRefreshFromSource}
+                disabled={refreshing}
+                className="flex items-center gap-1.5 h-8 px-3 rounded-lg text-sm font-medium text-gray-600 hover:text-gray-900 hover:bg-gray-100 transition-colors disabled:opacity-50"
+              >
+                <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+                <span>{refreshing ? 'Refreshing...' : 'Refresh from source'}</span>
+              </button>
+            )}
+
             {/* Divider */}
             <div className="h-6 w-px bg-gray-200 mx-1" />
 
@@ -238,6 +255,19 @@ export function EditorTopBar({
                 <Eye className="h-4 w-4 text-gray-400" />
                 <span>Preview</span>
               </button>
+              {onRefreshFromSource && (
+                <button
+                  onClick={() => {
+                    onRefreshFromSource();
+                    setShowMobileMenu(false);
+                  }}
+                  disabled={refreshing}
+                  className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+                >
+                  <RefreshCw className={`h-4 w-4 text-gray-400 ${refreshing ? 'animate-spin' : ''}`} />
+                  <span>{refreshing ? 'Refreshing...' : 'Refresh from source'}</span>
+                </button>
+              )}
               {currentView && (
                 <div className="px-4 py-2 border-t border-gray-100 mt-1">
                   <p className="text-xs text-gray-500">Current view</p>
@@ -1,12 +1,24 @@
 'use client';
 
 import { useState } from 'react';
-import { Box, Zap, Wrench, FileText, Layout, LayoutGrid, Grid3x3, Map, ChevronLeft, ChevronRight, Keyboard, Menu, X, AlignLeft, AlignRight, AlignCenterHorizontal, AlignVerticalJustifyCenter, MoveHorizontal, MoveVertical } from 'lucide-react';
+import { Box, BoxSelect, Zap, Wrench, FileText, Layout, LayoutGrid, Grid3x3, Grid2x2, Map, Orbit, Network, Share2, ChevronLeft, ChevronRight, Keyboard, Menu, X, AlignLeft, AlignRight, AlignCenterHorizontal, AlignVerticalJustifyCenter, MoveHorizontal, MoveVertical } from 'lucide-react';
 import type { AlignmentType } from '@docmaps/graph/alignment';
+import { MIN_LAYOUT_SPACING, MAX_LAYOUT_SPACING, type LayoutOptions } from '@docmaps/graph/layout';
+
+/** Layouts offered in the sidebar; spacing comes from the slider */
+const LAYOUTS: Array<{ label: string; description: string; options: LayoutOptions; icon: React.ReactNode }> = [
+  { label: 'Vertical', description: 'Layered, top to bottom', options: { engine: 'dagre', direction: 'TB' }, icon: <Layout className="h-4 w-4" /> },
+  { label: 'Horizontal', description: 'Layered, left to right', options: { engine: 'dagre', direction: 'LR' }, icon: <LayoutGrid className="h-4 w-4" /> },
+  { label: 'Radial', description: 'Rings around the product', options: { engine: 'radial' }, icon: <Orbit className="h-4 w-4" /> },
+  { label: 'Mind Map', description: 'Branches on both sides', options: { engine: 'mind-map' }, icon: <Network className="h-4 w-4" /> },
+  { label: 'Force', description: 'Groups linked nodes together', options: { engine: 'force' }, icon: <Share2 className="h-4 w-4" /> },
+  { label: 'Grid', description: 'Compact rows', options: { engine: 'grid' }, icon: <Grid2x2 className="h-4 w-4" /> },
+];
 
 interface LeftSidebarProps {
   onAddNode: (type: 'product' | 'feature' | 'component' | 'textBlock' | 'group') => void;
-  onAutoLayout: (direction: 'TB' | 'LR') => void;
+  /** selectionOnly: keep nodes outside the selection where they are */
+  onAutoLayout: (options: LayoutOptions, selectionOnly: boolean) => void;
   showGrid: boolean;
   showMiniMap: boolean;
   onToggleGrid: () => void;
@@ -31,6 +43,11 @@ export function LeftSidebar({
 }: LeftSidebarProps) {
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [isMobileOpen, setIsMobileOpen] = useState(false);
+  const [layoutSpacing, setLayoutSpacing] = useState(1);
+  const [layoutSelectionOnly, setLayoutSelectionOnly] = useState(false);
+
+  const runLayout = (options: LayoutOptions) =>
+    onAutoLayout({ ...options, spacing: layoutSpacing }, layoutSelectionOnly && selectedNodesCount > 0);
 
   // Mobile floating toolbar
   const MobileToolbar = () => (
@@ -87,22 +104,19 @@ export function LeftSidebar({
               {/* Layout */}
               <div>
                 <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Layout</h3>
-                <div className="flex gap-2">
-                  <button
-                    onClick={() => { onAutoLayout('TB'); setIsMobileOpen(false); }}
-                    className="flex-1 flex items-center justify-center gap-2 p-2.5 rounded-xl border border-gray-200 text-gray-600 hover:bg-gray-50 transition-colors"
-                  >
-                    <Layout className="h-4 w-4" />
-                    <span className="text-xs font-medium">Vertical</span>
-                  </button>
-                  <button
-                    onClick={() => { onAutoLayout('LR'); setIsMobileOpen(false); }}
-                    className="flex-1 flex items-center justify-center gap-2 p-2.5 rounded-xl border border-gray-200 text-gray-600 hover:bg-gray-50 transition-colors"
-                  >
-                    <LayoutGrid className="h-4 w-4" />
-                    <span className="text-xs font-medium">Horizontal</span>
-                  </button>
+                <div className="grid grid-cols-2 gap-2">
+                  {LAYOUTS.map((layout) => (
+                    <button
+                      key={layout.label}
+                      onClick={() => { runLayout(layout.options); setIsMobileOpen(false); }}
+                      className="flex items-center justify-center gap-2 p-2.5 rounded-xl border border-gray-200 text-gray-600 hover:bg-gray-50 transition-colors"
+                    >
+                      {layout.icon}
+                      <span className="text-xs font-medium">{layout.label}</span>
+                    </button>
+                  ))}
                 </div>
+                <SpacingSlider value={layoutSpacing} onChange={setLayoutSpacing} />
               </div>
 
               {/* View Options */}
@@ -177,20 +191,16 @@ export function LeftSidebar({
           
           <div className="w-6 h-px bg-gray-200 my-1" />
           
-          <button
-            onClick={() => onAutoLayout('TB')}
-            className="p-2 rounded-lg text-gray-500 hover:text-gray-700 hover:bg-gray-100 transition-colors"
-            title="Vertical Layout"
-          >
-            <Layout className="h-4 w-4" />
-          </button>
-          <button
-            onClick={() => onAutoLayout('LR')}
-            className="p-2 rounded-lg text-gray-500 hover:text-gray-700 hover:bg-gray-100 transition-colors"
-            title="Horizontal Layout"
-          >
-            <LayoutGrid className="h-4 w-4" />
-          </button>
+          {LAYOUTS.map((layout) => (
+            <button
+              key={layout.label}
+              onClick={() => runLayout(layout.options)}
+              className="p-2 rounded-lg text-gray-500 hover:text-gray-700 hover:bg-gray-100 transition-colors"
+              title={`${layout.label} Layout`}
+            >
+              {layout.icon}
+            </button>
+          ))}
         </div>
       </>
     );
@@ -268,17 +278,27 @@ export function LeftSidebar({
           {/* Layout Section */}
           <Section title="Auto Layout">
             <div className="grid grid-cols-2 gap-2">
-              <LayoutButton
-                onClick={() => onAutoLayout('TB')}
-                icon={<Layout className="h-4 w-4" />}
-                label="Vertical"
-              />
-              <LayoutButton
-                onClick={() => onAutoLayout('LR')}
-                icon={<LayoutGrid className="h-4 w-4" />}
-                label="Horizontal"
-              />
+              {LAYOUTS.map((layout) => (
+                <LayoutButton
+                  key={layout.label}
+                  onClick={() => runLayout(layout.options)}
+                  icon={layout.icon}
+                  label={layout.label}
+                  tooltip={layout.description}
+                />
+              ))}
             </div>
+            <SpacingSlider value={layoutSpacing} onChange={setLayoutSpacing} />
+            {selectedNodesCount > 0 && (
+              <div className="mt-2">
+                <ToggleOption
+                  checked={layoutSelectionOnly}
+                  onChange={() => setLayoutSelectionOnly(!layoutSelectionOnly)}
+                  icon={<BoxSelect className="h-4 w-4" />}
+                  label="Selected nodes only"
+                />
+              </div>
+            )}
           </Section>
 
           {/* View Options Section */}
@@ -500,10 +520,21 @@ function NodeButton({
   );
 }
 
-function LayoutButton({ onClick, icon, label }: { onClick: () => void; icon: React.ReactNode; label: string }) {
+function LayoutButton({
+  onClick,
+  icon,
+  label,
+  tooltip,
+}: {
+  onClick: () => void;
+  icon: React.ReactNode;
+  label: string;
+  tooltip?: string;
+}) {
   return (
     <button
       onClick={onClick}
+      title={tooltip}
       className="flex flex-col items-center gap-1.5 p-3 rounded-lg border border-gray-200 bg-white text-gray-600 hover:bg-gray-50 hover:border-gray-300 hover:text-gray-900 transition-all"
     >
       {icon}
@@ -512,6 +543,27 @@ function LayoutButton({ onClick, icon, label }: { onClick: () => void; icon: Rea
   );
 }
 
+function SpacingSlider({ value, onChange }: { value: number; onChange: (value: number) => void }) {
+  return (
+    <label className="block mt-3">
+      <div className="flex items-center justify-between mb-1.5">
+        <span className="text-xs text-gray-600">Spacing</span>
+        <span className="text-xs font-mono text-gray-500">{value.toFixed(2)}×</span>
+      </div>
+      <input
+        type="range"
+        min={MIN_LAYOUT_SPACING}
+        max={MAX_LAYOUT_SPACING}
+        step={0.25}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full accent-blue-600"
+        aria-label="Layout spacing"
+      />
+    </label>
+  );
+}
+
 function ToggleOption({
   checked,
   onChange,
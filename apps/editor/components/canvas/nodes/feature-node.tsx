@@ -2,6 +2,7 @@
 
 import { memo, useMemo } from 'react';
 import { Handle, type NodeProps } from 'reactflow';
+import { Pin } from 'lucide-react';
 import { getHandlesForNodeType } from '@docmaps/graph/handle-config';
 
 interface FeatureNodeData {
@@ -11,6 +12,7 @@ interface FeatureNodeData {
   color?: string;
   status?: 'stable' | 'beta' | 'deprecated' | 'experimental';
   caption?: string;
+  pinned?: boolean;
 }
 
 const STATUS_CONFIG = {
@@ -39,6 +41,14 @@ export const FeatureNode = memo(({ data, selected }: NodeProps<FeatureNodeData>)
       }`}
       style={{ minWidth: '100px', width: 'fit-content' }}
     >
+      {data.pinned && (
+        <span
+          className="absolute -top-2 -right-2 z-10 flex h-5 w-5 items-center justify-center rounded-full bg-white text-gray-500 shadow-sm ring-1 ring-gray-200"
+          title="Pinned: auto-layout leaves this node in place"
+        >
+          <Pin className="h-3 w-3" />
+        </span>
+      )}
       {handles.map((handle) => (
         <Handle
           key={handle.id}
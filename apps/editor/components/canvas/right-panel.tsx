@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { Trash2, Plus, X, Link as LinkIcon, Tag, Info, Palette, Layers, Box } from 'lucide-react';
+import { Trash2, Plus, X, Link as LinkIcon, Tag, Info, Palette, Layers, Box, Pin, PinOff } from 'lucide-react';
 import type { Node, Edge } from 'reactflow';
 import { MarkerType } from 'reactflow';
 import dynamic from 'next/dynamic';
@@ -59,6 +59,7 @@ export function RightPanel({
   const [tagInput, setTagInput] = useState('');
   const [status, setStatus] = useState<'stable' | 'beta' | 'deprecated' | 'experimental'>('stable');
   const [referTo, setReferTo] = useState<{ slug: string; title: string } | null>(null);
+  const [pinned, setPinned] = useState(false);
 
   const [edgeType, setEdgeType] = useState<string>('hierarchy');
   const [edgeLabel, setEdgeLabel] = useState('');
@@ -82,6 +83,7 @@ export function RightPanel({
       setTags(selectedNode.data.tags || []);
       setStatus(selectedNode.data.status || 'stable');
       setReferTo(selectedNode.data.referTo || null);
+      setPinned(!!selectedNode.data.pinned);
       
       // Set text content for text blocks
       if (selectedNode.type === 'textBlock') {
@@ -126,6 +128,23 @@ export function RightPanel({
             </div>
           </div>
 
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => selectedNodes.forEach((node) => onUpdateNode(node.id, { pinned: true }))}
+              className="flex items-center justify-center gap-2 px-3 py-2 rounded-lg border border-gray-200 text-sm text-gray-600 hover:bg-gray-50 transition-colors"
+            >
+              <Pin className="h-4 w-4" />
+              Pin all
+            </button>
+            <button
+              onClick={() => selectedNodes.forEach((node) => onUpdateNode(node.id, { pinned: false }))}
+              className="flex items-center justify-center gap-2 px-3 py-2 rounded-lg border border-gray-200 text-sm text-gray-600 hover:bg-gray-50 transition-colors"
+            >
+              <PinOff className="h-4 w-4" />
+              Unpin all
+            </button>
+          </div>
+
           <DeleteButton onClick={onDeleteNode} label={`Delete ${selectedNodes.length} Nodes`} />
         </div>
       </FloatingSidebar>
@@ -338,6 +357,17 @@ export function RightPanel({
               { value: 'deprecated', label: '⚠️ Deprecated' },
             ]}
           />
+
+          <label className="flex items-center gap-2 mt-4 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={pinned}
+              onChange={(e) => { setPinned(e.target.checked); handleUpdate('pinned', e.target.checked); }}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Pin position
+            <span className="text-xs text-gray-400">(auto-layout leaves it in place)</span>
+          </label>
         </FormSection>
 
         <FormSection title="Description">
@@ -0,0 +1,157 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { X, Plus, Minus, PenLine, RefreshCw } from 'lucide-react';
+import type { SourceChange, SourceDiff } from '@docmaps/graph/source-diff';
+
+interface SourceDiffDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  diff: SourceDiff | null;
+  sourceUrl: string;
+  onApply: (acceptedChangeIds: string[]) => void;
+}
+
+const KIND_STYLES = {
+  added: { icon: Plus, className: 'bg-emerald-50 text-emerald-700', text: 'Added' },
+  removed: { icon: Minus, className: 'bg-red-50 text-red-700', text: 'Removed' },
+  renamed: { icon: PenLine, className: 'bg-amber-50 text-amber-700', text: 'Renamed' },
+} as const;
+
+function describeChange(change: SourceChange) {
+  if (change.entity === 'node') {
+    return change.kind === 'renamed'
+      ? `${change.previousLabel} → ${change.label}`
+      : change.label;
+  }
+
+  const connection = `${change.sourceLabel} → ${change.targetLabel}`;
+  if (change.kind === 'renamed') {
+    return `${connection}: "${change.previousLabel || ''}" → "${change.label}"`;
+  }
+  return change.label ? `${connection} (${change.label})` : connection;
+}
+
+export function SourceDiffDialog({ isOpen, onClose, diff, sourceUrl, onApply }: SourceDiffDialogProps) {
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+
+  // Every change starts out accepted
+  useEffect(() => {
+    setAccepted(new Set(diff?.changes.map((change) => change.id) || []));
+  }, [diff]);
+
+  const sections = useMemo(() => {
+    const changes = diff?.changes || [];
+    return [
+      { title: 'Nodes', changes: changes.filter((change) => change.entity === 'node') },
+      { title: 'Connections', changes: changes.filter((change) => change.entity === 'edge') },
+    ].filter((section) => section.changes.length > 0);
+  }, [diff]);
+
+  if (!isOpen || !diff) return null;
+
+  const toggle = (id: string) => {
+    setAccepted((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const setAll = (value: boolean) => {
+    setAccepted(value ? new Set(diff.changes.map((change) => change.id)) : new Set());
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="relative w-full max-w-2xl max-h-[85vh] bg-white rounded-xl shadow-xl flex flex-col">
+        {/* Header */}
+        <div className="flex items-start justify-between border-b border-gray-200 px-6 py-4">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-gray-900">Changes from source</h2>
+            <p className="text-sm text-gray-500 truncate">{sourceUrl}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="flex-shrink-0 p-1 rounded-lg text-gray-400 hover:text-gray-600 hover:bg-gray-100 transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Change list */}
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          <p className="mb-4 text-sm text-gray-600">
+            Uncheck the changes you want to skip. Manual nodes, manual connections and node positions are kept.
+          </p>
+
+          {sections.map((section) => (
+            <div key={section.title} className="mb-5">
+              <h3 className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                {section.title} ({section.changes.length})
+              </h3>
+              <ul className="space-y-1">
+                {section.changes.map((change) => {
+                  const style = KIND_STYLES[change.kind];
+                  const Icon = style.icon;
+                  return (
+                    <li key={change.id}>
+                      <label className="flex items-center gap-3 rounded-lg px-2 py-1.5 text-sm hover:bg-gray-50 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={accepted.has(change.id)}
+                          onChange={() => toggle(change.id)}
+                          className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        <span className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${style.className}`}>
+                          <Icon className="h-3 w-3" />
+                          {style.text}
+                        </span>
+                        <span className="min-w-0 flex-1 truncate text-gray-900">{describeChange(change)}</span>
+                        {change.entity === 'node' && change.nodeType && (
+                          <span className="text-xs text-gray-400">{change.nodeType}</span>
+                        )}
+                      </label>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between gap-3 border-t border-gray-200 px-6 py-4">
+          <div className="flex gap-3 text-sm">
+            <button onClick={() => setAll(true)} className="text-blue-600 hover:text-blue-700">
+              Select all
+            </button>
+            <button onClick={() => setAll(false)} className="text-blue-600 hover:text-blue-700">
+              Select none
+            </button>
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onApply(Array.from(accepted))}
+              disabled={accepted.size === 0}
+              className="flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              <RefreshCw className="h-4 w-4" />
+              Apply {accepted.size} {accepted.size === 1 ? 'change' : 'changes'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
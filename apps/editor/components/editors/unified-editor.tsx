@@ -29,6 +29,7 @@ import {
 import 'reactflow/dist/style.css';
 import { createClient } from '@docmaps/auth';
 import { applyLayout } from '@docmaps/graph';
+import { getFixedPositions, type LayoutOptions } from '@docmaps/graph/layout';
 import { EdgeType, getEdgeStyle } from '@docmaps/graph/edge-types';
 import { validateConnection } from '@docmaps/graph/handle-validator';
 import { copyNodesToClipboard, pasteNodesFromClipboard } from '@docmaps/graph/clipboard';
@@ -47,15 +48,17 @@ import {
   distributeVertically,
   type AlignmentType 
 } from '@docmaps/graph/alignment';
-import { ungroupAll, validateGroupOperation, moveGroupWithChildren, constrainNodeToGroup, isNodeInGroup } from '@docmaps/graph/grouping';
+import { ungroupAll, validateGroupOperation, moveGroupWithChildren, constrainNodeToGroup, isNodeInGroup, getGroupDescendantIds, getParentGroup } from '@docmaps/graph/grouping';
+import { computeSourceDiff, applySourceDiff, type SourceDiff } from '@docmaps/graph/source-diff';
 import { toast } from '@/lib/utils/toast';
 import { analytics } from '@docmaps/analytics';
-import type { Map as MapType, ProductView } from '@docmaps/database';
+import type { Map as MapType, MapGenerationMetadata, ProductView } from '@docmaps/database';
 import { ConfirmDialog } from '@docmaps/ui';
 import { LeftSidebar } from '../canvas/left-sidebar';
 import { RightPanel } from '../canvas/right-panel';
 import { EditorTopBar } from '../canvas/editor-top-bar';
 import { ViewManagementPanel } from '../canvas/view-management-panel';
+import { SourceDiffDialog } from '../canvas/source-diff-dialog';
 import { ProductNode } from '../canvas/nodes/product-node';
 import { FeatureNode } from '../canvas/nodes/feature-node';
 import { ComponentNode } from '../canvas/nodes/component-node';
@@ -99,6 +102,18 @@ function UnifiedEditorContent({ map, initialViews }: UnifiedEditorProps) {
   const [selectedEdge, setSelectedEdgeState] = useState<Edge | null>(null);
   const [selectedNodes, setSelectedNodes] = useState<Node[]>([]);
 
+  // Refresh from source state (generated single-view maps only)
+  const [generationMetadata, setGenerationMetadata] = useState<MapGenerationMetadata | null>(
+    map.generation_metadata ?? null
+  );
+  const [refreshing, setRefreshing] = useState(false);
+  const [sourceDiff, setSourceDiff] = useState<SourceDiff | null>(null);
+  const [pendingMetadata, setPendingMetadata] = useState<MapGenerationMetadata | null>(null);
+  const [generationMetadataChanged, setGenerationMetadataChanged] = useState(false);
+  const canRefreshFromSource = !isMultiView
+    && !!generationMetadata?.source_url
+    && !generationMetadata.source_url.startsWith('upload://');
+
   // Get active view for multi-view mode
   const activeView = isMultiView ? views[activeViewIndex] : null;
   
@@ -162,9 +177,9 @@ function UnifiedEditorContent({ map, initialViews }: UnifiedEditorProps) {
           
           const groupNode = updatedNodes.find(n => n.id === groupId);
           if (groupNode) {
-            const childNodeIds = groupNode.data.childNodeIds || [];
+            const childNodeIds = getGroupDescendantIds(updatedNodes, groupId);
             
-            // Move all child nodes by the same delta
+            // Move all child nodes (and the contents of nested groups) by the same delta
             updatedNodes = updatedNodes.map(node => {
               if (childNodeIds.includes(node.id)) {
                 return {
@@ -339,11 +354,13 @@ function UnifiedEditorContent({ map, initialViews }: UnifiedEditorProps) {
           .update({
             nodes: cleanNodes,
             edges: cleanEdges,
+            ...(generationMetadataChanged ? { generation_metadata: generationMetadata } : {}),
             updated_at: new Date().toISOString(),
           })
           .eq('id', map.id);
 
         if (error) throw error;
+        setGenerationMetadataChanged(false);
       }
 
       setHasChanges(false);
@@ -355,7 +372,7 @@ function UnifiedEditorContent({ map, initialViews }: UnifiedEditorProps) {
     } finally {
       setSaving(false);
     }
-  }, [nodes, edges, isMultiView, activeView, map.id]);
+  }, [nodes, edges, isMultiView, activeView, map.id, generationMetadata, generationMetadataChanged]);
 
   // Auto-save every 30 seconds
   useEffect(() => {
@@ -572,6 +589,78 @@ function UnifiedEditorContent({ map, initialViews }: UnifiedEditorProps) {
     }
   }, [views, activeViewIndex]);
 
+  // Re-run generation against the source URL and show the diff for review
+  const handleRefreshFromSource = useCallback(async () => {
+    if (!generationMetadata) return;
+
+    setRefreshing(true);
+    try {
+      const response = await fetch(`/api/maps/${map.id}/refresh`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to refresh map');
+      }
+
+      const diff = computeSourceDiff(
+        {
+          nodes,
+          edges,
+          generatedNodeIds: generationMetadata.auto_generated_node_ids || [],
+          generatedEdgeIds: generationMetadata.auto_generated_edge_ids,
+        },
+        { nodes: data.nodes, edges: data.edges }
+      );
+
+      if (diff.changes.length === 0) {
+        toast.success('Map is up to date with its source');
+        return;
+      }
+
+      setPendingMetadata(data.metadata);
+      setSourceDiff(diff);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      toast.error(`Failed to refresh: ${message}`);
+    } finally {
+      setRefreshing(false);
+    }
+  }, [generationMetadata, map.id, nodes, edges]);
+
+  const handleApplySourceDiff = useCallback(async (acceptedChangeIds: string[]) => {
+    if (!sourceDiff || !generationMetadata) return;
+
+    const result = applySourceDiff(
+      {
+        nodes,
+        edges,
+        generatedNodeIds: generationMetadata.auto_generated_node_ids || [],
+        generatedEdgeIds: generationMetadata.auto_generated_edge_ids,
+      },
+      sourceDiff,
+      acceptedChangeIds
+    );
+
+    // Select the new nodes, so "Selected nodes only" auto-layout can place them around the existing map
+    const previousIds = new Set(nodes.map((node) => node.id));
+    setNodes(result.nodes.map((node) => ({ ...node, selected: !previousIds.has(node.id) })));
+    setEdges(result.edges);
+    setSourceDiff(null);
+
+    // Record what is generated now, so the next refresh keeps manual work.
+    // Stored with the next save, together with the nodes it describes
+    const nextMetadata: MapGenerationMetadata = {
+      ...generationMetadata,
+      ...pendingMetadata,
+      auto_generated_node_ids: result.generatedNodeIds,
+      auto_generated_edge_ids: result.generatedEdgeIds,
+    };
+    setGenerationMetadata(nextMetadata);
+    setGenerationMetadataChanged(true);
+    setPendingMetadata(null);
+
+    toast.success(`Applied ${acceptedChangeIds.length} ${acceptedChangeIds.length === 1 ? 'change' : 'changes'} from source`);
+  }, [sourceDiff, generationMetadata, pendingMetadata, nodes, edges, setNodes, setEdges]);
+
   // Handle publish/draft toggle
   const handleTogglePublish = useCallback(
     async (newStatus: 'draft' | 'published') => {
@@ -787,6 +876,13 @@ function UnifiedEditorContent({ map, initialViews }: UnifiedEditorProps) {
       maxY = Math.max(maxY, node.position.y + nodeHeight);
     });
 
+    // Nested groups are drawn on top of the groups that contain them
+    const zIndex = Math.min(
+      -1,
+      ...selectedNodes.filter(n => n.type === 'group').map(n => Number(n.style?.zIndex ?? -1) - 1)
+    );
+    const parentGroup = getParentGroup(nodes, selectedNodeIds[0]);
+
     // Create group node
     const groupNode: Node = {
       id: `group-${Date.now()}`,
@@ -806,13 +902,20 @@ function UnifiedEditorContent({ map, initialViews }: UnifiedEditorProps) {
       style: {
         width: maxX - minX + (padding * 2),
         height: maxY - minY + (padding * 2),
-        zIndex: -1,
+        zIndex,
       },
     };
 
-    // Add group node and deselect all nodes
+    // Add group node and deselect all nodes; inside a group, the new group takes the place of the nodes it holds
     setNodes((nds) => [
-      ...nds.map(n => ({ ...n, selected: false })),
+      ...nds.map(n => {
+        if (n.id !== parentGroup?.id) return { ...n, selected: false };
+        const childNodeIds = [
+          ...(n.data.childNodeIds || []).filter((id: string) => !selectedNodeIds.includes(id)),
+          groupNode.id,
+        ];
+        return { ...n, selected: false, data: { ...n.data, childNodeIds, childCount: childNodeIds.length } };
+      }),
       groupNode,
     ]);
     
@@ -941,10 +1044,17 @@ function UnifiedEditorContent({ map, initialViews }: UnifiedEditorProps) {
 
   // Auto-layout with fitView
   const handleAutoLayout = useCallback(
-    (direction: 'TB' | 'LR') => {
-      const layoutedNodes = applyLayout(nodes, edges, direction);
+    (options: LayoutOptions, selectionOnly: boolean) => {
+      if (selectionOnly && !nodes.some((node) => node.selected)) {
+        toast.error('Select the nodes to arrange');
+        return;
+      }
+
+      // Pinned nodes never move; with selectionOnly, neither does anything outside the selection
+      const fixed = getFixedPositions(nodes, { keepUnselected: selectionOnly });
+      const layoutedNodes = applyLayout(nodes, edges, { ...options, fixed });
       setNodes(layoutedNodes);
-      analytics.trackAutoLayout(direction);
+      analytics.trackAutoLayout(options.engine || 'dagre', options.direction);
       
       // Fit view after layout to keep nodes visible
       setTimeout(() => {
@@ -1160,6 +1270,8 @@ function UnifiedEditorContent({ map, initialViews }: UnifiedEditorProps) {
         hasChanges={hasChanges}
         onSave={handleSave}
         onTogglePublish={handleTogglePublish}
+        onRefreshFromSource={canRefreshFromSource ? handleRefreshFromSource : undefined}
+        refreshing={refreshing}
       />
 
       <div className="flex flex-1 overflow-hidden relative">
@@ -1283,6 +1395,17 @@ function UnifiedEditorContent({ map, initialViews }: UnifiedEditorProps) {
         onConfirm={confirmDeleteEdge}
         variant="destructive"
       />
+
+      <SourceDiffDialog
+        isOpen={!!sourceDiff}
+        onClose={() => {
+          setSourceDiff(null);
+          setPendingMetadata(null);
+        }}
+        diff={sourceDiff}
+        sourceUrl={generationMetadata?.source_url || ''}
+        onApply={handleApplySourceDiff}
+      />
     </div>
   );
 }
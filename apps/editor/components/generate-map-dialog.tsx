@@ -1,8 +1,10 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { X, Loader2, Globe, AlertCircle, Sparkles } from 'lucide-react';
+import { X, Loader2, Globe, AlertCircle, Sparkles, FileCode } from 'lucide-react';
+import { JOB_STATUS_LABELS } from '@/lib/generation/job-status';
+import { useMapGeneration } from '@/lib/hooks/use-map-generation';
 import { toast } from '@/lib/utils/toast';
 
 interface GenerateMapDialogProps {
@@ -13,9 +15,63 @@ interface GenerateMapDialogProps {
 
 export function GenerateMapDialog({ open, onOpenChange, userId }: GenerateMapDialogProps) {
   const router = useRouter();
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [url, setUrl] = useState('');
-  const [loading, setLoading] = useState(false);
+  const [specFile, setSpecFile] = useState<File | null>(null);
+  const [ensemble, setEnsemble] = useState(false);
+  const [multiView, setMultiView] = useState(false);
+  const [docVersion, setDocVersion] = useState('');
+  const [docLocale, setDocLocale] = useState('');
+  const [starting, setStarting] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const [jobId, setJobId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const generation = useMapGeneration(jobId);
+  const loading = starting || (!!jobId && !generation.complete);
+  const fetchedPages = generation.pages.filter((page) => page.status === 'fetched').length;
+
+  // Resume the most recent running job when the dialog opens
+  useEffect(() => {
+    if (!open || jobId) {
+      return;
+    }
+
+    let cancelled = false;
+    fetch('/api/generation-jobs')
+      .then((response) => (response.ok ? response.json() : { jobs: [] }))
+      .then((data) => {
+        if (!cancelled && data.jobs?.length > 0) {
+          setJobId(data.jobs[0].id);
+        }
+      })
+      .catch((err) => console.error('Failed to load generation jobs:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, jobId]);
+
+  // React to the job finishing, even if it finished while the dialog was closed
+  useEffect(() => {
+    if (!jobId || !generation.complete) {
+      return;
+    }
+
+    if (generation.mapId) {
+      toast.success('Map generated successfully!');
+      setJobId(null);
+      onOpenChange(false);
+      router.push(`/editor/maps/${generation.mapId}?generated=true`);
+    } else if (generation.cancelled) {
+      toast.info('Generation cancelled');
+      setJobId(null);
+    } else {
+      const errorMessage = generation.error || 'Generation failed';
+      setError(errorMessage);
+      toast.error(errorMessage);
+      setJobId(null);
+    }
+  }, [jobId, generation.complete, generation.mapId, generation.cancelled, generation.error, onOpenChange, router]);
 
   const validateUrl = (urlString: string): boolean => {
     if (!urlString) {
@@ -45,111 +101,90 @@ export function GenerateMapDialog({ open, onOpenChange, userId }: GenerateMapDia
     }
   };
 
+  const handleSpecSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (!/\.(json|ya?ml|graphqls?|gql)$/i.test(file.name)) {
+      setError('Please select a JSON, YAML or GraphQL file');
+      return;
+    }
+
+    if (file.size > 5 * 1024 * 1024) {
+      setError('Spec file must be less than 5MB');
+      return;
+    }
+
+    setSpecFile(file);
+    setError(null);
+  };
+
+  const handleRemoveSpec = () => {
+    setSpecFile(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
   const handleGenerate = async () => {
-    if (!validateUrl(url)) {
+    if (!specFile && !validateUrl(url)) {
       return;
     }
 
-    setLoading(true);
+    setStarting(true);
     setError(null);
 
     try {
+      const requestBody = specFile
+        ? { spec: await specFile.text(), fileName: specFile.name, multiView }
+        : { url, ensemble, multiView, version: docVersion.trim(), locale: docLocale.trim() };
+
       const response = await fetch('/api/generate-map', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ url }),
+        body: JSON.stringify(requestBody),
       });
 
+      const data = await response.json();
+
       if (!response.ok) {
-        const data = await response.json();
         if (response.status === 429) {
           setError(data.message || 'Rate limit exceeded. Please try again later.');
-          setLoading(false);
           return;
         }
         throw new Error(data.error || 'Failed to start generation');
       }
 
-      // SSE stream started successfully
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-
-      if (!reader) {
-        throw new Error('No response stream');
-      }
-
-      let mapId: string | null = null;
-      let buffer = ''; // Buffer for incomplete chunks
-      let hasError = false;
-      let errorMessage = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        // Append to buffer and decode
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        
-        // Keep the last incomplete line in the buffer
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const jsonStr = line.slice(6).trim();
-              if (!jsonStr) continue;
-              
-              const data = JSON.parse(jsonStr);
-              console.log('SSE event received:', data);
-
-              if (data.type === 'complete') {
-                mapId = data.data?.mapId;
-                console.log('Map ID received:', mapId);
-                if (mapId) {
-                  // Success! Close dialog and redirect to editor
-                  toast.success('Map generated successfully!');
-                  onOpenChange(false);
-                  router.push(`/editor/maps/${mapId}?generated=true`);
-                  return; // Exit early
-                }
-              } else if (data.type === 'error') {
-                hasError = true;
-                errorMessage = data.data?.message || 'Generation failed';
-                console.error('Generation error:', errorMessage, 'Details:', data.data?.details);
-              }
-            } catch (parseError) {
-              console.error('Failed to parse SSE event:', parseError, 'Line:', line);
-            }
-          }
-        }
-      }
-
-      // If we got an error event, throw it
-      if (hasError) {
-        throw new Error(errorMessage);
-      }
-
-      // If we get here, stream ended without receiving mapId
-      if (!mapId) {
-        throw new Error('Generation completed but no map ID received');
-      }
-
+      // Job started; progress arrives through useMapGeneration
+      setJobId(data.jobId);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An error occurred';
       setError(errorMessage);
       toast.error(errorMessage);
     } finally {
-      setLoading(false);
+      setStarting(false);
+    }
+  };
+
+  const handleCancelGeneration = async () => {
+    setCancelling(true);
+    try {
+      await generation.cancel();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to cancel generation');
+    } finally {
+      setCancelling(false);
     }
   };
 
   const handleClose = () => {
-    if (!loading) {
-      onOpenChange(false);
+    // A running job keeps going on the server; reopening the dialog resumes it
+    onOpenChange(false);
+    if (!jobId) {
       setUrl('');
+      setDocVersion('');
+      setDocLocale('');
+      setSpecFile(null);
       setError(null);
     }
   };
@@ -167,8 +202,8 @@ export function GenerateMapDialog({ open, onOpenChange, userId }: GenerateMapDia
           </div>
           <button
             onClick={handleClose}
-            disabled={loading}
-            className="rounded-lg p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600 disabled:opacity-50"
+            title={jobId ? 'Close (generation continues in the background)' : 'Close'}
+            className="rounded-lg p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600"
           >
             <X className="h-5 w-5" />
           </button>
@@ -178,7 +213,8 @@ export function GenerateMapDialog({ open, onOpenChange, userId }: GenerateMapDia
         <p className="mb-6 text-sm text-gray-600">
           Enter a documentation URL to automatically generate a visual map. Works best with
           structured documentation sites like AWS, Stripe, or GitHub. Avoid simple introduction
-          pages - use main documentation or API reference pages instead.
+          pages - use main documentation or API reference pages instead. For APIs, link or upload
+          the OpenAPI/Swagger spec or GraphQL schema for the best results.
         </p>
 
         {/* URL Input */}
@@ -194,12 +230,102 @@ export function GenerateMapDialog({ open, onOpenChange, userId }: GenerateMapDia
               value={url}
               onChange={handleUrlChange}
               placeholder="https://docs.example.com"
-              disabled={loading}
+              disabled={loading || !!specFile}
               className={`w-full rounded-lg border ${
                 error ? 'border-red-300' : 'border-gray-300'
               } py-2 pl-10 pr-4 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 disabled:bg-gray-50 disabled:text-gray-500`}
             />
           </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.yaml,.yml,.graphql,.graphqls,.gql"
+            onChange={handleSpecSelect}
+            className="hidden"
+          />
+          {specFile ? (
+            <div className="mt-2 flex items-center justify-between rounded-lg border border-gray-200 bg-gray-50 px-3 py-2 text-sm text-gray-700">
+              <div className="flex items-center gap-2 truncate">
+                <FileCode className="h-4 w-4 shrink-0 text-gray-400" />
+                <span className="truncate">{specFile.name}</span>
+              </div>
+              <button
+                type="button"
+                onClick={handleRemoveSpec}
+                disabled={loading}
+                className="rounded p-0.5 text-gray-400 hover:text-red-500 disabled:opacity-50"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={loading}
+              className="mt-2 flex items-center gap-1.5 text-sm text-blue-600 hover:text-blue-700 disabled:opacity-50"
+            >
+              <FileCode className="h-4 w-4" />
+              Or upload an OpenAPI/Swagger spec or GraphQL schema
+            </button>
+          )}
+          {!specFile && (
+            <label className="mt-3 flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={ensemble}
+                onChange={(e) => setEnsemble(e.target.checked)}
+                disabled={loading}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Combine all parsing strategies (slower, finds more structure)
+            </label>
+          )}
+          {!specFile && (
+            <div className="mt-3 grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="doc-version" className="mb-1 block text-xs font-medium text-gray-600">
+                  Version (optional)
+                </label>
+                <input
+                  id="doc-version"
+                  type="text"
+                  value={docVersion}
+                  onChange={(e) => setDocVersion(e.target.value)}
+                  placeholder="e.g. v2, latest"
+                  disabled={loading}
+                  className="w-full rounded-lg border border-gray-300 px-3 py-1.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 disabled:bg-gray-50 disabled:text-gray-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="doc-locale" className="mb-1 block text-xs font-medium text-gray-600">
+                  Language (optional)
+                </label>
+                <input
+                  id="doc-locale"
+                  type="text"
+                  value={docLocale}
+                  onChange={(e) => setDocLocale(e.target.value)}
+                  placeholder="e.g. en, ja"
+                  disabled={loading}
+                  className="w-full rounded-lg border border-gray-300 px-3 py-1.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 disabled:bg-gray-50 disabled:text-gray-500"
+                />
+              </div>
+              <p className="col-span-2 text-xs text-gray-500">
+                Leave empty to map the version and language of the URL. Pages in other versions and languages are not crawled.
+              </p>
+            </div>
+          )}
+          <label className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={multiView}
+              onChange={(e) => setMultiView(e.target.checked)}
+              disabled={loading}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Split large docs into an overview and one view per product
+          </label>
           {error && (
             <div className="mt-2 flex items-center gap-1 text-sm text-red-600">
               <AlertCircle className="h-4 w-4" />
@@ -208,29 +334,64 @@ export function GenerateMapDialog({ open, onOpenChange, userId }: GenerateMapDia
           )}
         </div>
 
+        {/* Progress */}
+        {jobId && (
+          <div className="mb-6 rounded-lg border border-gray-200 p-3 text-sm">
+            <div className="flex items-center gap-2 font-medium text-gray-900">
+              <Loader2 className="h-4 w-4 animate-spin text-blue-600" />
+              {generation.status ? JOB_STATUS_LABELS[generation.status] : 'Connecting...'}
+            </div>
+            {generation.message && (
+              <p className="mt-1 text-gray-600">{generation.message}</p>
+            )}
+            {generation.pages.length > 0 && (
+              <p className="mt-1 truncate text-xs text-gray-500">
+                {fetchedPages} {fetchedPages === 1 ? 'page' : 'pages'} crawled
+                {' - '}
+                {generation.pages[generation.pages.length - 1].url}
+              </p>
+            )}
+            <p className="mt-2 text-xs text-gray-500">
+              You can close this dialog; generation continues in the background.
+            </p>
+          </div>
+        )}
+
         {/* Info Box */}
-        <div className="mb-6 rounded-lg bg-blue-50 p-3 text-sm text-blue-800">
-          <p className="font-medium">What happens next:</p>
-          <ul className="mt-1 list-inside list-disc space-y-1 text-blue-700">
-            <li>We&apos;ll fetch and analyze the documentation structure</li>
-            <li>Extract products, features, and components</li>
-            <li>Create a visual map with automatic layout</li>
-            <li>You can edit and customize the generated map</li>
-          </ul>
-        </div>
+        {!jobId && (
+          <div className="mb-6 rounded-lg bg-blue-50 p-3 text-sm text-blue-800">
+            <p className="font-medium">What happens next:</p>
+            <ul className="mt-1 list-inside list-disc space-y-1 text-blue-700">
+              <li>We&apos;ll fetch and analyze the documentation structure</li>
+              <li>Extract products, features, and components</li>
+              <li>Create a visual map with automatic layout</li>
+              <li>You can edit and customize the generated map</li>
+            </ul>
+          </div>
+        )}
 
         {/* Actions */}
         <div className="flex gap-3">
-          <button
-            onClick={handleClose}
-            disabled={loading}
-            className="flex-1 rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
-          >
-            Cancel
-          </button>
+          {jobId ? (
+            <button
+              onClick={handleCancelGeneration}
+              disabled={cancelling || generation.status === 'saving'}
+              className="flex-1 rounded-lg border border-red-300 px-4 py-2 text-sm font-medium text-red-600 hover:bg-red-50 disabled:opacity-50"
+            >
+              {cancelling ? 'Cancelling...' : 'Cancel generation'}
+            </button>
+          ) : (
+            <button
+              onClick={handleClose}
+              disabled={starting}
+              className="flex-1 rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+          )}
           <button
             onClick={handleGenerate}
-            disabled={loading || !url}
+            disabled={loading || (!url && !specFile)}
             className="flex flex-1 items-center justify-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
           >
             {loading ? (
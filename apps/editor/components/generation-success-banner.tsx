@@ -1,10 +1,16 @@
 'use client';
 
 import { useEffect, useState } from 'react';
+import Link from 'next/link';
 import { useSearchParams } from 'next/navigation';
 import { CheckCircle2, X, Sparkles } from 'lucide-react';
 
-export function GenerationSuccessBanner() {
+interface GenerationSuccessBannerProps {
+  /** Link to the generation report, when the map has a parse trace */
+  reportHref?: string;
+}
+
+export function GenerationSuccessBanner({ reportHref }: GenerationSuccessBannerProps) {
   const searchParams = useSearchParams();
   const [show, setShow] = useState(false);
 
@@ -32,6 +38,11 @@ export function GenerationSuccessBanner() {
           <p className="text-xs text-white/90 mt-0.5">
             You can now edit and customize your map
           </p>
+          {reportHref && (
+            <Link href={reportHref} className="text-xs font-medium underline underline-offset-2 hover:text-white/80 mt-1 inline-block">
+              See how it was generated
+            </Link>
+          )}
         </div>
         <button
           onClick={() => setShow(false)}
@@ -0,0 +1,23 @@
+import { Pool } from 'pg';
+import { configureCache, FileSystemCacheStore, PostgresCacheStore } from '@docmaps/doc-parser';
+import { DOC_CACHE_DATABASE_URL, DOC_CACHE_DIR } from '@docmaps/config';
+
+let configured = false;
+
+/**
+ * Point the documentation cache at persistent storage, once per server instance
+ * The documentation_cache table is shared by every instance and survives cold
+ * starts; a cache directory only persists on a long-running server
+ */
+export function configureDocCache(): void {
+  if (configured) {
+    return;
+  }
+  configured = true;
+
+  if (DOC_CACHE_DATABASE_URL) {
+    configureCache(new PostgresCacheStore(new Pool({ connectionString: DOC_CACHE_DATABASE_URL })));
+  } else if (DOC_CACHE_DIR) {
+    configureCache(new FileSystemCacheStore(DOC_CACHE_DIR));
+  }
+}
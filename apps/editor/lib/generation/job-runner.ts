@@ -0,0 +1,373 @@
+import {
+  fetchDocumentation,
+  fetchWithBrowser,
+  isGraphQLSchemaUrl,
+  isOpenApiSpecUrl,
+  parseDocumentation,
+  splitIntoViews,
+} from '@docmaps/doc-parser';
+import { applyLayout } from '@docmaps/graph/layout';
+import { createServiceClient } from '@docmaps/auth/service';
+import { ACTIVE_JOB_STATUSES } from './job-status';
+import type { createServerClient } from '@docmaps/auth/server';
+import type { CrawledPage, ExtractedNode, ExtractedEdge, FetchResult } from '@docmaps/doc-parser';
+import type {
+  EdgeData,
+  GenerationJob,
+  GenerationJobError,
+  GenerationJobProgress,
+  GenerationJobStatus,
+  GenerationJobUpdate,
+  NodeData,
+} from '@docmaps/database';
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createServerClient>>;
+
+/** Request clients (cookie session) and the runner's service-role client */
+type SupabaseJobClient = SupabaseServerClient | ReturnType<typeof createServiceClient>;
+
+/** Maximum duration of one generation (5 minutes) */
+export const JOB_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** A job that has not written progress for this long lost its runner */
+export const STALE_JOB_MS = JOB_TIMEOUT_MS + 60 * 1000;
+
+export interface GenerationJobInput {
+  /** Uploaded OpenAPI/Swagger document or GraphQL schema (the job's source_url is upload://<file name>) */
+  spec?: string;
+  /** Merge all parsing strategies */
+  ensemble?: boolean;
+  /** Split the result into an overview and one product view per top-level node */
+  multiView?: boolean;
+  /** Documentation version to map (e.g. 'v2', '2.x') */
+  version?: string;
+  /** Documentation locale to map (e.g. 'en', 'ja') */
+  locale?: string;
+}
+
+// Jobs running in this process, so a cancel request handled here aborts at once
+const runningJobs = new Map<string, AbortController>();
+
+/**
+ * Start running a queued job in the background
+ * Progress is written to the job row; the request that created the job can
+ * return immediately, but must keep its function alive until the returned
+ * promise settles (waitUntil), or serverless platforms freeze the job.
+ *
+ * The runner uses its own service-role client: the request's cookie client
+ * cannot be used once the response is sent. The job row was created by its
+ * owner, so its ID and user_id scope every write.
+ *
+ * @param job - Queued job
+ * @param input - Spec upload and options that are not stored on the row
+ * @returns Promise that settles when the job has finished; it never rejects
+ */
+export function startGenerationJob(job: GenerationJob, input: GenerationJobInput = {}): Promise<void> {
+  const controller = new AbortController();
+  runningJobs.set(job.id, controller);
+
+  // Created inside the promise so missing configuration is logged like any other crash
+  const run = async () => runGenerationJob(createServiceClient(), job, input, controller);
+  return run()
+    .catch((error) => console.error('[Jobs] Runner crashed:', job.id, error))
+    .finally(() => runningJobs.delete(job.id));
+}
+
+/**
+ * Abort a job running in this process
+ * Jobs running elsewhere notice the cancelled status on their next progress write.
+ *
+ * @param jobId - Job to abort
+ * @returns true if the job was running here
+ */
+export function abortGenerationJob(jobId: string): boolean {
+  const controller = runningJobs.get(jobId);
+  if (!controller) {
+    return false;
+  }
+  controller.abort(new Error('Generation cancelled'));
+  return true;
+}
+
+/**
+ * Update a job that is still active
+ * Returns false if the job is no longer active (it was cancelled or finished),
+ * so runners and stale-job cleanup never overwrite a final status.
+ */
+export async function updateActiveJob(
+  supabase: SupabaseJobClient,
+  jobId: string,
+  update: GenerationJobUpdate
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('generation_jobs')
+    // @ts-ignore - Supabase type inference issue with JSONB columns
+    .update(update)
+    .eq('id', jobId)
+    .in('status', ACTIVE_JOB_STATUSES)
+    .select('id');
+
+  if (error) {
+    console.error('[Jobs] Failed to update job:', jobId, error.message);
+    return true;
+  }
+
+  return (data?.length || 0) > 0;
+}
+
+/**
+ * Lay out extracted nodes and edges as stored map data
+ */
+function layoutGraph(nodes: ExtractedNode[], edges: ExtractedEdge[]): { nodes: NodeData[]; edges: EdgeData[] } {
+  const nodesForLayout = nodes.map((node) => ({
+    id: node.id,
+    type: node.type,
+    position: { x: 0, y: 0 }, // Will be calculated by layout
+    data: node.data,
+  }));
+
+  const edgesForLayout = edges.map((edge) => ({
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    type: edge.type,
+    label: edge.label,
+    floating: edge.floating,
+    style: edge.style,
+  }));
+
+  return {
+    nodes: applyLayout(nodesForLayout, edgesForLayout) as NodeData[],
+    edges: edgesForLayout as EdgeData[],
+  };
+}
+
+async function runGenerationJob(
+  supabase: SupabaseJobClient,
+  job: GenerationJob,
+  input: GenerationJobInput,
+  controller: AbortController
+): Promise<void> {
+  const { signal } = controller;
+  const sourceUrl = job.source_url;
+  const progress: GenerationJobProgress = { pages: [] };
+
+  const timeoutError = new Error('Generation timeout after 5 minutes');
+  const timeoutId = setTimeout(() => controller.abort(timeoutError), JOB_TIMEOUT_MS);
+
+  // Writes are chained so page updates land in order and before the next status
+  let writes: Promise<void> = Promise.resolve();
+  const write = (update: GenerationJobUpdate) => {
+    writes = writes.then(async () => {
+      const active = await updateActiveJob(supabase, job.id, update);
+      if (!active && !signal.aborted) {
+        // Cancelled from another server instance
+        controller.abort(new Error('Generation cancelled'));
+      }
+    });
+    return writes;
+  };
+
+  const setStatus = async (status: GenerationJobStatus, message: string) => {
+    await write({ status, message, progress: { ...progress } });
+    signal.throwIfAborted();
+  };
+
+  const fail = async (jobError: GenerationJobError) => {
+    console.log('[Jobs] Job failed:', job.id, jobError.code, jobError.details || '');
+    await write({
+      status: 'failed',
+      message: jobError.message,
+      error: jobError,
+      progress: { ...progress },
+      finished_at: new Date().toISOString(),
+    });
+  };
+
+  const onPageCrawled = (page: CrawledPage) => {
+    progress.pages.push(page);
+    const fetched = progress.pages.filter((p) => p.status === 'fetched').length;
+    write({
+      message: `Crawled ${fetched} ${fetched === 1 ? 'page' : 'pages'}...`,
+      progress: { ...progress, pages: [...progress.pages] },
+    });
+  };
+
+  try {
+    console.log('[Jobs] Starting job:', job.id, sourceUrl);
+
+    // Step 1: Fetch documentation with browser (raw specs and schemas are fetched directly)
+    let fetchResult: FetchResult;
+    if (typeof input.spec === 'string') {
+      await setStatus('parsing', 'Reading uploaded API spec...');
+      fetchResult = { url: sourceUrl, html: input.spec, contentType: 'text/plain', statusCode: 200 };
+    } else if (isOpenApiSpecUrl(sourceUrl) || isGraphQLSchemaUrl(sourceUrl)) {
+      await setStatus('crawling', 'Fetching API spec...');
+      fetchResult = await fetchDocumentation(sourceUrl, { signal });
+    } else {
+      await setStatus('crawling', 'Launching browser and fetching documentation...');
+      fetchResult = await fetchWithBrowser(sourceUrl, { signal });
+    }
+
+    if (fetchResult.statusCode !== 200) {
+      await fail({
+        code: 'FETCH_FAILED',
+        message: `Failed to fetch documentation (HTTP ${fetchResult.statusCode})`,
+      });
+      return;
+    }
+
+    // Step 2: Crawl and parse (deep crawl reports every page it fetches)
+    if (typeof input.spec !== 'string') {
+      await setStatus('crawling', 'Crawling documentation pages...');
+    }
+    const parseResult = await parseDocumentation(fetchResult.html, fetchResult.url, true, {
+      ensemble: input.ensemble === true,
+      multiView: input.multiView === true,
+      version: input.version,
+      locale: input.locale,
+      signal,
+      onPageCrawled,
+    });
+
+    progress.nodes = parseResult.nodes.length;
+    progress.edges = parseResult.edges.length;
+    await setStatus('parsing', 'Analyzing structure...');
+
+    if (parseResult.nodes.length === 0) {
+      await fail({
+        code: 'NO_CONTENT',
+        message: 'No content could be extracted from the documentation. The page may not have a clear hierarchical structure.',
+      });
+      return;
+    }
+
+    // Step 3: Calculate layout
+    await setStatus('layouting', 'Calculating layout...');
+
+    // Multi-view maps store the overview on the map and every view as a product_views row
+    const split = input.multiView ? splitIntoViews(parseResult) : null;
+    const viewsToSave = split && split.views.length > 0
+      ? [split.overview, ...split.views].map((view) => ({ ...view, ...layoutGraph(view.nodes, view.edges) }))
+      : null;
+    const { nodes: layoutedNodes, edges: edgesForLayout } = viewsToSave
+      ? viewsToSave[0]
+      : layoutGraph(parseResult.nodes, parseResult.edges);
+
+    // Step 4: Save to database (no longer cancellable from here on)
+    await setStatus('saving', 'Saving map...');
+
+    // Generate slug from URL (uploaded specs use the API title instead)
+    const productNode = parseResult.nodes.find((n: ExtractedNode) => n.type === 'product');
+    const hostname = typeof input.spec === 'string'
+      ? productNode?.data.label || 'api'
+      : new URL(sourceUrl).hostname.replace(/^www\./, '');
+    const slugBase = hostname.split('.')[0].toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'map';
+    const slug = `${slugBase}-${Date.now()}`;
+
+    // @ts-ignore - Supabase type inference issue with JSONB columns
+    const { data: map, error: insertError } = await supabase
+      .from('maps')
+      // @ts-ignore - Type inference issue
+      .insert({
+        user_id: job.user_id,
+        slug,
+        title: `Generated from ${hostname}`,
+        product_name: hostname,
+        product_url: typeof input.spec === 'string' ? null : sourceUrl,
+        description: `Auto-generated map from ${sourceUrl}`,
+        status: 'draft',
+        view_type: viewsToSave ? 'multi' : 'single',
+        nodes: layoutedNodes,
+        edges: edgesForLayout,
+        metadata: {},
+        generation_metadata: {
+          source_url: sourceUrl,
+          generated_at: new Date().toISOString(),
+          strategy: parseResult.metadata.strategy,
+          confidence: parseResult.metadata.confidence,
+          warnings: parseResult.metadata.warnings,
+          crawl_plan_source: parseResult.metadata.crawl_plan_source,
+          ensemble_strategies: parseResult.metadata.ensemble_strategies,
+          node_provenance: parseResult.metadata.node_provenance,
+          status_evidence: parseResult.metadata.status_evidence,
+          version: parseResult.metadata.version,
+          locale: parseResult.metadata.locale,
+          available_versions: parseResult.metadata.available_versions,
+          available_locales: parseResult.metadata.available_locales,
+          stats: parseResult.metadata.stats,
+          trace: parseResult.metadata.trace,
+          auto_generated_node_ids: parseResult.nodes.map((n: ExtractedNode) => n.id),
+          auto_generated_edge_ids: viewsToSave
+            ? viewsToSave.flatMap((view) => view.edges.map((e) => e.id))
+            : edgesForLayout.map((e) => e.id),
+        },
+        published_at: null,
+      })
+      .select()
+      .single();
+
+    if (insertError || !map) {
+      await fail({
+        code: 'DATABASE_ERROR',
+        message: 'Failed to save map to database',
+        details: insertError?.message,
+      });
+      return;
+    }
+
+    const mapId = (map as any).id as string;
+
+    if (viewsToSave) {
+      const { error: viewsError } = await supabase
+        .from('product_views')
+        // @ts-ignore - Supabase type inference issue with JSONB columns
+        .insert(viewsToSave.map((view, index) => ({
+          map_id: mapId,
+          title: view.title,
+          slug: view.slug,
+          order_index: index,
+          nodes: view.nodes,
+          edges: view.edges,
+        })));
+
+      if (viewsError) {
+        await supabase.from('maps').delete().eq('id', mapId);
+        await fail({
+          code: 'DATABASE_ERROR',
+          message: 'Failed to save map views to database',
+          details: viewsError.message,
+        });
+        return;
+      }
+    }
+
+    // Step 5: Complete
+    console.log('[Jobs] Job complete:', job.id, 'mapId:', mapId);
+    await write({
+      status: 'done',
+      message: 'Map generated',
+      map_id: mapId,
+      progress: { ...progress },
+      finished_at: new Date().toISOString(),
+    });
+  } catch (error: unknown) {
+    if (signal.aborted && signal.reason === timeoutError) {
+      await fail({
+        code: 'TIMEOUT',
+        message: 'Generation took too long. Please try again with a simpler documentation page.',
+      });
+    } else if (signal.aborted) {
+      // The cancel request already stored the final status
+      console.log('[Jobs] Job cancelled:', job.id);
+    } else {
+      await fail({
+        code: 'GENERATION_FAILED',
+        message: 'An error occurred during map generation',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
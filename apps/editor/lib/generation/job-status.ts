@@ -0,0 +1,23 @@
+import type { GenerationJobStatus } from '@docmaps/database';
+
+/** Statuses of a job that is still running */
+export const ACTIVE_JOB_STATUSES: GenerationJobStatus[] = ['queued', 'crawling', 'parsing', 'layouting', 'saving'];
+
+/** Statuses a job can be cancelled in (once saving starts the map is kept) */
+export const CANCELLABLE_JOB_STATUSES: GenerationJobStatus[] = ['queued', 'crawling', 'parsing', 'layouting'];
+
+/** Labels shown while a job is in each status */
+export const JOB_STATUS_LABELS: Record<GenerationJobStatus, string> = {
+  queued: 'Queued',
+  crawling: 'Crawling documentation',
+  parsing: 'Analyzing structure',
+  layouting: 'Calculating layout',
+  saving: 'Saving map',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+export function isActiveJobStatus(status: GenerationJobStatus): boolean {
+  return ACTIVE_JOB_STATUSES.includes(status);
+}
@@ -1,51 +1,60 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
-import type { Node, Edge } from 'reactflow';
+import { useState, useEffect, useCallback } from 'react';
+import type { GenerationJobPage, GenerationJobStatus } from '@docmaps/database';
 
 interface GenerationState {
-  status: string;
-  nodes: Node[];
-  edges: Edge[];
+  status: GenerationJobStatus | null;
+  message: string;
+  pages: GenerationJobPage[];
   error: string | null;
   complete: boolean;
+  cancelled: boolean;
   mapId: string | null;
 }
 
 interface UseMapGenerationReturn extends GenerationState {
-  cancel: () => void;
+  cancel: () => Promise<void>;
 }
 
+const initialState: GenerationState = {
+  status: null,
+  message: '',
+  pages: [],
+  error: null,
+  complete: false,
+  cancelled: false,
+  mapId: null,
+};
+
 /**
- * Hook for managing map generation via SSE
- * @param url - Documentation URL to generate from
- * @param enabled - Whether to start generation
+ * Hook for following a generation job via SSE
+ * The job keeps running on the server when the component unmounts; mounting
+ * again with the same job ID reconnects to its progress stream.
+ * @param jobId - Generation job to follow
  */
-export function useMapGeneration(url: string | null, enabled: boolean): UseMapGenerationReturn {
-  const [state, setState] = useState<GenerationState>({
-    status: '',
-    nodes: [],
-    edges: [],
-    error: null,
-    complete: false,
-    mapId: null,
-  });
-
-  const eventSourceRef = useRef<EventSource | null>(null);
-
-  const cancel = useCallback(() => {
-    if (eventSourceRef.current) {
-      eventSourceRef.current.close();
-      eventSourceRef.current = null;
+export function useMapGeneration(jobId: string | null): UseMapGenerationReturn {
+  const [state, setState] = useState<GenerationState>(initialState);
+
+  const cancel = useCallback(async () => {
+    if (!jobId) {
+      return;
     }
-  }, []);
+
+    const response = await fetch(`/api/generation-jobs/${jobId}/cancel`, { method: 'POST' });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to cancel generation');
+    }
+  }, [jobId]);
 
   useEffect(() => {
-    if (!url || !enabled) {
+    setState(initialState);
+
+    if (!jobId) {
       return;
     }
 
     // Create EventSource for SSE
-    const eventSource = new EventSource(`/api/generate-map?url=${encodeURIComponent(url)}`);
-    eventSourceRef.current = eventSource;
+    const eventSource = new EventSource(`/api/generation-jobs/${jobId}/events`);
 
     // Handle incoming messages
     eventSource.onmessage = (event) => {
@@ -56,44 +65,34 @@ export function useMapGeneration(url: string | null, enabled: boolean): UseMapGe
           case 'status':
             setState((prev) => ({
               ...prev,
-              status: data.data?.message || data.message || '',
-            }));
-            break;
-
-          case 'node':
-            setState((prev) => ({
-              ...prev,
-              nodes: [...prev.nodes, data.data],
-            }));
-            break;
-
-          case 'edge':
-            setState((prev) => ({
-              ...prev,
-              edges: [...prev.edges, data.data],
+              status: data.data?.status || prev.status,
+              message: data.data?.message || '',
+              pages: data.data?.progress?.pages || prev.pages,
             }));
             break;
 
-          case 'layout':
+          case 'complete':
             setState((prev) => ({
               ...prev,
-              nodes: data.data.nodes,
+              complete: true,
+              mapId: data.data?.mapId || null,
             }));
+            eventSource.close();
             break;
 
-          case 'complete':
+          case 'error':
             setState((prev) => ({
               ...prev,
+              error: data.data?.message || 'An error occurred',
               complete: true,
-              mapId: data.data?.mapId || data.mapId,
             }));
             eventSource.close();
             break;
 
-          case 'error':
+          case 'cancelled':
             setState((prev) => ({
               ...prev,
-              error: data.data?.message || data.message || 'An error occurred',
+              cancelled: true,
               complete: true,
             }));
             eventSource.close();
@@ -107,22 +106,24 @@ export function useMapGeneration(url: string | null, enabled: boolean): UseMapGe
       }
     };
 
-    // Handle errors
+    // EventSource reconnects by itself; the job's state is resent on reconnect
     eventSource.onerror = () => {
-      setState((prev) => ({
-        ...prev,
-        error: 'Connection to server lost',
-        complete: true,
-      }));
-      eventSource.close();
+      if (eventSource.readyState === EventSource.CLOSED) {
+        setState((prev) => (prev.complete ? prev : {
+          ...prev,
+          error: 'Connection to server lost',
+          complete: true,
+        }));
+      } else {
+        setState((prev) => ({ ...prev, message: 'Reconnecting...' }));
+      }
     };
 
     // Cleanup on unmount
     return () => {
       eventSource.close();
-      eventSourceRef.current = null;
     };
-  }, [url, enabled]);
+  }, [jobId]);
 
   return {
     ...state,
@@ -3,7 +3,7 @@
 import { useCallback, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
-import { ExternalLink, Share2, Code2, Layers, Check, Copy, ChevronDown, Download, ArrowLeft, MoreVertical } from 'lucide-react';
+import { ExternalLink, Share2, Code2, Layers, Check, Copy, ChevronDown, Download, ArrowLeft, MoreVertical, FileText, Image as ImageIcon } from 'lucide-react';
 import { toast } from 'sonner';
 import { formatDistanceToNow } from 'date-fns';
 import type { Map as MapType, ProductView } from '@docmaps/database';
@@ -14,9 +14,14 @@ interface ViewerHeaderProps {
   viewCount?: number;
   embedded?: boolean;
   onExportSVG?: () => void;
+  /** Called with the output pixels per map pixel */
+  onExportPNG?: (scale: number) => void;
+  onExportPDF?: () => void;
 }
 
-export function ViewerHeader({ map, currentView, viewCount, embedded = false, onExportSVG }: ViewerHeaderProps) {
+const PNG_SCALES = [1, 2, 4];
+
+export function ViewerHeader({ map, currentView, viewCount, embedded = false, onExportSVG, onExportPNG, onExportPDF }: ViewerHeaderProps) {
   const router = useRouter();
   const [showShareMenu, setShowShareMenu] = useState(false);
   const [showMobileMenu, setShowMobileMenu] = useState(false);
@@ -75,6 +80,24 @@ export function ViewerHeader({ map, currentView, viewCount, embedded = false, on
     }
   }, [onExportSVG]);
 
+  const handleExportPNG = useCallback((scale: number) => {
+    if (onExportPNG) {
+      onExportPNG(scale);
+      setShowShareMenu(false);
+      setShowMobileMenu(false);
+    }
+  }, [onExportPNG]);
+
+  const handleExportPDF = useCallback(() => {
+    if (onExportPDF) {
+      onExportPDF();
+      setShowShareMenu(false);
+      setShowMobileMenu(false);
+    }
+  }, [onExportPDF]);
+
+  const canExport = Boolean(onExportSVG || onExportPNG || onExportPDF);
+
   const handleBack = useCallback(() => {
     router.push('/maps');
   }, [router]);
@@ -208,17 +231,42 @@ export function ViewerHeader({ map, currentView, viewCount, embedded = false, on
                         )}
                         <span>Copy embed code</span>
                       </button>
+                      {canExport && <div className="my-1 border-t border-neutral-700" />}
                       {onExportSVG && (
-                        <>
-                          <div className="my-1 border-t border-neutral-700" />
-                          <button
-                            disabled
-                            className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-neutral-500 cursor-not-allowed opacity-50"
-                          >
-                            <Download className="h-4 w-4" />
-                            <span>Export as SVG</span>
-                          </button>
-                        </>
+                        <button
+                          onClick={handleExportSVG}
+                          className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-neutral-200 hover:bg-neutral-700 transition-colors"
+                        >
+                          <Download className="h-4 w-4 text-neutral-400" />
+                          <span>Export as SVG</span>
+                        </button>
+                      )}
+                      {onExportPNG && (
+                        <div className="flex items-center gap-3 px-4 py-2 text-sm text-neutral-200">
+                          <ImageIcon className="h-4 w-4 text-neutral-400" />
+                          <span>Export as PNG</span>
+                          <div className="ml-auto flex items-center gap-1">
+                            {PNG_SCALES.map((scale) => (
+                              <button
+                                key={scale}
+                                onClick={() => handleExportPNG(scale)}
+                                className="rounded-md border border-neutral-700 px-1.5 py-0.5 text-xs font-medium text-neutral-300 hover:bg-neutral-700 hover:text-white transition-colors"
+                                aria-label={`Export as PNG at ${scale}x`}
+                              >
+                                {scale}×
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                      {onExportPDF && (
+                        <button
+                          onClick={handleExportPDF}
+                          className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-neutral-200 hover:bg-neutral-700 transition-colors"
+                        >
+                          <FileText className="h-4 w-4 text-neutral-400" />
+                          <span>Export as PDF</span>
+                        </button>
                       )}
                     </div>
                   </>
@@ -300,13 +348,40 @@ export function ViewerHeader({ map, currentView, viewCount, embedded = false, on
                   </button>
                   {onExportSVG && (
                     <button
-                      disabled
-                      className="w-full flex items-center gap-3 px-4 py-3 text-sm text-neutral-500 cursor-not-allowed opacity-50"
+                      onClick={handleExportSVG}
+                      className="w-full flex items-center gap-3 px-4 py-3 text-sm text-neutral-200 hover:bg-neutral-700 transition-colors"
                     >
-                      <Download className="h-4 w-4" />
+                      <Download className="h-4 w-4 text-neutral-400" />
                       <span>Export as SVG</span>
                     </button>
                   )}
+                  {onExportPNG && (
+                    <div className="flex items-center gap-3 px-4 py-3 text-sm text-neutral-200">
+                      <ImageIcon className="h-4 w-4 text-neutral-400" />
+                      <span>Export as PNG</span>
+                      <div className="ml-auto flex items-center gap-1">
+                        {PNG_SCALES.map((scale) => (
+                          <button
+                            key={scale}
+                            onClick={() => handleExportPNG(scale)}
+                            className="rounded-md border border-neutral-700 px-2 py-1 text-xs font-medium text-neutral-300 hover:bg-neutral-700 hover:text-white transition-colors"
+                            aria-label={`Export as PNG at ${scale}x`}
+                          >
+                            {scale}×
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  {onExportPDF && (
+                    <button
+                      onClick={handleExportPDF}
+                      className="w-full flex items-center gap-3 px-4 py-3 text-sm text-neutral-200 hover:bg-neutral-700 transition-colors"
+                    >
+                      <FileText className="h-4 w-4 text-neutral-400" />
+                      <span>Export as PDF</span>
+                    </button>
+                  )}
                 </div>
 
                 {/* View Docs link */}
@@ -35,7 +35,8 @@ import {
   ExtensionEdge,
   GroupingEdge,
 } from '../edges';
-import { exportToSVG } from '@docmaps/graph';
+import { exportToSVG, exportToPNG, exportToPDF } from '@docmaps/graph';
+import { analytics } from '@docmaps/analytics';
 
 interface MultiMapViewerProps {
   map: MapType;
@@ -298,12 +299,69 @@ function MultiMapViewerContent({ map, views, embedded = false, initialViewIndex
         title: `${map.title}-${activeView.title}`,
       });
 
+      analytics.trackMapExported(map.id, 'svg');
       toast.success('SVG exported successfully');
     } catch (error) {
       console.error('SVG export error:', error);
       toast.error('Failed to export SVG');
     }
-  }, [activeView, map.title]);
+  }, [activeView, map.id, map.title]);
+
+  const handleExportPNG = useCallback(async (scale: number) => {
+    try {
+      const nodes = activeView.nodes as Node[];
+      const edges = activeView.edges as Edge[];
+      
+      if (nodes.length === 0) {
+        toast.error('No nodes to export');
+        return;
+      }
+
+      const exported = await exportToPNG(nodes, edges, {
+        title: `${map.title}-${activeView.title}`,
+        scale,
+      });
+
+      analytics.trackMapExported(map.id, 'png');
+      if (exported.scale < scale) {
+        toast.warning(`PNG exported at ${exported.scale}×: the map is too large for ${scale}× in this browser`);
+      } else {
+        toast.success('PNG exported successfully');
+      }
+    } catch (error) {
+      console.error('PNG export error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export PNG');
+    }
+  }, [activeView, map.id, map.title]);
+
+  // One page per view, after a cover page
+  const handleExportPDF = useCallback(async () => {
+    try {
+      const pages = views.map((view) => ({
+        title: view.title,
+        nodes: view.nodes as Node[],
+        edges: view.edges as Edge[],
+      }));
+      
+      if (pages.every((page) => page.nodes.length === 0)) {
+        toast.error('No nodes to export');
+        return;
+      }
+
+      await exportToPDF(pages, {
+        title: map.title,
+        description: map.description,
+        logoUrl: map.logo_url,
+        cover: true,
+      });
+
+      analytics.trackMapExported(map.id, 'pdf');
+      toast.success('PDF exported successfully');
+    } catch (error) {
+      console.error('PDF export error:', error);
+      toast.error('Failed to export PDF');
+    }
+  }, [views, map]);
 
   return (
     <div className="flex h-screen flex-col bg-neutral-900 overflow-hidden">
@@ -312,6 +370,8 @@ function MultiMapViewerContent({ map, views, embedded = false, initialViewIndex
         currentView={activeView} 
         embedded={embedded}
         onExportSVG={handleExportSVG}
+        onExportPNG={handleExportPNG}
+        onExportPDF={handleExportPDF}
       />
 
       <div className="flex flex-1 overflow-hidden relative">
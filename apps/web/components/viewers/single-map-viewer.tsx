@@ -35,7 +35,8 @@ import {
   ExtensionEdge,
   GroupingEdge,
 } from '../edges';
-import { exportToSVG } from '@docmaps/graph';
+import { exportToSVG, exportToPNG, exportToPDF } from '@docmaps/graph';
+import { analytics } from '@docmaps/analytics';
 
 interface SingleMapViewerProps {
   map: MapType;
@@ -234,6 +235,7 @@ function SingleMapViewerContent({ map, embedded = false }: SingleMapViewerProps)
         title: map.title,
       });
 
+      analytics.trackMapExported(map.id, 'svg');
       toast.success('SVG exported successfully');
     } catch (error) {
       console.error('SVG export error:', error);
@@ -241,9 +243,64 @@ function SingleMapViewerContent({ map, embedded = false }: SingleMapViewerProps)
     }
   }, [map]);
 
+  const handleExportPNG = useCallback(async (scale: number) => {
+    try {
+      const nodes = map.nodes as Node[];
+      const edges = map.edges as Edge[];
+      
+      if (nodes.length === 0) {
+        toast.error('No nodes to export');
+        return;
+      }
+
+      const exported = await exportToPNG(nodes, edges, {
+        title: map.title,
+        scale,
+      });
+
+      analytics.trackMapExported(map.id, 'png');
+      if (exported.scale < scale) {
+        toast.warning(`PNG exported at ${exported.scale}×: the map is too large for ${scale}× in this browser`);
+      } else {
+        toast.success('PNG exported successfully');
+      }
+    } catch (error) {
+      console.error('PNG export error:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export PNG');
+    }
+  }, [map]);
+
+  const handleExportPDF = useCallback(async () => {
+    try {
+      const nodes = map.nodes as Node[];
+      const edges = map.edges as Edge[];
+      
+      if (nodes.length === 0) {
+        toast.error('No nodes to export');
+        return;
+      }
+
+      await exportToPDF([{ title: map.title, nodes, edges }], {
+        title: map.title,
+      });
+
+      analytics.trackMapExported(map.id, 'pdf');
+      toast.success('PDF exported successfully');
+    } catch (error) {
+      console.error('PDF export error:', error);
+      toast.error('Failed to export PDF');
+    }
+  }, [map]);
+
   return (
     <div className="flex h-screen flex-col bg-neutral-900 overflow-hidden">
-      <ViewerHeader map={map} embedded={embedded} onExportSVG={handleExportSVG} />
+      <ViewerHeader
+        map={map}
+        embedded={embedded}
+        onExportSVG={handleExportSVG}
+        onExportPNG={handleExportPNG}
+        onExportPDF={handleExportPDF}
+      />
 
       <div className="flex-1 relative overflow-hidden">
         {/* Floating Controls - Top Left */}
@@ -39,11 +39,11 @@ export const analytics = {
     track('map_deleted', { map_id: mapId });
   },
 
-  trackAutoLayout: (direction: 'TB' | 'LR') => {
-    track('auto_layout_used', { direction });
+  trackAutoLayout: (engine: 'dagre' | 'radial' | 'mind-map' | 'force' | 'grid', direction?: 'TB' | 'LR') => {
+    track('auto_layout_used', { engine, direction });
   },
 
-  trackMapExported: (mapId: string, format: 'svg') => {
+  trackMapExported: (mapId: string, format: 'svg' | 'png' | 'pdf') => {
     track('map_exported', { map_id: mapId, format });
   },
 
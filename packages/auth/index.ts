@@ -7,3 +7,6 @@ export { createClient } from './supabase/client';
 // Server client (server components only)
 // Import separately: import { createServerClient } from '@docmaps/auth/server'
 
+// Service-role client for background jobs (server only)
+// Import separately: import { createServiceClient } from '@docmaps/auth/service'
+
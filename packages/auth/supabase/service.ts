@@ -0,0 +1,25 @@
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '@docmaps/database';
+
+/**
+ * Service-role client for work that outlives a request (generation jobs)
+ * It does not read the request's cookies and bypasses RLS, so callers must
+ * scope every query to rows the user already owns.
+ */
+export function createServiceClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error(
+      'Missing Supabase service role environment variables. Please check your .env.local file.'
+    );
+  }
+
+  return createClient<Database>(supabaseUrl, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+}
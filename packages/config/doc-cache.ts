@@ -0,0 +1,17 @@
+/**
+ * Documentation Cache
+ *
+ * Pages fetched during map generation are cached for an hour and revalidated
+ * with ETag/Last-Modified afterwards. By default the cache lives in memory and
+ * is lost on every cold start.
+ *
+ * - DOC_CACHE_DATABASE_URL: Postgres connection string for the shared
+ *   documentation_cache table (DOCMAPS_CACHE_DATABASE_URL environment
+ *   variable); takes precedence over the directory
+ * - DOC_CACHE_DIR: directory for a persistent filesystem cache
+ *   (DOCMAPS_CACHE_DIR environment variable), or null for in-memory only
+ */
+
+export const DOC_CACHE_DATABASE_URL: string | null = process.env.DOCMAPS_CACHE_DATABASE_URL?.trim() || null;
+
+export const DOC_CACHE_DIR: string | null = process.env.DOCMAPS_CACHE_DIR?.trim() || null;
@@ -0,0 +1,33 @@
+/**
+ * Documentation Fetch Host Policy
+ *
+ * Controls which hosts map generation may fetch. Entries match the host itself
+ * and all of its subdomains (a leading "*." is optional).
+ *
+ * - FETCH_ALLOWED_HOSTS: if non-empty, only these hosts can be fetched
+ * - FETCH_BLOCKED_HOSTS: these hosts can never be fetched (checked first)
+ *
+ * Both lists can be extended without a code change through comma-separated
+ * DOCMAPS_ALLOWED_HOSTS / DOCMAPS_BLOCKED_HOSTS environment variables.
+ *
+ * Private, loopback, link-local and cloud metadata addresses are always
+ * blocked by the fetcher regardless of these lists.
+ */
+
+function parseHostList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export const FETCH_ALLOWED_HOSTS: string[] = [
+  ...parseHostList(process.env.DOCMAPS_ALLOWED_HOSTS),
+];
+
+export const FETCH_BLOCKED_HOSTS: string[] = [
+  'internal',
+  'local',
+  'localdomain',
+  ...parseHostList(process.env.DOCMAPS_BLOCKED_HOSTS),
+];
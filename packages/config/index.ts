@@ -11,3 +11,5 @@ export const config = {
 } as const;
 
 export { LOGO_IMAGE_PATH, LOGO_ALT_TEXT } from './logo';
+export { FETCH_ALLOWED_HOSTS, FETCH_BLOCKED_HOSTS } from './host-policy';
+export { DOC_CACHE_DATABASE_URL, DOC_CACHE_DIR } from './doc-cache';
@@ -24,6 +24,9 @@ export interface NodeData {
     caption?: string;
     docUrl?: string;
     additionalLinks?: Array<{ title: string; url: string }>;
+    referTo?: { slug: string; title: string };
+    /** Kept in place by auto-layout */
+    pinned?: boolean;
   };
 }
 
@@ -56,6 +59,27 @@ export interface Profile {
 // MAP TYPES
 // =====================================================
 
+/**
+ * Metadata about an auto-generated map (maps.generation_metadata)
+ */
+export interface MapGenerationMetadata {
+  source_url: string;
+  generated_at: string;
+  strategy: string;
+  confidence: number;
+  warnings: string[];
+  /** Nodes created by generation; all other nodes are manual */
+  auto_generated_node_ids?: string[];
+  /** Edges created by generation; all other edges are manual */
+  auto_generated_edge_ids?: string[];
+  manually_added_node_ids?: string[];
+  /** Documentation version mapped, reused when the map is regenerated */
+  version?: string;
+  /** Documentation locale mapped, reused when the map is regenerated */
+  locale?: string;
+  [key: string]: unknown;
+}
+
 export interface Map {
   id: string;
   user_id: string;
@@ -70,6 +94,7 @@ export interface Map {
   nodes: NodeData[];
   edges: EdgeData[];
   metadata: Record<string, unknown>;
+  generation_metadata?: MapGenerationMetadata | null;
   view_count: number;
   featured: boolean;
   published_at: string | null;
@@ -113,6 +138,61 @@ export interface ProductView {
 export type ProductViewInsert = Omit<ProductView, 'id' | 'created_at' | 'updated_at'>;
 export type ProductViewUpdate = Partial<Omit<ProductView, 'id' | 'map_id' | 'created_at'>>;
 
+// =====================================================
+// GENERATION JOB TYPES
+// =====================================================
+
+export type GenerationJobStatus =
+  | 'queued'
+  | 'crawling'
+  | 'parsing'
+  | 'layouting'
+  | 'saving'
+  | 'done'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * Page visited while crawling the documentation
+ */
+export interface GenerationJobPage {
+  url: string;
+  status: 'fetched' | 'failed';
+  fromCache?: boolean;
+  error?: string;
+}
+
+export interface GenerationJobProgress {
+  pages: GenerationJobPage[];
+  nodes?: number;
+  edges?: number;
+}
+
+export interface GenerationJobError {
+  code: string;
+  message: string;
+  details?: string;
+}
+
+export interface GenerationJob {
+  id: string;
+  user_id: string;
+  status: GenerationJobStatus;
+  source_url: string;
+  options: { ensemble?: boolean; multiView?: boolean; version?: string; locale?: string };
+  message: string | null;
+  progress: GenerationJobProgress;
+  error: GenerationJobError | null;
+  map_id: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+export type GenerationJobInsert = Pick<GenerationJob, 'user_id' | 'source_url'> &
+  Partial<Pick<GenerationJob, 'status' | 'options' | 'message' | 'progress'>>;
+export type GenerationJobUpdate = Partial<Omit<GenerationJob, 'id' | 'user_id' | 'created_at'>>;
+
 // =====================================================
 // DATABASE INTERFACE (Supabase)
 // =====================================================
@@ -140,6 +220,11 @@ export interface Database {
         Insert: ProductViewInsert;
         Update: ProductViewUpdate;
       };
+      generation_jobs: {
+        Row: GenerationJob;
+        Insert: GenerationJobInsert;
+        Update: GenerationJobUpdate;
+      };
     };
   };
 }
@@ -1,253 +1,513 @@
 // Unit tests for doc-parser cache functions
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { getCached, setCached, clearCache, getCacheSize, isCached } from './cache';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, readdir } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  getCached,
+  setCached,
+  clearCache,
+  getCacheSize,
+  isCached,
+  getCacheEntry,
+  configureCache,
+  conditionalHeaders,
+  withCache,
+  MemoryCacheStore,
+  FileSystemCacheStore,
+  PostgresCacheStore,
+} from './cache';
+import type { CacheStore, CachedDocument } from './cache';
 
 describe('cache', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     // Clear cache before each test
-    clearCache();
+    await clearCache();
   });
 
   describe('setCached and getCached', () => {
-    it('should cache and retrieve HTML', () => {
+    it('should cache and retrieve HTML', async () => {
       const url = 'https://example.com';
       const html = '<html><body>Test</body></html>';
 
-      setCached(url, html);
-      const cached = getCached(url);
+      await setCached(url, html);
+      const cached = await getCached(url);
 
       expect(cached).toBe(html);
     });
 
-    it('should return null for uncached URL', () => {
-      const cached = getCached('https://example.com');
+    it('should return null for uncached URL', async () => {
+      const cached = await getCached('https://example.com');
       expect(cached).toBeNull();
     });
 
-    it('should cache multiple URLs', () => {
-      setCached('https://example.com/page1', '<html>Page 1</html>');
-      setCached('https://example.com/page2', '<html>Page 2</html>');
-      setCached('https://example.com/page3', '<html>Page 3</html>');
+    it('should cache multiple URLs', async () => {
+      await setCached('https://example.com/page1', '<html>Page 1</html>');
+      await setCached('https://example.com/page2', '<html>Page 2</html>');
+      await setCached('https://example.com/page3', '<html>Page 3</html>');
 
-      expect(getCached('https://example.com/page1')).toBe('<html>Page 1</html>');
-      expect(getCached('https://example.com/page2')).toBe('<html>Page 2</html>');
-      expect(getCached('https://example.com/page3')).toBe('<html>Page 3</html>');
+      expect(await getCached('https://example.com/page1')).toBe('<html>Page 1</html>');
+      expect(await getCached('https://example.com/page2')).toBe('<html>Page 2</html>');
+      expect(await getCached('https://example.com/page3')).toBe('<html>Page 3</html>');
     });
 
-    it('should overwrite existing cache entry', () => {
+    it('should overwrite existing cache entry', async () => {
       const url = 'https://example.com';
-      setCached(url, '<html>First</html>');
-      setCached(url, '<html>Second</html>');
+      await setCached(url, '<html>First</html>');
+      await setCached(url, '<html>Second</html>');
 
-      expect(getCached(url)).toBe('<html>Second</html>');
+      expect(await getCached(url)).toBe('<html>Second</html>');
     });
   });
 
   describe('TTL expiration', () => {
-    it('should expire entries after TTL', () => {
+    it('should expire entries after TTL', async () => {
       vi.useFakeTimers();
 
       const url = 'https://example.com';
       const html = '<html>Test</html>';
       const ttl = 1000; // 1 second
 
-      setCached(url, html, ttl);
-      expect(getCached(url)).toBe(html);
+      await setCached(url, html, ttl);
+      expect(await getCached(url)).toBe(html);
 
       // Advance time past TTL
       vi.advanceTimersByTime(1001);
 
-      expect(getCached(url)).toBeNull();
+      expect(await getCached(url)).toBeNull();
 
       vi.useRealTimers();
     });
 
-    it('should not expire before TTL', () => {
+    it('should not expire before TTL', async () => {
       vi.useFakeTimers();
 
       const url = 'https://example.com';
       const html = '<html>Test</html>';
       const ttl = 1000; // 1 second
 
-      setCached(url, html, ttl);
+      await setCached(url, html, ttl);
 
       // Advance time but not past TTL
       vi.advanceTimersByTime(500);
 
-      expect(getCached(url)).toBe(html);
+      expect(await getCached(url)).toBe(html);
 
       vi.useRealTimers();
     });
 
-    it('should use default TTL of 1 hour', () => {
+    it('should use default TTL of 1 hour', async () => {
       vi.useFakeTimers();
 
       const url = 'https://example.com';
       const html = '<html>Test</html>';
 
-      setCached(url, html); // No TTL specified
+      await setCached(url, html); // No TTL specified
 
       // Advance time by 59 minutes (should still be cached)
       vi.advanceTimersByTime(59 * 60 * 1000);
-      expect(getCached(url)).toBe(html);
+      expect(await getCached(url)).toBe(html);
 
       // Advance past 1 hour
       vi.advanceTimersByTime(2 * 60 * 1000);
-      expect(getCached(url)).toBeNull();
+      expect(await getCached(url)).toBeNull();
 
       vi.useRealTimers();
     });
   });
 
   describe('LRU eviction', () => {
-    it('should evict least recently used entry when at capacity', () => {
+    it('should evict least recently used entry when at capacity', async () => {
       // Fill cache to capacity (100 entries)
       for (let i = 0; i < 100; i++) {
-        setCached(`https://example.com/page${i}`, `<html>Page ${i}</html>`);
+        await setCached(`https://example.com/page${i}`, `<html>Page ${i}</html>`);
       }
 
-      expect(getCacheSize()).toBe(100);
+      expect(await getCacheSize()).toBe(100);
 
       // Access first entry to make it recently used
-      getCached('https://example.com/page0');
+      await getCached('https://example.com/page0');
 
       // Add one more entry (should evict page1, not page0)
-      setCached('https://example.com/page100', '<html>Page 100</html>');
+      await setCached('https://example.com/page100', '<html>Page 100</html>');
 
-      expect(getCacheSize()).toBe(100);
-      expect(getCached('https://example.com/page0')).toBe('<html>Page 0</html>'); // Still cached
-      expect(getCached('https://example.com/page1')).toBeNull(); // Evicted
-      expect(getCached('https://example.com/page100')).toBe('<html>Page 100</html>'); // New entry
+      expect(await getCacheSize()).toBe(100);
+      expect(await getCached('https://example.com/page0')).toBe('<html>Page 0</html>'); // Still cached
+      expect(await getCached('https://example.com/page1')).toBeNull(); // Evicted
+      expect(await getCached('https://example.com/page100')).toBe('<html>Page 100</html>'); // New entry
     });
 
-    it('should maintain LRU order with multiple accesses', () => {
+    it('should maintain LRU order with multiple accesses', async () => {
       // Add 3 entries
-      setCached('https://example.com/page1', '<html>Page 1</html>');
-      setCached('https://example.com/page2', '<html>Page 2</html>');
-      setCached('https://example.com/page3', '<html>Page 3</html>');
+      await setCached('https://example.com/page1', '<html>Page 1</html>');
+      await setCached('https://example.com/page2', '<html>Page 2</html>');
+      await setCached('https://example.com/page3', '<html>Page 3</html>');
 
       // Access page1 to make it most recently used
-      getCached('https://example.com/page1');
+      await getCached('https://example.com/page1');
 
       // Fill cache to capacity
       for (let i = 4; i <= 100; i++) {
-        setCached(`https://example.com/page${i}`, `<html>Page ${i}</html>`);
+        await setCached(`https://example.com/page${i}`, `<html>Page ${i}</html>`);
       }
 
       // Add one more (should evict page2, not page1)
-      setCached('https://example.com/page101', '<html>Page 101</html>');
+      await setCached('https://example.com/page101', '<html>Page 101</html>');
 
-      expect(getCached('https://example.com/page1')).toBe('<html>Page 1</html>');
-      expect(getCached('https://example.com/page2')).toBeNull();
+      expect(await getCached('https://example.com/page1')).toBe('<html>Page 1</html>');
+      expect(await getCached('https://example.com/page2')).toBeNull();
     });
   });
 
   describe('clearCache', () => {
-    it('should clear all cached entries', () => {
-      setCached('https://example.com/page1', '<html>Page 1</html>');
-      setCached('https://example.com/page2', '<html>Page 2</html>');
-      setCached('https://example.com/page3', '<html>Page 3</html>');
+    it('should clear all cached entries', async () => {
+      await setCached('https://example.com/page1', '<html>Page 1</html>');
+      await setCached('https://example.com/page2', '<html>Page 2</html>');
+      await setCached('https://example.com/page3', '<html>Page 3</html>');
 
-      expect(getCacheSize()).toBe(3);
+      expect(await getCacheSize()).toBe(3);
 
-      clearCache();
+      await clearCache();
 
-      expect(getCacheSize()).toBe(0);
-      expect(getCached('https://example.com/page1')).toBeNull();
-      expect(getCached('https://example.com/page2')).toBeNull();
-      expect(getCached('https://example.com/page3')).toBeNull();
+      expect(await getCacheSize()).toBe(0);
+      expect(await getCached('https://example.com/page1')).toBeNull();
+      expect(await getCached('https://example.com/page2')).toBeNull();
+      expect(await getCached('https://example.com/page3')).toBeNull();
     });
   });
 
   describe('getCacheSize', () => {
-    it('should return 0 for empty cache', () => {
-      expect(getCacheSize()).toBe(0);
+    it('should return 0 for empty cache', async () => {
+      expect(await getCacheSize()).toBe(0);
     });
 
-    it('should return correct size', () => {
-      setCached('https://example.com/page1', '<html>Page 1</html>');
-      expect(getCacheSize()).toBe(1);
+    it('should return correct size', async () => {
+      await setCached('https://example.com/page1', '<html>Page 1</html>');
+      expect(await getCacheSize()).toBe(1);
 
-      setCached('https://example.com/page2', '<html>Page 2</html>');
-      expect(getCacheSize()).toBe(2);
+      await setCached('https://example.com/page2', '<html>Page 2</html>');
+      expect(await getCacheSize()).toBe(2);
 
-      setCached('https://example.com/page3', '<html>Page 3</html>');
-      expect(getCacheSize()).toBe(3);
+      await setCached('https://example.com/page3', '<html>Page 3</html>');
+      expect(await getCacheSize()).toBe(3);
     });
 
-    it('should not increase size when overwriting', () => {
-      setCached('https://example.com', '<html>First</html>');
-      expect(getCacheSize()).toBe(1);
+    it('should not increase size when overwriting', async () => {
+      await setCached('https://example.com', '<html>First</html>');
+      expect(await getCacheSize()).toBe(1);
 
-      setCached('https://example.com', '<html>Second</html>');
-      expect(getCacheSize()).toBe(1);
+      await setCached('https://example.com', '<html>Second</html>');
+      expect(await getCacheSize()).toBe(1);
     });
   });
 
   describe('isCached', () => {
-    it('should return true for cached URL', () => {
-      setCached('https://example.com', '<html>Test</html>');
-      expect(isCached('https://example.com')).toBe(true);
+    it('should return true for cached URL', async () => {
+      await setCached('https://example.com', '<html>Test</html>');
+      expect(await isCached('https://example.com')).toBe(true);
     });
 
-    it('should return false for uncached URL', () => {
-      expect(isCached('https://example.com')).toBe(false);
+    it('should return false for uncached URL', async () => {
+      expect(await isCached('https://example.com')).toBe(false);
     });
 
-    it('should return false for expired entry', () => {
+    it('should return false for expired entry', async () => {
       vi.useFakeTimers();
 
-      setCached('https://example.com', '<html>Test</html>', 1000);
-      expect(isCached('https://example.com')).toBe(true);
+      await setCached('https://example.com', '<html>Test</html>', 1000);
+      expect(await isCached('https://example.com')).toBe(true);
 
       vi.advanceTimersByTime(1001);
-      expect(isCached('https://example.com')).toBe(false);
+      expect(await isCached('https://example.com')).toBe(false);
 
       vi.useRealTimers();
     });
   });
 
   describe('cache key generation', () => {
-    it('should use URL hash as cache key', () => {
+    it('should use URL hash as cache key', async () => {
       const url1 = 'https://example.com/page';
       const url2 = 'https://example.com/page'; // Same URL
 
-      setCached(url1, '<html>Test</html>');
-      expect(getCached(url2)).toBe('<html>Test</html>');
+      await setCached(url1, '<html>Test</html>');
+      expect(await getCached(url2)).toBe('<html>Test</html>');
     });
 
-    it('should differentiate between different URLs', () => {
-      setCached('https://example.com/page1', '<html>Page 1</html>');
-      setCached('https://example.com/page2', '<html>Page 2</html>');
+    it('should differentiate between different URLs', async () => {
+      await setCached('https://example.com/page1', '<html>Page 1</html>');
+      await setCached('https://example.com/page2', '<html>Page 2</html>');
 
-      expect(getCached('https://example.com/page1')).toBe('<html>Page 1</html>');
-      expect(getCached('https://example.com/page2')).toBe('<html>Page 2</html>');
+      expect(await getCached('https://example.com/page1')).toBe('<html>Page 1</html>');
+      expect(await getCached('https://example.com/page2')).toBe('<html>Page 2</html>');
+    });
+
+    it('should keep static and browser-rendered HTML apart', async () => {
+      await setCached('https://example.com/page', '<html>Static</html>');
+      await setCached('https://example.com/page', '<html>Rendered</html>', undefined, {}, 'browser');
+
+      expect(await getCached('https://example.com/page')).toBe('<html>Static</html>');
+      expect(await getCached('https://example.com/page', 'browser')).toBe('<html>Rendered</html>');
+      expect(await getCacheSize()).toBe(2);
+    });
+
+    it('should not serve static entries to a browser fetch', async () => {
+      await setCached('https://example.com/docs', '<html>Static</html>');
+      const fetchFn = vi.fn().mockResolvedValue({
+        url: 'https://example.com/docs',
+        html: '<html>Rendered</html>',
+        contentType: 'text/html',
+        statusCode: 200,
+      });
+
+      const result = await withCache(fetchFn, 'browser')('https://example.com/docs');
+
+      expect(fetchFn).toHaveBeenCalledWith('https://example.com/docs');
+      expect(result.html).toBe('<html>Rendered</html>');
     });
   });
 
   describe('memory bounds', () => {
-    it('should not exceed max entries', () => {
+    it('should not exceed max entries', async () => {
       // Add more than max entries
       for (let i = 0; i < 150; i++) {
-        setCached(`https://example.com/page${i}`, `<html>Page ${i}</html>`);
+        await setCached(`https://example.com/page${i}`, `<html>Page ${i}</html>`);
       }
 
-      expect(getCacheSize()).toBe(100);
+      expect(await getCacheSize()).toBe(100);
     });
 
-    it('should maintain max entries after multiple operations', () => {
+    it('should maintain max entries after multiple operations', async () => {
       // Fill to capacity
       for (let i = 0; i < 100; i++) {
-        setCached(`https://example.com/page${i}`, `<html>Page ${i}</html>`);
+        await setCached(`https://example.com/page${i}`, `<html>Page ${i}</html>`);
       }
 
       // Add and remove multiple times
       for (let i = 100; i < 200; i++) {
-        setCached(`https://example.com/page${i}`, `<html>Page ${i}</html>`);
+        await setCached(`https://example.com/page${i}`, `<html>Page ${i}</html>`);
       }
 
-      expect(getCacheSize()).toBe(100);
+      expect(await getCacheSize()).toBe(100);
+    });
+  });
+
+  describe('revalidation', () => {
+    it('should keep stale entries that have validators', async () => {
+      vi.useFakeTimers();
+
+      const url = 'https://example.com';
+      await setCached(url, '<html>Test</html>', 1000, { etag: '"v1"', lastModified: 'Tue, 01 Oct 2026 00:00:00 GMT' });
+      vi.advanceTimersByTime(1001);
+
+      expect(await getCached(url)).toBeNull();
+      const entry = await getCacheEntry(url);
+      expect(entry?.html).toBe('<html>Test</html>');
+      expect(conditionalHeaders(entry!)).toEqual({
+        'If-None-Match': '"v1"',
+        'If-Modified-Since': 'Tue, 01 Oct 2026 00:00:00 GMT',
+      });
+
+      vi.useRealTimers();
+    });
+
+    it('should drop stale entries without validators', async () => {
+      vi.useFakeTimers();
+
+      await setCached('https://example.com', '<html>Test</html>', 1000);
+      vi.advanceTimersByTime(1001);
+
+      expect(await getCacheEntry('https://example.com')).toBeNull();
+      expect(await getCacheSize()).toBe(0);
+
+      vi.useRealTimers();
+    });
+  });
+
+  describe('withCache', () => {
+    it('should serve fresh entries without calling the fetch function', async () => {
+      await setCached('https://example.com/docs', '<html>Cached</html>', undefined, {
+        url: 'https://example.com/docs/',
+      });
+      const fetchFn = vi.fn();
+
+      const result = await withCache(fetchFn)('https://example.com/docs');
+
+      expect(fetchFn).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        url: 'https://example.com/docs/',
+        html: '<html>Cached</html>',
+        contentType: 'text/html',
+        statusCode: 200,
+        fromCache: true,
+      });
+    });
+
+    it('should call the fetch function on a miss', async () => {
+      const fetchFn = vi.fn().mockResolvedValue({
+        url: 'https://example.com/docs',
+        html: '<html>Live</html>',
+        contentType: 'text/html',
+        statusCode: 200,
+      });
+
+      const result = await withCache(fetchFn)('https://example.com/docs');
+
+      expect(fetchFn).toHaveBeenCalledWith('https://example.com/docs');
+      expect(result.html).toBe('<html>Live</html>');
+    });
+  });
+
+  describe('configureCache', () => {
+    afterEach(() => {
+      configureCache(new MemoryCacheStore());
+    });
+
+    it('should route reads and writes to the configured store', async () => {
+      const entries = new Map<string, CachedDocument>();
+      const customStore: CacheStore = {
+        get: async (url) => entries.get(url) || null,
+        set: async (url, entry) => { entries.set(url, entry); },
+        delete: async (url) => { entries.delete(url); },
+        clear: async () => entries.clear(),
+        size: async () => entries.size,
+      };
+      configureCache(customStore);
+
+      await setCached('https://example.com', '<html>Test</html>');
+
+      expect(entries.get('static:https://example.com')?.html).toBe('<html>Test</html>');
+      expect(await getCached('https://example.com')).toBe('<html>Test</html>');
+    });
+
+    it('should treat store failures as a miss', async () => {
+      const failingStore: CacheStore = {
+        get: async () => { throw new Error('connection refused'); },
+        set: async () => { throw new Error('connection refused'); },
+        delete: async () => {},
+        clear: async () => {},
+        size: async () => 0,
+      };
+      configureCache(failingStore);
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await expect(setCached('https://example.com', '<html>Test</html>')).resolves.toBeUndefined();
+      expect(await getCached('https://example.com')).toBeNull();
+
+      vi.restoreAllMocks();
+    });
+  });
+});
+
+describe('FileSystemCacheStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'docmaps-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const entry: CachedDocument = {
+    html: '<html>Test</html>',
+    url: 'https://example.com/docs/',
+    etag: '"abc"',
+    cachedAt: 1000,
+    ttl: 5000,
+  };
+
+  it('should persist entries across store instances', async () => {
+    await new FileSystemCacheStore(directory).set('https://example.com/docs', entry);
+
+    const reopened = new FileSystemCacheStore(directory);
+    expect(await reopened.get('https://example.com/docs')).toEqual(entry);
+    expect(await reopened.size()).toBe(1);
+  });
+
+  it('should return null for missing entries and directories', async () => {
+    expect(await new FileSystemCacheStore(directory).get('https://example.com')).toBeNull();
+    expect(await new FileSystemCacheStore(join(directory, 'missing')).size()).toBe(0);
+  });
+
+  it('should delete and clear entries', async () => {
+    const store = new FileSystemCacheStore(directory);
+    await store.set('https://example.com/a', entry);
+    await store.set('https://example.com/b', entry);
+
+    await store.delete('https://example.com/a');
+    expect(await store.get('https://example.com/a')).toBeNull();
+    expect(await store.size()).toBe(1);
+
+    await store.clear();
+    expect(await readdir(directory)).toEqual([]);
+  });
+});
+
+describe('PostgresCacheStore', () => {
+  const row = {
+    html: '<html>Test</html>',
+    final_url: 'https://example.com/docs/',
+    content_type: 'text/html',
+    etag: '"abc"',
+    last_modified: null,
+    cached_at: new Date(1000).toISOString(),
+    ttl_ms: '5000',
+  };
+
+  it('should map rows to cache entries', async () => {
+    const client = { query: vi.fn().mockResolvedValue({ rows: [row] }) };
+    const store = new PostgresCacheStore(client);
+
+    expect(await store.get('https://example.com/docs')).toEqual({
+      html: '<html>Test</html>',
+      url: 'https://example.com/docs/',
+      contentType: 'text/html',
+      etag: '"abc"',
+      lastModified: undefined,
+      cachedAt: 1000,
+      ttl: 5000,
     });
+    expect(client.query).toHaveBeenCalledWith(
+      expect.stringContaining('FROM documentation_cache WHERE url = $1'),
+      ['https://example.com/docs']
+    );
+  });
+
+  it('should upsert entries', async () => {
+    const client = { query: vi.fn().mockResolvedValue({ rows: [] }) };
+    const store = new PostgresCacheStore(client, 'public.doc_cache');
+
+    await store.set('https://example.com/docs', {
+      html: '<html>Test</html>',
+      etag: '"abc"',
+      cachedAt: 1000,
+      ttl: 5000,
+    });
+
+    const [sql, values] = client.query.mock.calls[0];
+    expect(sql).toContain('INSERT INTO public.doc_cache');
+    expect(sql).toContain('ON CONFLICT (url) DO UPDATE');
+    expect(values).toEqual([
+      'https://example.com/docs',
+      '<html>Test</html>',
+      null,
+      null,
+      '"abc"',
+      null,
+      new Date(1000).toISOString(),
+      5000,
+    ]);
+  });
+
+  it('should count entries', async () => {
+    const client = { query: vi.fn().mockResolvedValue({ rows: [{ count: '3' }] }) };
+    expect(await new PostgresCacheStore(client).size()).toBe(3);
+  });
+
+  it('should reject table names that are not plain identifiers', () => {
+    const client = { query: vi.fn() };
+    expect(() => new PostgresCacheStore(client, 'cache; DROP TABLE maps')).toThrow('Invalid cache table name');
   });
 });
@@ -1,24 +1,84 @@
-// In-memory caching layer for fetched documentation
+// Caching layer for fetched documentation
+// Entries live in a pluggable store (memory, filesystem or a Postgres table)
+// and keep ETag/Last-Modified so stale pages can be revalidated with a 304
 
-import { hashUrl } from './utils';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { FetchResult, FetcherKind } from './types';
+
+/** Default time-to-live for cached pages (1 hour) */
+export const DEFAULT_CACHE_TTL = 60 * 60 * 1000;
 
 /**
  * Cache entry structure
  */
-interface CacheEntry {
+export interface CachedDocument {
   /** Cached HTML content */
   html: string;
-  /** Timestamp when entry was cached */
+  /** Final URL after redirects (defaults to the requested URL) */
+  url?: string;
+  /** Content-Type of the cached response */
+  contentType?: string;
+  /** ETag header, sent back as If-None-Match */
+  etag?: string;
+  /** Last-Modified header, sent back as If-Modified-Since */
+  lastModified?: string;
+  /** Timestamp when entry was cached (or last revalidated) */
   cachedAt: number;
   /** Time-to-live in milliseconds */
   ttl: number;
 }
 
 /**
- * In-memory cache with TTL and LRU eviction
+ * Response details stored alongside the HTML
  */
-class DocumentationCache {
-  private cache: Map<string, CacheEntry>;
+export type CacheMetadata = Pick<CachedDocument, 'url' | 'contentType' | 'etag' | 'lastModified'>;
+
+/**
+ * Storage backend for the documentation cache
+ * Keys are the requested URLs prefixed with the fetcher kind (see cacheKey);
+ * stores do not interpret TTLs
+ */
+export interface CacheStore {
+  get(url: string): Promise<CachedDocument | null>;
+  set(url: string, entry: CachedDocument): Promise<void>;
+  delete(url: string): Promise<void>;
+  clear(): Promise<void>;
+  size(): Promise<number>;
+}
+
+/**
+ * Minimal Postgres client: node-postgres Pool and Client both fit
+ */
+export interface PostgresQueryClient {
+  query(text: string, values?: unknown[]): Promise<{ rows: unknown[] }>;
+}
+
+/**
+ * Row of the documentation_cache table
+ */
+interface CacheRow {
+  html: string;
+  final_url: string | null;
+  content_type: string | null;
+  etag: string | null;
+  last_modified: string | null;
+  cached_at: string | Date;
+  /** BIGINT columns come back as strings */
+  ttl_ms: string | number;
+}
+
+// =====================================================
+// MEMORY STORE
+// =====================================================
+
+/**
+ * In-memory store with LRU eviction
+ * Lost when the process exits; the default store
+ */
+export class MemoryCacheStore implements CacheStore {
+  private cache: Map<string, CachedDocument>;
   private readonly maxEntries: number;
   private accessOrder: string[]; // For LRU tracking
 
@@ -28,84 +88,41 @@ class DocumentationCache {
     this.accessOrder = [];
   }
 
-  /**
-   * Get cached HTML for a URL
-   * Returns null if not cached or expired
-   * 
-   * @param url - URL to look up
-   * @returns Cached HTML or null
-   */
-  get(url: string): string | null {
-    const key = hashUrl(url);
-    const entry = this.cache.get(key);
-
+  async get(url: string): Promise<CachedDocument | null> {
+    const entry = this.cache.get(url);
     if (!entry) {
       return null;
     }
 
-    // Check if expired
-    const now = Date.now();
-    if (now - entry.cachedAt > entry.ttl) {
-      // Expired, remove from cache
-      this.cache.delete(key);
-      this.accessOrder = this.accessOrder.filter(k => k !== key);
-      return null;
-    }
-
     // Update access order for LRU
-    this.updateAccessOrder(key);
-
-    return entry.html;
+    this.updateAccessOrder(url);
+    return entry;
   }
 
-  /**
-   * Cache HTML for a URL with TTL
-   * 
-   * @param url - URL to cache
-   * @param html - HTML content to cache
-   * @param ttl - Time-to-live in milliseconds (default: 1 hour)
-   */
-  set(url: string, html: string, ttl: number = 3600000): void {
-    const key = hashUrl(url);
-
+  async set(url: string, entry: CachedDocument): Promise<void> {
     // Evict if at capacity
-    if (this.cache.size >= this.maxEntries && !this.cache.has(key)) {
+    if (this.cache.size >= this.maxEntries && !this.cache.has(url)) {
       this.evictLRU();
     }
 
-    // Store entry
-    this.cache.set(key, {
-      html,
-      cachedAt: Date.now(),
-      ttl,
-    });
+    this.cache.set(url, entry);
+    this.updateAccessOrder(url);
+  }
 
-    // Update access order
-    this.updateAccessOrder(key);
+  async delete(url: string): Promise<void> {
+    this.cache.delete(url);
+    this.accessOrder = this.accessOrder.filter(k => k !== url);
   }
 
-  /**
-   * Clear all cached entries
-   */
-  clear(): void {
+  async clear(): Promise<void> {
     this.cache.clear();
     this.accessOrder = [];
   }
 
-  /**
-   * Get current cache size
-   */
-  size(): number {
+  async size(): Promise<number> {
     return this.cache.size;
   }
 
-  /**
-   * Check if URL is cached (and not expired)
-   */
-  has(url: string): boolean {
-    return this.get(url) !== null;
-  }
-
   /**
    * Update access order for LRU tracking
    */
@@ -120,10 +137,6 @@ class DocumentationCache {
    * Evict least recently used entry
    */
   private evictLRU(): void {
-    if (this.accessOrder.length === 0) {
-      return;
-    }
-
     // Remove least recently used (first in array)
     const lruKey = this.accessOrder.shift();
     if (lruKey) {
@@ -132,47 +145,332 @@ class DocumentationCache {
   }
 }
 
-// Singleton cache instance
-const cache = new DocumentationCache();
+// =====================================================
+// FILESYSTEM STORE
+// =====================================================
+
+/**
+ * Store that writes one JSON file per URL into a directory
+ * Survives restarts and can be shared by processes on the same machine
+ */
+export class FileSystemCacheStore implements CacheStore {
+  constructor(private readonly directory: string) {}
+
+  async get(url: string): Promise<CachedDocument | null> {
+    try {
+      const content = await fs.readFile(this.filePath(url), 'utf8');
+      const { key, entry } = JSON.parse(content) as { key: string; entry: CachedDocument };
+      // Guard against hand-edited or foreign files in the directory
+      return key === url ? entry : null;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async set(url: string, entry: CachedDocument): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write to a temp file first so readers never see a half-written entry
+    const target = this.filePath(url);
+    const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temp, JSON.stringify({ key: url, entry }), 'utf8');
+    await fs.rename(temp, target);
+  }
+
+  async delete(url: string): Promise<void> {
+    await fs.rm(this.filePath(url), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    const files = await this.entryFiles();
+    await Promise.all(files.map(file => fs.rm(path.join(this.directory, file), { force: true })));
+  }
+
+  async size(): Promise<number> {
+    return (await this.entryFiles()).length;
+  }
+
+  private filePath(url: string): string {
+    return path.join(this.directory, `${createHash('sha256').update(url).digest('hex')}.json`);
+  }
+
+  private async entryFiles(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.directory);
+      return files.filter(file => /^[0-9a-f]{64}\.json$/.test(file));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
+
+// =====================================================
+// POSTGRES STORE
+// =====================================================
+
+/**
+ * Store backed by a Postgres table (see the documentation_cache migration)
+ * Shared by every server instance, so serverless cold starts keep their cache
+ */
+export class PostgresCacheStore implements CacheStore {
+  private readonly table: string;
+
+  /**
+   * @param client - Postgres client or pool
+   * @param table - Table name (default: documentation_cache)
+   */
+  constructor(private readonly client: PostgresQueryClient, table: string = 'documentation_cache') {
+    // The name is interpolated into SQL, so only allow plain identifiers
+    if (!/^[a-z_][a-z0-9_]*(\.[a-z_][a-z0-9_]*)?$/i.test(table)) {
+      throw new Error(`Invalid cache table name: ${table}`);
+    }
+    this.table = table;
+  }
+
+  async get(url: string): Promise<CachedDocument | null> {
+    const { rows } = await this.client.query(
+      `SELECT html, final_url, content_type, etag, last_modified, cached_at, ttl_ms
+         FROM ${this.table} WHERE url = $1`,
+      [url]
+    );
+
+    const row = rows[0] as CacheRow | undefined;
+    if (!row) {
+      return null;
+    }
+
+    return {
+      html: row.html,
+      url: row.final_url ?? undefined,
+      contentType: row.content_type ?? undefined,
+      etag: row.etag ?? undefined,
+      lastModified: row.last_modified ?? undefined,
+      cachedAt: new Date(row.cached_at).getTime(),
+      ttl: Number(row.ttl_ms),
+    };
+  }
+
+  async set(url: string, entry: CachedDocument): Promise<void> {
+    await this.client.query(
+      `INSERT INTO ${this.table} (url, html, final_url, content_type, etag, last_modified, cached_at, ttl_ms)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (url) DO UPDATE SET
+         html = EXCLUDED.html,
+         final_url = EXCLUDED.final_url,
+         content_type = EXCLUDED.content_type,
+         etag = EXCLUDED.etag,
+         last_modified = EXCLUDED.last_modified,
+         cached_at = EXCLUDED.cached_at,
+         ttl_ms = EXCLUDED.ttl_ms`,
+      [
+        url,
+        entry.html,
+        entry.url ?? null,
+        entry.contentType ?? null,
+        entry.etag ?? null,
+        entry.lastModified ?? null,
+        new Date(entry.cachedAt).toISOString(),
+        entry.ttl,
+      ]
+    );
+  }
+
+  async delete(url: string): Promise<void> {
+    await this.client.query(`DELETE FROM ${this.table} WHERE url = $1`, [url]);
+  }
+
+  async clear(): Promise<void> {
+    await this.client.query(`DELETE FROM ${this.table}`);
+  }
+
+  async size(): Promise<number> {
+    const { rows } = await this.client.query(`SELECT COUNT(*) AS count FROM ${this.table}`);
+    const row = rows[0] as { count: string | number } | undefined;
+    return Number(row?.count ?? 0);
+  }
+}
+
+// =====================================================
+// CACHE API
+// =====================================================
+
+let store: CacheStore = new MemoryCacheStore();
+
+/**
+ * Store key for a page: the fetcher kind and the requested URL
+ * Browser-rendered HTML differs from what the server sends, so a static fetch
+ * must never be served a rendered page or the other way round
+ *
+ * @param url - Requested URL
+ * @param fetcher - Fetcher that produced (or will produce) the entry
+ */
+export function cacheKey(url: string, fetcher: FetcherKind): string {
+  return `${fetcher}:${url}`;
+}
+
+/**
+ * Replace the storage backend used by the fetchers and deep crawl
+ *
+ * @param cacheStore - Store to use from now on
+ */
+export function configureCache(cacheStore: CacheStore): void {
+  store = cacheStore;
+}
+
+/**
+ * Check whether an entry is still within its TTL
+ */
+export function isFresh(entry: CachedDocument): boolean {
+  return Date.now() - entry.cachedAt <= entry.ttl;
+}
+
+/**
+ * Check whether an entry can be revalidated with a conditional request
+ */
+export function canRevalidate(entry: CachedDocument): boolean {
+  return Boolean(entry.etag || entry.lastModified);
+}
+
+/**
+ * Build If-None-Match / If-Modified-Since headers for a cached entry
+ */
+export function conditionalHeaders(entry: CachedDocument): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (entry.etag) {
+    headers['If-None-Match'] = entry.etag;
+  }
+  if (entry.lastModified) {
+    headers['If-Modified-Since'] = entry.lastModified;
+  }
+  return headers;
+}
+
+/**
+ * Get the cache entry for a URL, including stale entries that can still be
+ * revalidated. Expired entries without validators are removed.
+ * Store failures are logged and treated as a miss.
+ *
+ * @param url - URL to look up
+ * @param fetcher - Fetcher whose entry to read (default: 'static')
+ * @returns Cache entry or null
+ */
+export async function getCacheEntry(url: string, fetcher: FetcherKind = 'static'): Promise<CachedDocument | null> {
+  const key = cacheKey(url, fetcher);
+  try {
+    const entry = await store.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (!isFresh(entry) && !canRevalidate(entry)) {
+      await store.delete(key);
+      return null;
+    }
+
+    return entry;
+  } catch (error) {
+    console.warn(`[Cache] Failed to read ${url}:`, error);
+    return null;
+  }
+}
 
 /**
  * Get cached HTML for a URL
- * 
+ * Returns null if not cached or expired
+ *
  * @param url - URL to look up
- * @returns Cached HTML or null if not cached/expired
+ * @param fetcher - Fetcher whose entry to read (default: 'static')
+ * @returns Cached HTML or null
  */
-export function getCached(url: string): string | null {
-  return cache.get(url);
+export async function getCached(url: string, fetcher: FetcherKind = 'static'): Promise<string | null> {
+  const entry = await getCacheEntry(url, fetcher);
+  return entry && isFresh(entry) ? entry.html : null;
 }
 
 /**
- * Cache HTML for a URL
- * 
+ * Cache HTML for a URL with TTL
+ * Store failures are logged, never thrown: a cache write must not fail a fetch
+ *
  * @param url - URL to cache
  * @param html - HTML content to cache
  * @param ttl - Time-to-live in milliseconds (default: 1 hour)
+ * @param metadata - Final URL, content type and validators of the response
+ * @param fetcher - Fetcher that produced the HTML (default: 'static')
+ */
+export async function setCached(
+  url: string,
+  html: string,
+  ttl: number = DEFAULT_CACHE_TTL,
+  metadata: CacheMetadata = {},
+  fetcher: FetcherKind = 'static'
+): Promise<void> {
+  try {
+    await store.set(cacheKey(url, fetcher), { ...metadata, html, cachedAt: Date.now(), ttl });
+  } catch (error) {
+    console.warn(`[Cache] Failed to write ${url}:`, error);
+  }
+}
+
+/**
+ * Turn a cache entry back into a fetch result
+ *
+ * @param url - Requested URL
+ * @param entry - Cache entry
+ */
+export function toFetchResult(url: string, entry: CachedDocument): FetchResult {
+  return {
+    url: entry.url || url,
+    html: entry.html,
+    contentType: entry.contentType || 'text/html',
+    statusCode: 200,
+    fromCache: true,
+  };
+}
+
+/**
+ * Wrap a fetch function so fresh cache entries are returned without calling it
+ * Wrap outside withPoliteness so cache hits don't wait for a rate limit slot
+ *
+ * @param fetchFn - Fetch function to wrap (responsible for filling the cache)
+ * @param fetcher - Kind of fetcher fetchFn is, so only its own entries are served (default: 'static')
+ * @returns Fetch function that serves fresh entries from the cache
  */
-export function setCached(url: string, html: string, ttl: number = 3600000): void {
-  cache.set(url, html, ttl);
+export function withCache(
+  fetchFn: (url: string) => Promise<FetchResult>,
+  fetcher: FetcherKind = 'static'
+): (url: string) => Promise<FetchResult> {
+  return async (url: string) => {
+    const entry = await getCacheEntry(url, fetcher);
+    if (entry && isFresh(entry)) {
+      return toFetchResult(url, entry);
+    }
+    return fetchFn(url);
+  };
 }
 
 /**
  * Clear all cached entries
  */
-export function clearCache(): void {
-  cache.clear();
+export async function clearCache(): Promise<void> {
+  await store.clear();
 }
 
 /**
  * Get current cache size
  */
-export function getCacheSize(): number {
-  return cache.size();
+export async function getCacheSize(): Promise<number> {
+  return store.size();
 }
 
 /**
- * Check if URL is cached
+ * Check if URL is cached (and not expired)
  */
-export function isCached(url: string): boolean {
-  return cache.has(url);
+export async function isCached(url: string, fetcher: FetcherKind = 'static'): Promise<boolean> {
+  return (await getCached(url, fetcher)) !== null;
 }
@@ -0,0 +1,70 @@
+// Unit tests for docmaps-parse argument parsing
+
+import { describe, it, expect } from 'vitest';
+import { parseCliArgs } from './args';
+
+describe('parseCliArgs', () => {
+  it('should apply defaults', () => {
+    expect(parseCliArgs(['https://docs.acme.dev'])).toEqual({
+      input: 'https://docs.acme.dev',
+      strategy: 'auto',
+      maxPages: undefined,
+      fetcher: 'browser',
+      cacheDir: undefined,
+      cache: 'default',
+      docVersion: undefined,
+      locale: undefined,
+      format: 'json',
+      multiView: false,
+      baseUrl: undefined,
+      url: undefined,
+      output: undefined,
+      quiet: false,
+    });
+  });
+
+  it('should read every option', () => {
+    const options = parseCliArgs([
+      'https://docs.acme.dev',
+      '-s', 'ensemble',
+      '--max-pages', '12',
+      '--fetcher', 'static',
+      '--cache-dir', '.cache',
+      '--cache', 'no-cache',
+      '--doc-version', '2.x',
+      '--locale', 'ja',
+      '-f', 'map',
+      '--multi-view',
+      '-o', 'acme.json',
+      '-q',
+    ]);
+
+    expect(options).toMatchObject({
+      strategy: 'ensemble',
+      maxPages: 12,
+      fetcher: 'static',
+      cacheDir: '.cache',
+      cache: 'no-cache',
+      docVersion: '2.x',
+      locale: 'ja',
+      format: 'map',
+      multiView: true,
+      output: 'acme.json',
+      quiet: true,
+    });
+  });
+
+  it('should return help when asked', () => {
+    expect(parseCliArgs(['--help'])).toBe('help');
+    expect(parseCliArgs(['-h', 'https://docs.acme.dev'])).toBe('help');
+  });
+
+  it('should reject invalid values', () => {
+    expect(() => parseCliArgs([])).toThrow('Missing input');
+    expect(() => parseCliArgs(['a', 'b'])).toThrow('Expected one input, got 2');
+    expect(() => parseCliArgs(['a', '--format', 'yaml'])).toThrow('--format must be one of json, map');
+    expect(() => parseCliArgs(['a', '--fetcher', 'curl'])).toThrow('--fetcher must be one of browser, static');
+    expect(() => parseCliArgs(['a', '--max-pages', '0'])).toThrow('--max-pages must be a whole number');
+    expect(() => parseCliArgs(['a', '--depth', '2'])).toThrow();
+  });
+});
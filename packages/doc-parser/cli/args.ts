@@ -0,0 +1,127 @@
+// Command-line argument parsing for docmaps-parse
+
+import { parseArgs } from 'util';
+import type { CacheMode } from '../types';
+
+export const USAGE = `Usage: docmaps-parse <url|dir|file> [options]
+
+Parses documentation into a DocMaps map. The input is a documentation URL, a
+directory of Markdown/MDX files, or a saved HTML page, OpenAPI spec or GraphQL
+schema.
+
+Options:
+  -s, --strategy <name>   auto (default), ensemble, or a single strategy:
+                          openapi, graphql, deep-crawl, hybrid, navigation,
+                          template, schema, html, heuristic
+      --max-pages <n>     Pages deep crawl may fetch, start page included
+                          (default: 5); 1 parses the start page only
+      --fetcher <kind>    browser (default) renders pages in headless Chrome;
+                          static fetches them over plain HTTP
+      --cache-dir <dir>   Keep fetched pages in this directory between runs
+      --cache <mode>      default, no-cache (revalidate everything) or
+                          no-store (skip the cache)
+      --doc-version <v>   Version of versioned docs to map (e.g. v2, 2.x,
+                          latest); default: the version the URL points at
+      --locale <code>     Translation to map (e.g. ja, pt-br); default: the
+                          locale the URL points at
+  -f, --format <format>   json (default) prints the parse result; map prints a
+                          laid-out map document
+      --multi-view        Split the map into an overview and one view per product
+      --base-url <url>    Directory input: URL the files are browsed at
+      --url <url>         File input: URL the page or spec was saved from
+  -o, --output <file>     Write to a file instead of stdout
+  -q, --quiet             Hide progress messages
+  -h, --help              Show this help
+`;
+
+export type OutputFormat = 'json' | 'map';
+
+/**
+ * Options of one docmaps-parse run
+ */
+export interface CliOptions {
+  input: string;
+  /** Strategy name, or 'auto' for the fallback chain and 'ensemble' for ensemble mode */
+  strategy: string;
+  maxPages?: number;
+  fetcher: 'browser' | 'static';
+  cacheDir?: string;
+  cache: CacheMode;
+  docVersion?: string;
+  locale?: string;
+  format: OutputFormat;
+  multiView: boolean;
+  baseUrl?: string;
+  url?: string;
+  output?: string;
+  quiet: boolean;
+}
+
+/**
+ * Parse docmaps-parse arguments
+ * @param argv - Arguments after the script name
+ * @returns Options, or 'help' when help was requested
+ * @throws If an option is unknown or has an invalid value, or the input is missing
+ */
+export function parseCliArgs(argv: string[]): CliOptions | 'help' {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      strategy: { type: 'string', short: 's', default: 'auto' },
+      'max-pages': { type: 'string' },
+      fetcher: { type: 'string', default: 'browser' },
+      'cache-dir': { type: 'string' },
+      cache: { type: 'string', default: 'default' },
+      'doc-version': { type: 'string' },
+      locale: { type: 'string' },
+      format: { type: 'string', short: 'f', default: 'json' },
+      'multi-view': { type: 'boolean', default: false },
+      'base-url': { type: 'string' },
+      url: { type: 'string' },
+      output: { type: 'string', short: 'o' },
+      quiet: { type: 'boolean', short: 'q', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    return 'help';
+  }
+
+  if (positionals.length !== 1) {
+    throw new Error(positionals.length === 0 ? 'Missing input URL, directory or file' : `Expected one input, got ${positionals.length}`);
+  }
+
+  const oneOf = <T extends string>(name: string, value: string | undefined, allowed: readonly T[]): T => {
+    if (!allowed.includes(value as T)) {
+      throw new Error(`--${name} must be one of ${allowed.join(', ')}`);
+    }
+    return value as T;
+  };
+
+  let maxPages: number | undefined;
+  if (values['max-pages'] !== undefined) {
+    maxPages = Number(values['max-pages']);
+    if (!Number.isInteger(maxPages) || maxPages < 1) {
+      throw new Error('--max-pages must be a whole number of at least 1');
+    }
+  }
+
+  return {
+    input: positionals[0],
+    strategy: values.strategy as string,
+    maxPages,
+    fetcher: oneOf('fetcher', values.fetcher, ['browser', 'static'] as const),
+    cacheDir: values['cache-dir'],
+    cache: oneOf('cache', values.cache, ['default', 'no-cache', 'no-store'] as const),
+    docVersion: values['doc-version'],
+    locale: values.locale,
+    format: oneOf('format', values.format, ['json', 'map'] as const),
+    multiView: values['multi-view'] as boolean,
+    baseUrl: values['base-url'],
+    url: values.url,
+    output: values.output,
+    quiet: values.quiet as boolean,
+  };
+}
@@ -0,0 +1,143 @@
+#!/usr/bin/env -S vite-node --script
+// docmaps-parse - generate DocMaps maps from the command line
+//
+// Runs the same parser as the editor's generation jobs, without the editor:
+//   docmaps-parse https://docs.example.com -f map -o example.json
+//   docmaps-parse ./docs --base-url https://github.com/acme/docs/blob/main/
+//   docmaps-parse ./openapi.yaml --url https://api.example.com/openapi.yaml
+//   docmaps-parse ./schema.graphql --url https://api.example.com/graphql
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { parseDocumentation, parseMarkdownDirectory, getAvailableStrategies } from '../parser';
+import { fetchDocumentation, fetchWithBrowser } from '../fetcher';
+import { isOpenApiSpecUrl } from '../strategies/openapi';
+import { isGraphQLSchemaUrl } from '../strategies/graphql';
+import { configureCache, FileSystemCacheStore } from '../cache';
+import { parseCliArgs, USAGE } from './args';
+import { buildMapDocument } from './map-document';
+import type { CliOptions } from './args';
+import type { FetchResult, ParseOptions, ParseResult } from '../types';
+
+/**
+ * Fetch and parse a documentation URL
+ */
+async function parseUrl(options: CliOptions, parseOptions: ParseOptions): Promise<ParseResult> {
+  // Raw specs and schemas are fetched directly, like the editor does
+  const rawSchema = isOpenApiSpecUrl(options.input) || isGraphQLSchemaUrl(options.input);
+  const fetchPage = options.fetcher === 'static' || rawSchema ? fetchDocumentation : fetchWithBrowser;
+  const fetchResult: FetchResult = await fetchPage(options.input, { cache: options.cache });
+
+  if (fetchResult.statusCode !== 200) {
+    throw new Error(`Failed to fetch documentation (HTTP ${fetchResult.statusCode})`);
+  }
+
+  const enableDeepCrawl = options.maxPages !== 1;
+  return parseDocumentation(fetchResult.html, fetchResult.url, enableDeepCrawl, parseOptions);
+}
+
+/**
+ * Parse a saved HTML page, API spec or GraphQL schema; nothing is fetched
+ */
+async function parseFile(options: CliOptions, parseOptions: ParseOptions): Promise<ParseResult> {
+  const content = await fs.readFile(options.input, 'utf-8');
+  const url = options.url || pathToFileURL(options.input).href;
+  return parseDocumentation(content, url, false, parseOptions);
+}
+
+async function run(options: CliOptions): Promise<ParseResult> {
+  // Checked before fetching, so a typo does not cost a browser launch
+  if (!['auto', 'ensemble', ...getAvailableStrategies()].includes(options.strategy)) {
+    throw new Error(`Unknown strategy "${options.strategy}" (available: auto, ensemble, ${getAvailableStrategies().join(', ')})`);
+  }
+
+  if (options.cacheDir) {
+    configureCache(new FileSystemCacheStore(options.cacheDir));
+  }
+
+  const parseOptions: ParseOptions = {
+    strategy: options.strategy === 'auto' || options.strategy === 'ensemble' ? undefined : options.strategy,
+    ensemble: options.strategy === 'ensemble',
+    maxPages: options.maxPages,
+    fetcher: options.fetcher,
+    cache: options.cache,
+    version: options.docVersion,
+    locale: options.locale,
+    multiView: options.multiView,
+    onPageCrawled: (page) => {
+      console.log(`[CLI] ${page.status === 'fetched' ? 'Fetched' : 'Failed'} ${page.url}${page.fromCache ? ' (cached)' : ''}${page.error ? `: ${page.error}` : ''}`);
+    },
+  };
+
+  if (/^https?:\/\//i.test(options.input)) {
+    return parseUrl(options, parseOptions);
+  }
+
+  const stats = await fs.stat(options.input).catch(() => null);
+  if (!stats) {
+    throw new Error(`${options.input} is not a URL, directory or file`);
+  }
+
+  if (stats.isDirectory()) {
+    if (options.strategy !== 'auto') {
+      throw new Error('--strategy does not apply to Markdown directories');
+    }
+    if (options.docVersion || options.locale) {
+      throw new Error('--doc-version and --locale do not apply to Markdown directories');
+    }
+    return parseMarkdownDirectory(options.input, { baseUrl: options.baseUrl });
+  }
+
+  return parseFile(options, parseOptions);
+}
+
+async function main(): Promise<void> {
+  let options: CliOptions | 'help';
+  try {
+    options = parseCliArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`docmaps-parse: ${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    process.exitCode = 2;
+    return;
+  }
+
+  if (options === 'help') {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  // npm scripts run in the package directory; resolve paths where npm was invoked
+  const cwd = process.env.INIT_CWD || process.cwd();
+  const resolve = (file: string | undefined) => (file ? path.resolve(cwd, file) : undefined);
+  if (!/^https?:\/\//i.test(options.input)) {
+    options.input = path.resolve(cwd, options.input);
+  }
+  options.output = resolve(options.output);
+  options.cacheDir = resolve(options.cacheDir);
+
+  // Parser progress goes to stderr so stdout carries only the JSON
+  const log = options.quiet ? () => {} : console.error.bind(console);
+  console.log = log;
+  console.warn = log;
+
+  const result = await run(options);
+  if (result.nodes.length === 0) {
+    throw new Error('No content could be extracted from the documentation');
+  }
+
+  const output = options.format === 'map' ? buildMapDocument(result, options.multiView) : result;
+  const json = `${JSON.stringify(output, null, 2)}\n`;
+
+  if (options.output) {
+    await fs.writeFile(options.output, json);
+    log(`[CLI] Wrote ${result.nodes.length} nodes and ${result.edges.length} edges to ${options.output} (strategy: ${result.metadata.strategy})`);
+  } else {
+    process.stdout.write(json);
+  }
+}
+
+main().catch((error) => {
+  console.error(`docmaps-parse: ${error instanceof Error ? error.message : error}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,79 @@
+// Unit tests for map documents
+
+import { describe, it, expect } from 'vitest';
+import { buildMapDocument } from './map-document';
+import type { ExtractedNode, ParseResult } from '../types';
+
+const node = (id: string, type: ExtractedNode['type'], label: string): ExtractedNode => ({ id, type, data: { label } });
+
+const result = (): ParseResult => ({
+  nodes: [
+    node('acme', 'product', 'Acme Cloud'),
+    node('payments', 'feature', 'Payments'),
+    node('refunds', 'component', 'Refunds'),
+    node('billing', 'feature', 'Billing'),
+    node('invoices', 'component', 'Invoices'),
+  ],
+  edges: [
+    { id: 'acme-payments', source: 'acme', target: 'payments', type: 'hierarchy' },
+    { id: 'payments-refunds', source: 'payments', target: 'refunds', type: 'hierarchy' },
+    { id: 'acme-billing', source: 'acme', target: 'billing', type: 'hierarchy' },
+    { id: 'billing-invoices', source: 'billing', target: 'invoices', type: 'hierarchy' },
+  ],
+  metadata: {
+    source_url: 'https://www.acme.dev/docs',
+    generated_at: '2024-05-01T00:00:00.000Z',
+    strategy: 'template',
+    confidence: 0.9,
+    warnings: [],
+  },
+});
+
+describe('buildMapDocument', () => {
+  it('should lay out a single-view map', () => {
+    const doc = buildMapDocument(result());
+
+    expect(doc).toMatchObject({
+      slug: 'acme-cloud',
+      title: 'Acme Cloud',
+      product_name: 'Acme Cloud',
+      product_url: 'https://www.acme.dev/docs',
+      view_type: 'single',
+    });
+    expect(doc.views).toBeUndefined();
+    expect(doc.nodes).toHaveLength(5);
+    expect(doc.nodes.every((n) => Number.isFinite(n.position.x) && Number.isFinite(n.position.y))).toBe(true);
+
+    // Children are laid out below their parent
+    const y = (id: string) => doc.nodes.find((n) => n.id === id)!.position.y;
+    expect(y('payments')).toBeGreaterThan(y('acme'));
+    expect(y('refunds')).toBeGreaterThan(y('payments'));
+  });
+
+  it('should record generation metadata and generated IDs', () => {
+    const doc = buildMapDocument(result());
+
+    expect(doc.generation_metadata).toMatchObject({ source_url: 'https://www.acme.dev/docs', strategy: 'template' });
+    expect(doc.generation_metadata.auto_generated_node_ids).toEqual(['acme', 'payments', 'refunds', 'billing', 'invoices']);
+    expect(doc.generation_metadata.auto_generated_edge_ids).toHaveLength(4);
+  });
+
+  it('should split multi-view maps into an overview and product views', () => {
+    const doc = buildMapDocument(result(), true);
+
+    expect(doc.view_type).toBe('multi');
+    expect(doc.views!.map((view) => [view.slug, view.order_index])).toEqual([
+      ['overview', 0],
+      ['payments', 1],
+      ['billing', 2],
+    ]);
+    expect(doc.nodes).toEqual(doc.views![0].nodes);
+  });
+
+  it('should leave product_url empty for local sources', () => {
+    const local = result();
+    local.metadata.source_url = 'file:///home/me/openapi.yaml';
+
+    expect(buildMapDocument(local).product_url).toBeNull();
+  });
+});
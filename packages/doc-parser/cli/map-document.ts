@@ -0,0 +1,89 @@
+// Map documents - a parse result laid out and shaped like a saved map
+
+import { applyLayout } from '@docmaps/graph/layout';
+import { splitIntoViews } from '../views';
+import type { ExtractedNode, ExtractedEdge, ParseResult } from '../types';
+import type { EdgeData, MapGenerationMetadata, MapInsert, NodeData, ProductViewInsert } from '@docmaps/database';
+
+/**
+ * A generated map with node positions, in the shape of a maps row
+ * Multi-view maps hold the overview and list every view (overview first) in views,
+ * in the shape of product_views rows
+ */
+export interface MapDocument
+  extends Pick<MapInsert, 'slug' | 'title' | 'product_name' | 'product_url' | 'description' | 'view_type' | 'nodes' | 'edges' | 'metadata'> {
+  generation_metadata: MapGenerationMetadata;
+  views?: Array<Omit<ProductViewInsert, 'map_id'>>;
+}
+
+/**
+ * Lay out extracted nodes and edges as stored map data
+ */
+function layoutGraph(nodes: ExtractedNode[], edges: ExtractedEdge[]): { nodes: NodeData[]; edges: EdgeData[] } {
+  const nodesForLayout = nodes.map((node) => ({
+    id: node.id,
+    type: node.type,
+    position: { x: 0, y: 0 }, // Will be calculated by layout
+    data: node.data,
+  }));
+
+  const edgesForLayout = edges.map((edge) => ({
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    type: edge.type,
+    label: edge.label,
+    floating: edge.floating,
+    style: edge.style,
+  }));
+
+  return {
+    nodes: applyLayout(nodesForLayout, edgesForLayout) as NodeData[],
+    edges: edgesForLayout as EdgeData[],
+  };
+}
+
+/**
+ * Lay out a parse result as a map document
+ * @param result - Result of parseDocumentation or parseMarkdownDirectory
+ * @param multiView - Split into an overview and one view per product with splitIntoViews
+ * @returns Map document; single-view when there is nothing to split
+ */
+export function buildMapDocument(result: ParseResult, multiView: boolean = false): MapDocument {
+  const sourceUrl = result.metadata.source_url;
+  const isWebUrl = /^https?:\/\//i.test(sourceUrl);
+  const productNode = result.nodes.find((node) => node.type === 'product');
+  const productName = productNode?.data.label || (isWebUrl ? new URL(sourceUrl).hostname.replace(/^www\./, '') : 'Documentation');
+  const slug = productName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'map';
+
+  const split = multiView ? splitIntoViews(result) : null;
+  const views = split && split.views.length > 0
+    ? [split.overview, ...split.views].map((view, index) => ({
+      title: view.title,
+      slug: view.slug,
+      order_index: index,
+      ...layoutGraph(view.nodes, view.edges),
+    }))
+    : undefined;
+  const { nodes, edges } = views ? views[0] : layoutGraph(result.nodes, result.edges);
+
+  return {
+    slug,
+    title: productName,
+    product_name: productName,
+    product_url: isWebUrl ? sourceUrl : null,
+    description: `Auto-generated map from ${sourceUrl}`,
+    view_type: views ? 'multi' : 'single',
+    nodes,
+    edges,
+    metadata: {},
+    generation_metadata: {
+      ...result.metadata,
+      auto_generated_node_ids: result.nodes.map((node) => node.id),
+      auto_generated_edge_ids: views
+        ? views.flatMap((view) => view.edges.map((edge) => edge.id))
+        : edges.map((edge) => edge.id),
+    },
+    ...(views ? { views } : {}),
+  };
+}
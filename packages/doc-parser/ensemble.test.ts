@@ -0,0 +1,208 @@
+// Unit tests for ensemble merging
+
+import { describe, it, expect } from 'vitest';
+import { mergeStrategyResults } from './ensemble';
+import type { StrategyCandidate } from './ensemble';
+import type { ExtractedNode, ExtractedEdge } from './types';
+
+function node(id: string, type: ExtractedNode['type'], label: string, data: Partial<ExtractedNode['data']> = {}): ExtractedNode {
+  return { id, type, data: { label, ...data } };
+}
+
+function edge(source: string, target: string, type: ExtractedEdge['type'] = 'hierarchy'): ExtractedEdge {
+  return { id: `${source}-${target}`, source, target, type };
+}
+
+const sidebar: StrategyCandidate = {
+  strategy: 'template',
+  confidence: 0.9,
+  nodes: [
+    node('product-acme', 'product', 'Acme'),
+    node('feature-payments', 'feature', 'Payments', { docUrl: 'https://docs.acme.dev/payments' }),
+    node('feature-billing', 'feature', 'Billing'),
+    node('component-refunds', 'component', 'Refunds'),
+  ],
+  edges: [
+    edge('product-acme', 'feature-payments'),
+    edge('product-acme', 'feature-billing'),
+    edge('feature-payments', 'component-refunds'),
+  ],
+};
+
+const content: StrategyCandidate = {
+  strategy: 'hybrid',
+  confidence: 0.6,
+  warnings: ['No navigation found'],
+  nodes: [
+    node('product-acme', 'product', 'Acme'),
+    node('feature-payment', 'feature', 'Payment', { description: 'Accept payments online' }),
+    node('feature-quickstart', 'feature', 'Quickstart'),
+    node('component-refunds', 'component', 'Refunds'),
+  ],
+  edges: [
+    edge('product-acme', 'feature-payment'),
+    edge('product-acme', 'feature-quickstart'),
+    edge('feature-quickstart', 'component-refunds'),
+  ],
+};
+
+const navigation: StrategyCandidate = {
+  strategy: 'navigation',
+  confidence: 0.7,
+  nodes: [
+    node('product-acme', 'product', 'Acme'),
+    node('feature-payments', 'feature', 'Payments'),
+    node('component-refunds', 'component', 'Refunds'),
+  ],
+  edges: [
+    edge('product-acme', 'feature-payments'),
+    edge('feature-payments', 'component-refunds'),
+  ],
+};
+
+describe('mergeStrategyResults', () => {
+  it('should align similar nodes from different strategies', () => {
+    const result = mergeStrategyResults([content, sidebar], 'https://docs.acme.dev');
+
+    const labels = result.nodes.map(n => n.data.label);
+    expect(labels.filter(label => label.startsWith('Payment'))).toHaveLength(1);
+    expect(labels).toEqual(expect.arrayContaining(['Acme', 'Billing', 'Quickstart', 'Refunds']));
+    expect(result.nodes).toHaveLength(5);
+  });
+
+  it('should merge node data from all strategies', () => {
+    const result = mergeStrategyResults([sidebar, content], 'https://docs.acme.dev');
+
+    const payments = result.nodes.find(n => n.data.label.startsWith('Payment'));
+    expect(payments?.data.description).toBe('Accept payments online');
+    expect(payments?.data.docUrl).toBe('https://docs.acme.dev/payments');
+  });
+
+  it('should align nodes across types and keep the type most strategies gave', () => {
+    const asProduct: StrategyCandidate = {
+      strategy: 'html',
+      confidence: 0.95,
+      nodes: [node('product-billing', 'product', 'Billing')],
+      edges: [],
+    };
+
+    const asFeature: StrategyCandidate = {
+      strategy: 'heuristic',
+      confidence: 0.4,
+      nodes: [node('feature-billing', 'feature', 'Billing')],
+      edges: [],
+    };
+
+    const result = mergeStrategyResults([asProduct, sidebar, asFeature], 'https://docs.acme.dev');
+
+    const billing = result.nodes.filter(n => n.data.label === 'Billing');
+    expect(billing).toHaveLength(1);
+    expect(billing[0]).toMatchObject({ id: 'feature-billing', type: 'feature' });
+    expect(result.metadata.node_provenance!['feature-billing'].strategies).toEqual(['html', 'template', 'heuristic']);
+  });
+
+  it('should record provenance and agreement per node', () => {
+    const result = mergeStrategyResults([sidebar, content, navigation], 'https://docs.acme.dev');
+    const provenance = result.metadata.node_provenance!;
+
+    const refunds = result.nodes.find(n => n.data.label === 'Refunds')!;
+    expect(provenance[refunds.id]).toEqual({
+      strategies: ['template', 'navigation', 'hybrid'],
+      agreement: 1,
+    });
+
+    const billing = result.nodes.find(n => n.data.label === 'Billing')!;
+    expect(provenance[billing.id]).toEqual({ strategies: ['template'], agreement: 1 / 3 });
+
+    expect(Object.keys(provenance).sort()).toEqual(result.nodes.map(n => n.id).sort());
+  });
+
+  it('should order nodes by agreement', () => {
+    const result = mergeStrategyResults([sidebar, content, navigation], 'https://docs.acme.dev');
+    const agreement = result.nodes.map(n => result.metadata.node_provenance![n.id].agreement);
+
+    expect(agreement).toEqual([...agreement].sort((a, b) => b - a));
+  });
+
+  it('should give each child the parent most strategies agree on', () => {
+    const result = mergeStrategyResults([content, sidebar, navigation], 'https://docs.acme.dev');
+
+    const refunds = result.nodes.find(n => n.data.label === 'Refunds')!;
+    const parents = result.edges.filter(e => e.type === 'hierarchy' && e.target === refunds.id);
+    expect(parents).toHaveLength(1);
+
+    const parent = result.nodes.find(n => n.id === parents[0].source);
+    expect(parent?.data.label).toMatch(/^Payment/);
+  });
+
+  it('should break parent ties in favour of the more confident strategy', () => {
+    const result = mergeStrategyResults([content, sidebar], 'https://docs.acme.dev');
+
+    const refunds = result.nodes.find(n => n.data.label === 'Refunds')!;
+    const parent = result.edges.find(e => e.type === 'hierarchy' && e.target === refunds.id);
+    expect(result.nodes.find(n => n.id === parent?.source)?.data.label).toMatch(/^Payment/);
+  });
+
+  it('should not create hierarchy cycles', () => {
+    const a: StrategyCandidate = {
+      strategy: 'template',
+      confidence: 0.9,
+      nodes: [node('feature-guides', 'feature', 'Guides'), node('feature-tutorials', 'feature', 'Tutorials')],
+      edges: [edge('feature-guides', 'feature-tutorials')],
+    };
+    const b: StrategyCandidate = {
+      strategy: 'html',
+      confidence: 0.6,
+      nodes: [node('feature-guides', 'feature', 'Guides'), node('feature-tutorials', 'feature', 'Tutorials')],
+      edges: [edge('feature-tutorials', 'feature-guides')],
+    };
+
+    const result = mergeStrategyResults([a, b], 'https://docs.acme.dev');
+    expect(result.edges).toEqual([
+      expect.objectContaining({ source: 'feature-guides', target: 'feature-tutorials' }),
+    ]);
+  });
+
+  it('should keep and deduplicate non-hierarchy edges', () => {
+    const withRelated = (candidate: StrategyCandidate): StrategyCandidate => ({
+      ...candidate,
+      edges: [...candidate.edges, edge('feature-billing', 'feature-payments', 'related')],
+    });
+
+    const result = mergeStrategyResults([withRelated(sidebar), withRelated(navigation)], 'https://docs.acme.dev');
+    expect(result.edges.filter(e => e.type === 'related')).toHaveLength(1);
+  });
+
+  it('should keep IDs unique when unaligned nodes share one', () => {
+    const a: StrategyCandidate = {
+      strategy: 'template',
+      confidence: 0.9,
+      nodes: [node('feature-x', 'feature', 'Authentication')],
+      edges: [],
+    };
+    const b: StrategyCandidate = {
+      strategy: 'html',
+      confidence: 0.5,
+      nodes: [node('feature-x', 'feature', 'Webhooks')],
+      edges: [],
+    };
+
+    const result = mergeStrategyResults([a, b], 'https://docs.acme.dev');
+    expect(result.nodes.map(n => n.id)).toEqual(['feature-x', 'feature-x-2']);
+  });
+
+  it('should fill in ensemble metadata', () => {
+    const result = mergeStrategyResults([content, sidebar], 'https://docs.acme.dev');
+
+    expect(result.metadata.strategy).toBe('ensemble');
+    expect(result.metadata.confidence).toBe(0.9);
+    expect(result.metadata.ensemble_strategies).toEqual(['template', 'hybrid']);
+    expect(result.metadata.warnings).toEqual(['[hybrid] No navigation found']);
+    expect(result.metadata.stats?.nodes_extracted).toBe(8);
+    expect(result.metadata.stats?.nodes_deduplicated).toBe(3);
+  });
+
+  it('should require at least one candidate', () => {
+    expect(() => mergeStrategyResults([], 'https://docs.acme.dev')).toThrow('at least one');
+  });
+});
@@ -0,0 +1,233 @@
+// Ensemble merging - combines the results of several parsing strategies
+
+import { deduplicateNodes, updateEdgeReferences } from './validators/deduplication';
+import type { ExtractedNode, ExtractedEdge, NodeProvenance, ParseResult } from './types';
+
+/**
+ * Result of one strategy, ready to be merged
+ */
+export interface StrategyCandidate {
+  /** Strategy name, recorded in node provenance */
+  strategy: string;
+  nodes: ExtractedNode[];
+  edges: ExtractedEdge[];
+  confidence: number;
+  warnings?: string[];
+}
+
+/**
+ * Merge the results of several strategies into one result
+ *
+ * Nodes are aligned with the deduplication validator on their labels, so a
+ * node found by several strategies becomes one node whose provenance lists all
+ * of them; its type is the one most of those strategies assigned. Each node
+ * gets an agreement score: the share of candidates that found it. Nodes are
+ * ordered by agreement, and the parser passes the scores to filterNodes, where
+ * they add to the priority the node cap ranks by, so nodes only one strategy
+ * believed in are dropped first.
+ *
+ * Hierarchy edges are voted on per child: the parent proposed by the most
+ * strategies wins (ties go to the more confident strategy), so the merged map
+ * stays a tree.
+ *
+ * @param candidates - Strategy results (at least one)
+ * @param url - Source URL
+ * @param similarityThreshold - Label similarity needed to align two nodes (default: 0.85)
+ * @returns Merged result with strategy 'ensemble' and per-node provenance
+ */
+export function mergeStrategyResults(
+  candidates: StrategyCandidate[],
+  url: string,
+  similarityThreshold: number = 0.85
+): ParseResult {
+  if (candidates.length === 0) {
+    throw new Error('Ensemble merge needs at least one strategy result');
+  }
+
+  // Most confident strategy first: its nodes and edges win ties
+  const ranked = candidates
+    .map((candidate, index) => ({ candidate, index }))
+    .sort((a, b) => b.candidate.confidence - a.candidate.confidence || a.index - b.index)
+    .map(({ candidate }) => candidate);
+
+  // Namespace IDs so equal IDs from different strategies stay apart until aligned
+  const namespaced = (rank: number, id: string) => `${rank}:${id}`;
+  const members = new Map<string, { strategy: string; node: ExtractedNode; rank: number }>();
+  const allNodes: ExtractedNode[] = [];
+
+  ranked.forEach((candidate, rank) => {
+    for (const node of candidate.nodes) {
+      const id = namespaced(rank, node.id);
+      members.set(id, { strategy: candidate.strategy, node, rank });
+      // Strategies disagree on types, so align on labels alone and vote on the type below
+      allNodes.push({ ...node, id, type: 'feature' });
+    }
+  });
+
+  const { nodes: alignedNodes, idMapping } = deduplicateNodes(allNodes, similarityThreshold);
+
+  // Which nodes ended up in each aligned node
+  const groups = new Map<string, Array<{ strategy: string; node: ExtractedNode; rank: number }>>();
+  for (const [id, alignedId] of idMapping) {
+    const group = groups.get(alignedId) || [];
+    group.push(members.get(id)!);
+    groups.set(alignedId, group);
+  }
+
+  // Take the ID from the node that carried the winning type, keeping IDs unique
+  const finalIds = new Map<string, string>();
+  const usedIds = new Set<string>();
+  const provenance: Record<string, NodeProvenance> = {};
+
+  const nodes = alignedNodes
+    .map((node) => {
+      const group = groups.get(node.id)!;
+      const { type, representative } = voteType(group);
+
+      let id = representative.id;
+      let suffix = 2;
+      while (usedIds.has(id)) {
+        id = `${representative.id}-${suffix++}`;
+      }
+      usedIds.add(id);
+      finalIds.set(node.id, id);
+
+      const strategies = ranked
+        .map((candidate) => candidate.strategy)
+        .filter((strategy) => group.some((member) => member.strategy === strategy));
+      provenance[id] = {
+        strategies,
+        agreement: strategies.length / ranked.length,
+      };
+
+      return { ...node, id, type, level: representative.level };
+    })
+    // Stable sort keeps the most confident strategy's order within a score
+    .sort((a, b) => provenance[b.id].agreement - provenance[a.id].agreement);
+
+  const resolveId = (rank: number, id: string): string | undefined => {
+    const alignedId = idMapping.get(namespaced(rank, id));
+    return alignedId ? finalIds.get(alignedId) : undefined;
+  };
+
+  const edges = mergeEdges(ranked, resolveId);
+
+  return {
+    nodes,
+    edges,
+    metadata: {
+      source_url: url,
+      generated_at: new Date().toISOString(),
+      strategy: 'ensemble',
+      confidence: ranked[0].confidence,
+      warnings: ranked.flatMap((candidate) =>
+        (candidate.warnings || []).map((warning) => `[${candidate.strategy}] ${warning}`)
+      ),
+      ensemble_strategies: ranked.map((candidate) => candidate.strategy),
+      node_provenance: provenance,
+      stats: {
+        nodes_extracted: allNodes.length,
+        nodes_final: nodes.length,
+        edges_extracted: ranked.reduce((sum, candidate) => sum + candidate.edges.length, 0),
+        nodes_deduplicated: allNodes.length - nodes.length,
+        nodes_filtered: 0,
+        duration_ms: 0,
+      },
+    },
+  };
+}
+
+/**
+ * Pick the type most nodes in an aligned group have (ties go to the more
+ * confident strategy), along with the first node that has it
+ */
+function voteType(
+  group: Array<{ node: ExtractedNode; rank: number }>
+): { type: ExtractedNode['type']; representative: ExtractedNode } {
+  const votes = new Map<ExtractedNode['type'], { count: number; rank: number; node: ExtractedNode }>();
+
+  for (const { node, rank } of group) {
+    const vote = votes.get(node.type);
+    if (!vote) {
+      votes.set(node.type, { count: 1, rank, node });
+      continue;
+    }
+
+    vote.count++;
+    if (rank < vote.rank) {
+      vote.rank = rank;
+      vote.node = node;
+    }
+  }
+
+  const [type, { node }] = Array.from(votes.entries())
+    .sort(([, a], [, b]) => b.count - a.count || a.rank - b.rank)[0];
+  return { type, representative: node };
+}
+
+/**
+ * Remap every candidate's edges onto the aligned nodes
+ * Hierarchy edges keep one parent per child (most votes, then highest rank)
+ * and skip parents that would close a cycle; other edges are deduplicated.
+ */
+function mergeEdges(
+  ranked: StrategyCandidate[],
+  resolveId: (rank: number, id: string) => string | undefined
+): ExtractedEdge[] {
+  const parentVotes = new Map<string, Map<string, { edge: ExtractedEdge; votes: number; rank: number }>>();
+  const otherEdges: ExtractedEdge[] = [];
+
+  ranked.forEach((candidate, rank) => {
+    const seen = new Set<string>();
+
+    for (const edge of candidate.edges) {
+      const source = resolveId(rank, edge.source);
+      const target = resolveId(rank, edge.target);
+      if (!source || !target || source === target) continue;
+
+      const remapped = { ...edge, source, target };
+      if (edge.type !== 'hierarchy') {
+        otherEdges.push(remapped);
+        continue;
+      }
+
+      // One vote per strategy, even if it produced the edge twice
+      const key = `${source}-${target}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const votes = parentVotes.get(target) || new Map();
+      const existing = votes.get(source);
+      if (existing) {
+        existing.votes++;
+      } else {
+        votes.set(source, { edge: remapped, votes: 1, rank });
+      }
+      parentVotes.set(target, votes);
+    }
+  });
+
+  const parents = new Map<string, string>();
+  const createsCycle = (child: string, parent: string): boolean => {
+    for (let current: string | undefined = parent; current; current = parents.get(current)) {
+      if (current === child) return true;
+    }
+    return false;
+  };
+
+  const hierarchyEdges: ExtractedEdge[] = [];
+  for (const [target, votes] of parentVotes) {
+    const options = Array.from(votes.entries())
+      .sort(([, a], [, b]) => b.votes - a.votes || a.rank - b.rank);
+
+    for (const [source, { edge }] of options) {
+      if (createsCycle(target, source)) continue;
+      parents.set(target, source);
+      hierarchyEdges.push(edge);
+      break;
+    }
+  }
+
+  // Identity mapping: only deduplicates and normalizes edge IDs
+  return updateEdgeReferences([...hierarchyEdges, ...otherEdges], new Map());
+}
@@ -0,0 +1,230 @@
+// Unit tests for the evaluation harness, plus the corpus regression check
+
+import { describe, it, expect } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { scoreResult, compareReports, filterReport, normalizeLabel, loadCorpus, evaluateCorpus, snapshotChecksum } from './harness';
+import type { EvaluationReport, StrategyScore } from './harness';
+import type { ExtractedNode, ExtractedEdge } from '../types';
+
+const node = (id: string, label: string): ExtractedNode => ({ id, type: 'feature', data: { label } });
+
+const hierarchy = (source: string, target: string): ExtractedEdge => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  type: 'hierarchy',
+});
+
+const outline = {
+  label: 'Acme',
+  children: [
+    { label: 'Guides', children: [{ label: 'Quickstart' }, { label: 'Webhooks' }] },
+    { label: 'API Reference' },
+  ],
+};
+
+describe('normalizeLabel', () => {
+  it('should ignore case, punctuation and spacing', () => {
+    expect(normalizeLabel('  API   Reference ')).toBe('api reference');
+    expect(normalizeLabel('UX Research & Design')).toBe('ux research design');
+    expect(normalizeLabel("What's next?")).toBe('what s next');
+  });
+});
+
+describe('scoreResult', () => {
+  it('should give a perfect score to the expected map', () => {
+    const score = scoreResult({ outline }, {
+      nodes: [node('a', 'Acme'), node('g', 'Guides'), node('q', 'Quickstart'), node('w', 'Webhooks'), node('r', 'API Reference')],
+      edges: [hierarchy('a', 'g'), hierarchy('g', 'q'), hierarchy('g', 'w'), hierarchy('a', 'r')],
+    });
+
+    expect(score).toEqual({
+      labelPrecision: 1,
+      labelRecall: 1,
+      labelF1: 1,
+      hierarchyAccuracy: 1,
+      edgePrecision: 1,
+      edgeRecall: 1,
+      nodes: 5,
+      edges: 4,
+    });
+  });
+
+  it('should match near-identical labels and count extra and missing nodes', () => {
+    const score = scoreResult({ outline }, {
+      nodes: [node('a', 'Acme'), node('g', 'Guides'), node('q', 'Quick start'), node('x', 'Edit this page')],
+      edges: [hierarchy('a', 'g'), hierarchy('g', 'q'), hierarchy('a', 'x')],
+    });
+
+    expect(score.labelPrecision).toBe(0.75);
+    expect(score.labelRecall).toBe(0.6);
+    expect(score.hierarchyAccuracy).toBe(1);
+    expect(score.edgePrecision).toBe(0.667);
+    expect(score.edgeRecall).toBe(0.5);
+  });
+
+  it('should mark down nodes under the wrong parent', () => {
+    const score = scoreResult({ outline }, {
+      nodes: [node('a', 'Acme'), node('g', 'Guides'), node('q', 'Quickstart'), node('w', 'Webhooks'), node('r', 'API Reference')],
+      edges: [hierarchy('a', 'g'), hierarchy('a', 'q'), hierarchy('a', 'w'), hierarchy('a', 'r')],
+    });
+
+    expect(score.labelF1).toBe(1);
+    expect(score.hierarchyAccuracy).toBe(0.5);
+    expect(score.edgeRecall).toBe(0.5);
+  });
+
+  it('should pair the roots even when the root label differs', () => {
+    const score = scoreResult({ outline }, {
+      nodes: [node('a', 'Acme Documentation v2'), node('g', 'Guides'), node('r', 'API Reference')],
+      edges: [hierarchy('a', 'g'), hierarchy('a', 'r')],
+    });
+
+    expect(score.labelPrecision).toBe(0.667);
+    expect(score.hierarchyAccuracy).toBe(1);
+    expect(score.edgePrecision).toBe(1);
+  });
+
+  it('should score listed non-hierarchy edges by type', () => {
+    const expectation = {
+      outline,
+      edges: [{ source: 'Webhooks', target: 'API Reference', type: 'depends-on' as const }],
+    };
+    const nodes = [node('a', 'Acme'), node('g', 'Guides'), node('q', 'Quickstart'), node('w', 'Webhooks'), node('r', 'API Reference')];
+    const tree = [hierarchy('a', 'g'), hierarchy('g', 'q'), hierarchy('g', 'w'), hierarchy('a', 'r')];
+
+    const related = scoreResult(expectation, { nodes, edges: [...tree, { id: 'wr', source: 'w', target: 'r', type: 'related' }] });
+    const dependsOn = scoreResult(expectation, { nodes, edges: [...tree, { id: 'wr', source: 'w', target: 'r', type: 'depends-on' }] });
+
+    expect(related.edgeRecall).toBe(0.8);
+    expect(dependsOn.edgeRecall).toBe(1);
+  });
+
+  it('should score an empty result as zero', () => {
+    const score = scoreResult({ outline }, { nodes: [], edges: [] });
+
+    expect(score.labelPrecision).toBe(0);
+    expect(score.labelRecall).toBe(0);
+    expect(score.hierarchyAccuracy).toBe(0);
+    expect(score.edgePrecision).toBe(0);
+  });
+});
+
+describe('compareReports', () => {
+  const score = (overrides: Partial<StrategyScore> = {}): StrategyScore => ({
+    labelPrecision: 0.8,
+    labelRecall: 0.8,
+    labelF1: 0.8,
+    hierarchyAccuracy: 0.8,
+    edgePrecision: 0.8,
+    edgeRecall: 0.8,
+    nodes: 10,
+    edges: 9,
+    ...overrides,
+  });
+
+  const report = (runs: EvaluationReport['fixtures'][number]['runs']): EvaluationReport => ({
+    fixtures: [{ fixture: 'acme', runs }],
+    summary: [],
+  });
+
+  it('should report drops and gains beyond the tolerance', () => {
+    const { regressions, improvements } = compareReports(
+      report([{ strategy: 'template', score: score() }]),
+      report([{ strategy: 'template', score: score({ labelRecall: 0.6, edgeRecall: 0.805, hierarchyAccuracy: 0.9 }) }])
+    );
+
+    expect(regressions).toEqual([
+      { fixture: 'acme', strategy: 'template', metric: 'labelRecall', baseline: 0.8, current: 0.6 },
+    ]);
+    expect(improvements.map((change) => change.metric)).toEqual(['hierarchyAccuracy']);
+  });
+
+  it('should report a strategy that fails or stops handling a fixture', () => {
+    const baseline = report([{ strategy: 'template', score: score() }, { strategy: 'html', score: score() }]);
+    const current = report([{ strategy: 'template', error: 'boom' }]);
+
+    const { regressions } = compareReports(baseline, current);
+
+    expect(regressions.map((change) => [change.strategy, change.metric])).toEqual([
+      ['template', 'run'],
+      ['html', 'run'],
+    ]);
+  });
+});
+
+describe('filterReport', () => {
+  const scores = (labelF1: number) => ({
+    labelPrecision: 1,
+    labelRecall: 1,
+    labelF1,
+    hierarchyAccuracy: 1,
+    edgePrecision: 1,
+    edgeRecall: 1,
+  });
+
+  it('should recompute the means over the kept fixtures', () => {
+    const report: EvaluationReport = {
+      fixtures: [
+        { fixture: 'recorded', runs: [{ strategy: 'html', score: { ...scores(0.9), nodes: 3, edges: 2 } }] },
+        { fixture: 'reconstructed', runs: [{ strategy: 'html', score: { ...scores(0.5), nodes: 3, edges: 2 } }] },
+      ],
+      summary: [{ strategy: 'html', fixtures: 2, errors: 0, scores: scores(0.7) }],
+    };
+
+    const filtered = filterReport(report, (fixture) => fixture === 'recorded');
+
+    expect(filtered.fixtures.map((fixture) => fixture.fixture)).toEqual(['recorded']);
+    expect(filtered.summary).toEqual([{ strategy: 'html', fixtures: 1, errors: 0, scores: scores(0.9) }]);
+  });
+});
+
+describe('loadCorpus', () => {
+  const html = '<nav><a href="/docs/guides">Guides</a></nav>\n';
+
+  async function writeFixture(dir: string, snapshot: string, sha256?: string): Promise<void> {
+    await fs.mkdir(path.join(dir, 'acme'));
+    await fs.writeFile(path.join(dir, 'acme', 'page.html'), snapshot);
+    await fs.writeFile(
+      path.join(dir, 'acme', 'expected.json'),
+      JSON.stringify({ url: 'https://docs.acme.com', sha256, outline })
+    );
+  }
+
+  it('should load a recorded snapshot that matches its checksum', async () => {
+    const dir = await fs.mkdtemp(path.join(tmpdir(), 'docmaps-corpus-'));
+    try {
+      await writeFixture(dir, html, snapshotChecksum(html));
+      const [fixture] = await loadCorpus(dir);
+      expect(fixture.content).toBe(html);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject a recorded snapshot that was edited', async () => {
+    const dir = await fs.mkdtemp(path.join(tmpdir(), 'docmaps-corpus-'));
+    try {
+      await writeFixture(dir, html.replace('Guides', 'Tutorials'), snapshotChecksum(html));
+      await expect(loadCorpus(dir)).rejects.toThrow('Fixture acme was edited after recording');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+// Only recorded snapshots are held to the baseline; reconstructions are left out
+const BASELINE_PATH = path.join(__dirname, 'baseline.json');
+
+describe('golden corpus', () => {
+  it('should not regress against the committed baseline', async () => {
+    const baseline = JSON.parse(await fs.readFile(BASELINE_PATH, 'utf-8')) as EvaluationReport;
+    const recorded = (await loadCorpus(path.join(__dirname, 'corpus'))).filter((fixture) => fixture.sha256);
+    const report = await evaluateCorpus(recorded);
+
+    expect(report.fixtures.map((fixture) => fixture.fixture)).toEqual(baseline.fixtures.map((fixture) => fixture.fixture));
+    expect(compareReports(baseline, report).regressions).toEqual([]);
+  }, 60000);
+});
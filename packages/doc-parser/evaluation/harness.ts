@@ -0,0 +1,537 @@
+// Golden-corpus evaluation - scores strategies against recorded doc-site snapshots
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { distance } from 'fastest-levenshtein';
+import { TemplateStrategy } from '../strategies/template';
+import { SchemaStrategy } from '../strategies/schema';
+import { HtmlStrategy } from '../strategies/html';
+import { HeuristicStrategy } from '../strategies/heuristic';
+import { OpenApiStrategy } from '../strategies/openapi';
+import { GraphQLStrategy } from '../strategies/graphql';
+import { parseHybrid } from '../strategies/hybrid';
+import { parseFromNavigation } from '../strategies/navigation';
+import { parseDocumentation } from '../parser';
+import type { BaseStrategy } from '../strategies/base';
+import type { ExtractedNode, ExtractedEdge } from '../types';
+
+/** Labels at least this similar (after normalizing) count as the same node */
+export const LABEL_MATCH_THRESHOLD = 0.85;
+
+/** Score drop tolerated before compareReports reports a regression */
+export const DEFAULT_TOLERANCE = 0.01;
+
+// =====================================================
+// TYPES
+// =====================================================
+
+/**
+ * Expected node in a fixture outline; children are linked to it by hierarchy edges
+ */
+export interface OutlineNode {
+  label: string;
+  children?: OutlineNode[];
+}
+
+/**
+ * Expected non-hierarchy edge, referencing outline nodes by label
+ */
+export interface ExpectedEdge {
+  source: string;
+  target: string;
+  type: NonNullable<ExtractedEdge['type']>;
+}
+
+/**
+ * Contents of a fixture's expected.json
+ */
+export interface FixtureExpectation {
+  /** URL the snapshot was recorded from; strategies see it as the page URL */
+  url: string;
+  /** Snapshot file in the fixture directory (default: page.html) */
+  file?: string;
+  /**
+   * SHA-256 of the snapshot as evaluate:record saved it; loading fails if the
+   * snapshot was edited since. Fixtures without one were not recorded.
+   */
+  sha256?: string;
+  description?: string;
+  outline: OutlineNode;
+  edges?: ExpectedEdge[];
+}
+
+/**
+ * One recorded snapshot and its expected outline
+ */
+export interface Fixture extends FixtureExpectation {
+  /** Fixture directory name */
+  name: string;
+  content: string;
+}
+
+/**
+ * Scores for one strategy on one fixture, each between 0 and 1
+ */
+export interface StrategyScore {
+  /** Share of extracted nodes that match an expected node */
+  labelPrecision: number;
+  /** Share of expected nodes that were extracted */
+  labelRecall: number;
+  labelF1: number;
+  /** Share of matched expected nodes placed under the right parent */
+  hierarchyAccuracy: number;
+  /** Share of extracted edges that are expected */
+  edgePrecision: number;
+  /** Share of expected edges that were extracted */
+  edgeRecall: number;
+  nodes: number;
+  edges: number;
+}
+
+export type ScoreMetric = Exclude<keyof StrategyScore, 'nodes' | 'edges'>;
+
+export const SCORE_METRICS: ScoreMetric[] = [
+  'labelPrecision',
+  'labelRecall',
+  'labelF1',
+  'hierarchyAccuracy',
+  'edgePrecision',
+  'edgeRecall',
+];
+
+/**
+ * Outcome of running one strategy on one fixture
+ */
+export interface StrategyRun {
+  strategy: string;
+  score?: StrategyScore;
+  /** Set when the strategy threw instead of returning a result */
+  error?: string;
+}
+
+export interface FixtureReport {
+  fixture: string;
+  runs: StrategyRun[];
+}
+
+/**
+ * Mean scores of a strategy over the fixtures it could handle
+ */
+export interface StrategySummary {
+  strategy: string;
+  fixtures: number;
+  errors: number;
+  scores: Record<ScoreMetric, number>;
+}
+
+/**
+ * Evaluation report; contains no timestamps or durations so runs can be diffed
+ */
+export interface EvaluationReport {
+  fixtures: FixtureReport[];
+  summary: StrategySummary[];
+}
+
+/**
+ * A score that moved between two reports
+ */
+export interface ScoreChange {
+  fixture: string;
+  strategy: string;
+  /** Metric that changed, or 'run' when the strategy stopped or started running cleanly */
+  metric: ScoreMetric | 'run';
+  baseline: number;
+  current: number;
+}
+
+export interface ReportComparison {
+  regressions: ScoreChange[];
+  improvements: ScoreChange[];
+}
+
+/**
+ * Strategy under evaluation; returns null when it cannot handle the content
+ */
+interface StrategyRunner {
+  name: string;
+  run: (content: string, url: string) => Promise<{ nodes: ExtractedNode[]; edges: ExtractedEdge[] } | null>;
+}
+
+// =====================================================
+// STRATEGIES
+// =====================================================
+
+const classRunner = (strategy: BaseStrategy): StrategyRunner => ({
+  name: strategy.name,
+  run: async (content, url) => (strategy.canHandle(content, url) ? strategy.parse(content, url) : null),
+});
+
+/**
+ * Strategies scored by evaluateCorpus
+ * Single strategies are scored on their raw output; 'pipeline' and 'ensemble'
+ * run parseDocumentation without deep crawl, so validators are included
+ */
+export const EVALUATED_STRATEGIES: StrategyRunner[] = [
+  classRunner(new OpenApiStrategy()),
+  classRunner(new GraphQLStrategy()),
+  classRunner(new TemplateStrategy()),
+  classRunner(new SchemaStrategy()),
+  classRunner(new HtmlStrategy()),
+  classRunner(new HeuristicStrategy()),
+  { name: 'hybrid', run: async (content, url) => parseHybrid(content, url) },
+  { name: 'navigation', run: async (content, url) => parseFromNavigation(content, url) },
+  { name: 'pipeline', run: (content, url) => parseDocumentation(content, url, false) },
+  { name: 'ensemble', run: (content, url) => parseDocumentation(content, url, false, { ensemble: true }) },
+];
+
+// =====================================================
+// CORPUS
+// =====================================================
+
+/**
+ * SHA-256 of a snapshot, as stored in expected.json
+ */
+export function snapshotChecksum(content: Buffer | string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Load every fixture in a corpus directory
+ * Each subdirectory holds an expected.json and the snapshot it describes.
+ * Recorded snapshots must stay byte-for-byte as recorded: corrections belong
+ * in expected.json.
+ *
+ * @param dir - Corpus directory
+ * @returns Fixtures sorted by name
+ */
+export async function loadCorpus(dir: string): Promise<Fixture[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const names = entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name).sort();
+
+  return Promise.all(
+    names.map(async (name) => {
+      const fixtureDir = path.join(dir, name);
+      const expected = JSON.parse(await fs.readFile(path.join(fixtureDir, 'expected.json'), 'utf-8')) as FixtureExpectation;
+      if (!expected.url || !expected.outline?.label) {
+        throw new Error(`Fixture ${name} needs a url and an outline in expected.json`);
+      }
+      const snapshot = await fs.readFile(path.join(fixtureDir, expected.file || 'page.html'));
+      if (expected.sha256 && snapshotChecksum(snapshot) !== expected.sha256) {
+        throw new Error(`Fixture ${name} was edited after recording; re-record it and put corrections in expected.json`);
+      }
+      return { ...expected, name, content: snapshot.toString('utf-8') };
+    })
+  );
+}
+
+// =====================================================
+// SCORING
+// =====================================================
+
+/**
+ * Normalize a label for matching: case, punctuation and spacing are ignored
+ */
+export function normalizeLabel(label: string): string {
+  return label
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function labelSimilarity(a: string, b: string): number {
+  const maxLength = Math.max(a.length, b.length);
+  if (maxLength === 0) return 1;
+  return 1 - distance(a, b) / maxLength;
+}
+
+interface FlatExpected {
+  key: string;
+  label: string;
+  parentKey?: string;
+}
+
+function flattenOutline(outline: OutlineNode): FlatExpected[] {
+  const flat: FlatExpected[] = [];
+  const visit = (node: OutlineNode, parentKey?: string) => {
+    const key = String(flat.length);
+    flat.push({ key, label: node.label, parentKey });
+    node.children?.forEach((child) => visit(child, key));
+  };
+  visit(outline);
+  return flat;
+}
+
+/**
+ * Pair expected and extracted nodes one to one
+ * Exact (normalized) label matches are taken first, in document order, then
+ * the most similar remaining pairs above LABEL_MATCH_THRESHOLD
+ *
+ * @param expected - Expected nodes still to match
+ * @param nodes - Extracted nodes
+ * @param matches - Pairs made so far; extended in place
+ */
+function matchNodes(expected: FlatExpected[], nodes: ExtractedNode[], matches: Map<string, string>): void {
+  const used = new Set(matches.values());
+  const normalized = new Map(nodes.map((node) => [node.id, normalizeLabel(node.data.label || '')]));
+
+  for (const item of expected) {
+    const label = normalizeLabel(item.label);
+    const node = nodes.find((candidate) => !used.has(candidate.id) && normalized.get(candidate.id) === label);
+    if (node) {
+      matches.set(item.key, node.id);
+      used.add(node.id);
+    }
+  }
+
+  const candidates: Array<{ key: string; id: string; similarity: number }> = [];
+  for (const item of expected) {
+    if (matches.has(item.key)) continue;
+    const label = normalizeLabel(item.label);
+    for (const node of nodes) {
+      if (used.has(node.id)) continue;
+      const similarity = labelSimilarity(label, normalized.get(node.id) || '');
+      if (similarity >= LABEL_MATCH_THRESHOLD) {
+        candidates.push({ key: item.key, id: node.id, similarity });
+      }
+    }
+  }
+
+  candidates.sort((a, b) => b.similarity - a.similarity);
+  for (const candidate of candidates) {
+    if (matches.has(candidate.key) || used.has(candidate.id)) continue;
+    matches.set(candidate.key, candidate.id);
+    used.add(candidate.id);
+  }
+}
+
+/**
+ * Find the extracted root: the node with no hierarchy parent and the most children
+ */
+function findRoot(nodes: ExtractedNode[], edges: ExtractedEdge[]): string | undefined {
+  const hasParent = new Set(edges.filter((edge) => edge.type === 'hierarchy').map((edge) => edge.target));
+  const childCount = new Map<string, number>();
+  edges.forEach((edge) => {
+    if (edge.type === 'hierarchy') childCount.set(edge.source, (childCount.get(edge.source) || 0) + 1);
+  });
+
+  return nodes
+    .filter((node) => !hasParent.has(node.id))
+    .sort((a, b) => (childCount.get(b.id) || 0) - (childCount.get(a.id) || 0))[0]?.id;
+}
+
+/** part / whole, or the given score when there is nothing to divide by */
+const ratio = (part: number, whole: number, empty: number): number => (whole === 0 ? empty : part / whole);
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * Score an extracted map against a fixture's expected outline
+ *
+ * The expected root is always paired with the extracted root (the node with
+ * no parent and the most children), so a map titled "pip documentation v24.2"
+ * instead of "pip" is not also marked down for every top-level section. Label
+ * scores count the root only when its label matches; other nodes are paired
+ * by label.
+ *
+ * @param expectation - Expected outline and edges
+ * @param result - Extracted nodes and edges
+ * @returns Scores rounded to three decimals
+ */
+export function scoreResult(
+  expectation: Pick<FixtureExpectation, 'outline' | 'edges'>,
+  result: { nodes: ExtractedNode[]; edges: ExtractedEdge[] }
+): StrategyScore {
+  const expected = flattenOutline(expectation.outline);
+  const [expectedRoot, ...rest] = expected;
+  const matches = new Map<string, string>();
+  let labelMatches = 0;
+
+  const root = result.nodes.find((node) => node.id === findRoot(result.nodes, result.edges));
+  if (root) {
+    matches.set(expectedRoot.key, root.id);
+    const similarity = labelSimilarity(normalizeLabel(expectedRoot.label), normalizeLabel(root.data.label || ''));
+    if (similarity >= LABEL_MATCH_THRESHOLD) labelMatches++;
+  }
+
+  matchNodes(root ? rest : expected, result.nodes, matches);
+  labelMatches += matches.size - (root ? 1 : 0);
+
+  const labelPrecision = ratio(labelMatches, result.nodes.length, 0);
+  const labelRecall = ratio(labelMatches, expected.length, 1);
+  const labelF1 = labelPrecision + labelRecall === 0
+    ? 0
+    : (2 * labelPrecision * labelRecall) / (labelPrecision + labelRecall);
+
+  // Hierarchy: matched non-root nodes whose extracted parent is their expected parent
+  const parentsOf = new Map<string, Set<string>>();
+  result.edges.forEach((edge) => {
+    if (edge.type !== 'hierarchy') return;
+    const parents = parentsOf.get(edge.target) || new Set<string>();
+    parents.add(edge.source);
+    parentsOf.set(edge.target, parents);
+  });
+
+  let placed = 0;
+  let correctlyPlaced = 0;
+  for (const item of expected) {
+    const id = matches.get(item.key);
+    if (!item.parentKey || !id) continue;
+    placed++;
+    const parentId = matches.get(item.parentKey);
+    if (parentId && parentsOf.get(id)?.has(parentId)) correctlyPlaced++;
+  }
+
+  // Edges: hierarchy pairs from the outline plus listed edges, keyed by expected node
+  const keyByLabel = new Map<string, string>();
+  expected.forEach((item) => {
+    const label = normalizeLabel(item.label);
+    if (!keyByLabel.has(label)) keyByLabel.set(label, item.key);
+  });
+
+  const expectedEdges = new Set<string>();
+  expected.forEach((item) => {
+    if (item.parentKey) expectedEdges.add(`hierarchy:${item.parentKey}:${item.key}`);
+  });
+  (expectation.edges || []).forEach((edge) => {
+    const source = keyByLabel.get(normalizeLabel(edge.source));
+    const target = keyByLabel.get(normalizeLabel(edge.target));
+    if (!source || !target) {
+      throw new Error(`Expected edge ${edge.source} -> ${edge.target} references a label missing from the outline`);
+    }
+    expectedEdges.add(`${edge.type}:${source}:${target}`);
+  });
+
+  const keyById = new Map([...matches].map(([key, id]) => [id, key]));
+  const foundEdges = new Set<string>();
+  result.edges.forEach((edge) => {
+    const source = keyById.get(edge.source);
+    const target = keyById.get(edge.target);
+    const key = `${edge.type}:${source}:${target}`;
+    if (source && target && expectedEdges.has(key)) foundEdges.add(key);
+  });
+
+  return {
+    labelPrecision: round(labelPrecision),
+    labelRecall: round(labelRecall),
+    labelF1: round(labelF1),
+    hierarchyAccuracy: round(ratio(correctlyPlaced, placed, 0)),
+    edgePrecision: round(ratio(foundEdges.size, result.edges.length, expectedEdges.size === 0 ? 1 : 0)),
+    edgeRecall: round(ratio(foundEdges.size, expectedEdges.size, 1)),
+    nodes: result.nodes.length,
+    edges: result.edges.length,
+  };
+}
+
+// =====================================================
+// EVALUATION
+// =====================================================
+
+/**
+ * Run every strategy that can handle each fixture and score the results
+ * @param fixtures - Fixtures from loadCorpus
+ * @param strategies - Strategies to evaluate (default: EVALUATED_STRATEGIES)
+ * @returns Per-fixture scores and per-strategy means
+ */
+export async function evaluateCorpus(
+  fixtures: Fixture[],
+  strategies: StrategyRunner[] = EVALUATED_STRATEGIES
+): Promise<EvaluationReport> {
+  const reports: FixtureReport[] = [];
+
+  for (const fixture of fixtures) {
+    const runs: StrategyRun[] = [];
+
+    for (const strategy of strategies) {
+      try {
+        const result = await strategy.run(fixture.content, fixture.url);
+        if (result) {
+          runs.push({ strategy: strategy.name, score: scoreResult(fixture, result) });
+        }
+      } catch (error) {
+        runs.push({ strategy: strategy.name, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    reports.push({ fixture: fixture.name, runs });
+  }
+
+  return { fixtures: reports, summary: summarize(reports, strategies.map((strategy) => strategy.name)) };
+}
+
+/**
+ * Keep some of the fixtures of a report, with the per-strategy means recomputed
+ * @param report - Report from evaluateCorpus
+ * @param keep - Whether to keep a fixture, by name
+ * @returns Report over the kept fixtures
+ */
+export function filterReport(report: EvaluationReport, keep: (fixture: string) => boolean): EvaluationReport {
+  const fixtures = report.fixtures.filter((fixture) => keep(fixture.fixture));
+  return { fixtures, summary: summarize(fixtures, report.summary.map((summary) => summary.strategy)) };
+}
+
+function summarize(reports: FixtureReport[], strategies: string[]): StrategySummary[] {
+  return strategies
+    .map((strategy) => {
+      const runs = reports.flatMap((report) => report.runs.filter((run) => run.strategy === strategy));
+      const scored = runs.filter((run) => run.score).map((run) => run.score as StrategyScore);
+      const scores = Object.fromEntries(
+        SCORE_METRICS.map((metric) => [
+          metric,
+          scored.length === 0 ? 0 : round(scored.reduce((sum, score) => sum + score[metric], 0) / scored.length),
+        ])
+      ) as Record<ScoreMetric, number>;
+
+      return { strategy, fixtures: scored.length, errors: runs.length - scored.length, scores };
+    })
+    .filter((summary) => summary.fixtures + summary.errors > 0);
+}
+
+/**
+ * Compare a run against a baseline report
+ * A strategy that scored a fixture in the baseline but now errors or no longer
+ * handles it is a regression; fixtures missing from either report are ignored
+ *
+ * @param baseline - Earlier report
+ * @param current - Report to check
+ * @param tolerance - Score change ignored as noise (default: DEFAULT_TOLERANCE)
+ * @returns Scores that dropped and scores that rose by more than the tolerance
+ */
+export function compareReports(
+  baseline: EvaluationReport,
+  current: EvaluationReport,
+  tolerance: number = DEFAULT_TOLERANCE
+): ReportComparison {
+  const regressions: ScoreChange[] = [];
+  const improvements: ScoreChange[] = [];
+
+  for (const currentFixture of current.fixtures) {
+    const baselineFixture = baseline.fixtures.find((report) => report.fixture === currentFixture.fixture);
+    if (!baselineFixture) continue;
+
+    const strategies = new Set([...baselineFixture.runs, ...currentFixture.runs].map((run) => run.strategy));
+    for (const strategy of strategies) {
+      const before = baselineFixture.runs.find((run) => run.strategy === strategy)?.score;
+      const after = currentFixture.runs.find((run) => run.strategy === strategy)?.score;
+      const change = { fixture: currentFixture.fixture, strategy };
+
+      if (!before || !after) {
+        if (before) regressions.push({ ...change, metric: 'run', baseline: 1, current: 0 });
+        if (after) improvements.push({ ...change, metric: 'run', baseline: 0, current: 1 });
+        continue;
+      }
+
+      for (const metric of SCORE_METRICS) {
+        const delta = after[metric] - before[metric];
+        if (delta < -tolerance) {
+          regressions.push({ ...change, metric, baseline: before[metric], current: after[metric] });
+        } else if (delta > tolerance) {
+          improvements.push({ ...change, metric, baseline: before[metric], current: after[metric] });
+        }
+      }
+    }
+  }
+
+  return { regressions, improvements };
+}
@@ -0,0 +1,89 @@
+// Fixture recorder - snapshots a documentation page into the evaluation corpus
+//
+// Usage: npm run evaluate:record -- <fixture-name> <url> [--browser]
+//   --browser  Render the page with headless Chrome (for client-rendered docs)
+//
+// The expected.json written next to the snapshot is a draft built from the
+// current parser output: review and correct it by hand before committing,
+// otherwise the fixture only measures the parser against itself. The snapshot
+// itself is never edited; its checksum is stored so the harness can tell.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fetchDocumentation, fetchWithBrowser } from '../fetcher';
+import { parseDocumentation } from '../parser';
+import { snapshotChecksum } from './harness';
+import type { FixtureExpectation, OutlineNode } from './harness';
+import type { ParseResult } from '../types';
+
+const CORPUS_DIR = path.join(path.resolve(__dirname), 'corpus');
+
+/**
+ * Build a nested outline from the hierarchy edges of a parse result
+ */
+function outlineFromResult(result: ParseResult): OutlineNode {
+  const labels = new Map(result.nodes.map((node) => [node.id, node.data.label]));
+  const children = new Map<string, string[]>();
+  const hasParent = new Set<string>();
+
+  result.edges.forEach((edge) => {
+    if (edge.type !== 'hierarchy' || hasParent.has(edge.target)) return;
+    hasParent.add(edge.target);
+    children.set(edge.source, [...(children.get(edge.source) || []), edge.target]);
+  });
+
+  const build = (id: string, seen: Set<string>): OutlineNode => {
+    seen.add(id);
+    const kids = (children.get(id) || []).filter((child) => !seen.has(child));
+    return {
+      label: labels.get(id) || id,
+      ...(kids.length > 0 ? { children: kids.map((child) => build(child, seen)) } : {}),
+    };
+  };
+
+  const root = result.nodes.find((node) => !hasParent.has(node.id));
+  return root ? build(root.id, new Set()) : { label: 'Untitled' };
+}
+
+async function main(): Promise<void> {
+  const [name, url] = process.argv.slice(2).filter((arg) => !arg.startsWith('--'));
+  if (!name || !url) {
+    console.error('Usage: npm run evaluate:record -- <fixture-name> <url> [--browser]');
+    process.exitCode = 1;
+    return;
+  }
+
+  const fixtureDir = path.join(CORPUS_DIR, name);
+  const exists = await fs.stat(fixtureDir).then(() => true, () => false);
+  if (exists) {
+    throw new Error(`Fixture ${name} already exists; delete it first to re-record`);
+  }
+
+  const fetchResult = process.argv.includes('--browser')
+    ? await fetchWithBrowser(url, { cache: 'no-store' })
+    : await fetchDocumentation(url, { cache: 'no-store' });
+  const result = await parseDocumentation(fetchResult.html, fetchResult.url, false);
+
+  const isSpec = result.metadata.strategy === 'openapi' || result.metadata.strategy === 'graphql';
+  const specExtension = /^\s*[{[]/.test(fetchResult.html) ? '.json' : result.metadata.strategy === 'graphql' ? '.graphql' : '.yaml';
+  const file = isSpec ? `spec${specExtension}` : 'page.html';
+  const expected: FixtureExpectation = {
+    url: fetchResult.url,
+    ...(isSpec ? { file } : {}),
+    sha256: snapshotChecksum(fetchResult.html),
+    description: `Recorded from ${fetchResult.url}; outline drafted by the ${result.metadata.strategy} strategy`,
+    outline: outlineFromResult(result),
+  };
+
+  await fs.mkdir(fixtureDir, { recursive: true });
+  await fs.writeFile(path.join(fixtureDir, file), fetchResult.html);
+  await fs.writeFile(path.join(fixtureDir, 'expected.json'), `${JSON.stringify(expected, null, 2)}\n`);
+
+  console.log(`[Evaluate] Recorded ${fetchResult.html.length} bytes to ${path.relative(process.cwd(), fixtureDir)}`);
+  console.log('[Evaluate] Review expected.json, then run npm run evaluate -- --update');
+}
+
+main().catch((error) => {
+  console.error('[Evaluate] Recording failed:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,108 @@
+// Evaluation runner - scores the corpus and checks the recorded fixtures against the committed baseline
+//
+// Usage: npm run evaluate [-- --update]
+//   --update  Write the current scores to baseline.json instead of comparing
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { loadCorpus, evaluateCorpus, compareReports, filterReport, SCORE_METRICS } from './harness';
+import type { EvaluationReport, ScoreChange } from './harness';
+
+const EVALUATION_DIR = path.resolve(__dirname);
+const CORPUS_DIR = path.join(EVALUATION_DIR, 'corpus');
+const BASELINE_PATH = path.join(EVALUATION_DIR, 'baseline.json');
+
+const COLUMN_LABELS: Record<(typeof SCORE_METRICS)[number], string> = {
+  labelPrecision: 'label P',
+  labelRecall: 'label R',
+  labelF1: 'label F1',
+  hierarchyAccuracy: 'hierarchy',
+  edgePrecision: 'edge P',
+  edgeRecall: 'edge R',
+};
+
+function printSummary(report: EvaluationReport): void {
+  const header = ['strategy'.padEnd(12), 'fixtures', ...SCORE_METRICS.map((metric) => COLUMN_LABELS[metric].padStart(9))];
+  console.log(header.join('  '));
+
+  report.summary.forEach((summary) => {
+    const fixtures = `${summary.fixtures}${summary.errors > 0 ? ` (${summary.errors} failed)` : ''}`;
+    const row = [
+      summary.strategy.padEnd(12),
+      fixtures.padEnd(8),
+      ...SCORE_METRICS.map((metric) => summary.scores[metric].toFixed(3).padStart(9)),
+    ];
+    console.log(row.join('  '));
+  });
+}
+
+function formatChange(change: ScoreChange): string {
+  if (change.metric === 'run') {
+    return `${change.fixture} / ${change.strategy}: ${change.current ? 'now runs' : 'no longer runs'}`;
+  }
+  return `${change.fixture} / ${change.strategy}: ${COLUMN_LABELS[change.metric]} ${change.baseline.toFixed(3)} -> ${change.current.toFixed(3)}`;
+}
+
+async function main(): Promise<void> {
+  const update = process.argv.includes('--update');
+  const fixtures = await loadCorpus(CORPUS_DIR);
+  const report = await evaluateCorpus(fixtures);
+
+  console.log(`[Evaluate] Scored ${fixtures.length} fixtures\n`);
+  printSummary(report);
+
+  const unrecorded = fixtures.filter((fixture) => !fixture.sha256).map((fixture) => fixture.name);
+  if (unrecorded.length > 0) {
+    console.log(
+      `\n[Evaluate] Reconstructions without a recorded snapshot, left out of the baseline until re-recorded: ${unrecorded.join(', ')}`
+    );
+  }
+
+  report.fixtures.forEach((fixture) => {
+    fixture.runs.filter((run) => run.error).forEach((run) => {
+      console.log(`\n[Evaluate] ${fixture.fixture} / ${run.strategy} failed: ${run.error}`);
+    });
+  });
+
+  // Only snapshots of real pages are held to a baseline; reconstructions would score the parser against made-up markup
+  const recorded = filterReport(report, (fixture) => !unrecorded.includes(fixture));
+
+  if (update) {
+    if (recorded.fixtures.length === 0) {
+      console.log('\n[Evaluate] No recorded fixtures, record some with evaluate:record before writing a baseline');
+      return;
+    }
+    await fs.writeFile(BASELINE_PATH, `${JSON.stringify(recorded, null, 2)}\n`);
+    console.log(`\n[Evaluate] Baseline written to ${path.relative(process.cwd(), BASELINE_PATH)}`);
+    return;
+  }
+
+  let baseline: EvaluationReport;
+  try {
+    baseline = JSON.parse(await fs.readFile(BASELINE_PATH, 'utf-8'));
+  } catch {
+    console.log('\n[Evaluate] No baseline found, run with --update to record one');
+    return;
+  }
+
+  const { regressions, improvements } = compareReports(baseline, recorded);
+
+  if (improvements.length > 0) {
+    console.log(`\n[Evaluate] ${improvements.length} improvements (run with --update to keep them):`);
+    improvements.forEach((change) => console.log(`  + ${formatChange(change)}`));
+  }
+
+  if (regressions.length > 0) {
+    console.log(`\n[Evaluate] ${regressions.length} regressions:`);
+    regressions.forEach((change) => console.log(`  - ${formatChange(change)}`));
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log('\n[Evaluate] No regressions against the baseline');
+}
+
+main().catch((error) => {
+  console.error('[Evaluate] Evaluation failed:', error);
+  process.exitCode = 1;
+});
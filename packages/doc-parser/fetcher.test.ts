@@ -1,7 +1,21 @@
 // Unit tests for doc-parser fetcher functions
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { validateUrl, fetchDocumentation } from './fetcher';
+import { validateUrl, validatePublicUrl, fetchDocumentation } from './fetcher';
+import { enforcePoliteness } from './politeness';
+import { checkHostSafety, configureHostPolicy } from './ssrf';
+import { clearCache, getCacheEntry, setCached } from './cache';
+
+// robots.txt and pacing are covered in their own tests
+vi.mock('./politeness', () => ({
+  enforcePoliteness: vi.fn().mockResolvedValue(undefined),
+}));
+
+// Keep tests offline: DNS resolution is covered in ssrf.test.ts
+vi.mock('./ssrf', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./ssrf')>()),
+  checkHostSafety: vi.fn().mockResolvedValue({ safe: true }),
+}));
 
 describe('validateUrl', () => {
   it('should accept valid HTTPS URLs', () => {
@@ -76,15 +90,57 @@ describe('validateUrl', () => {
     expect(validateUrl('https://example.com/path/to/docs?query=value').valid).toBe(true);
     expect(validateUrl('https://example.com/path#anchor').valid).toBe(true);
   });
+
+  it('should reject link-local and metadata IPs', () => {
+    expect(validateUrl('https://169.254.169.254/latest/meta-data').valid).toBe(false);
+    expect(validateUrl('https://100.100.100.200').valid).toBe(false);
+    expect(validateUrl('https://[fd00:ec2::254]').valid).toBe(false);
+  });
+
+  it('should reject alternate encodings of private IPs', () => {
+    expect(validateUrl('https://2130706433').valid).toBe(false);
+    expect(validateUrl('https://0x7f.1').valid).toBe(false);
+    expect(validateUrl('https://[::ffff:127.0.0.1]').valid).toBe(false);
+  });
+
+  it('should apply the host deny list', () => {
+    configureHostPolicy({ blockedHosts: ['internal.example.com'] });
+    const result = validateUrl('https://wiki.internal.example.com/docs');
+    configureHostPolicy({});
+
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('policy');
+  });
+});
+
+describe('validatePublicUrl', () => {
+  it('should reject hosts that resolve to private addresses', async () => {
+    vi.mocked(checkHostSafety).mockResolvedValueOnce({
+      safe: false,
+      error: 'Host resolves to a private or reserved IP address.',
+    });
+
+    const result = await validatePublicUrl('https://intranet.example.com');
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('private');
+  });
+
+  it('should not resolve URLs that fail basic validation', async () => {
+    vi.mocked(checkHostSafety).mockClear();
+
+    expect((await validatePublicUrl('http://example.com')).valid).toBe(false);
+    expect(checkHostSafety).not.toHaveBeenCalled();
+  });
 });
 
 describe('fetchDocumentation', () => {
   // Store original fetch
   const originalFetch = global.fetch;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     // Reset fetch mock before each test
     vi.clearAllMocks();
+    await clearCache();
   });
 
   afterEach(() => {
@@ -289,4 +345,199 @@ describe('fetchDocumentation', () => {
     const result = await fetchDocumentation('https://example.com');
     expect(result.contentType).toBe('text/html');
   });
+
+  it('should reject redirects to hosts that resolve to private addresses', async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 302,
+      statusText: 'Found',
+      headers: new Map([['location', 'https://rebind.example.com/']]),
+    } as any);
+    vi.mocked(checkHostSafety)
+      .mockResolvedValueOnce({ safe: true })
+      .mockResolvedValueOnce({ safe: false, error: 'Host resolves to a private or reserved IP address.' });
+
+    await expect(fetchDocumentation('https://example.com')).rejects.toThrow('Redirect URL invalid');
+  });
+
+  it('should check robots.txt and pacing for every redirect hop', async () => {
+    let callCount = 0;
+    global.fetch = vi.fn().mockImplementation(() => {
+      callCount++;
+      if (callCount === 1) {
+        return Promise.resolve({
+          ok: false,
+          status: 301,
+          statusText: 'Moved Permanently',
+          headers: new Map([['location', 'https://docs.example.com/start']]),
+        } as any);
+      }
+      return Promise.resolve({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        headers: new Map([['content-type', 'text/html']]),
+        text: async () => '<html></html>',
+      } as any);
+    });
+
+    await fetchDocumentation('https://example.com/docs');
+
+    expect(enforcePoliteness).toHaveBeenCalledTimes(2);
+    expect(enforcePoliteness).toHaveBeenNthCalledWith(1, 'https://example.com/docs', undefined);
+    expect(enforcePoliteness).toHaveBeenNthCalledWith(2, 'https://docs.example.com/start', undefined);
+  });
+
+  it('should not fetch URLs disallowed by robots.txt', async () => {
+    const mockFetch = vi.fn();
+    global.fetch = mockFetch;
+    vi.mocked(enforcePoliteness).mockRejectedValueOnce(
+      new Error('Blocked by robots.txt: https://example.com/private')
+    );
+
+    await expect(fetchDocumentation('https://example.com/private')).rejects.toThrow('Blocked by robots.txt');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should skip politeness checks when polite is false', async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      headers: new Map([['content-type', 'text/html']]),
+      text: async () => '<html></html>',
+    } as any);
+
+    await fetchDocumentation('https://example.com', { polite: false });
+    expect(enforcePoliteness).not.toHaveBeenCalled();
+  });
+
+  describe('caching', () => {
+    it('should serve fresh cache entries without a request', async () => {
+      const mockFetch = vi.fn();
+      global.fetch = mockFetch;
+      await setCached('https://example.com/docs', '<html>Cached</html>', undefined, {
+        url: 'https://example.com/docs/',
+      });
+
+      const result = await fetchDocumentation('https://example.com/docs');
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(enforcePoliteness).not.toHaveBeenCalled();
+      expect(result.html).toBe('<html>Cached</html>');
+      expect(result.url).toBe('https://example.com/docs/');
+      expect(result.fromCache).toBe(true);
+    });
+
+    it('should store validators from the response', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        headers: new Map([
+          ['content-type', 'text/html'],
+          ['etag', '"v1"'],
+          ['last-modified', 'Tue, 01 Oct 2026 00:00:00 GMT'],
+        ]),
+        text: async () => '<html>Live</html>',
+      } as any);
+
+      await fetchDocumentation('https://example.com/docs');
+
+      const entry = await getCacheEntry('https://example.com/docs');
+      expect(entry).toMatchObject({
+        html: '<html>Live</html>',
+        etag: '"v1"',
+        lastModified: 'Tue, 01 Oct 2026 00:00:00 GMT',
+      });
+    });
+
+    it('should reuse stale entries when the origin answers 304', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      await setCached('https://example.com/docs', '<html>Cached</html>', 1000, { etag: '"v1"' });
+      vi.advanceTimersByTime(1001);
+
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 304,
+        statusText: 'Not Modified',
+        headers: new Map(),
+        text: async () => '',
+      } as any);
+      global.fetch = mockFetch;
+
+      const result = await fetchDocumentation('https://example.com/docs');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://example.com/docs',
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'If-None-Match': '"v1"' }),
+        })
+      );
+      expect(result.html).toBe('<html>Cached</html>');
+      expect(result.fromCache).toBe(true);
+
+      // The TTL starts over
+      const entry = await getCacheEntry('https://example.com/docs');
+      expect(entry!.cachedAt).toBe(Date.now());
+
+      vi.useRealTimers();
+    });
+
+    it('should revalidate fresh entries in no-cache mode', async () => {
+      await setCached('https://example.com/docs', '<html>Cached</html>', undefined, { etag: '"v1"' });
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        headers: new Map([['content-type', 'text/html'], ['etag', '"v2"']]),
+        text: async () => '<html>Changed</html>',
+      } as any);
+      global.fetch = mockFetch;
+
+      const result = await fetchDocumentation('https://example.com/docs', { cache: 'no-cache' });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(result.html).toBe('<html>Changed</html>');
+      expect((await getCacheEntry('https://example.com/docs'))?.etag).toBe('"v2"');
+    });
+
+    it('should neither read nor write the cache in no-store mode', async () => {
+      await setCached('https://example.com/docs', '<html>Cached</html>');
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        headers: new Map([['content-type', 'text/html']]),
+        text: async () => '<html>Live</html>',
+      } as any);
+
+      const result = await fetchDocumentation('https://example.com/docs', { cache: 'no-store' });
+
+      expect(result.html).toBe('<html>Live</html>');
+      expect((await getCacheEntry('https://example.com/docs'))?.html).toBe('<html>Cached</html>');
+    });
+  });
+
+  it('should reject with the abort reason when cancelled', async () => {
+    const controller = new AbortController();
+    global.fetch = vi.fn().mockImplementation(() => {
+      controller.abort(new Error('Generation cancelled'));
+      return Promise.reject(new DOMException('This operation was aborted', 'AbortError'));
+    });
+
+    await expect(
+      fetchDocumentation('https://example.com', { signal: controller.signal })
+    ).rejects.toThrow('Generation cancelled');
+  });
+
+  it('should not fetch when already cancelled', async () => {
+    const mockFetch = vi.fn();
+    global.fetch = mockFetch;
+
+    await expect(
+      fetchDocumentation('https://example.com', { signal: AbortSignal.abort(new Error('Generation cancelled')) })
+    ).rejects.toThrow('Generation cancelled');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
 });
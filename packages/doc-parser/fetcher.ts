@@ -1,7 +1,21 @@
 // URL fetching and validation for doc-parser package
 
-import type { FetchResult } from './types';
+import { isIP } from 'net';
+import type { FetchOptions, FetchResult, FetcherKind } from './types';
 import { isValidUrl } from './utils';
+import { enforcePoliteness } from './politeness';
+import { checkHostSafety, isHostPermitted, isPrivateAddress, pinnedFetch } from './ssrf';
+import {
+  DEFAULT_CACHE_TTL,
+  canRevalidate,
+  conditionalHeaders,
+  getCacheEntry,
+  isFresh,
+  setCached,
+  toFetchResult,
+} from './cache';
+import type { CachedDocument } from './cache';
+import type { Browser, HTTPRequest, ResponseForRequest } from 'puppeteer-core';
 
 // Blocked domains for SSRF prevention
 const BLOCKED_DOMAINS = [
@@ -12,27 +26,18 @@ const BLOCKED_DOMAINS = [
   '[::1]',
 ];
 
-// Private IP ranges (CIDR notation conceptually)
-const PRIVATE_IP_PREFIXES = [
-  '10.',
-  '172.16.',
-  '172.17.',
-  '172.18.',
-  '172.19.',
-  '172.20.',
-  '172.21.',
-  '172.22.',
-  '172.23.',
-  '172.24.',
-  '172.25.',
-  '172.26.',
-  '172.27.',
-  '172.28.',
-  '172.29.',
-  '172.30.',
-  '172.31.',
-  '192.168.',
-];
+/**
+ * Chrome may not resolve host names itself: every page request goes through
+ * the request interception in fetchWithBrowser, which fetches it over a
+ * pinned connection. Anything that slips past interception fails to resolve.
+ */
+const BROWSER_NETWORK_ARGS = ['--host-resolver-rules=MAP * ~NOTFOUND'];
+
+/** Timeout for one request made on behalf of the browser */
+const BROWSER_REQUEST_TIMEOUT = 30000;
+
+/** Response headers about the transfer; the body handed to Chrome is already decoded */
+const TRANSFER_HEADERS = new Set(['connection', 'content-encoding', 'content-length', 'keep-alive', 'transfer-encoding']);
 
 /**
  * Validate that URL is a documentation URL
@@ -88,14 +93,21 @@ export function validateUrl(url: string): { valid: boolean; error?: string } {
       };
     }
 
-    // Check private IP prefixes
-    for (const prefix of PRIVATE_IP_PREFIXES) {
-      if (hostname.startsWith(prefix)) {
-        return {
-          valid: false,
-          error: 'URL points to a private IP address.',
-        };
-      }
+    // Check IP literals against private, loopback, link-local and metadata ranges
+    const address = hostname.replace(/^\[|\]$/g, '');
+    if (isIP(address) && isPrivateAddress(address)) {
+      return {
+        valid: false,
+        error: 'URL points to a private IP address.',
+      };
+    }
+
+    // Check configured allow/deny host lists
+    if (!isHostPermitted(address)) {
+      return {
+        valid: false,
+        error: 'Host is not permitted by the fetch policy.',
+      };
     }
 
     return { valid: true };
@@ -107,20 +119,55 @@ export function validateUrl(url: string): { valid: boolean; error?: string } {
   }
 }
 
+/**
+ * Validate a URL and resolve its host
+ * Runs validateUrl, then rejects hosts that resolve to private, loopback,
+ * link-local or cloud metadata addresses
+ * 
+ * @param url - URL string to validate
+ * @returns Validation result with success flag and optional error message
+ */
+export async function validatePublicUrl(url: string): Promise<{ valid: boolean; error?: string }> {
+  const validation = validateUrl(url);
+  if (!validation.valid) {
+    return validation;
+  }
+
+  const hostCheck = await checkHostSafety(new URL(url).hostname);
+  if (!hostCheck.safe) {
+    return { valid: false, error: hostCheck.error };
+  }
+
+  return { valid: true };
+}
+
 /**
  * Fetch documentation from a URL with security checks and error handling
  * 
+ * Requests honour robots.txt and the per-host rate limit unless `polite` is false.
+ * Fresh cache entries are returned without a request; stale ones are
+ * revalidated with If-None-Match / If-Modified-Since and reused on a 304.
+ * 
  * @param url - Documentation URL to fetch
+ * @param options - Fetch options
  * @returns FetchResult with HTML content and metadata
- * @throws Error if fetch fails or URL is invalid
+ * @throws Error if fetch fails, URL is invalid, or robots.txt disallows it
  */
-export async function fetchDocumentation(url: string): Promise<FetchResult> {
-  // Validate URL first
-  const validation = validateUrl(url);
+export async function fetchDocumentation(url: string, options: FetchOptions = {}): Promise<FetchResult> {
+  const { polite = true, cache = 'default', signal } = options;
+  signal?.throwIfAborted();
+
+  // Validate URL first (including where the host resolves to)
+  const validation = await validatePublicUrl(url);
   if (!validation.valid) {
     throw new Error(validation.error || 'Invalid URL');
   }
 
+  const cached = cache === 'no-store' ? null : await getCacheEntry(url);
+  if (cached && cache === 'default' && isFresh(cached)) {
+    return toFetchResult(url, cached);
+  }
+
   let finalUrl = url;
   let redirectCount = 0;
   const maxRedirects = 3;
@@ -128,16 +175,29 @@ export async function fetchDocumentation(url: string): Promise<FetchResult> {
   // Manual redirect handling to limit redirect count
   while (redirectCount <= maxRedirects) {
     try {
-      const response = await fetch(finalUrl, {
+      // Every hop may land on a different host, so check each one
+      if (polite) {
+        await enforcePoliteness(finalUrl, signal);
+      }
+
+      const response = await pinnedFetch(finalUrl, {
         method: 'GET',
         headers: {
           'User-Agent': 'DocMaps-Bot/1.0 (Documentation Parser)',
           'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+          // Validators belong to the requested URL, not to redirect targets
+          ...(cached && finalUrl === url ? conditionalHeaders(cached) : {}),
         },
         redirect: 'manual', // Handle redirects manually
-        signal: AbortSignal.timeout(10000), // 10 second timeout
+        signal: withTimeout(signal, 10000), // 10 second timeout
       });
 
+      // Unchanged since it was cached
+      if (response.status === 304 && cached) {
+        await refreshCached(url, cached);
+        return toFetchResult(url, cached);
+      }
+
       // Handle redirects
       if (response.status >= 300 && response.status < 400) {
         const location = response.headers.get('location');
@@ -149,7 +209,7 @@ export async function fetchDocumentation(url: string): Promise<FetchResult> {
         finalUrl = new URL(location, finalUrl).toString();
 
         // Validate redirect URL
-        const redirectValidation = validateUrl(finalUrl);
+        const redirectValidation = await validatePublicUrl(finalUrl);
         if (!redirectValidation.valid) {
           throw new Error(`Redirect URL invalid: ${redirectValidation.error}`);
         }
@@ -185,6 +245,15 @@ export async function fetchDocumentation(url: string): Promise<FetchResult> {
       // Read response body
       const html = await response.text();
 
+      if (cache !== 'no-store') {
+        await setCached(url, html, DEFAULT_CACHE_TTL, {
+          url: finalUrl,
+          contentType,
+          etag: response.headers.get('etag') || undefined,
+          lastModified: response.headers.get('last-modified') || undefined,
+        });
+      }
+
       return {
         url: finalUrl,
         html,
@@ -192,6 +261,9 @@ export async function fetchDocumentation(url: string): Promise<FetchResult> {
         statusCode: response.status,
       };
     } catch (error) {
+      // Cancelled by the caller rather than timed out
+      signal?.throwIfAborted();
+
       // Handle specific error types
       if (error instanceof Error) {
         if (error.name === 'AbortError' || error.message.includes('timeout')) {
@@ -223,13 +295,27 @@ export async function fetchDocumentation(url: string): Promise<FetchResult> {
  * Uses serverless-compatible Chrome in production (Vercel, AWS Lambda)
  * and local Chrome in development.
  * 
+ * Like fetchDocumentation, honours robots.txt and the per-host rate limit
+ * unless `polite` is false, and serves fresh pages from the cache. Stale pages
+ * with an ETag or Last-Modified are revalidated with a plain conditional
+ * request first, so an unchanged page never launches the browser.
+ * Aborting `signal` closes the browser.
+ * 
+ * Chrome does no DNS lookups of its own: each request the page makes is
+ * checked, then fetched by Node over a connection pinned to the vetted
+ * addresses and handed back to the page. WebSockets are refused.
+ * 
  * @param url - Documentation URL to fetch
+ * @param options - Fetch options
  * @returns FetchResult with rendered HTML content
- * @throws Error if fetch fails or URL is invalid
+ * @throws Error if fetch fails, URL is invalid, or robots.txt disallows it
  */
-export async function fetchWithBrowser(url: string): Promise<FetchResult> {
-  // Validate URL first
-  const validation = validateUrl(url);
+export async function fetchWithBrowser(url: string, options: FetchOptions = {}): Promise<FetchResult> {
+  const { polite = true, cache = 'default', signal } = options;
+  signal?.throwIfAborted();
+
+  // Validate URL first (including where the host resolves to)
+  const validation = await validatePublicUrl(url);
   if (!validation.valid) {
     throw new Error(validation.error || 'Invalid URL');
   }
@@ -239,7 +325,27 @@ export async function fetchWithBrowser(url: string): Promise<FetchResult> {
     throw new Error('URL does not appear to be a documentation site. Please provide a URL containing /docs, /api, or /documentation');
   }
 
-  let browser;
+  const cached = cache === 'no-store' ? null : await getCacheEntry(url, 'browser');
+  if (cached && cache === 'default' && isFresh(cached)) {
+    return toFetchResult(url, cached);
+  }
+
+  if (polite) {
+    await enforcePoliteness(url, signal);
+  }
+
+  if (cached && canRevalidate(cached) && await isUnchanged(url, cached, signal)) {
+    await refreshCached(url, cached, 'browser');
+    return toFetchResult(url, cached);
+  }
+
+  let browser: Browser | undefined;
+  let blockedNavigation: string | null = null;
+  // Closing the browser makes any pending page call reject
+  const closeOnAbort = () => {
+    browser?.close().catch(() => {});
+  };
+  signal?.addEventListener('abort', closeOnAbort, { once: true });
   try {
     // Detect environment
     const isProduction = process.env.NODE_ENV === 'production' || process.env.VERCEL === '1';
@@ -262,7 +368,7 @@ export async function fetchWithBrowser(url: string): Promise<FetchResult> {
       
       // Launch browser with serverless Chrome
       browser = await puppeteerCore.default.launch({
-        args: chromium.default.args,
+        args: [...chromium.default.args, ...BROWSER_NETWORK_ARGS],
         defaultViewport: chromium.default.defaultViewport,
         executablePath: execPath,
         headless: chromium.default.headless,
@@ -309,7 +415,7 @@ export async function fetchWithBrowser(url: string): Promise<FetchResult> {
         }
         
         browser = await puppeteerCore.default.launch({
-          args: chromium.default.args,
+          args: [...chromium.default.args, ...BROWSER_NETWORK_ARGS],
           defaultViewport: chromium.default.defaultViewport,
           executablePath: chromiumPath,
           headless: chromium.default.headless,
@@ -327,11 +433,15 @@ export async function fetchWithBrowser(url: string): Promise<FetchResult> {
             '--no-first-run',
             '--no-zygote',
             '--disable-gpu',
+            ...BROWSER_NETWORK_ARGS,
           ],
         });
       }
     }
 
+    // Cancelled while Chrome was starting
+    signal?.throwIfAborted();
+
     const page = await browser.newPage();
 
     // Set viewport and user agent
@@ -341,8 +451,47 @@ export async function fetchWithBrowser(url: string): Promise<FetchResult> {
     // Set timeout
     page.setDefaultTimeout(45000); // 45 seconds
 
+    // WebSockets bypass request interception, so refuse them in the browser
+    const session = await page.createCDPSession();
+    await session.send('Network.enable');
+    await session.send('Network.setBlockedURLs', { urls: ['ws://*', 'wss://*'] });
+
+    // Check every request the page makes (redirects, frames, scripts, XHR)
+    // so a public page cannot make the browser reach internal addresses,
+    // then fetch it here, since Chrome cannot resolve hosts itself
+    await page.setRequestInterception(true);
+    page.on('request', (request) => {
+      const requestUrl = request.url();
+      if (requestUrl.startsWith('data:') || requestUrl.startsWith('blob:')) {
+        request.continue().catch(() => {});
+        return;
+      }
+
+      checkBrowserRequest(requestUrl)
+        .then(async (error) => {
+          if (error) {
+            console.log(`[Fetcher] Blocked request to ${requestUrl}: ${error}`);
+            if (request.isNavigationRequest() && request.frame() === page.mainFrame()) {
+              blockedNavigation = error;
+            }
+            return request.abort('blockedbyclient');
+          }
+
+          let response: Partial<ResponseForRequest>;
+          try {
+            response = await fetchForBrowser(request);
+          } catch {
+            return request.abort('failed');
+          }
+          return request.respond(response);
+        })
+        .catch(() => {
+          // Request was already handled or the page closed
+        });
+    });
+
     // Navigate to URL and wait for network to be idle
-    await page.goto(url, {
+    const response = await page.goto(url, {
       waitUntil: 'domcontentloaded', // Wait for DOM to be ready (faster than networkidle)
       timeout: 45000,
     });
@@ -359,6 +508,16 @@ export async function fetchWithBrowser(url: string): Promise<FetchResult> {
 
     await browser.close();
 
+    if (cache !== 'no-store') {
+      const headers = response?.headers() || {};
+      await setCached(url, html, DEFAULT_CACHE_TTL, {
+        url: finalUrl,
+        contentType: 'text/html',
+        etag: headers['etag'],
+        lastModified: headers['last-modified'],
+      }, 'browser');
+    }
+
     return {
       url: finalUrl,
       html,
@@ -370,6 +529,13 @@ export async function fetchWithBrowser(url: string): Promise<FetchResult> {
       await browser.close().catch(() => {});
     }
 
+    signal?.throwIfAborted();
+
+    // A blocked redirect surfaces as a generic net::ERR from page.goto
+    if (blockedNavigation) {
+      throw new Error(`Redirect URL invalid: ${blockedNavigation}`);
+    }
+
     // Handle specific error types
     if (error instanceof Error) {
       if (error.message.includes('timeout') || error.message.includes('Navigation timeout')) {
@@ -390,5 +556,109 @@ export async function fetchWithBrowser(url: string): Promise<FetchResult> {
 
     // Unknown error
     throw new Error('Failed to fetch documentation with browser');
+  } finally {
+    signal?.removeEventListener('abort', closeOnAbort);
+  }
+}
+
+/**
+ * Check a request made by the headless browser
+ * Subresources may use plain HTTP, but every host must pass the fetch policy
+ * and resolve to public addresses
+ * 
+ * @param url - Request URL
+ * @returns Error message, or null if the request may proceed
+ */
+async function checkBrowserRequest(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Failed to parse URL.';
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return `Protocol ${parsed.protocol} is not allowed.`;
+  }
+
+  const hostCheck = await checkHostSafety(parsed.hostname);
+  return hostCheck.safe ? null : hostCheck.error || 'Host is not allowed.';
+}
+
+/**
+ * Fetch a request made by the headless browser over a pinned connection
+ * Redirects are handed back to Chrome, which intercepts the next hop again.
+ * 
+ * @param request - Intercepted request that passed checkBrowserRequest
+ * @returns Response for request.respond()
+ */
+async function fetchForBrowser(request: HTTPRequest): Promise<Partial<ResponseForRequest>> {
+  const response = await pinnedFetch(request.url(), {
+    method: request.method(),
+    headers: request.headers(),
+    body: request.postData(),
+    redirect: 'manual',
+    signal: AbortSignal.timeout(BROWSER_REQUEST_TIMEOUT),
+  });
+
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    if (!TRANSFER_HEADERS.has(name)) {
+      headers[name] = value;
+    }
+  });
+
+  return {
+    status: response.status,
+    headers,
+    body: Buffer.from(await response.arrayBuffer()),
+  };
+}
+
+/**
+ * Ask the origin whether a cached page changed, without rendering it
+ * Any failure counts as changed so the caller falls back to a full fetch
+ * 
+ * @param url - Requested URL
+ * @param cached - Cache entry with an ETag or Last-Modified
+ * @param signal - Caller's abort signal
+ * @returns true if the origin answered 304 Not Modified
+ */
+async function isUnchanged(url: string, cached: CachedDocument, signal?: AbortSignal): Promise<boolean> {
+  try {
+    const response = await pinnedFetch(url, {
+      method: 'GET',
+      headers: {
+        'User-Agent': 'DocMaps-Bot/1.0 (Documentation Parser)',
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        ...conditionalHeaders(cached),
+      },
+      redirect: 'manual',
+      signal: withTimeout(signal, 10000),
+    });
+    return response.status === 304;
+  } catch {
+    signal?.throwIfAborted();
+    return false;
   }
 }
+
+/**
+ * Combine the caller's abort signal with a request timeout
+ */
+function withTimeout(signal: AbortSignal | undefined, ms: number): AbortSignal {
+  const timeout = AbortSignal.timeout(ms);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+/**
+ * Restart the TTL of an entry the origin confirmed is unchanged
+ */
+async function refreshCached(url: string, cached: CachedDocument, fetcher: FetcherKind = 'static'): Promise<void> {
+  await setCached(url, cached.html, cached.ttl, {
+    url: cached.url,
+    contentType: cached.contentType,
+    etag: cached.etag,
+    lastModified: cached.lastModified,
+  }, fetcher);
+}
@@ -1,23 +1,71 @@
 // Main exports for doc-parser package
 
 // Core parser
-export { parseDocumentation, getAvailableStrategies, detectStrategy } from './parser';
+export { parseDocumentation, parseMarkdownDirectory, getAvailableStrategies, detectStrategy } from './parser';
+export { mergeStrategyResults } from './ensemble';
+export { splitIntoViews, OVERVIEW_SLUG } from './views';
+
+// Strategy registry
+export {
+  registerStrategy,
+  registerTemplate,
+  unregisterStrategy,
+  getRegisteredStrategies,
+  clearRegisteredStrategies,
+  BUILT_IN_STRATEGIES,
+} from './registry';
 
 // Fetcher
-export { fetchDocumentation, fetchWithBrowser, validateUrl, isDocumentationUrl } from './fetcher';
+export { fetchDocumentation, fetchWithBrowser, validateUrl, validatePublicUrl, isDocumentationUrl } from './fetcher';
+
+// SSRF safeguards
+export { isPrivateAddress, configureHostPolicy, isHostPermitted, checkHostSafety, clearDnsCache } from './ssrf';
+
+// Crawl politeness
+export { enforcePoliteness, withPoliteness } from './politeness';
+export { parseRobotsTxt, isAllowedByRobots, getRobotsRules, checkRobots, clearRobotsCache } from './robots';
+export { acquireHostSlot, configureRateLimiter, resetRateLimiter } from './rate-limiter';
 
 // Strategies
 export { deepCrawl } from './strategies/deep-crawl';
+export { discoverCrawlPlan, parseSitemap, parseLlmsTxt, buildUrlTree } from './strategies/crawl-plan';
+export { extractContentLinks, buildLinkEdges, pageContent } from './strategies/link-graph';
+export { extractPageText, buildTermIndex, extractKeywords, summarize } from './strategies/keywords';
+export {
+  detectDocVariants,
+  isOtherVariant,
+  resolveVariantUrl,
+  variantFreeUrl,
+} from './strategies/variants';
 export { parseHybrid } from './strategies/hybrid';
 export { parseFromNavigation } from './strategies/navigation';
+export { OpenApiStrategy, loadOpenApiSpec, isOpenApiSpecUrl, findSpecUrl } from './strategies/openapi';
+export { GraphQLStrategy, loadGraphQLSchema, isGraphQLSchemaUrl } from './strategies/graphql';
 export { TemplateStrategy } from './strategies/template';
 export { SchemaStrategy } from './strategies/schema';
 export { HtmlStrategy } from './strategies/html';
 export { HeuristicStrategy } from './strategies/heuristic';
 export { BaseStrategy } from './strategies/base';
+export { DeclarativeTemplateStrategy, parseTemplateDefinition } from './strategies/declarative';
+export { loadMarkdownDirectory, parseMarkdownFiles, parseFrontmatter } from './strategies/markdown';
+export { splitLabelStatus, detectPageStatus, statusFromText, STATUS_ALIASES } from './strategies/status';
 
 // Cache
-export { getCached, setCached, clearCache, getCacheSize, isCached } from './cache';
+export {
+  getCached,
+  setCached,
+  getCacheEntry,
+  clearCache,
+  getCacheSize,
+  isCached,
+  configureCache,
+  withCache,
+  cacheKey,
+  MemoryCacheStore,
+  FileSystemCacheStore,
+  PostgresCacheStore,
+  DEFAULT_CACHE_TTL,
+} from './cache';
 
 // Utilities
 export {
@@ -31,19 +79,47 @@ export {
 
 // Validators
 export { deduplicateNodes, updateEdgeReferences } from './validators/deduplication';
-export { filterNodes, getFilterStats } from './validators/filtering';
+export { filterNodes, filterNodesWithReasons, getFilterStats } from './validators/filtering';
 export { sanitizeNodes, sanitizeNode, removeDangerousContent, isNodeSafe } from './validators/sanitization';
 
 // Types
 export type {
   FetchResult,
+  FetchOptions,
+  CacheMode,
+  FetcherKind,
+  CrawledPage,
   ParseResult,
+  ParseOptions,
+  MarkdownParseOptions,
   ParsingStrategy,
   ExtractedNode,
   ExtractedEdge,
   GenerationMetadata,
+  NodeProvenance,
+  ParseTrace,
+  StrategyAttempt,
+  DroppedNode,
+  TracedPage,
+  SelectorMatch,
+  StatusEvidence,
   GenerationErrorCode,
   GenerationError,
   SSEEventType,
   SSEEvent,
 } from './types';
+export type { DeepCrawlResult, DeepCrawlOptions } from './strategies/deep-crawl';
+export type { CrawlPlan, PlanEntry, UrlTreeNode } from './strategies/crawl-plan';
+export type { PageLink } from './strategies/link-graph';
+export type { PageText, TermIndex, KeywordOptions } from './strategies/keywords';
+export type { DocVariants, VariantOption, VariantSelection } from './strategies/variants';
+export type { GraphQLSchemaDocument, GraphQLNamedType, GraphQLField } from './strategies/graphql';
+export type { RobotsRules } from './robots';
+export type { HostPolicy } from './ssrf';
+export type { RegisterStrategyOptions } from './registry';
+export type { StrategyCandidate } from './ensemble';
+export type { FilteredNode } from './validators/filtering';
+export type { GeneratedView, SplitViewsResult, SplitViewsOptions } from './views';
+export type { TemplateDefinition } from './strategies/declarative';
+export type { RateLimiterOptions } from './rate-limiter';
+export type { CacheStore, CachedDocument, CacheMetadata, PostgresQueryClient } from './cache';
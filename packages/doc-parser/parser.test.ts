@@ -1,7 +1,18 @@
 // Unit tests for parser orchestrator
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { parseDocumentation, getAvailableStrategies, detectStrategy } from './parser';
+import type { FetchResult } from './types';
+
+// Keep tests offline: no robots.txt lookups, request pacing or DNS resolution
+vi.mock('./politeness', () => ({
+  enforcePoliteness: vi.fn().mockResolvedValue(undefined),
+  withPoliteness: (fetchFn: (url: string) => Promise<FetchResult>) => fetchFn,
+}));
+vi.mock('./ssrf', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./ssrf')>()),
+  checkHostSafety: vi.fn().mockResolvedValue({ safe: true }),
+}));
 
 describe('parseDocumentation', () => {
   it('should use template strategy for AWS URLs', async () => {
@@ -38,6 +49,57 @@ describe('parseDocumentation', () => {
     expect(result.metadata.strategy).toBe('schema');
   });
 
+  it('should use openapi strategy for raw spec documents', async () => {
+    const spec = {
+      openapi: '3.0.0',
+      info: { title: 'Test API' },
+      tags: [{ name: 'Users' }],
+      paths: {
+        '/users': {
+          get: { tags: ['Users'], summary: 'List users' },
+        },
+      },
+    };
+
+    const result = await parseDocumentation(JSON.stringify(spec), 'https://api.example.com/openapi.json');
+
+    expect(result.metadata.strategy).toBe('openapi');
+    expect(result.nodes.map(n => n.data.label)).toEqual(['Test API', 'Users', 'List users']);
+  });
+
+  it('should use graphql strategy for GraphQL schemas', async () => {
+    const sdl = `
+      type Query {
+        "List the users of the workspace"
+        users: [User!]!
+        legacyUsers: [User!]! @deprecated(reason: "Use users")
+      }
+      type User { name: String }
+    `;
+
+    const result = await parseDocumentation(sdl, 'https://api.example.com/schema.graphql');
+
+    expect(result.metadata.strategy).toBe('graphql');
+    expect(result.nodes.map(n => n.data.label)).toEqual(['api.example.com', 'Queries', 'users', 'legacyUsers']);
+    expect(result.metadata.status_evidence?.['component-legacyusers']).toMatchObject({ status: 'deprecated', source: 'spec' });
+  });
+
+  it('should keep short GraphQL root fields and their edges', async () => {
+    const sdl = `
+      type Query {
+        me: Viewer
+        search(term: String!): [Viewer!]!
+      }
+      type Viewer { id: ID! name: String }
+    `;
+
+    const result = await parseDocumentation(sdl, 'https://api.example.com/schema.graphql');
+    const ids = new Set(result.nodes.map(n => n.id));
+
+    expect(result.nodes.map(n => n.data.label)).toEqual(expect.arrayContaining(['me', 'search']));
+    expect(result.edges.every(e => ids.has(e.source) && ids.has(e.target))).toBe(true);
+  });
+
   it('should use HTML strategy for generic documentation', async () => {
     const html = `
       <nav>
@@ -204,10 +266,248 @@ describe('parseDocumentation', () => {
   });
 });
 
+describe('parseDocumentation cancellation', () => {
+  it('should reject with the abort reason when cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('Generation cancelled'));
+
+    await expect(
+      parseDocumentation('<nav><ul><li><a href="/a">A</a></li></ul></nav>', 'https://docs.example.com', true, {
+        signal: controller.signal,
+      })
+    ).rejects.toThrow('Generation cancelled');
+  });
+
+  it('should not fall back to other strategies when cancelled during deep crawl', async () => {
+    const controller = new AbortController();
+
+    // The start page fetch fails (no browser in tests); cancel as soon as it is reported
+    const result = parseDocumentation('<nav><ul><li><a href="/a">A</a></li></ul></nav>', 'https://docs.example.com', true, {
+      signal: controller.signal,
+      cache: 'no-store',
+      onPageCrawled: () => controller.abort(new Error('Generation cancelled')),
+    });
+
+    await expect(result).rejects.toThrow('Generation cancelled');
+  });
+});
+
+describe('parseDocumentation ensemble mode', () => {
+  const html = `
+    <html>
+      <head><title>Acme Docs</title></head>
+      <body>
+        <nav>
+          <ul>
+            <li><a href="/payments">Payments</a>
+              <ul>
+                <li><a href="/payments/refunds">Refunds</a></li>
+                <li><a href="/payments/disputes">Disputes</a></li>
+              </ul>
+            </li>
+            <li><a href="/billing">Billing</a></li>
+            <li><a href="/identity">Identity</a></li>
+          </ul>
+        </nav>
+        <main>
+          <h1>Acme Docs</h1>
+          <h2>Payments</h2>
+          <p>Accept payments online with a single integration.</p>
+          <h2>Billing</h2>
+          <p>Create subscriptions and invoices.</p>
+          <h2>Connect</h2>
+          <p>Route payments between parties.</p>
+        </main>
+      </body>
+    </html>
+  `;
+
+  it('should merge the results of several strategies', async () => {
+    const result = await parseDocumentation(html, 'https://docs.acme.dev', false, { ensemble: true });
+
+    expect(result.metadata.strategy).toBe('ensemble');
+    expect(result.metadata.ensemble_strategies!.length).toBeGreaterThan(1);
+  });
+
+  it('should record provenance for every final node', async () => {
+    const result = await parseDocumentation(html, 'https://docs.acme.dev', false, { ensemble: true });
+    const provenance = result.metadata.node_provenance!;
+
+    expect(Object.keys(provenance).sort()).toEqual(result.nodes.map(n => n.id).sort());
+    for (const entry of Object.values(provenance)) {
+      expect(entry.strategies.length).toBeGreaterThan(0);
+      expect(entry.agreement).toBeGreaterThan(0);
+      expect(entry.agreement).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('should keep edges pointing at final nodes', async () => {
+    const result = await parseDocumentation(html, 'https://docs.acme.dev', false, { ensemble: true });
+    const ids = new Set(result.nodes.map(n => n.id));
+
+    const hierarchy = result.edges.filter(e => e.type === 'hierarchy' && ids.has(e.target));
+    const targets = hierarchy.map(e => e.target);
+    expect(new Set(targets).size).toBe(targets.length);
+  });
+
+  it('should still parse OpenAPI specs directly', async () => {
+    const spec = JSON.stringify({
+      openapi: '3.0.0',
+      info: { title: 'Test API' },
+      paths: { '/users': { get: { summary: 'List users' } } },
+    });
+
+    const result = await parseDocumentation(spec, 'https://api.example.com/openapi.json', false, { ensemble: true });
+    expect(result.metadata.strategy).toBe('openapi');
+  });
+});
+
+describe('parseDocumentation with a chosen strategy', () => {
+  const html = `
+    <nav>
+      <ul>
+        <li><a href="/payments">Payments</a></li>
+        <li><a href="/billing">Billing</a></li>
+        <li><a href="/identity">Identity</a></li>
+      </ul>
+    </nav>
+  `;
+
+  it('should use only the chosen strategy', async () => {
+    const result = await parseDocumentation(html, 'https://docs.acme.dev', false, { strategy: 'heuristic' });
+
+    expect(result.metadata.strategy).toBe('heuristic');
+    expect(result.metadata.stats?.nodes_final).toBe(result.nodes.length);
+  });
+
+  it('should reject unknown strategies', async () => {
+    await expect(
+      parseDocumentation(html, 'https://docs.acme.dev', false, { strategy: 'magic' })
+    ).rejects.toThrow('Unknown strategy "magic"');
+  });
+
+  it('should reject a strategy that cannot handle the page', async () => {
+    await expect(
+      parseDocumentation(html, 'https://docs.acme.dev', false, { strategy: 'openapi' })
+    ).rejects.toThrow('Strategy "openapi" cannot handle https://docs.acme.dev');
+  });
+
+  it('should not deep crawl when crawling is disabled', async () => {
+    await expect(
+      parseDocumentation(html, 'https://docs.acme.dev', false, { strategy: 'deep-crawl' })
+    ).rejects.toThrow('needs deep crawling to be enabled');
+  });
+});
+
+describe('parseDocumentation trace', () => {
+  const html = `
+    <html>
+      <head><title>Acme Docs</title></head>
+      <body>
+        <nav>
+          <ul>
+            <li><a href="/docs/payments">Payments</a></li>
+            <li><a href="/docs/payment">Payment</a></li>
+            <li><a href="/docs/billing">Billing</a></li>
+            <li><a href="/">Home</a></li>
+            <li><a href="/docs/identity">Identity</a></li>
+          </ul>
+        </nav>
+      </body>
+    </html>
+  `;
+
+  it('should record the strategies tried and the one selected', async () => {
+    const result = await parseDocumentation(html, 'https://docs.acme.dev', false);
+    const attempts = result.metadata.trace!.strategies;
+
+    expect(attempts.slice(0, 3)).toMatchObject([
+      { strategy: 'openapi', outcome: 'skipped', reason: 'No OpenAPI spec found' },
+      { strategy: 'graphql', outcome: 'skipped', reason: 'No GraphQL schema found' },
+      { strategy: 'deep-crawl', outcome: 'skipped', reason: 'Deep crawl disabled' },
+    ]);
+    expect(attempts.filter(a => a.outcome === 'selected')).toEqual([
+      expect.objectContaining({ strategy: result.metadata.strategy, nodes: expect.any(Number), confidence: expect.any(Number) }),
+    ]);
+    expect(result.metadata.trace!.selectors.length).toBeGreaterThan(0);
+  });
+
+  it('should record the nodes deduplication and filtering dropped', async () => {
+    const result = await parseDocumentation(html, 'https://docs.acme.dev', false, { strategy: 'html' });
+    const dropped = result.metadata.trace!.dropped;
+
+    expect(dropped).toHaveLength(result.metadata.stats!.nodes_deduplicated + result.metadata.stats!.nodes_filtered);
+    expect(dropped).toContainEqual(expect.objectContaining({ label: 'Home', step: 'filtering', reason: 'Navigation label' }));
+    const duplicate = dropped.find(d => d.step === 'deduplication')!;
+    expect(duplicate.reason).toMatch(/^Duplicate of "Payments?"$/);
+    expect(result.nodes.map(n => n.id)).toContain(duplicate.merged_into);
+  });
+
+  it('should record which strategies an ensemble merged', async () => {
+    const result = await parseDocumentation(html, 'https://docs.acme.dev', false, { ensemble: true });
+    const merged = result.metadata.trace!.strategies.filter(a => a.outcome === 'merged').map(a => a.strategy);
+
+    expect(merged).toEqual(result.metadata.ensemble_strategies);
+  });
+
+  it('should record crawled pages and a failed deep crawl', async () => {
+    // No browser or network in tests, so the start page fetch fails
+    const result = await parseDocumentation(html, 'https://docs.acme.dev', true, { cache: 'no-store' });
+    const trace = result.metadata.trace!;
+
+    expect(trace.pages).toEqual([
+      expect.objectContaining({ url: 'https://docs.acme.dev', status: 'failed', duration_ms: expect.any(Number) }),
+    ]);
+    expect(trace.strategies).toContainEqual(expect.objectContaining({ strategy: 'deep-crawl', outcome: 'failed' }));
+  });
+});
+
+describe('parseDocumentation versions and locales', () => {
+  const html = `
+    <html lang="en">
+      <head>
+        <link rel="alternate" hreflang="en" href="https://docs.acme.dev/v2/guides">
+        <link rel="alternate" hreflang="de" href="https://docs.acme.dev/de/v2/guides">
+      </head>
+      <body>
+        <select class="version-select">
+          <option value="/v2/guides">v2</option>
+          <option value="/v1/guides">v1</option>
+        </select>
+        <nav>
+          <ul>
+            <li><a href="/v2/guides/payments">Payments</a></li>
+            <li><a href="/v2/guides/billing">Billing</a></li>
+            <li><a href="/v2/guides/identity">Identity</a></li>
+          </ul>
+        </nav>
+      </body>
+    </html>
+  `;
+
+  it('should record the version and locale mapped and the alternatives', async () => {
+    const result = await parseDocumentation(html, 'https://docs.acme.dev/v2/guides', false, { version: 'v2', locale: 'en' });
+
+    expect(result.metadata).toMatchObject({
+      version: 'v2',
+      locale: 'en',
+      available_versions: ['v1'],
+      available_locales: ['de'],
+    });
+  });
+
+  it('should reject a version the site does not offer', async () => {
+    await expect(
+      parseDocumentation(html, 'https://docs.acme.dev/v2/guides', false, { version: 'v9' })
+    ).rejects.toThrow('Version "v9" not found at https://docs.acme.dev/v2/guides (available: v2, v1)');
+  });
+});
+
 describe('getAvailableStrategies', () => {
   it('should return all strategy names', () => {
     const strategies = getAvailableStrategies();
 
+    expect(strategies).toContain('openapi');
     expect(strategies).toContain('template');
     expect(strategies).toContain('schema');
     expect(strategies).toContain('html');
@@ -230,6 +530,16 @@ describe('detectStrategy', () => {
     expect(strategy).toBe('schema');
   });
 
+  it('should detect openapi strategy for raw specs', () => {
+    const strategy = detectStrategy('openapi: 3.0.0\ninfo:\n  title: Test\npaths: {}\n', 'https://api.example.com/openapi.yaml');
+
+    expect(strategy).toBe('openapi');
+  });
+
+  it('should detect graphql strategy for schemas', () => {
+    expect(detectStrategy('type Query { ping: String }', 'https://api.example.com/schema.graphql')).toBe('graphql');
+  });
+
   it('should detect HTML strategy for generic docs', () => {
     const html = '<nav><ul><li><a>Test</a></li></ul></nav>';
     const strategy = detectStrategy(html, 'https://docs.example.com');
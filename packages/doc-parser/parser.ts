@@ -7,214 +7,138 @@ import { HeuristicStrategy } from './strategies/heuristic';
 import { deepCrawl } from './strategies/deep-crawl';
 import { parseHybrid } from './strategies/hybrid';
 import { parseFromNavigation } from './strategies/navigation';
-import { fetchWithBrowser } from './fetcher';
+import { OpenApiStrategy, findSpecUrl } from './strategies/openapi';
+import { GraphQLStrategy } from './strategies/graphql';
+import { loadMarkdownDirectory, parseMarkdownFiles } from './strategies/markdown';
+import { fetchDocumentation, fetchWithBrowser } from './fetcher';
+import { getRegisteredStrategies } from './registry';
+import { mergeStrategyResults } from './ensemble';
+import type { StrategyCandidate } from './ensemble';
 import { deduplicateNodes, updateEdgeReferences } from './validators/deduplication';
-import { filterNodes } from './validators/filtering';
+import { filterNodesWithReasons } from './validators/filtering';
 import { sanitizeNodes } from './validators/sanitization';
-import type { ParseResult, ParsingStrategy } from './types';
+import { applyLabelStatuses } from './strategies/status';
+import { detectDocVariants, hasVariants, resolveVariantUrl } from './strategies/variants';
+import { createTrace, recordAttempt, recordDuplicates, recordFiltered, recordPage, thresholdReason } from './trace';
+import type { DeepCrawlResult } from './strategies/deep-crawl';
+import type { DocVariants } from './strategies/variants';
+import type { FetchResult, MarkdownParseOptions, ParseOptions, ParseResult, ParseTrace, ParsingStrategy } from './types';
+
+/** Node cap in multi-view mode; splitIntoViews caps each view again */
+const MULTI_VIEW_MAX_NODES = 500;
+
+/** Pages deep crawl fetches in multi-view mode (the start page plus one per section) */
+const MULTI_VIEW_MAX_PAGES = 13;
+
+/** Strategies whose labels are names from an API spec, not page text */
+const SPEC_STRATEGIES = ['openapi', 'graphql'];
+
+/**
+ * Parse options, plus what parseDocumentation learned about the page
+ */
+interface PageOptions extends ParseOptions {
+  /** Whether the docs come in several versions or locales, so deduplication merges copies of a page */
+  variantSite?: boolean;
+}
 
 /**
  * Parse documentation from HTML using multiple strategies
  * @param html - Raw HTML content
  * @param url - Source URL
  * @param enableDeepCrawl - Whether to enable multi-page crawling (default: true)
+ * @param options - Parse options (strategy, ensemble mode, crawl size, cache mode, version and locale, cancellation, crawl progress, multi-view mode)
  * @returns Parse result with nodes, edges, and metadata
+ * @throws If the requested version or locale cannot be found
  */
 export async function parseDocumentation(
   html: string, 
   url: string,
-  enableDeepCrawl: boolean = true
+  enableDeepCrawl: boolean = true,
+  options: ParseOptions = {}
 ): Promise<ParseResult> {
   const startTime = Date.now();
+  const trace = createTrace();
+  options.signal?.throwIfAborted();
+
+  // Switch to the requested version or locale before any strategy sees the page
+  const page = await selectVariant(html, url, options, trace);
+  const pageOptions: PageOptions = { ...options, variantSite: hasVariants(page.variants, page.url) };
+  const result = await parsePage(page.html, page.url, enableDeepCrawl, startTime, pageOptions, trace);
+  return recordVariants(result, page.variants);
+}
+
+/**
+ * Parse a page with the chosen strategy, or the fallback chain
+ */
+async function parsePage(
+  html: string,
+  url: string,
+  enableDeepCrawl: boolean,
+  startTime: number,
+  options: PageOptions,
+  trace: ParseTrace
+): Promise<ParseResult> {
   const generatedAt = new Date().toISOString();
 
+  if (options.strategy) {
+    return parseWithStrategy(options.strategy, html, url, enableDeepCrawl, startTime, options, trace);
+  }
+
+  // API specs are parsed directly - no crawling needed
+  const openApiStart = Date.now();
+  const openApiResult = await parseOpenApi(html, url, options, trace);
+  if (openApiResult) {
+    recordAttempt(trace, 'openapi', 'selected', resultDetails(openApiResult, openApiStart));
+    return applyValidators(openApiResult, startTime, options, trace);
+  }
+  recordAttempt(trace, 'openapi', 'skipped', { reason: 'No OpenAPI spec found', startedAt: openApiStart });
+
+  // So are GraphQL schemas
+  const graphqlStart = Date.now();
+  const graphql = new GraphQLStrategy();
+  if (graphql.canHandle(html, url)) {
+    const graphqlResult = await graphql.parse(html, url);
+    recordAttempt(trace, 'graphql', 'selected', resultDetails(graphqlResult, graphqlStart));
+    return applyValidators(graphqlResult, startTime, options, trace);
+  }
+  recordAttempt(trace, 'graphql', 'skipped', { reason: 'No GraphQL schema found', startedAt: graphqlStart });
+
+  if (options.ensemble) {
+    return parseEnsemble(html, url, enableDeepCrawl, startTime, options, trace);
+  }
+
+  // Registered strategies are explicit opt-ins, so they win over crawling
+  const registeredResult = await parseWithRegisteredStrategies(html, url, trace);
+  if (registeredResult) {
+    return applyValidators(registeredResult, startTime, options, trace);
+  }
+
   // Try deep crawl first if enabled (best quality, fetches multiple pages)
   if (enableDeepCrawl) {
-    try {
-      console.log('[Parser] Attempting deep crawl strategy...');
-      const deepCrawlStartTime = Date.now();
-      
-      // Add a timeout wrapper for deep crawl (max 120 seconds)
-      const deepCrawlPromise = deepCrawl(fetchWithBrowser, url, 5);
-      const timeoutPromise = new Promise<never>((_, reject) => 
-        setTimeout(() => reject(new Error('Deep crawl timeout after 120 seconds')), 120000)
-      );
-      
-      const deepResult = await Promise.race([deepCrawlPromise, timeoutPromise]);
-      const deepCrawlDuration = Date.now() - deepCrawlStartTime;
-      
-      console.log(`[Parser] Deep crawl completed in ${deepCrawlDuration}ms: ${deepResult.nodes.length} nodes from ${deepResult.pagesCrawled} pages, confidence: ${deepResult.confidence}`);
-      
-      if (deepResult.nodes.length >= 5 && deepResult.confidence >= 0.7) {
+    const deepStart = Date.now();
+    const deepResult = await runDeepCrawl(url, options, trace);
+    if (deepResult) {
+      const reason = thresholdReason(deepResult.nodes.length, deepResult.confidence, 5, 0.7);
+      recordAttempt(trace, 'deep-crawl', reason ? 'rejected' : 'selected', { ...deepResult, reason: reason ?? undefined, startedAt: deepStart });
+      if (!reason) {
         console.log(`[Parser] Deep crawl succeeded: ${deepResult.nodes.length} nodes from ${deepResult.pagesCrawled} pages`);
-        
-        const result: ParseResult = {
-          nodes: deepResult.nodes,
-          edges: deepResult.edges,
-          metadata: {
-            source_url: url,
-            generated_at: generatedAt,
-            strategy: 'deep-crawl',
-            confidence: deepResult.confidence,
-            warnings: [],
-            stats: {
-              nodes_extracted: deepResult.nodes.length,
-              nodes_final: deepResult.nodes.length,
-              edges_extracted: deepResult.edges.length,
-              nodes_deduplicated: 0,
-              nodes_filtered: 0,
-              duration_ms: 0,
-            },
-          },
-        };
-
-        // Apply validators
-        const originalNodeCount = result.nodes.length;
-        const originalEdgeCount = result.edges.length;
-
-        const { nodes: deduplicatedNodes, idMapping } = deduplicateNodes(result.nodes);
-        const deduplicatedEdges = updateEdgeReferences(result.edges, idMapping);
-        const deduplicationCount = originalNodeCount - deduplicatedNodes.length;
-
-        const filteredNodes = filterNodes(deduplicatedNodes);
-        const filteringCount = deduplicatedNodes.length - filteredNodes.length;
-
-        const sanitizedNodes = sanitizeNodes(filteredNodes);
-
-        const duration = Date.now() - startTime;
-
-        return {
-          nodes: sanitizedNodes,
-          edges: deduplicatedEdges,
-          metadata: {
-            ...result.metadata,
-            stats: {
-              nodes_extracted: originalNodeCount,
-              nodes_final: sanitizedNodes.length,
-              edges_extracted: originalEdgeCount,
-              nodes_deduplicated: deduplicationCount,
-              nodes_filtered: filteringCount,
-              duration_ms: duration,
-            },
-          },
-        };
+        return applyValidators(deepCrawlResult(deepResult, url, generatedAt), startTime, options, trace);
       }
-    } catch (error) {
-      console.error('[Parser] Deep crawl failed:', error instanceof Error ? error.message : error);
-      console.log('[Parser] Falling back to other strategies...');
-      // Fall through to other strategies
     }
+  } else {
+    recordAttempt(trace, 'deep-crawl', 'skipped', { reason: 'Deep crawl disabled' });
   }
 
-  // Try hybrid strategy (single page, content + navigation)
-  const hybridResult = parseHybrid(html, url);
-  if (hybridResult.nodes.length >= 3 && hybridResult.confidence >= 0.5) {
-    const result: ParseResult = {
-      nodes: hybridResult.nodes,
-      edges: hybridResult.edges,
-      metadata: {
-        source_url: url,
-        generated_at: generatedAt,
-        strategy: 'hybrid',
-        confidence: hybridResult.confidence,
-        warnings: [],
-        stats: {
-          nodes_extracted: hybridResult.nodes.length,
-          nodes_final: hybridResult.nodes.length,
-          edges_extracted: hybridResult.edges.length,
-          nodes_deduplicated: 0,
-          nodes_filtered: 0,
-          duration_ms: 0,
-        },
-      },
-    };
-
-    // Apply validators
-    const originalNodeCount = result.nodes.length;
-    const originalEdgeCount = result.edges.length;
-
-    const { nodes: deduplicatedNodes, idMapping } = deduplicateNodes(result.nodes);
-    const deduplicatedEdges = updateEdgeReferences(result.edges, idMapping);
-    const deduplicationCount = originalNodeCount - deduplicatedNodes.length;
-
-    const filteredNodes = filterNodes(deduplicatedNodes);
-    const filteringCount = deduplicatedNodes.length - filteredNodes.length;
-
-    const sanitizedNodes = sanitizeNodes(filteredNodes);
-
-    const duration = Date.now() - startTime;
-
-    return {
-      nodes: sanitizedNodes,
-      edges: deduplicatedEdges,
-      metadata: {
-        ...result.metadata,
-        stats: {
-          nodes_extracted: originalNodeCount,
-          nodes_final: sanitizedNodes.length,
-          edges_extracted: originalEdgeCount,
-          nodes_deduplicated: deduplicationCount,
-          nodes_filtered: filteringCount,
-          duration_ms: duration,
-        },
-      },
-    };
-  }
-
-  // Try navigation-based parsing as fallback
-  const navResult = parseFromNavigation(html, url);
-  if (navResult.nodes.length >= 3 && navResult.confidence >= 0.5) {
-    // Navigation parsing succeeded, use it
-    const result: ParseResult = {
-      nodes: navResult.nodes,
-      edges: navResult.edges,
-      metadata: {
-        source_url: url,
-        generated_at: generatedAt,
-        strategy: 'navigation',
-        confidence: navResult.confidence,
-        warnings: [],
-        stats: {
-          nodes_extracted: navResult.nodes.length,
-          nodes_final: navResult.nodes.length,
-          edges_extracted: navResult.edges.length,
-          nodes_deduplicated: 0,
-          nodes_filtered: 0,
-          duration_ms: 0,
-        },
-      },
-    };
-
-    // Apply validators
-    const originalNodeCount = result.nodes.length;
-    const originalEdgeCount = result.edges.length;
-
-    const { nodes: deduplicatedNodes, idMapping } = deduplicateNodes(result.nodes);
-    const deduplicatedEdges = updateEdgeReferences(result.edges, idMapping);
-    const deduplicationCount = originalNodeCount - deduplicatedNodes.length;
-
-    const filteredNodes = filterNodes(deduplicatedNodes);
-    const filteringCount = deduplicatedNodes.length - filteredNodes.length;
-
-    const sanitizedNodes = sanitizeNodes(filteredNodes);
-
-    const duration = Date.now() - startTime;
-
-    return {
-      nodes: sanitizedNodes,
-      edges: deduplicatedEdges,
-      metadata: {
-        ...result.metadata,
-        stats: {
-          nodes_extracted: originalNodeCount,
-          nodes_final: sanitizedNodes.length,
-          edges_extracted: originalEdgeCount,
-          nodes_deduplicated: deduplicationCount,
-          nodes_filtered: filteringCount,
-          duration_ms: duration,
-        },
-      },
-    };
+  // Try hybrid strategy (single page, content + navigation), then
+  // navigation-based parsing as fallback
+  for (const [strategy, parse] of [['hybrid', parseHybrid], ['navigation', parseFromNavigation]] as const) {
+    const singlePageStart = Date.now();
+    const singlePage = parse(html, url);
+    const reason = thresholdReason(singlePage.nodes.length, singlePage.confidence, 3, 0.5);
+    recordAttempt(trace, strategy, reason ? 'rejected' : 'selected', { ...singlePage, reason: reason ?? undefined, startedAt: singlePageStart });
+    if (!reason) {
+      return applyValidators(strategyResult(strategy, singlePage, url, generatedAt), startTime, options, trace);
+    }
   }
 
   // Initialize all strategies in priority order (fallback)
@@ -230,47 +154,554 @@ export async function parseDocumentation(
 
   // Try each strategy in order
   for (const strategy of strategies) {
-    if (strategy.canHandle(html, url)) {
-      try {
-        const parseResult = await strategy.parse(html, url);
-
-        // Accept result if confidence is above threshold
-        if (parseResult.metadata.confidence >= 0.3) {
-          result = parseResult;
-          selectedStrategy = strategy.name;
-          break;
-        }
-      } catch (error) {
-        // Strategy failed, try next one
-        continue;
+    if (!strategy.canHandle(html, url)) {
+      recordAttempt(trace, strategy.name, 'skipped', { reason: 'Cannot handle this page' });
+      continue;
+    }
+
+    const strategyStart = Date.now();
+    try {
+      const parseResult = await strategy.parse(html, url);
+
+      // Accept result if confidence is above threshold
+      if (parseResult.metadata.confidence >= 0.3) {
+        recordAttempt(trace, strategy.name, 'selected', resultDetails(parseResult, strategyStart));
+        result = parseResult;
+        selectedStrategy = strategy.name;
+        break;
       }
+      recordAttempt(trace, strategy.name, 'rejected', {
+        ...resultDetails(parseResult, strategyStart),
+        reason: thresholdReason(parseResult.nodes.length, parseResult.metadata.confidence, 0, 0.3)!,
+      });
+    } catch (error) {
+      // Strategy failed, try next one
+      recordAttempt(trace, strategy.name, 'failed', { reason: errorMessage(error), startedAt: strategyStart });
+      continue;
     }
   }
 
   // If no strategy succeeded, use heuristic as fallback
   if (!result) {
     const heuristic = new HeuristicStrategy();
+    const heuristicStart = Date.now();
     result = await heuristic.parse(html, url);
     selectedStrategy = heuristic.name;
+    recordAttempt(trace, heuristic.name, 'selected', {
+      ...resultDetails(result, heuristicStart),
+      reason: 'Fallback: no other strategy qualified',
+    });
+  }
+
+  result.metadata.strategy = selectedStrategy || 'unknown';
+
+  return applyValidators(result, startTime, options, trace);
+}
+
+/**
+ * Fetch the requested version or locale of a page, unless it is that one already
+ * @param html - Raw HTML content
+ * @param url - Source URL
+ * @param options - Parse options (version, locale, fetcher, cache mode, cancellation)
+ * @param trace - Parse trace; the fetch of another version goes into it
+ * @returns The page to map and its variants
+ * @throws If the version or locale cannot be found or fetched
+ */
+async function selectVariant(
+  html: string,
+  url: string,
+  options: ParseOptions,
+  trace: ParseTrace
+): Promise<{ html: string; url: string; variants: DocVariants }> {
+  const variants = detectDocVariants(html, url);
+  const target = resolveVariantUrl(variants, url, { version: options.version, locale: options.locale });
+  if (target === url) {
+    return { html, url, variants };
+  }
+
+  console.log(`[Parser] Mapping ${[options.version, options.locale].filter(Boolean).join(', ')} from ${target}`);
+  const fetchPage = options.fetcher === 'static' ? fetchDocumentation : fetchWithBrowser;
+  const fetchStart = Date.now();
+  let fetchResult: FetchResult;
+  try {
+    fetchResult = await fetchPage(target, { cache: options.cache, signal: options.signal });
+  } catch (error) {
+    recordPage(trace, { url: target, status: 'failed', error: errorMessage(error), durationMs: Date.now() - fetchStart });
+    throw error;
+  }
+  recordPage(trace, { url: target, status: 'fetched', fromCache: fetchResult.fromCache === true, durationMs: Date.now() - fetchStart });
+
+  if (fetchResult.statusCode !== 200) {
+    throw new Error(`Failed to fetch ${target} (HTTP ${fetchResult.statusCode})`);
+  }
+
+  const pageUrl = fetchResult.url || target;
+  return { html: fetchResult.html, url: pageUrl, variants: detectDocVariants(fetchResult.html, pageUrl) };
+}
+
+/**
+ * Record the mapped version and locale, and the alternatives, in the metadata
+ */
+function recordVariants(result: ParseResult, variants: DocVariants): ParseResult {
+  const metadata = result.metadata;
+  const otherVersions = variants.versions.map((option) => option.name).filter((name) => name !== variants.version);
+  const otherLocales = variants.locales.map((option) => option.name).filter((name) => name !== variants.locale);
+
+  if (variants.version) metadata.version = variants.version;
+  if (variants.locale) metadata.locale = variants.locale;
+  if (otherVersions.length > 0) metadata.available_versions = otherVersions;
+  if (otherLocales.length > 0) metadata.available_locales = otherLocales;
+
+  return result;
+}
+
+/**
+ * Parse a folder of Markdown/MDX files, such as a checked-out docs repo
+ * Nothing is fetched: the hierarchy comes from Docusaurus sidebars, the
+ * MkDocs nav or the folder structure, and links between pages become edges.
+ * @param dir - Directory to read
+ * @param options - Product name, base URL for docUrls, cancellation
+ * @returns Parse result with nodes, edges, and metadata
+ */
+export async function parseMarkdownDirectory(
+  dir: string,
+  options: MarkdownParseOptions = {}
+): Promise<ParseResult> {
+  const startTime = Date.now();
+  const trace = createTrace();
+  const files = await loadMarkdownDirectory(dir, options.signal);
+  const result = parseMarkdownFiles(files, options, dir);
+  recordAttempt(trace, 'markdown', 'selected', resultDetails(result, startTime));
+
+  console.log(`[Parser] Markdown directory parsed: ${result.nodes.length} nodes from ${result.metadata.hierarchy_source}`);
+  return applyValidators(result, startTime, {}, trace);
+}
+
+/**
+ * Run a deep crawl from the given URL, giving up after 120 seconds
+ * Crawled pages go into the trace, and so does the crawl if it fails
+ * @param url - Start URL
+ * @param options - Parse options (crawl size, fetcher, cache mode, cancellation, crawl progress)
+ * @param trace - Parse trace
+ * @returns Crawl result, or null if the crawl failed
+ * @throws The signal's reason if parsing was cancelled
+ */
+async function runDeepCrawl(url: string, options: ParseOptions, trace: ParseTrace): Promise<DeepCrawlResult | null> {
+  const { cache = 'default', signal, onPageCrawled, multiView = false, fetcher = 'browser' } = options;
+  const maxPages = options.maxPages ?? (multiView ? MULTI_VIEW_MAX_PAGES : 5);
+
+  // The timeout aborts the crawl too, so it stops fetching instead of running on
+  const timeoutController = new AbortController();
+  const timeoutId = setTimeout(
+    () => timeoutController.abort(new Error('Deep crawl timeout after 120 seconds')),
+    120000
+  );
+  const crawlSignal = signal ? AbortSignal.any([signal, timeoutController.signal]) : timeoutController.signal;
+
+  const deepCrawlStartTime = Date.now();
+  try {
+    console.log('[Parser] Attempting deep crawl strategy...');
+
+    // Raw files (sitemap.xml, llms.txt) are always fetched without the browser.
+    // deepCrawl enforces robots.txt and pacing itself, so the fetchers skip it
+    const fetchPage = fetcher === 'static' ? fetchDocumentation : fetchWithBrowser;
+    const deepResult = await deepCrawl(
+      (pageUrl) => fetchPage(pageUrl, { polite: false, cache, signal: crawlSignal }),
+      url,
+      maxPages,
+      {
+        discoveryFetchFn: (fileUrl) => fetchDocumentation(fileUrl, { polite: false, cache, signal: crawlSignal }),
+        cache,
+        fetcher,
+        signal: crawlSignal,
+        onPage: (page) => {
+          recordPage(trace, page);
+          onPageCrawled?.(page);
+        },
+      }
+    );
+    const deepCrawlDuration = Date.now() - deepCrawlStartTime;
+
+    console.log(`[Parser] Deep crawl completed in ${deepCrawlDuration}ms: ${deepResult.nodes.length} nodes from ${deepResult.pagesCrawled} pages, confidence: ${deepResult.confidence}`);
+    return deepResult;
+  } catch (error) {
+    // Cancellation ends parsing; only a timeout or crawl error falls back
+    signal?.throwIfAborted();
+    console.error('[Parser] Deep crawl failed:', error instanceof Error ? error.message : error);
+    console.log('[Parser] Falling back to other strategies...');
+    recordAttempt(trace, 'deep-crawl', 'failed', { reason: errorMessage(error), startedAt: deepCrawlStartTime });
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Run every applicable strategy and merge their results
+ * Each strategy has to clear the same threshold it needs in the fallback
+ * chain to take part; the heuristic strategy is used if none does
+ * @param html - Raw HTML content
+ * @param url - Source URL
+ * @param enableDeepCrawl - Whether deep crawl takes part
+ * @param startTime - Timestamp when parsing started
+ * @param options - Parse options passed on to deep crawl
+ * @param trace - Parse trace
+ * @returns Merged result with per-node provenance
+ */
+async function parseEnsemble(
+  html: string,
+  url: string,
+  enableDeepCrawl: boolean,
+  startTime: number,
+  options: PageOptions,
+  trace: ParseTrace
+): Promise<ParseResult> {
+  const candidates: StrategyCandidate[] = [];
+  let crawlPlanSource: DeepCrawlResult['planSource'] | undefined;
+
+  if (enableDeepCrawl) {
+    const deepStart = Date.now();
+    const deepResult = await runDeepCrawl(url, options, trace);
+    if (deepResult) {
+      const reason = thresholdReason(deepResult.nodes.length, deepResult.confidence, 5, 0.7);
+      recordAttempt(trace, 'deep-crawl', reason ? 'rejected' : 'merged', { ...deepResult, reason: reason ?? undefined, startedAt: deepStart });
+      if (!reason) {
+        candidates.push({ strategy: 'deep-crawl', ...deepResult });
+        crawlPlanSource = deepResult.planSource;
+      }
+    }
+  } else {
+    recordAttempt(trace, 'deep-crawl', 'skipped', { reason: 'Deep crawl disabled' });
+  }
+
+  for (const [strategy, parse] of [['hybrid', parseHybrid], ['navigation', parseFromNavigation]] as const) {
+    const singlePageStart = Date.now();
+    const singlePage = parse(html, url);
+    const reason = thresholdReason(singlePage.nodes.length, singlePage.confidence, 3, 0.5);
+    recordAttempt(trace, strategy, reason ? 'rejected' : 'merged', { ...singlePage, reason: reason ?? undefined, startedAt: singlePageStart });
+    if (!reason) {
+      candidates.push({ strategy, ...singlePage });
+    }
+  }
+
+  const strategies: ParsingStrategy[] = [
+    ...getRegisteredStrategies(),
+    new TemplateStrategy(),
+    new SchemaStrategy(),
+    new HtmlStrategy(),
+    new HeuristicStrategy(),
+  ];
+
+  for (const strategy of strategies) {
+    if (!strategy.canHandle(html, url)) {
+      recordAttempt(trace, strategy.name, 'skipped', { reason: 'Cannot handle this page' });
+      continue;
+    }
+
+    const strategyStart = Date.now();
+    try {
+      const result = await strategy.parse(html, url);
+      const reason = thresholdReason(result.nodes.length, result.metadata.confidence, 1, 0.3);
+      recordAttempt(trace, strategy.name, reason ? 'rejected' : 'merged', {
+        ...resultDetails(result, strategyStart),
+        reason: reason ?? undefined,
+      });
+      if (!reason) {
+        candidates.push({
+          strategy: strategy.name,
+          nodes: result.nodes,
+          edges: result.edges,
+          confidence: result.metadata.confidence,
+          warnings: result.metadata.warnings,
+        });
+      }
+    } catch (error) {
+      console.error(`[Parser] Strategy ${strategy.name} failed:`, error instanceof Error ? error.message : error);
+      recordAttempt(trace, strategy.name, 'failed', { reason: errorMessage(error), startedAt: strategyStart });
+    }
   }
 
+  if (candidates.length === 0) {
+    const heuristic = new HeuristicStrategy();
+    const heuristicStart = Date.now();
+    const result = await heuristic.parse(html, url);
+    result.metadata.strategy = heuristic.name;
+    recordAttempt(trace, heuristic.name, 'selected', {
+      ...resultDetails(result, heuristicStart),
+      reason: 'Fallback: no strategy qualified for merging',
+    });
+    return applyValidators(result, startTime, options, trace);
+  }
+
+  console.log(`[Parser] Merging ${candidates.length} strategies: ${candidates.map((c) => c.strategy).join(', ')}`);
+
+  const merged = mergeStrategyResults(candidates, url);
+  if (crawlPlanSource) {
+    merged.metadata.crawl_plan_source = crawlPlanSource;
+  }
+
+  const mergeStats = merged.metadata.stats!;
+  const result = applyValidators(merged, startTime, options, trace);
+
+  // Count what the strategies extracted, not what was left after aligning
+  result.metadata.stats = {
+    ...result.metadata.stats!,
+    nodes_extracted: mergeStats.nodes_extracted,
+    edges_extracted: mergeStats.edges_extracted,
+    nodes_deduplicated: result.metadata.stats!.nodes_deduplicated + mergeStats.nodes_deduplicated,
+  };
+
+  // Drop provenance of nodes the filters removed
+  const provenance = result.metadata.node_provenance || {};
+  result.metadata.node_provenance = Object.fromEntries(
+    result.nodes.filter((node) => provenance[node.id]).map((node) => [node.id, provenance[node.id]])
+  );
+
+  return result;
+}
+
+/**
+ * Run only the named strategy instead of the fallback chain
+ * The strategy has to handle the page, but its result is kept whatever its
+ * confidence, so the output shows what that strategy alone extracts
+ * @param name - Strategy name from getAvailableStrategies
+ * @param html - Raw HTML content
+ * @param url - Source URL
+ * @param enableDeepCrawl - Whether the deep-crawl strategy may fetch pages
+ * @param startTime - Timestamp when parsing started
+ * @param options - Parse options passed on to deep crawl and the validators
+ * @param trace - Parse trace
+ * @returns Validated result of the strategy
+ * @throws If the strategy is unknown or cannot handle the page
+ */
+async function parseWithStrategy(
+  name: string,
+  html: string,
+  url: string,
+  enableDeepCrawl: boolean,
+  startTime: number,
+  options: PageOptions,
+  trace: ParseTrace
+): Promise<ParseResult> {
+  const generatedAt = new Date().toISOString();
+
+  if (name === 'deep-crawl') {
+    if (!enableDeepCrawl) {
+      throw new Error('The deep-crawl strategy needs deep crawling to be enabled');
+    }
+    const deepResult = await runDeepCrawl(url, options, trace);
+    if (!deepResult || deepResult.nodes.length === 0) {
+      throw new Error(`Deep crawl found nothing to map at ${url}`);
+    }
+    recordAttempt(trace, name, 'selected', { ...deepResult, startedAt: startTime });
+    return applyValidators(deepCrawlResult(deepResult, url, generatedAt), startTime, options, trace);
+  }
+
+  if (name === 'hybrid' || name === 'navigation') {
+    const singlePage = name === 'hybrid' ? parseHybrid(html, url) : parseFromNavigation(html, url);
+    recordAttempt(trace, name, 'selected', { ...singlePage, startedAt: startTime });
+    return applyValidators(strategyResult(name, singlePage, url, generatedAt), startTime, options, trace);
+  }
+
+  const strategies: ParsingStrategy[] = [
+    new OpenApiStrategy(),
+    new GraphQLStrategy(),
+    ...getRegisteredStrategies(),
+    new TemplateStrategy(),
+    new SchemaStrategy(),
+    new HtmlStrategy(),
+    new HeuristicStrategy(),
+  ];
+
+  const strategy = strategies.find((candidate) => candidate.name === name);
+  if (!strategy) {
+    throw new Error(`Unknown strategy "${name}" (available: ${getAvailableStrategies().join(', ')})`);
+  }
+  if (!strategy.canHandle(html, url)) {
+    throw new Error(`Strategy "${name}" cannot handle ${url}`);
+  }
+
+  const result = await strategy.parse(html, url);
+  result.metadata.strategy = strategy.name;
+  recordAttempt(trace, name, 'selected', resultDetails(result, startTime));
+  return applyValidators(result, startTime, options, trace);
+}
+
+/**
+ * Wrap a deep crawl as a parse result, before validation
+ */
+function deepCrawlResult(deepResult: DeepCrawlResult, url: string, generatedAt: string): ParseResult {
+  const result = strategyResult('deep-crawl', deepResult, url, generatedAt);
+  result.metadata.crawl_plan_source = deepResult.planSource;
+  return result;
+}
+
+/**
+ * Wrap the nodes and edges of a function-based strategy as a parse result, before validation
+ */
+function strategyResult(
+  strategy: string,
+  output: { nodes: ParseResult['nodes']; edges: ParseResult['edges']; confidence: number },
+  url: string,
+  generatedAt: string
+): ParseResult {
+  return {
+    nodes: output.nodes,
+    edges: output.edges,
+    metadata: {
+      source_url: url,
+      generated_at: generatedAt,
+      strategy,
+      confidence: output.confidence,
+      warnings: [],
+      stats: {
+        nodes_extracted: output.nodes.length,
+        nodes_final: output.nodes.length,
+        edges_extracted: output.edges.length,
+        nodes_deduplicated: 0,
+        nodes_filtered: 0,
+        duration_ms: 0,
+      },
+    },
+  };
+}
+
+/**
+ * Trace details of a class-based strategy's result
+ */
+function resultDetails(result: ParseResult, startedAt: number) {
+  return { nodes: result.nodes, edges: result.edges, confidence: result.metadata.confidence, startedAt };
+}
+
+/**
+ * Message of a thrown value
+ */
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Parse an OpenAPI/Swagger spec, either given directly or referenced by a
+ * Redoc/Swagger UI page
+ * @param html - Raw content (spec text or rendered HTML)
+ * @param url - Source URL
+ * @param options - Parse options (cache mode and signal for the referenced spec fetch)
+ * @param trace - Parse trace; the referenced spec fetch goes into it
+ * @returns Parse result, or null if no spec was found
+ */
+async function parseOpenApi(
+  html: string,
+  url: string,
+  options: ParseOptions,
+  trace: ParseTrace
+): Promise<ParseResult | null> {
+  const strategy = new OpenApiStrategy();
+
+  if (strategy.canHandle(html, url)) {
+    return strategy.parse(html, url);
+  }
+
+  const specUrl = findSpecUrl(html, url);
+  if (!specUrl) {
+    return null;
+  }
+
+  const fetchStart = Date.now();
+  try {
+    console.log(`[Parser] Found OpenAPI spec reference: ${specUrl}`);
+    const specResult = await fetchDocumentation(specUrl, { cache: options.cache, signal: options.signal });
+    recordPage(trace, { url: specUrl, status: 'fetched', fromCache: specResult.fromCache === true, durationMs: Date.now() - fetchStart });
+    if (strategy.canHandle(specResult.html, specResult.url)) {
+      return strategy.parse(specResult.html, url);
+    }
+  } catch (error) {
+    options.signal?.throwIfAborted();
+    console.error('[Parser] Failed to fetch OpenAPI spec:', error instanceof Error ? error.message : error);
+    recordPage(trace, { url: specUrl, status: 'failed', error: errorMessage(error), durationMs: Date.now() - fetchStart });
+  }
+
+  return null;
+}
+
+/**
+ * Try strategies added through the registry, in priority order
+ * @param html - Raw HTML content
+ * @param url - Source URL
+ * @param trace - Parse trace
+ * @returns Parse result from the first strategy that handles the page, or null
+ */
+async function parseWithRegisteredStrategies(html: string, url: string, trace: ParseTrace): Promise<ParseResult | null> {
+  for (const strategy of getRegisteredStrategies()) {
+    if (!strategy.canHandle(html, url)) {
+      recordAttempt(trace, strategy.name, 'skipped', { reason: 'Cannot handle this page' });
+      continue;
+    }
+
+    const strategyStart = Date.now();
+    try {
+      const result = await strategy.parse(html, url);
+      if (result.metadata.confidence >= 0.3) {
+        console.log(`[Parser] Using registered strategy: ${strategy.name}`);
+        result.metadata.strategy = strategy.name;
+        recordAttempt(trace, strategy.name, 'selected', resultDetails(result, strategyStart));
+        return result;
+      }
+      recordAttempt(trace, strategy.name, 'rejected', {
+        ...resultDetails(result, strategyStart),
+        reason: thresholdReason(result.nodes.length, result.metadata.confidence, 0, 0.3)!,
+      });
+    } catch (error) {
+      console.error(`[Parser] Registered strategy ${strategy.name} failed:`, error instanceof Error ? error.message : error);
+      recordAttempt(trace, strategy.name, 'failed', { reason: errorMessage(error), startedAt: strategyStart });
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Apply validators (status labels, deduplication, filtering, sanitization) to a
+ * strategy result and fill in the generation stats and trace
+ * @param result - Raw result from a strategy
+ * @param startTime - Timestamp when parsing started
+ * @param options - Parse options (multi-view mode raises the node cap; copies of a page are merged on sites with versions or locales)
+ * @param trace - Trace of the parse so far; the dropped nodes are added to it
+ * @returns Validated result with updated metadata
+ */
+function applyValidators(result: ParseResult, startTime: number, options: PageOptions, trace: ParseTrace): ParseResult {
   // Track original counts
   const originalNodeCount = result.nodes.length;
   const originalEdgeCount = result.edges.length;
 
-  // Apply validators in sequence
-  
-  // 1. Deduplication
-  const { nodes: deduplicatedNodes, idMapping } = deduplicateNodes(result.nodes);
+  // 1. Status prefixes/suffixes, stripped first so "Lambda (Beta)" and "Lambda" are deduplicated
+  const labeledNodes = applyLabelStatuses(result.nodes);
+
+  // 2. Deduplication
+  const { nodes: deduplicatedNodes, idMapping } = deduplicateNodes(labeledNodes, undefined, options.variantSite);
   const deduplicatedEdges = updateEdgeReferences(result.edges, idMapping);
   const deduplicationCount = originalNodeCount - deduplicatedNodes.length;
-
-  // 2. Filtering
-  const filteredNodes = filterNodes(deduplicatedNodes);
+  recordDuplicates(trace, labeledNodes, deduplicatedNodes, idMapping);
+
+  // 3. Filtering; nodes more ensemble strategies found survive the node cap first.
+  // Spec names are real API names however short or generic ("me", "id", "search")
+  const provenance = result.metadata.node_provenance || {};
+  const fromSpec = SPEC_STRATEGIES.includes(result.metadata.strategy);
+  const { nodes: filteredNodes, removed } = filterNodesWithReasons(deduplicatedNodes, {
+    ...(options.multiView ? { maxNodes: MULTI_VIEW_MAX_NODES } : {}),
+    ...(fromSpec ? { minLabelLength: 1, excludedLabels: [] } : {}),
+    agreement: Object.fromEntries(Object.entries(provenance).map(([id, { agreement }]) => [id, agreement])),
+  });
   const filteringCount = deduplicatedNodes.length - filteredNodes.length;
+  recordFiltered(trace, removed);
+  // Edges of filtered nodes would point at nothing
+  const keptIds = new Set(filteredNodes.map((node) => node.id));
+  const filteredEdges = deduplicatedEdges.filter((edge) => keptIds.has(edge.source) && keptIds.has(edge.target));
 
-  // 3. Sanitization
+  // 4. Sanitization
   const sanitizedNodes = sanitizeNodes(filteredNodes);
+  const statusEvidence = Object.fromEntries(
+    sanitizedNodes.filter((node) => node.statusEvidence).map((node) => [node.id, node.statusEvidence!])
+  );
 
   // Calculate duration
   const duration = Date.now() - startTime;
@@ -278,10 +709,11 @@ export async function parseDocumentation(
   // Return final result with updated metadata
   return {
     nodes: sanitizedNodes,
-    edges: deduplicatedEdges,
+    edges: filteredEdges,
     metadata: {
       ...result.metadata,
-      strategy: selectedStrategy || 'unknown',
+      ...(Object.keys(statusEvidence).length > 0 ? { status_evidence: statusEvidence } : {}),
+      trace,
       stats: {
         nodes_extracted: originalNodeCount,
         nodes_final: sanitizedNodes.length,
@@ -295,11 +727,12 @@ export async function parseDocumentation(
 }
 
 /**
- * Get available parsing strategies
+ * Get available parsing strategies, including registered ones, in the order they are tried
  * @returns Array of strategy names
  */
 export function getAvailableStrategies(): string[] {
-  return ['deep-crawl', 'hybrid', 'navigation', 'template', 'schema', 'html', 'heuristic'];
+  const registered = getRegisteredStrategies().map((strategy) => strategy.name);
+  return ['openapi', 'graphql', ...registered, 'deep-crawl', 'hybrid', 'navigation', 'template', 'schema', 'html', 'heuristic'];
 }
 
 /**
@@ -309,6 +742,20 @@ export function getAvailableStrategies(): string[] {
  * @returns Strategy name that would be used
  */
 export function detectStrategy(html: string, url: string): string {
+  // API specs take precedence over everything else
+  if (new OpenApiStrategy().canHandle(html, url)) {
+    return 'openapi';
+  }
+  if (new GraphQLStrategy().canHandle(html, url)) {
+    return 'graphql';
+  }
+
+  // Then registered strategies, in priority order
+  const registered = getRegisteredStrategies().find((strategy) => strategy.canHandle(html, url));
+  if (registered) {
+    return registered.name;
+  }
+
   // Check hybrid first
   const hybridResult = parseHybrid(html, url);
   if (hybridResult.nodes.length >= 3 && hybridResult.confidence >= 0.5) {
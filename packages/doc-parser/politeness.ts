@@ -0,0 +1,37 @@
+// Crawl politeness - robots.txt checks plus per-host pacing
+
+import type { FetchResult } from './types';
+import { checkRobots } from './robots';
+import { acquireHostSlot } from './rate-limiter';
+
+/**
+ * Check robots.txt and wait for a per-host request slot
+ * Crawl-delay from robots.txt slows the host's token bucket down
+ *
+ * @param url - URL about to be requested
+ * @param signal - Stops waiting for the slot when aborted (optional)
+ * @throws Error if robots.txt disallows the URL, or the signal's reason if it aborts
+ */
+export async function enforcePoliteness(url: string, signal?: AbortSignal): Promise<void> {
+  const { allowed, crawlDelay } = await checkRobots(url);
+  if (!allowed) {
+    throw new Error(`Blocked by robots.txt: ${url}`);
+  }
+
+  await acquireHostSlot(url, crawlDelay, signal);
+}
+
+/**
+ * Wrap a fetch function so every request goes through enforcePoliteness
+ *
+ * @param fetchFn - Fetch function to wrap
+ * @returns Fetch function that respects robots.txt and host rate limits
+ */
+export function withPoliteness(
+  fetchFn: (url: string) => Promise<FetchResult>
+): (url: string) => Promise<FetchResult> {
+  return async (url: string) => {
+    await enforcePoliteness(url);
+    return fetchFn(url);
+  };
+}
@@ -0,0 +1,81 @@
+// Unit tests for the per-host rate limiter
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { acquireHostSlot, configureRateLimiter, resetRateLimiter } from './rate-limiter';
+
+describe('acquireHostSlot', () => {
+  beforeEach(() => {
+    // 20 tokens per second keeps the tests fast while still measurable
+    configureRateLimiter({ burst: 2, refillPerSecond: 20 });
+  });
+
+  afterEach(() => {
+    resetRateLimiter();
+  });
+
+  it('should let a burst through without waiting', async () => {
+    const start = Date.now();
+    await acquireHostSlot('https://example.com/a');
+    await acquireHostSlot('https://example.com/b');
+    expect(Date.now() - start).toBeLessThan(40);
+  });
+
+  it('should pace requests once the burst is used up', async () => {
+    const start = Date.now();
+    for (let i = 0; i < 4; i++) {
+      await acquireHostSlot(`https://example.com/page-${i}`);
+    }
+    // Two requests had to wait for a 50ms refill each
+    expect(Date.now() - start).toBeGreaterThanOrEqual(90);
+  });
+
+  it('should keep separate buckets per host', async () => {
+    await acquireHostSlot('https://example.com/a');
+    await acquireHostSlot('https://example.com/b');
+
+    const start = Date.now();
+    await acquireHostSlot('https://other.example.org/a');
+    expect(Date.now() - start).toBeLessThan(40);
+  });
+
+  it('should honour a crawl delay as the minimum interval', async () => {
+    const start = Date.now();
+    await acquireHostSlot('https://example.com/a', 0.1);
+    await acquireHostSlot('https://example.com/b', 0.1);
+    // Crawl-delay disables bursts: the second request waits the full 100ms
+    expect(Date.now() - start).toBeGreaterThanOrEqual(95);
+  });
+
+  it('should stop waiting when the signal aborts', async () => {
+    await acquireHostSlot('https://example.com/a', 10);
+    const controller = new AbortController();
+    const waiting = acquireHostSlot('https://example.com/b', 10, controller.signal);
+
+    const start = Date.now();
+    controller.abort(new Error('Crawl cancelled'));
+    await expect(waiting).rejects.toThrow('Crawl cancelled');
+    expect(Date.now() - start).toBeLessThan(40);
+  });
+
+  it('should not let an aborted waiter hold up the queue', async () => {
+    await acquireHostSlot('https://example.com/a');
+    await acquireHostSlot('https://example.com/b');
+    const controller = new AbortController();
+    const cancelled = acquireHostSlot('https://example.com/c', undefined, controller.signal);
+    controller.abort();
+    await expect(cancelled).rejects.toThrow();
+
+    // The cancelled waiter took no token: the next one waits one refill, not two
+    const start = Date.now();
+    await acquireHostSlot('https://example.com/d');
+    expect(Date.now() - start).toBeLessThan(90);
+  });
+
+  it('should serve concurrent waiters in order', async () => {
+    const order: number[] = [];
+    await Promise.all(
+      [0, 1, 2, 3].map((i) => acquireHostSlot(`https://example.com/${i}`).then(() => order.push(i)))
+    );
+    expect(order).toEqual([0, 1, 2, 3]);
+  });
+});
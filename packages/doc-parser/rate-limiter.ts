@@ -0,0 +1,188 @@
+// Per-host token-bucket rate limiter for outgoing requests
+
+/**
+ * Rate limiter configuration
+ */
+export interface RateLimiterOptions {
+  /** Requests allowed in a burst before pacing kicks in */
+  burst: number;
+  /** Tokens added back per second */
+  refillPerSecond: number;
+}
+
+/**
+ * Token bucket state for a single host
+ */
+interface HostBucket {
+  tokens: number;
+  capacity: number;
+  intervalMs: number;
+  lastRefill: number;
+}
+
+const DEFAULT_OPTIONS: RateLimiterOptions = {
+  burst: 2,
+  refillPerSecond: 1,
+};
+
+/**
+ * Token-bucket limiter keyed by host
+ * Waiters for the same host are served in arrival order
+ */
+class HostRateLimiter {
+  private options: RateLimiterOptions;
+  private buckets: Map<string, HostBucket>;
+  private queues: Map<string, Promise<void>>;
+
+  constructor(options: RateLimiterOptions) {
+    this.options = options;
+    this.buckets = new Map();
+    this.queues = new Map();
+  }
+
+  /**
+   * Wait until a request to the URL's host may be sent
+   * An aborted waiter rejects at once and gives up its place without using a token
+   * @param url - Request URL
+   * @param minIntervalMs - Minimum spacing between requests (e.g. from Crawl-delay)
+   * @param signal - Stops waiting when aborted
+   */
+  acquire(url: string, minIntervalMs: number = 0, signal?: AbortSignal): Promise<void> {
+    const host = new URL(url).host;
+    const previous = this.queues.get(host) || Promise.resolve();
+    const next = previous.then(() => {
+      signal?.throwIfAborted();
+      return this.take(host, minIntervalMs, signal);
+    });
+
+    // Keep the chain alive even if a waiter fails
+    this.queues.set(host, next.catch(() => undefined));
+    return signal ? untilAborted(next, signal) : next;
+  }
+
+  configure(options: Partial<RateLimiterOptions>): void {
+    this.options = { ...this.options, ...options };
+    this.buckets.clear();
+  }
+
+  reset(): void {
+    this.buckets.clear();
+    this.queues.clear();
+  }
+
+  private async take(host: string, minIntervalMs: number, signal?: AbortSignal): Promise<void> {
+    const bucket = this.getBucket(host, minIntervalMs);
+    this.refill(bucket);
+
+    if (bucket.tokens < 1) {
+      await delay(Math.ceil((1 - bucket.tokens) * bucket.intervalMs), signal);
+      this.refill(bucket);
+    }
+
+    bucket.tokens = Math.max(0, bucket.tokens - 1);
+  }
+
+  private getBucket(host: string, minIntervalMs: number): HostBucket {
+    const baseInterval = 1000 / this.options.refillPerSecond;
+    // A crawl delay means strictly one request per interval, no bursts
+    const intervalMs = Math.max(baseInterval, minIntervalMs);
+    const capacity = minIntervalMs > baseInterval ? 1 : this.options.burst;
+
+    let bucket = this.buckets.get(host);
+    if (!bucket) {
+      bucket = { tokens: capacity, capacity, intervalMs, lastRefill: Date.now() };
+      this.buckets.set(host, bucket);
+    } else if (bucket.intervalMs !== intervalMs || bucket.capacity !== capacity) {
+      this.refill(bucket);
+      bucket.intervalMs = intervalMs;
+      bucket.capacity = capacity;
+      bucket.tokens = Math.min(bucket.tokens, capacity);
+    }
+
+    return bucket;
+  }
+
+  private refill(bucket: HostBucket): void {
+    const now = Date.now();
+    const elapsed = now - bucket.lastRefill;
+    bucket.tokens = Math.min(bucket.capacity, bucket.tokens + elapsed / bucket.intervalMs);
+    bucket.lastRefill = now;
+  }
+}
+
+/**
+ * Wait for a number of milliseconds, clearing the timer if the signal aborts
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Settle with a promise, or reject as soon as the signal aborts
+ */
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      // The queued waiter still runs, sees the signal and steps aside
+      promise.catch(() => undefined);
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+// Singleton limiter instance
+const hostRateLimiter = new HostRateLimiter(DEFAULT_OPTIONS);
+
+/**
+ * Wait for a request slot on the URL's host
+ * @param url - Request URL
+ * @param crawlDelay - Crawl-delay from robots.txt in seconds (optional)
+ * @param signal - Stops waiting when aborted (optional)
+ * @throws The signal's reason if it aborts first
+ */
+export function acquireHostSlot(url: string, crawlDelay?: number, signal?: AbortSignal): Promise<void> {
+  return hostRateLimiter.acquire(url, crawlDelay ? crawlDelay * 1000 : 0, signal);
+}
+
+/**
+ * Change burst size or refill rate (clears existing buckets)
+ * @param options - Options to override
+ */
+export function configureRateLimiter(options: Partial<RateLimiterOptions>): void {
+  hostRateLimiter.configure(options);
+}
+
+/**
+ * Reset all host buckets and restore default options
+ */
+export function resetRateLimiter(): void {
+  hostRateLimiter.configure(DEFAULT_OPTIONS);
+  hostRateLimiter.reset();
+}
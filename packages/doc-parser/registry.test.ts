@@ -0,0 +1,143 @@
+// Unit tests for the strategy registry
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  registerStrategy,
+  registerTemplate,
+  unregisterStrategy,
+  getRegisteredStrategies,
+  clearRegisteredStrategies,
+} from './registry';
+import { parseDocumentation, getAvailableStrategies, detectStrategy } from './parser';
+import { BaseStrategy } from './strategies/base';
+import type { ParseResult } from './types';
+
+class FixedStrategy extends BaseStrategy {
+  constructor(readonly name: string, private readonly matches: boolean = true) {
+    super();
+  }
+
+  canHandle(): boolean {
+    return this.matches;
+  }
+
+  async parse(_html: string, url: string): Promise<ParseResult> {
+    const nodes = [
+      { id: 'product-portal', type: 'product' as const, data: { label: 'Portal' } },
+      { id: 'feature-payments', type: 'feature' as const, data: { label: 'Payments' } },
+    ];
+    return {
+      nodes,
+      edges: [{ id: 'e1', source: 'product-portal', target: 'feature-payments', type: 'hierarchy' }],
+      metadata: {
+        source_url: url,
+        generated_at: new Date().toISOString(),
+        strategy: 'something-else',
+        confidence: this.confidence(),
+        warnings: [],
+        stats: {
+          nodes_extracted: 2,
+          nodes_final: 2,
+          edges_extracted: 1,
+          nodes_deduplicated: 0,
+          nodes_filtered: 0,
+          duration_ms: 0,
+        },
+      },
+    };
+  }
+
+  confidence(): number {
+    return 0.8;
+  }
+}
+
+describe('strategy registry', () => {
+  afterEach(() => {
+    clearRegisteredStrategies();
+  });
+
+  it('should register and unregister strategies', () => {
+    registerStrategy(new FixedStrategy('portal'));
+    expect(getRegisteredStrategies().map(s => s.name)).toEqual(['portal']);
+
+    expect(unregisterStrategy('portal')).toBe(true);
+    expect(unregisterStrategy('portal')).toBe(false);
+    expect(getRegisteredStrategies()).toEqual([]);
+  });
+
+  it('should reject duplicate and built-in names', () => {
+    registerStrategy(new FixedStrategy('portal'));
+
+    expect(() => registerStrategy(new FixedStrategy('portal'))).toThrow('already registered');
+    expect(() => registerStrategy(new FixedStrategy('template'))).toThrow('reserved');
+  });
+
+  it('should order strategies by priority, then registration order', () => {
+    registerStrategy(new FixedStrategy('first'));
+    registerStrategy(new FixedStrategy('second'));
+    registerStrategy(new FixedStrategy('urgent'), { priority: 10 });
+
+    expect(getRegisteredStrategies().map(s => s.name)).toEqual(['urgent', 'first', 'second']);
+  });
+
+  it('should register declarative templates from JSON', () => {
+    const strategy = registerTemplate(JSON.stringify({
+      name: 'acme-portal',
+      fingerprint: '#portal-nav',
+      selectors: { sidebar: '#portal-nav', itemLink: 'a' },
+    }));
+
+    expect(strategy.name).toBe('acme-portal');
+    expect(getRegisteredStrategies()).toContain(strategy);
+  });
+
+  describe('parser integration', () => {
+    it('should list registered strategies in getAvailableStrategies', () => {
+      registerStrategy(new FixedStrategy('portal'));
+
+      const strategies = getAvailableStrategies();
+      expect(strategies).toContain('portal');
+      expect(strategies.indexOf('portal')).toBeLessThan(strategies.indexOf('deep-crawl'));
+    });
+
+    it('should detect registered strategies', () => {
+      registerStrategy(new FixedStrategy('never', false));
+      registerStrategy(new FixedStrategy('portal'));
+
+      expect(detectStrategy('<html></html>', 'https://docs.example.com')).toBe('portal');
+    });
+
+    it('should parse with a registered strategy before crawling', async () => {
+      registerStrategy(new FixedStrategy('portal'));
+
+      const result = await parseDocumentation('<html></html>', 'https://docs.example.com');
+
+      expect(result.metadata.strategy).toBe('portal');
+      expect(result.nodes.map(n => n.data.label)).toEqual(['Portal', 'Payments']);
+    });
+
+    it('should use registered declarative templates', async () => {
+      registerTemplate({
+        name: 'acme-portal',
+        fingerprint: '#portal-nav',
+        selectors: { sidebar: '#portal-nav', sectionHeading: 'h4', itemLink: 'a' },
+      });
+
+      const html = `
+        <title>Home | Acme Portal</title>
+        <nav id="portal-nav">
+          <h4>Services</h4>
+          <a href="/billing">Billing Service</a>
+          <a href="/ledger">Ledger Service</a>
+        </nav>
+      `;
+
+      expect(detectStrategy(html, 'https://portal.acme.dev/')).toBe('acme-portal');
+
+      const result = await parseDocumentation(html, 'https://portal.acme.dev/', false);
+      expect(result.metadata.strategy).toBe('acme-portal');
+      expect(result.nodes.map(n => n.data.label)).toEqual(['Acme Portal', 'Services', 'Billing Service', 'Ledger Service']);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+// Runtime registry for additional parsing strategies
+
+import { DeclarativeTemplateStrategy } from './strategies/declarative';
+import type { TemplateDefinition } from './strategies/declarative';
+import type { ParsingStrategy } from './types';
+
+/**
+ * Names used by the built-in strategies (cannot be registered)
+ */
+export const BUILT_IN_STRATEGIES = [
+  'openapi',
+  'graphql',
+  'deep-crawl',
+  'hybrid',
+  'navigation',
+  'template',
+  'schema',
+  'html',
+  'heuristic',
+] as const;
+
+/**
+ * Registration options
+ */
+export interface RegisterStrategyOptions {
+  /** Higher priorities are tried first (default: 0, ties keep registration order) */
+  priority?: number;
+}
+
+/**
+ * Registry entry structure
+ */
+interface RegistryEntry {
+  strategy: ParsingStrategy;
+  priority: number;
+  order: number;
+}
+
+/**
+ * Registered strategies, ordered by priority
+ */
+class StrategyRegistry {
+  private entries: Map<string, RegistryEntry>;
+  private nextOrder: number;
+
+  constructor() {
+    this.entries = new Map();
+    this.nextOrder = 0;
+  }
+
+  register(strategy: ParsingStrategy, options: RegisterStrategyOptions = {}): void {
+    if (!strategy || typeof strategy.name !== 'string' || !strategy.name) {
+      throw new Error('Strategy must have a name');
+    }
+
+    if ((BUILT_IN_STRATEGIES as readonly string[]).includes(strategy.name)) {
+      throw new Error(`Strategy name "${strategy.name}" is reserved for a built-in strategy`);
+    }
+
+    if (this.entries.has(strategy.name)) {
+      throw new Error(`Strategy "${strategy.name}" is already registered`);
+    }
+
+    this.entries.set(strategy.name, {
+      strategy,
+      priority: options.priority ?? 0,
+      order: this.nextOrder++,
+    });
+  }
+
+  unregister(name: string): boolean {
+    return this.entries.delete(name);
+  }
+
+  list(): ParsingStrategy[] {
+    return Array.from(this.entries.values())
+      .sort((a, b) => b.priority - a.priority || a.order - b.order)
+      .map((entry) => entry.strategy);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+// Singleton registry instance
+const registry = new StrategyRegistry();
+
+/**
+ * Register a parsing strategy
+ * Registered strategies run before the built-in crawling and HTML strategies
+ * (only OpenAPI specs and GraphQL schemas take precedence) and show up in
+ * getAvailableStrategies and detectStrategy
+ *
+ * @param strategy - Strategy implementation
+ * @param options - Registration options
+ * @throws Error if the name is taken
+ */
+export function registerStrategy(strategy: ParsingStrategy, options?: RegisterStrategyOptions): void {
+  registry.register(strategy, options);
+}
+
+/**
+ * Register a declarative template definition
+ *
+ * @param definition - Definition object or JSON string
+ * @param options - Registration options
+ * @returns The strategy created for the template
+ * @throws Error if the definition is invalid or the name is taken
+ */
+export function registerTemplate(
+  definition: TemplateDefinition | string,
+  options?: RegisterStrategyOptions
+): ParsingStrategy {
+  const strategy = new DeclarativeTemplateStrategy(definition);
+  registry.register(strategy, options);
+  return strategy;
+}
+
+/**
+ * Remove a registered strategy
+ *
+ * @param name - Strategy name
+ * @returns true if a strategy was removed
+ */
+export function unregisterStrategy(name: string): boolean {
+  return registry.unregister(name);
+}
+
+/**
+ * Get registered strategies in the order they are tried
+ */
+export function getRegisteredStrategies(): ParsingStrategy[] {
+  return registry.list();
+}
+
+/**
+ * Remove all registered strategies
+ */
+export function clearRegisteredStrategies(): void {
+  registry.clear();
+}
@@ -0,0 +1,212 @@
+// Unit tests for robots.txt parsing and caching
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { parseRobotsTxt, isAllowedByRobots, checkRobots, clearRobotsCache, MAX_CRAWL_DELAY } from './robots';
+
+describe('parseRobotsTxt', () => {
+  it('should use the wildcard group when no group names us', () => {
+    const rules = parseRobotsTxt(`
+User-agent: Googlebot
+Disallow: /
+
+User-agent: *
+Disallow: /private
+Crawl-delay: 2
+`);
+
+    expect(rules.rules).toEqual([{ allow: false, pattern: '/private' }]);
+    expect(rules.crawlDelay).toBe(2);
+  });
+
+  it('should prefer the group for our user agent over the wildcard group', () => {
+    const rules = parseRobotsTxt(`
+User-agent: *
+Disallow: /
+
+User-agent: docmaps-bot
+Disallow: /internal
+Crawl-delay: 5
+`);
+
+    expect(rules.rules).toEqual([{ allow: false, pattern: '/internal' }]);
+    expect(rules.crawlDelay).toBe(5);
+  });
+
+  it('should cap long crawl delays', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const rules = parseRobotsTxt('User-agent: *\nCrawl-delay: 3600\n');
+
+    expect(rules.crawlDelay).toBe(MAX_CRAWL_DELAY);
+    expect(warn).toHaveBeenCalledWith('[Robots] Crawl-delay of 3600s capped at 10s');
+    warn.mockRestore();
+  });
+
+  it('should apply rules to every agent in a grouped User-agent block', () => {
+    const rules = parseRobotsTxt(`
+User-agent: SomeBot
+User-agent: DocMaps-Bot
+Disallow: /drafts
+`);
+
+    expect(rules.rules).toEqual([{ allow: false, pattern: '/drafts' }]);
+  });
+
+  it('should match our product token as a whole, ignoring case and version', () => {
+    const rules = parseRobotsTxt(`
+User-agent: *
+Disallow: /private
+
+User-agent: DOCMAPS-BOT/2.0
+Disallow: /internal
+`);
+
+    expect(rules.rules).toEqual([{ allow: false, pattern: '/internal' }]);
+  });
+
+  it('should not let an empty User-agent line select our group', () => {
+    const rules = parseRobotsTxt(`
+User-agent:
+Disallow: /
+
+User-agent: *
+Disallow: /private
+`);
+
+    expect(rules.rules).toEqual([{ allow: false, pattern: '/private' }]);
+  });
+
+  it('should not treat generic tokens contained in our name as our group', () => {
+    const rules = parseRobotsTxt(`
+User-agent: bot
+User-agent: docmaps
+Disallow: /
+
+User-agent: *
+Disallow: /private
+`);
+
+    expect(rules.rules).toEqual([{ allow: false, pattern: '/private' }]);
+  });
+
+  it('should ignore comments and empty Disallow lines', () => {
+    const rules = parseRobotsTxt(`
+# Allow everything
+User-agent: * # all bots
+Disallow:
+`);
+
+    expect(rules.rules).toEqual([]);
+  });
+
+  it('should collect sitemaps regardless of group', () => {
+    const rules = parseRobotsTxt(`
+Sitemap: https://example.com/sitemap.xml
+User-agent: *
+Disallow: /tmp
+Sitemap: https://example.com/docs/sitemap.xml
+`);
+
+    expect(rules.sitemaps).toEqual([
+      'https://example.com/sitemap.xml',
+      'https://example.com/docs/sitemap.xml',
+    ]);
+  });
+});
+
+describe('isAllowedByRobots', () => {
+  const rules = parseRobotsTxt(`
+User-agent: *
+Disallow: /docs/
+Allow: /docs/public/
+Disallow: /*.pdf$
+Disallow: /search?
+`);
+
+  it('should allow paths no rule matches', () => {
+    expect(isAllowedByRobots(rules, 'https://example.com/blog')).toBe(true);
+  });
+
+  it('should use the longest matching rule', () => {
+    expect(isAllowedByRobots(rules, 'https://example.com/docs/internal')).toBe(false);
+    expect(isAllowedByRobots(rules, 'https://example.com/docs/public/intro')).toBe(true);
+  });
+
+  it('should support wildcards and end anchors', () => {
+    expect(isAllowedByRobots(rules, 'https://example.com/guide/manual.pdf')).toBe(false);
+    expect(isAllowedByRobots(rules, 'https://example.com/guide/manual.pdf.html')).toBe(true);
+  });
+
+  it('should match query strings', () => {
+    expect(isAllowedByRobots(rules, 'https://example.com/search?q=auth')).toBe(false);
+    expect(isAllowedByRobots(rules, 'https://example.com/search')).toBe(true);
+  });
+
+  it('should let Allow win ties', () => {
+    const tie = parseRobotsTxt(`
+User-agent: *
+Disallow: /page
+Allow: /page
+`);
+    expect(isAllowedByRobots(tie, 'https://example.com/page')).toBe(true);
+  });
+
+  it('should always allow robots.txt itself', () => {
+    const all = parseRobotsTxt('User-agent: *\nDisallow: /');
+    expect(isAllowedByRobots(all, 'https://example.com/robots.txt')).toBe(true);
+    expect(isAllowedByRobots(all, 'https://example.com/')).toBe(false);
+  });
+});
+
+describe('checkRobots', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    clearRobotsCache();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should fetch robots.txt once per origin', async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      text: async () => 'User-agent: *\nDisallow: /private\nCrawl-delay: 3',
+    } as any);
+    global.fetch = mockFetch;
+
+    const first = await checkRobots('https://example.com/private/page');
+    const second = await checkRobots('https://example.com/docs');
+
+    expect(first).toEqual({ allowed: false, crawlDelay: 3 });
+    expect(second).toEqual({ allowed: true, crawlDelay: 3 });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://example.com/robots.txt',
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          'User-Agent': expect.stringContaining('DocMaps-Bot'),
+        }),
+      })
+    );
+  });
+
+  it('should allow everything when robots.txt is missing', async () => {
+    global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 404 } as any);
+
+    expect((await checkRobots('https://example.com/anything')).allowed).toBe(true);
+  });
+
+  it('should disallow everything when robots.txt returns a server error', async () => {
+    global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 503 } as any);
+
+    expect((await checkRobots('https://example.com/docs')).allowed).toBe(false);
+  });
+
+  it('should allow everything when robots.txt cannot be reached', async () => {
+    global.fetch = vi.fn().mockRejectedValue(new Error('fetch failed'));
+
+    expect((await checkRobots('https://example.com/docs')).allowed).toBe(true);
+  });
+});
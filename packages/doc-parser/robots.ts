@@ -0,0 +1,336 @@
+// robots.txt parsing and caching for polite crawling
+
+import { checkHostSafety, pinnedFetch } from './ssrf';
+
+/** Product token matched against robots.txt User-agent lines */
+export const ROBOTS_USER_AGENT = 'DocMaps-Bot';
+
+/**
+ * A single Allow/Disallow rule
+ */
+interface RobotsRule {
+  /** true for Allow, false for Disallow */
+  allow: boolean;
+  /** Path pattern (supports * wildcards and $ end anchor) */
+  pattern: string;
+}
+
+/**
+ * Rules from robots.txt that apply to our user agent
+ */
+export interface RobotsRules {
+  /** Allow/Disallow rules for our user agent */
+  rules: RobotsRule[];
+  /** Crawl-delay in seconds, if specified */
+  crawlDelay?: number;
+  /** Sitemap URLs listed in the file (apply to all agents) */
+  sitemaps: string[];
+}
+
+/**
+ * Cache entry structure
+ */
+interface RobotsCacheEntry {
+  rules: RobotsRules;
+  fetchedAt: number;
+}
+
+/**
+ * Longest Crawl-delay honoured, in seconds; longer delays would stall a crawl
+ * (and its cancellation) for minutes per page
+ */
+export const MAX_CRAWL_DELAY = 10;
+
+/** How long fetched robots.txt rules are reused (1 hour) */
+const ROBOTS_TTL = 60 * 60 * 1000;
+
+/** Maximum number of hosts kept in the cache */
+const MAX_CACHED_HOSTS = 200;
+
+/** Redirects followed when fetching robots.txt (RFC 9309 §2.3.1.2) */
+const MAX_ROBOTS_REDIRECTS = 5;
+
+/** Rules used when robots.txt is missing: everything is allowed */
+const ALLOW_ALL: RobotsRules = { rules: [], sitemaps: [] };
+
+/** Rules used when robots.txt errors on the server side (RFC 9309 §2.3.1.4) */
+const DISALLOW_ALL: RobotsRules = { rules: [{ allow: false, pattern: '/' }], sitemaps: [] };
+
+// =====================================================
+// PARSING
+// =====================================================
+
+/**
+ * Parse robots.txt content and keep the rules for our user agent
+ * Groups naming our product token win over the `*` group, as in RFC 9309
+ *
+ * @param text - Raw robots.txt content
+ * @param userAgent - Product token to match (default: DocMaps-Bot)
+ * @returns Rules that apply to the user agent
+ */
+export function parseRobotsTxt(text: string, userAgent: string = ROBOTS_USER_AGENT): RobotsRules {
+  const agent = productToken(userAgent);
+  const sitemaps: string[] = [];
+
+  const specific: { rules: RobotsRule[]; crawlDelay?: number } = { rules: [] };
+  const wildcard: { rules: RobotsRule[]; crawlDelay?: number } = { rules: [] };
+  let matchesSpecific = false;
+
+  let groupAgents: string[] = [];
+  let inRules = false;
+
+  for (const rawLine of (text || '').split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+
+    if (field === 'user-agent') {
+      // A user-agent line after rules starts a new group
+      if (inRules) {
+        groupAgents = [];
+        inRules = false;
+      }
+      const name = productToken(value);
+      if (name) groupAgents.push(name);
+      continue;
+    }
+
+    if (field !== 'allow' && field !== 'disallow' && field !== 'crawl-delay') continue;
+    inRules = true;
+
+    const targets: Array<{ rules: RobotsRule[]; crawlDelay?: number }> = [];
+    if (groupAgents.some((name) => name !== '*' && name === agent)) {
+      matchesSpecific = true;
+      targets.push(specific);
+    }
+    if (groupAgents.includes('*')) {
+      targets.push(wildcard);
+    }
+
+    for (const target of targets) {
+      if (field === 'crawl-delay') {
+        const delay = parseFloat(value);
+        if (!isNaN(delay) && delay >= 0) target.crawlDelay = delay;
+        if (delay > MAX_CRAWL_DELAY) {
+          console.warn(`[Robots] Crawl-delay of ${delay}s capped at ${MAX_CRAWL_DELAY}s`);
+          target.crawlDelay = MAX_CRAWL_DELAY;
+        }
+      } else if (value) {
+        // An empty Disallow means "allow everything" and adds no rule
+        target.rules.push({ allow: field === 'allow', pattern: value });
+      }
+    }
+  }
+
+  const group = matchesSpecific ? specific : wildcard;
+  return { rules: group.rules, crawlDelay: group.crawlDelay, sitemaps };
+}
+
+/**
+ * Product token of a user agent, lowercased and without its version
+ * e.g. "DocMaps-Bot/1.0 (+https://docmaps.io)" -> "docmaps-bot"
+ */
+function productToken(userAgent: string): string {
+  return userAgent.trim().split(/[\s/]/)[0].toLowerCase();
+}
+
+/**
+ * Check whether a URL path is allowed by robots rules
+ * The longest matching rule wins; Allow wins ties
+ *
+ * @param rules - Parsed robots rules
+ * @param url - Absolute URL or path (with optional query string)
+ * @returns true if crawling the path is allowed
+ */
+export function isAllowedByRobots(rules: RobotsRules, url: string): boolean {
+  let path: string;
+  try {
+    const parsed = new URL(url, 'https://robots.invalid');
+    path = parsed.pathname + parsed.search;
+  } catch {
+    return true;
+  }
+
+  // robots.txt itself is always allowed
+  if (path === '/robots.txt') return true;
+
+  let best: RobotsRule | null = null;
+  for (const rule of rules.rules) {
+    if (!matchesPattern(rule.pattern, path)) continue;
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+
+  return best ? best.allow : true;
+}
+
+function matchesPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const regex = body
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(path);
+}
+
+// =====================================================
+// CACHE
+// =====================================================
+
+/**
+ * Per-origin cache of robots.txt rules with TTL
+ */
+class RobotsCache {
+  private cache: Map<string, RobotsCacheEntry>;
+  private pending: Map<string, Promise<RobotsRules>>;
+
+  constructor() {
+    this.cache = new Map();
+    this.pending = new Map();
+  }
+
+  /**
+   * Get rules for the origin of a URL, fetching robots.txt if needed
+   * Concurrent lookups for the same origin share one request
+   */
+  async get(url: string): Promise<RobotsRules> {
+    const origin = new URL(url).origin;
+    const entry = this.cache.get(origin);
+
+    if (entry && Date.now() - entry.fetchedAt <= ROBOTS_TTL) {
+      return entry.rules;
+    }
+
+    const inFlight = this.pending.get(origin);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const request = fetchRobotsTxt(origin)
+      .then((rules) => {
+        if (this.cache.size >= MAX_CACHED_HOSTS && !this.cache.has(origin)) {
+          // Drop the oldest entry (Map preserves insertion order)
+          const oldest = this.cache.keys().next().value;
+          if (oldest) this.cache.delete(oldest);
+        }
+        this.cache.set(origin, { rules, fetchedAt: Date.now() });
+        return rules;
+      })
+      .finally(() => {
+        this.pending.delete(origin);
+      });
+
+    this.pending.set(origin, request);
+    return request;
+  }
+
+  clear(): void {
+    this.cache.clear();
+    this.pending.clear();
+  }
+}
+
+/**
+ * Fetch and parse robots.txt for an origin
+ * Missing files (4xx) allow everything; server errors (5xx) disallow everything;
+ * network failures allow everything, since the page request will fail on its own
+ */
+async function fetchRobotsTxt(origin: string): Promise<RobotsRules> {
+  try {
+    let robotsUrl = `${origin}/robots.txt`;
+    let response: Response | null = null;
+
+    // Follow redirects manually so every hop gets the same host checks as page fetches
+    for (let hop = 0; hop <= MAX_ROBOTS_REDIRECTS; hop++) {
+      response = await pinnedFetch(robotsUrl, {
+        method: 'GET',
+        headers: {
+          'User-Agent': `${ROBOTS_USER_AGENT}/1.0 (Documentation Parser)`,
+          'Accept': 'text/plain,*/*;q=0.8',
+        },
+        redirect: 'manual',
+        signal: AbortSignal.timeout(5000),
+      });
+
+      const location = response.status >= 300 && response.status < 400
+        ? response.headers.get('location')
+        : null;
+      if (!location) break;
+
+      const next = new URL(location, robotsUrl);
+      const hostCheck = await checkHostSafety(next.hostname);
+      if (next.protocol !== 'https:' || !hostCheck.safe) {
+        // Treat an unsafe redirect like a missing file
+        return ALLOW_ALL;
+      }
+      robotsUrl = next.toString();
+      response = null;
+    }
+
+    if (!response) {
+      return ALLOW_ALL;
+    }
+
+    if (response.status >= 500) {
+      console.log(`[Robots] ${origin}/robots.txt returned ${response.status}, treating site as disallowed`);
+      return DISALLOW_ALL;
+    }
+
+    if (!response.ok) {
+      return ALLOW_ALL;
+    }
+
+    return parseRobotsTxt(await response.text());
+  } catch (error) {
+    console.log(`[Robots] Could not fetch ${origin}/robots.txt:`, error instanceof Error ? error.message : error);
+    return ALLOW_ALL;
+  }
+}
+
+// Singleton cache instance
+const robotsCache = new RobotsCache();
+
+/**
+ * Get robots.txt rules that apply to a URL's origin
+ *
+ * @param url - Any URL on the site
+ * @returns Rules for our user agent
+ */
+export function getRobotsRules(url: string): Promise<RobotsRules> {
+  return robotsCache.get(url);
+}
+
+/**
+ * Check a URL against the site's robots.txt
+ *
+ * @param url - URL to check
+ * @returns Whether fetching is allowed, plus the site's Crawl-delay in seconds
+ */
+export async function checkRobots(url: string): Promise<{ allowed: boolean; crawlDelay?: number }> {
+  const rules = await robotsCache.get(url);
+  return {
+    allowed: isAllowedByRobots(rules, url),
+    crawlDelay: rules.crawlDelay,
+  };
+}
+
+/**
+ * Clear all cached robots.txt rules
+ */
+export function clearRobotsCache(): void {
+  robotsCache.clear();
+}
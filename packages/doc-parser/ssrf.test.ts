@@ -0,0 +1,218 @@
+// Unit tests for SSRF safeguards
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as dns } from 'dns';
+import {
+  isPrivateAddress,
+  configureHostPolicy,
+  isHostPermitted,
+  checkHostSafety,
+  clearDnsCache,
+  pinnedLookup,
+} from './ssrf';
+
+vi.mock('dns', () => ({
+  promises: { lookup: vi.fn() },
+}));
+
+function mockLookup(addresses: string[]) {
+  vi.mocked(dns.lookup).mockResolvedValue(
+    addresses.map((address) => ({ address, family: address.includes(':') ? 6 : 4 })) as any
+  );
+}
+
+/** Run pinnedLookup the way net.connect does */
+function lookup(hostname: string, options: { all?: boolean; family?: number } = {}) {
+  return new Promise<{ error: NodeJS.ErrnoException | null; address: unknown; family?: number }>((resolve) => {
+    pinnedLookup(hostname, options, (error, address, family) => resolve({ error, address, family }));
+  });
+}
+
+describe('isPrivateAddress', () => {
+  it('should block private and loopback IPv4 ranges', () => {
+    expect(isPrivateAddress('10.1.2.3')).toBe(true);
+    expect(isPrivateAddress('172.16.0.1')).toBe(true);
+    expect(isPrivateAddress('172.31.255.255')).toBe(true);
+    expect(isPrivateAddress('192.168.0.10')).toBe(true);
+    expect(isPrivateAddress('127.0.0.1')).toBe(true);
+    expect(isPrivateAddress('127.8.8.8')).toBe(true);
+    expect(isPrivateAddress('0.0.0.0')).toBe(true);
+  });
+
+  it('should block link-local, CGNAT and cloud metadata addresses', () => {
+    expect(isPrivateAddress('169.254.169.254')).toBe(true);
+    expect(isPrivateAddress('100.100.100.200')).toBe(true);
+    expect(isPrivateAddress('192.0.0.192')).toBe(true);
+    expect(isPrivateAddress('fd00:ec2::254')).toBe(true);
+  });
+
+  it('should block private IPv6 ranges', () => {
+    expect(isPrivateAddress('::1')).toBe(true);
+    expect(isPrivateAddress('[::1]')).toBe(true);
+    expect(isPrivateAddress('::')).toBe(true);
+    expect(isPrivateAddress('fe80::1')).toBe(true);
+    expect(isPrivateAddress('fc00::1')).toBe(true);
+    expect(isPrivateAddress('ff02::1')).toBe(true);
+  });
+
+  it('should unwrap IPv4-mapped and NAT64 addresses', () => {
+    expect(isPrivateAddress('::ffff:127.0.0.1')).toBe(true);
+    expect(isPrivateAddress('::ffff:a9fe:a9fe')).toBe(true);
+    expect(isPrivateAddress('64:ff9b::10.0.0.1')).toBe(true);
+    expect(isPrivateAddress('::ffff:8.8.8.8')).toBe(false);
+  });
+
+  it('should allow public addresses', () => {
+    expect(isPrivateAddress('8.8.8.8')).toBe(false);
+    expect(isPrivateAddress('172.32.0.1')).toBe(false);
+    expect(isPrivateAddress('151.101.1.69')).toBe(false);
+    expect(isPrivateAddress('2606:4700::6810:84e5')).toBe(false);
+  });
+
+  it('should treat non-addresses as unsafe', () => {
+    expect(isPrivateAddress('example.com')).toBe(true);
+  });
+});
+
+describe('isHostPermitted', () => {
+  afterEach(() => {
+    configureHostPolicy({});
+  });
+
+  it('should permit every host by default', () => {
+    expect(isHostPermitted('docs.example.com')).toBe(true);
+  });
+
+  it('should block listed hosts and their subdomains', () => {
+    configureHostPolicy({ blockedHosts: ['internal.example.com'] });
+
+    expect(isHostPermitted('internal.example.com')).toBe(false);
+    expect(isHostPermitted('api.internal.example.com')).toBe(false);
+    expect(isHostPermitted('docs.example.com')).toBe(true);
+    expect(isHostPermitted('notinternal.example.com')).toBe(true);
+  });
+
+  it('should only permit allowed hosts when an allow list is set', () => {
+    configureHostPolicy({ allowedHosts: ['*.stripe.com', 'docs.github.com'] });
+
+    expect(isHostPermitted('docs.stripe.com')).toBe(true);
+    expect(isHostPermitted('docs.github.com')).toBe(true);
+    expect(isHostPermitted('github.com')).toBe(false);
+  });
+
+  it('should apply the deny list before the allow list', () => {
+    configureHostPolicy({ allowedHosts: ['example.com'], blockedHosts: ['admin.example.com'] });
+
+    expect(isHostPermitted('docs.example.com')).toBe(true);
+    expect(isHostPermitted('admin.example.com')).toBe(false);
+  });
+});
+
+describe('checkHostSafety', () => {
+  beforeEach(() => {
+    clearDnsCache();
+    vi.mocked(dns.lookup).mockReset();
+  });
+
+  afterEach(() => {
+    configureHostPolicy({});
+  });
+
+  it('should accept hosts that resolve to public addresses', async () => {
+    mockLookup(['93.184.215.14']);
+
+    expect(await checkHostSafety('docs.example.com')).toEqual({ safe: true });
+  });
+
+  it('should reject hosts that resolve to private addresses', async () => {
+    mockLookup(['10.0.0.5']);
+
+    const result = await checkHostSafety('intranet.example.com');
+    expect(result.safe).toBe(false);
+    expect(result.error).toContain('private');
+  });
+
+  it('should reject hosts if any resolved address is private', async () => {
+    mockLookup(['93.184.215.14', '127.0.0.1']);
+
+    expect((await checkHostSafety('rebind.example.com')).safe).toBe(false);
+  });
+
+  it('should reject metadata hostnames without resolving them', async () => {
+    const result = await checkHostSafety('metadata.google.internal');
+
+    expect(result.safe).toBe(false);
+    expect(dns.lookup).not.toHaveBeenCalled();
+  });
+
+  it('should check IP literals directly', async () => {
+    expect((await checkHostSafety('169.254.169.254')).safe).toBe(false);
+    expect((await checkHostSafety('[::1]')).safe).toBe(false);
+    expect((await checkHostSafety('8.8.8.8')).safe).toBe(true);
+    expect(dns.lookup).not.toHaveBeenCalled();
+  });
+
+  it('should reject hosts that cannot be resolved', async () => {
+    vi.mocked(dns.lookup).mockRejectedValue(new Error('getaddrinfo ENOTFOUND'));
+
+    expect((await checkHostSafety('missing.example.com')).safe).toBe(false);
+  });
+
+  it('should reject hosts denied by policy', async () => {
+    configureHostPolicy({ blockedHosts: ['example.com'] });
+
+    const result = await checkHostSafety('docs.example.com');
+    expect(result.safe).toBe(false);
+    expect(result.error).toContain('policy');
+  });
+
+  it('should cache lookups', async () => {
+    mockLookup(['93.184.215.14']);
+
+    await checkHostSafety('docs.example.com');
+    await checkHostSafety('docs.example.com');
+    expect(dns.lookup).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('pinnedLookup', () => {
+  beforeEach(() => {
+    clearDnsCache();
+    vi.mocked(dns.lookup).mockReset();
+  });
+
+  it('should connect to the addresses that passed the check', async () => {
+    mockLookup(['93.184.215.14']);
+
+    await checkHostSafety('docs.example.com');
+    // The record now points inside the network, but the vetted answer is reused
+    mockLookup(['10.0.0.5']);
+
+    expect(await lookup('docs.example.com')).toEqual({ error: null, address: '93.184.215.14', family: 4 });
+    expect(dns.lookup).toHaveBeenCalledTimes(1);
+  });
+
+  it('should vet the addresses it resolves itself', async () => {
+    mockLookup(['10.0.0.5']);
+
+    const result = await lookup('rebind.example.com');
+    expect(result.error?.message).toContain('private');
+  });
+
+  it('should return every address when asked for all', async () => {
+    mockLookup(['93.184.215.14', '2606:2800:21f:cb07:6820:80da:af6b:8b2c']);
+
+    const result = await lookup('docs.example.com', { all: true });
+    expect(result.address).toEqual([
+      { address: '93.184.215.14', family: 4 },
+      { address: '2606:2800:21f:cb07:6820:80da:af6b:8b2c', family: 6 },
+    ]);
+  });
+
+  it('should honour the requested address family', async () => {
+    mockLookup(['93.184.215.14', '2606:2800:21f:cb07:6820:80da:af6b:8b2c']);
+
+    const result = await lookup('docs.example.com', { family: 6 });
+    expect(result.address).toBe('2606:2800:21f:cb07:6820:80da:af6b:8b2c');
+  });
+});
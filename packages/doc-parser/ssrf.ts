@@ -0,0 +1,321 @@
+// SSRF safeguards - host allow/deny policy and resolved address checks
+
+import { promises as dns } from 'dns';
+import type { LookupAddress, LookupOptions } from 'dns';
+import { isIP } from 'net';
+import { Agent } from 'undici';
+import { FETCH_ALLOWED_HOSTS, FETCH_BLOCKED_HOSTS } from '@docmaps/config';
+
+/**
+ * Host allow/deny lists
+ * Entries match the host itself and all of its subdomains
+ */
+export interface HostPolicy {
+  /** If non-empty, only these hosts may be fetched */
+  allowedHosts: string[];
+  /** Hosts that may never be fetched (checked before allowedHosts) */
+  blockedHosts: string[];
+}
+
+/**
+ * DNS cache entry structure
+ */
+interface DnsCacheEntry {
+  addresses: string[];
+  resolvedAt: number;
+}
+
+/** How long resolved addresses are reused (1 minute) */
+const DNS_TTL = 60 * 1000;
+
+/** Cloud metadata endpoints reachable by name */
+const METADATA_HOSTNAMES = [
+  'metadata',
+  'metadata.google.internal',
+  'metadata.goog',
+  'instance-data',
+  'instance-data.ec2.internal',
+];
+
+/** Reserved IPv4 ranges as [network, prefix length] */
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],        // "This" network
+  ['10.0.0.0', 8],       // Private
+  ['100.64.0.0', 10],    // Carrier-grade NAT
+  ['127.0.0.0', 8],      // Loopback
+  ['169.254.0.0', 16],   // Link-local (includes 169.254.169.254 metadata)
+  ['172.16.0.0', 12],    // Private
+  ['192.0.0.0', 24],     // IETF protocol assignments (includes 192.0.0.192 metadata)
+  ['192.0.2.0', 24],     // TEST-NET-1
+  ['192.88.99.0', 24],   // 6to4 relay anycast
+  ['192.168.0.0', 16],   // Private
+  ['198.18.0.0', 15],    // Benchmarking
+  ['198.51.100.0', 24],  // TEST-NET-2
+  ['203.0.113.0', 24],   // TEST-NET-3
+  ['224.0.0.0', 4],      // Multicast
+  ['240.0.0.0', 4],      // Reserved and broadcast
+];
+
+// Every entry point (API routes, jobs, CLI) starts from the deployment's lists
+let hostPolicy: HostPolicy = { allowedHosts: FETCH_ALLOWED_HOSTS, blockedHosts: FETCH_BLOCKED_HOSTS };
+const dnsCache = new Map<string, DnsCacheEntry>();
+
+// =====================================================
+// ADDRESS RANGES
+// =====================================================
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((acc, octet) => acc * 256 + parseInt(octet, 10), 0);
+}
+
+function isBlockedIPv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return BLOCKED_IPV4_RANGES.some(([network, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    const start = ipv4ToNumber(network);
+    return value >= start && value < start + size;
+  });
+}
+
+/**
+ * Expand an IPv6 address into its eight 16-bit groups
+ */
+function parseIPv6(address: string): number[] | null {
+  let text = address.toLowerCase().split('%')[0];
+
+  // Embedded IPv4 tail (e.g. ::ffff:10.0.0.1)
+  const ipv4Tail = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (ipv4Tail) {
+    const value = ipv4ToNumber(ipv4Tail[1]);
+    text = text.slice(0, -ipv4Tail[1].length) +
+      `${Math.floor(value / 65536).toString(16)}:${(value % 65536).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail !== undefined && tail ? tail.split(':') : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+
+  if (text.includes('::') ? missing < 0 : missing !== 0) {
+    return null;
+  }
+
+  const groups = [...headGroups, ...new Array(missing).fill('0'), ...tailGroups].map((g) => parseInt(g, 16));
+  return groups.some((g) => isNaN(g)) ? null : groups;
+}
+
+function isBlockedIPv6(address: string): boolean {
+  const groups = parseIPv6(address);
+  if (!groups) return true;
+
+  const leadingZeros = groups.slice(0, 5).every((g) => g === 0);
+
+  // Unspecified (::) and loopback (::1)
+  if (leadingZeros && groups[5] === 0 && groups[6] === 0 && groups[7] <= 1) return true;
+
+  // IPv4-mapped (::ffff:a.b.c.d) and IPv4-compatible (::a.b.c.d) addresses
+  if (leadingZeros && (groups[5] === 0xffff || groups[5] === 0)) {
+    return isBlockedIPv4(`${groups[6] >> 8}.${groups[6] & 255}.${groups[7] >> 8}.${groups[7] & 255}`);
+  }
+
+  // NAT64 (64:ff9b::/96) wraps an IPv4 address
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((g) => g === 0)) {
+    return isBlockedIPv4(`${groups[6] >> 8}.${groups[6] & 255}.${groups[7] >> 8}.${groups[7] & 255}`);
+  }
+
+  return (
+    (groups[0] & 0xfe00) === 0xfc00 || // Unique local (fc00::/7, includes fd00:ec2::254 metadata)
+    (groups[0] & 0xffc0) === 0xfe80 || // Link-local (fe80::/10)
+    (groups[0] & 0xffc0) === 0xfec0 || // Site-local, deprecated (fec0::/10)
+    (groups[0] & 0xff00) === 0xff00 || // Multicast (ff00::/8)
+    (groups[0] === 0x2001 && groups[1] === 0x0db8) // Documentation (2001:db8::/32)
+  );
+}
+
+/**
+ * Check whether an IP address is private, loopback, link-local, a cloud
+ * metadata endpoint or otherwise not publicly routable
+ *
+ * @param address - IPv4 or IPv6 address (brackets allowed)
+ * @returns true if requests to this address must be blocked
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '');
+  const version = isIP(ip);
+
+  if (version === 4) return isBlockedIPv4(ip);
+  if (version === 6) return isBlockedIPv6(ip);
+
+  // Not an IP address: treat as unsafe rather than guessing
+  return true;
+}
+
+// =====================================================
+// HOST POLICY
+// =====================================================
+
+function matchesHostList(hostname: string, list: string[]): boolean {
+  return list.some((entry) => {
+    const host = entry.trim().toLowerCase().replace(/^\*\./, '');
+    return host !== '' && (hostname === host || hostname.endsWith(`.${host}`));
+  });
+}
+
+/**
+ * Replace the host allow/deny lists
+ *
+ * @param policy - Lists to set (missing lists are cleared)
+ */
+export function configureHostPolicy(policy: Partial<HostPolicy>): void {
+  hostPolicy = {
+    allowedHosts: policy.allowedHosts || [],
+    blockedHosts: policy.blockedHosts || [],
+  };
+}
+
+/**
+ * Check a hostname against the configured allow/deny lists
+ *
+ * @param hostname - Hostname to check
+ * @returns true if the policy permits the host
+ */
+export function isHostPermitted(hostname: string): boolean {
+  const host = hostname.toLowerCase();
+
+  if (matchesHostList(host, hostPolicy.blockedHosts)) {
+    return false;
+  }
+
+  if (hostPolicy.allowedHosts.length > 0) {
+    return matchesHostList(host, hostPolicy.allowedHosts);
+  }
+
+  return true;
+}
+
+// =====================================================
+// RESOLUTION
+// =====================================================
+
+async function resolveHost(hostname: string): Promise<string[]> {
+  const cached = dnsCache.get(hostname);
+  if (cached && Date.now() - cached.resolvedAt <= DNS_TTL) {
+    return cached.addresses;
+  }
+
+  const results = await dns.lookup(hostname, { all: true, verbatim: true });
+  const addresses = results.map((result) => result.address);
+  dnsCache.set(hostname, { addresses, resolvedAt: Date.now() });
+  return addresses;
+}
+
+/**
+ * Resolve a host and vet every address it resolves to
+ */
+async function resolveSafeAddresses(hostname: string): Promise<{ addresses: string[]; error?: undefined } | { error: string }> {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+
+  if (!isHostPermitted(host)) {
+    return { error: 'Host is not permitted by the fetch policy.' };
+  }
+
+  if (METADATA_HOSTNAMES.includes(host)) {
+    return { error: 'URL points to a cloud metadata endpoint.' };
+  }
+
+  if (isIP(host)) {
+    return isPrivateAddress(host)
+      ? { error: 'URL points to a private or reserved IP address.' }
+      : { addresses: [host] };
+  }
+
+  let addresses: string[];
+  try {
+    addresses = await resolveHost(host);
+  } catch {
+    return { error: 'Could not resolve host.' };
+  }
+
+  if (addresses.length === 0) {
+    return { error: 'Could not resolve host.' };
+  }
+
+  if (addresses.some((address) => isPrivateAddress(address))) {
+    return { error: 'Host resolves to a private or reserved IP address.' };
+  }
+
+  return { addresses };
+}
+
+/**
+ * Check that a host is permitted by policy and only resolves to public addresses
+ * Every resolved address must be public, so a record mixing public and private
+ * addresses is rejected
+ *
+ * @param hostname - Hostname or IP literal (IPv6 may be bracketed)
+ * @returns Safety result with success flag and optional error message
+ */
+export async function checkHostSafety(hostname: string): Promise<{ safe: boolean; error?: string }> {
+  const result = await resolveSafeAddresses(hostname);
+  return result.error ? { safe: false, error: result.error } : { safe: true };
+}
+
+type LookupCallback = (
+  error: NodeJS.ErrnoException | null,
+  address: string | LookupAddress[],
+  family?: number
+) => void;
+
+/**
+ * DNS lookup for outgoing connections that only ever returns vetted addresses
+ * The connection uses the same resolution that passed the checks, so a host
+ * cannot switch to a private address between the check and the connect
+ * (DNS rebinding).
+ */
+export function pinnedLookup(hostname: string, options: LookupOptions, callback: LookupCallback): void {
+  resolveSafeAddresses(hostname).then(
+    (result) => {
+      if (result.error !== undefined) {
+        const error: NodeJS.ErrnoException = new Error(result.error);
+        error.code = 'EAI_FAIL';
+        callback(error, []);
+        return;
+      }
+
+      const addresses = result.addresses
+        .map((address) => ({ address, family: isIP(address) }))
+        .filter(({ family }) => !options.family || options.family === family);
+      if (addresses.length === 0) {
+        const error: NodeJS.ErrnoException = new Error('Could not resolve host.');
+        error.code = 'ENOTFOUND';
+        callback(error, []);
+        return;
+      }
+
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    },
+    (error) => callback(error, [])
+  );
+}
+
+const pinnedDispatcher = new Agent({ connect: { lookup: pinnedLookup } });
+
+/**
+ * fetch() that connects through pinnedLookup
+ * Every request the parser makes goes through here.
+ */
+export function pinnedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  // `dispatcher` is undici's extension to RequestInit, missing from the DOM typings
+  return fetch(url, { ...init, dispatcher: pinnedDispatcher } as RequestInit);
+}
+
+/**
+ * Clear cached DNS lookups
+ */
+export function clearDnsCache(): void {
+  dnsCache.clear();
+}
@@ -0,0 +1,233 @@
+// Unit tests for sitemap.xml / llms.txt crawl planning
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseSitemap,
+  parseLlmsTxt,
+  buildUrlTree,
+  normalizePageUrl,
+  humanizeSegment,
+  countTreePages,
+  discoverCrawlPlan,
+} from './crawl-plan';
+import type { FetchResult } from '../types';
+
+const sitemapXml = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>https://docs.example.com/docs</loc></url>
+  <url><loc>https://docs.example.com/docs/billing</loc></url>
+  <url><loc>https://docs.example.com/docs/billing/invoices</loc></url>
+  <url><loc>https://docs.example.com/docs/billing/credit-notes</loc></url>
+  <url><loc>https://docs.example.com/docs/metering/events</loc></url>
+  <url><loc>https://docs.example.com/docs/metering/aggregations</loc></url>
+  <url><loc>https://docs.example.com/blog/launch</loc></url>
+</urlset>`;
+
+const sitemapIndexXml = `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>https://docs.example.com/sitemap-blog.xml</loc></sitemap>
+  <sitemap><loc>https://docs.example.com/sitemap-docs.xml</loc></sitemap>
+</sitemapindex>`;
+
+const llmsTxt = `# Example
+
+> Example is a billing platform.
+
+## Guides
+
+- [Quickstart](https://docs.example.com/quickstart.md): Get going in five minutes
+- [Webhooks](https://docs.example.com/webhooks.md)
+
+## API Reference
+
+- [Create customer](https://docs.example.com/create-customer.md)
+`;
+
+function fakeFetch(files: Record<string, string>) {
+  const requested: string[] = [];
+  const fetchFn = async (url: string): Promise<FetchResult> => {
+    requested.push(url);
+    if (!(url in files)) {
+      throw new Error('Documentation not found (404)');
+    }
+    return { url, html: files[url], contentType: 'text/plain', statusCode: 200 };
+  };
+  return { fetchFn, requested };
+}
+
+describe('parseSitemap', () => {
+  it('should extract page URLs from a urlset', () => {
+    const result = parseSitemap(sitemapXml);
+    expect(result.urls).toHaveLength(7);
+    expect(result.sitemaps).toEqual([]);
+  });
+
+  it('should extract child sitemaps from a sitemap index', () => {
+    const result = parseSitemap(sitemapIndexXml);
+    expect(result.sitemaps).toEqual([
+      'https://docs.example.com/sitemap-blog.xml',
+      'https://docs.example.com/sitemap-docs.xml',
+    ]);
+    expect(result.urls).toEqual([]);
+  });
+
+  it('should handle empty or invalid input', () => {
+    expect(parseSitemap('')).toEqual({ urls: [], sitemaps: [] });
+    expect(parseSitemap('not xml')).toEqual({ urls: [], sitemaps: [] });
+  });
+});
+
+describe('parseLlmsTxt', () => {
+  it('should extract links with titles, descriptions and sections', () => {
+    const entries = parseLlmsTxt(llmsTxt, 'https://docs.example.com/llms.txt');
+
+    expect(entries).toHaveLength(3);
+    expect(entries[0]).toEqual({
+      url: 'https://docs.example.com/quickstart.md',
+      title: 'Quickstart',
+      description: 'Get going in five minutes',
+      section: 'Guides',
+    });
+    expect(entries[2].section).toBe('API Reference');
+  });
+
+  it('should read Source lines from llms-full.txt', () => {
+    const text = '# Authentication\nSource: https://docs.example.com/auth\n\nUse API keys.';
+    const entries = parseLlmsTxt(text, 'https://docs.example.com/llms-full.txt');
+
+    expect(entries).toEqual([{ url: 'https://docs.example.com/auth', title: 'Authentication' }]);
+  });
+
+  it('should resolve relative links', () => {
+    const entries = parseLlmsTxt('- [Auth](/docs/auth)', 'https://docs.example.com/llms.txt');
+    expect(entries[0].url).toBe('https://docs.example.com/docs/auth');
+  });
+});
+
+describe('normalizePageUrl', () => {
+  it('should strip query, hash, trailing slash, index pages and markdown extensions', () => {
+    expect(normalizePageUrl('https://docs.example.com/docs/auth/?tab=1#keys')).toBe('https://docs.example.com/docs/auth');
+    expect(normalizePageUrl('https://docs.example.com/docs/index.html')).toBe('https://docs.example.com/docs');
+    expect(normalizePageUrl('https://docs.example.com/docs/auth.md')).toBe('https://docs.example.com/docs/auth');
+  });
+
+  it('should return null for invalid URLs', () => {
+    expect(normalizePageUrl('not a url')).toBeNull();
+  });
+});
+
+describe('humanizeSegment', () => {
+  it('should turn slugs into labels', () => {
+    expect(humanizeSegment('credit-notes')).toBe('Credit Notes');
+    expect(humanizeSegment('01_getting_started')).toBe('Getting Started');
+  });
+
+  it('should keep segments with a literal percent sign', () => {
+    expect(humanizeSegment('100%-uptime')).toBe('100% Uptime');
+    expect(humanizeSegment('caf%C3%A9-menu')).toBe('Café Menu');
+  });
+});
+
+describe('buildUrlTree', () => {
+  it('should build a tree rooted at the docs path', () => {
+    const entries = parseSitemap(sitemapXml).urls.map(url => ({ url }));
+    const tree = buildUrlTree(entries, 'https://docs.example.com/docs/billing');
+
+    expect(tree.segment).toBe('docs');
+    expect(Array.from(tree.children.keys())).toEqual(['billing', 'metering']);
+    expect(Array.from(tree.children.get('billing')!.children.keys())).toEqual(['invoices', 'credit-notes']);
+    // Intermediate segments without their own page have no URL
+    expect(tree.children.get('metering')!.url).toBeUndefined();
+    expect(countTreePages(tree)).toBe(6);
+  });
+
+  it('should ignore pages on other hosts', () => {
+    const tree = buildUrlTree(
+      [
+        { url: 'https://other.example.com/docs/a' },
+        { url: 'https://docs.example.com/docs/b' },
+      ],
+      'https://docs.example.com/docs'
+    );
+
+    expect(countTreePages(tree)).toBe(1);
+  });
+
+  it('should group flat llms.txt listings by section', () => {
+    const entries = parseLlmsTxt(llmsTxt, 'https://docs.example.com/llms.txt');
+    const tree = buildUrlTree(entries, 'https://docs.example.com');
+
+    expect(Array.from(tree.children.keys())).toEqual(['Guides', 'API Reference']);
+    expect(tree.children.get('Guides')!.children.get('quickstart')!.title).toBe('Quickstart');
+  });
+
+  it('should skip wrapper segments that hold the whole tree', () => {
+    const tree = buildUrlTree(
+      [
+        { url: 'https://example.com/en/guides/a' },
+        { url: 'https://example.com/en/guides/b' },
+        { url: 'https://example.com/en/api/c' },
+      ],
+      'https://example.com'
+    );
+
+    expect(tree.segment).toBe('en');
+    expect(Array.from(tree.children.keys())).toEqual(['guides', 'api']);
+  });
+});
+
+describe('discoverCrawlPlan', () => {
+  it('should follow sitemap indexes, preferring docs sitemaps', async () => {
+    const { fetchFn, requested } = fakeFetch({
+      'https://docs.example.com/sitemap.xml': sitemapIndexXml,
+      'https://docs.example.com/sitemap-docs.xml': sitemapXml,
+      'https://docs.example.com/sitemap-blog.xml': '<urlset></urlset>',
+    });
+
+    const plan = await discoverCrawlPlan(fetchFn, 'https://docs.example.com/docs/billing');
+
+    expect(plan?.source).toBe('sitemap');
+    expect(plan?.pageCount).toBe(6);
+    expect(requested.indexOf('https://docs.example.com/sitemap-docs.xml'))
+      .toBeLessThan(requested.indexOf('https://docs.example.com/sitemap-blog.xml'));
+  });
+
+  it('should combine llms.txt titles with sitemap pages', async () => {
+    const { fetchFn } = fakeFetch({
+      'https://docs.example.com/sitemap.xml': sitemapXml,
+      'https://docs.example.com/llms.txt': '- [Invoices & Receipts](https://docs.example.com/docs/billing/invoices.md)',
+    });
+
+    const plan = await discoverCrawlPlan(fetchFn, 'https://docs.example.com/docs');
+
+    expect(plan?.source).toBe('sitemap+llms.txt');
+    expect(plan?.tree.children.get('billing')!.children.get('invoices')!.title).toBe('Invoices & Receipts');
+  });
+
+  it('should use a sitemap advertised by the start page', async () => {
+    const { fetchFn } = fakeFetch({
+      'https://docs.example.com/static/pages.xml': sitemapXml,
+    });
+
+    const plan = await discoverCrawlPlan(
+      fetchFn,
+      'https://docs.example.com/docs',
+      '<link rel="sitemap" href="/static/pages.xml">'
+    );
+
+    expect(plan?.pageCount).toBe(6);
+  });
+
+  it('should ignore HTML error pages served for llms.txt', async () => {
+    const { fetchFn } = fakeFetch({
+      'https://docs.example.com/llms.txt': '<html><body>- [Fake](/fake)</body></html>',
+    });
+
+    expect(await discoverCrawlPlan(fetchFn, 'https://docs.example.com/docs')).toBeNull();
+  });
+
+  it('should return null when no listing exists', async () => {
+    const { fetchFn } = fakeFetch({});
+    expect(await discoverCrawlPlan(fetchFn, 'https://docs.example.com/docs')).toBeNull();
+  });
+});
@@ -0,0 +1,436 @@
+// Crawl planning from sitemap.xml and llms.txt
+// Builds a URL tree from machine-readable page listings so deep crawl
+// does not depend on links rendered by JS navigation menus
+
+import * as cheerio from 'cheerio';
+import type { FetchResult } from '../types';
+
+/**
+ * A page listed by a sitemap or llms.txt file
+ */
+export interface PlanEntry {
+  /** Absolute page URL (normalized) */
+  url: string;
+  /** Page title, when the listing provides one (llms.txt) */
+  title?: string;
+  /** Short description, when the listing provides one (llms.txt) */
+  description?: string;
+  /** Section heading the entry is listed under (llms.txt) */
+  section?: string;
+}
+
+/**
+ * Node in the URL tree built from path segments
+ */
+export interface UrlTreeNode {
+  /** Path segment this node represents ('' for the root) */
+  segment: string;
+  /** Page URL, if a page exists at exactly this path */
+  url?: string;
+  /** Page title from the listing, if known */
+  title?: string;
+  /** Page description from the listing, if known */
+  description?: string;
+  /** Child nodes keyed by segment, in listing order */
+  children: Map<string, UrlTreeNode>;
+}
+
+/**
+ * Crawl plan discovered for a documentation site
+ */
+export interface CrawlPlan {
+  /** Where the page listing came from */
+  source: 'sitemap' | 'llms.txt' | 'sitemap+llms.txt';
+  /** Root of the URL tree (the documentation root path) */
+  tree: UrlTreeNode;
+  /** Number of pages in the plan */
+  pageCount: number;
+}
+
+/** Maximum child sitemaps followed from a sitemap index */
+const MAX_CHILD_SITEMAPS = 5;
+
+/** Maximum entries kept from all listings combined */
+const MAX_PLAN_ENTRIES = 5000;
+
+/** Minimum entries under the docs root before widening it */
+const MIN_ROOT_ENTRIES = 5;
+
+// =====================================================
+// PARSING
+// =====================================================
+
+/**
+ * Parse a sitemap or sitemap index document
+ * @param xml - Raw sitemap XML
+ * @returns Page URLs and child sitemap URLs
+ */
+export function parseSitemap(xml: string): { urls: string[]; sitemaps: string[] } {
+  const urls: string[] = [];
+  const sitemaps: string[] = [];
+
+  if (!xml || !xml.includes('<')) {
+    return { urls, sitemaps };
+  }
+
+  const $ = cheerio.load(xml, { xmlMode: true });
+
+  $('sitemap > loc').each((_, elem) => {
+    const loc = $(elem).text().trim();
+    if (loc) sitemaps.push(loc);
+  });
+
+  $('url > loc').each((_, elem) => {
+    const loc = $(elem).text().trim();
+    if (loc) urls.push(loc);
+  });
+
+  return { urls, sitemaps };
+}
+
+/**
+ * Parse an llms.txt (or llms-full.txt) file
+ * Reads markdown links from list items, grouped by their `##` section heading,
+ * plus `Source: <url>` lines used by llms-full.txt exports
+ *
+ * @param text - Raw llms.txt content
+ * @param baseUrl - URL the file was fetched from (for relative links)
+ * @returns Listed pages
+ */
+export function parseLlmsTxt(text: string, baseUrl: string): PlanEntry[] {
+  const entries: PlanEntry[] = [];
+  if (!text) {
+    return entries;
+  }
+
+  let section: string | undefined;
+  let lastHeading: string | undefined;
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+
+    const sectionMatch = line.match(/^##\s+(.+)$/);
+    if (sectionMatch) {
+      section = sectionMatch[1].trim();
+      lastHeading = section;
+      continue;
+    }
+
+    const headingMatch = line.match(/^#{1,6}\s+(.+)$/);
+    if (headingMatch) {
+      lastHeading = headingMatch[1].trim();
+      continue;
+    }
+
+    // - [Title](https://example.com/page): optional description
+    const linkMatch = line.match(/^[-*]\s*\[([^\]]+)\]\(([^)\s]+)\)(?::\s*(.*))?$/);
+    if (linkMatch) {
+      const url = resolveUrl(linkMatch[2], baseUrl);
+      if (url) {
+        entries.push({
+          url,
+          title: linkMatch[1].trim(),
+          description: linkMatch[3]?.trim() || undefined,
+          section,
+        });
+      }
+      continue;
+    }
+
+    // llms-full.txt: "# Page title" followed by "Source: https://..."
+    const sourceMatch = line.match(/^Source:\s*(\S+)$/i);
+    if (sourceMatch) {
+      const url = resolveUrl(sourceMatch[1], baseUrl);
+      if (url) {
+        entries.push({ url, title: lastHeading });
+      }
+    }
+  }
+
+  return entries;
+}
+
+// =====================================================
+// URL TREE
+// =====================================================
+
+/**
+ * Normalize a page URL for comparison and tree building
+ * Drops query/hash, trailing slashes, index pages and markdown extensions
+ * (llms.txt often links the .md rendition of a page)
+ */
+export function normalizePageUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    parsed.search = '';
+    parsed.pathname = parsed.pathname
+      .replace(/\/index(\.html?|\.mdx?)?$/i, '')
+      .replace(/\.(html?|mdx?)$/i, '')
+      .replace(/\/+$/, '');
+    return parsed.toString().replace(/\/$/, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build a URL tree from listed pages, rooted at the documentation root
+ * The root starts at the start URL's path and widens one segment at a time
+ * until enough listed pages fall under it
+ *
+ * @param entries - Listed pages
+ * @param startUrl - Documentation start URL
+ * @returns Root of the URL tree
+ */
+export function buildUrlTree(entries: PlanEntry[], startUrl: string): UrlTreeNode {
+  const start = new URL(startUrl);
+  const root: UrlTreeNode = { segment: '', children: new Map() };
+
+  // Keep same-host pages only, deduplicated after normalization
+  const pages = new Map<string, PlanEntry>();
+  for (const entry of entries) {
+    const normalized = normalizePageUrl(entry.url);
+    if (!normalized) continue;
+    if (new URL(normalized).hostname !== start.hostname) continue;
+
+    const existing = pages.get(normalized);
+    pages.set(normalized, {
+      ...existing,
+      ...entry,
+      url: normalized,
+      title: entry.title || existing?.title,
+      description: entry.description || existing?.description,
+      section: entry.section || existing?.section,
+    });
+  }
+
+  const pathSegments = (url: string) => new URL(url).pathname.split('/').filter(Boolean);
+
+  // Find the docs root: widen from the start path until enough pages fall under it
+  let rootSegments = pathSegments(normalizePageUrl(startUrl) || startUrl);
+  const isUnder = (segments: string[]) =>
+    rootSegments.every((segment, index) => segments[index] === segment);
+
+  while (rootSegments.length > 0) {
+    let count = 0;
+    for (const url of pages.keys()) {
+      if (isUnder(pathSegments(url))) count++;
+    }
+    if (count >= MIN_ROOT_ENTRIES) break;
+    rootSegments = rootSegments.slice(0, -1);
+  }
+
+  root.segment = rootSegments[rootSegments.length - 1] || '';
+
+  for (const page of pages.values()) {
+    const segments = pathSegments(page.url);
+    if (!isUnder(segments)) continue;
+
+    const relative = segments.slice(rootSegments.length);
+    let current = root;
+    for (const segment of relative) {
+      let child = current.children.get(segment);
+      if (!child) {
+        child = { segment, children: new Map() };
+        current.children.set(segment, child);
+      }
+      current = child;
+    }
+
+    current.url = page.url;
+    current.title = page.title;
+    current.description = page.description;
+  }
+
+  // Flat listings carry no hierarchy in their paths; use llms.txt sections instead
+  const allLeaves = Array.from(root.children.values()).every((child) => child.children.size === 0);
+  const hasSections = Array.from(pages.values()).some((page) => page.section);
+  if (allLeaves && hasSections && root.children.size > 0) {
+    return groupBySection(root, pages);
+  }
+
+  return collapseSingleChildChain(root);
+}
+
+/**
+ * Regroup a flat tree under llms.txt section headings
+ */
+function groupBySection(root: UrlTreeNode, pages: Map<string, PlanEntry>): UrlTreeNode {
+  const grouped: UrlTreeNode = { ...root, children: new Map() };
+
+  for (const child of root.children.values()) {
+    const section = (child.url && pages.get(child.url)?.section) || 'Other';
+    let sectionNode = grouped.children.get(section);
+    if (!sectionNode) {
+      sectionNode = { segment: section, title: section, children: new Map() };
+      grouped.children.set(section, sectionNode);
+    }
+    sectionNode.children.set(child.segment, child);
+  }
+
+  return grouped;
+}
+
+/**
+ * Skip wrapper segments such as /en/ or /docs/ that hold the whole tree
+ */
+function collapseSingleChildChain(root: UrlTreeNode): UrlTreeNode {
+  let current = root;
+  while (current.children.size === 1 && !current.url) {
+    const [onlyChild] = current.children.values();
+    if (onlyChild.children.size === 0) break;
+    current = onlyChild;
+  }
+  return current;
+}
+
+/**
+ * Count pages (nodes with a URL) in a URL tree
+ */
+export function countTreePages(node: UrlTreeNode): number {
+  let count = node.url ? 1 : 0;
+  for (const child of node.children.values()) {
+    count += countTreePages(child);
+  }
+  return count;
+}
+
+/**
+ * Turn a URL path segment or file name into a display label
+ * Segments that are not valid percent-encoding ("100%-uptime") are used as they are
+ * @example humanizeSegment('getting-started') // 'Getting Started'
+ */
+export function humanizeSegment(segment: string): string {
+  let decoded = segment;
+  try {
+    decoded = decodeURIComponent(segment);
+  } catch {
+    // Not percent-encoded, e.g. a file name with a literal %
+  }
+
+  return decoded
+    .replace(/\.[a-z0-9]+$/i, '')
+    .replace(/^\d+[-_.]\s*/, '')
+    .replace(/[-_]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/\b([a-z])/g, (char) => char.toUpperCase());
+}
+
+// =====================================================
+// DISCOVERY
+// =====================================================
+
+/**
+ * Discover a crawl plan from the site's sitemap.xml and llms.txt files
+ * Fetch failures are expected (most sites lack one or the other) and are ignored
+ *
+ * @param fetchFn - Function to fetch raw files (no JS rendering needed)
+ * @param startUrl - Documentation start URL
+ * @param startHtml - HTML of the start page, checked for <link rel="sitemap">
+ * @param inScope - Keeps only the listed pages it accepts (e.g. one version of versioned docs)
+ * @returns Crawl plan, or null if no usable listing was found
+ */
+export async function discoverCrawlPlan(
+  fetchFn: (url: string) => Promise<FetchResult>,
+  startUrl: string,
+  startHtml?: string,
+  inScope: (url: string) => boolean = () => true
+): Promise<CrawlPlan | null> {
+  const { origin, pathname } = new URL(startUrl);
+  const firstSegment = pathname.split('/').filter(Boolean)[0];
+
+  const tryFetch = async (url: string): Promise<string | null> => {
+    try {
+      const result = await fetchFn(url);
+      return result.statusCode === 200 ? result.html : null;
+    } catch {
+      return null;
+    }
+  };
+
+  // llms.txt first: it carries page titles and sections
+  const llmsEntries: PlanEntry[] = [];
+  const llmsCandidates = [
+    `${origin}/llms.txt`,
+    ...(firstSegment ? [`${origin}/${firstSegment}/llms.txt`] : []),
+    `${origin}/llms-full.txt`,
+  ];
+  for (const candidate of llmsCandidates) {
+    const text = await tryFetch(candidate);
+    // Guard against HTML error pages served with status 200
+    if (!text || text.trimStart().startsWith('<')) continue;
+
+    const entries = parseLlmsTxt(text, candidate);
+    if (entries.length > 0) {
+      console.log(`[CrawlPlan] Found ${entries.length} pages in ${candidate}`);
+      llmsEntries.push(...entries);
+      break;
+    }
+  }
+
+  // Sitemap: advertised link, then conventional locations
+  const sitemapEntries: PlanEntry[] = [];
+  const sitemapCandidates: string[] = [];
+  if (startHtml) {
+    const advertised = cheerio.load(startHtml)('link[rel="sitemap"]').attr('href');
+    const resolved = advertised ? resolveUrl(advertised, startUrl) : null;
+    if (resolved) sitemapCandidates.push(resolved);
+  }
+  if (firstSegment) sitemapCandidates.push(`${origin}/${firstSegment}/sitemap.xml`);
+  sitemapCandidates.push(`${origin}/sitemap.xml`, `${origin}/sitemap_index.xml`);
+
+  for (const candidate of Array.from(new Set(sitemapCandidates))) {
+    const xml = await tryFetch(candidate);
+    if (!xml) continue;
+
+    const { urls, sitemaps } = parseSitemap(xml);
+    urls.forEach((url) => sitemapEntries.push({ url }));
+
+    // Sitemap index: prefer child sitemaps that look documentation-related
+    const isDocsSitemap = (url: string) => /doc/i.test(url.replace(/^https?:\/\/[^/]+/, ''));
+    const children = [...sitemaps].sort((a, b) => Number(isDocsSitemap(b)) - Number(isDocsSitemap(a)));
+    for (const child of children.slice(0, MAX_CHILD_SITEMAPS)) {
+      const childXml = await tryFetch(child);
+      if (!childXml) continue;
+      parseSitemap(childXml).urls.forEach((url) => sitemapEntries.push({ url }));
+      if (sitemapEntries.length >= MAX_PLAN_ENTRIES) break;
+    }
+
+    if (sitemapEntries.length > 0) {
+      console.log(`[CrawlPlan] Found ${sitemapEntries.length} pages in ${candidate}`);
+      break;
+    }
+  }
+
+  if (llmsEntries.length === 0 && sitemapEntries.length === 0) {
+    return null;
+  }
+
+  // Sitemap entries come first so their ordering wins; llms.txt fills in titles
+  const entries = [...sitemapEntries, ...llmsEntries].filter((entry) => inScope(entry.url)).slice(0, MAX_PLAN_ENTRIES);
+  const tree = buildUrlTree(entries, startUrl);
+  const pageCount = countTreePages(tree);
+
+  if (tree.children.size === 0) {
+    return null;
+  }
+
+  const source: CrawlPlan['source'] =
+    sitemapEntries.length > 0 && llmsEntries.length > 0
+      ? 'sitemap+llms.txt'
+      : sitemapEntries.length > 0
+        ? 'sitemap'
+        : 'llms.txt';
+
+  return { source, tree, pageCount };
+}
+
+function resolveUrl(href: string, baseUrl: string): string | null {
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return null;
+  }
+}
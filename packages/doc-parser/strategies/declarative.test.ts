@@ -0,0 +1,159 @@
+// Unit tests for declarative template strategy
+
+import { describe, it, expect } from 'vitest';
+import { DeclarativeTemplateStrategy, parseTemplateDefinition } from './declarative';
+
+const portalDefinition = {
+  name: 'acme-portal',
+  urlPattern: '^https://docs\\.internal\\.acme\\.com/',
+  fingerprint: '#portal-nav',
+  selectors: {
+    sidebar: '#portal-nav',
+    sectionHeading: '.nav-section-title',
+    itemLink: 'a.nav-link',
+    siteTitle: '.portal-brand',
+  },
+};
+
+const portalHtml = `
+  <html>
+    <body>
+      <header><span class="portal-brand">Acme Engineering</span></header>
+      <nav id="portal-nav">
+        <a class="nav-link" href="/start">Start Here</a>
+        <div class="nav-section">
+          <div class="nav-section-title">Platform</div>
+          <a class="nav-link" href="/platform/deploys">Deploys</a>
+          <a class="nav-link" href="/platform/feature-flags">Feature Flags</a>
+        </div>
+        <div class="nav-section">
+          <div class="nav-section-title"><a class="nav-link" href="/data">Data</a></div>
+          <a class="nav-link" href="/data/warehouse">Warehouse</a>
+        </div>
+      </nav>
+    </body>
+  </html>
+`;
+
+describe('parseTemplateDefinition', () => {
+  it('should accept a JSON string', () => {
+    const definition = parseTemplateDefinition(JSON.stringify(portalDefinition));
+    expect(definition.name).toBe('acme-portal');
+    expect(definition.selectors.itemLink).toBe('a.nav-link');
+  });
+
+  it('should reject invalid JSON', () => {
+    expect(() => parseTemplateDefinition('{ name: ')).toThrow('not valid JSON');
+  });
+
+  it('should require a name', () => {
+    expect(() => parseTemplateDefinition({ ...portalDefinition, name: '' })).toThrow('"name"');
+    expect(() => parseTemplateDefinition({ ...portalDefinition, name: 'has spaces' })).toThrow('"name"');
+  });
+
+  it('should require a way to match pages', () => {
+    const { name, selectors } = portalDefinition;
+    expect(() => parseTemplateDefinition({ name, selectors })).toThrow('urlPattern');
+  });
+
+  it('should reject invalid regular expressions', () => {
+    expect(() => parseTemplateDefinition({ ...portalDefinition, urlPattern: '([' })).toThrow('invalid "urlPattern"');
+  });
+
+  it('should require sidebar and item link selectors', () => {
+    expect(() => parseTemplateDefinition({
+      ...portalDefinition,
+      selectors: { sidebar: '#portal-nav' } as any,
+    })).toThrow('selectors.itemLink');
+  });
+
+  it('should reject selectors that cannot be parsed', () => {
+    expect(() => parseTemplateDefinition({
+      ...portalDefinition,
+      selectors: { ...portalDefinition.selectors, sidebar: 'nav[' },
+    })).toThrow('invalid selector');
+  });
+
+  it('should reject confidence outside 0-1', () => {
+    expect(() => parseTemplateDefinition({ ...portalDefinition, confidence: 2 })).toThrow('confidence');
+  });
+});
+
+describe('DeclarativeTemplateStrategy', () => {
+  const strategy = new DeclarativeTemplateStrategy(portalDefinition);
+
+  describe('canHandle', () => {
+    it('should match by URL pattern', () => {
+      expect(strategy.canHandle('', 'https://docs.internal.acme.com/start')).toBe(true);
+      expect(strategy.canHandle('', 'https://docs.example.com')).toBe(false);
+    });
+
+    it('should match by fingerprint on other hosts', () => {
+      expect(strategy.canHandle('<nav id="portal-nav"></nav>', 'https://mirror.acme.dev/')).toBe(true);
+    });
+
+    it('should match by generator meta tag', () => {
+      const byGenerator = new DeclarativeTemplateStrategy({
+        name: 'handbook',
+        generator: '^Handbook Builder',
+        selectors: { sidebar: 'nav', itemLink: 'a' },
+      });
+
+      expect(byGenerator.canHandle('<meta name="generator" content="Handbook Builder 2.0">', 'https://x.dev')).toBe(true);
+      expect(byGenerator.canHandle('<meta name="generator" content="Hugo">', 'https://x.dev')).toBe(false);
+    });
+  });
+
+  describe('parse', () => {
+    it('should group item links under the preceding section heading', async () => {
+      const result = await strategy.parse(portalHtml, 'https://docs.internal.acme.com/start');
+
+      expect(result.metadata.strategy).toBe('acme-portal');
+      expect(result.metadata.confidence).toBe(0.85);
+      expect(result.nodes.find(n => n.type === 'product')?.data.label).toBe('Acme Engineering');
+
+      const features = result.nodes.filter(n => n.type === 'feature').map(n => n.data.label);
+      expect(features).toEqual(['Start Here', 'Platform', 'Data']);
+
+      const platform = result.nodes.find(n => n.data.label === 'Platform');
+      const flags = result.nodes.find(n => n.data.label === 'Feature Flags');
+      expect(result.edges.some(e => e.source === platform?.id && e.target === flags?.id)).toBe(true);
+    });
+
+    it('should not duplicate links inside section headings', async () => {
+      const result = await strategy.parse(portalHtml, 'https://docs.internal.acme.com/start');
+
+      const data = result.nodes.filter(n => n.data.label === 'Data');
+      expect(data).toHaveLength(1);
+      expect(data[0].data.docUrl).toBe('https://docs.internal.acme.com/data');
+    });
+
+    it('should read nested lists when no section heading is given', async () => {
+      const nested = new DeclarativeTemplateStrategy({
+        name: 'wiki',
+        fingerprint: '.wiki-tree',
+        selectors: { sidebar: '.wiki-tree', itemLink: 'a' },
+      });
+
+      const result = await nested.parse(`
+        <ul class="wiki-tree">
+          <li><a href="/ops">Operations</a>
+            <ul><li><a href="/ops/oncall">On-call</a></li></ul>
+          </li>
+        </ul>
+      `, 'https://wiki.acme.dev/');
+
+      const ops = result.nodes.find(n => n.data.label === 'Operations');
+      const oncall = result.nodes.find(n => n.data.label === 'On-call');
+      expect(ops?.type).toBe('feature');
+      expect(oncall?.type).toBe('component');
+    });
+
+    it('should report low confidence when the sidebar is missing', async () => {
+      const result = await strategy.parse('<main>Nothing</main>', 'https://docs.internal.acme.com/');
+
+      expect(result.metadata.confidence).toBeLessThan(0.3);
+      expect(result.metadata.warnings.length).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,236 @@
+// Declarative template strategy - platform templates defined as JSON
+
+import * as cheerio from 'cheerio';
+import { BaseStrategy } from './base';
+import type { ParseResult } from '../types';
+import { sanitizeText } from '../utils';
+import { readSidebarTree, extractSiteName, buildSidebarHierarchy } from './sidebar-tree';
+import type { SidebarItem } from './sidebar-tree';
+
+/**
+ * JSON-serializable template definition
+ *
+ * @example
+ * {
+ *   "name": "acme-portal",
+ *   "urlPattern": "^https://docs\\.internal\\.acme\\.com/",
+ *   "selectors": {
+ *     "sidebar": "#portal-nav",
+ *     "sectionHeading": ".nav-section-title",
+ *     "itemLink": "a.nav-link"
+ *   }
+ * }
+ */
+export interface TemplateDefinition {
+  /** Strategy name, reported in metadata.strategy */
+  name: string;
+  /** Regular expression source matched against the page URL */
+  urlPattern?: string;
+  /** Regular expression source matched against <meta name="generator"> */
+  generator?: string;
+  /** Selector that only exists on pages of this platform */
+  fingerprint?: string;
+  selectors: {
+    /** Sidebar/navigation container */
+    sidebar: string;
+    /** Section headings inside the sidebar; become features */
+    sectionHeading?: string;
+    /** Page links inside the sidebar; become components under the preceding heading */
+    itemLink: string;
+    /** Element holding the site name (defaults to og:site_name or <title>) */
+    siteTitle?: string;
+  };
+  /** Confidence reported for successful parses (default: 0.85) */
+  confidence?: number;
+}
+
+const DEFAULT_CONFIDENCE = 0.85;
+
+/**
+ * Validate a template definition given as an object or JSON string
+ *
+ * @param input - Definition object or JSON text
+ * @returns Validated definition
+ * @throws Error describing the first invalid field
+ */
+export function parseTemplateDefinition(input: TemplateDefinition | string): TemplateDefinition {
+  let definition: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      definition = JSON.parse(input);
+    } catch (error) {
+      throw new Error(`Template definition is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (!definition || typeof definition !== 'object' || Array.isArray(definition)) {
+    throw new Error('Template definition must be an object');
+  }
+
+  const { name, urlPattern, generator, fingerprint, selectors, confidence } = definition as Partial<TemplateDefinition>;
+
+  if (typeof name !== 'string' || !/^[a-z0-9][a-z0-9-]*$/i.test(name)) {
+    throw new Error('Template definition needs a "name" of letters, digits and hyphens');
+  }
+
+  if (!urlPattern && !generator && !fingerprint) {
+    throw new Error(`Template "${name}" needs at least one of "urlPattern", "generator" or "fingerprint"`);
+  }
+
+  for (const [field, pattern] of [['urlPattern', urlPattern], ['generator', generator]] as const) {
+    if (pattern === undefined) continue;
+    try {
+      if (typeof pattern !== 'string') throw new Error('expected a string');
+      new RegExp(pattern);
+    } catch (error) {
+      throw new Error(`Template "${name}" has an invalid "${field}": ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (!selectors || typeof selectors !== 'object') {
+    throw new Error(`Template "${name}" needs a "selectors" object`);
+  }
+
+  for (const field of ['sidebar', 'itemLink'] as const) {
+    if (typeof selectors[field] !== 'string' || !selectors[field].trim()) {
+      throw new Error(`Template "${name}" needs a "selectors.${field}" selector`);
+    }
+  }
+
+  // Reject selectors cheerio cannot parse now rather than on every page
+  const probe = cheerio.load('');
+  for (const [field, selector] of Object.entries({ ...selectors, fingerprint })) {
+    if (selector === undefined) continue;
+    try {
+      probe(selector as string);
+    } catch {
+      throw new Error(`Template "${name}" has an invalid selector in "${field}"`);
+    }
+  }
+
+  if (confidence !== undefined && (typeof confidence !== 'number' || confidence < 0 || confidence > 1)) {
+    throw new Error(`Template "${name}" has a "confidence" outside 0-1`);
+  }
+
+  return { name, urlPattern, generator, fingerprint, selectors, confidence };
+}
+
+/**
+ * Strategy built from a declarative template definition
+ * Matches by URL pattern, generator meta tag or DOM fingerprint, then reads
+ * section headings and item links from the sidebar
+ */
+export class DeclarativeTemplateStrategy extends BaseStrategy {
+  readonly name: string;
+  private readonly definition: TemplateDefinition;
+  private readonly urlPattern: RegExp | null;
+  private readonly generator: RegExp | null;
+
+  constructor(input: TemplateDefinition | string) {
+    super();
+    this.definition = parseTemplateDefinition(input);
+    this.name = this.definition.name;
+    this.urlPattern = this.definition.urlPattern ? new RegExp(this.definition.urlPattern, 'i') : null;
+    this.generator = this.definition.generator ? new RegExp(this.definition.generator, 'i') : null;
+  }
+
+  canHandle(html: string, url: string): boolean {
+    if (this.urlPattern && this.urlPattern.test(url)) {
+      return true;
+    }
+
+    if (!html || (!this.generator && !this.definition.fingerprint)) {
+      return false;
+    }
+
+    const doc = cheerio.load(html);
+    if (this.generator) {
+      const generator = doc('meta[name="generator"]').attr('content') || '';
+      if (generator && this.generator.test(generator)) {
+        return true;
+      }
+    }
+
+    return !!this.definition.fingerprint && doc(this.definition.fingerprint).length > 0;
+  }
+
+  async parse(html: string, url: string): Promise<ParseResult> {
+    const doc = cheerio.load(html);
+    const { selectors } = this.definition;
+    const warnings: string[] = [];
+
+    const items = this.readSidebar(doc);
+    const siteName = extractSiteName(doc, url, selectors.siteTitle);
+    const { nodes, edges } = buildSidebarHierarchy(items, siteName, url, selectors.sidebar);
+
+    const foundEntries = nodes.length > 1;
+    if (!foundEntries) {
+      warnings.push(`No sidebar entries found using template "${this.name}"`);
+    }
+
+    return {
+      nodes,
+      edges,
+      metadata: {
+        source_url: url,
+        generated_at: new Date().toISOString(),
+        strategy: this.name,
+        confidence: foundEntries ? this.confidence() : 0.2,
+        warnings,
+        stats: {
+          nodes_extracted: nodes.length,
+          nodes_final: nodes.length,
+          edges_extracted: edges.length,
+          nodes_deduplicated: 0,
+          nodes_filtered: 0,
+          duration_ms: 0,
+        },
+      },
+    };
+  }
+
+  confidence(): number {
+    return this.definition.confidence ?? DEFAULT_CONFIDENCE;
+  }
+
+  /**
+   * With section headings: walk headings and links in document order, so each
+   * link belongs to the closest heading before it. Without: read nested lists.
+   */
+  private readSidebar(doc: cheerio.CheerioAPI): SidebarItem[] {
+    const { sidebar, sectionHeading, itemLink } = this.definition.selectors;
+
+    if (!sectionHeading) {
+      return readSidebarTree(doc, { root: sidebar, label: itemLink });
+    }
+
+    const root = doc(sidebar).first();
+    const items: SidebarItem[] = [];
+    let section: SidebarItem | null = null;
+
+    root.find(`${sectionHeading}, ${itemLink}`).each((_, el) => {
+      const $el = doc(el);
+      const label = sanitizeText($el.text());
+      if (!label) return;
+
+      if ($el.is(sectionHeading)) {
+        const link = $el.is('a') ? $el : $el.find('a').first();
+        section = { label, href: link.attr('href'), children: [] };
+        items.push(section);
+        return;
+      }
+
+      // Links inside a heading are the heading's own link
+      if ($el.parents(sectionHeading).length > 0) return;
+
+      const item: SidebarItem = { label, href: $el.attr('href'), children: [] };
+      if (section) {
+        section.children.push(item);
+      } else {
+        items.push(item);
+      }
+    });
+
+    return items;
+  }
+}
@@ -0,0 +1,401 @@
+// Unit tests for deep crawl strategy
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { deepCrawl } from './deep-crawl';
+import { clearRobotsCache } from '../robots';
+import { configureRateLimiter, resetRateLimiter } from '../rate-limiter';
+import { clearCache, setCached } from '../cache';
+import type { FetchResult } from '../types';
+
+const startHtml = `
+  <html>
+    <head><title>Acme Docs</title></head>
+    <body>
+      <a href="/docs/api-reference">API Reference</a>
+      <a href="/docs/integration-guide">Integration Guide</a>
+    </body>
+  </html>
+`;
+
+const sitemapXml = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>https://docs.acme.com/docs/billing</loc></url>
+  <url><loc>https://docs.acme.com/docs/billing/overview</loc></url>
+  <url><loc>https://docs.acme.com/docs/billing/invoices</loc></url>
+  <url><loc>https://docs.acme.com/docs/billing/credit-notes</loc></url>
+  <url><loc>https://docs.acme.com/docs/metering/events</loc></url>
+  <url><loc>https://docs.acme.com/docs/metering/aggregations</loc></url>
+  <url><loc>https://docs.acme.com/docs/webhooks</loc></url>
+</urlset>`;
+
+function fakeFetch(files: Record<string, string>) {
+  return async (url: string): Promise<FetchResult> => {
+    if (!(url in files)) {
+      throw new Error('Documentation not found (404)');
+    }
+    return { url, html: files[url], contentType: 'text/html', statusCode: 200 };
+  };
+}
+
+describe('deepCrawl', () => {
+  it('should build the hierarchy from the sitemap when one exists', async () => {
+    const fetchFn = fakeFetch({
+      'https://docs.acme.com/docs': startHtml,
+      'https://docs.acme.com/sitemap.xml': sitemapXml,
+      'https://docs.acme.com/docs/billing': '<h1>Billing &amp; Invoicing</h1>',
+      'https://docs.acme.com/docs/webhooks': '<h1>Webhooks</h1><h2>Verifying signatures</h2><h2>Retry schedule</h2>',
+    });
+
+    const result = await deepCrawl(fetchFn, 'https://docs.acme.com/docs', 5, { polite: false });
+
+    expect(result.planSource).toBe('sitemap');
+
+    const features = result.nodes.filter(n => n.type === 'feature').map(n => n.data.label);
+    expect(features).toEqual(['Billing & Invoicing', 'Metering', 'Webhooks']);
+
+    const components = result.nodes.filter(n => n.type === 'component').map(n => n.data.label);
+    // Generic pages are skipped, leaf features get headings from their page
+    expect(components).toEqual([
+      'Invoices',
+      'Credit Notes',
+      'Events',
+      'Aggregations',
+      'Verifying signatures',
+      'Retry schedule',
+    ]);
+
+    const billing = result.nodes.find(n => n.data.label === 'Billing & Invoicing')!;
+    const invoices = result.nodes.find(n => n.data.label === 'Invoices')!;
+    expect(invoices.data.docUrl).toBe('https://docs.acme.com/docs/billing/invoices');
+    expect(result.edges.some(e => e.source === billing.id && e.target === invoices.id)).toBe(true);
+    expect(result.pagesCrawled).toBe(3);
+  });
+
+  it('should turn links between crawled pages into edges', async () => {
+    const fetchFn = fakeFetch({
+      'https://docs.acme.com/docs': startHtml,
+      'https://docs.acme.com/sitemap.xml': sitemapXml,
+      'https://docs.acme.com/docs/billing': `
+        <nav><a href="/docs/webhooks">Webhooks</a></nav>
+        <main><h1>Billing</h1><p>Billing requires <a href="/docs/metering/events">usage events</a>.</p></main>`,
+      'https://docs.acme.com/docs/webhooks': `
+        <main><h1>Webhooks</h1><p>Webhooks fire when <a href="/docs/billing/invoices">invoices</a> are finalized.</p></main>`,
+    });
+
+    const result = await deepCrawl(fetchFn, 'https://docs.acme.com/docs', 5, { polite: false });
+    const id = (label: string) => result.nodes.find(n => n.data.label === label)!.id;
+
+    expect(result.edges).toContainEqual(expect.objectContaining({
+      source: id('Billing'),
+      target: id('Events'),
+      type: 'depends-on',
+      inferenceMethod: 'keyword',
+    }));
+    expect(result.edges).toContainEqual(expect.objectContaining({
+      source: id('Webhooks'),
+      target: id('Invoices'),
+      type: 'related',
+    }));
+    // Navigation links are not relationships
+    expect(result.edges.some(e => e.source === id('Billing') && e.target === id('Webhooks'))).toBe(false);
+  });
+
+  it('should fall back to start page links without a sitemap or llms.txt', async () => {
+    const fetchFn = fakeFetch({
+      'https://docs.acme.com/docs': startHtml,
+      'https://docs.acme.com/docs/api-reference': '<h2>Authentication keys</h2>',
+      'https://docs.acme.com/docs/integration-guide': '<h2>Webhook handlers</h2>',
+    });
+
+    const result = await deepCrawl(fetchFn, 'https://docs.acme.com/docs', 5, { polite: false });
+
+    expect(result.planSource).toBe('links');
+    expect(result.nodes.map(n => n.data.label)).toContain('API Reference');
+    expect(result.nodes.map(n => n.data.label)).toContain('Authentication keys');
+  });
+
+  it('should skip malformed links on the start page', async () => {
+    const fetchFn = fakeFetch({
+      'https://docs.acme.com/docs': `
+        <a href="//[x/docs/broken">Broken API Link</a>
+        <a href="/docs/api-reference">API Reference</a>`,
+      'https://docs.acme.com/docs/api-reference': '<h2>Authentication keys</h2>',
+    });
+
+    const result = await deepCrawl(fetchFn, 'https://docs.acme.com/docs', 5, { polite: false });
+
+    expect(result.nodes.map(n => n.data.label)).toContain('API Reference');
+    expect(result.nodes.map(n => n.data.label)).not.toContain('Broken API Link');
+  });
+
+  it('should skip discovery when disabled', async () => {
+    const fetchFn = fakeFetch({
+      'https://docs.acme.com/docs': startHtml,
+      'https://docs.acme.com/sitemap.xml': sitemapXml,
+    });
+
+    const result = await deepCrawl(fetchFn, 'https://docs.acme.com/docs', 5, {
+      polite: false,
+      disableDiscovery: true,
+    });
+
+    expect(result.planSource).toBe('links');
+  });
+
+  it('should use a separate fetch function for discovery', async () => {
+    const pageFetch = fakeFetch({ 'https://docs.acme.com/docs': startHtml });
+    const discoveryFetch = fakeFetch({ 'https://docs.acme.com/sitemap.xml': sitemapXml });
+
+    const result = await deepCrawl(pageFetch, 'https://docs.acme.com/docs', 1, {
+      polite: false,
+      discoveryFetchFn: discoveryFetch,
+    });
+
+    expect(result.planSource).toBe('sitemap');
+    expect(result.pagesCrawled).toBe(1);
+  });
+
+  describe('politeness', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+      clearRobotsCache();
+      resetRateLimiter();
+    });
+
+    it('should skip pages disallowed by robots.txt', async () => {
+      // robots.txt is fetched with global fetch, pages with the given fetchFn
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        text: async () => 'User-agent: *\nDisallow: /docs/metering',
+      } as any);
+      configureRateLimiter({ burst: 10, refillPerSecond: 1000 });
+
+      const requested: string[] = [];
+      const files: Record<string, string> = {
+        'https://docs.acme.com/docs': startHtml,
+        'https://docs.acme.com/sitemap.xml': sitemapXml,
+        'https://docs.acme.com/docs/billing': '<h1>Billing</h1>',
+        'https://docs.acme.com/docs/metering': '<h1>Metering</h1>',
+        'https://docs.acme.com/docs/webhooks': '<h1>Webhooks</h1>',
+      };
+      const fetchFn = async (url: string): Promise<FetchResult> => {
+        requested.push(url);
+        return fakeFetch(files)(url);
+      };
+
+      const result = await deepCrawl(fetchFn, 'https://docs.acme.com/docs', 5);
+
+      expect(result.planSource).toBe('sitemap');
+      expect(requested).toContain('https://docs.acme.com/docs/billing');
+      expect(requested).not.toContain('https://docs.acme.com/docs/metering');
+    });
+  });
+
+  describe('caching', () => {
+    afterEach(async () => {
+      await clearCache();
+    });
+
+    const files: Record<string, string> = {
+      'https://docs.acme.com/docs': startHtml,
+      'https://docs.acme.com/sitemap.xml': sitemapXml,
+      'https://docs.acme.com/docs/billing': '<h1>Billing</h1>',
+      'https://docs.acme.com/docs/webhooks': '<h1>Webhooks</h1>',
+    };
+
+    it('should reuse cached pages instead of fetching them', async () => {
+      await setCached('https://docs.acme.com/docs', startHtml);
+      await setCached('https://docs.acme.com/sitemap.xml', sitemapXml);
+
+      const requested: string[] = [];
+      const fetchFn = async (url: string): Promise<FetchResult> => {
+        requested.push(url);
+        return fakeFetch(files)(url);
+      };
+
+      const result = await deepCrawl(fetchFn, 'https://docs.acme.com/docs', 5, { polite: false });
+
+      expect(result.planSource).toBe('sitemap');
+      expect(requested).not.toContain('https://docs.acme.com/docs');
+      expect(requested).not.toContain('https://docs.acme.com/sitemap.xml');
+      expect(requested).toContain('https://docs.acme.com/docs/billing');
+    });
+
+    it('should bypass the cache in no-store mode', async () => {
+      await setCached('https://docs.acme.com/docs', startHtml);
+
+      const requested: string[] = [];
+      const fetchFn = async (url: string): Promise<FetchResult> => {
+        requested.push(url);
+        return fakeFetch(files)(url);
+      };
+
+      await deepCrawl(fetchFn, 'https://docs.acme.com/docs', 5, { polite: false, cache: 'no-store' });
+
+      expect(requested).toContain('https://docs.acme.com/docs');
+    });
+  });
+
+  describe('progress and cancellation', () => {
+    const files: Record<string, string> = {
+      'https://docs.acme.com/docs': startHtml,
+      'https://docs.acme.com/docs/api-reference': '<h2>Authentication keys</h2>',
+    };
+
+    it('should report every fetched and failed page', async () => {
+      const pages: Array<{ url: string; status: string }> = [];
+
+      await deepCrawl(fakeFetch(files), 'https://docs.acme.com/docs', 5, {
+        polite: false,
+        disableDiscovery: true,
+        onPage: ({ url, status }) => pages.push({ url, status }),
+      });
+
+      expect(pages).toEqual([
+        { url: 'https://docs.acme.com/docs', status: 'fetched' },
+        { url: 'https://docs.acme.com/docs/api-reference', status: 'fetched' },
+        { url: 'https://docs.acme.com/docs/integration-guide', status: 'failed' },
+      ]);
+    });
+
+    it('should stop crawling when the signal aborts', async () => {
+      const controller = new AbortController();
+      const requested: string[] = [];
+      const fetchFn = async (url: string): Promise<FetchResult> => {
+        requested.push(url);
+        // Cancel while the first section page is loading
+        if (url.endsWith('/api-reference')) {
+          controller.abort(new Error('Generation cancelled'));
+        }
+        return fakeFetch(files)(url);
+      };
+
+      await expect(
+        deepCrawl(fetchFn, 'https://docs.acme.com/docs', 5, {
+          polite: false,
+          disableDiscovery: true,
+          signal: controller.signal,
+        })
+      ).rejects.toThrow('Generation cancelled');
+      expect(requested).not.toContain('https://docs.acme.com/docs/integration-guide');
+    });
+  });
+
+  describe('versions and locales', () => {
+    it('should leave older versions in the sitemap out of the plan', async () => {
+      const fetchFn = fakeFetch({
+        'https://docs.acme.com/docs': `
+          <div class="version-menu"><a href="/docs/v1">v1 (legacy)</a></div>
+          ${startHtml}`,
+        'https://docs.acme.com/sitemap.xml': sitemapXml.replace(
+          '</urlset>',
+          `<url><loc>https://docs.acme.com/docs/v1/legacy-billing</loc></url>
+  <url><loc>https://docs.acme.com/docs/v1/legacy-billing/invoices</loc></url>
+</urlset>`
+        ),
+      });
+
+      const result = await deepCrawl(fetchFn, 'https://docs.acme.com/docs', 5, { polite: false });
+
+      const features = result.nodes.filter(n => n.type === 'feature').map(n => n.data.label);
+      expect(features).toEqual(['Billing', 'Metering', 'Webhooks']);
+      expect(result.nodes.some(n => n.data.docUrl?.includes('/v1/'))).toBe(false);
+    });
+
+    it('should not follow links to translations', async () => {
+      const fetchFn = fakeFetch({
+        'https://docs.acme.com/docs': `
+          <html lang="en">
+            <head><link rel="alternate" hreflang="ja" href="https://docs.acme.com/ja/docs"></head>
+            <body>
+              <a href="/docs/api-reference">API Reference</a>
+              <a href="/ja/docs/api-reference">API リファレンス</a>
+            </body>
+          </html>`,
+        'https://docs.acme.com/docs/api-reference': '<h2>Authentication keys</h2>',
+        'https://docs.acme.com/ja/docs/api-reference': '<h2>認証キー</h2>',
+      });
+
+      const result = await deepCrawl(fetchFn, 'https://docs.acme.com/docs', 5, {
+        polite: false,
+        disableDiscovery: true,
+      });
+
+      expect(result.nodes.map(n => n.data.label)).toEqual(
+        expect.arrayContaining(['API Reference', 'Authentication keys'])
+      );
+      expect(result.nodes.map(n => n.data.label)).not.toContain('API リファレンス');
+      expect(result.pagesCrawled).toBe(2);
+    });
+  });
+
+  describe('keywords and summaries', () => {
+    const apiReferenceHtml = `
+      <nav><a href="/docs">Acme API home</a></nav>
+      <main>
+        <h1>API Reference</h1>
+        <p>The Acme API lets you manage payments from your server. Every request is authenticated with a secret key.</p>
+        <h2>Authentication keys</h2>
+        <p>Secret keys grant full access to your account. Rotate secret keys from the dashboard when a key leaks.</p>
+        <pre><code>curl https://api.acme.com -u sk_test_123</code></pre>
+      </main>`;
+    const integrationHtml = `
+      <main>
+        <h1>Integration Guide</h1>
+        <p>Webhook handlers receive Acme API events as signed HTTP requests. Verify the webhook signature before trusting the payload.</p>
+        <h2>Webhook handlers</h2>
+        <p>Return a 2xx status quickly, then process the event in a background job.</p>
+      </main>`;
+
+    it('should summarize pages and sections and tag them with their keywords', async () => {
+      const fetchFn = fakeFetch({
+        'https://docs.acme.com/docs': startHtml,
+        'https://docs.acme.com/docs/api-reference': apiReferenceHtml,
+        'https://docs.acme.com/docs/integration-guide': integrationHtml,
+      });
+
+      const result = await deepCrawl(fetchFn, 'https://docs.acme.com/docs', 5, {
+        polite: false,
+        disableDiscovery: true,
+      });
+      const byLabel = (label: string) => result.nodes.find(n => n.data.label === label)!;
+
+      // The sentences that use the page's most distinctive words
+      expect(byLabel('API Reference').data.description).toBe(
+        'Secret keys grant full access to your account. Rotate secret keys from the dashboard when a key leaks.'
+      );
+      expect(byLabel('API Reference').data.tags).toContain('secret keys');
+      expect(byLabel('Integration Guide').data.tags).toContain('webhook');
+      // Words every page uses are not worth a tag
+      expect(byLabel('Integration Guide').data.tags).not.toContain('acme');
+      // Components are summarized from their own section
+      expect(byLabel('Webhook handlers').data.description).toBe(
+        'Return a 2xx status quickly, then process the event in a background job.'
+      );
+      expect(byLabel('Authentication keys').data.tags).not.toContain('curl');
+    });
+
+    it('should keep descriptions that pages provide', async () => {
+      const fetchFn = fakeFetch({
+        'https://docs.acme.com/docs': startHtml,
+        'https://docs.acme.com/docs/api-reference': apiReferenceHtml.replace(
+          '<nav>',
+          '<meta name="description" content="Acme REST API reference"><nav>'
+        ),
+        'https://docs.acme.com/docs/integration-guide': integrationHtml,
+      });
+
+      const result = await deepCrawl(fetchFn, 'https://docs.acme.com/docs', 5, {
+        polite: false,
+        disableDiscovery: true,
+      });
+
+      const apiReference = result.nodes.find(n => n.data.label === 'API Reference')!;
+      expect(apiReference.data.description).toBe('Acme REST API reference');
+      expect(apiReference.data.tags?.length).toBeGreaterThan(0);
+    });
+  });
+});
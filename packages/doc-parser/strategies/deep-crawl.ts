@@ -2,14 +2,70 @@
 // Extracts real product features by analyzing section pages
 
 import * as cheerio from 'cheerio';
-import type { ExtractedNode, ExtractedEdge, FetchResult } from '../types';
+import type { CacheMode, CrawledPage, FetcherKind, ExtractedNode, ExtractedEdge, FetchResult, StatusEvidence } from '../types';
 import { generateNodeId, sanitizeText } from '../utils';
+import { withPoliteness } from '../politeness';
+import { withCache } from '../cache';
+import { discoverCrawlPlan, countTreePages, humanizeSegment, normalizePageUrl } from './crawl-plan';
+import { extractContentLinks, buildLinkEdges } from './link-graph';
+import { detectPageStatus, splitLabelStatus, textWithoutBadges } from './status';
+import { detectDocVariants, isOtherVariant } from './variants';
+import { extractPageText, buildTermIndex, extractKeywords, summarize } from './keywords';
+import type { CrawlPlan, UrlTreeNode } from './crawl-plan';
+import type { PageLink } from './link-graph';
 
 export interface DeepCrawlResult {
   nodes: ExtractedNode[];
   edges: ExtractedEdge[];
   confidence: number;
   pagesCrawled: number;
+  /** Where the page hierarchy came from */
+  planSource: CrawlPlan['source'] | 'links';
+}
+
+export interface DeepCrawlOptions {
+  /** Static (plain HTTP) fetch function for sitemap.xml / llms.txt discovery (defaults to fetchFn) */
+  discoveryFetchFn?: (url: string) => Promise<FetchResult>;
+  /** Skip sitemap.xml / llms.txt discovery and only scrape start page links */
+  disableDiscovery?: boolean;
+  /**
+   * Check robots.txt and pace requests through the per-host rate limiter (default: true)
+   * Pass fetch functions that skip their own politeness checks to avoid double pacing
+   */
+  polite?: boolean;
+  /**
+   * Serve fresh pages from the documentation cache before pacing (default: 'default')
+   * Filling and revalidating the cache is left to the fetch functions
+   */
+  cache?: CacheMode;
+  /** Kind of fetcher fetchFn is, so cache hits match what it would return (default: 'static') */
+  fetcher?: FetcherKind;
+  /** Stop crawling; deepCrawl rejects with the signal's reason */
+  signal?: AbortSignal;
+  /** Called for every documentation page fetched or failed (discovery files excluded) */
+  onPage?: (page: CrawledPage) => void;
+}
+
+/** Maximum features taken from a crawl plan */
+const MAX_PLAN_FEATURES = 12;
+
+/** Maximum components per feature */
+const MAX_COMPONENTS_PER_FEATURE = 8;
+
+/** Keywords added to each node's tags */
+const MAX_KEYWORDS = 5;
+
+/** Plan entries that describe a section rather than a sub-feature */
+const GENERIC_PAGE_LABELS = /^(overview|introduction|intro|index|readme|home|welcome|getting started)$/i;
+
+/**
+ * Text of the crawled pages and page sections, keyed by the node they became
+ */
+interface NodeTexts {
+  /** Whole pages; these also make up the corpus that keywords are scored against */
+  pages: Map<string, string>;
+  /** Sections of a page that became components */
+  sections: Map<string, string>;
 }
 
 interface PageToFetch {
@@ -17,21 +73,69 @@ interface PageToFetch {
   label: string;
   parentId: string | null;
   depth: number;
+  /** Status badge or suffix on the link to the page */
+  statusEvidence?: StatusEvidence;
 }
 
 /**
  * Deep crawl documentation to extract comprehensive feature map
  * Fetches multiple pages to get real product features
  * 
+ * Looks for sitemap.xml and llms.txt first and uses their URL tree for the
+ * hierarchy; falls back to scraping links from the start page
+ * 
+ * Pages already in the documentation cache are reused without waiting for a
+ * rate limit slot, so crawling the same docs twice is cheap
+ * 
+ * Links in the content of fetched pages become related/depends-on edges
+ * between the nodes those pages map to
+ * 
+ * The crawl stays within the start page's version and locale: pages under
+ * another /v1/, /latest/ or /ja/ copy of the docs are skipped
+ * 
+ * Nodes without a description get a summary of their page or section, and
+ * the page's TF-IDF keywords are added to their tags
+ * 
  * @param fetchFn - Function to fetch URLs (should use browser for JS sites)
  * @param startUrl - Starting documentation URL
  * @param maxPages - Maximum pages to crawl (default: 5)
+ * @param options - Discovery and pacing options
  */
 export async function deepCrawl(
   fetchFn: (url: string) => Promise<FetchResult>,
   startUrl: string,
-  maxPages: number = 5
+  maxPages: number = 5,
+  options: DeepCrawlOptions = {}
 ): Promise<DeepCrawlResult> {
+  const { disableDiscovery = false, polite = true, cache = 'default', fetcher = 'static', signal, onPage } = options;
+  // Cache hits skip politeness: they never reach the host
+  const wrapFetch = (fn: (url: string) => Promise<FetchResult>, kind: FetcherKind) => {
+    const paced = polite ? withPoliteness(fn) : fn;
+    return cache === 'default' ? withCache(paced, kind) : paced;
+  };
+  const discoveryFetch = options.discoveryFetchFn
+    ? wrapFetch(options.discoveryFetchFn, 'static')
+    : wrapFetch(fetchFn, fetcher);
+  const cachedFetch = wrapFetch(fetchFn, fetcher);
+  // Check for cancellation before every page and report each one
+  const pageFetch = async (url: string): Promise<FetchResult> => {
+    signal?.throwIfAborted();
+    const fetchStart = Date.now();
+    try {
+      const result = await cachedFetch(url);
+      onPage?.({ url, status: 'fetched', fromCache: result.fromCache === true, durationMs: Date.now() - fetchStart });
+      return result;
+    } catch (error) {
+      signal?.throwIfAborted();
+      onPage?.({
+        url,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - fetchStart,
+      });
+      throw error;
+    }
+  };
   const nodes: ExtractedNode[] = [];
   const edges: ExtractedEdge[] = [];
   const seenLabels = new Set<string>();
@@ -40,7 +144,7 @@ export async function deepCrawl(
   
   // Fetch initial page
   console.log(`[DeepCrawl] Fetching start page: ${startUrl}`);
-  const startPage = await fetchFn(startUrl);
+  const startPage = await pageFetch(startUrl);
   seenUrls.add(startUrl);
   
   const $ = cheerio.load(startPage.html);
@@ -68,28 +172,60 @@ export async function deepCrawl(
     },
   });
   seenLabels.add(siteTitle.toLowerCase());
+  const texts: NodeTexts = { pages: new Map([[rootId, extractPageText($).text]]), sections: new Map() };
+
+  const variants = detectDocVariants(startPage.html, startPage.url || startUrl);
+  const inScope = (url: string) => !isOtherVariant(url, variants);
+  if (variants.version || variants.versions.length > 0 || variants.locales.length > 0) {
+    console.log(`[DeepCrawl] Staying within version ${variants.version || '(unversioned)'}, locale ${variants.locale || '(default)'}`);
+  }
+  
+  // Prefer a machine-readable page listing over scraped links
+  if (!disableDiscovery) {
+    const plan = await discoverCrawlPlan(discoveryFetch, startPage.url || startUrl, startPage.html, inScope);
+    // Discovery swallows fetch errors, including the one from a cancellation
+    signal?.throwIfAborted();
+    if (plan) {
+      console.log(`[DeepCrawl] Using ${plan.source} crawl plan with ${plan.pageCount} pages`);
+      return crawlFromPlan(pageFetch, plan, rootId, nodes, edges, seenLabels, texts, maxPages, signal);
+    }
+    console.log('[DeepCrawl] No sitemap.xml or llms.txt found, scraping start page links');
+  }
   
   // Collect ALL links on the page
   const allLinks = $('a[href]');
   console.log(`[DeepCrawl] Found ${allLinks.length} total links on start page`);
   
   // Filter to get documentation section links
-  const sectionLinks: Array<{ label: string; href: string; score: number }> = [];
+  const sectionLinks: Array<{ label: string; href: string; url: string; score: number; statusEvidence?: StatusEvidence }> = [];
   
   allLinks.each((_, link) => {
     const $link = $(link);
-    const label = $link.text().trim();
+    // Status badges are kept as the section's status, not in its label
+    const { text, evidence: badge } = textWithoutBadges($, $link);
+    const label = text.replace(/\s+/g, ' ').trim();
     const href = $link.attr('href') || '';
     
     // Skip if no meaningful label
     if (!label || label.length < 3 || label.length > 80) return;
     
+    // Skip malformed links (http://[x) instead of failing the crawl
+    let url: string;
+    try {
+      url = new URL(href, startUrl).toString();
+    } catch {
+      return;
+    }
+    
     // Skip external links
     if (href.startsWith('http') && !href.includes(new URL(startUrl).hostname)) return;
     
     // Skip anchor links
     if (href.includes('#')) return;
     
+    // Skip other versions and translations of the docs
+    if (!inScope(url)) return;
+    
     // Skip non-documentation URLs
     if (
       href.includes('/signup') ||
@@ -120,8 +256,10 @@ export async function deepCrawl(
       return;
     }
     
-    // Clean up label - remove extra text
-    const cleanLabel = label
+    // Clean up label - keep a status suffix such as "(Beta)", then remove extra text
+    const { label: unbadgedLabel, evidence: titleEvidence } = splitLabelStatus(label);
+    const statusEvidence = badge || titleEvidence;
+    const cleanLabel = unbadgedLabel
       .replace(/\s*→.*$/, '') // Remove arrows and text after
       .replace(/\s*\(.*?\).*$/, '') // Remove parentheses and text after
       .replace(/Learn more.*$/i, '')
@@ -159,7 +297,7 @@ export async function deepCrawl(
     if (wordCount === 1) score -= 1; // Single words are often too generic
     if (wordCount > 6) score -= 2; // Too long, probably has extra text
     
-    sectionLinks.push({ label: cleanLabel, href, score });
+    sectionLinks.push({ label: cleanLabel, href, url, score, statusEvidence });
   });
   
   // Sort by score and take top candidates
@@ -171,9 +309,7 @@ export async function deepCrawl(
   
   // Queue section pages for crawling
   topSections.forEach(section => {
-    const fullUrl = section.href.startsWith('http') 
-      ? section.href 
-      : new URL(section.href, startUrl).toString();
+    const fullUrl = section.url;
     
     if (seenUrls.has(fullUrl) || fullUrl === startUrl) return;
     
@@ -182,6 +318,7 @@ export async function deepCrawl(
       label: sanitizeText(section.label),
       parentId: rootId,
       depth: 1,
+      statusEvidence: section.statusEvidence,
     });
     
     seenUrls.add(fullUrl);
@@ -191,25 +328,29 @@ export async function deepCrawl(
   
   // Crawl each section page
   let pagesCrawled = 1; // Start page already crawled
+  const linksByNode = new Map<string, PageLink[]>();
   
   for (const page of pagesToFetch) {
     try {
       console.log(`[DeepCrawl] Fetching: ${page.label} (${page.url})`);
-      const pageResult = await fetchFn(page.url);
+      const pageResult = await pageFetch(page.url);
       pagesCrawled++;
       
       const page$ = cheerio.load(pageResult.html);
       
-      // Create a feature node for this section
+      // Create a feature node for this section (the link's badge wins over the page's banner)
       const sectionId = generateNodeId(page.label, 'feature');
+      const statusEvidence = page.statusEvidence || detectPageStatus(page$) || undefined;
       nodes.push({
         id: sectionId,
         type: 'feature',
         data: {
           label: page.label,
-          description: '',
+          description: page$('meta[name="description"]').attr('content') || '',
           docUrl: page.url,
+          status: statusEvidence?.status,
         },
+        statusEvidence,
       });
       seenLabels.add(page.label.toLowerCase());
       
@@ -221,55 +362,17 @@ export async function deepCrawl(
         type: 'hierarchy',
       });
       
-      // Extract sub-features from this page
-      // Look for h2/h3 headings that represent actual features
-      const pageHeadings = page$('h2, h3, h4').filter((_, el) => {
-        const text = page$(el).text().trim();
-        return text.length > 3 && text.length < 80;
-      });
-      
-      const pageFeatures: string[] = [];
+      linksByNode.set(sectionId, extractContentLinks(pageResult.html, pageResult.url || page.url));
+      const pageText = extractPageText(page$);
+      texts.pages.set(sectionId, pageText.text);
       
-      pageHeadings.each((_, heading) => {
-        const $heading = page$(heading);
-        let featureLabel = $heading.text().trim();
-        
-        if (!featureLabel || featureLabel.length < 3) return;
-        
-        featureLabel = sanitizeText(featureLabel);
-        const lowerLabel = featureLabel.toLowerCase();
-        
-        // Skip if already seen
-        if (seenLabels.has(lowerLabel)) return;
-        
-        // Skip generic/meta headings
-        if (
-          lowerLabel.includes('table of contents') ||
-          lowerLabel.includes('on this page') ||
-          lowerLabel.includes('related') ||
-          lowerLabel.includes('see also') ||
-          lowerLabel.includes('next steps') ||
-          lowerLabel.includes('prerequisites') ||
-          lowerLabel.includes('introduction') ||
-          lowerLabel.includes('overview') ||
-          lowerLabel.includes('getting started') ||
-          lowerLabel.startsWith('step ') ||
-          lowerLabel.startsWith('what is') ||
-          lowerLabel.startsWith('why ') ||
-          /^\d+\./.test(lowerLabel) ||
-          lowerLabel.length < 5 // Too short to be meaningful
-        ) {
-          return;
-        }
-        
-        seenLabels.add(lowerLabel);
-        pageFeatures.push(featureLabel);
-      });
+      // Extract sub-features from this page
+      const pageFeatures = extractPageFeatures(page$, seenLabels);
       
       console.log(`[DeepCrawl]   Found ${pageFeatures.length} sub-features on this page`);
       
       // Create component nodes for each sub-feature found (limit to avoid noise)
-      pageFeatures.slice(0, 8).forEach(featureLabel => {
+      pageFeatures.slice(0, MAX_COMPONENTS_PER_FEATURE).forEach(featureLabel => {
         const featureId = generateNodeId(featureLabel, 'component');
         nodes.push({
           id: featureId,
@@ -279,6 +382,7 @@ export async function deepCrawl(
             description: '',
           },
         });
+        texts.sections.set(featureId, pageText.sections.get(featureLabel.toLowerCase()) || '');
         
         // Connect feature to section
         edges.push({
@@ -289,15 +393,16 @@ export async function deepCrawl(
         });
       });
       
-      // Small delay to avoid overwhelming the server
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
     } catch (error) {
+      signal?.throwIfAborted();
       console.error(`[DeepCrawl] Error fetching ${page.url}:`, error);
       // Continue with other pages
     }
   }
   
+  addLinkEdges(nodes, edges, linksByNode);
+  annotateNodes(nodes, texts);
+  
   console.log(`[DeepCrawl] Completed: ${pagesCrawled} pages crawled, ${nodes.length} nodes extracted`);
   
   // Calculate confidence based on depth and nodes found
@@ -312,5 +417,279 @@ export async function deepCrawl(
     edges,
     confidence,
     pagesCrawled,
+    planSource: 'links',
   };
 }
+
+/**
+ * Build the map from a sitemap/llms.txt URL tree
+ * Top-level branches become features and their children become components.
+ * The page budget is spent on feature pages to refine labels and descriptions,
+ * and to extract headings for features without listed children.
+ * Components that were never fetched keep the listing's description.
+ */
+async function crawlFromPlan(
+  fetchFn: (url: string) => Promise<FetchResult>,
+  plan: CrawlPlan,
+  rootId: string,
+  nodes: ExtractedNode[],
+  edges: ExtractedEdge[],
+  seenLabels: Set<string>,
+  texts: NodeTexts,
+  maxPages: number,
+  signal?: AbortSignal
+): Promise<DeepCrawlResult> {
+  // Largest branches first: they are the main product areas
+  const branches = Array.from(plan.tree.children.values())
+    .map((branch, index) => ({ branch, index, size: countTreePages(branch) }))
+    .sort((a, b) => b.size - a.size || a.index - b.index)
+    .slice(0, MAX_PLAN_FEATURES)
+    .sort((a, b) => a.index - b.index)
+    .map(({ branch }) => branch);
+
+  const features: Array<{ id: string; branch: UrlTreeNode; hasComponents: boolean }> = [];
+
+  for (const branch of branches) {
+    const label = sanitizeText(branch.title || humanizeSegment(branch.segment));
+    const lowerLabel = label.toLowerCase();
+    if (!label || seenLabels.has(lowerLabel)) continue;
+    seenLabels.add(lowerLabel);
+
+    const featureId = generateNodeId(label, 'feature');
+    nodes.push({
+      id: featureId,
+      type: 'feature',
+      data: {
+        label,
+        description: branch.description || '',
+        docUrl: branch.url,
+      },
+      level: 2,
+    });
+    edges.push({
+      id: `edge-${rootId}-${featureId}`,
+      source: rootId,
+      target: featureId,
+      type: 'hierarchy',
+      confidence: 0.9,
+      inferenceMethod: 'hierarchy',
+    });
+
+    let componentCount = 0;
+    for (const child of branch.children.values()) {
+      if (componentCount >= MAX_COMPONENTS_PER_FEATURE) break;
+
+      const childLabel = sanitizeText(child.title || humanizeSegment(child.segment));
+      const lowerChildLabel = childLabel.toLowerCase();
+      if (!childLabel || GENERIC_PAGE_LABELS.test(childLabel) || seenLabels.has(lowerChildLabel)) continue;
+      seenLabels.add(lowerChildLabel);
+
+      const componentId = generateNodeId(childLabel, 'component');
+      nodes.push({
+        id: componentId,
+        type: 'component',
+        data: {
+          label: childLabel,
+          description: child.description || '',
+          docUrl: child.url,
+        },
+        level: 3,
+      });
+      edges.push({
+        id: `edge-${featureId}-${componentId}`,
+        source: featureId,
+        target: componentId,
+        type: 'hierarchy',
+        confidence: 0.85,
+        inferenceMethod: 'hierarchy',
+      });
+      componentCount++;
+    }
+
+    features.push({ id: featureId, branch, hasComponents: componentCount > 0 });
+  }
+
+  // Spend the page budget on feature pages (start page already counts as one)
+  let pagesCrawled = 1;
+  const pagesToFetch = features.filter((feature) => feature.branch.url).slice(0, Math.max(0, maxPages - 1));
+  const linksByNode = new Map<string, PageLink[]>();
+
+  for (const feature of pagesToFetch) {
+    const pageUrl = feature.branch.url as string;
+    try {
+      console.log(`[DeepCrawl] Fetching: ${pageUrl}`);
+      const pageResult = await fetchFn(pageUrl);
+      pagesCrawled++;
+
+      const page$ = cheerio.load(pageResult.html);
+      const node = nodes.find((n) => n.id === feature.id);
+      linksByNode.set(feature.id, extractContentLinks(pageResult.html, pageResult.url || pageUrl));
+      const pageText = extractPageText(page$);
+      texts.pages.set(feature.id, pageText.text);
+
+      if (node) {
+        // Listings without titles only give us URL slugs; the page heading is better
+        const heading = sanitizeText(textWithoutBadges(page$, page$('main h1, article h1, h1').first()).text);
+        if (!feature.branch.title && heading && heading.length >= 3 && heading.length <= 80) {
+          node.data.label = heading;
+        }
+        if (!node.data.description) {
+          node.data.description = page$('meta[name="description"]').attr('content') || '';
+        }
+        const statusEvidence = node.data.status ? null : detectPageStatus(page$);
+        if (statusEvidence) {
+          node.data.status = statusEvidence.status;
+          node.statusEvidence = statusEvidence;
+        }
+      }
+
+      if (!feature.hasComponents) {
+        const pageFeatures = extractPageFeatures(page$, seenLabels);
+        console.log(`[DeepCrawl]   Found ${pageFeatures.length} sub-features on this page`);
+
+        pageFeatures.slice(0, MAX_COMPONENTS_PER_FEATURE).forEach(featureLabel => {
+          const componentId = generateNodeId(featureLabel, 'component');
+          nodes.push({
+            id: componentId,
+            type: 'component',
+            data: {
+              label: featureLabel,
+              description: '',
+            },
+          });
+          texts.sections.set(componentId, pageText.sections.get(featureLabel.toLowerCase()) || '');
+          edges.push({
+            id: `edge-${feature.id}-${componentId}`,
+            source: feature.id,
+            target: componentId,
+            type: 'hierarchy',
+          });
+        });
+      }
+    } catch (error) {
+      signal?.throwIfAborted();
+      console.error(`[DeepCrawl] Error fetching ${pageUrl}:`, error);
+      // Continue with other pages
+    }
+  }
+
+  addLinkEdges(nodes, edges, linksByNode);
+  annotateNodes(nodes, texts);
+
+  console.log(`[DeepCrawl] Completed from ${plan.source}: ${pagesCrawled} pages crawled, ${nodes.length} nodes extracted`);
+
+  // The listing itself is authoritative, so fewer fetched pages are needed
+  let confidence = 0;
+  if (nodes.length >= 15 && features.length >= 3) confidence = 0.95;
+  else if (nodes.length >= 10) confidence = 0.85;
+  else if (nodes.length >= 5) confidence = 0.75;
+  else confidence = 0.5;
+
+  return {
+    nodes,
+    edges,
+    confidence,
+    pagesCrawled,
+    planSource: plan.source,
+  };
+}
+
+/**
+ * Add edges for links between crawled pages
+ * Every node with a docUrl can be a link target, including components that
+ * were never fetched; the product is left out since every page links home.
+ */
+function addLinkEdges(nodes: ExtractedNode[], edges: ExtractedEdge[], linksByNode: Map<string, PageLink[]>): void {
+  const nodeIdByUrl = new Map<string, string>();
+  for (const node of nodes) {
+    const url = node.type !== 'product' && node.data.docUrl ? normalizePageUrl(node.data.docUrl) : null;
+    if (url && !nodeIdByUrl.has(url)) {
+      nodeIdByUrl.set(url, node.id);
+    }
+  }
+
+  const linkEdges = buildLinkEdges(linksByNode, nodeIdByUrl, edges);
+  if (linkEdges.length > 0) {
+    console.log(`[DeepCrawl] Inferred ${linkEdges.length} edges from links between pages`);
+  }
+  edges.push(...linkEdges);
+}
+
+/**
+ * Fill descriptions and tags from the text of each node's page or section
+ * Descriptions from the page itself (meta description, llms.txt) are kept;
+ * keywords are scored against every page crawled, so site-wide words rank low
+ */
+function annotateNodes(nodes: ExtractedNode[], texts: NodeTexts): void {
+  const index = buildTermIndex(Array.from(texts.pages.values()));
+  let annotated = 0;
+
+  for (const node of nodes) {
+    const text = texts.pages.get(node.id) ?? texts.sections.get(node.id);
+    if (!text) continue;
+
+    if (!node.data.description) {
+      node.data.description = summarize(text, index);
+    }
+    const keywords = extractKeywords(text, index, { limit: MAX_KEYWORDS, exclude: node.data.label });
+    if (keywords.length > 0) {
+      node.data.tags = Array.from(new Set([...(node.data.tags || []), ...keywords]));
+      annotated++;
+    }
+  }
+
+  if (annotated > 0) {
+    console.log(`[DeepCrawl] Added keywords to ${annotated} nodes`);
+  }
+}
+
+/**
+ * Extract sub-feature labels from a section page's h2-h4 headings
+ * Skips generic/meta headings and labels already used elsewhere in the map
+ */
+function extractPageFeatures(page$: cheerio.CheerioAPI, seenLabels: Set<string>): string[] {
+  const pageHeadings = page$('h2, h3, h4').filter((_, el) => {
+    const text = page$(el).text().trim();
+    return text.length > 3 && text.length < 80;
+  });
+  
+  const pageFeatures: string[] = [];
+  
+  pageHeadings.each((_, heading) => {
+    const $heading = page$(heading);
+    let featureLabel = $heading.text().trim();
+    
+    if (!featureLabel || featureLabel.length < 3) return;
+    
+    featureLabel = sanitizeText(featureLabel);
+    const lowerLabel = featureLabel.toLowerCase();
+    
+    // Skip if already seen
+    if (seenLabels.has(lowerLabel)) return;
+    
+    // Skip generic/meta headings
+    if (
+      lowerLabel.includes('table of contents') ||
+      lowerLabel.includes('on this page') ||
+      lowerLabel.includes('related') ||
+      lowerLabel.includes('see also') ||
+      lowerLabel.includes('next steps') ||
+      lowerLabel.includes('prerequisites') ||
+      lowerLabel.includes('introduction') ||
+      lowerLabel.includes('overview') ||
+      lowerLabel.includes('getting started') ||
+      lowerLabel.startsWith('step ') ||
+      lowerLabel.startsWith('what is') ||
+      lowerLabel.startsWith('why ') ||
+      /^\d+\./.test(lowerLabel) ||
+      lowerLabel.length < 5 // Too short to be meaningful
+    ) {
+      return;
+    }
+    
+    seenLabels.add(lowerLabel);
+    pageFeatures.push(featureLabel);
+  });
+
+  return pageFeatures;
+}
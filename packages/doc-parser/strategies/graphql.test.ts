@@ -0,0 +1,281 @@
+// Unit tests for GraphQL strategy
+
+import { describe, it, expect } from 'vitest';
+import { GraphQLStrategy, loadGraphQLSchema, isGraphQLSchemaUrl } from './graphql';
+
+const shopSdl = `
+"""
+Acme storefront API
+"""
+schema {
+  query: QueryRoot
+  mutation: MutationRoot
+}
+
+# Entry points
+type QueryRoot {
+  "Look up a product by ID"
+  product(id: ID!): Product
+  products(first: Int = 10, after: String): ProductConnection!
+  order(id: ID!): Order
+  legacyCart: Cart @deprecated(reason: "Use \`order\` instead")
+}
+
+type MutationRoot {
+  """
+  Place an order for the products in a cart.
+    Charges the customer at once.
+  """
+  placeOrder(input: PlaceOrderInput!): Order
+}
+
+interface Node {
+  id: ID!
+}
+
+type Product implements Node {
+  id: ID!
+  title: String!
+  status: ProductStatus
+}
+
+type ProductConnection {
+  nodes: [Product!]!
+}
+
+type Order implements Node {
+  id: ID!
+  lines: [OrderLine!]!
+}
+
+type OrderLine {
+  product: Product!
+  quantity: Int!
+}
+
+type Cart {
+  items: [Product!]!
+}
+
+input PlaceOrderInput {
+  productIds: [ID!]!
+  note: String = "none"
+}
+
+enum ProductStatus {
+  ACTIVE
+  ARCHIVED @deprecated
+}
+
+directive @cost(complexity: Int) on FIELD_DEFINITION | OBJECT
+
+extend type QueryRoot {
+  shop: Shop
+}
+
+union Shop = Cart | Order
+`;
+
+const introspection = {
+  data: {
+    __schema: {
+      queryType: { name: 'Query' },
+      mutationType: null,
+      subscriptionType: { name: 'Subscription' },
+      types: [
+        {
+          kind: 'OBJECT',
+          name: 'Query',
+          fields: [
+            {
+              name: 'viewer',
+              description: 'The signed-in user',
+              args: [],
+              type: { kind: 'NON_NULL', name: null, ofType: { kind: 'OBJECT', name: 'User', ofType: null } },
+              isDeprecated: false,
+              deprecationReason: null,
+            },
+            {
+              name: 'users',
+              description: null,
+              args: [{ name: 'first', type: { kind: 'SCALAR', name: 'Int', ofType: null } }],
+              type: {
+                kind: 'LIST',
+                name: null,
+                ofType: { kind: 'NON_NULL', name: null, ofType: { kind: 'OBJECT', name: 'User', ofType: null } },
+              },
+              isDeprecated: true,
+              deprecationReason: 'Use search',
+            },
+          ],
+        },
+        {
+          kind: 'OBJECT',
+          name: 'Subscription',
+          fields: [
+            {
+              name: 'userUpdated',
+              args: [],
+              type: { kind: 'OBJECT', name: 'User', ofType: null },
+              isDeprecated: false,
+            },
+          ],
+        },
+        { kind: 'OBJECT', name: 'User', fields: [{ name: 'name', args: [], type: { kind: 'SCALAR', name: 'String' } }] },
+        { kind: 'OBJECT', name: '__Type', fields: [] },
+        { kind: 'SCALAR', name: 'String' },
+      ],
+    },
+  },
+};
+
+describe('loadGraphQLSchema', () => {
+  it('should parse SDL', () => {
+    const schema = loadGraphQLSchema(shopSdl);
+
+    expect(schema?.description).toBe('Acme storefront API');
+    expect(schema?.queryType).toBe('QueryRoot');
+    expect(schema?.mutationType).toBe('MutationRoot');
+    expect(schema?.types.QueryRoot.fields.map(f => f.name)).toEqual(['product', 'products', 'order', 'legacyCart', 'shop']);
+    expect(schema?.types.QueryRoot.fields[1]).toMatchObject({
+      type: 'ProductConnection!',
+      namedType: 'ProductConnection',
+      args: [{ name: 'first', type: 'Int' }, { name: 'after', type: 'String' }],
+    });
+    expect(schema?.types.QueryRoot.fields[3]).toMatchObject({ deprecated: true, deprecationReason: 'Use `order` instead' });
+    expect(schema?.types.MutationRoot.fields[0].description).toBe(
+      'Place an order for the products in a cart.\n  Charges the customer at once.'
+    );
+    expect(schema?.types.Shop.references).toEqual(['Cart', 'Order']);
+    expect(schema?.types.Product.references).toEqual(['Node']);
+  });
+
+  it('should default root operation types to Query, Mutation and Subscription', () => {
+    const schema = loadGraphQLSchema('type Query { ping: String }');
+    expect(schema?.queryType).toBe('Query');
+  });
+
+  it('should parse introspection results', () => {
+    const schema = loadGraphQLSchema(JSON.stringify(introspection));
+
+    expect(schema?.queryType).toBe('Query');
+    expect(schema?.subscriptionType).toBe('Subscription');
+    expect(schema?.types.Query.fields[1]).toMatchObject({
+      type: '[User!]',
+      namedType: 'User',
+      deprecated: true,
+      deprecationReason: 'Use search',
+    });
+    expect(schema?.types.__Type).toBeUndefined();
+    expect(loadGraphQLSchema(JSON.stringify(introspection.data))).not.toBeNull();
+  });
+
+  it('should read schemas rendered inside a <pre> element', () => {
+    const html = `<html><body><pre>${shopSdl.replace(/</g, '&lt;')}</pre></body></html>`;
+    expect(loadGraphQLSchema(html)).not.toBeNull();
+  });
+
+  it('should reject content that is not a schema', () => {
+    expect(loadGraphQLSchema('<div>Regular HTML content</div>')).toBeNull();
+    expect(loadGraphQLSchema('query { viewer { name } }')).toBeNull();
+    expect(loadGraphQLSchema('type User { name: String }')).toBeNull();
+    expect(loadGraphQLSchema('type Query { broken(: String }')).toBeNull();
+    expect(loadGraphQLSchema('{"openapi": "3.0.0"}')).toBeNull();
+    expect(loadGraphQLSchema('')).toBeNull();
+  });
+});
+
+describe('isGraphQLSchemaUrl', () => {
+  it('should detect schema file URLs', () => {
+    expect(isGraphQLSchemaUrl('https://api.example.com/schema.graphql')).toBe(true);
+    expect(isGraphQLSchemaUrl('https://example.com/api/schema.gql')).toBe(true);
+    expect(isGraphQLSchemaUrl('https://example.com/graphql/introspection.json')).toBe(true);
+  });
+
+  it('should reject other URLs', () => {
+    expect(isGraphQLSchemaUrl('https://api.example.com/graphql')).toBe(false);
+    expect(isGraphQLSchemaUrl('https://example.com/package.json')).toBe(false);
+    expect(isGraphQLSchemaUrl('not a url')).toBe(false);
+  });
+});
+
+describe('GraphQLStrategy', () => {
+  const strategy = new GraphQLStrategy();
+
+  describe('canHandle', () => {
+    it('should handle SDL and introspection results', () => {
+      expect(strategy.canHandle(shopSdl, 'https://shop.acme.dev/schema.graphql')).toBe(true);
+      expect(strategy.canHandle(JSON.stringify(introspection), 'upload://introspection.json')).toBe(true);
+    });
+
+    it('should reject HTML pages', () => {
+      expect(strategy.canHandle('<nav><a href="/docs">Docs</a></nav>', 'https://docs.example.com')).toBe(false);
+    });
+  });
+
+  describe('parse', () => {
+    it('should map root operation types to features and their fields to components', async () => {
+      const result = await strategy.parse(shopSdl, 'https://shop.acme.dev/schema.graphql');
+
+      const product = result.nodes.find(n => n.type === 'product');
+      expect(product?.data).toMatchObject({ label: 'shop.acme.dev', description: 'Acme storefront API', tags: ['GraphQL'] });
+      expect(result.metadata.strategy).toBe('graphql');
+
+      expect(result.nodes.filter(n => n.type === 'feature').map(n => n.data.label)).toEqual(['Queries', 'Mutations']);
+      const components = result.nodes.filter(n => n.type === 'component');
+      expect(components.map(n => n.data.label)).toEqual(['product', 'products', 'order', 'legacyCart', 'shop', 'placeOrder']);
+
+      const mutationsId = result.nodes.find(n => n.data.label === 'Mutations')!.id;
+      const placeOrderId = result.nodes.find(n => n.data.label === 'placeOrder')!.id;
+      expect(result.edges.some(e => e.source === mutationsId && e.target === placeOrderId && e.type === 'hierarchy')).toBe(true);
+    });
+
+    it('should carry descriptions and deprecations', async () => {
+      const result = await strategy.parse(shopSdl, 'https://shop.acme.dev/schema.graphql');
+      const byLabel = (label: string) => result.nodes.find(n => n.data.label === label)!;
+
+      expect(byLabel('product').data.description).toBe('Look up a product by ID');
+      // Fields without a description show their signature
+      expect(byLabel('products').data.description).toBe('products(first: Int, after: String): ProductConnection!');
+      expect(byLabel('legacyCart').data).toMatchObject({ status: 'deprecated', tags: ['query', 'deprecated'] });
+      expect(byLabel('legacyCart').statusEvidence).toEqual({
+        status: 'deprecated',
+        source: 'spec',
+        text: 'QueryRoot.legacyCart @deprecated: Use `order` instead',
+      });
+    });
+
+    it('should create depends-on edges to the fields that return the types used', async () => {
+      const result = await strategy.parse(shopSdl, 'https://shop.acme.dev/schema.graphql');
+      const id = (label: string) => result.nodes.find(n => n.data.label === label)!.id;
+      const dependencies = result.edges.filter(e => e.type === 'depends-on');
+
+      // placeOrder returns an Order, owned by the order query
+      expect(dependencies).toContainEqual(expect.objectContaining({
+        source: id('placeOrder'),
+        target: id('order'),
+        label: 'Order',
+        inferenceMethod: 'explicit',
+      }));
+      // Orders contain products, through their lines
+      expect(dependencies).toContainEqual(expect.objectContaining({ source: id('order'), target: id('product') }));
+      expect(dependencies).toContainEqual(expect.objectContaining({ source: id('products'), target: id('product') }));
+      // Union members count as references
+      expect(dependencies).toContainEqual(expect.objectContaining({ source: id('shop'), target: id('legacyCart'), label: 'Cart' }));
+      // The field that owns a type does not depend on itself
+      expect(dependencies.some(e => e.source === e.target)).toBe(false);
+    });
+
+    it('should parse introspection results', async () => {
+      const result = await strategy.parse(JSON.stringify(introspection), 'upload://introspection.json');
+
+      expect(result.nodes.map(n => n.data.label)).toEqual(['GraphQL API', 'Queries', 'viewer', 'users', 'Subscriptions', 'userUpdated']);
+      expect(result.nodes[0].data.docUrl).toBeUndefined();
+      expect(result.nodes.find(n => n.data.label === 'users')?.data.status).toBe('deprecated');
+    });
+
+    it('should throw for content that is not a schema', async () => {
+      await expect(strategy.parse('<div></div>', 'https://docs.example.com')).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,870 @@
+// GraphQL parsing strategy - reads schemas (SDL or introspection results) directly
+// GraphQL docs are usually generated explorers that render nothing useful
+// without JavaScript, so the schema itself is the best source.
+
+import * as cheerio from 'cheerio';
+import { BaseStrategy } from './base';
+import type { ParseResult, ExtractedNode, ExtractedEdge } from '../types';
+import { generateNodeId, sanitizeText, truncateDescription } from '../utils';
+
+/**
+ * Type of a GraphQL schema, reduced to what map extraction needs
+ */
+export interface GraphQLNamedType {
+  name: string;
+  kind: 'OBJECT' | 'INTERFACE' | 'UNION' | 'ENUM' | 'INPUT_OBJECT' | 'SCALAR';
+  description?: string;
+  /** Fields of objects and interfaces, input fields of input objects */
+  fields: GraphQLField[];
+  /** Union members and implemented interfaces */
+  references: string[];
+}
+
+/**
+ * Field of an object, interface or input type
+ */
+export interface GraphQLField {
+  name: string;
+  description?: string;
+  /** Type as written in SDL, e.g. '[User!]!' */
+  type: string;
+  /** Named type with list and non-null wrappers removed, e.g. 'User' */
+  namedType: string;
+  args: Array<{ name: string; type: string; namedType: string }>;
+  deprecated: boolean;
+  deprecationReason?: string;
+}
+
+/**
+ * GraphQL schema read from SDL or an introspection result
+ */
+export interface GraphQLSchemaDocument {
+  description?: string;
+  queryType?: string;
+  mutationType?: string;
+  subscriptionType?: string;
+  types: Record<string, GraphQLNamedType>;
+}
+
+/**
+ * Introspection type reference ({ kind, name, ofType })
+ */
+interface IntrospectionTypeRef {
+  kind?: string;
+  name?: string | null;
+  ofType?: IntrospectionTypeRef | null;
+}
+
+/**
+ * Introspection type, as returned by the standard introspection query
+ */
+interface IntrospectionType {
+  kind?: string;
+  name?: string;
+  description?: string | null;
+  fields?: IntrospectionField[] | null;
+  inputFields?: IntrospectionField[] | null;
+  interfaces?: IntrospectionTypeRef[] | null;
+  possibleTypes?: IntrospectionTypeRef[] | null;
+}
+
+interface IntrospectionField {
+  name?: string;
+  description?: string | null;
+  type?: IntrospectionTypeRef;
+  args?: IntrospectionField[] | null;
+  isDeprecated?: boolean;
+  deprecationReason?: string | null;
+}
+
+const ROOT_OPERATIONS = [
+  { key: 'queryType', defaultName: 'Query', label: 'Queries', tag: 'query' },
+  { key: 'mutationType', defaultName: 'Mutation', label: 'Mutations', tag: 'mutation' },
+  { key: 'subscriptionType', defaultName: 'Subscription', label: 'Subscriptions', tag: 'subscription' },
+] as const;
+
+/**
+ * Fields of a field's own types are followed this many levels when looking for
+ * dependencies (enough for Relay's UserConnection -> UserEdge -> User)
+ */
+const MAX_TYPE_DEPTH = 2;
+
+/** Dependency edges kept per field, direct references first */
+const MAX_DEPENDENCIES_PER_FIELD = 5;
+
+const TYPE_KINDS = new Set<GraphQLNamedType['kind']>(['OBJECT', 'INTERFACE', 'UNION', 'ENUM', 'INPUT_OBJECT', 'SCALAR']);
+
+/** Types that cannot lead to another part of the API */
+const LEAF_KINDS = new Set<GraphQLNamedType['kind']>(['ENUM', 'SCALAR']);
+
+// =====================================================
+// LOADING
+// =====================================================
+
+/**
+ * Load a GraphQL schema from raw content
+ * Accepts SDL text, an introspection result (with or without the { data } wrapper),
+ * or a browser-rendered page wrapping either in <pre>
+ *
+ * @param content - Raw schema text or HTML
+ * @returns Parsed schema, or null if content is not a GraphQL schema with a root operation type
+ */
+export function loadGraphQLSchema(content: string): GraphQLSchemaDocument | null {
+  if (!content || typeof content !== 'string') {
+    return null;
+  }
+
+  let text = content.replace(/^\uFEFF/, '').trim();
+
+  // Browsers render raw .graphql/.json responses inside a <pre> element
+  if (text.startsWith('<')) {
+    const doc = cheerio.load(text);
+    const pre = doc('body > pre').first();
+    if (pre.length === 0) {
+      return null;
+    }
+    text = pre.text().trim();
+  }
+
+  let schema: GraphQLSchemaDocument | null = null;
+  try {
+    if (text.startsWith('{')) {
+      schema = fromIntrospection(JSON.parse(text));
+    } else if (/^\s*(?:extend\s+)?(?:schema|type|interface|input|enum|union|scalar|directive)\b/m.test(text)) {
+      schema = new SdlParser(text).parseDocument();
+    }
+  } catch {
+    return null;
+  }
+
+  if (!schema) {
+    return null;
+  }
+
+  const hasRootType = ROOT_OPERATIONS.some(({ key }) => {
+    const rootName = schema![key];
+    return !!rootName && (schema!.types[rootName]?.fields.length || 0) > 0;
+  });
+  return hasRootType ? schema : null;
+}
+
+/**
+ * Check whether a URL looks like it points at a raw GraphQL schema
+ * @param url - URL to check
+ * @returns true for .graphql/.graphqls/.gql URLs, and .json URLs named after GraphQL or introspection
+ */
+export function isGraphQLSchemaUrl(url: string): boolean {
+  try {
+    const path = new URL(url).pathname.toLowerCase();
+    return /\.(graphqls?|gql)$/.test(path) || (/\.json$/.test(path) && /(graphql|introspection)/.test(path));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convert an introspection result into a schema document
+ */
+function fromIntrospection(json: unknown): GraphQLSchemaDocument | null {
+  if (!json || typeof json !== 'object') {
+    return null;
+  }
+
+  const wrapper = json as { data?: { __schema?: unknown }; __schema?: unknown };
+  const introspection = (wrapper.data?.__schema || wrapper.__schema) as
+    | {
+        description?: string | null;
+        queryType?: { name?: string } | null;
+        mutationType?: { name?: string } | null;
+        subscriptionType?: { name?: string } | null;
+        types?: IntrospectionType[];
+      }
+    | undefined;
+  if (!introspection || !Array.isArray(introspection.types)) {
+    return null;
+  }
+
+  const types: Record<string, GraphQLNamedType> = {};
+  for (const type of introspection.types) {
+    const kind = type?.kind as GraphQLNamedType['kind'];
+    if (!type?.name || type.name.startsWith('__') || !TYPE_KINDS.has(kind)) continue;
+
+    types[type.name] = {
+      name: type.name,
+      kind,
+      description: type.description || undefined,
+      fields: [...(type.fields || []), ...(type.inputFields || [])].filter((field) => field?.name).map(introspectionField),
+      references: [...(type.possibleTypes || []), ...(type.interfaces || [])]
+        .map((ref) => namedTypeOf(ref))
+        .filter(Boolean),
+    };
+  }
+
+  return {
+    description: introspection.description || undefined,
+    queryType: introspection.queryType?.name || undefined,
+    mutationType: introspection.mutationType?.name || undefined,
+    subscriptionType: introspection.subscriptionType?.name || undefined,
+    types,
+  };
+}
+
+function introspectionField(field: IntrospectionField): GraphQLField {
+  return {
+    name: field.name!,
+    description: field.description || undefined,
+    type: typeRefToString(field.type),
+    namedType: namedTypeOf(field.type),
+    args: (field.args || [])
+      .filter((arg) => arg?.name)
+      .map((arg) => ({ name: arg.name!, type: typeRefToString(arg.type), namedType: namedTypeOf(arg.type) })),
+    deprecated: field.isDeprecated === true,
+    deprecationReason: field.deprecationReason || undefined,
+  };
+}
+
+function typeRefToString(ref: IntrospectionTypeRef | null | undefined): string {
+  if (!ref) return '';
+  if (ref.kind === 'NON_NULL') return `${typeRefToString(ref.ofType)}!`;
+  if (ref.kind === 'LIST') return `[${typeRefToString(ref.ofType)}]`;
+  return ref.name || '';
+}
+
+function namedTypeOf(ref: IntrospectionTypeRef | null | undefined): string {
+  let current = ref;
+  while (current && !current.name && current.ofType) {
+    current = current.ofType;
+  }
+  return current?.name || '';
+}
+
+// =====================================================
+// SDL PARSER
+// =====================================================
+
+interface Token {
+  kind: 'name' | 'punctuator' | 'string' | 'number';
+  value: string;
+}
+
+/**
+ * Recursive-descent parser for GraphQL type system documents (SDL)
+ * Reads type, field and argument definitions with their descriptions and
+ * @deprecated directives; directive definitions, enum values and default
+ * values are parsed but dropped.
+ */
+class SdlParser {
+  private tokens: Token[];
+  private position = 0;
+  private schema: GraphQLSchemaDocument = { types: {} };
+
+  constructor(source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parseDocument(): GraphQLSchemaDocument {
+    while (this.peek()) {
+      this.parseDefinition();
+    }
+
+    // Without a schema definition, root operation types go by their default names
+    for (const { key, defaultName } of ROOT_OPERATIONS) {
+      if (!this.schema[key] && this.schema.types[defaultName]) {
+        this.schema[key] = defaultName;
+      }
+    }
+    return this.schema;
+  }
+
+  private parseDefinition(): void {
+    const description = this.parseDescription();
+    const extend = this.skipKeyword('extend');
+    const keyword = this.expect('name').value;
+
+    switch (keyword) {
+      case 'schema':
+        this.parseDirectives();
+        this.parseSchemaOperations();
+        if (description) this.schema.description = description;
+        return;
+      case 'type':
+      case 'interface':
+      case 'input':
+        return this.parseFieldsType(keyword === 'type' ? 'OBJECT' : keyword === 'interface' ? 'INTERFACE' : 'INPUT_OBJECT', description, extend);
+      case 'union': {
+        const type = this.namedType(this.expect('name').value, 'UNION', description, extend);
+        this.parseDirectives();
+        if (this.skipPunctuator('=')) {
+          this.skipPunctuator('|');
+          do {
+            type.references.push(this.expect('name').value);
+          } while (this.skipPunctuator('|'));
+        }
+        return;
+      }
+      case 'enum':
+        this.namedType(this.expect('name').value, 'ENUM', description, extend);
+        this.parseDirectives();
+        if (this.skipPunctuator('{')) {
+          while (!this.skipPunctuator('}')) {
+            this.parseDescription();
+            this.expect('name');
+            this.parseDirectives();
+          }
+        }
+        return;
+      case 'scalar':
+        this.namedType(this.expect('name').value, 'SCALAR', description, extend);
+        this.parseDirectives();
+        return;
+      case 'directive':
+        this.expectPunctuator('@');
+        this.expect('name');
+        if (this.peekPunctuator('(')) this.parseArgumentDefinitions();
+        this.skipKeyword('repeatable');
+        this.expectKeyword('on');
+        this.skipPunctuator('|');
+        do {
+          this.expect('name');
+        } while (this.skipPunctuator('|'));
+        return;
+      default:
+        // Queries and fragments are not schemas
+        throw new Error(`Unexpected "${keyword}" in GraphQL schema`);
+    }
+  }
+
+  private parseSchemaOperations(): void {
+    if (!this.skipPunctuator('{')) return;
+    while (!this.skipPunctuator('}')) {
+      const operation = this.expect('name').value;
+      this.expectPunctuator(':');
+      const typeName = this.expect('name').value;
+      const root = ROOT_OPERATIONS.find(({ defaultName }) => defaultName.toLowerCase() === operation);
+      if (root) this.schema[root.key] = typeName;
+    }
+  }
+
+  private parseFieldsType(kind: GraphQLNamedType['kind'], description: string | undefined, extend: boolean): void {
+    const type = this.namedType(this.expect('name').value, kind, description, extend);
+
+    if (this.skipKeyword('implements')) {
+      this.skipPunctuator('&');
+      do {
+        type.references.push(this.expect('name').value);
+      } while (this.skipPunctuator('&') || (this.peek()?.kind === 'name' && !this.isDefinitionStart()));
+    }
+    this.parseDirectives();
+
+    if (!this.skipPunctuator('{')) return;
+    while (!this.skipPunctuator('}')) {
+      const fieldDescription = this.parseDescription();
+      const name = this.expect('name').value;
+      const args = this.peekPunctuator('(') ? this.parseArgumentDefinitions() : [];
+      this.expectPunctuator(':');
+      const { type: fieldType, namedType } = this.parseType();
+      if (this.skipPunctuator('=')) this.parseValue();
+      const directives = this.parseDirectives();
+      const deprecated = directives.get('deprecated');
+
+      type.fields.push({
+        name,
+        description: fieldDescription,
+        type: fieldType,
+        namedType,
+        args,
+        deprecated: deprecated !== undefined,
+        deprecationReason: deprecated ? deprecated.reason || undefined : undefined,
+      });
+    }
+  }
+
+  private parseArgumentDefinitions(): GraphQLField['args'] {
+    const args: GraphQLField['args'] = [];
+    this.expectPunctuator('(');
+    while (!this.skipPunctuator(')')) {
+      this.parseDescription();
+      const name = this.expect('name').value;
+      this.expectPunctuator(':');
+      const { type, namedType } = this.parseType();
+      if (this.skipPunctuator('=')) this.parseValue();
+      this.parseDirectives();
+      args.push({ name, type, namedType });
+    }
+    return args;
+  }
+
+  private parseType(): { type: string; namedType: string } {
+    let result: { type: string; namedType: string };
+    if (this.skipPunctuator('[')) {
+      const inner = this.parseType();
+      this.expectPunctuator(']');
+      result = { type: `[${inner.type}]`, namedType: inner.namedType };
+    } else {
+      const name = this.expect('name').value;
+      result = { type: name, namedType: name };
+    }
+    if (this.skipPunctuator('!')) {
+      result.type += '!';
+    }
+    return result;
+  }
+
+  /**
+   * Parse directives, returning the string arguments of each by directive name
+   */
+  private parseDirectives(): Map<string, Record<string, string>> {
+    const directives = new Map<string, Record<string, string>>();
+    while (this.skipPunctuator('@')) {
+      const name = this.expect('name').value;
+      const args: Record<string, string> = {};
+      if (this.skipPunctuator('(')) {
+        while (!this.skipPunctuator(')')) {
+          const argName = this.expect('name').value;
+          this.expectPunctuator(':');
+          const value = this.parseValue();
+          if (value !== null) args[argName] = value;
+        }
+      }
+      directives.set(name, args);
+    }
+    return directives;
+  }
+
+  /**
+   * Skip a constant value, returning it if it is a string
+   */
+  private parseValue(): string | null {
+    const token = this.next();
+    if (token.kind === 'string') return token.value;
+    if (token.kind === 'punctuator' && token.value === '$') {
+      this.expect('name');
+    } else if (token.kind === 'punctuator' && token.value === '[') {
+      while (!this.skipPunctuator(']')) this.parseValue();
+    } else if (token.kind === 'punctuator' && token.value === '{') {
+      while (!this.skipPunctuator('}')) {
+        this.expect('name');
+        this.expectPunctuator(':');
+        this.parseValue();
+      }
+    } else if (token.kind === 'punctuator') {
+      throw new Error(`Unexpected "${token.value}" in GraphQL value`);
+    }
+    return null;
+  }
+
+  private parseDescription(): string | undefined {
+    const token = this.peek();
+    if (token?.kind !== 'string') return undefined;
+    this.position++;
+    return token.value.trim() || undefined;
+  }
+
+  /**
+   * Get a type to fill in, merging extensions and repeated definitions into the first one
+   */
+  private namedType(
+    name: string,
+    kind: GraphQLNamedType['kind'],
+    description: string | undefined,
+    extend: boolean
+  ): GraphQLNamedType {
+    const existing = this.schema.types[name];
+    if (existing) {
+      if (!extend && description) existing.description = description;
+      return existing;
+    }
+    const type: GraphQLNamedType = { name, kind, description, fields: [], references: [] };
+    this.schema.types[name] = type;
+    return type;
+  }
+
+  /**
+   * Whether the next tokens start a new definition, which ends an `implements A B` list
+   */
+  private isDefinitionStart(): boolean {
+    const token = this.peek();
+    return token?.kind === 'name' && ['type', 'interface', 'input', 'enum', 'union', 'scalar', 'schema', 'directive', 'extend'].includes(token.value);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) throw new Error('Unexpected end of GraphQL schema');
+    return token;
+  }
+
+  private expect(kind: Token['kind']): Token {
+    const token = this.next();
+    if (token.kind !== kind) throw new Error(`Expected ${kind} but found "${token.value}"`);
+    return token;
+  }
+
+  private expectPunctuator(value: string): void {
+    const token = this.next();
+    if (token.kind !== 'punctuator' || token.value !== value) throw new Error(`Expected "${value}" but found "${token.value}"`);
+  }
+
+  private expectKeyword(value: string): void {
+    if (!this.skipKeyword(value)) throw new Error(`Expected "${value}"`);
+  }
+
+  private peekPunctuator(value: string): boolean {
+    const token = this.peek();
+    return token?.kind === 'punctuator' && token.value === value;
+  }
+
+  private skipPunctuator(value: string): boolean {
+    if (!this.peekPunctuator(value)) return false;
+    this.position++;
+    return true;
+  }
+
+  private skipKeyword(value: string): boolean {
+    const token = this.peek();
+    if (token?.kind !== 'name' || token.value !== value) return false;
+    this.position++;
+    return true;
+  }
+}
+
+/**
+ * Split SDL into tokens, dropping whitespace, commas and comments
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/[\s,]/.test(char)) {
+      i++;
+    } else if (char === '#') {
+      while (i < source.length && source[i] !== '\n' && source[i] !== '\r') i++;
+    } else if (source.startsWith('"""', i)) {
+      const end = source.indexOf('"""', i + 3);
+      if (end === -1) throw new Error('Unterminated block string');
+      tokens.push({ kind: 'string', value: dedentBlockString(source.slice(i + 3, end).replace(/\\"""/g, '"""')) });
+      i = end + 3;
+    } else if (char === '"') {
+      let value = '';
+      i++;
+      while (source[i] !== '"') {
+        if (i >= source.length || source[i] === '\n') throw new Error('Unterminated string');
+        if (source[i] === '\\') {
+          const escaped = source[i + 1];
+          if (escaped === 'u') {
+            value += String.fromCharCode(parseInt(source.slice(i + 2, i + 6), 16));
+            i += 6;
+            continue;
+          }
+          value += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' } as Record<string, string>)[escaped] ?? escaped;
+          i += 2;
+          continue;
+        }
+        value += source[i++];
+      }
+      tokens.push({ kind: 'string', value });
+      i++;
+    } else if (source.startsWith('...', i)) {
+      tokens.push({ kind: 'punctuator', value: '...' });
+      i += 3;
+    } else if ('!$&()[]{}:=@|'.includes(char)) {
+      tokens.push({ kind: 'punctuator', value: char });
+      i++;
+    } else {
+      const match = source.slice(i).match(/^(?:[_A-Za-z][_0-9A-Za-z]*|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)/);
+      if (!match) throw new Error(`Unexpected character "${char}"`);
+      tokens.push({ kind: /^[_A-Za-z]/.test(match[0]) ? 'name' : 'number', value: match[0] });
+      i += match[0].length;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Remove the common indentation of a block string, like GraphQL's BlockStringValue()
+ */
+function dedentBlockString(raw: string): string {
+  const lines = raw.split(/\r\n|\n|\r/);
+  const indents = lines
+    .slice(1)
+    .filter((line) => line.trim().length > 0)
+    .map((line) => line.match(/^[ \t]*/)![0].length);
+  const common = indents.length > 0 ? Math.min(...indents) : 0;
+
+  return lines
+    .map((line, index) => (index === 0 ? line : line.slice(common)))
+    .join('\n')
+    .trim();
+}
+
+// =====================================================
+// STRATEGY
+// =====================================================
+
+/**
+ * GraphQL strategy for GraphQL-only APIs
+ * Root operation types become features, their fields become components, and
+ * fields that use a type another field returns depend on that field
+ */
+export class GraphQLStrategy extends BaseStrategy {
+  readonly name = 'graphql';
+
+  canHandle(html: string, _url: string): boolean {
+    return loadGraphQLSchema(html) !== null;
+  }
+
+  async parse(html: string, url: string): Promise<ParseResult> {
+    const schema = loadGraphQLSchema(html);
+    if (!schema) {
+      throw new Error('Content is not a valid GraphQL schema');
+    }
+
+    const warnings: string[] = [];
+    const nodes: ExtractedNode[] = [];
+    const edges: ExtractedEdge[] = [];
+    const usedIds = new Set<string>();
+    const docUrl = url.startsWith('http') ? url : undefined;
+
+    const uniqueId = (label: string, type: ExtractedNode['type']): string => {
+      const baseId = generateNodeId(label, type);
+      let id = baseId;
+      let suffix = 2;
+      while (usedIds.has(id)) {
+        id = `${baseId}-${suffix++}`;
+      }
+      usedIds.add(id);
+      return id;
+    };
+
+    // =====================================================
+    // PRODUCT
+    // =====================================================
+
+    const title = this.hostnameOf(url) || 'GraphQL API';
+    const productId = uniqueId(title, 'product');
+    nodes.push({
+      id: productId,
+      type: 'product',
+      data: {
+        label: title,
+        description: truncateDescription(schema.description || '', 200),
+        docUrl,
+        tags: ['GraphQL'],
+      },
+      level: 1,
+    });
+
+    // =====================================================
+    // FEATURES (ROOT OPERATION TYPES) AND COMPONENTS (FIELDS)
+    // =====================================================
+
+    const rootTypes = new Set(ROOT_OPERATIONS.map(({ key }) => schema[key]).filter((name): name is string => !!name));
+    const fieldNodes: Array<{ componentId: string; field: GraphQLField }> = [];
+
+    for (const { key, label, tag } of ROOT_OPERATIONS) {
+      const rootType = schema[key] ? schema.types[schema[key]!] : undefined;
+      if (!rootType || rootType.fields.length === 0) continue;
+
+      const featureId = uniqueId(label, 'feature');
+      nodes.push({
+        id: featureId,
+        type: 'feature',
+        data: {
+          label,
+          description: truncateDescription(rootType.description || `Fields of the ${rootType.name} type`, 200),
+          docUrl,
+        },
+        level: 2,
+      });
+      edges.push({
+        id: `${productId}-${featureId}`,
+        source: productId,
+        target: featureId,
+        type: 'hierarchy',
+        confidence: 0.95,
+        inferenceMethod: 'explicit',
+      });
+
+      for (const field of rootType.fields) {
+        const componentId = uniqueId(sanitizeText(field.name), 'component');
+        const signature = this.signatureOf(field);
+        nodes.push({
+          id: componentId,
+          type: 'component',
+          data: {
+            label: sanitizeText(field.name),
+            description: truncateDescription(field.description || signature, 200),
+            tags: [tag, ...(field.deprecated ? ['deprecated'] : [])],
+            status: field.deprecated ? 'deprecated' : undefined,
+          },
+          level: 3,
+          statusEvidence: field.deprecated
+            ? {
+                status: 'deprecated',
+                source: 'spec',
+                text: `${rootType.name}.${field.name} @deprecated${field.deprecationReason ? `: ${field.deprecationReason}` : ''}`,
+              }
+            : undefined,
+        });
+        edges.push({
+          id: `${featureId}-${componentId}`,
+          source: featureId,
+          target: componentId,
+          type: 'hierarchy',
+          confidence: 0.95,
+          inferenceMethod: 'explicit',
+        });
+        fieldNodes.push({ componentId, field });
+      }
+    }
+
+    if (fieldNodes.length === 0) {
+      warnings.push('GraphQL schema contains no root operation fields');
+    }
+
+    // =====================================================
+    // DEPENDENCY EDGES (TYPE REFERENCES)
+    // =====================================================
+
+    edges.push(...this.buildDependencyEdges(schema, fieldNodes, rootTypes));
+
+    return {
+      nodes,
+      edges,
+      metadata: {
+        source_url: url,
+        generated_at: new Date().toISOString(),
+        strategy: this.name,
+        confidence: fieldNodes.length > 0 ? this.confidence() : 0.5,
+        warnings,
+        stats: {
+          nodes_extracted: nodes.length,
+          nodes_final: nodes.length,
+          edges_extracted: edges.length,
+          nodes_deduplicated: 0,
+          nodes_filtered: 0,
+          duration_ms: 0,
+        },
+      },
+    };
+  }
+
+  confidence(): number {
+    // Schemas are explicit, machine-readable structure
+    return 0.95;
+  }
+
+  // =====================================================
+  // EDGE EXTRACTION
+  // =====================================================
+
+  /**
+   * Each type belongs to the root field that uses it most directly (return
+   * types weigh more than argument types). A field that uses a type owned by
+   * another field, directly or through the fields of its own types, depends on it.
+   */
+  private buildDependencyEdges(
+    schema: GraphQLSchemaDocument,
+    fieldNodes: Array<{ componentId: string; field: GraphQLField }>,
+    rootTypes: Set<string>
+  ): ExtractedEdge[] {
+    const isComposite = (name: string) => {
+      const type = schema.types[name];
+      return !!type && !LEAF_KINDS.has(type.kind) && !rootTypes.has(name);
+    };
+
+    // Ownership: the first field with the highest weight wins
+    const typeOwner = new Map<string, { componentId: string; weight: number }>();
+    const claim = (typeName: string, componentId: string, weight: number) => {
+      const current = typeOwner.get(typeName);
+      if (isComposite(typeName) && (!current || weight > current.weight)) {
+        typeOwner.set(typeName, { componentId, weight });
+      }
+    };
+    fieldNodes.forEach(({ componentId, field }) => claim(field.namedType, componentId, 2));
+    fieldNodes.forEach(({ componentId, field }) => field.args.forEach((arg) => claim(arg.namedType, componentId, 1)));
+
+    const edges: ExtractedEdge[] = [];
+
+    fieldNodes.forEach(({ componentId, field }) => {
+      const used = this.collectTypes(schema, field, isComposite);
+      const typesByTarget = new Map<string, string[]>();
+
+      used.forEach((typeName) => {
+        const owner = typeOwner.get(typeName)?.componentId;
+        if (!owner || owner === componentId) return;
+        const types = typesByTarget.get(owner) || [];
+        types.push(typeName);
+        typesByTarget.set(owner, types);
+      });
+
+      Array.from(typesByTarget)
+        .slice(0, MAX_DEPENDENCIES_PER_FIELD)
+        .forEach(([targetId, types]) => {
+          edges.push({
+            id: `${componentId}-${targetId}`,
+            source: componentId,
+            target: targetId,
+            type: 'depends-on',
+            label: types.slice(0, 3).join(', '),
+            confidence: 0.75,
+            inferenceMethod: 'explicit',
+          });
+        });
+    });
+
+    return edges;
+  }
+
+  /**
+   * Composite types a field uses: its return and argument types, then the
+   * types of their fields and members, breadth first
+   */
+  private collectTypes(schema: GraphQLSchemaDocument, field: GraphQLField, isComposite: (name: string) => boolean): string[] {
+    const seen = new Set<string>();
+    let level = [field.namedType, ...field.args.map((arg) => arg.namedType)].filter(isComposite);
+
+    for (let depth = 0; depth <= MAX_TYPE_DEPTH && level.length > 0; depth++) {
+      const nextLevel: string[] = [];
+      level.forEach((typeName) => {
+        if (seen.has(typeName)) return;
+        seen.add(typeName);
+
+        const type = schema.types[typeName];
+        const referenced = [
+          ...type.references,
+          ...type.fields.flatMap((child) => [child.namedType, ...child.args.map((arg) => arg.namedType)]),
+        ];
+        nextLevel.push(...referenced.filter(isComposite));
+      });
+      level = nextLevel;
+    }
+
+    return Array.from(seen);
+  }
+
+  // =====================================================
+  // HELPERS
+  // =====================================================
+
+  private signatureOf(field: GraphQLField): string {
+    const args = field.args.map((arg) => `${arg.name}: ${arg.type}`).join(', ');
+    return `${field.name}${args ? `(${args})` : ''}: ${field.type}`;
+  }
+
+  private hostnameOf(url: string): string {
+    try {
+      const parsed = new URL(url);
+      return /^https?:$/.test(parsed.protocol) ? parsed.hostname.replace(/^www\./, '') : '';
+    } catch {
+      return '';
+    }
+  }
+}
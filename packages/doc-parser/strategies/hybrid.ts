@@ -105,6 +105,7 @@ export function parseHybrid(html: string, baseUrl: string): HybridParseResult {
           label,
           description: '',
         },
+        sourceSelector: 'h2, h3, h4',
       });
       
       // Connect to root
@@ -159,6 +160,7 @@ export function parseHybrid(html: string, baseUrl: string): HybridParseResult {
           label,
           description: '',
         },
+        sourceSelector: 'li, strong, b, .feature, .item',
       });
       
       edges.push({
@@ -174,6 +176,7 @@ export function parseHybrid(html: string, baseUrl: string): HybridParseResult {
   if (nodes.length < 5) {
     const navSelectors = ['nav', '[role="navigation"]', 'aside', '.sidebar', '.nav', '.menu'];
     let bestNavElement: any = null;
+    let bestSelector = '';
     let maxLinks = 0;
     
     for (const selector of navSelectors) {
@@ -182,6 +185,7 @@ export function parseHybrid(html: string, baseUrl: string): HybridParseResult {
         if (links.length > maxLinks) {
           maxLinks = links.length;
           bestNavElement = el;
+          bestSelector = selector;
         }
       });
     }
@@ -238,6 +242,7 @@ export function parseHybrid(html: string, baseUrl: string): HybridParseResult {
             description: '',
             docUrl: href.startsWith('http') ? href : new URL(href, baseUrl).toString(),
           },
+          sourceSelector: `${bestSelector} a`,
         });
         
         edges.push({
@@ -0,0 +1,106 @@
+// Unit tests for keyword and summary extraction
+
+import { describe, it, expect } from 'vitest';
+import * as cheerio from 'cheerio';
+import { extractPageText, buildTermIndex, extractKeywords, summarize } from './keywords';
+
+const webhooksPage = [
+  'Webhooks notify your server when events happen in your Acme account.',
+  'Each webhook delivery is signed, so verify the webhook signature with your signing secret.',
+  'Failed deliveries are retried with exponential backoff for up to three days.',
+  'The Acme API sends webhook events for payments, refunds and disputes.',
+].join('\n');
+
+const paymentsPage = [
+  'Payments move money from your customers to your Acme account.',
+  'Create a payment with the Acme API and confirm it once the customer approves.',
+  'Refunds return a payment to the customer, in full or in part.',
+].join('\n');
+
+const authPage = [
+  'Every request to the Acme API is authenticated with an API key.',
+  'Rate limits apply per API key. Requests over the rate limits return a 429 status.',
+].join('\n');
+
+const index = buildTermIndex([webhooksPage, paymentsPage, authPage]);
+
+describe('extractPageText', () => {
+  it('should collect prose from the content area, by section', () => {
+    const $ = cheerio.load(`
+      <nav><ul><li>Home</li><li>Pricing</li></ul></nav>
+      <main>
+        <h1>Webhooks</h1>
+        <p>Receive events as they happen.</p>
+        <h2>Verifying <code>signatures</code></h2>
+        <p>Check the signature header.</p>
+        <pre><code>verify(payload, header)</code></pre>
+        <ul><li><p>Use the raw body.</p></li><li>Reject old timestamps.</li></ul>
+        <h2>Retries</h2>
+        <p>Deliveries are retried for three days.</p>
+      </main>
+    `);
+
+    const page = extractPageText($);
+
+    expect(page.text.split('\n')).toEqual([
+      'Receive events as they happen.',
+      'Check the signature header.',
+      'Use the raw body.',
+      'Reject old timestamps.',
+      'Deliveries are retried for three days.',
+    ]);
+    expect(page.sections.get('verifying signatures')).toBe(
+      'Check the signature header.\nUse the raw body.\nReject old timestamps.'
+    );
+    expect(page.sections.get('retries')).toBe('Deliveries are retried for three days.');
+  });
+});
+
+describe('extractKeywords', () => {
+  it('should rank the words that set a page apart first', () => {
+    const keywords = extractKeywords(webhooksPage, index);
+
+    expect(keywords[0]).toBe('webhook');
+    expect(keywords.length).toBeLessThanOrEqual(5);
+    // In every page, so not distinctive
+    expect(keywords).not.toContain('acme');
+  });
+
+  it('should keep repeated two-word phrases instead of their words', () => {
+    const keywords = extractKeywords(authPage, index);
+
+    expect(keywords).toContain('rate limits');
+    expect(keywords).not.toContain('rate');
+    expect(keywords).not.toContain('limits');
+  });
+
+  it('should fold plurals and leave out excluded words', () => {
+    const keywords = extractKeywords(webhooksPage, index, { exclude: 'Webhooks' });
+
+    expect(keywords).not.toContain('webhook');
+    expect(keywords).not.toContain('webhooks');
+    expect(extractKeywords(webhooksPage, index, { limit: 2 })).toHaveLength(2);
+  });
+
+  it('should return nothing for empty text', () => {
+    expect(extractKeywords('', index)).toEqual([]);
+  });
+});
+
+describe('summarize', () => {
+  it('should pick the most representative sentences in their original order', () => {
+    const summary = summarize(webhooksPage, index);
+
+    expect(summary.length).toBeLessThanOrEqual(200);
+    expect(summary.startsWith('Webhooks notify your server')).toBe(true);
+    expect(summary).toContain('webhook signature');
+  });
+
+  it('should respect the maximum length', () => {
+    expect(summarize(paymentsPage, index, 80).length).toBeLessThanOrEqual(80);
+  });
+
+  it('should skip fragments that are not sentences', () => {
+    expect(summarize('Quickstart\nInstall the SDK:\nAPI keys', index)).toBe('');
+  });
+});
@@ -0,0 +1,282 @@
+// Keyword and summary extraction for crawled pages
+// Scores terms by TF-IDF across the crawled pages, so words every page uses
+// ("API", "request") rank below the ones that set a page apart. Summaries are
+// the page's own most representative sentences; no external service is used.
+
+import type * as cheerio from 'cheerio';
+import { sanitizeText, truncateDescription } from '../utils';
+import { pageContent } from './link-graph';
+
+/**
+ * Readable text of a page and of each of its sections
+ */
+export interface PageText {
+  /** Prose of the page content, one block (paragraph, list item) per line */
+  text: string;
+  /** Prose under each h2-h4 heading, keyed by the lowercased heading */
+  sections: Map<string, string>;
+}
+
+/**
+ * How many documents of a corpus each term appears in
+ */
+export interface TermIndex {
+  documentCount: number;
+  documentFrequency: Map<string, number>;
+}
+
+export interface KeywordOptions {
+  /** Maximum keywords returned (default: 5) */
+  limit?: number;
+  /** Text whose words are not worth repeating as keywords, such as the node label */
+  exclude?: string;
+}
+
+/** Elements holding prose; code blocks and navigation are left out */
+const TEXT_BLOCK_SELECTORS = 'h1, h2, h3, h4, p, li, dd, td, blockquote';
+
+/** Sentences shorter than this are usually labels or fragments */
+const MIN_SENTENCE_LENGTH = 40;
+
+/** Sentences longer than this are usually run-on list items or tables */
+const MAX_SENTENCE_LENGTH = 300;
+
+/** Sentences picked for a summary */
+const MAX_SUMMARY_SENTENCES = 2;
+
+/** Extra weight for the first sentence: documentation pages lead with what the page is about */
+const LEAD_SENTENCE_BOOST = 1.25;
+
+/** Extra weight for two-word phrases, which say more than either word ("rate limits" vs "rate") */
+const PHRASE_BOOST = 1.5;
+
+/** Function words, plus words that appear in every documentation site */
+const STOPWORDS = new Set([
+  'about', 'above', 'after', 'again', 'all', 'also', 'always', 'among', 'and', 'another', 'any', 'are',
+  'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'can', 'cannot', 'could',
+  'did', 'does', 'doing', 'done', 'down', 'during', 'each', 'either', 'else', 'etc', 'even', 'ever',
+  'every', 'few', 'for', 'from', 'further', 'get', 'gets', 'getting', 'given', 'goes', 'going', 'got',
+  'had', 'has', 'have', 'having', 'her', 'here', 'hers', 'him', 'his', 'how', 'however', 'into', 'its',
+  'itself', 'just', 'least', 'less', 'let', 'lets', 'like', 'made', 'make', 'makes', 'many', 'may',
+  'might', 'more', 'most', 'much', 'must', 'need', 'needs', 'never', 'new', 'next', 'nor', 'not', 'now',
+  'off', 'often', 'once', 'one', 'only', 'onto', 'other', 'others', 'otherwise', 'our', 'ours', 'out',
+  'over', 'own', 'per', 'please', 'rather', 'same', 'see', 'several', 'shall', 'she', 'should', 'since',
+  'some', 'still', 'such', 'than', 'that', 'the', 'their', 'theirs', 'them', 'then', 'there', 'these',
+  'they', 'this', 'those', 'though', 'through', 'thus', 'too', 'two', 'under', 'until', 'upon', 'use',
+  'used', 'uses', 'using', 'very', 'via', 'want', 'was', 'way', 'well', 'were', 'what', 'when', 'where',
+  'whether', 'which', 'while', 'who', 'whom', 'whose', 'why', 'will', 'with', 'within', 'without',
+  'would', 'yet', 'you', 'your', 'yours', 'yourself',
+  // Documentation boilerplate
+  'learn', 'guide', 'guides', 'doc', 'docs', 'documentation', 'page', 'pages', 'section', 'sections',
+  'example', 'examples', 'following', 'follow', 'click', 'read', 'more', 'information', 'info', 'note',
+  'refer', 'available', 'able', 'allows', 'allow', 'enable', 'enables', 'provides', 'provide', 'support',
+  'supports', 'includes', 'include', 'overview', 'introduction', 'tutorial', 'step', 'steps', 'first',
+  'true', 'false', 'null', 'default', 'optional', 'required', 'string', 'integer', 'boolean', 'object',
+]);
+
+/**
+ * Collect the prose of a page's content area
+ * Navigation, sidebars and code blocks are skipped, so menus and sample code
+ * do not crowd out the words that describe the page
+ * @param $ - Loaded page
+ */
+export function extractPageText($: cheerio.CheerioAPI): PageText {
+  const content = pageContent($);
+  const blocks: string[] = [];
+  const sections = new Map<string, string[]>();
+  let section: string[] | null = null;
+
+  content.find(TEXT_BLOCK_SELECTORS).each((_, el) => {
+    const $el = $(el);
+    const tag = el.tagName.toLowerCase();
+    if ($el.closest('pre').length > 0) return;
+
+    if (tag === 'h1') {
+      section = null;
+      return;
+    }
+    if (/^h[2-4]$/.test(tag)) {
+      const key = sanitizeText($el.text().trim()).toLowerCase();
+      section = sections.get(key) || [];
+      sections.set(key, section);
+      return;
+    }
+    // Containers whose paragraphs and items are collected on their own
+    if ((tag === 'li' || tag === 'blockquote' || tag === 'td' || tag === 'dd') && $el.find('p, li').length > 0) return;
+
+    const text = $el.text().replace(/\s+/g, ' ').trim();
+    if (!text) return;
+    blocks.push(text);
+    section?.push(text);
+  });
+
+  return {
+    text: blocks.join('\n'),
+    sections: new Map(Array.from(sections, ([key, texts]) => [key, texts.join('\n')])),
+  };
+}
+
+/**
+ * Count the documents each term appears in
+ * @param documents - Text of every crawled page
+ */
+export function buildTermIndex(documents: string[]): TermIndex {
+  const documentFrequency = new Map<string, number>();
+  for (const document of documents) {
+    for (const term of new Set(analyze(document).counts.keys())) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+  return { documentCount: documents.length, documentFrequency };
+}
+
+/**
+ * Pick the terms that best set a text apart from the rest of the corpus
+ * Two-word phrases count when they appear at least twice ("rate limits",
+ * "api keys"); a phrase and its own words are never both returned
+ * @param text - Page or section text
+ * @param index - Term index of the crawled pages
+ * @param options - Limit and words to leave out
+ * @returns Lowercase keywords, best first
+ */
+export function extractKeywords(text: string, index: TermIndex, options: KeywordOptions = {}): string[] {
+  const { limit = 5, exclude = '' } = options;
+  const { counts, forms } = analyze(text);
+  const excluded = new Set(tokenize(exclude).map(termKey));
+
+  const ranked = Array.from(counts)
+    .filter(([term, count]) => !term.includes(' ') || count >= 2)
+    .filter(([term]) => !term.split(' ').every((word) => excluded.has(word)))
+    .map(([term, count]) => ({ term, weight: termWeight(term, count, index) }))
+    .sort((a, b) => b.weight - a.weight);
+
+  const keywords: string[] = [];
+  const usedWords = new Set<string>();
+  for (const { term } of ranked) {
+    if (keywords.length >= limit) break;
+    const words = term.split(' ');
+    if (words.some((word) => usedWords.has(word))) continue;
+    words.forEach((word) => usedWords.add(word));
+    keywords.push(forms.get(term) || term);
+  }
+  return keywords;
+}
+
+/**
+ * Summarize a text with its most representative sentences
+ * Sentences are scored by the TF-IDF weight of their words; the best ones
+ * that fit are returned in their original order
+ * @param text - Page or section text
+ * @param index - Term index of the crawled pages
+ * @param maxLength - Maximum summary length (default: 200)
+ * @returns Summary, or an empty string if the text has no usable sentences
+ */
+export function summarize(text: string, index: TermIndex, maxLength: number = 200): string {
+  const { counts } = analyze(text);
+  const sentences = splitSentences(text)
+    .map((sentence, position) => {
+      const terms = new Set(tokenize(sentence).filter(isTerm).map(termKey));
+      const weight = Array.from(terms).reduce((sum, term) => sum + termWeight(term, counts.get(term) || 1, index), 0);
+      // Normalize by length so long sentences do not win on word count alone
+      const score = (weight / Math.sqrt(Math.max(terms.size, 1))) * (position === 0 ? LEAD_SENTENCE_BOOST : 1);
+      return { sentence, position, score };
+    })
+    .filter(({ sentence }) => sentence.length >= MIN_SENTENCE_LENGTH && sentence.length <= MAX_SENTENCE_LENGTH)
+    .filter(({ sentence }) => /[.!?]$/.test(sentence))
+    .sort((a, b) => b.score - a.score);
+
+  if (sentences.length === 0) {
+    return '';
+  }
+
+  const picked = [sentences[0]];
+  let length = sentences[0].sentence.length;
+  for (const candidate of sentences.slice(1)) {
+    if (picked.length >= MAX_SUMMARY_SENTENCES) break;
+    if (length + 1 + candidate.sentence.length <= maxLength) {
+      picked.push(candidate);
+      length += 1 + candidate.sentence.length;
+    }
+  }
+
+  const summary = picked
+    .sort((a, b) => a.position - b.position)
+    .map(({ sentence }) => sentence)
+    .join(' ');
+  return truncateDescription(summary, maxLength);
+}
+
+/**
+ * Count terms (words and two-word phrases) and remember how each is written
+ */
+function analyze(text: string): { counts: Map<string, number>; forms: Map<string, string> } {
+  const counts = new Map<string, number>();
+  const formCounts = new Map<string, Map<string, number>>();
+  const add = (term: string, form: string) => {
+    counts.set(term, (counts.get(term) || 0) + 1);
+    const termForms = formCounts.get(term) || new Map<string, number>();
+    termForms.set(form, (termForms.get(form) || 0) + 1);
+    formCounts.set(term, termForms);
+  };
+
+  for (const sentence of splitSentences(text)) {
+    let previous: string | null = null;
+    for (const word of tokenize(sentence)) {
+      if (!isTerm(word)) {
+        previous = null;
+        continue;
+      }
+      add(termKey(word), word);
+      if (previous) {
+        add(`${termKey(previous)} ${termKey(word)}`, `${previous} ${word}`);
+      }
+      previous = word;
+    }
+  }
+
+  // Show each term the way the page writes it most often
+  const forms = new Map<string, string>();
+  for (const [term, termForms] of formCounts) {
+    const [form] = Array.from(termForms).sort((a, b) => b[1] - a[1])[0];
+    forms.set(term, form);
+  }
+  return { counts, forms };
+}
+
+function termWeight(term: string, count: number, index: TermIndex): number {
+  const documentFrequency = index.documentFrequency.get(term) || 0;
+  // Smoothed so terms found in every page still count a little
+  const inverseFrequency = Math.log((1 + index.documentCount) / (1 + documentFrequency)) + 1;
+  return (1 + Math.log(count)) * inverseFrequency * (term.includes(' ') ? PHRASE_BOOST : 1);
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split('\n')
+    .flatMap((block) => block.split(/(?<=[.!?])\s+(?=["'(`]?[A-Z0-9])/))
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Lowercase words, without possessives (contractions are dropped by isTerm)
+ */
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/['’]s\b/g, '')
+    .match(/[a-z][a-z0-9]*(?:['’-][a-z0-9]+)*/g) || [];
+}
+
+function isTerm(word: string): boolean {
+  return word.length >= 3 && word.length <= 30 && !/['’]/.test(word) && !STOPWORDS.has(word);
+}
+
+/**
+ * Fold simple plurals so "webhook" and "webhooks" count as one term
+ */
+function termKey(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !/(?:ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+}
@@ -0,0 +1,117 @@
+// Unit tests for hyperlink graph edge inference
+
+import { describe, it, expect } from 'vitest';
+import { extractContentLinks, buildLinkEdges } from './link-graph';
+import type { PageLink } from './link-graph';
+
+describe('extractContentLinks', () => {
+  it('should only read links from the content area', () => {
+    const html = `
+      <body>
+        <nav><a href="/docs/everything">Everything</a></nav>
+        <main>
+          <aside class="sidebar"><a href="/docs/sidebar-page">Sidebar page</a></aside>
+          <p>Send <a href="/docs/events/">usage events</a> first.</p>
+          <a href="https://other.example.com/docs">Elsewhere</a>
+          <a href="#section">Anchor</a>
+          <a href="/docs/billing">Self</a>
+        </main>
+        <footer><a href="/docs/terms">Terms</a></footer>
+      </body>`;
+
+    const links = extractContentLinks(html, 'https://docs.acme.com/docs/billing');
+
+    expect(links).toEqual([{ url: 'https://docs.acme.com/docs/events', text: 'usage events', cue: null }]);
+  });
+
+  it('should read cues from the sentence and the section heading', () => {
+    const html = `
+      <article>
+        <p>This feature requires <a href="/docs/auth">API keys</a> to be set up.</p>
+        <p>Invoices are generated from <a href="/docs/plans">plans</a>.</p>
+        <h2>See also</h2>
+        <ul><li><a href="/docs/credits">Credits</a></li></ul>
+        <h2>Prerequisites</h2>
+        <ul><li><a href="/docs/customers">Customers</a></li></ul>
+      </article>`;
+
+    const cues = extractContentLinks(html, 'https://docs.acme.com/docs/invoices').map((link) => [link.text, link.cue]);
+
+    expect(cues).toEqual([
+      ['API keys', 'depends-on'],
+      ['plans', null],
+      ['Credits', 'related'],
+      ['Customers', 'depends-on'],
+    ]);
+  });
+});
+
+describe('buildLinkEdges', () => {
+  const nodeIdByUrl = new Map([
+    ['https://docs.acme.com/docs/billing', 'feature-billing'],
+    ['https://docs.acme.com/docs/metering', 'feature-metering'],
+    ['https://docs.acme.com/docs/auth', 'feature-auth'],
+    ['https://docs.acme.com/docs/billing/invoices', 'component-invoices'],
+  ]);
+
+  const link = (path: string, cue: PageLink['cue'] = null): PageLink => ({
+    url: `https://docs.acme.com/docs/${path}`,
+    text: path,
+    cue,
+  });
+
+  it('should make related edges weighted by link count', () => {
+    const edges = buildLinkEdges(
+      new Map([['feature-billing', [link('metering'), link('metering'), link('unknown')]]]),
+      nodeIdByUrl,
+      []
+    );
+
+    expect(edges).toEqual([{
+      id: 'link-feature-billing-feature-metering',
+      source: 'feature-billing',
+      target: 'feature-metering',
+      type: 'related',
+      confidence: 0.6,
+      inferenceMethod: 'explicit',
+    }]);
+  });
+
+  it('should make depends-on edges from prerequisite cues', () => {
+    const edges = buildLinkEdges(
+      new Map([['feature-billing', [link('auth', 'depends-on')]], ['feature-auth', [link('billing')]]]),
+      nodeIdByUrl,
+      []
+    );
+
+    expect(edges).toEqual([expect.objectContaining({
+      source: 'feature-billing',
+      target: 'feature-auth',
+      type: 'depends-on',
+      label: 'requires',
+      confidence: 0.7,
+      inferenceMethod: 'keyword',
+    })]);
+  });
+
+  it('should merge links in both directions into one related edge', () => {
+    const edges = buildLinkEdges(
+      new Map([['feature-billing', [link('metering')]], ['feature-metering', [link('billing', 'related')]]]),
+      nodeIdByUrl,
+      []
+    );
+
+    expect(edges).toHaveLength(1);
+    expect(edges[0].confidence).toBe(0.8);
+  });
+
+  it('should skip pairs that are already connected', () => {
+    const edges = buildLinkEdges(
+      new Map([['feature-billing', [link('billing/invoices')]]]),
+      nodeIdByUrl,
+      [{ id: 'edge-feature-billing-component-invoices', source: 'feature-billing', target: 'component-invoices', type: 'hierarchy' }]
+    );
+
+    expect(edges).toEqual([]);
+  });
+});
@@ -0,0 +1,219 @@
+// Hyperlink graph - turns links between crawled pages into relationship edges
+// Only links inside the page content count: navigation menus link everything to everything
+
+import * as cheerio from 'cheerio';
+import type { AnyNode } from 'domhandler';
+import type { ExtractedEdge } from '../types';
+import { normalizePageUrl } from './crawl-plan';
+
+/**
+ * A link found in a page's content
+ */
+export interface PageLink {
+  /** Normalized target URL (no hash, query or trailing slash) */
+  url: string;
+  /** Anchor text */
+  text: string;
+  /** Relationship suggested by the anchor text, its sentence or the section heading */
+  cue: 'depends-on' | 'related' | null;
+}
+
+/** Elements holding the page content, most specific first */
+const CONTENT_SELECTORS = ['main article', 'article', 'main', '[role="main"]', '.markdown', '.content'];
+
+/** Chrome inside the content area that links to many pages */
+const CHROME_SELECTORS = [
+  'nav',
+  'aside',
+  'header',
+  'footer',
+  '[role="navigation"]',
+  '.sidebar',
+  '.toc',
+  '.table-of-contents',
+  '.breadcrumbs',
+  '.pagination-nav',
+  '[class*="sidebar"]',
+  '[class*="breadcrumb"]',
+].join(', ');
+
+/** Wording that makes the linked page a prerequisite */
+const DEPENDS_ON_CUES = /\b(requires?|required|prerequisites?|depends on|dependency|relies on|built on|before you (begin|start)|you (must|need to) first|make sure (you have|to set up))\b/i;
+
+/** Wording that points to a related page */
+const RELATED_CUES = /\b(see also|related|learn more|refer to|compare|alternatively|similar to)\b/i;
+
+/** Section headings whose links are prerequisites or related pages */
+const DEPENDS_ON_HEADINGS = /\b(prerequisites?|requirements|before you begin)\b/i;
+const RELATED_HEADINGS = /\b(see also|related|next steps|learn more|further reading)\b/i;
+
+/** Characters of the surrounding sentence checked for cues */
+const CONTEXT_CHARS = 80;
+
+/** Strongest link edges kept per source node */
+const MAX_LINK_EDGES_PER_NODE = 4;
+
+/**
+ * Extract same-site links from a page's content area
+ * Navigation, sidebars, tables of contents, headers and footers are ignored.
+ *
+ * @param html - Page HTML
+ * @param pageUrl - Page URL (for resolving relative links)
+ * @returns Links to other pages on the same host, in document order
+ */
+export function extractContentLinks(html: string, pageUrl: string): PageLink[] {
+  const $ = cheerio.load(html);
+  const content = pageContent($);
+
+  let host: string;
+  let pagePath: string | null;
+  try {
+    host = new URL(pageUrl).hostname;
+    pagePath = normalizePageUrl(pageUrl);
+  } catch {
+    return [];
+  }
+
+  const links: PageLink[] = [];
+  let headingCue: PageLink['cue'] = null;
+
+  // Headings and links come back in document order, so each link knows its section
+  content.find('h1, h2, h3, h4, h5, h6, a[href]').each((_, element) => {
+    const $element = $(element);
+    const text = $element.text().replace(/\s+/g, ' ').trim();
+
+    if (element.tagName !== 'a') {
+      headingCue = DEPENDS_ON_HEADINGS.test(text) ? 'depends-on' : RELATED_HEADINGS.test(text) ? 'related' : null;
+      return;
+    }
+
+    const href = $element.attr('href') || '';
+    if (!href || href.startsWith('#') || /^(mailto|tel|javascript):/i.test(href)) return;
+
+    let url: string | null;
+    try {
+      const resolved = new URL(href, pageUrl);
+      if (resolved.hostname !== host || !/^https?:$/.test(resolved.protocol)) return;
+      url = normalizePageUrl(resolved.toString());
+    } catch {
+      return;
+    }
+    if (!url || url === pagePath) return;
+
+    // The sentence around the link decides over the section heading
+    const block = $element.closest('p, li, td, dd, blockquote').text().replace(/\s+/g, ' ');
+    const position = Math.max(0, block.indexOf(text));
+    const context = `${block.slice(Math.max(0, position - CONTEXT_CHARS), position)} ${text}`;
+    const cue = DEPENDS_ON_CUES.test(context) ? 'depends-on' : RELATED_CUES.test(context) ? 'related' : headingCue;
+
+    links.push({ url, text, cue });
+  });
+
+  return links;
+}
+
+/**
+ * Copy of a page's content area, without navigation, sidebars, tables of
+ * contents, headers and footers
+ * @param $ - Loaded page
+ * @returns Content element (the body if no content area is marked up)
+ */
+export function pageContent($: cheerio.CheerioAPI): cheerio.Cheerio<AnyNode> {
+  const contentSelector = CONTENT_SELECTORS.find((selector) => $(selector).length > 0);
+  const content = (contentSelector ? $(contentSelector).first() : $('body')).clone();
+  content.find(CHROME_SELECTORS).remove();
+  return content;
+}
+
+/**
+ * Turn links between pages into edges between the nodes those pages became
+ * Links are counted per node pair: more links and cue words such as "requires"
+ * or "see also" raise the confidence. Prerequisite cues make depends-on edges
+ * (from the linking page to the required one); everything else is related.
+ * Pairs already connected (in either direction) are skipped.
+ *
+ * @param linksByNode - Content links of each crawled page, keyed by the page's node ID
+ * @param nodeIdByUrl - Node ID of each page, keyed by normalized URL
+ * @param existingEdges - Edges already in the map
+ * @returns New edges, at most MAX_LINK_EDGES_PER_NODE per source node
+ */
+export function buildLinkEdges(
+  linksByNode: Map<string, PageLink[]>,
+  nodeIdByUrl: Map<string, string>,
+  existingEdges: ExtractedEdge[]
+): ExtractedEdge[] {
+  const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+  const connected = new Set(existingEdges.map((edge) => pairKey(edge.source, edge.target)));
+
+  const stats = new Map<string, { source: string; target: string; count: number; dependsOn: number; related: number }>();
+
+  linksByNode.forEach((links, source) => {
+    for (const link of links) {
+      const target = nodeIdByUrl.get(link.url);
+      if (!target || target === source || connected.has(pairKey(source, target))) continue;
+
+      const key = `${source}->${target}`;
+      const entry = stats.get(key) || { source, target, count: 0, dependsOn: 0, related: 0 };
+      entry.count++;
+      if (link.cue === 'depends-on') entry.dependsOn++;
+      if (link.cue === 'related') entry.related++;
+      stats.set(key, entry);
+    }
+  });
+
+  const candidates: ExtractedEdge[] = [];
+  const relatedPairs = new Map<string, ExtractedEdge>();
+
+  stats.forEach(({ source, target, count, dependsOn, related }) => {
+    const hasCue = dependsOn + related > 0;
+    const confidence = Math.round(Math.min(0.9, 0.5 + 0.1 * (count - 1) + (hasCue ? 0.2 : 0)) * 100) / 100;
+
+    if (dependsOn > 0) {
+      candidates.push({
+        id: `link-${source}-${target}`,
+        source,
+        target,
+        type: 'depends-on',
+        label: 'requires',
+        confidence,
+        inferenceMethod: 'keyword',
+      });
+      return;
+    }
+
+    // Related is symmetric: pages linking to each other make one stronger edge
+    const key = pairKey(source, target);
+    const existing = relatedPairs.get(key);
+    if (existing) {
+      existing.confidence = Math.round(Math.min(0.9, Math.max(existing.confidence || 0, confidence) + 0.1) * 100) / 100;
+      return;
+    }
+
+    const edge: ExtractedEdge = {
+      id: `link-${source}-${target}`,
+      source,
+      target,
+      type: 'related',
+      confidence,
+      inferenceMethod: hasCue ? 'keyword' : 'explicit',
+    };
+    relatedPairs.set(key, edge);
+    candidates.push(edge);
+  });
+
+  // A depends-on edge replaces a related edge for the same pair
+  const dependsOnPairs = new Set(
+    candidates.filter((edge) => edge.type === 'depends-on').map((edge) => pairKey(edge.source, edge.target))
+  );
+
+  const perSource = new Map<string, number>();
+  return candidates
+    .filter((edge) => edge.type === 'depends-on' || !dependsOnPairs.has(pairKey(edge.source, edge.target)))
+    .sort((a, b) => (b.confidence || 0) - (a.confidence || 0))
+    .filter((edge) => {
+      const count = perSource.get(edge.source) || 0;
+      if (count >= MAX_LINK_EDGES_PER_NODE) return false;
+      perSource.set(edge.source, count + 1);
+      return true;
+    });
+}
@@ -0,0 +1,305 @@
+// Unit tests for Markdown directory parsing
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  loadMarkdownDirectory,
+  parseMarkdownFiles,
+  parseFrontmatter,
+  extractObjectLiteral,
+} from './markdown';
+import { parseMarkdownDirectory } from '../parser';
+import type { ParseResult } from '../types';
+
+const labels = (result: ParseResult) => result.nodes.map((node) => node.data.label);
+
+const childrenOf = (result: ParseResult, label: string) => {
+  const parent = result.nodes.find((node) => node.data.label === label)!;
+  return result.edges
+    .filter((edge) => edge.type === 'hierarchy' && edge.source === parent.id)
+    .map((edge) => result.nodes.find((node) => node.id === edge.target)!.data.label);
+};
+
+describe('parseFrontmatter', () => {
+  it('should split YAML frontmatter from the body', () => {
+    const { data, body } = parseFrontmatter('---\ntitle: Setup\nsidebar_position: 2\n---\n# Heading\n');
+
+    expect(data).toEqual({ title: 'Setup', sidebar_position: 2 });
+    expect(body).toBe('# Heading\n');
+  });
+
+  it('should return the whole content without frontmatter', () => {
+    expect(parseFrontmatter('# Just a page')).toEqual({ data: {}, body: '# Just a page' });
+  });
+});
+
+describe('extractObjectLiteral', () => {
+  it('should extract the exported object without comments', () => {
+    const source = `// @ts-check
+/** @type {import('@docusaurus/plugin-content-docs').SidebarsConfig} */
+const sidebars = {
+  // The main sidebar
+  docs: ['intro', 'https://example.com/{x}'],
+};
+
+module.exports = sidebars;`;
+
+    expect(extractObjectLiteral(source)?.replace(/\s+/g, ' ')).toBe(
+      "{ docs: ['intro', 'https://example.com/{x}'], }"
+    );
+  });
+
+  it('should turn single-quoted and template strings into YAML strings', () => {
+    const source = "module.exports = { a: `Tutorial - Basics`, b: `Acme's \\`api\\``, c: 'Acme\\'s API', d: \"say \\\"hi\\\"\" };";
+
+    expect(extractObjectLiteral(source)).toBe(
+      "{ a: 'Tutorial - Basics', b: 'Acme''s `api`', c: 'Acme''s API', d: \"say \\\"hi\\\"\" }"
+    );
+  });
+
+  it('should return null when nothing is exported', () => {
+    expect(extractObjectLiteral('console.log(1);')).toBeNull();
+  });
+});
+
+describe('parseMarkdownFiles', () => {
+  describe('folder structure', () => {
+    const files = {
+      'README.md': '# Acme Platform\n\nAcme runs your billing.\n',
+      'guides/index.md': '---\ntitle: Guides\n---\nStep-by-step guides.\n',
+      'guides/02-webhooks.md': '# Webhooks\n\nReceive events. See [setup](./01-setup.md).\n',
+      'guides/01-setup.md': '---\ntitle: Setup\ntags: [onboarding]\nstatus: preview\n---\nInstall the SDK.\n',
+      'reference/_category_.json': '{ "label": "API Reference", "position": 1 }',
+      'reference/invoices.mdx': "import Tabs from '@theme/Tabs';\n\n# Invoices\n\n<Tabs></Tabs>\n\nCreate and list invoices.\n",
+      'reference/draft.md': '---\ndraft: true\n---\n# Unfinished\n',
+    };
+
+    it('should build the hierarchy from folders', () => {
+      const result = parseMarkdownFiles(files, {}, '/tmp/acme-docs');
+
+      expect(result.metadata.strategy).toBe('markdown');
+      expect(result.metadata.hierarchy_source).toBe('folders');
+      expect(result.nodes[0]).toMatchObject({ type: 'product', data: { label: 'Acme Platform', description: 'Acme runs your billing.' } });
+      expect(childrenOf(result, 'Acme Platform')).toEqual(['API Reference', 'Guides']);
+      expect(childrenOf(result, 'Guides')).toEqual(['Setup', 'Webhooks']);
+      expect(labels(result)).not.toContain('Unfinished');
+    });
+
+    it('should name folders and files with a literal percent sign', () => {
+      const result = parseMarkdownFiles(
+        { 'README.md': '# Acme\n', '100%-uptime/index.md': 'Staying up.\n', '100%-uptime/failover.md': 'Fail over.\n' },
+        {},
+        '/tmp/acme-docs'
+      );
+
+      expect(childrenOf(result, 'Acme')).toEqual(['100% Uptime']);
+    });
+
+    it('should read titles, descriptions, tags and status from pages', () => {
+      const result = parseMarkdownFiles(files);
+
+      const setup = result.nodes.find((node) => node.data.label === 'Setup')!;
+      expect(setup.type).toBe('component');
+      expect(setup.data).toMatchObject({ description: 'Install the SDK.', tags: ['onboarding'], status: 'beta' });
+      expect(setup.statusEvidence).toEqual({ status: 'beta', source: 'frontmatter', text: 'status: preview' });
+
+      const invoices = result.nodes.find((node) => node.data.label === 'Invoices')!;
+      expect(invoices.data.description).toBe('Create and list invoices.');
+    });
+
+    it('should turn internal links into related edges', () => {
+      const result = parseMarkdownFiles(files);
+      const webhooks = result.nodes.find((node) => node.data.label === 'Webhooks')!;
+      const setup = result.nodes.find((node) => node.data.label === 'Setup')!;
+
+      expect(result.edges).toContainEqual(expect.objectContaining({
+        source: webhooks.id,
+        target: setup.id,
+        type: 'related',
+        inferenceMethod: 'explicit',
+      }));
+    });
+
+    it('should resolve docUrls against the base URL', () => {
+      const result = parseMarkdownFiles(files, { baseUrl: 'https://github.com/acme/docs/blob/main' });
+      const setup = result.nodes.find((node) => node.data.label === 'Setup')!;
+
+      expect(setup.data.docUrl).toBe('https://github.com/acme/docs/blob/main/guides/01-setup.md');
+      expect(result.metadata.source_url).toBe('https://github.com/acme/docs/blob/main');
+    });
+
+    it('should prefer an explicit product name', () => {
+      const result = parseMarkdownFiles(files, { productName: 'Billing' });
+      expect(result.nodes[0].data.label).toBe('Billing');
+    });
+  });
+
+  describe('Docusaurus sidebars', () => {
+    const files = {
+      'docusaurus.config.js': "module.exports = {\n  title: 'Acme Docs',\n  url: 'https://docs.acme.dev',\n};\n",
+      'sidebars.js': `module.exports = {
+  docs: [
+    'intro',
+    {
+      type: 'category',
+      label: 'Getting Started',
+      link: { type: 'doc', id: 'start/index' },
+      items: ['start/install', { type: 'doc', id: 'start/configure', label: 'Configuration' }],
+    },
+    { type: 'category', label: 'Reference', items: [{ type: 'autogenerated', dirName: 'reference' }] },
+    { type: 'link', label: 'Blog', href: 'https://acme.dev/blog' },
+    'missing/page',
+  ],
+};`,
+      'docs/intro.md': '# Introduction\n\nWhat Acme is. Start with [installing](start/install).\n',
+      'docs/start/index.md': '# Start here\n',
+      'docs/01-start/install.md': '---\nid: install\n---\n# Install\n',
+      'docs/start/configure.md': '# Configure\n\nSee [the intro](/docs/intro).\n',
+      'docs/reference/b.md': '# Beta API\n',
+      'docs/reference/a.md': '---\nsidebar_position: 1\n---\n# Alpha API\n',
+      'docs/unlisted.md': '# Not in the sidebar\n',
+    };
+
+    it('should follow the sidebar', () => {
+      const result = parseMarkdownFiles(files);
+
+      expect(result.metadata.hierarchy_source).toBe('docusaurus-sidebars');
+      expect(result.nodes[0].data.label).toBe('Acme Docs');
+      expect(childrenOf(result, 'Acme Docs')).toEqual(['Introduction', 'Getting Started', 'Reference']);
+      expect(childrenOf(result, 'Getting Started')).toEqual(['Install', 'Configuration']);
+      expect(childrenOf(result, 'Reference')).toEqual(['Alpha API', 'Beta API']);
+      expect(labels(result)).not.toContain('Not in the sidebar');
+      expect(labels(result)).not.toContain('Blog');
+    });
+
+    it('should read template literal and escaped labels', () => {
+      const result = parseMarkdownFiles({
+        ...files,
+        'sidebars.js': "module.exports = {\n  docs: [{ type: 'category', label: `Tutorial - Basics`, items: [{ type: 'doc', id: 'intro', label: 'Acme\\'s intro' }] }],\n};",
+      });
+
+      expect(result.metadata.hierarchy_source).toBe('docusaurus-sidebars');
+      expect(childrenOf(result, 'Acme Docs')).toEqual(['Tutorial - Basics']);
+      expect(childrenOf(result, 'Tutorial - Basics')).toEqual(["Acme's intro"]);
+    });
+
+    it('should warn about documents the sidebar references but the folder lacks', () => {
+      const result = parseMarkdownFiles(files);
+      expect(result.metadata.warnings).toContainEqual(expect.stringContaining('missing/page'));
+    });
+
+    it('should resolve doc ID and site-absolute links', () => {
+      const result = parseMarkdownFiles(files);
+      const id = (label: string) => result.nodes.find((node) => node.data.label === label)!.id;
+      const related = result.edges.filter((edge) => edge.type === 'related');
+
+      expect(related).toContainEqual(expect.objectContaining({ source: id('Introduction'), target: id('Install') }));
+      expect(related).toContainEqual(expect.objectContaining({ source: id('Configuration'), target: id('Introduction') }));
+    });
+  });
+
+  describe('MkDocs nav', () => {
+    const files = {
+      'mkdocs.yml': `site_name: Acme Handbook
+nav:
+  - Home: index.md
+  - User Guide:
+      - user-guide/index.md
+      - Writing: user-guide/writing.md
+      - External: https://example.com
+  - about.md
+markdown_extensions:
+  - pymdownx.emoji:
+      emoji_index: !!python/name:material.extensions.emoji.twemoji
+`,
+      'docs/index.md': '# Welcome\n\nThe handbook.\n',
+      'docs/user-guide/index.md': '# User Guide Overview\n',
+      'docs/user-guide/writing.md': '# Writing your docs\n\nBack to the [guide](index.md).\n',
+      'docs/about.md': '# About the Project\n',
+    };
+
+    it('should follow the nav', () => {
+      const result = parseMarkdownFiles(files);
+
+      expect(result.metadata.hierarchy_source).toBe('mkdocs-nav');
+      expect(result.nodes[0].data).toMatchObject({ label: 'Acme Handbook', description: 'The handbook.' });
+      expect(childrenOf(result, 'Acme Handbook')).toEqual(['User Guide', 'About the Project']);
+      expect(childrenOf(result, 'User Guide')).toEqual(['Writing']);
+    });
+
+    it('should not add a related edge alongside a hierarchy edge', () => {
+      const result = parseMarkdownFiles(files);
+      expect(result.edges.filter((edge) => edge.type === 'related')).toHaveLength(0);
+    });
+  });
+
+  it('should fall back to folders when the sidebars file cannot be read', () => {
+    const result = parseMarkdownFiles({
+      'sidebars.js': 'module.exports = require("./generate-sidebars")();',
+      'docs/guide.md': '# Guide\n',
+    });
+
+    expect(result.metadata.hierarchy_source).toBe('folders');
+    expect(result.metadata.warnings).toContainEqual(expect.stringContaining('sidebars.js'));
+    expect(labels(result)).toContain('Guide');
+  });
+
+  it('should fold pages below the maximum depth into their ancestor', () => {
+    const result = parseMarkdownFiles({
+      'a/index.md': '# Level One\n',
+      'a/b/index.md': '# Level Two\n',
+      'a/b/c/index.md': '# Level Three\n',
+      'a/b/c/d.md': '# Level Four\n\nSee [one](../../index.md).\n',
+    });
+
+    expect(labels(result).slice(1)).toEqual(['Level One', 'Level Two', 'Level Three']);
+    const levelThree = result.nodes.find((node) => node.data.label === 'Level Three')!;
+    const levelOne = result.nodes.find((node) => node.data.label === 'Level One')!;
+    expect(result.edges).toContainEqual(expect.objectContaining({ source: levelThree.id, target: levelOne.id, type: 'related' }));
+  });
+});
+
+describe('loadMarkdownDirectory', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'docmaps-markdown-'));
+    await mkdir(join(directory, 'docs', 'guides'), { recursive: true });
+    await mkdir(join(directory, 'node_modules', 'pkg'), { recursive: true });
+    await mkdir(join(directory, '.git'));
+    await writeFile(join(directory, 'docs', 'index.md'), '# Acme\n\nAcme docs.\n');
+    await writeFile(join(directory, 'docs', 'guides', 'setup.md'), '# Setup\n\nInstall Acme.\n');
+    await writeFile(join(directory, 'docs', 'guides', 'usage.md'), '# Usage\n\nAfter [setup](setup.md).\n');
+    await writeFile(join(directory, 'docs', 'logo.png'), 'not markdown');
+    await writeFile(join(directory, 'node_modules', 'pkg', 'README.md'), '# Dependency\n');
+    await writeFile(join(directory, '.git', 'description.md'), '# Git\n');
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should read Markdown files and skip hidden folders and dependencies', async () => {
+    const files = await loadMarkdownDirectory(directory);
+    expect(Object.keys(files).sort()).toEqual(['docs/guides/setup.md', 'docs/guides/usage.md', 'docs/index.md']);
+  });
+
+  it('should stop when aborted', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('Stopped'));
+
+    await expect(loadMarkdownDirectory(directory, controller.signal)).rejects.toThrow('Stopped');
+  });
+
+  it('should parse a directory end to end', async () => {
+    const result = await parseMarkdownDirectory(directory);
+
+    expect(result.nodes[0].data.label).toBe('Acme');
+    expect(labels(result)).toEqual(expect.arrayContaining(['Guides', 'Setup', 'Usage']));
+    expect(result.edges.some((edge) => edge.type === 'related')).toBe(true);
+    expect(result.metadata.stats?.nodes_final).toBe(result.nodes.length);
+    expect(result.metadata.source_url).toMatch(/^file:\/\//);
+  });
+});
@@ -0,0 +1,870 @@
+// Markdown directory strategy - builds maps from a folder of Markdown/MDX files
+// (e.g. a checked-out docs repo) without fetching or rendering anything
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { parse as parseYaml } from 'yaml';
+import { humanizeSegment } from './crawl-plan';
+import { statusFromText } from './status';
+import type {
+  ExtractedEdge,
+  ExtractedNode,
+  GenerationMetadata,
+  MarkdownParseOptions,
+  ParseResult,
+  StatusEvidence,
+} from '../types';
+import { generateNodeId, sanitizeText, truncateDescription } from '../utils';
+
+const MARKDOWN_FILE = /\.mdx?$/i;
+
+/** Files that describe the navigation, read alongside the Markdown files */
+const NAV_CONFIG_FILE = /^(mkdocs\.ya?ml|sidebars\.(js|cjs|mjs|ts|json)|docusaurus\.config\.(js|cjs|mjs|ts)|_category_\.(json|ya?ml))$/;
+
+/** Directories that never contain source docs */
+const IGNORED_DIRECTORIES = new Set(['node_modules', 'build', 'dist', 'site', 'vendor']);
+
+/** Index pages stand for the folder they are in */
+const INDEX_FILE = /^(index|readme)\.mdx?$/i;
+
+/** Maximum number of files read from one directory tree */
+const MAX_FILES = 2000;
+
+/** Files larger than this are skipped (1 MB) */
+const MAX_FILE_SIZE = 1024 * 1024;
+
+/** Levels below the product; deeper pages are folded into their ancestor */
+const MAX_TREE_DEPTH = 3;
+
+/**
+ * A Markdown page with the fields used for map extraction
+ */
+interface MarkdownPage {
+  /** Path relative to the directory root (POSIX separators) */
+  path: string;
+  /** Docusaurus document ID (path within the docs folder, no extension or number prefixes) */
+  docId: string;
+  label: string;
+  description: string;
+  tags: string[];
+  /** status frontmatter */
+  statusEvidence?: StatusEvidence;
+  /** sidebar_position frontmatter */
+  position?: number;
+  /** Raw link targets found in the page body */
+  links: string[];
+}
+
+/**
+ * Entry of the documentation hierarchy, from a nav file or the folder structure
+ */
+interface DocTreeNode {
+  label: string;
+  /** Page shown for this entry (folders use their index page) */
+  page?: MarkdownPage;
+  description?: string;
+  position?: number;
+  /** File or folder name, for ordering */
+  name?: string;
+  /** Folder path relative to the docs folder (folders only) */
+  dir?: string;
+  children: DocTreeNode[];
+}
+
+/**
+ * Read the Markdown/MDX files of a directory tree, with the nav files that
+ * describe their hierarchy (mkdocs.yml, sidebars.js, _category_.json, ...)
+ * Hidden folders and build output are skipped.
+ *
+ * @param dir - Directory to read
+ * @param signal - Abort reading; rejects with the signal's reason
+ * @returns File contents keyed by path relative to dir (POSIX separators)
+ */
+export async function loadMarkdownDirectory(dir: string, signal?: AbortSignal): Promise<Record<string, string>> {
+  const files: Record<string, string> = {};
+  let fileCount = 0;
+
+  const walk = async (relativeDir: string): Promise<void> => {
+    signal?.throwIfAborted();
+    const entries = await fs.readdir(path.join(dir, relativeDir), { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (fileCount >= MAX_FILES) return;
+      if (entry.name.startsWith('.')) continue;
+
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRECTORIES.has(entry.name)) {
+          await walk(relativePath);
+        }
+        continue;
+      }
+
+      if (!entry.isFile() || (!MARKDOWN_FILE.test(entry.name) && !NAV_CONFIG_FILE.test(entry.name))) {
+        continue;
+      }
+
+      const fullPath = path.join(dir, relativePath);
+      const { size } = await fs.stat(fullPath);
+      if (size > MAX_FILE_SIZE) {
+        console.warn(`[Markdown] Skipping ${relativePath}: larger than 1 MB`);
+        continue;
+      }
+
+      files[relativePath] = await fs.readFile(fullPath, 'utf8');
+      fileCount++;
+    }
+  };
+
+  await walk('');
+
+  if (fileCount >= MAX_FILES) {
+    console.warn(`[Markdown] Stopped reading ${dir} after ${MAX_FILES} files`);
+  }
+
+  return files;
+}
+
+/**
+ * Build a map from Markdown/MDX files
+ * The hierarchy comes from Docusaurus sidebars, the MkDocs nav or, without
+ * either, the folder structure (with _category_ files and sidebar_position).
+ * Top-level entries become features and their children components; links
+ * between pages become related edges.
+ *
+ * @param files - File contents keyed by relative path (see loadMarkdownDirectory)
+ * @param options - Product name and base URL for docUrls
+ * @param directory - Directory the files were read from (fallback product name and source URL)
+ * @returns Parse result (not yet validated)
+ */
+export function parseMarkdownFiles(
+  files: Record<string, string>,
+  options: MarkdownParseOptions = {},
+  directory: string = ''
+): ParseResult {
+  const warnings: string[] = [];
+  const paths = Object.keys(files);
+
+  // =====================================================
+  // NAV CONFIGURATION
+  // =====================================================
+
+  const mkdocsPath = paths.find((p) => /^mkdocs\.ya?ml$/.test(p));
+  const sidebarsPath = paths.find((p) => /^sidebars\.(js|cjs|mjs|ts|json)$/.test(p));
+  const docusaurusConfigPath = paths.find((p) => /^docusaurus\.config\.(js|cjs|mjs|ts)$/.test(p));
+
+  let mkdocsConfig: Record<string, unknown> | null = null;
+  if (mkdocsPath) {
+    mkdocsConfig = parseConfigObject(files[mkdocsPath]);
+    if (!mkdocsConfig) {
+      warnings.push(`Could not read ${mkdocsPath}; using the folder structure`);
+    }
+  }
+
+  let sidebars: Record<string, unknown> | null = null;
+  if (sidebarsPath) {
+    sidebars = sidebarsPath.endsWith('.json')
+      ? parseConfigObject(files[sidebarsPath])
+      : parseConfigObject(extractObjectLiteral(files[sidebarsPath]) || '');
+    if (!sidebars) {
+      warnings.push(`Could not read ${sidebarsPath}; using the folder structure`);
+    }
+  }
+
+  let docsRoot = '';
+  if (mkdocsConfig) {
+    docsRoot = typeof mkdocsConfig.docs_dir === 'string' ? mkdocsConfig.docs_dir : 'docs';
+  } else if (paths.some((p) => p.startsWith('docs/') && MARKDOWN_FILE.test(p))) {
+    docsRoot = 'docs';
+  }
+  docsRoot = docsRoot.replace(/^\.\/?/, '').replace(/\/+$/, '');
+  const docsPrefix = docsRoot ? `${docsRoot}/` : '';
+
+  // =====================================================
+  // PAGES
+  // =====================================================
+
+  const pages: MarkdownPage[] = [];
+  for (const filePath of paths) {
+    if (!MARKDOWN_FILE.test(filePath) || !filePath.startsWith(docsPrefix)) continue;
+    const page = readPage(filePath, files[filePath], docsPrefix);
+    if (page) pages.push(page);
+  }
+
+  const pagesByPath = new Map(pages.map((page) => [page.path, page]));
+  const pagesByDocId = new Map(pages.map((page) => [page.docId, page]));
+
+  // =====================================================
+  // HIERARCHY
+  // =====================================================
+
+  const folderTree = buildFolderTree(pages, files, docsPrefix);
+  let roots: DocTreeNode[] = [];
+  let hierarchySource: GenerationMetadata['hierarchy_source'] = 'folders';
+
+  if (sidebars) {
+    const missing = new Set<string>();
+    roots = fromSidebars(sidebars, pagesByDocId, folderTree, missing);
+    hierarchySource = 'docusaurus-sidebars';
+    if (missing.size > 0) {
+      warnings.push(`${missing.size} sidebar documents not found: ${Array.from(missing).slice(0, 5).join(', ')}`);
+    }
+  } else if (mkdocsConfig && Array.isArray(mkdocsConfig.nav)) {
+    roots = fromMkDocsNav(mkdocsConfig.nav, pagesByPath, docsPrefix);
+    hierarchySource = 'mkdocs-nav';
+  }
+
+  if (roots.length === 0) {
+    roots = folderTree.children;
+    hierarchySource = 'folders';
+  }
+
+  // The docs' landing page describes the product rather than a feature
+  const rootPage = folderTree.page;
+  roots = roots.filter((root) => !(root.page && root.page === rootPage && root.children.length === 0));
+
+  if (pages.length === 0) {
+    warnings.push(`No Markdown files found${docsRoot ? ` in ${docsRoot}/` : ''}`);
+  }
+
+  // =====================================================
+  // NODES AND HIERARCHY EDGES
+  // =====================================================
+
+  const nodes: ExtractedNode[] = [];
+  const edges: ExtractedEdge[] = [];
+  const usedIds = new Set<string>();
+  const nodeIdByPage = new Map<string, string>();
+  const docUrlFor = (page?: MarkdownPage) => (page && options.baseUrl ? resolveDocUrl(page.path, options.baseUrl) : undefined);
+
+  const uniqueId = (label: string, type: ExtractedNode['type']): string => {
+    const baseId = generateNodeId(label, type);
+    let id = baseId;
+    let suffix = 2;
+    while (usedIds.has(id)) {
+      id = `${baseId}-${suffix++}`;
+    }
+    usedIds.add(id);
+    return id;
+  };
+
+  const productLabel = sanitizeText(
+    options.productName ||
+    (typeof mkdocsConfig?.site_name === 'string' ? mkdocsConfig.site_name : '') ||
+    (docusaurusConfigPath ? readDocusaurusTitle(files[docusaurusConfigPath]) : '') ||
+    rootPage?.label ||
+    humanizeSegment(path.basename(path.resolve(directory)))
+  ) || 'Documentation';
+  const productId = uniqueId(productLabel, 'product');
+  nodes.push({
+    id: productId,
+    type: 'product',
+    data: {
+      label: productLabel,
+      description: rootPage?.description || '',
+      docUrl: docUrlFor(rootPage),
+    },
+    level: 1,
+  });
+  if (rootPage) nodeIdByPage.set(rootPage.path, productId);
+
+  const addEntry = (entry: DocTreeNode, parentId: string, depth: number): void => {
+    const label = sanitizeText(entry.label);
+    if (!label) return;
+
+    const type = depth === 1 ? 'feature' : 'component';
+    const id = uniqueId(label, type);
+    nodes.push({
+      id,
+      type,
+      data: {
+        label,
+        description: entry.description || entry.page?.description || '',
+        tags: entry.page?.tags.length ? entry.page.tags : undefined,
+        status: entry.page?.statusEvidence?.status,
+        docUrl: docUrlFor(entry.page),
+      },
+      level: depth + 1,
+      statusEvidence: entry.page?.statusEvidence,
+    });
+    edges.push({
+      id: `edge-${parentId}-${id}`,
+      source: parentId,
+      target: id,
+      type: 'hierarchy',
+      confidence: hierarchySource === 'folders' ? 0.85 : 0.95,
+      inferenceMethod: hierarchySource === 'folders' ? 'hierarchy' : 'explicit',
+    });
+    if (entry.page && !nodeIdByPage.has(entry.page.path)) {
+      nodeIdByPage.set(entry.page.path, id);
+    }
+
+    for (const child of entry.children) {
+      if (depth < MAX_TREE_DEPTH) {
+        addEntry(child, id, depth + 1);
+      } else {
+        foldInto(child, id, nodeIdByPage);
+      }
+    }
+  };
+
+  roots.forEach((root) => addEntry(root, productId, 1));
+
+  // =====================================================
+  // LINK EDGES
+  // =====================================================
+
+  const linkedPairs = new Set(edges.map((edge) => pairKey(edge.source, edge.target)));
+
+  for (const page of pages) {
+    const sourceId = nodeIdByPage.get(page.path);
+    if (!sourceId) continue;
+
+    for (const target of page.links) {
+      const linkedPage = resolveLink(page, target, pagesByPath, pagesByDocId, docsPrefix);
+      const targetId = linkedPage ? nodeIdByPage.get(linkedPage.path) : undefined;
+      if (!targetId || targetId === sourceId) continue;
+
+      const key = pairKey(sourceId, targetId);
+      if (linkedPairs.has(key)) continue;
+      linkedPairs.add(key);
+
+      edges.push({
+        id: `link-${sourceId}-${targetId}`,
+        source: sourceId,
+        target: targetId,
+        type: 'related',
+        confidence: 0.8,
+        inferenceMethod: 'explicit',
+      });
+    }
+  }
+
+  return {
+    nodes,
+    edges,
+    metadata: {
+      source_url: options.baseUrl || pathToFileURL(path.resolve(directory)).toString(),
+      generated_at: new Date().toISOString(),
+      strategy: 'markdown',
+      confidence: pages.length === 0 ? 0 : hierarchySource === 'folders' ? 0.8 : 0.9,
+      warnings,
+      hierarchy_source: hierarchySource,
+      stats: {
+        nodes_extracted: nodes.length,
+        nodes_final: nodes.length,
+        edges_extracted: edges.length,
+        nodes_deduplicated: 0,
+        nodes_filtered: 0,
+        duration_ms: 0,
+      },
+    },
+  };
+}
+
+// =====================================================
+// PAGE READING
+// =====================================================
+
+/**
+ * Split a Markdown file into its YAML frontmatter and body
+ */
+export function parseFrontmatter(content: string): { data: Record<string, unknown>; body: string } {
+  const match = content.match(/^\uFEFF?---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) {
+    return { data: {}, body: content };
+  }
+
+  const data = parseConfigObject(match[1]) || {};
+  return { data, body: content.slice(match[0].length) };
+}
+
+function readPage(filePath: string, content: string, docsPrefix: string): MarkdownPage | null {
+  const { data, body } = parseFrontmatter(content);
+
+  // Drafts and unlisted pages are not part of the published docs
+  if (data.draft === true || data.unlisted === true) {
+    return null;
+  }
+
+  const text = stripCode(body);
+  const fileName = path.posix.basename(filePath);
+  const heading = text.match(/^#[ \t]+(.+?)[ \t#]*$/m)?.[1];
+  const label =
+    stringField(data.sidebar_label) ||
+    stringField(data.title) ||
+    (heading ? stripInlineMarkdown(heading) : '') ||
+    humanizeSegment(INDEX_FILE.test(fileName) ? path.posix.basename(path.posix.dirname(filePath)) : fileName);
+
+  // Docusaurus IDs drop the extension and number prefixes; an id field replaces the file name
+  const segments = filePath
+    .slice(docsPrefix.length)
+    .replace(MARKDOWN_FILE, '')
+    .split('/')
+    .map((segment) => segment.replace(/^\d+[-_.]\s*/, ''));
+  const id = stringField(data.id);
+  if (id) segments[segments.length - 1] = id;
+
+  const position = Number(data.sidebar_position);
+
+  return {
+    path: filePath,
+    docId: segments.join('/'),
+    label,
+    description: truncateDescription(stringField(data.description) || firstParagraph(text), 200),
+    tags: readTags(data.tags),
+    statusEvidence: readStatus(data.status),
+    position: Number.isFinite(position) && data.sidebar_position !== null ? position : undefined,
+    links: extractLinks(text),
+  };
+}
+
+function stringField(value: unknown): string {
+  return typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+}
+
+function readTags(value: unknown): string[] {
+  const tags = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return tags
+    .map((tag) => (tag && typeof tag === 'object' ? stringField((tag as { label?: unknown }).label) : stringField(tag)))
+    .filter((tag) => tag.length > 0);
+}
+
+function readStatus(value: unknown): StatusEvidence | undefined {
+  const text = stringField(value);
+  const status = statusFromText(text);
+  return status ? { status, source: 'frontmatter', text: `status: ${text}` } : undefined;
+}
+
+/**
+ * Remove fenced code blocks and HTML comments, which never hold structure or links
+ */
+function stripCode(markdown: string): string {
+  return markdown
+    .replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, '')
+    .replace(/<!--[\s\S]*?-->/g, '');
+}
+
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/[*_`~]/g, '')
+    .replace(/\{#[^}]*\}/g, '')
+    .trim();
+}
+
+/**
+ * First prose paragraph, skipping headings, MDX imports, JSX, admonitions, lists and tables
+ */
+function firstParagraph(markdown: string): string {
+  for (const block of markdown.split(/\n\s*\n/)) {
+    const trimmed = block.trim();
+    if (!trimmed || /^(#|import\s|export\s|<|:::|[-*+]\s|\d+\.\s|\||>|!\[|\[.*\]:)/.test(trimmed)) {
+      continue;
+    }
+    const text = stripInlineMarkdown(trimmed.replace(/\s*\n\s*/g, ' '));
+    if (text.length > 0) return text;
+  }
+  return '';
+}
+
+/**
+ * Link targets from inline links and reference definitions (images excluded)
+ */
+function extractLinks(markdown: string): string[] {
+  const links: string[] = [];
+  for (const match of markdown.matchAll(/(?<!!)\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+["'][^"']*["'])?\s*\)/g)) {
+    links.push(match[1]);
+  }
+  for (const match of markdown.matchAll(/^\s*\[[^\]]+\]:\s*<?(\S+?)>?(?:\s|$)/gm)) {
+    links.push(match[1]);
+  }
+  for (const match of markdown.matchAll(/<a\s[^>]*href=["']([^"']+)["']/g)) {
+    links.push(match[1]);
+  }
+  return links;
+}
+
+/**
+ * Find the page a link points to
+ * Handles relative file links (with or without extension), folder links and
+ * site-absolute Docusaurus doc paths such as /docs/guides/setup.
+ */
+function resolveLink(
+  from: MarkdownPage,
+  target: string,
+  pagesByPath: Map<string, MarkdownPage>,
+  pagesByDocId: Map<string, MarkdownPage>,
+  docsPrefix: string
+): MarkdownPage | null {
+  if (/^([a-z][a-z0-9+.-]*:|\/\/|#)/i.test(target)) {
+    return null;
+  }
+
+  let linkPath: string;
+  try {
+    linkPath = decodeURIComponent(target.replace(/[?#].*$/, ''));
+  } catch {
+    return null;
+  }
+  if (!linkPath) return null;
+
+  const bases = linkPath.startsWith('/')
+    ? [path.posix.join(docsPrefix, linkPath.replace(/^\/(docs\/)?/, '')), linkPath.slice(1)]
+    : [path.posix.join(path.posix.dirname(from.path), linkPath)];
+
+  for (const base of bases) {
+    const normalized = base.replace(/\/+$/, '');
+    for (const candidate of [normalized, `${normalized}.md`, `${normalized}.mdx`, `${normalized}/index.md`, `${normalized}/index.mdx`, `${normalized}/README.md`]) {
+      const page = pagesByPath.get(candidate);
+      if (page) return page;
+    }
+
+    if (normalized.startsWith(docsPrefix)) {
+      const page = pagesByDocId.get(normalized.slice(docsPrefix.length).replace(MARKDOWN_FILE, ''));
+      if (page) return page;
+    }
+  }
+
+  return null;
+}
+
+function resolveDocUrl(filePath: string, baseUrl: string): string | undefined {
+  try {
+    return new URL(encodeURI(filePath), baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/**
+ * Let pages below the maximum depth resolve to their ancestor's node, so their links still count
+ */
+function foldInto(entry: DocTreeNode, nodeId: string, nodeIdByPage: Map<string, string>): void {
+  if (entry.page && !nodeIdByPage.has(entry.page.path)) {
+    nodeIdByPage.set(entry.page.path, nodeId);
+  }
+  entry.children.forEach((child) => foldInto(child, nodeId, nodeIdByPage));
+}
+
+// =====================================================
+// CONFIG FILES
+// =====================================================
+
+/**
+ * Parse YAML/JSON text into an object, or null if it is not one
+ * Unknown YAML tags (e.g. MkDocs' !!python/name) are ignored.
+ */
+function parseConfigObject(text: string): Record<string, unknown> | null {
+  try {
+    const value = parseYaml(text, { logLevel: 'silent' });
+    return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract the exported object literal of a sidebars.js/ts file without running it
+ * JS object literals written the usual way (quoted strings, key: value) are
+ * valid YAML flow mappings once comments are removed and single-quoted and
+ * template strings are rewritten as YAML single-quoted strings.
+ */
+export function extractObjectLiteral(source: string): string | null {
+  const exportMatch = source.match(/(?:module\.exports\s*=|export\s+default|(?:const|let|var)\s+\w+(?:\s*:\s*[\w.<>]+)?\s*=)\s*\{/);
+  if (!exportMatch || exportMatch.index === undefined) {
+    return null;
+  }
+
+  const start = exportMatch.index + exportMatch[0].length - 1;
+  let depth = 0;
+  let quote: string | null = null;
+  let result = '';
+
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+
+    if (quote === '"') {
+      // Double-quoted strings and their escapes are the same in YAML
+      result += char;
+      if (char === '\\') {
+        result += source[++i] ?? '';
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+
+    if (quote) {
+      // Single-quoted and template strings become YAML single-quoted strings,
+      // which have no backslash escapes and double their quotes
+      if (char === quote) {
+        result += "'";
+        quote = null;
+      } else {
+        const literal = char === '\\' ? source[++i] ?? '' : char;
+        result += literal === "'" ? "''" : literal;
+      }
+      continue;
+    }
+
+    // Drop comments
+    if (char === '/' && source[i + 1] === '/') {
+      while (i < source.length && source[i] !== '\n') i++;
+      result += '\n';
+      continue;
+    }
+    if (char === '/' && source[i + 1] === '*') {
+      const end = source.indexOf('*/', i + 2);
+      i = end === -1 ? source.length : end + 1;
+      continue;
+    }
+
+    if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+      result += char === '"' ? char : "'";
+      continue;
+    }
+
+    result += char;
+    if (char === '{') depth++;
+    if (char === '}' && --depth === 0) {
+      return result;
+    }
+  }
+
+  return null;
+}
+
+function readDocusaurusTitle(source: string): string {
+  return source.match(/\btitle\s*:\s*(['"`])(.*?)\1/)?.[2] || '';
+}
+
+// =====================================================
+// HIERARCHY SOURCES
+// =====================================================
+
+/**
+ * Hierarchy from the folder structure
+ * Folders use their index/README page, _category_ label and position; pages
+ * are ordered by sidebar_position, then by name (number prefixes sort first).
+ */
+function buildFolderTree(pages: MarkdownPage[], files: Record<string, string>, docsPrefix: string): DocTreeNode {
+  const root: DocTreeNode = { label: '', dir: '', children: [] };
+  const folders = new Map<string, DocTreeNode>([['', root]]);
+
+  const folderFor = (dir: string): DocTreeNode => {
+    const existing = folders.get(dir);
+    if (existing) return existing;
+
+    const parent = folderFor(dir.includes('/') ? dir.slice(0, dir.lastIndexOf('/')) : '');
+    const name = dir.slice(dir.lastIndexOf('/') + 1);
+    const folder: DocTreeNode = { label: humanizeSegment(name), name, dir, children: [] };
+
+    const categoryPath = Object.keys(files).find((p) => new RegExp(`^${escapeRegExp(docsPrefix + dir)}/_category_\\.(json|ya?ml)$`).test(p));
+    const category = categoryPath ? parseConfigObject(files[categoryPath]) : null;
+    if (category) {
+      if (typeof category.label === 'string') folder.label = category.label;
+      if (typeof category.position === 'number') folder.position = category.position;
+      const link = category.link as { description?: unknown } | undefined;
+      if (typeof link?.description === 'string') folder.description = link.description;
+    }
+
+    folders.set(dir, folder);
+    parent.children.push(folder);
+    return folder;
+  };
+
+  for (const page of pages) {
+    const relativePath = page.path.slice(docsPrefix.length);
+    const dir = relativePath.includes('/') ? relativePath.slice(0, relativePath.lastIndexOf('/')) : '';
+    const fileName = relativePath.slice(relativePath.lastIndexOf('/') + 1);
+    const folder = folderFor(dir);
+
+    if (INDEX_FILE.test(fileName) && (!folder.page || /^index\./i.test(fileName))) {
+      folder.page = page;
+      if (folder.position === undefined) folder.position = page.position;
+      // An index page's title beats the folder name, but not a _category_ label
+      if (folder.label === humanizeSegment(folder.name || '')) folder.label = page.label;
+    } else if (!INDEX_FILE.test(fileName)) {
+      folder.children.push({ label: page.label, page, position: page.position, name: fileName, children: [] });
+    }
+  }
+
+  sortTree(root);
+  return root;
+}
+
+function sortTree(node: DocTreeNode): void {
+  node.children.sort((a, b) =>
+    (a.position ?? Infinity) - (b.position ?? Infinity) ||
+    (a.name || a.label).localeCompare(b.name || b.label, undefined, { numeric: true })
+  );
+  node.children.forEach(sortTree);
+}
+
+function findFolder(node: DocTreeNode, dir: string): DocTreeNode | null {
+  if (node.dir === dir) return node;
+  for (const child of node.children) {
+    const found = findFolder(child, dir);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Hierarchy from a Docusaurus sidebars file
+ * A single sidebar's items become the top level; several sidebars become one entry each.
+ */
+function fromSidebars(
+  sidebars: Record<string, unknown>,
+  pagesByDocId: Map<string, MarkdownPage>,
+  folderTree: DocTreeNode,
+  missing: Set<string>
+): DocTreeNode[] {
+  const entries = Object.entries(sidebars);
+
+  const itemsOf = (value: unknown): DocTreeNode[] =>
+    Array.isArray(value)
+      ? fromSidebarItems(value, pagesByDocId, folderTree, missing)
+      : fromSidebarItems([value], pagesByDocId, folderTree, missing);
+
+  if (entries.length === 1) {
+    return itemsOf(entries[0][1]);
+  }
+
+  return entries
+    .map(([name, value]) => ({ label: humanizeSegment(name), children: itemsOf(value) }))
+    .filter((entry) => entry.children.length > 0);
+}
+
+function fromSidebarItems(
+  items: unknown[],
+  pagesByDocId: Map<string, MarkdownPage>,
+  folderTree: DocTreeNode,
+  missing: Set<string>
+): DocTreeNode[] {
+  const result: DocTreeNode[] = [];
+
+  const docEntry = (id: unknown, label?: unknown): DocTreeNode | null => {
+    const page = typeof id === 'string' ? pagesByDocId.get(id) : undefined;
+    if (!page) {
+      if (typeof id === 'string') missing.add(id);
+      return null;
+    }
+    return { label: stringField(label) || page.label, page, children: [] };
+  };
+
+  for (const item of items) {
+    if (typeof item === 'string') {
+      const entry = docEntry(item);
+      if (entry) result.push(entry);
+      continue;
+    }
+
+    if (!item || typeof item !== 'object') continue;
+    const record = item as Record<string, unknown>;
+
+    switch (record.type) {
+      case 'doc':
+      case 'ref': {
+        const entry = docEntry(record.id, record.label);
+        if (entry) result.push(entry);
+        break;
+      }
+
+      case 'category': {
+        const link = record.link as Record<string, unknown> | undefined;
+        const linkedPage = link?.type === 'doc' && typeof link.id === 'string' ? pagesByDocId.get(link.id) : undefined;
+        const children = Array.isArray(record.items)
+          ? fromSidebarItems(record.items, pagesByDocId, folderTree, missing)
+          : [];
+        result.push({
+          label: stringField(record.label) || linkedPage?.label || 'Untitled',
+          page: linkedPage,
+          description: typeof link?.description === 'string' ? link.description : undefined,
+          children,
+        });
+        break;
+      }
+
+      case 'autogenerated': {
+        const dir = stringField(record.dirName).replace(/^\.\/?/, '').replace(/\/+$/, '');
+        const folder = findFolder(folderTree, dir);
+        if (folder) result.push(...folder.children);
+        break;
+      }
+
+      case undefined: {
+        // Shorthand categories: { 'Getting Started': ['intro', ...] }
+        for (const [label, value] of Object.entries(record)) {
+          if (Array.isArray(value)) {
+            result.push({ label, children: fromSidebarItems(value, pagesByDocId, folderTree, missing) });
+          }
+        }
+        break;
+      }
+
+      default:
+        // External links and HTML items are not documentation pages
+        break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Hierarchy from the nav section of mkdocs.yml
+ * Entries are 'page.md', { Title: 'page.md' } or { Section: [entries] }.
+ */
+function fromMkDocsNav(
+  nav: unknown[],
+  pagesByPath: Map<string, MarkdownPage>,
+  docsPrefix: string
+): DocTreeNode[] {
+  const result: DocTreeNode[] = [];
+
+  const pageFor = (file: string) => pagesByPath.get(path.posix.join(docsPrefix, file.replace(/^\.?\//, '')));
+
+  for (const item of nav) {
+    if (typeof item === 'string') {
+      const page = pageFor(item);
+      if (page) result.push({ label: page.label, page, children: [] });
+      continue;
+    }
+
+    if (!item || typeof item !== 'object') continue;
+
+    for (const [title, value] of Object.entries(item as Record<string, unknown>)) {
+      if (typeof value === 'string') {
+        const page = pageFor(value);
+        if (page) result.push({ label: title, page, children: [] });
+      } else if (Array.isArray(value)) {
+        const children = fromMkDocsNav(value, pagesByPath, docsPrefix);
+        // A section's index page (mkdocs-material navigation.indexes) stands for the section
+        const indexChild = children.find((child) => child.page && INDEX_FILE.test(path.posix.basename(child.page.path)) && child.children.length === 0);
+        result.push({
+          label: title,
+          page: indexChild?.page,
+          children: children.filter((child) => child !== indexChild),
+        });
+      }
+    }
+  }
+
+  return result;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
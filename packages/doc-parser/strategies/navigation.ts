@@ -61,6 +61,7 @@ export function parseFromNavigation(html: string, baseUrl: string): NavigationPa
   ];
   
   let bestNavElement: any = null;
+  let bestSelector = 'body';
   let maxLinks = 0;
   
   // Find the navigation with the most documentation links
@@ -70,6 +71,7 @@ export function parseFromNavigation(html: string, baseUrl: string): NavigationPa
       if (links.length > maxLinks) {
         maxLinks = links.length;
         bestNavElement = el;
+        bestSelector = selector;
       }
     });
   }
@@ -77,6 +79,7 @@ export function parseFromNavigation(html: string, baseUrl: string): NavigationPa
   // If no nav found, try to find all doc links on the page
   if (!bestNavElement || maxLinks === 0) {
     bestNavElement = $('body')[0];
+    bestSelector = 'body';
   }
   
   const bestNav = $(bestNavElement);
@@ -249,6 +252,7 @@ export function parseFromNavigation(html: string, baseUrl: string): NavigationPa
           description: '',
           docUrl: href.startsWith('http') ? href : new URL(href, baseUrl).toString(),
         },
+        sourceSelector: `${bestSelector} a`,
       });
     });
   }
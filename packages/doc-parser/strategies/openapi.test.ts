@@ -0,0 +1,299 @@
+// Unit tests for OpenAPI strategy
+
+import { describe, it, expect } from 'vitest';
+import { OpenApiStrategy, loadOpenApiSpec, isOpenApiSpecUrl, findSpecUrl } from './openapi';
+
+const petStoreSpec = {
+  openapi: '3.0.3',
+  info: { title: 'Pet Store API', description: 'Manage pets and orders', version: '1.2.0' },
+  tags: [
+    { name: 'pets', description: 'Everything about pets' },
+    { name: 'store', description: 'Orders' },
+  ],
+  paths: {
+    '/pets': {
+      get: {
+        tags: ['pets'],
+        summary: 'List pets',
+        responses: {
+          '200': {
+            description: 'OK',
+            content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Pet' } } } },
+          },
+        },
+      },
+      post: {
+        tags: ['pets'],
+        summary: 'Create pet',
+        requestBody: { $ref: '#/components/requestBodies/PetBody' },
+        responses: { '201': { description: 'Created' } },
+      },
+    },
+    '/store/orders': {
+      post: {
+        tags: ['store'],
+        summary: 'Place order',
+        deprecated: true,
+        responses: {
+          '200': {
+            description: 'OK',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Order' } } },
+          },
+        },
+      },
+    },
+    '/users/{id}': {
+      get: { operationId: 'getUser', responses: { '200': { description: 'OK' } } },
+    },
+  },
+  components: {
+    requestBodies: {
+      PetBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } },
+    },
+    schemas: {
+      Pet: { type: 'object', properties: { name: { type: 'string' } } },
+      Order: { type: 'object', properties: { pet: { $ref: '#/components/schemas/Pet' } } },
+    },
+  },
+};
+
+const swaggerYaml = `
+swagger: "2.0"
+info:
+  title: Legacy API
+paths:
+  /accounts:
+    get:
+      tags: [Accounts]
+      summary: List accounts
+      responses:
+        "200":
+          description: OK
+          schema:
+            $ref: "#/definitions/Account"
+definitions:
+  Account:
+    type: object
+`;
+
+describe('loadOpenApiSpec', () => {
+  it('should parse OpenAPI 3 JSON', () => {
+    const spec = loadOpenApiSpec(JSON.stringify(petStoreSpec));
+    expect(spec?.info?.title).toBe('Pet Store API');
+  });
+
+  it('should parse Swagger 2.0 YAML', () => {
+    const spec = loadOpenApiSpec(swaggerYaml);
+    expect(spec?.info?.title).toBe('Legacy API');
+  });
+
+  it('should accept unquoted Swagger 2.0 and OpenAPI 3.1 versions', () => {
+    const swagger = loadOpenApiSpec(swaggerYaml.replace('swagger: "2.0"', 'swagger: 2.0'));
+    const openapi = loadOpenApiSpec('openapi: 3.1\ninfo:\n  title: Ledger API\n  version: 2.10\npaths: {}');
+
+    expect(swagger?.swagger).toBe('2.0');
+    expect(swagger?.info?.title).toBe('Legacy API');
+    expect(openapi?.openapi).toBe('3.1');
+    expect(openapi?.info?.version).toBe('2.10');
+  });
+
+  it('should accept numeric versions in JSON', () => {
+    expect(loadOpenApiSpec('{"swagger": 2.0, "info": {"title": "Legacy API"}}')).not.toBeNull();
+    expect(loadOpenApiSpec('{"openapi": 3.1, "info": {"title": "Ledger API"}}')).not.toBeNull();
+  });
+
+  it('should read specs rendered inside a <pre> element', () => {
+    const html = `<html><body><pre>${JSON.stringify(petStoreSpec)}</pre></body></html>`;
+    expect(loadOpenApiSpec(html)).not.toBeNull();
+  });
+
+  it('should reject non-spec content', () => {
+    expect(loadOpenApiSpec('<div>Regular HTML content</div>')).toBeNull();
+    expect(loadOpenApiSpec('{"name": "package"}')).toBeNull();
+    expect(loadOpenApiSpec('{"openapi": "2.0"}')).toBeNull();
+    expect(loadOpenApiSpec('swagger: 2.1\ninfo:\n  title: Not Swagger')).toBeNull();
+    expect(loadOpenApiSpec('')).toBeNull();
+  });
+
+  it('should ignore specs embedded in script tags', () => {
+    const html = `<script type="application/json">${JSON.stringify(petStoreSpec)}</script>`;
+    expect(loadOpenApiSpec(html)).toBeNull();
+  });
+});
+
+describe('isOpenApiSpecUrl', () => {
+  it('should detect spec file URLs', () => {
+    expect(isOpenApiSpecUrl('https://api.example.com/openapi.json')).toBe(true);
+    expect(isOpenApiSpecUrl('https://example.com/v2/swagger.yaml')).toBe(true);
+  });
+
+  it('should reject regular documentation URLs', () => {
+    expect(isOpenApiSpecUrl('https://docs.example.com/api')).toBe(false);
+    expect(isOpenApiSpecUrl('https://example.com/package.json')).toBe(false);
+    expect(isOpenApiSpecUrl('not a url')).toBe(false);
+  });
+});
+
+describe('findSpecUrl', () => {
+  it('should find Redoc spec-url attributes', () => {
+    const html = '<redoc spec-url="/specs/openapi.yaml"></redoc>';
+    expect(findSpecUrl(html, 'https://docs.example.com/api/')).toBe('https://docs.example.com/specs/openapi.yaml');
+  });
+
+  it('should find Swagger UI bundle configuration', () => {
+    const html = `<script>window.ui = SwaggerUIBundle({ dom_id: '#swagger', url: "https://api.example.com/v3/api-docs.json" });</script>`;
+    expect(findSpecUrl(html, 'https://docs.example.com')).toBe('https://api.example.com/v3/api-docs.json');
+  });
+
+  it('should return null when no spec is referenced', () => {
+    expect(findSpecUrl('<div>Docs</div>', 'https://docs.example.com')).toBeNull();
+  });
+});
+
+describe('OpenApiStrategy', () => {
+  const strategy = new OpenApiStrategy();
+
+  describe('canHandle', () => {
+    it('should handle JSON and YAML specs', () => {
+      expect(strategy.canHandle(JSON.stringify(petStoreSpec), 'https://api.example.com/openapi.json')).toBe(true);
+      expect(strategy.canHandle(swaggerYaml, 'upload://swagger.yaml')).toBe(true);
+    });
+
+    it('should reject HTML pages', () => {
+      expect(strategy.canHandle('<nav><a href="/docs">Docs</a></nav>', 'https://docs.example.com')).toBe(false);
+    });
+  });
+
+  describe('confidence', () => {
+    it('should return very high confidence score', () => {
+      expect(strategy.confidence()).toBe(0.95);
+    });
+  });
+
+  describe('parse', () => {
+    it('should map the API to a product node', async () => {
+      const result = await strategy.parse(JSON.stringify(petStoreSpec), 'https://api.example.com/openapi.json');
+
+      const product = result.nodes.find(n => n.type === 'product');
+      expect(product?.data.label).toBe('Pet Store API');
+      expect(product?.data.description).toBe('Manage pets and orders');
+      expect(product?.data.tags).toEqual(['v1.2.0']);
+      expect(result.metadata.strategy).toBe('openapi');
+    });
+
+    it('should map tags to features and operations to components', async () => {
+      const result = await strategy.parse(JSON.stringify(petStoreSpec), 'https://api.example.com/openapi.json');
+
+      const features = result.nodes.filter(n => n.type === 'feature').map(n => n.data.label);
+      expect(features).toEqual(['pets', 'store', 'Users']);
+
+      const components = result.nodes.filter(n => n.type === 'component');
+      expect(components.map(n => n.data.label)).toEqual(['List pets', 'Create pet', 'Place order', 'getUser']);
+      expect(components.find(n => n.data.label === 'Place order')?.data.tags).toEqual(['POST', 'deprecated']);
+      expect(components.find(n => n.data.label === 'Place order')?.data.status).toBe('deprecated');
+
+      const petsId = result.nodes.find(n => n.data.label === 'pets')!.id;
+      const listPetsId = result.nodes.find(n => n.data.label === 'List pets')!.id;
+      expect(result.edges.some(e => e.source === petsId && e.target === listPetsId && e.type === 'hierarchy')).toBe(true);
+    });
+
+    it('should create depends-on edges for schemas owned by other features', async () => {
+      const result = await strategy.parse(JSON.stringify(petStoreSpec), 'https://api.example.com/openapi.json');
+
+      const placeOrderId = result.nodes.find(n => n.data.label === 'Place order')!.id;
+      const petsId = result.nodes.find(n => n.data.label === 'pets')!.id;
+
+      const dependency = result.edges.find(e => e.type === 'depends-on');
+      expect(dependency).toMatchObject({
+        source: placeOrderId,
+        target: petsId,
+        label: 'Pet',
+        inferenceMethod: 'explicit',
+      });
+      expect(result.edges.filter(e => e.type === 'depends-on')).toHaveLength(1);
+    });
+
+    it('should parse Swagger 2.0 definitions', async () => {
+      const result = await strategy.parse(swaggerYaml, 'upload://swagger.yaml');
+
+      expect(result.nodes.map(n => n.data.label)).toEqual(['Legacy API', 'Accounts', 'List accounts']);
+      expect(result.nodes[0].data.docUrl).toBeUndefined();
+    });
+
+    it('should keep unquoted versions and tag names from YAML as written', async () => {
+      const yaml = `
+openapi: 3.0.0
+info:
+  title: Ledger API
+  version: 1.0
+tags:
+  - name: 2024
+paths:
+  /entries:
+    get:
+      tags: [2024]
+      summary: List entries
+      responses:
+        "200":
+          description: OK
+  /archive:
+    get:
+      tags: [2023]
+      summary: List archived entries
+      responses:
+        "200":
+          description: OK
+`;
+      const result = await strategy.parse(yaml, 'upload://ledger.yaml');
+
+      expect(result.nodes[0].data.tags).toEqual(['v1.0']);
+      expect(result.nodes.map(n => n.data.label)).toEqual(['Ledger API', '2024', 'List entries', '2023', 'List archived entries']);
+    });
+
+    it('should read $ref segments that are not valid percent-encoding as they are', async () => {
+      const spec = JSON.stringify(petStoreSpec)
+        .replace(/schemas\/Pet"/g, 'schemas/Pet%"')
+        .replace('"Pet":', '"Pet%":');
+
+      const result = await strategy.parse(spec, 'https://api.example.com/openapi.json');
+
+      expect(result.edges.find(e => e.type === 'depends-on')?.label).toBe('Pet%');
+    });
+
+    it('should survive recursive schemas', async () => {
+      const spec = {
+        openapi: '3.1.0',
+        info: { title: 'Tree API' },
+        paths: {
+          '/nodes': {
+            get: {
+              tags: ['nodes'],
+              summary: 'List nodes',
+              responses: { '200': { content: { 'application/json': { schema: { $ref: '#/components/schemas/Node' } } } } },
+            },
+          },
+        },
+        components: {
+          schemas: {
+            Node: { type: 'object', properties: { children: { type: 'array', items: { $ref: '#/components/schemas/Node' } } } },
+          },
+        },
+      };
+
+      const result = await strategy.parse(JSON.stringify(spec), 'https://api.example.com/openapi.json');
+      expect(result.nodes).toHaveLength(3);
+    });
+
+    it('should warn when the spec has no operations', async () => {
+      const spec = { openapi: '3.0.0', info: { title: 'Empty API' }, paths: {} };
+      const result = await strategy.parse(JSON.stringify(spec), 'https://api.example.com/openapi.json');
+
+      expect(result.metadata.warnings).toContain('OpenAPI document contains no operations');
+      expect(result.metadata.confidence).toBe(0.5);
+    });
+
+    it('should throw for non-spec content', async () => {
+      await expect(strategy.parse('<div></div>', 'https://docs.example.com')).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,538 @@
+// OpenAPI/Swagger parsing strategy - reads API specs directly instead of rendered docs
+
+import * as cheerio from 'cheerio';
+import { parseDocument, visit } from 'yaml';
+import { BaseStrategy } from './base';
+import type { ParseResult, ExtractedNode, ExtractedEdge } from '../types';
+import { generateNodeId, sanitizeText, truncateDescription } from '../utils';
+
+/**
+ * Minimal shape of an OpenAPI 3.x / Swagger 2.0 document
+ * Only the fields used for map extraction are typed
+ */
+interface OpenApiDocument {
+  // JSON specs may give versions and tag names such as 2.0 or 2024 as numbers
+  openapi?: string | number;
+  swagger?: string | number;
+  info?: { title?: string; description?: string; version?: string | number };
+  externalDocs?: { url?: string };
+  tags?: Array<{ name?: string | number; description?: string; externalDocs?: { url?: string } }>;
+  paths?: Record<string, Record<string, unknown>>;
+  [key: string]: unknown;
+}
+
+/**
+ * Operation object within a path item
+ */
+interface OpenApiOperation {
+  summary?: string;
+  description?: string;
+  operationId?: string;
+  tags?: Array<string | number>;
+  deprecated?: boolean;
+  externalDocs?: { url?: string };
+  responses?: unknown;
+  [key: string]: unknown;
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/** Maximum depth when following nested $ref chains */
+const MAX_REF_DEPTH = 8;
+
+/**
+ * Load an OpenAPI/Swagger document from raw content
+ * Accepts JSON or YAML text, or a browser-rendered page wrapping the spec in <pre>
+ *
+ * @param content - Raw spec text or HTML
+ * @returns Parsed document, or null if content is not an OpenAPI/Swagger spec
+ */
+export function loadOpenApiSpec(content: string): OpenApiDocument | null {
+  if (!content || typeof content !== 'string') {
+    return null;
+  }
+
+  let text = content.trim();
+
+  // Browsers render raw JSON/YAML responses inside a <pre> element
+  if (text.startsWith('<')) {
+    const doc = cheerio.load(text);
+    const pre = doc('body > pre').first();
+    if (pre.length === 0) {
+      return null;
+    }
+    text = pre.text().trim();
+  }
+
+  let spec: unknown = null;
+  try {
+    if (text.startsWith('{')) {
+      spec = JSON.parse(text);
+    } else if (/^(openapi|swagger)\s*:/m.test(text)) {
+      spec = parseYamlKeepingNumbers(text);
+    }
+  } catch {
+    return null;
+  }
+
+  if (!spec || typeof spec !== 'object' || Array.isArray(spec)) {
+    return null;
+  }
+
+  const doc = spec as OpenApiDocument;
+  const isOpenApi3 = doc.openapi !== undefined && String(doc.openapi).startsWith('3.');
+  const isSwagger2 = doc.swagger === 2 || String(doc.swagger) === '2.0';
+
+  if (!isOpenApi3 && !isSwagger2) {
+    return null;
+  }
+
+  return doc;
+}
+
+/**
+ * Parse YAML with numbers kept as written, so unquoted versions like
+ * `swagger: 2.0` and `version: 1.0` stay "2.0" and "1.0" rather than 2 and 1
+ */
+function parseYamlKeepingNumbers(text: string): unknown {
+  const doc = parseDocument(text);
+  if (doc.errors.length > 0) {
+    throw doc.errors[0];
+  }
+  visit(doc, {
+    Scalar(_key, node) {
+      if (typeof node.value === 'number' && node.source) {
+        node.value = node.source;
+      }
+    },
+  });
+  return doc.toJS();
+}
+
+/**
+ * Decode one segment of a $ref JSON pointer
+ * Falls back to the raw segment when it is not valid percent-encoding, e.g. a literal %
+ */
+function decodePointerSegment(segment: string): string {
+  let decoded = segment;
+  try {
+    decoded = decodeURIComponent(segment);
+  } catch {
+    // Not percent-encoded
+  }
+  return decoded.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+/**
+ * Check whether a URL looks like it points at a raw spec file
+ * @param url - URL to check
+ * @returns true for .json/.yaml/.yml URLs with an OpenAPI/Swagger-like name
+ */
+export function isOpenApiSpecUrl(url: string): boolean {
+  try {
+    const path = new URL(url).pathname.toLowerCase();
+    return /\.(json|ya?ml)$/.test(path) && /(openapi|swagger|api-docs|spec)/.test(path);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find the spec URL referenced by a Redoc or Swagger UI page
+ * @param html - Rendered documentation HTML
+ * @param baseUrl - URL of the documentation page (for resolving relative paths)
+ * @returns Absolute spec URL, or null if none is referenced
+ */
+export function findSpecUrl(html: string, baseUrl: string): string | null {
+  if (!html) {
+    return null;
+  }
+
+  const doc = cheerio.load(html);
+  const candidates: string[] = [];
+
+  // Redoc: <redoc spec-url="..."> or Redoc.init('...')
+  const redocAttr = doc('redoc[spec-url]').attr('spec-url');
+  if (redocAttr) candidates.push(redocAttr);
+
+  // Elements / RapiDoc web components
+  const elementsAttr = doc('elements-api[apidescriptionurl]').attr('apidescriptionurl') ||
+                       doc('rapi-doc[spec-url]').attr('spec-url');
+  if (elementsAttr) candidates.push(elementsAttr);
+
+  doc('script').each((_, elem) => {
+    const script = doc(elem).html() || '';
+
+    // Swagger UI: SwaggerUIBundle({ url: "..." })
+    const swaggerMatch = script.match(/SwaggerUI(?:Bundle)?\s*\(\s*\{[^}]*?\burl\s*:\s*["'`]([^"'`]+)["'`]/);
+    if (swaggerMatch) candidates.push(swaggerMatch[1]);
+
+    const redocMatch = script.match(/Redoc\.init\s*\(\s*["'`]([^"'`]+)["'`]/);
+    if (redocMatch) candidates.push(redocMatch[1]);
+  });
+
+  // Spec advertised via <link>
+  const linkHref = doc('link[rel="alternate"][type*="openapi"], link[rel="service-desc"]').attr('href');
+  if (linkHref) candidates.push(linkHref);
+
+  for (const candidate of candidates) {
+    try {
+      return new URL(candidate, baseUrl).toString();
+    } catch {
+      // Invalid URL, try next candidate
+    }
+  }
+
+  return null;
+}
+
+/**
+ * OpenAPI strategy for API reference documentation
+ * The API becomes the product, tags become features, operations become components,
+ * and shared $ref schemas become depends-on edges between operations and features
+ */
+export class OpenApiStrategy extends BaseStrategy {
+  readonly name = 'openapi';
+
+  canHandle(html: string, _url: string): boolean {
+    return loadOpenApiSpec(html) !== null;
+  }
+
+  async parse(html: string, url: string): Promise<ParseResult> {
+    const spec = loadOpenApiSpec(html);
+    if (!spec) {
+      throw new Error('Content is not a valid OpenAPI or Swagger document');
+    }
+
+    const warnings: string[] = [];
+    const nodes: ExtractedNode[] = [];
+    const edges: ExtractedEdge[] = [];
+    const usedIds = new Set<string>();
+
+    const uniqueId = (label: string, type: ExtractedNode['type']): string => {
+      const baseId = generateNodeId(label, type);
+      let id = baseId;
+      let suffix = 2;
+      while (usedIds.has(id)) {
+        id = `${baseId}-${suffix++}`;
+      }
+      usedIds.add(id);
+      return id;
+    };
+
+    // =====================================================
+    // PRODUCT
+    // =====================================================
+
+    const title = sanitizeText(spec.info?.title || '') || this.hostnameOf(url) || 'API';
+    const productId = uniqueId(title, 'product');
+    nodes.push({
+      id: productId,
+      type: 'product',
+      data: {
+        label: title,
+        description: truncateDescription(spec.info?.description || '', 200),
+        docUrl: spec.externalDocs?.url || (url.startsWith('http') ? url : undefined),
+        tags: spec.info?.version ? [`v${String(spec.info.version).replace(/^v/i, '')}`] : undefined,
+      },
+      level: 1,
+    });
+
+    // =====================================================
+    // FEATURES (TAGS)
+    // =====================================================
+
+    const featureIds = new Map<string, string>();
+
+    const addFeature = (tagName: string, description?: string, docUrl?: string): string => {
+      const existing = featureIds.get(tagName);
+      if (existing) return existing;
+
+      const label = sanitizeText(tagName);
+      const featureId = uniqueId(label, 'feature');
+      featureIds.set(tagName, featureId);
+      nodes.push({
+        id: featureId,
+        type: 'feature',
+        data: {
+          label,
+          description: truncateDescription(description || '', 200),
+          docUrl,
+        },
+        level: 2,
+      });
+      edges.push({
+        id: `${productId}-${featureId}`,
+        source: productId,
+        target: featureId,
+        type: 'hierarchy',
+        confidence: 0.95,
+        inferenceMethod: 'explicit',
+      });
+      return featureId;
+    };
+
+    // Declared tags first, to keep the spec's own ordering
+    if (Array.isArray(spec.tags)) {
+      spec.tags.forEach((tag) => {
+        const name = String(tag?.name ?? '');
+        if (name) {
+          addFeature(name, tag.description, tag.externalDocs?.url);
+        }
+      });
+    }
+
+    // =====================================================
+    // COMPONENTS (OPERATIONS)
+    // =====================================================
+
+    const operationSchemas = new Map<string, { featureId: string; direct: Map<string, number>; all: Set<string> }>();
+
+    Object.entries(spec.paths || {}).forEach(([path, pathItem]) => {
+      if (!pathItem || typeof pathItem !== 'object') return;
+
+      HTTP_METHODS.forEach((method) => {
+        const operation = pathItem[method] as OpenApiOperation | undefined;
+        if (!operation || typeof operation !== 'object') return;
+
+        // Untagged operations are grouped by their first path segment
+        const tagName = String(operation.tags?.[0] ?? '') || this.tagFromPath(path);
+        const featureId = addFeature(tagName);
+
+        const label = sanitizeText(operation.summary || operation.operationId || `${method.toUpperCase()} ${path}`);
+        const componentId = uniqueId(label, 'component');
+        nodes.push({
+          id: componentId,
+          type: 'component',
+          data: {
+            label,
+            description: truncateDescription(operation.description || `${method.toUpperCase()} ${path}`, 200),
+            tags: [method.toUpperCase(), ...(operation.deprecated ? ['deprecated'] : [])],
+            status: operation.deprecated ? 'deprecated' : undefined,
+            docUrl: operation.externalDocs?.url,
+          },
+          level: 3,
+          statusEvidence: operation.deprecated
+            ? { status: 'deprecated', source: 'spec', text: `${method.toUpperCase()} ${path} deprecated: true` }
+            : undefined,
+        });
+        edges.push({
+          id: `${featureId}-${componentId}`,
+          source: featureId,
+          target: componentId,
+          type: 'hierarchy',
+          confidence: 0.95,
+          inferenceMethod: 'explicit',
+        });
+
+        // Record schema usage; responses weigh more when deciding schema ownership
+        const direct = new Map<string, number>();
+        const all = new Set<string>();
+        const { responses, ...inputs } = operation;
+        const visitedRefs = new Set<string>();
+        this.collectSchemaRefs(spec, inputs, direct, all, 1, false, 0, visitedRefs);
+        this.collectSchemaRefs(spec, responses, direct, all, 2, false, 0, visitedRefs);
+        // Shared path-level parameters apply to every operation
+        this.collectSchemaRefs(spec, pathItem.parameters, direct, all, 1, false, 0, visitedRefs);
+
+        operationSchemas.set(componentId, { featureId, direct, all });
+      });
+    });
+
+    if (operationSchemas.size === 0) {
+      warnings.push('OpenAPI document contains no operations');
+    }
+
+    // =====================================================
+    // DEPENDENCY EDGES ($ref SCHEMAS)
+    // =====================================================
+
+    edges.push(...this.buildDependencyEdges(operationSchemas));
+
+    return {
+      nodes,
+      edges,
+      metadata: {
+        source_url: url,
+        generated_at: new Date().toISOString(),
+        strategy: this.name,
+        confidence: operationSchemas.size > 0 ? this.confidence() : 0.5,
+        warnings,
+        stats: {
+          nodes_extracted: nodes.length,
+          nodes_final: nodes.length,
+          edges_extracted: edges.length,
+          nodes_deduplicated: 0,
+          nodes_filtered: 0,
+          duration_ms: 0,
+        },
+      },
+    };
+  }
+
+  confidence(): number {
+    // Specs are explicit, machine-readable structure
+    return 0.95;
+  }
+
+  // =====================================================
+  // $REF RESOLUTION
+  // =====================================================
+
+  /**
+   * Walk a spec fragment and record every schema it references
+   * Schema refs (#/components/schemas/X, #/definitions/X) are recorded by name;
+   * other local refs (parameters, requestBodies, responses) are followed.
+   * Only refs reached without passing through another schema count as direct usage.
+   */
+  private collectSchemaRefs(
+    spec: OpenApiDocument,
+    value: unknown,
+    direct: Map<string, number>,
+    all: Set<string>,
+    weight: number,
+    insideSchema: boolean,
+    depth: number,
+    visitedRefs: Set<string>
+  ): void {
+    if (!value || typeof value !== 'object' || depth > MAX_REF_DEPTH) return;
+
+    if (Array.isArray(value)) {
+      value.forEach((item) =>
+        this.collectSchemaRefs(spec, item, direct, all, weight, insideSchema, depth, visitedRefs)
+      );
+      return;
+    }
+
+    const ref = (value as Record<string, unknown>).$ref;
+    if (typeof ref === 'string' && ref.startsWith('#/')) {
+      const schemaName = this.schemaNameFromRef(ref);
+      if (schemaName) {
+        all.add(schemaName);
+        if (!insideSchema) {
+          direct.set(schemaName, (direct.get(schemaName) || 0) + weight);
+        }
+      }
+
+      // Follow each ref once per walk to survive recursive schemas
+      if (visitedRefs.has(ref)) return;
+      visitedRefs.add(ref);
+
+      const resolved = this.resolvePointer(spec, ref);
+      this.collectSchemaRefs(
+        spec,
+        resolved,
+        direct,
+        all,
+        weight,
+        insideSchema || schemaName !== null,
+        depth + 1,
+        visitedRefs
+      );
+      return;
+    }
+
+    Object.values(value).forEach((child) => {
+      this.collectSchemaRefs(spec, child, direct, all, weight, insideSchema, depth, visitedRefs);
+    });
+  }
+
+  private schemaNameFromRef(ref: string): string | null {
+    const match = ref.match(/^#\/(?:components\/schemas|definitions)\/([^/]+)$/);
+    return match ? decodePointerSegment(match[1]) : null;
+  }
+
+  private resolvePointer(spec: OpenApiDocument, ref: string): unknown {
+    const segments = ref.slice(2).split('/').map(decodePointerSegment);
+
+    let current: unknown = spec;
+    for (const segment of segments) {
+      if (!current || typeof current !== 'object') return undefined;
+      current = (current as Record<string, unknown>)[segment];
+    }
+    return current;
+  }
+
+  // =====================================================
+  // EDGE EXTRACTION
+  // =====================================================
+
+  /**
+   * Each schema belongs to the feature whose operations use it most directly.
+   * An operation that uses a schema owned by another feature depends on that feature.
+   */
+  private buildDependencyEdges(
+    operationSchemas: Map<string, { featureId: string; direct: Map<string, number>; all: Set<string> }>
+  ): ExtractedEdge[] {
+    const usageByFeature = new Map<string, Map<string, number>>();
+
+    operationSchemas.forEach(({ featureId, direct }) => {
+      direct.forEach((count, schemaName) => {
+        const usage = usageByFeature.get(schemaName) || new Map<string, number>();
+        usage.set(featureId, (usage.get(featureId) || 0) + count);
+        usageByFeature.set(schemaName, usage);
+      });
+    });
+
+    const schemaOwner = new Map<string, string>();
+    usageByFeature.forEach((usage, schemaName) => {
+      let owner: string | null = null;
+      let best = 0;
+      usage.forEach((count, featureId) => {
+        if (count > best) {
+          best = count;
+          owner = featureId;
+        }
+      });
+      if (owner) schemaOwner.set(schemaName, owner);
+    });
+
+    const edges: ExtractedEdge[] = [];
+
+    operationSchemas.forEach(({ featureId, all }, componentId) => {
+      const schemasByTarget = new Map<string, string[]>();
+
+      all.forEach((schemaName) => {
+        const owner = schemaOwner.get(schemaName);
+        if (!owner || owner === featureId) return;
+        const schemas = schemasByTarget.get(owner) || [];
+        schemas.push(schemaName);
+        schemasByTarget.set(owner, schemas);
+      });
+
+      schemasByTarget.forEach((schemas, targetId) => {
+        edges.push({
+          id: `${componentId}-${targetId}`,
+          source: componentId,
+          target: targetId,
+          type: 'depends-on',
+          label: schemas.slice(0, 3).join(', '),
+          confidence: 0.75,
+          inferenceMethod: 'explicit',
+        });
+      });
+    });
+
+    return edges;
+  }
+
+  // =====================================================
+  // HELPERS
+  // =====================================================
+
+  private tagFromPath(path: string): string {
+    const segment = path
+      .split('/')
+      .find((part) => part.length > 0 && !part.startsWith('{') && !/^v\d+$/i.test(part));
+    if (!segment) return 'Default';
+    return segment.charAt(0).toUpperCase() + segment.slice(1).replace(/[-_]/g, ' ');
+  }
+
+  private hostnameOf(url: string): string {
+    try {
+      return new URL(url).hostname;
+    } catch {
+      return '';
+    }
+  }
+}
@@ -0,0 +1,307 @@
+// Sidebar tree reading shared by the site generator templates
+
+import * as cheerio from 'cheerio';
+import type { AnyNode } from 'domhandler';
+import type { ExtractedNode, ExtractedEdge, StatusEvidence } from '../types';
+import { generateNodeId, sanitizeText, truncateDescription } from '../utils';
+import { humanizeSegment } from './crawl-plan';
+import { BADGE_SELECTORS, badgeEvidence, textWithoutBadges } from './status';
+
+/**
+ * One entry of a documentation sidebar
+ */
+export interface SidebarItem {
+  label: string;
+  href?: string;
+  children: SidebarItem[];
+  /** Status badge shown next to the label */
+  statusEvidence?: StatusEvidence;
+}
+
+/**
+ * How to read a platform's sidebar DOM
+ */
+export interface SidebarTreeConfig {
+  /** Sidebar root: a <ul>, or a container holding headings and lists */
+  root: string;
+  /** Element holding an item's label, searched inside each <li> */
+  label: string;
+  /** children() chain from an <li> to its nested <ul> (default: nearest nested list) */
+  childPath?: string[];
+  /** Group headings inside a container root (e.g. Sphinx captions) */
+  heading?: string;
+}
+
+/** Deepest sidebar level turned into nodes (1 = features) */
+const MAX_SIDEBAR_DEPTH = 3;
+
+// =====================================================
+// DOM SIDEBARS
+// =====================================================
+
+/**
+ * Read a nested sidebar list into a tree
+ *
+ * @param doc - Loaded page
+ * @param config - Platform selectors
+ * @returns Top-level sidebar items (empty if the sidebar is missing)
+ */
+export function readSidebarTree(doc: cheerio.CheerioAPI, config: SidebarTreeConfig): SidebarItem[] {
+  const root = doc(config.root).first();
+  if (root.length === 0) {
+    return [];
+  }
+
+  if (root.is('ul, ol')) {
+    return readList(doc, root, config, 1);
+  }
+
+  // Containers with captions: each heading groups the list that follows it
+  const headings = config.heading ? root.find(config.heading) : doc([]);
+  if (headings.length > 0) {
+    const items: SidebarItem[] = [];
+    headings.each((_, heading) => {
+      const $heading = doc(heading);
+      const label = sanitizeText($heading.text());
+      let list = $heading.nextAll('ul, ol').first();
+      if (list.length === 0) {
+        list = $heading.parent().find('ul, ol').first();
+      }
+      if (label && list.length > 0) {
+        items.push({ label, children: readList(doc, list, config, 2) });
+      }
+    });
+    return items;
+  }
+
+  return readList(doc, root.find('ul, ol').first(), config, 1);
+}
+
+function readList(
+  doc: cheerio.CheerioAPI,
+  list: cheerio.Cheerio<AnyNode>,
+  config: SidebarTreeConfig,
+  depth: number
+): SidebarItem[] {
+  const items: SidebarItem[] = [];
+
+  list.children('li').each((_, li) => {
+    const $li = doc(li);
+
+    // Only elements that belong to this item, not to a nested one
+    const ownElements = (selector: string) => $li
+      .find(selector)
+      .filter((__, el) => doc(el).parent().closest('li')[0] === li);
+
+    let childList: cheerio.Cheerio<AnyNode> = $li;
+    if (config.childPath) {
+      for (const step of config.childPath) {
+        childList = childList.children(step);
+      }
+    } else {
+      childList = ownElements('ul, ol');
+    }
+
+    // Group headers without a link fall back to the item's own text.
+    // Status badges are left out of the label but kept as the item's status
+    const labelElement = ownElements(config.label).first();
+    const { text, evidence } = textWithoutBadges(
+      doc,
+      labelElement.length > 0 ? labelElement : $li.clone().find('ul, ol').remove().end()
+    );
+    const label = sanitizeText(text);
+    if (!label) return;
+    const badge = evidence || ownElements(BADGE_SELECTORS)
+      .toArray()
+      .map((el) => badgeEvidence(doc(el)))
+      .find((found) => found !== null);
+
+    const href = labelElement.is('a') ? labelElement.attr('href') : ownElements('a').first().attr('href');
+    items.push({
+      label,
+      href,
+      statusEvidence: badge || undefined,
+      children: depth < MAX_SIDEBAR_DEPTH && childList.length > 0
+        ? readList(doc, childList.first(), config, depth + 1)
+        : [],
+    });
+  });
+
+  return items;
+}
+
+// =====================================================
+// EMBEDDED NAVIGATION DATA
+// =====================================================
+
+/**
+ * Parse the Next.js page data embedded in the HTML (Mintlify, Nextra)
+ */
+export function readNextData(doc: cheerio.CheerioAPI): unknown {
+  const json = doc('script#__NEXT_DATA__').html();
+  if (!json) return null;
+
+  try {
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Depth-first search for the first array matching a predicate
+ */
+export function findArray(
+  value: unknown,
+  predicate: (array: unknown[]) => boolean,
+  depth: number = 0
+): unknown[] | null {
+  if (depth > 12 || !value || typeof value !== 'object') {
+    return null;
+  }
+
+  if (Array.isArray(value)) {
+    if (predicate(value)) return value;
+    for (const entry of value) {
+      const found = findArray(entry, predicate, depth + 1);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  for (const entry of Object.values(value as Record<string, unknown>)) {
+    const found = findArray(entry, predicate, depth + 1);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Turn a page slug ("api-reference/introduction") into a label
+ */
+export function labelFromSlug(slug: string): string {
+  const segments = slug.split(/[/#?]/).filter(Boolean);
+  return humanizeSegment(segments[segments.length - 1] || slug);
+}
+
+// =====================================================
+// HIERARCHY
+// =====================================================
+
+/**
+ * Best-effort site name for the product node
+ *
+ * @param doc - Loaded page
+ * @param url - Page URL
+ * @param selector - Platform-specific title element (optional)
+ */
+export function extractSiteName(doc: cheerio.CheerioAPI, url: string, selector?: string): string {
+  const candidates = [
+    doc('meta[property="og:site_name"]').attr('content'),
+    selector ? doc(selector).first().text() : undefined,
+    // "Page | Site" and "Page — Site documentation" keep the site name last
+    doc('title').text().split(/\s+[|–—-]\s+/).pop()?.replace(/\s+documentation$/i, ''),
+  ];
+
+  for (const candidate of candidates) {
+    const name = sanitizeText(candidate || '');
+    if (name && name.length <= 60) return name;
+  }
+
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return 'Documentation';
+  }
+}
+
+/**
+ * Build product → feature → component nodes from a sidebar tree
+ * Top-level items become features, nested items become components linked to
+ * their actual parent
+ *
+ * @param items - Sidebar tree
+ * @param productLabel - Label for the root product node
+ * @param url - Page URL (resolves relative links)
+ * @param sourceSelector - Recorded on nodes for debugging
+ */
+export function buildSidebarHierarchy(
+  items: SidebarItem[],
+  productLabel: string,
+  url: string,
+  sourceSelector: string
+): { nodes: ExtractedNode[]; edges: ExtractedEdge[] } {
+  const nodes: ExtractedNode[] = [];
+  const edges: ExtractedEdge[] = [];
+  const usedIds = new Set<string>();
+
+  const uniqueId = (label: string, type: ExtractedNode['type']): string => {
+    const baseId = generateNodeId(label, type);
+    let id = baseId;
+    let suffix = 2;
+    while (usedIds.has(id)) {
+      id = `${baseId}-${suffix++}`;
+    }
+    usedIds.add(id);
+    return id;
+  };
+
+  const resolve = (href?: string): string | undefined => {
+    if (!href || href.startsWith('#') || href.startsWith('javascript:')) return undefined;
+    try {
+      return new URL(href, url).toString();
+    } catch {
+      return undefined;
+    }
+  };
+
+  const productId = uniqueId(productLabel, 'product');
+  nodes.push({
+    id: productId,
+    type: 'product',
+    data: {
+      label: productLabel,
+      description: '',
+      docUrl: url,
+    },
+    level: 0,
+    sourceSelector,
+  });
+
+  const visit = (item: SidebarItem, parentId: string, depth: number) => {
+    const label = sanitizeText(item.label);
+    if (!label || label.length < 2) return;
+
+    const type = depth === 1 ? 'feature' : 'component';
+    const id = uniqueId(label, type);
+    nodes.push({
+      id,
+      type,
+      data: {
+        label,
+        description: truncateDescription(label, 200),
+        docUrl: resolve(item.href),
+        status: item.statusEvidence?.status,
+      },
+      level: depth,
+      sourceSelector,
+      statusEvidence: item.statusEvidence,
+    });
+    edges.push({
+      id: `${parentId}-${id}`,
+      source: parentId,
+      target: id,
+      type: 'hierarchy',
+      confidence: 0.9,
+      inferenceMethod: 'hierarchy',
+    });
+
+    if (depth < MAX_SIDEBAR_DEPTH) {
+      item.children.forEach((child) => visit(child, id, depth + 1));
+    }
+  };
+
+  items.forEach((item) => visit(item, productId, 1));
+
+  return { nodes, edges };
+}
@@ -0,0 +1,146 @@
+// Unit tests for maturity status detection
+
+import { describe, it, expect } from 'vitest';
+import * as cheerio from 'cheerio';
+import { splitLabelStatus, detectPageStatus, applyLabelStatuses, statusFromText, textWithoutBadges } from './status';
+import type { ExtractedNode } from '../types';
+
+describe('statusFromText', () => {
+  it('should map status words and synonyms', () => {
+    expect(statusFromText('Beta')).toBe('beta');
+    expect(statusFromText(' Public  Preview ')).toBe('beta');
+    expect(statusFromText('(Legacy)')).toBe('deprecated');
+    expect(statusFromText('GA')).toBe('stable');
+    expect(statusFromText('alpha')).toBe('experimental');
+    expect(statusFromText('New')).toBeUndefined();
+  });
+});
+
+describe('splitLabelStatus', () => {
+  it('should strip bracketed and separated suffixes', () => {
+    expect(splitLabelStatus('Lambda (Beta)')).toEqual({
+      label: 'Lambda',
+      evidence: { status: 'beta', source: 'title', text: 'Lambda (Beta)' },
+    });
+    expect(splitLabelStatus('Webhooks [Public Preview]').label).toBe('Webhooks');
+    expect(splitLabelStatus('Classic API - Deprecated').evidence?.status).toBe('deprecated');
+    expect(splitLabelStatus('Workflows | GA').evidence?.status).toBe('stable');
+  });
+
+  it('should strip prefixes', () => {
+    expect(splitLabelStatus('[Legacy] Charges')).toMatchObject({ label: 'Charges', evidence: { status: 'deprecated' } });
+    expect(splitLabelStatus('Experimental: Agents')).toMatchObject({ label: 'Agents', evidence: { status: 'experimental' } });
+  });
+
+  it('should only strip upper-case bare suffixes', () => {
+    expect(splitLabelStatus('Vector Search BETA')).toMatchObject({ label: 'Vector Search', evidence: { status: 'beta' } });
+    expect(splitLabelStatus('Join the beta')).toEqual({ label: 'Join the beta' });
+  });
+
+  it('should leave labels that end in a title-case status word', () => {
+    expect(splitLabelStatus('Migrating from Legacy')).toEqual({ label: 'Migrating from Legacy' });
+    expect(splitLabelStatus('Live Preview')).toEqual({ label: 'Live Preview' });
+    expect(splitLabelStatus('Print Preview')).toEqual({ label: 'Print Preview' });
+  });
+
+  it('should leave labels that are only a status word or contain one', () => {
+    expect(splitLabelStatus('Beta')).toEqual({ label: 'Beta' });
+    expect(splitLabelStatus('Legacy Migration Guide')).toEqual({ label: 'Legacy Migration Guide' });
+    expect(splitLabelStatus('Preview Deployments')).toEqual({ label: 'Preview Deployments' });
+  });
+});
+
+describe('detectPageStatus', () => {
+  it('should read a badge in the page heading', () => {
+    const $ = cheerio.load('<main><h1>Vector Search <span class="badge badge--secondary">Preview</span></h1></main>');
+
+    expect(detectPageStatus($)).toEqual({ status: 'beta', source: 'badge', text: 'Preview' });
+  });
+
+  it('should read a heading suffix', () => {
+    const $ = cheerio.load('<main><h1>Charges (Legacy)</h1></main>');
+
+    expect(detectPageStatus($)).toMatchObject({ status: 'deprecated', source: 'title' });
+  });
+
+  it('should read notice banners', () => {
+    const $ = cheerio.load(`
+      <main>
+        <h1>Sources API</h1>
+        <div class="theme-admonition admonition-caution"><div class="admonitionHeading">caution</div><p>This API has been deprecated. Use Payment Methods instead.</p></div>
+      </main>`);
+
+    expect(detectPageStatus($)).toEqual({
+      status: 'deprecated',
+      source: 'banner',
+      text: 'caution This API has been deprecated. Use Payment Methods instead.',
+    });
+  });
+
+  it('should ignore notices about something else on the page', () => {
+    const $ = cheerio.load(`
+      <main>
+        <h1>Charges</h1>
+        <div class="admonition"><p>The <code>source</code> parameter is deprecated.</p></div>
+        <p>This feature is in beta for some regions.</p>
+      </main>`);
+
+    expect(detectPageStatus($)).toBeNull();
+  });
+});
+
+describe('textWithoutBadges', () => {
+  it('should read a status word in its own trailing element as a badge', () => {
+    const $ = cheerio.load('<a href="/lambda">Lambda <span>Beta</span></a>');
+
+    expect(textWithoutBadges($, $('a'))).toEqual({
+      text: 'Lambda ',
+      evidence: { status: 'beta', source: 'badge', text: 'Beta' },
+    });
+  });
+
+  it('should keep status words in the label text', () => {
+    const $ = cheerio.load('<a href="/preview">Live Preview</a><a href="/beta"><span>Beta</span></a>');
+
+    expect(textWithoutBadges($, $('a').first())).toEqual({ text: 'Live Preview', evidence: undefined });
+    expect(textWithoutBadges($, $('a').last())).toEqual({ text: 'Beta', evidence: undefined });
+  });
+});
+
+describe('applyLabelStatuses', () => {
+  const node = (label: string, data: Partial<ExtractedNode['data']> = {}): ExtractedNode => ({
+    id: label,
+    type: 'feature',
+    data: { label, ...data },
+  });
+
+  it('should clean labels and set the status from the title', () => {
+    const [lambda, plain] = applyLabelStatuses([node('Lambda (Beta)'), node('Billing')]);
+
+    expect(lambda.data).toEqual({ label: 'Lambda', status: 'beta' });
+    expect(lambda.statusEvidence).toMatchObject({ source: 'title', text: 'Lambda (Beta)' });
+    expect(plain.data).toEqual({ label: 'Billing' });
+  });
+
+  it('should leave title-case status words in ordinary labels', () => {
+    const nodes = applyLabelStatuses([node('Migrating from Legacy'), node('Live Preview'), node('Print Preview')]);
+
+    expect(nodes.map((n) => n.data)).toEqual([
+      { label: 'Migrating from Legacy' },
+      { label: 'Live Preview' },
+      { label: 'Print Preview' },
+    ]);
+  });
+
+  it('should keep a status found by the strategy', () => {
+    const [lambda] = applyLabelStatuses([
+      {
+        ...node('Lambda (Beta)', { status: 'deprecated' }),
+        statusEvidence: { status: 'deprecated', source: 'badge', text: 'Deprecated' },
+      },
+    ]);
+
+    expect(lambda.data).toEqual({ label: 'Lambda', status: 'deprecated' });
+    expect(lambda.statusEvidence?.source).toBe('badge');
+  });
+});
@@ -0,0 +1,277 @@
+// Maturity status detection - badges, banners and title suffixes such as "Beta" or "Deprecated"
+
+import type * as cheerio from 'cheerio';
+import type { AnyNode } from 'domhandler';
+import type { NodeStatus } from '@docmaps/database';
+import type { ExtractedNode, StatusEvidence } from '../types';
+
+/** Status words (and common synonyms) mapped to node statuses */
+export const STATUS_ALIASES: Record<string, NodeStatus> = {
+  stable: 'stable',
+  ga: 'stable',
+  'generally available': 'stable',
+  beta: 'beta',
+  'public beta': 'beta',
+  'private beta': 'beta',
+  'open beta': 'beta',
+  preview: 'beta',
+  'public preview': 'beta',
+  'private preview': 'beta',
+  deprecated: 'deprecated',
+  legacy: 'deprecated',
+  experimental: 'experimental',
+  alpha: 'experimental',
+};
+
+/** Elements that render a status badge next to a label */
+export const BADGE_SELECTORS = [
+  '.badge',
+  '.tag',
+  '.pill',
+  '.chip',
+  'sup',
+  '[class*="badge"]',
+  '[class*="Badge"]',
+  '[class*="pill"]',
+  '[class*="tag"]',
+  '[class*="status"]',
+  '[class*="beta"]',
+  '[class*="preview"]',
+  '[class*="deprecated"]',
+].join(', ');
+
+/** Admonitions, callouts and banners that announce a page's status */
+const BANNER_SELECTORS = [
+  '.admonition',
+  '.alert',
+  '.callout',
+  '.notice',
+  '.banner',
+  '[role="alert"]',
+  '[role="note"]',
+  '[class*="admonition"]',
+  '[class*="callout"]',
+  '[class*="banner"]',
+  '[class*="deprecat"]',
+].join(', ');
+
+/** Banners checked per page: status notices sit at the top */
+const MAX_BANNERS = 3;
+
+/** Status words, longest first so "public preview" wins over "preview" */
+const STATUS_WORDS = Object.keys(STATUS_ALIASES)
+  .sort((a, b) => b.length - a.length)
+  .map((word) => word.replace(/ /g, '\\s+'))
+  .join('|');
+
+/** "Lambda (Beta)", "Lambda [Preview]" */
+const BRACKET_SUFFIX = new RegExp(`^(.+?)\\s*[([]\\s*(${STATUS_WORDS})\\s*[)\\]]$`, 'i');
+/** "Lambda - Deprecated", "Lambda: Legacy", "Lambda | GA" */
+const SEPARATED_SUFFIX = new RegExp(`^(.+?)\\s+[-–—:|]\\s*(${STATUS_WORDS})$`, 'i');
+/** "[Deprecated] Lambda", "(Beta) Lambda" */
+const BRACKET_PREFIX = new RegExp(`^[([]\\s*(${STATUS_WORDS})\\s*[)\\]]\\s*(.+)$`, 'i');
+/** "Deprecated: Lambda" */
+const COLON_PREFIX = new RegExp(`^(${STATUS_WORDS})\\s*:\\s*(.+)$`, 'i');
+/**
+ * "Lambda BETA", "Lambda GA" - upper case only, so "Migrating from Legacy" and
+ * "Live Preview" stay; "Lambda <span>Beta</span>" is read by textWithoutBadges
+ */
+const BARE_SUFFIX = /^(.+?)\s+(BETA|PREVIEW|DEPRECATED|LEGACY|EXPERIMENTAL|GA)$/;
+
+/** Banner wording, checked on the start of the banner or on sentences about "this page/feature/API" */
+const BANNER_PATTERNS: Array<{ status: NodeStatus; pattern: RegExp }> = [
+  { status: 'deprecated', pattern: /^(deprecated|legacy)\b/i },
+  { status: 'deprecated', pattern: /\bthis (\w+ ){0,2}(is|are|has been|have been) (now )?deprecated\b/i },
+  { status: 'deprecated', pattern: /\bthis (\w+ ){0,2}(is|are) no longer (supported|maintained)\b/i },
+  { status: 'beta', pattern: /^(public |private |open )?(beta|preview)\b/i },
+  { status: 'beta', pattern: /\bthis (\w+ ){0,2}(is|are) (currently |now )?(in|available (as|in)) (a )?(public |private |open )?(beta|preview)\b/i },
+  { status: 'experimental', pattern: /^(experimental|alpha)\b/i },
+  { status: 'experimental', pattern: /\bthis (\w+ ){0,2}(is|are) (currently )?(experimental|in alpha)\b/i },
+  { status: 'stable', pattern: /\bthis (\w+ ){0,2}(is|are) (now )?generally available\b/i },
+];
+
+/** Characters of banner text kept as evidence */
+const MAX_EVIDENCE_LENGTH = 120;
+
+/**
+ * Look up a status word ("Beta", "public preview", "GA")
+ * @returns Node status, or undefined if the text is not a status word
+ */
+export function statusFromText(text: string): NodeStatus | undefined {
+  const normalized = text.toLowerCase().replace(/[()[\]]/g, '').replace(/\s+/g, ' ').trim();
+  return STATUS_ALIASES[normalized];
+}
+
+/**
+ * Split a status prefix or suffix off a label
+ * "Lambda (Beta)" becomes "Lambda" with beta evidence; labels that are only a
+ * status word ("Beta") are left alone.
+ *
+ * @param label - Node label
+ * @returns Label without the status, and the evidence if one was found
+ */
+export function splitLabelStatus(label: string): { label: string; evidence?: StatusEvidence } {
+  const trimmed = label.trim();
+
+  const matchers: Array<{ pattern: RegExp; labelGroup: number; statusGroup: number }> = [
+    { pattern: BRACKET_SUFFIX, labelGroup: 1, statusGroup: 2 },
+    { pattern: SEPARATED_SUFFIX, labelGroup: 1, statusGroup: 2 },
+    { pattern: BRACKET_PREFIX, labelGroup: 2, statusGroup: 1 },
+    { pattern: COLON_PREFIX, labelGroup: 2, statusGroup: 1 },
+    { pattern: BARE_SUFFIX, labelGroup: 1, statusGroup: 2 },
+  ];
+
+  for (const { pattern, labelGroup, statusGroup } of matchers) {
+    const match = trimmed.match(pattern);
+    if (!match) continue;
+
+    const rest = match[labelGroup].trim();
+    const status = statusFromText(match[statusGroup]);
+    if (!status || rest.length < 2) continue;
+
+    return { label: rest, evidence: { status, source: 'title', text: trimmed } };
+  }
+
+  return { label: trimmed };
+}
+
+/**
+ * Find a status badge among an element's descendants
+ * @param $ - Loaded page
+ * @param element - Element to search (e.g. a sidebar item)
+ * @returns The badge element and its evidence, or null
+ */
+export function findStatusBadge(
+  $: cheerio.CheerioAPI,
+  element: cheerio.Cheerio<AnyNode>
+): { badge: cheerio.Cheerio<AnyNode>; evidence: StatusEvidence } | null {
+  let found: { badge: cheerio.Cheerio<AnyNode>; evidence: StatusEvidence } | null = null;
+
+  element.find(BADGE_SELECTORS).each((_, el) => {
+    const badge = $(el);
+    const evidence = badgeEvidence(badge);
+    if (evidence) {
+      found = { badge, evidence };
+      return false;
+    }
+    return undefined;
+  });
+
+  return found;
+}
+
+/**
+ * Read an element's text without its status badges
+ * Badges are usually separate elements ("Lambda<span class="badge">Beta</span>"),
+ * so they would otherwise run into the label. A status word in the last child
+ * element counts as a badge too ("Lambda <span>Beta</span>").
+ *
+ * @param $ - Loaded page
+ * @param element - Element holding the label
+ * @returns Text without badges, and the first badge's evidence
+ */
+export function textWithoutBadges(
+  $: cheerio.CheerioAPI,
+  element: cheerio.Cheerio<AnyNode>
+): { text: string; evidence?: StatusEvidence } {
+  const clone = element.clone();
+  let evidence: StatusEvidence | undefined;
+
+  clone.find(BADGE_SELECTORS).each((_, el) => {
+    const badge = $(el);
+    const badgeStatus = badgeEvidence(badge);
+    if (!badgeStatus) return;
+    evidence = evidence || badgeStatus;
+    badge.remove();
+  });
+
+  const suffix = clone.children().last();
+  const suffixStatus = suffix.length > 0 ? badgeEvidence(suffix) : null;
+  if (suffixStatus && clone.text().trim() !== suffix.text().trim()) {
+    evidence = evidence || suffixStatus;
+    suffix.remove();
+  }
+
+  return { text: clone.text(), evidence };
+}
+
+/**
+ * Detect a documentation page's status from its heading badge, heading
+ * suffix or a notice banner ("This feature is in public preview")
+ *
+ * @param $ - Loaded page
+ * @returns Evidence for the page's status, or null
+ */
+export function detectPageStatus($: cheerio.CheerioAPI): StatusEvidence | null {
+  const heading = $('main h1, article h1, h1').first();
+  if (heading.length > 0) {
+    // Badges sit inside the heading or right after it
+    const next = heading.next();
+    const badge = findStatusBadge($, heading)?.evidence || (next.is(BADGE_SELECTORS) ? badgeEvidence(next) : null);
+    if (badge) return badge;
+
+    const { evidence } = splitLabelStatus(heading.text().replace(/\s+/g, ' '));
+    if (evidence) return evidence;
+  }
+
+  const content = $('main, article, [role="main"]').first();
+  const banners = (content.length > 0 ? content : $('body')).find(BANNER_SELECTORS).slice(0, MAX_BANNERS);
+
+  for (const banner of banners.toArray()) {
+    const text = spacedText($, banner);
+    const match = BANNER_PATTERNS.find(({ pattern }) => pattern.test(text));
+    if (match) {
+      return { status: match.status, source: 'banner', text: text.slice(0, MAX_EVIDENCE_LENGTH) };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Strip status prefixes and suffixes from every label
+ * Nodes keep a status strategies already found (badges, banners, frontmatter);
+ * the label is cleaned either way.
+ *
+ * @param nodes - Nodes to check
+ * @returns Nodes with clean labels and statuses from their titles
+ */
+export function applyLabelStatuses(nodes: ExtractedNode[]): ExtractedNode[] {
+  return nodes.map((node) => {
+    const { label, evidence } = splitLabelStatus(node.data.label);
+    if (!evidence) return node;
+
+    return {
+      ...node,
+      data: { ...node.data, label, status: node.data.status || evidence.status },
+      statusEvidence: node.data.status ? node.statusEvidence : evidence,
+    };
+  });
+}
+
+/**
+ * Evidence from a badge element whose text is a status word
+ * @returns Evidence, or null if the badge is not a status
+ */
+export function badgeEvidence(badge: cheerio.Cheerio<AnyNode>): StatusEvidence | null {
+  const text = badge.text().replace(/\s+/g, ' ').trim();
+  const status = statusFromText(text);
+  return status ? { status, source: 'badge', text } : null;
+}
+
+/**
+ * Text of an element with its text nodes separated, so an admonition title
+ * ("caution") does not run into its body ("This API is deprecated")
+ */
+function spacedText($: cheerio.CheerioAPI, element: AnyNode): string {
+  return $(element)
+    .find('*')
+    .addBack()
+    .contents()
+    .filter((_, node) => node.type === 'text')
+    .map((_, node) => $(node).text())
+    .get()
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
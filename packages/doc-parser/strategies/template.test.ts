@@ -26,6 +26,36 @@ describe('TemplateStrategy', () => {
       expect(strategy.canHandle('', 'https://example.com')).toBe(false);
       expect(strategy.canHandle('', 'https://docs.example.com')).toBe(false);
     });
+
+    it('should detect site generators by generator meta tag', () => {
+      const cases: Array<[string, string]> = [
+        ['Docusaurus v3.1.0', 'docusaurus'],
+        ['mkdocs-1.5.3, mkdocs-material-9.5.3', 'mkdocs'],
+        ['Docutils 0.20.1: https://docutils.sourceforge.io/', 'sphinx'],
+        ['GitBook', 'gitbook'],
+        ['Mintlify', 'mintlify'],
+      ];
+
+      for (const [generator, platform] of cases) {
+        const html = `<html><head><meta name="generator" content="${generator}"></head><body></body></html>`;
+        expect(strategy.canHandle(html, 'https://docs.example.com')).toBe(true);
+        expect(strategy.getMatchedPlatform()).toBe(platform);
+      }
+    });
+
+    it('should detect site generators by DOM fingerprint', () => {
+      expect(strategy.canHandle('<div class="nextra-sidebar-container"></div>', 'https://docs.example.com')).toBe(true);
+      expect(strategy.getMatchedPlatform()).toBe('nextra');
+
+      expect(strategy.canHandle('<div class="wy-menu wy-menu-vertical"></div>', 'https://docs.example.com')).toBe(true);
+      expect(strategy.getMatchedPlatform()).toBe('sphinx');
+    });
+
+    it('should prefer URL templates over generator detection', () => {
+      const html = '<meta name="generator" content="Docusaurus v3.1.0">';
+      expect(strategy.canHandle(html, 'https://docs.github.com/en')).toBe(true);
+      expect(strategy.getMatchedPlatform()).toBe('github');
+    });
   });
 
   describe('confidence', () => {
@@ -140,6 +170,319 @@ describe('TemplateStrategy', () => {
     });
   });
 
+  describe('parse - Docusaurus', () => {
+    const html = `
+      <html>
+        <head>
+          <title>Introduction | Acme Docs</title>
+          <meta name="generator" content="Docusaurus v3.1.0">
+        </head>
+        <body>
+          <nav class="navbar"><b class="navbar__title">Acme</b></nav>
+          <aside class="theme-doc-sidebar-container">
+            <nav class="menu thin-scrollbar">
+              <ul class="theme-doc-sidebar-menu menu__list">
+                <li class="theme-doc-sidebar-item-link menu__list-item">
+                  <a class="menu__link" href="/docs/intro">Introduction</a>
+                </li>
+                <li class="theme-doc-sidebar-item-category menu__list-item">
+                  <div class="menu__list-item-collapsible">
+                    <a class="menu__link menu__link--sublist" href="/docs/category/guides">Guides</a>
+                    <button class="clean-btn menu__caret" aria-label="Toggle the collapsible sidebar category"></button>
+                  </div>
+                  <ul class="menu__list">
+                    <li class="theme-doc-sidebar-item-link menu__list-item">
+                      <a class="menu__link" href="/docs/guides/auth">Authentication</a>
+                    </li>
+                    <li class="theme-doc-sidebar-item-link menu__list-item">
+                      <a class="menu__link" href="/docs/guides/webhooks">Webhooks</a>
+                    </li>
+                  </ul>
+                </li>
+              </ul>
+            </nav>
+          </aside>
+        </body>
+      </html>
+    `;
+
+    it('should build the hierarchy from the sidebar categories', async () => {
+      const result = await strategy.parse(html, 'https://acme.dev/docs/intro');
+
+      const product = result.nodes.find(n => n.type === 'product');
+      expect(product?.data.label).toBe('Acme');
+
+      const features = result.nodes.filter(n => n.type === 'feature').map(n => n.data.label);
+      expect(features).toEqual(['Introduction', 'Guides']);
+
+      const components = result.nodes.filter(n => n.type === 'component').map(n => n.data.label);
+      expect(components).toEqual(['Authentication', 'Webhooks']);
+    });
+
+    it('should link components to their own category', async () => {
+      const result = await strategy.parse(html, 'https://acme.dev/docs/intro');
+
+      const guides = result.nodes.find(n => n.data.label === 'Guides');
+      const webhooks = result.nodes.find(n => n.data.label === 'Webhooks');
+      expect(result.edges.some(e => e.source === guides?.id && e.target === webhooks?.id)).toBe(true);
+      expect(webhooks?.data.docUrl).toBe('https://acme.dev/docs/guides/webhooks');
+    });
+
+    it('should read status badges next to sidebar labels', async () => {
+      const badged = html
+        .replace('>Authentication</a>', '>Authentication</a><span class="badge badge--warning">Deprecated</span>')
+        .replace('>Webhooks</a>', '>Webhooks <sup>Beta</sup></a>');
+      const result = await strategy.parse(badged, 'https://acme.dev/docs/intro');
+
+      const auth = result.nodes.find(n => n.data.label === 'Authentication');
+      const webhooks = result.nodes.find(n => n.data.label === 'Webhooks');
+      expect(auth?.data.status).toBe('deprecated');
+      expect(auth?.statusEvidence).toEqual({ status: 'deprecated', source: 'badge', text: 'Deprecated' });
+      expect(webhooks?.data.status).toBe('beta');
+    });
+  });
+
+  describe('parse - MkDocs Material', () => {
+    it('should read the primary navigation and skip the page TOC', async () => {
+      const html = `
+        <html>
+          <head><meta name="generator" content="mkdocs-1.5.3, mkdocs-material-9.5.3"></head>
+          <body>
+            <div class="md-header__topic"><span class="md-ellipsis">Widget SDK</span></div>
+            <nav class="md-nav md-nav--primary">
+              <ul class="md-nav__list">
+                <li class="md-nav__item"><a class="md-nav__link" href="./">Home</a></li>
+                <li class="md-nav__item md-nav__item--nested">
+                  <label class="md-nav__link" for="__nav_2">User Guide</label>
+                  <nav class="md-nav">
+                    <label class="md-nav__title">User Guide</label>
+                    <ul class="md-nav__list">
+                      <li class="md-nav__item md-nav__item--active">
+                        <a class="md-nav__link md-nav__link--active" href="install/">Installation</a>
+                        <nav class="md-nav md-nav--secondary">
+                          <ul class="md-nav__list">
+                            <li class="md-nav__item"><a class="md-nav__link" href="#requirements">Requirements</a></li>
+                          </ul>
+                        </nav>
+                      </li>
+                      <li class="md-nav__item"><a class="md-nav__link" href="config/">Configuration</a></li>
+                    </ul>
+                  </nav>
+                </li>
+              </ul>
+            </nav>
+          </body>
+        </html>
+      `;
+
+      const result = await strategy.parse(html, 'https://widgets.example.org/');
+
+      expect(result.nodes.find(n => n.type === 'product')?.data.label).toBe('Widget SDK');
+      const labels = result.nodes.map(n => n.data.label);
+      expect(labels).toContain('User Guide');
+      expect(labels).toContain('Installation');
+      expect(labels).toContain('Configuration');
+      expect(labels).not.toContain('Requirements');
+    });
+  });
+
+  describe('parse - Sphinx', () => {
+    it('should group toctree entries under their captions', async () => {
+      const html = `
+        <html>
+          <head><title>Welcome — Flux 2.1 documentation</title></head>
+          <body>
+            <script id="documentation_options" src="_static/documentation_options.js"></script>
+            <div class="wy-menu wy-menu-vertical" role="navigation">
+              <p class="caption"><span class="caption-text">Getting Started</span></p>
+              <ul>
+                <li class="toctree-l1"><a class="reference internal" href="install.html">Installation</a></li>
+                <li class="toctree-l1"><a class="reference internal" href="tutorial.html">Tutorial</a></li>
+              </ul>
+              <p class="caption"><span class="caption-text">API Reference</span></p>
+              <ul>
+                <li class="toctree-l1">
+                  <a class="reference internal" href="api/client.html">Client</a>
+                  <ul>
+                    <li class="toctree-l2"><a class="reference internal" href="api/client.html#sessions">Sessions</a></li>
+                  </ul>
+                </li>
+              </ul>
+            </div>
+          </body>
+        </html>
+      `;
+
+      const result = await strategy.parse(html, 'https://flux.readthedocs.io/en/latest/');
+
+      expect(result.nodes.find(n => n.type === 'product')?.data.label).toBe('Flux 2.1');
+      const features = result.nodes.filter(n => n.type === 'feature').map(n => n.data.label);
+      expect(features).toEqual(['Getting Started', 'API Reference']);
+
+      const client = result.nodes.find(n => n.data.label === 'Client');
+      const sessions = result.nodes.find(n => n.data.label === 'Sessions');
+      expect(client?.type).toBe('component');
+      expect(result.edges.some(e => e.source === client?.id && e.target === sessions?.id)).toBe(true);
+    });
+  });
+
+  describe('parse - GitBook', () => {
+    it('should read group headers and pages from the table of contents', async () => {
+      const html = `
+        <html>
+          <head><meta name="generator" content="GitBook"><meta property="og:site_name" content="Orbit Handbook"></head>
+          <body>
+            <aside data-testid="table-of-contents">
+              <div>
+                <ul>
+                  <li><a href="/orbit">Overview</a></li>
+                  <li>
+                    <div>Platform</div>
+                    <ul>
+                      <li><a href="/orbit/platform/deployments">Deployments</a></li>
+                      <li><a href="/orbit/platform/monitoring">Monitoring</a></li>
+                    </ul>
+                  </li>
+                </ul>
+              </div>
+            </aside>
+          </body>
+        </html>
+      `;
+
+      const result = await strategy.parse(html, 'https://orbit.gitbook.io/orbit');
+
+      expect(result.nodes.find(n => n.type === 'product')?.data.label).toBe('Orbit Handbook');
+      const platform = result.nodes.find(n => n.data.label === 'Platform');
+      expect(platform?.type).toBe('feature');
+      expect(platform?.data.docUrl).toBeUndefined();
+      const children = result.edges.filter(e => e.source === platform?.id);
+      expect(children).toHaveLength(2);
+    });
+  });
+
+  describe('parse - Mintlify', () => {
+    it('should read navigation groups from the embedded page data', async () => {
+      const nextData = {
+        props: {
+          pageProps: {
+            docsConfig: {
+              navigation: [
+                { group: 'Get Started', pages: ['introduction', 'quickstart'] },
+                {
+                  group: 'API Reference',
+                  pages: ['api-reference/overview', { group: 'Endpoints', pages: ['api-reference/endpoints/create-user'] }],
+                },
+              ],
+            },
+          },
+        },
+      };
+      const html = `
+        <html>
+          <head><meta name="generator" content="Mintlify"><title>Introduction - Nimbus</title></head>
+          <body>
+            <div id="navigation-items"></div>
+            <script id="__NEXT_DATA__" type="application/json">${JSON.stringify(nextData)}</script>
+          </body>
+        </html>
+      `;
+
+      const result = await strategy.parse(html, 'https://docs.nimbus.io/introduction');
+
+      const features = result.nodes.filter(n => n.type === 'feature').map(n => n.data.label);
+      expect(features).toEqual(['Get Started', 'API Reference']);
+
+      const createUser = result.nodes.find(n => n.data.label === 'Create User');
+      expect(createUser?.data.docUrl).toBe('https://docs.nimbus.io/api-reference/endpoints/create-user');
+    });
+
+    it('should fall back to the sidebar DOM', async () => {
+      const html = `
+        <meta name="generator" content="Mintlify">
+        <div id="navigation-items">
+          <div>
+            <h5 id="sidebar-title">Guides</h5>
+            <ul>
+              <li><a href="/guides/setup">Setup</a></li>
+              <li><a href="/guides/deploy">Deploying</a></li>
+            </ul>
+          </div>
+        </div>
+      `;
+
+      const result = await strategy.parse(html, 'https://docs.nimbus.io/');
+
+      expect(result.nodes.filter(n => n.type === 'feature').map(n => n.data.label)).toEqual(['Guides']);
+      expect(result.nodes.filter(n => n.type === 'component').map(n => n.data.label)).toEqual(['Setup', 'Deploying']);
+    });
+  });
+
+  describe('parse - Nextra', () => {
+    it('should read the page map with _meta titles and order', async () => {
+      const nextData = {
+        props: {
+          pageProps: {
+            pageMap: [
+              { kind: 'Meta', data: { index: 'Introduction', guides: 'Guides', blog: { title: 'Blog', display: 'hidden' } } },
+              { kind: 'MdxPage', name: 'blog', route: '/blog' },
+              {
+                kind: 'Folder',
+                name: 'guides',
+                route: '/guides',
+                children: [
+                  { kind: 'MdxPage', name: 'theming', route: '/guides/theming', frontMatter: { title: 'Theming & Styles' } },
+                ],
+              },
+              { kind: 'MdxPage', name: 'index', route: '/' },
+            ],
+          },
+        },
+      };
+      const html = `
+        <div class="nextra-sidebar-container"></div>
+        <script id="__NEXT_DATA__" type="application/json">${JSON.stringify(nextData)}</script>
+      `;
+
+      const result = await strategy.parse(html, 'https://nextra-site.dev/');
+
+      const features = result.nodes.filter(n => n.type === 'feature').map(n => n.data.label);
+      expect(features).toEqual(['Introduction', 'Guides']);
+      expect(result.nodes.some(n => n.data.label === 'Theming & Styles')).toBe(true);
+    });
+
+    it('should fall back to the sidebar DOM with folder buttons', async () => {
+      const html = `
+        <aside class="nextra-sidebar-container">
+          <ul>
+            <li><a href="/">Introduction</a></li>
+            <li>
+              <button>Advanced</button>
+              <div><ul><li><a href="/advanced/plugins">Plugins</a></li></ul></div>
+            </li>
+          </ul>
+        </aside>
+      `;
+
+      const result = await strategy.parse(html, 'https://nextra-site.dev/');
+
+      const advanced = result.nodes.find(n => n.data.label === 'Advanced');
+      const plugins = result.nodes.find(n => n.data.label === 'Plugins');
+      expect(result.edges.some(e => e.source === advanced?.id && e.target === plugins?.id)).toBe(true);
+    });
+  });
+
+  describe('parse - site generator fallbacks', () => {
+    it('should lower confidence when the sidebar is empty', async () => {
+      const html = '<meta name="generator" content="Docusaurus v3.1.0"><main>No sidebar here</main>';
+
+      const result = await strategy.parse(html, 'https://acme.dev/blog');
+
+      expect(result.metadata.confidence).toBeLessThan(0.3);
+      expect(result.metadata.warnings.length).toBeGreaterThan(0);
+    });
+  });
+
   describe('parse - edges', () => {
     it('should create hierarchy edges between products and features', async () => {
       const html = `
@@ -4,25 +4,85 @@ import * as cheerio from 'cheerio';
 import { BaseStrategy } from './base';
 import type { ParseResult, ExtractedNode, ExtractedEdge } from '../types';
 import { generateNodeId, sanitizeText, truncateDescription } from '../utils';
+import {
+  readSidebarTree,
+  readNextData,
+  findArray,
+  labelFromSlug,
+  extractSiteName,
+  buildSidebarHierarchy,
+} from './sidebar-tree';
+import type { SidebarItem, SidebarTreeConfig } from './sidebar-tree';
+import { humanizeSegment } from './crawl-plan';
 
 /**
  * Platform-specific template configuration
+ * Hosted platforms match by URL; site generators match by their generator
+ * meta tag or a DOM fingerprint, since they run on any domain
  */
 interface PlatformTemplate {
   name: string;
-  urlPattern: RegExp;
+  urlPattern?: RegExp;
+  /** Matched against <meta name="generator" content="..."> */
+  generator?: RegExp;
+  /** Selector that only exists on pages built by this platform */
+  fingerprint?: string;
   selectors: {
     navigation?: string;
     breadcrumbs?: string;
     sidebar?: string;
     mainContent?: string;
+    siteTitle?: string;
   };
   extractors: {
-    products: (doc: cheerio.CheerioAPI) => ExtractedNode[];
-    features: (doc: cheerio.CheerioAPI, products: ExtractedNode[]) => ExtractedNode[];
+    products?: (doc: cheerio.CheerioAPI) => ExtractedNode[];
+    features?: (doc: cheerio.CheerioAPI, products: ExtractedNode[]) => ExtractedNode[];
+    /** Full sidebar tree, turned into product → feature → component nodes */
+    sidebar?: (doc: cheerio.CheerioAPI, url: string) => SidebarItem[];
   };
 }
 
+/** Docusaurus classic theme sidebar */
+const DOCUSAURUS_SIDEBAR: SidebarTreeConfig = {
+  root: 'ul.theme-doc-sidebar-menu, nav.menu > ul.menu__list',
+  label: '.menu__link',
+  childPath: ['ul.menu__list'],
+};
+
+/** MkDocs Material primary navigation (the secondary nav is the page TOC) */
+const MKDOCS_MATERIAL_SIDEBAR: SidebarTreeConfig = {
+  root: 'nav.md-nav--primary > ul.md-nav__list',
+  label: '.md-nav__link',
+  childPath: ['nav.md-nav:not(.md-nav--secondary)', 'ul.md-nav__list'],
+};
+
+/** MkDocs built-in themes and Sphinx themes share the toctree markup */
+const TOCTREE_SIDEBARS: SidebarTreeConfig[] = [
+  { root: '.wy-menu-vertical', label: 'a', heading: 'p.caption' },           // Read the Docs theme
+  { root: '.sidebar-tree', label: 'a', heading: 'p.caption' },               // Furo
+  { root: '.bd-docs-nav, .bd-sidebar-primary nav', label: 'a', heading: 'p.caption' }, // PyData
+  { root: 'div.sphinxsidebarwrapper', label: 'a', heading: 'p.caption' },    // Alabaster / basic
+];
+
+/** GitBook (current) table of contents, then legacy GitBook summary */
+const GITBOOK_SIDEBARS: SidebarTreeConfig[] = [
+  { root: '[data-testid="table-of-contents"] ul', label: 'a' },
+  { root: '.book-summary ul.summary', label: 'a' },
+];
+
+/** Mintlify sidebar: group headings followed by page lists */
+const MINTLIFY_SIDEBAR: SidebarTreeConfig = {
+  root: '#navigation-items, #sidebar-content',
+  label: 'a',
+  heading: 'h5, .sidebar-group-header',
+};
+
+/** Nextra sidebar: folders are buttons with nested lists */
+const NEXTRA_SIDEBAR: SidebarTreeConfig = {
+  root: '.nextra-sidebar-container ul, .nextra-sidebar ul',
+  label: 'a, button',
+};
+
 /**
  * Template strategy for known documentation platforms
  * Uses predefined selectors and extraction rules for high accuracy
@@ -71,10 +131,79 @@ export class TemplateStrategy extends BaseStrategy {
         features: (doc, products) => this.extractGitHubFeatures(doc, products),
       },
     },
+    {
+      name: 'docusaurus',
+      generator: /docusaurus/i,
+      fingerprint: '.theme-doc-sidebar-menu, #__docusaurus',
+      selectors: {
+        sidebar: DOCUSAURUS_SIDEBAR.root,
+        siteTitle: '.navbar__title',
+      },
+      extractors: {
+        sidebar: (doc) => readSidebarTree(doc, DOCUSAURUS_SIDEBAR),
+      },
+    },
+    {
+      name: 'mkdocs',
+      generator: /mkdocs/i,
+      fingerprint: 'nav.md-nav--primary, .md-header__title',
+      selectors: {
+        sidebar: MKDOCS_MATERIAL_SIDEBAR.root,
+        siteTitle: '.md-header__topic:first-child .md-ellipsis',
+      },
+      extractors: {
+        sidebar: (doc) => this.extractFirstSidebar(doc, [MKDOCS_MATERIAL_SIDEBAR, ...TOCTREE_SIDEBARS]),
+      },
+    },
+    {
+      name: 'sphinx',
+      generator: /sphinx|docutils/i,
+      fingerprint: 'script#documentation_options, .wy-menu-vertical, div.sphinxsidebar, .sidebar-tree',
+      selectors: {
+        sidebar: '.wy-menu-vertical, .sidebar-tree, .bd-docs-nav, div.sphinxsidebarwrapper',
+        siteTitle: '.wy-side-nav-search > a, .sidebar-brand-text, .navbar-brand .title',
+      },
+      extractors: {
+        sidebar: (doc) => this.extractFirstSidebar(doc, TOCTREE_SIDEBARS),
+      },
+    },
+    {
+      name: 'gitbook',
+      generator: /gitbook/i,
+      fingerprint: '[data-testid="table-of-contents"], .book-summary',
+      selectors: {
+        sidebar: '[data-testid="table-of-contents"], .book-summary',
+      },
+      extractors: {
+        sidebar: (doc) => this.extractFirstSidebar(doc, GITBOOK_SIDEBARS),
+      },
+    },
+    {
+      name: 'mintlify',
+      generator: /mintlify/i,
+      fingerprint: '#navigation-items, #sidebar-content',
+      selectors: {
+        sidebar: MINTLIFY_SIDEBAR.root,
+      },
+      extractors: {
+        sidebar: (doc) => this.extractMintlifySidebar(doc),
+      },
+    },
+    {
+      name: 'nextra',
+      generator: /nextra/i,
+      fingerprint: '.nextra-sidebar-container, .nextra-sidebar, .nextra-nav-container',
+      selectors: {
+        sidebar: '.nextra-sidebar-container, .nextra-sidebar',
+      },
+      extractors: {
+        sidebar: (doc) => this.extractNextraSidebar(doc),
+      },
+    },
   ];
 
   canHandle(html: string, url: string): boolean {
-    const template = this.templates.find((t) => t.urlPattern.test(url));
+    const template = this.findTemplate(html, url);
     if (template) {
       this.matchedPlatform = template.name;
       return true;
@@ -82,8 +211,15 @@ export class TemplateStrategy extends BaseStrategy {
     return false;
   }
 
+  /**
+   * Name of the platform matched by the last canHandle call
+   */
+  getMatchedPlatform(): string | null {
+    return this.matchedPlatform;
+  }
+
   async parse(html: string, url: string): Promise<ParseResult> {
-    const template = this.templates.find((t) => t.urlPattern.test(url));
+    const template = this.findTemplate(html, url);
     if (!template) {
       throw new Error('No template matched for URL');
     }
@@ -91,6 +227,24 @@ export class TemplateStrategy extends BaseStrategy {
     const doc = cheerio.load(html);
     const warnings: string[] = [];
 
+    if (template.extractors.sidebar) {
+      const items = template.extractors.sidebar(doc, url);
+      const siteName = extractSiteName(doc, url, template.selectors.siteTitle);
+      const { nodes, edges } = buildSidebarHierarchy(items, siteName, url, template.selectors.sidebar || template.name);
+
+      // Fingerprint matched but the sidebar was empty: let other strategies try
+      const foundEntries = nodes.length > 1;
+      if (!foundEntries) {
+        warnings.push(`No sidebar entries found using ${template.name} template`);
+      }
+
+      return this.buildResult(url, nodes, edges, warnings, foundEntries ? this.confidence() : 0.2);
+    }
+
+    if (!template.extractors.products || !template.extractors.features) {
+      throw new Error(`Template ${template.name} has no extractors`);
+    }
+
     // Extract products (top-level items)
     const products = template.extractors.products(doc);
     if (products.length === 0) {
@@ -108,6 +262,50 @@ export class TemplateStrategy extends BaseStrategy {
     // Extract edges (hierarchy relationships)
     const edges = this.extractHierarchyEdges(nodes);
 
+    return this.buildResult(url, nodes, edges, warnings, this.confidence());
+  }
+
+  confidence(): number {
+    return 0.9;
+  }
+
+  /**
+   * Find the template for a page: hosted platforms by URL first, then site
+   * generators by generator meta tag, then by DOM fingerprint
+   */
+  private findTemplate(html: string, url: string): PlatformTemplate | null {
+    const byUrl = this.templates.find((t) => t.urlPattern && t.urlPattern.test(url));
+    if (byUrl) {
+      return byUrl;
+    }
+
+    if (!html) {
+      return null;
+    }
+
+    const doc = cheerio.load(html);
+    const generator = doc('meta[name="generator"]')
+      .map((_, el) => doc(el).attr('content') || '')
+      .get()
+      .join(' ');
+
+    if (generator) {
+      const byGenerator = this.templates.find((t) => t.generator && t.generator.test(generator));
+      if (byGenerator) {
+        return byGenerator;
+      }
+    }
+
+    return this.templates.find((t) => t.fingerprint && doc(t.fingerprint).length > 0) || null;
+  }
+
+  private buildResult(
+    url: string,
+    nodes: ExtractedNode[],
+    edges: ExtractedEdge[],
+    warnings: string[],
+    confidence: number
+  ): ParseResult {
     return {
       nodes,
       edges,
@@ -115,7 +313,7 @@ export class TemplateStrategy extends BaseStrategy {
         source_url: url,
         generated_at: new Date().toISOString(),
         strategy: this.name,
-        confidence: this.confidence(),
+        confidence,
         warnings,
         stats: {
           nodes_extracted: nodes.length,
@@ -129,10 +327,6 @@ export class TemplateStrategy extends BaseStrategy {
     };
   }
 
-  confidence(): number {
-    return 0.9;
-  }
-
   // =====================================================
   // AWS EXTRACTORS
   // =====================================================
@@ -307,6 +501,117 @@ export class TemplateStrategy extends BaseStrategy {
     return features;
   }
 
+  // =====================================================
+  // SITE GENERATOR EXTRACTORS
+  // =====================================================
+
+  /**
+   * Read the first sidebar variant present on the page (themes differ per site)
+   */
+  private extractFirstSidebar(doc: cheerio.CheerioAPI, configs: SidebarTreeConfig[]): SidebarItem[] {
+    for (const config of configs) {
+      const items = readSidebarTree(doc, config);
+      if (items.length > 0) {
+        return items;
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Mintlify embeds its docs.json/mint.json navigation ({ group, pages }) in
+   * the Next.js page data, which lists every page even when groups are collapsed
+   */
+  private extractMintlifySidebar(doc: cheerio.CheerioAPI): SidebarItem[] {
+    const isGroup = (entry: unknown): entry is { group: string; pages: unknown[] } =>
+      !!entry && typeof entry === 'object' &&
+      typeof (entry as { group?: unknown }).group === 'string' &&
+      Array.isArray((entry as { pages?: unknown }).pages);
+
+    const toItems = (pages: unknown[]): SidebarItem[] => pages.flatMap((page): SidebarItem[] => {
+      if (typeof page === 'string') {
+        return [{ label: labelFromSlug(page), href: `/${page.replace(/^\//, '')}`, children: [] }];
+      }
+      if (isGroup(page)) {
+        return [{ label: page.group, children: toItems(page.pages) }];
+      }
+      if (page && typeof page === 'object') {
+        const { title, href, url } = page as { title?: unknown; href?: unknown; url?: unknown };
+        const link = typeof href === 'string' ? href : typeof url === 'string' ? url : undefined;
+        if (typeof title === 'string') {
+          return [{ label: title, href: link, children: [] }];
+        }
+      }
+      return [];
+    });
+
+    const navigation = findArray(readNextData(doc), (array) => array.length > 0 && array.every(isGroup));
+    if (navigation) {
+      return toItems(navigation);
+    }
+
+    return readSidebarTree(doc, MINTLIFY_SIDEBAR);
+  }
+
+  /**
+   * Nextra embeds its page map (folders, pages and _meta titles) in the
+   * Next.js page data; newer app-router sites only have the sidebar DOM
+   */
+  private extractNextraSidebar(doc: cheerio.CheerioAPI): SidebarItem[] {
+    type PageMapEntry = {
+      kind?: string;
+      name?: string;
+      route?: string;
+      children?: PageMapEntry[];
+      frontMatter?: { title?: string };
+      data?: Record<string, unknown>;
+    };
+
+    const isPageMap = (array: unknown[]): boolean =>
+      array.length > 0 &&
+      array.every((entry) => !!entry && typeof entry === 'object' && 'kind' in (entry as object)) &&
+      array.some((entry) => ['Folder', 'MdxPage'].includes((entry as PageMapEntry).kind || ''));
+
+    const toItems = (entries: PageMapEntry[]): SidebarItem[] => {
+      const meta = entries.find((entry) => entry.kind === 'Meta')?.data || {};
+      const order = Object.keys(meta);
+      const titleFor = (entry: PageMapEntry): string | null => {
+        const value = entry.name ? meta[entry.name] : undefined;
+        if (value && typeof value === 'object') {
+          const { title, display } = value as { title?: unknown; display?: unknown };
+          if (display === 'hidden') return null;
+          if (typeof title === 'string') return title;
+        }
+        if (typeof value === 'string') return value;
+        return entry.frontMatter?.title || humanizeSegment(entry.name || '');
+      };
+
+      return entries
+        .filter((entry) => entry.kind === 'Folder' || entry.kind === 'MdxPage')
+        .sort((a, b) => {
+          const indexA = order.indexOf(a.name || '');
+          const indexB = order.indexOf(b.name || '');
+          return (indexA === -1 ? order.length : indexA) - (indexB === -1 ? order.length : indexB);
+        })
+        .flatMap((entry): SidebarItem[] => {
+          const label = titleFor(entry);
+          if (!label) return [];
+          return [{
+            label,
+            href: entry.route,
+            children: entry.kind === 'Folder' ? toItems(entry.children || []) : [],
+          }];
+        });
+    };
+
+    const pageMap = findArray(readNextData(doc), isPageMap);
+    if (pageMap) {
+      return toItems(pageMap as PageMapEntry[]);
+    }
+
+    return readSidebarTree(doc, NEXTRA_SIDEBAR);
+  }
+
   // =====================================================
   // EDGE EXTRACTION
   // =====================================================
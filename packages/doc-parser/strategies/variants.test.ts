@@ -0,0 +1,137 @@
+// Unit tests for version and locale detection
+
+import { describe, it, expect } from 'vitest';
+import {
+  detectDocVariants,
+  hasVariants,
+  isOtherVariant,
+  isLocaleSegment,
+  isVersionSegment,
+  resolveVariantUrl,
+  variantFreeUrl,
+} from './variants';
+
+const latestHtml = `
+  <html lang="en">
+    <head>
+      <link rel="alternate" hreflang="en" href="https://docs.acme.dev/docs/intro">
+      <link rel="alternate" hreflang="ja" href="https://docs.acme.dev/ja/docs/intro">
+      <link rel="alternate" hreflang="x-default" href="https://docs.acme.dev/docs/intro">
+    </head>
+    <body>
+      <div class="navbar__item dropdown">
+        <ul class="dropdown__menu">
+          <li><a href="/docs/next/intro">Next</a></li>
+          <li><a href="/docs/intro">3.x</a></li>
+          <li><a href="/docs/2.x/intro">2.x</a></li>
+        </ul>
+      </div>
+      <main><a href="/docs/api/reference/v1">API v1 reference</a></main>
+    </body>
+  </html>
+`;
+
+describe('isVersionSegment / isLocaleSegment', () => {
+  it('should recognise version and locale segments', () => {
+    expect(['v2', 'v1.4', '2.x', '3.11', '1.2.3', 'latest', 'next'].every(isVersionSegment)).toBe(true);
+    expect(['2', 'guides', 'version', 'v'].some(isVersionSegment)).toBe(false);
+    expect(['en', 'ja', 'pt-br', 'zh_CN', 'zh-hans'].every(isLocaleSegment)).toBe(true);
+    expect(['go', 'js', 'ai', 'docs', 'en-'].some(isLocaleSegment)).toBe(false);
+  });
+});
+
+describe('detectDocVariants', () => {
+  it('should read versions from switcher menus and locales from hreflang', () => {
+    const variants = detectDocVariants(latestHtml, 'https://docs.acme.dev/docs/intro');
+
+    expect(variants.version).toBeUndefined();
+    expect(variants.locale).toBe('en');
+    expect(variants.versions).toEqual([
+      { name: 'next', url: 'https://docs.acme.dev/docs/next/intro' },
+      { name: '2.x', url: 'https://docs.acme.dev/docs/2.x/intro' },
+    ]);
+    expect(variants.locales.map(l => l.name)).toEqual(['en', 'ja']);
+  });
+
+  it('should read the version and locale from the path', () => {
+    const variants = detectDocVariants('<html lang="ja"></html>', 'https://docs.acme.dev/ja/v2/guides');
+
+    expect(variants).toMatchObject({ version: 'v2', locale: 'ja' });
+  });
+
+  it('should ignore invalid URLs', () => {
+    expect(detectDocVariants('<html></html>', 'not a url')).toEqual({ versions: [], locales: [] });
+  });
+});
+
+describe('isOtherVariant', () => {
+  const variants = detectDocVariants(latestHtml, 'https://docs.acme.dev/docs/intro');
+
+  it('should flag pages in other versions and locales', () => {
+    expect(isOtherVariant('https://docs.acme.dev/docs/2.x/billing', variants)).toBe(true);
+    expect(isOtherVariant('https://docs.acme.dev/ja/docs/billing', variants)).toBe(true);
+  });
+
+  it('should keep unversioned pages, the same locale and deep version-like segments', () => {
+    expect(isOtherVariant('https://docs.acme.dev/docs/billing', variants)).toBe(false);
+    expect(isOtherVariant('https://docs.acme.dev/en/docs/billing', variants)).toBe(false);
+    expect(isOtherVariant('https://docs.acme.dev/docs/api/reference/v1', variants)).toBe(false);
+  });
+
+  it('should not filter sites without versions or locales', () => {
+    const plain = detectDocVariants('<html></html>', 'https://docs.acme.dev/docs');
+    expect(isOtherVariant('https://docs.acme.dev/docs/v1/billing', plain)).toBe(false);
+  });
+});
+
+describe('hasVariants', () => {
+  it('should detect switchers and version or locale paths', () => {
+    expect(hasVariants(detectDocVariants(latestHtml, 'https://docs.acme.dev/docs/intro'), 'https://docs.acme.dev/docs/intro')).toBe(true);
+    expect(hasVariants(detectDocVariants('<html></html>', 'https://docs.acme.dev/v2/intro'), 'https://docs.acme.dev/v2/intro')).toBe(true);
+    expect(hasVariants(detectDocVariants('<html></html>', 'https://docs.acme.dev/ja/intro'), 'https://docs.acme.dev/ja/intro')).toBe(true);
+  });
+
+  it('should not count an <html lang> alone', () => {
+    const url = 'https://docs.acme.dev/docs/intro';
+    expect(hasVariants(detectDocVariants('<html lang="en"></html>', url), url)).toBe(false);
+  });
+});
+
+describe('resolveVariantUrl', () => {
+  const variants = detectDocVariants(latestHtml, 'https://docs.acme.dev/docs/intro');
+
+  it('should keep the URL when it already matches', () => {
+    expect(resolveVariantUrl(variants, 'https://docs.acme.dev/docs/intro', {})).toBe('https://docs.acme.dev/docs/intro');
+    expect(resolveVariantUrl(variants, 'https://docs.acme.dev/docs/intro', { locale: 'en-US' })).toBe('https://docs.acme.dev/docs/intro');
+  });
+
+  it('should use the switcher menus', () => {
+    expect(resolveVariantUrl(variants, 'https://docs.acme.dev/docs/intro', { version: '2.X' })).toBe('https://docs.acme.dev/docs/2.x/intro');
+    expect(resolveVariantUrl(variants, 'https://docs.acme.dev/docs/intro', { locale: 'ja' })).toBe('https://docs.acme.dev/ja/docs/intro');
+  });
+
+  it('should swap version and locale segments in the path', () => {
+    const versioned = detectDocVariants('<html></html>', 'https://docs.acme.dev/en/v2/guides');
+
+    expect(resolveVariantUrl(versioned, 'https://docs.acme.dev/en/v2/guides', { version: 'v1', locale: 'fr' })).toBe(
+      'https://docs.acme.dev/fr/v1/guides'
+    );
+  });
+
+  it('should reject versions and locales it cannot find', () => {
+    expect(() => resolveVariantUrl(variants, 'https://docs.acme.dev/docs/intro', { version: '1.x' })).toThrow(
+      'Version "1.x" not found at https://docs.acme.dev/docs/intro (available: next, 2.x)'
+    );
+    expect(() => resolveVariantUrl(variants, 'https://docs.acme.dev/docs/intro', { locale: 'ko' })).toThrow(
+      'Locale "ko" not found'
+    );
+  });
+});
+
+describe('variantFreeUrl', () => {
+  it('should drop version and locale segments', () => {
+    expect(variantFreeUrl('https://docs.acme.dev/ja/v2/guides/')).toBe('https://docs.acme.dev/guides');
+    expect(variantFreeUrl('https://docs.acme.dev/docs/latest/auth#keys')).toBe('https://docs.acme.dev/docs/auth');
+    expect(variantFreeUrl('https://docs.acme.dev/docs/api/reference/v1')).toBe('https://docs.acme.dev/docs/api/reference/v1');
+  });
+});
@@ -0,0 +1,292 @@
+// Versioned and localized documentation
+// Many doc sites serve /v1/, /v2/, /latest/, /en/, /ja/ copies of the same
+// page tree. Detects which copy a page belongs to and which others exist, so
+// crawling stays within one version and locale.
+
+import * as cheerio from 'cheerio';
+import { normalizePageUrl } from './crawl-plan';
+
+/**
+ * Another version or locale of the documentation
+ */
+export interface VariantOption {
+  /** Version or locale name, as it appears in URLs (e.g. 'v2', '2.x', 'ja', 'pt-br') */
+  name: string;
+  /** URL of this page (or the docs root) in that version or locale */
+  url: string;
+}
+
+/**
+ * Version and locale of a documentation page, and the alternatives it links to
+ */
+export interface DocVariants {
+  /** Version in the page's path, undefined for unversioned (usually latest) docs */
+  version?: string;
+  /** Locale in the page's path, or its <html lang> */
+  locale?: string;
+  /** Versions from version switcher menus */
+  versions: VariantOption[];
+  /** Locales from hreflang alternates and language menus */
+  locales: VariantOption[];
+}
+
+/**
+ * Version and locale to map; unset means the page's own
+ */
+export interface VariantSelection {
+  version?: string;
+  locale?: string;
+}
+
+/** Only the first path segments are checked, so /docs/api/reference/v1 is not read as a version */
+const MAX_VARIANT_DEPTH = 3;
+
+/** v2, v1.4, 2.x, 3.11, 1.2.3, latest, next... */
+const VERSION_SEGMENT = /^(?:v\d+(?:\.\d+)*(?:\.x)?|\d+\.(?:\d+|x)(?:\.(?:\d+|x))?|latest|stable|current|next|nightly|canary|unreleased)$/i;
+
+/** Two-letter languages that doc sites translate into (others are too easily mistaken for words) */
+const LANGUAGE_CODES = new Set([
+  'ar', 'bn', 'cs', 'da', 'de', 'el', 'en', 'es', 'fa', 'fi', 'fr', 'he', 'hi', 'hu', 'id', 'it',
+  'ja', 'ko', 'ms', 'nb', 'nl', 'pl', 'pt', 'ro', 'ru', 'sv', 'th', 'tr', 'uk', 'vi', 'zh',
+]);
+
+/** Menus that link to other versions or translations of the page */
+const SWITCHER_SELECTORS = [
+  '[class*="version"]',
+  '[id*="version"]',
+  '[class*="lang"]',
+  '[id*="lang"]',
+  '[class*="locale"]',
+  '.rst-versions',
+  '.dropdown__menu',
+].join(', ');
+
+/**
+ * Check whether a path segment names a version
+ */
+export function isVersionSegment(segment: string): boolean {
+  return VERSION_SEGMENT.test(segment);
+}
+
+/**
+ * Check whether a path segment names a locale (en, ja, pt-br, zh_CN, zh-hans)
+ */
+export function isLocaleSegment(segment: string): boolean {
+  const match = segment.toLowerCase().match(/^([a-z]{2})(?:[-_](?:[a-z]{2}|hans|hant))?$/);
+  return !!match && LANGUAGE_CODES.has(match[1]);
+}
+
+/**
+ * Detect the version and locale of a page and the alternatives it offers
+ * @param html - Page HTML
+ * @param url - Page URL
+ * @returns Current version and locale, and the versions and locales linked from the page
+ */
+export function detectDocVariants(html: string, url: string): DocVariants {
+  let host: string;
+  let segments: string[];
+  try {
+    host = new URL(url).hostname;
+    segments = pathSegments(url);
+  } catch {
+    return { versions: [], locales: [] };
+  }
+  const version = segments.find(isVersionSegment);
+  const pathLocale = segments.find(isLocaleSegment);
+
+  const $ = cheerio.load(html);
+  const versions = new Map<string, string>();
+  const locales = new Map<string, string>();
+
+  const addOption = (href: string | undefined, options: Map<string, string>, isVariant: (segment: string) => boolean) => {
+    const resolved = href ? resolveSameHost(href, url, host) : null;
+    const name = resolved ? pathSegments(resolved).find(isVariant) : undefined;
+    if (resolved && name && !options.has(name.toLowerCase())) {
+      options.set(name.toLowerCase(), resolved);
+    }
+  };
+
+  $('link[rel="alternate"][hreflang]').each((_, el) => {
+    const hreflang = ($(el).attr('hreflang') || '').toLowerCase();
+    const resolved = resolveSameHost($(el).attr('href') || '', url, host);
+    if (resolved && hreflang !== 'x-default' && !locales.has(hreflang)) {
+      locales.set(hreflang, resolved);
+    }
+  });
+
+  $(SWITCHER_SELECTORS).each((_, el) => {
+    $(el).find('a[href]').each((_, link) => {
+      addOption($(link).attr('href'), versions, isVersionSegment);
+      addOption($(link).attr('href'), locales, isLocaleSegment);
+    });
+    $(el).find('option[value]').each((_, option) => {
+      addOption($(option).attr('value'), versions, isVersionSegment);
+    });
+  });
+
+  const htmlLang = $('html').attr('lang');
+  const locale = pathLocale || (htmlLang ? htmlLang.toLowerCase().replace('_', '-') : undefined);
+
+  return {
+    version: version?.toLowerCase(),
+    locale: locale?.toLowerCase(),
+    versions: Array.from(versions, ([name, optionUrl]) => ({ name, url: optionUrl })),
+    locales: Array.from(locales, ([name, optionUrl]) => ({ name, url: optionUrl })),
+  };
+}
+
+/**
+ * Check whether the docs come in several versions or locales: the page has
+ * a version or locale in its path, or a switcher offers others
+ * (an <html lang> alone does not count)
+ * @param variants - Variants of the page
+ * @param url - Page URL
+ */
+export function hasVariants(variants: DocVariants, url: string): boolean {
+  if (variants.version !== undefined || variants.versions.length > 0 || variants.locales.length > 0) {
+    return true;
+  }
+  try {
+    return pathSegments(url).some(isLocaleSegment);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether a URL belongs to a different version or locale than the page
+ * Only applies to sites known to be versioned or localized; pages without a
+ * version or locale in their path are shared and never count as different
+ * @param url - URL to check
+ * @param variants - Variants of the current page
+ */
+export function isOtherVariant(url: string, variants: DocVariants): boolean {
+  let segments: string[];
+  try {
+    segments = pathSegments(url);
+  } catch {
+    return false;
+  }
+
+  const versioned = variants.version !== undefined || variants.versions.length > 0;
+  const version = versioned ? segments.find(isVersionSegment) : undefined;
+  if (version && !sameVersion(version, variants.version)) {
+    return true;
+  }
+
+  const localized = variants.locale !== undefined || variants.locales.length > 0;
+  const locale = localized ? segments.find(isLocaleSegment) : undefined;
+  return !!locale && !sameLocale(locale, variants.locale);
+}
+
+/**
+ * Find the URL of a page in another version and/or locale
+ * Uses the switcher menus first, then swaps the version or locale segment in the URL
+ * (versions missing from a switcher menu are not guessed)
+ * @param variants - Variants of the page
+ * @param url - Page URL
+ * @param selection - Version and locale wanted
+ * @returns URL to map (the page URL itself if it already matches)
+ * @throws If a requested version or locale cannot be found
+ */
+export function resolveVariantUrl(variants: DocVariants, url: string, selection: VariantSelection): string {
+  let target = url;
+
+  if (selection.version && !sameVersion(selection.version, variants.version)) {
+    const option = variants.versions.find((candidate) => sameVersion(candidate.name, selection.version));
+    // Without a switcher, guess the URL from the path; with one, only its versions exist
+    const swapped = variants.version && variants.versions.length === 0
+      ? replaceSegment(target, variants.version, selection.version)
+      : null;
+    target = option?.url || swapped || '';
+    if (!target) {
+      const available = variants.versions.map((candidate) => candidate.name);
+      throw new Error(
+        `Version "${selection.version}" not found at ${url}` +
+          (available.length > 0 ? ` (available: ${available.join(', ')})` : ' (no version switcher found)')
+      );
+    }
+  }
+
+  if (selection.locale && !sameLocale(selection.locale, variants.locale)) {
+    const listed = variants.locales.length === 0 || variants.locales.some((candidate) => sameLocale(candidate.name, selection.locale));
+    const pathLocale = pathSegments(target).find(isLocaleSegment);
+    const swapped = pathLocale && listed ? replaceSegment(target, pathLocale, selection.locale.toLowerCase()) : null;
+    // Menu links point at the current version, so they only help when the version is unchanged
+    const option = target === url ? variants.locales.find((candidate) => sameLocale(candidate.name, selection.locale)) : undefined;
+    const resolved = option?.url || swapped;
+    if (!resolved) {
+      const available = variants.locales.map((candidate) => candidate.name);
+      throw new Error(
+        `Locale "${selection.locale}" not found at ${url}` +
+          (available.length > 0 ? ` (available: ${available.join(', ')})` : ' (no language alternates found)')
+      );
+    }
+    target = resolved;
+  }
+
+  return target;
+}
+
+/**
+ * Page URL without its version and locale segments, so copies of a page in
+ * different versions or locales compare equal
+ * @example variantFreeUrl('https://docs.acme.dev/ja/v2/guides/') // 'https://docs.acme.dev/guides'
+ */
+export function variantFreeUrl(url: string): string | null {
+  const normalized = normalizePageUrl(url);
+  if (!normalized) {
+    return null;
+  }
+
+  const parsed = new URL(normalized);
+  const segments = parsed.pathname.split('/').filter(Boolean);
+  parsed.pathname = segments
+    .filter((segment, index) => index >= MAX_VARIANT_DEPTH || (!isVersionSegment(segment) && !isLocaleSegment(segment)))
+    .join('/');
+  return parsed.toString().replace(/\/$/, '');
+}
+
+function pathSegments(url: string): string[] {
+  return new URL(url).pathname.split('/').filter(Boolean).slice(0, MAX_VARIANT_DEPTH);
+}
+
+function sameVersion(a: string | undefined, b: string | undefined): boolean {
+  return (a || '').toLowerCase() === (b || '').toLowerCase();
+}
+
+/**
+ * Compare locales; a bare language matches any of its regions (en ~ en-us)
+ */
+function sameLocale(a: string | undefined, b: string | undefined): boolean {
+  const normalize = (locale: string | undefined) => (locale || '').toLowerCase().replace('_', '-');
+  const [left, right] = [normalize(a), normalize(b)];
+  if (left === right) return true;
+  if (!left || !right) return false;
+  return (!left.includes('-') || !right.includes('-')) && left.split('-')[0] === right.split('-')[0];
+}
+
+/**
+ * Swap one path segment (within the checked depth) for another
+ */
+function replaceSegment(url: string, from: string, to: string): string | null {
+  const parsed = new URL(url);
+  const segments = parsed.pathname.split('/');
+  // segments[0] is the empty string before the leading slash
+  const index = segments.findIndex((segment, i) => i > 0 && i <= MAX_VARIANT_DEPTH && segment.toLowerCase() === from.toLowerCase());
+  if (index === -1) {
+    return null;
+  }
+  segments[index] = to;
+  parsed.pathname = segments.join('/');
+  return parsed.toString();
+}
+
+function resolveSameHost(href: string, baseUrl: string, host: string): string | null {
+  try {
+    const resolved = new URL(href, baseUrl);
+    return resolved.hostname === host ? resolved.toString() : null;
+  } catch {
+    return null;
+  }
+}
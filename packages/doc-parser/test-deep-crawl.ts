@@ -8,7 +8,7 @@ async function testDeepCrawl() {
   console.log(`Testing deep crawl: ${url}\n`);
   
   try {
-    const result = await deepCrawl(fetchWithBrowser, url, 5);
+    const result = await deepCrawl(fetchWithBrowser, url, 5, { fetcher: 'browser' });
     
     console.log(`\nResults:`);
     console.log(`  Pages crawled: ${result.pagesCrawled}`);
@@ -0,0 +1,57 @@
+// Unit tests for the parse trace
+
+import { describe, it, expect } from 'vitest';
+import { createTrace, MAX_DROPPED_PER_STEP, recordDuplicates, recordFiltered } from './trace';
+import type { ExtractedNode } from './types';
+
+function node(id: string, label: string = id): ExtractedNode {
+  return { id, type: 'feature', data: { label } };
+}
+
+describe('recordFiltered', () => {
+  it('should list removed nodes with their reasons', () => {
+    const trace = createTrace();
+
+    recordFiltered(trace, [{ node: node('home', 'Home'), reason: 'Navigation label' }]);
+
+    expect(trace.dropped).toEqual([{ id: 'home', label: 'Home', step: 'filtering', reason: 'Navigation label' }]);
+    expect(trace.dropped_counts).toEqual({ deduplication: 0, filtering: 1 });
+  });
+
+  it('should only count nodes past the per-step limit', () => {
+    const trace = createTrace();
+    const removed = Array.from({ length: MAX_DROPPED_PER_STEP + 25 }, (_, i) => ({
+      node: node(`node-${i}`),
+      reason: 'Label too short',
+    }));
+
+    recordFiltered(trace, removed);
+
+    expect(trace.dropped).toHaveLength(MAX_DROPPED_PER_STEP);
+    expect(trace.dropped[0].id).toBe('node-0');
+    expect(trace.dropped_counts.filtering).toBe(MAX_DROPPED_PER_STEP + 25);
+  });
+});
+
+describe('recordDuplicates', () => {
+  it('should list merged nodes even after filtering hit its limit', () => {
+    const trace = createTrace();
+    recordFiltered(
+      trace,
+      Array.from({ length: MAX_DROPPED_PER_STEP + 1 }, (_, i) => ({ node: node(`node-${i}`), reason: 'Label too short' }))
+    );
+    const nodes = [node('payments', 'Payments'), node('payments-2', 'Payment')];
+
+    recordDuplicates(trace, nodes, [nodes[0]], new Map([['payments-2', 'payments']]));
+
+    expect(trace.dropped).toHaveLength(MAX_DROPPED_PER_STEP + 1);
+    expect(trace.dropped).toContainEqual({
+      id: 'payments-2',
+      label: 'Payment',
+      step: 'deduplication',
+      reason: 'Duplicate of "Payments"',
+      merged_into: 'payments',
+    });
+    expect(trace.dropped_counts).toEqual({ deduplication: 1, filtering: MAX_DROPPED_PER_STEP + 1 });
+  });
+});
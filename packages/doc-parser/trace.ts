@@ -0,0 +1,177 @@
+// Parse trace - records how the parser reached its result
+//
+// The trace answers "why does my map look like this?": which strategies ran
+// and why they lost, which nodes the validators dropped, which pages were
+// fetched and which selectors produced nodes. It is stored with the map in
+// generation_metadata.trace.
+
+import type { FilteredNode } from './validators/filtering';
+import type {
+  CrawledPage,
+  DroppedNode,
+  ExtractedEdge,
+  ExtractedNode,
+  ParseTrace,
+  SelectorMatch,
+  StrategyAttempt,
+} from './types';
+
+/**
+ * Dropped nodes listed per validator step; the rest are only counted, so a
+ * noisy crawl cannot bloat generation_metadata
+ */
+export const MAX_DROPPED_PER_STEP = 50;
+
+/**
+ * Create an empty trace
+ */
+export function createTrace(): ParseTrace {
+  return {
+    strategies: [],
+    dropped: [],
+    dropped_counts: { deduplication: 0, filtering: 0 },
+    pages: [],
+    selectors: [],
+  };
+}
+
+/**
+ * Record a strategy attempt, along with the selectors its nodes came from
+ * @param trace - Trace to add to
+ * @param strategy - Strategy name
+ * @param outcome - What became of the strategy's result
+ * @param details - Extracted nodes and edges, confidence, reason, and when the strategy started
+ */
+export function recordAttempt(
+  trace: ParseTrace,
+  strategy: string,
+  outcome: StrategyAttempt['outcome'],
+  details: {
+    nodes?: ExtractedNode[];
+    edges?: ExtractedEdge[];
+    confidence?: number;
+    reason?: string;
+    startedAt?: number;
+  } = {}
+): void {
+  const { nodes, edges, confidence, reason, startedAt } = details;
+
+  trace.strategies.push({
+    strategy,
+    outcome,
+    ...(nodes ? { nodes: nodes.length } : {}),
+    ...(edges ? { edges: edges.length } : {}),
+    ...(confidence !== undefined ? { confidence } : {}),
+    ...(reason ? { reason } : {}),
+    ...(startedAt !== undefined ? { duration_ms: Date.now() - startedAt } : {}),
+  });
+
+  if (nodes) {
+    trace.selectors.push(...countSelectors(strategy, nodes));
+  }
+}
+
+/**
+ * Explain why a result falls short of a strategy's thresholds
+ * @param nodeCount - Nodes extracted
+ * @param confidence - Strategy confidence
+ * @param minNodes - Nodes needed
+ * @param minConfidence - Confidence needed
+ * @returns Reason, or null if the result meets both thresholds
+ */
+export function thresholdReason(
+  nodeCount: number,
+  confidence: number,
+  minNodes: number,
+  minConfidence: number
+): string | null {
+  if (nodeCount < minNodes) {
+    return `Found ${nodeCount} node${nodeCount === 1 ? '' : 's'}, needs at least ${minNodes}`;
+  }
+  if (confidence < minConfidence) {
+    return `Confidence ${confidence.toFixed(2)} is below ${minConfidence}`;
+  }
+  return null;
+}
+
+/**
+ * Record a page fetched during parsing
+ */
+export function recordPage(trace: ParseTrace, page: CrawledPage): void {
+  trace.pages.push({
+    url: page.url,
+    status: page.status,
+    ...(page.fromCache !== undefined ? { from_cache: page.fromCache } : {}),
+    ...(page.durationMs !== undefined ? { duration_ms: page.durationMs } : {}),
+    ...(page.error ? { error: page.error } : {}),
+  });
+}
+
+/**
+ * Record the nodes deduplication merged into others
+ * @param trace - Trace to add to
+ * @param nodes - Nodes before deduplication
+ * @param kept - Nodes after deduplication
+ * @param idMapping - Mapping from deduplicateNodes
+ */
+export function recordDuplicates(
+  trace: ParseTrace,
+  nodes: ExtractedNode[],
+  kept: ExtractedNode[],
+  idMapping: Map<string, string>
+): void {
+  const keptLabels = new Map(kept.map((node) => [node.id, node.data.label]));
+  const seen = new Set<string>();
+
+  for (const node of nodes) {
+    const target = idMapping.get(node.id) ?? node.id;
+
+    // The first node of each group is the one kept
+    if (target === node.id && !seen.has(node.id)) {
+      seen.add(node.id);
+      continue;
+    }
+
+    recordDropped(trace, {
+      id: node.id,
+      label: node.data.label,
+      step: 'deduplication',
+      reason: `Duplicate of "${keptLabels.get(target) ?? target}"`,
+      merged_into: target,
+    });
+  }
+}
+
+/**
+ * Record the nodes filtering removed
+ */
+export function recordFiltered(trace: ParseTrace, removed: FilteredNode[]): void {
+  for (const { node, reason } of removed) {
+    recordDropped(trace, { id: node.id, label: node.data.label, step: 'filtering', reason });
+  }
+}
+
+/**
+ * Count a dropped node, and list it while its step is under MAX_DROPPED_PER_STEP
+ */
+function recordDropped(trace: ParseTrace, dropped: DroppedNode): void {
+  trace.dropped_counts[dropped.step] += 1;
+  if (trace.dropped_counts[dropped.step] <= MAX_DROPPED_PER_STEP) {
+    trace.dropped.push(dropped);
+  }
+}
+
+/**
+ * Count the nodes each selector produced, most productive first
+ */
+function countSelectors(strategy: string, nodes: ExtractedNode[]): SelectorMatch[] {
+  const counts = new Map<string, number>();
+  for (const node of nodes) {
+    if (node.sourceSelector) {
+      counts.set(node.sourceSelector, (counts.get(node.sourceSelector) || 0) + 1);
+    }
+  }
+
+  return Array.from(counts, ([selector, matches]) => ({ strategy, selector, matches }))
+    .sort((a, b) => b.matches - a.matches);
+}
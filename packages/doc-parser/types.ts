@@ -1,6 +1,6 @@
 // Type definitions for doc-parser package
 
-import type { NodeType, EdgeType } from '@docmaps/database';
+import type { NodeType, NodeStatus, EdgeType } from '@docmaps/database';
 
 // =====================================================
 // FETCH RESULT
@@ -18,6 +18,52 @@ export interface FetchResult {
   contentType: string;
   /** HTTP status code */
   statusCode: number;
+  /** Whether the content came from the cache (fresh or revalidated with a 304) */
+  fromCache?: boolean;
+}
+
+/**
+ * How fetches use the documentation cache, after the Fetch API's `cache` option
+ * - default: serve fresh entries, revalidate stale ones with a conditional request
+ * - no-cache: always revalidate, even fresh entries
+ * - no-store: bypass the cache entirely
+ */
+export type CacheMode = 'default' | 'no-cache' | 'no-store';
+
+/**
+ * How a page is fetched: headless Chrome, or plain HTTP
+ * Rendered and static HTML of the same URL differ, so they are cached apart
+ */
+export type FetcherKind = 'browser' | 'static';
+
+/**
+ * Options for fetchDocumentation / fetchWithBrowser
+ */
+export interface FetchOptions {
+  /**
+   * Check robots.txt and wait for a per-host rate limit slot (default: true)
+   * Disable only when the caller already went through enforcePoliteness
+   */
+  polite?: boolean;
+  /** How to use the documentation cache (default: 'default') */
+  cache?: CacheMode;
+  /** Abort the request (and close the browser); rejects with the signal's reason */
+  signal?: AbortSignal;
+}
+
+/**
+ * A page visited by deep crawl, reported as soon as it was fetched or failed
+ */
+export interface CrawledPage {
+  /** Page URL */
+  url: string;
+  status: 'fetched' | 'failed';
+  /** Whether the page came from the documentation cache */
+  fromCache?: boolean;
+  /** Error message for failed pages */
+  error?: string;
+  /** How long the fetch took in milliseconds */
+  durationMs?: number;
 }
 
 // =====================================================
@@ -36,6 +82,59 @@ export interface ParseResult {
   metadata: GenerationMetadata;
 }
 
+/**
+ * Options for parseDocumentation
+ */
+export interface ParseOptions {
+  /**
+   * Use only this strategy (a name from getAvailableStrategies) instead of the
+   * fallback chain; parsing fails if it cannot handle the page
+   */
+  strategy?: string;
+  /**
+   * Run every applicable strategy and merge their results instead of keeping
+   * the first one that clears the threshold (default: false)
+   */
+  ensemble?: boolean;
+  /** Maximum pages deep crawl fetches, the start page included (default: 5, or 13 in multi-view mode) */
+  maxPages?: number;
+  /** How deep crawl fetches pages: headless Chrome, or plain HTTP for server-rendered docs (default: 'browser') */
+  fetcher?: FetcherKind;
+  /** How deep crawl and spec fetches use the documentation cache (default: 'default') */
+  cache?: CacheMode;
+  /**
+   * Documentation version to map, as it appears in URLs or the version menu
+   * (e.g. 'v2', '2.x', 'latest'); the page's own version if unset
+   */
+  version?: string;
+  /** Locale to map (e.g. 'ja', 'pt-br'); the page's own locale if unset */
+  locale?: string;
+  /** Abort parsing, including deep crawl and any open browser; rejects with the signal's reason */
+  signal?: AbortSignal;
+  /** Called for every page deep crawl fetches */
+  onPageCrawled?: (page: CrawledPage) => void;
+  /**
+   * Keep a larger hierarchy for splitting into views with splitIntoViews:
+   * deep crawl fetches more pages and the node cap is raised (default: false)
+   */
+  multiView?: boolean;
+}
+
+/**
+ * Options for parseMarkdownDirectory
+ */
+export interface MarkdownParseOptions {
+  /** Product node label (default: site name from mkdocs.yml/docusaurus.config, root page title, or directory name) */
+  productName?: string;
+  /**
+   * URL the files can be browsed at, e.g. https://github.com/acme/docs/blob/main/
+   * Node docUrls are resolved against it; without it nodes have no docUrl
+   */
+  baseUrl?: string;
+  /** Abort reading the directory; rejects with the signal's reason */
+  signal?: AbortSignal;
+}
+
 // =====================================================
 // PARSING STRATEGY
 // =====================================================
@@ -96,15 +195,32 @@ export interface ExtractedNode {
     color?: string;
     /** Optional tags */
     tags?: string[];
+    /** Optional maturity status */
+    status?: NodeStatus;
     /** Optional documentation URL */
     docUrl?: string;
     /** Optional additional links */
     additionalLinks?: Array<{ title: string; url: string }>;
+    /** View this node opens in a multi-view map (set by splitIntoViews) */
+    referTo?: { slug: string; title: string };
   };
   /** Hierarchy level (used for type assignment) */
   level?: number;
   /** Source element selector (for debugging) */
   sourceSelector?: string;
+  /** What the status was read from (recorded in GenerationMetadata.status_evidence) */
+  statusEvidence?: StatusEvidence;
+}
+
+/**
+ * Where a node's maturity status was found
+ */
+export interface StatusEvidence {
+  status: NodeStatus;
+  /** Sidebar/heading badge, page banner, label prefix/suffix, Markdown frontmatter or API spec */
+  source: 'badge' | 'banner' | 'title' | 'frontmatter' | 'spec';
+  /** Text the status was read from, e.g. "Beta" or "This API is deprecated..." */
+  text: string;
 }
 
 // =====================================================
@@ -157,8 +273,30 @@ export interface GenerationMetadata {
   confidence: number;
   /** Warnings encountered during parsing */
   warnings: string[];
+  /** Where deep crawl found its page hierarchy (sitemap, llms.txt or scraped links) */
+  crawl_plan_source?: 'sitemap' | 'llms.txt' | 'sitemap+llms.txt' | 'links';
+  /** Documentation version that was mapped (versioned docs only); pass as ParseOptions.version to regenerate */
+  version?: string;
+  /** Locale that was mapped; pass as ParseOptions.locale to regenerate */
+  locale?: string;
+  /** Other versions offered by the docs' version menu */
+  available_versions?: string[];
+  /** Other locales offered through hreflang alternates or a language menu */
+  available_locales?: string[];
+  /** Where a Markdown directory's hierarchy came from (Markdown directories only) */
+  hierarchy_source?: 'docusaurus-sidebars' | 'mkdocs-nav' | 'folders';
+  /** What each node's status was read from, keyed by node ID */
+  status_evidence?: Record<string, StatusEvidence>;
+  /** Strategies whose results were merged (ensemble mode only) */
+  ensemble_strategies?: string[];
+  /** Which strategies found each node, keyed by node ID (ensemble mode only) */
+  node_provenance?: Record<string, NodeProvenance>;
+  /** How the result was reached: strategies tried, nodes dropped, pages crawled */
+  trace?: ParseTrace;
   /** IDs of auto-generated nodes */
   auto_generated_node_ids?: string[];
+  /** IDs of auto-generated edges */
+  auto_generated_edge_ids?: string[];
   /** IDs of manually added nodes (after generation) */
   manually_added_node_ids?: string[];
   /** Statistics about the generation */
@@ -178,6 +316,104 @@ export interface GenerationMetadata {
   };
 }
 
+/**
+ * Where an ensemble node came from
+ */
+export interface NodeProvenance {
+  /** Strategies that extracted this node */
+  strategies: string[];
+  /** Share of the merged strategies that agree on this node (0-1) */
+  agreement: number;
+}
+
+// =====================================================
+// PARSE TRACE
+// =====================================================
+
+/**
+ * Record of how a parse result was reached, for debugging poor maps
+ * Stored in maps.generation_metadata.trace
+ */
+export interface ParseTrace {
+  /** Strategies in the order they were tried */
+  strategies: StrategyAttempt[];
+  /** Nodes removed by deduplication and filtering (the first MAX_DROPPED_PER_STEP of each step) */
+  dropped: DroppedNode[];
+  /** Nodes each step removed, including the ones past the listed limit */
+  dropped_counts: Record<DroppedNode['step'], number>;
+  /** Pages fetched by deep crawl and spec discovery */
+  pages: TracedPage[];
+  /** Selectors that produced nodes, per strategy */
+  selectors: SelectorMatch[];
+}
+
+/**
+ * One strategy the parser tried
+ */
+export interface StrategyAttempt {
+  /** Strategy name */
+  strategy: string;
+  /**
+   * selected: its result was used; merged: taken into an ensemble;
+   * rejected: ran but fell short of the thresholds; skipped: could not handle
+   * the page; failed: threw an error
+   */
+  outcome: 'selected' | 'merged' | 'rejected' | 'skipped' | 'failed';
+  /** Nodes extracted, before validation */
+  nodes?: number;
+  /** Edges extracted, before validation */
+  edges?: number;
+  /** Strategy confidence (0-1) */
+  confidence?: number;
+  /** Why the strategy was rejected, skipped or failed */
+  reason?: string;
+  /** Time spent in the strategy in milliseconds */
+  duration_ms?: number;
+}
+
+/**
+ * A node removed by the validators
+ */
+export interface DroppedNode {
+  /** Node ID */
+  id: string;
+  /** Node label */
+  label: string;
+  /** Validator that removed the node */
+  step: 'deduplication' | 'filtering';
+  /** Why the node was removed */
+  reason: string;
+  /** ID of the node a duplicate was merged into */
+  merged_into?: string;
+}
+
+/**
+ * A page the parser fetched
+ */
+export interface TracedPage {
+  /** Page URL */
+  url: string;
+  status: 'fetched' | 'failed';
+  /** Whether the page came from the documentation cache */
+  from_cache?: boolean;
+  /** How long the fetch took in milliseconds */
+  duration_ms?: number;
+  /** Error message for failed pages */
+  error?: string;
+}
+
+/**
+ * A selector that matched nodes
+ */
+export interface SelectorMatch {
+  /** Strategy that used the selector */
+  strategy: string;
+  /** Selector recorded on the nodes (ExtractedNode.sourceSelector) */
+  selector: string;
+  /** Number of nodes extracted through the selector */
+  matches: number;
+}
+
 // =====================================================
 // UTILITY TYPES
 // =====================================================
@@ -214,7 +450,7 @@ export interface GenerationError {
 /**
  * SSE event types for streaming generation
  */
-export type SSEEventType = 'status' | 'node' | 'edge' | 'layout' | 'complete' | 'error';
+export type SSEEventType = 'status' | 'node' | 'edge' | 'layout' | 'complete' | 'error' | 'cancelled';
 
 /**
  * SSE event data structure
@@ -185,6 +185,105 @@ describe('deduplicateNodes', () => {
     expect(result.nodes).toEqual([]);
     expect(result.idMapping.size).toBe(0);
   });
+
+  it('should keep the status of the less complete node', () => {
+    const evidence = { status: 'beta' as const, source: 'badge' as const, text: 'Beta' };
+    const nodes: ExtractedNode[] = [
+      {
+        id: 'feature-webhooks',
+        type: 'feature',
+        data: { label: 'Webhooks', status: 'beta' },
+        statusEvidence: evidence,
+      },
+      {
+        id: 'feature-webhooks-2',
+        type: 'feature',
+        data: { label: 'Webhooks', description: 'Receive events', docUrl: 'https://docs.acme.com/webhooks' },
+      },
+    ];
+
+    const result = deduplicateNodes(nodes);
+
+    expect(result.nodes).toHaveLength(1);
+    expect(result.nodes[0].id).toBe('feature-webhooks-2');
+    expect(result.nodes[0].data.description).toBe('Receive events');
+    expect(result.nodes[0].data.status).toBe('beta');
+    expect(result.nodes[0].statusEvidence).toEqual(evidence);
+  });
+
+  it('should keep the more severe status and its evidence', () => {
+    const deprecated = { status: 'deprecated' as const, source: 'banner' as const, text: 'This API is deprecated' };
+    const nodes: ExtractedNode[] = [
+      {
+        id: 'feature-charges',
+        type: 'feature',
+        data: { label: 'Charges', description: 'Create charges', status: 'stable' },
+        statusEvidence: { status: 'stable', source: 'badge', text: 'GA' },
+      },
+      {
+        id: 'feature-charges-2',
+        type: 'feature',
+        data: { label: 'Charges', status: 'deprecated', referTo: { slug: 'payments', title: 'Payments' } },
+        statusEvidence: deprecated,
+      },
+    ];
+
+    const result = deduplicateNodes(nodes);
+
+    expect(result.nodes[0].id).toBe('feature-charges');
+    expect(result.nodes[0].data.status).toBe('deprecated');
+    expect(result.nodes[0].statusEvidence).toEqual(deprecated);
+    expect(result.nodes[0].data.referTo).toEqual({ slug: 'payments', title: 'Payments' });
+  });
+});
+
+describe('deduplicateNodes with versioned docs', () => {
+  it('should merge copies of a page in different versions and locales', () => {
+    const nodes: ExtractedNode[] = [
+      { id: 'auth', type: 'feature', data: { label: 'Authentication', docUrl: 'https://docs.acme.dev/v2/auth' } },
+      { id: 'auth-v1', type: 'feature', data: { label: 'Auth (legacy)', docUrl: 'https://docs.acme.dev/v1/auth/' } },
+      { id: 'auth-ja', type: 'feature', data: { label: 'Authentication', docUrl: 'https://docs.acme.dev/ja/v2/auth' } },
+      { id: 'billing', type: 'feature', data: { label: 'Billing', docUrl: 'https://docs.acme.dev/v2/billing' } },
+    ];
+
+    const result = deduplicateNodes(nodes, 0.85, true);
+
+    expect(result.nodes).toHaveLength(2);
+    const merged = result.idMapping.get('auth');
+    expect(result.idMapping.get('auth-v1')).toBe(merged);
+    expect(result.idMapping.get('auth-ja')).toBe(merged);
+    expect(result.idMapping.get('billing')).toBe('billing');
+  });
+
+  it('should keep copies of a page whose labels have nothing in common apart', () => {
+    const nodes: ExtractedNode[] = [
+      { id: 'auth', type: 'feature', data: { label: 'Authentication', docUrl: 'https://docs.acme.dev/en/auth' } },
+      { id: 'auth-ja', type: 'feature', data: { label: '認証', docUrl: 'https://docs.acme.dev/ja/auth' } },
+    ];
+
+    expect(deduplicateNodes(nodes, 0.85, true).nodes).toHaveLength(2);
+  });
+
+  it('should not read path words like next and id as versions or locales on unversioned docs', () => {
+    const nodes: ExtractedNode[] = [
+      { id: 'getting-started', type: 'feature', data: { label: 'Getting Started', docUrl: 'https://docs.acme.dev/guides' } },
+      { id: 'next-steps', type: 'feature', data: { label: 'Next Steps', docUrl: 'https://docs.acme.dev/guides/next' } },
+      { id: 'auth', type: 'feature', data: { label: 'Authentication', docUrl: 'https://docs.acme.dev/auth' } },
+      { id: 'identity', type: 'feature', data: { label: 'Identity', docUrl: 'https://docs.acme.dev/auth/id' } },
+    ];
+
+    expect(deduplicateNodes(nodes).nodes).toHaveLength(4);
+    expect(deduplicateNodes(nodes, 0.85, true).nodes).toHaveLength(4);
+  });
+
+  it('should keep sections of the same page apart', () => {
+    const nodes: ExtractedNode[] = [
+      { id: 'tokens', type: 'component', data: { label: 'Access tokens', docUrl: 'https://docs.acme.dev/auth#tokens' } },
+      { id: 'keys', type: 'component', data: { label: 'API keys', docUrl: 'https://docs.acme.dev/auth#keys' } },
+    ];
+
+    expect(deduplicateNodes(nodes).nodes).toHaveLength(2);
+  });
 });
 
 describe('updateEdgeReferences', () => {
@@ -1,8 +1,20 @@
 // Deduplication validator for removing duplicate nodes
 
 import { distance } from 'fastest-levenshtein';
+import { normalizePageUrl } from '../strategies/crawl-plan';
+import { variantFreeUrl } from '../strategies/variants';
+import type { NodeStatus } from '@docmaps/database';
 import type { ExtractedNode, ExtractedEdge } from '../types';
 
+/** Statuses from least to most severe; merged nodes keep the most severe one */
+const STATUS_SEVERITY: NodeStatus[] = ['stable', 'beta', 'experimental', 'deprecated'];
+
+/** Label similarity copies of a page in another version or locale still need */
+const VARIANT_LABEL_SIMILARITY = 0.5;
+
+/** Shortest word that counts when matching label words by prefix */
+const MIN_PREFIX_WORD = 3;
+
 /**
  * Calculate similarity between two strings using Levenshtein distance
  * @param str1 - First string
@@ -17,6 +29,22 @@ function calculateSimilarity(str1: string, str2: string): number {
   return 1 - dist / maxLength;
 }
 
+/**
+ * Check whether two labels could name the same page in different versions:
+ * close enough by edit distance, or sharing a word up to a prefix
+ * ("Authentication" and "Auth (legacy)")
+ */
+function similarVariantLabels(label1: string, label2: string): boolean {
+  if (calculateSimilarity(label1, label2) >= VARIANT_LABEL_SIMILARITY) {
+    return true;
+  }
+
+  const words = (label: string) =>
+    (label.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter((word) => word.length >= MIN_PREFIX_WORD);
+  const words2 = words(label2);
+  return words(label1).some((word) => words2.some((other) => word.startsWith(other) || other.startsWith(word)));
+}
+
 /**
  * Check if a node has more complete data than another
  * @param node1 - First node
@@ -43,6 +71,8 @@ function isMoreComplete(node1: ExtractedNode, node2: ExtractedNode): boolean {
 
 /**
  * Merge two nodes, keeping the most complete data
+ * Fields only one node has (status, referTo) are kept; the status is the more
+ * severe of the two, with the evidence it was read from
  * @param node1 - First node
  * @param node2 - Second node
  * @returns Merged node
@@ -50,10 +80,14 @@ function isMoreComplete(node1: ExtractedNode, node2: ExtractedNode): boolean {
 function mergeNodes(node1: ExtractedNode, node2: ExtractedNode): ExtractedNode {
   const primary = isMoreComplete(node1, node2) ? node1 : node2;
   const secondary = primary === node1 ? node2 : node1;
+  const statusSource = statusSeverity(secondary) > statusSeverity(primary) ? secondary : primary;
 
   return {
     ...primary,
+    statusEvidence: statusSource.statusEvidence,
     data: {
+      ...secondary.data,
+      ...primary.data,
       label: primary.data.label,
       description: primary.data.description || secondary.data.description,
       icon: primary.data.icon || secondary.data.icon,
@@ -66,23 +100,38 @@ function mergeNodes(node1: ExtractedNode, node2: ExtractedNode): ExtractedNode {
         ...(primary.data.additionalLinks || []),
         ...(secondary.data.additionalLinks || []),
       ],
+      status: statusSource.data.status,
     },
   };
 }
 
 /**
- * Deduplicate nodes based on label similarity
+ * Rank of a node's status in STATUS_SEVERITY (-1 without a status)
+ */
+function statusSeverity(node: ExtractedNode): number {
+  return node.data.status ? STATUS_SEVERITY.indexOf(node.data.status) : -1;
+}
+
+/**
+ * Deduplicate nodes based on label similarity, and, for docs that come in
+ * several versions or locales, copies of the same page with similar labels
  * @param nodes - Array of nodes to deduplicate
  * @param threshold - Similarity threshold (default 0.85 = 85%)
+ * @param mergeVariants - Whether the docs have versions or locales (default false);
+ *   otherwise /guides and /guides/next are different pages
  * @returns Object with deduplicated nodes and ID mapping
  */
 export function deduplicateNodes(
   nodes: ExtractedNode[],
-  threshold: number = 0.85
+  threshold: number = 0.85,
+  mergeVariants: boolean = false
 ): { nodes: ExtractedNode[]; idMapping: Map<string, string> } {
   const deduplicated: ExtractedNode[] = [];
   const idMapping = new Map<string, string>();
   const processed = new Set<number>();
+  // Copies of the same page in different versions or locales (/v1/auth and /v2/auth, /en/auth and /ja/auth)
+  const pageUrls = nodes.map((node) => (node.data.docUrl ? normalizePageUrl(node.data.docUrl) : null));
+  const pageKeys = pageUrls.map((url) => (url && mergeVariants ? variantFreeUrl(url) : null));
 
   for (let i = 0; i < nodes.length; i++) {
     if (processed.has(i)) continue;
@@ -101,7 +150,13 @@ export function deduplicateNodes(
 
       const similarity = calculateSimilarity(node1.data.label, node2.data.label);
 
-      if (similarity >= threshold) {
+      const samePage =
+        pageKeys[i] !== null &&
+        pageKeys[i] === pageKeys[j] &&
+        pageUrls[i] !== pageUrls[j] &&
+        similarVariantLabels(node1.data.label, node2.data.label);
+
+      if (similarity >= threshold || samePage) {
         duplicates.push(j);
         processed.add(j);
       }
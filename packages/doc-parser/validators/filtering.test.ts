@@ -1,7 +1,7 @@
 // Unit tests for filtering validator
 
 import { describe, it, expect } from 'vitest';
-import { filterNodes, getFilterStats } from './filtering';
+import { filterNodes, filterNodesWithReasons, getFilterStats } from './filtering';
 import type { ExtractedNode } from '../types';
 
 describe('filterNodes', () => {
@@ -250,6 +250,41 @@ describe('filterNodes', () => {
   });
 });
 
+describe('filterNodesWithReasons', () => {
+  it('should report why each node was removed', () => {
+    const nodes: ExtractedNode[] = [
+      { id: 'payments', type: 'feature', data: { label: 'Payments' } },
+      { id: 'ab', type: 'feature', data: { label: 'AB' } },
+      { id: 'home', type: 'feature', data: { label: 'Home' } },
+      { id: 'refunds', type: 'component', data: { label: 'Refunds' } },
+    ];
+
+    const { nodes: kept, removed } = filterNodesWithReasons(nodes, { maxNodes: 1 });
+
+    expect(kept.map(n => n.id)).toEqual(['payments']);
+    expect(removed.map(({ node, reason }) => [node.id, reason])).toEqual([
+      ['ab', 'Label shorter than 3 characters'],
+      ['home', 'Navigation label'],
+      ['refunds', 'Over the 1-node limit (priority 25)'],
+    ]);
+  });
+
+  it('should keep the nodes more ensemble strategies agree on at the node cap', () => {
+    const nodes: ExtractedNode[] = [
+      { id: 'payments', type: 'feature', data: { label: 'Payments', description: 'Accept payments' } },
+      { id: 'refunds', type: 'feature', data: { label: 'Refunds' } },
+    ];
+
+    const { nodes: kept, removed } = filterNodesWithReasons(nodes, {
+      maxNodes: 1,
+      agreement: { payments: 1 / 3, refunds: 1 },
+    });
+
+    expect(kept.map(n => n.id)).toEqual(['refunds']);
+    expect(removed.map(({ reason }) => reason)).toEqual(['Over the 1-node limit (priority 93)']);
+  });
+});
+
 describe('getFilterStats', () => {
   it('should calculate filter statistics', () => {
     const stats = getFilterStats(100, 50);
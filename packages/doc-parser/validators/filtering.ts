@@ -45,13 +45,21 @@ const MIN_LABEL_LENGTH = 3;
  */
 const MAX_LABEL_LENGTH = 100;
 
+/**
+ * Priority points for a node every ensemble strategy found, scaled by agreement
+ * Large enough that a feature all strategies agree on outranks one only a
+ * single strategy found, whatever their details
+ */
+const AGREEMENT_WEIGHT = 100;
+
 /**
  * Calculate priority score for a node
  * Higher score = higher priority
  * @param node - Node to score
+ * @param agreement - Share of ensemble strategies that found the node, if merged
  * @returns Priority score
  */
-function calculatePriority(node: ExtractedNode): number {
+function calculatePriority(node: ExtractedNode, agreement?: number): number {
   let score = 0;
 
   // Type priority
@@ -70,57 +78,113 @@ function calculatePriority(node: ExtractedNode): number {
     score += (4 - node.level) * 5;
   }
 
+  if (agreement !== undefined) {
+    score += Math.round(agreement * AGREEMENT_WEIGHT);
+  }
+
   return score;
 }
 
+/**
+ * Options for filterNodes
+ */
+interface FilterOptions {
+  maxNodes?: number;
+  minLabelLength?: number;
+  maxLabelLength?: number;
+  excludedLabels?: string[];
+  requireDescription?: boolean;
+  /** Share of ensemble strategies that found each node, by node ID (raises the priority of agreed nodes) */
+  agreement?: Record<string, number>;
+}
+
+/**
+ * A node removed by filterNodesWithReasons
+ */
+export interface FilteredNode {
+  node: ExtractedNode;
+  /** Why the node was removed */
+  reason: string;
+}
+
 /**
  * Filter nodes based on various criteria
  * @param nodes - Array of nodes to filter
  * @param options - Filtering options
  * @returns Filtered nodes
  */
-export function filterNodes(
+export function filterNodes(nodes: ExtractedNode[], options: FilterOptions = {}): ExtractedNode[] {
+  return filterNodesWithReasons(nodes, options).nodes;
+}
+
+/**
+ * Filter nodes like filterNodes, and report why each removed node was removed
+ * @param nodes - Array of nodes to filter
+ * @param options - Filtering options
+ * @returns Kept nodes and the removed ones with their reasons
+ */
+export function filterNodesWithReasons(
   nodes: ExtractedNode[],
-  options: {
-    maxNodes?: number;
-    minLabelLength?: number;
-    maxLabelLength?: number;
-    excludedLabels?: string[];
-    requireDescription?: boolean;
-  } = {}
-): ExtractedNode[] {
+  options: FilterOptions = {}
+): { nodes: ExtractedNode[]; removed: FilteredNode[] } {
   const {
     maxNodes = MAX_NODES,
     minLabelLength = MIN_LABEL_LENGTH,
     maxLabelLength = MAX_LABEL_LENGTH,
     excludedLabels = EXCLUDED_LABELS,
     requireDescription = false,
+    agreement = {},
   } = options;
 
+  const removed: FilteredNode[] = [];
+
   // Apply filters
   let filtered = nodes.filter(node => {
-    // Check label length
-    if (node.data.label.length < minLabelLength) return false;
-    if (node.data.label.length > maxLabelLength) return false;
-
-    // Check excluded labels
-    const normalized = node.data.label.toLowerCase().trim();
-    if (excludedLabels.some(excluded => normalized === excluded)) return false;
-
-    // Check description requirement
-    if (requireDescription && !node.data.description) return false;
-
+    const reason = rejectionReason(node, minLabelLength, maxLabelLength, excludedLabels, requireDescription);
+    if (reason) {
+      removed.push({ node, reason });
+      return false;
+    }
     return true;
   });
 
   // Limit to max nodes by priority
   if (filtered.length > maxNodes) {
     // Sort by priority (highest first)
-    filtered.sort((a, b) => calculatePriority(b) - calculatePriority(a));
+    const priority = (node: ExtractedNode) => calculatePriority(node, agreement[node.id]);
+    filtered.sort((a, b) => priority(b) - priority(a));
+    for (const node of filtered.slice(maxNodes)) {
+      removed.push({ node, reason: `Over the ${maxNodes}-node limit (priority ${priority(node)})` });
+    }
     filtered = filtered.slice(0, maxNodes);
   }
 
-  return filtered;
+  return { nodes: filtered, removed };
+}
+
+/**
+ * Check a node against the label and description criteria
+ * @returns Why the node fails a criterion, or null if it passes
+ */
+function rejectionReason(
+  node: ExtractedNode,
+  minLabelLength: number,
+  maxLabelLength: number,
+  excludedLabels: string[],
+  requireDescription: boolean
+): string | null {
+  // Check label length
+  if (node.data.label.length < minLabelLength) return `Label shorter than ${minLabelLength} characters`;
+  if (node.data.label.length > maxLabelLength) return `Label longer than ${maxLabelLength} characters`;
+
+  // Check excluded labels
+  const normalized = node.data.label.toLowerCase().trim();
+  if (excludedLabels.some(excluded => normalized === excluded)) return 'Navigation label';
+
+  // Check description requirement
+  if (requireDescription && !node.data.description) return 'No description';
+
+  return null;
 }
 
 /**
@@ -0,0 +1,145 @@
+// Unit tests for view splitting
+
+import { describe, it, expect } from 'vitest';
+import { splitIntoViews, OVERVIEW_SLUG } from './views';
+import type { ExtractedNode, ExtractedEdge, ParseResult } from './types';
+
+function node(id: string, type: ExtractedNode['type'], label: string): ExtractedNode {
+  return { id, type, data: { label } };
+}
+
+function edge(source: string, target: string, type: ExtractedEdge['type'] = 'hierarchy'): ExtractedEdge {
+  return { id: `${source}-${target}`, source, target, type };
+}
+
+function result(nodes: ExtractedNode[], edges: ExtractedEdge[]): ParseResult {
+  return {
+    nodes,
+    edges,
+    metadata: { source_url: 'https://docs.acme.dev', generated_at: '', strategy: 'deep-crawl', confidence: 0.8, warnings: [] },
+  };
+}
+
+const acme = result(
+  [
+    node('product-acme', 'product', 'Acme'),
+    node('feature-payments', 'feature', 'Payments'),
+    node('feature-billing', 'feature', 'Billing'),
+    node('feature-changelog', 'feature', 'Changelog'),
+    node('component-refunds', 'component', 'Refunds'),
+    node('component-disputes', 'component', 'Disputes'),
+    node('component-evidence', 'component', 'Evidence'),
+    node('component-invoices', 'component', 'Invoices'),
+  ],
+  [
+    edge('product-acme', 'feature-payments'),
+    edge('product-acme', 'feature-billing'),
+    edge('product-acme', 'feature-changelog'),
+    edge('feature-payments', 'component-refunds'),
+    edge('feature-payments', 'component-disputes'),
+    edge('component-disputes', 'component-evidence'),
+    edge('feature-billing', 'component-invoices'),
+    edge('component-refunds', 'component-disputes', 'related'),
+    edge('component-invoices', 'component-refunds', 'depends-on'),
+  ]
+);
+
+const ids = (nodes: ExtractedNode[]) => nodes.map((n) => n.id);
+
+describe('splitIntoViews', () => {
+  it('should put the product and its children in the overview', () => {
+    const { overview } = splitIntoViews(acme);
+
+    expect(overview.slug).toBe(OVERVIEW_SLUG);
+    expect(ids(overview.nodes)).toEqual(['product-acme', 'feature-payments', 'feature-billing', 'feature-changelog']);
+    expect(overview.edges.filter((e) => e.type === 'hierarchy')).toHaveLength(3);
+  });
+
+  it('should make one view per top-level node with children', () => {
+    const { views } = splitIntoViews(acme);
+
+    expect(views.map((v) => [v.slug, v.title])).toEqual([
+      ['payments', 'Payments'],
+      ['billing', 'Billing'],
+    ]);
+    expect(ids(views[0].nodes)).toEqual([
+      'feature-payments',
+      'component-refunds',
+      'component-disputes',
+      'component-evidence',
+    ]);
+  });
+
+  it('should link overview nodes to their views and view roots back', () => {
+    const { overview, views } = splitIntoViews(acme);
+    const referTo = (id: string) => overview.nodes.find((n) => n.id === id)?.data.referTo;
+
+    expect(referTo('feature-payments')).toEqual({ slug: 'payments', title: 'Payments' });
+    expect(referTo('feature-changelog')).toBeUndefined();
+    expect(referTo('product-acme')).toBeUndefined();
+    expect(views[0].nodes[0].data.referTo).toEqual({ slug: OVERVIEW_SLUG, title: 'Overview' });
+  });
+
+  it('should reassign types by depth within a view', () => {
+    const { views } = splitIntoViews(acme);
+
+    expect(views[0].nodes.map((n) => n.type)).toEqual(['product', 'feature', 'feature', 'component']);
+    expect(acme.nodes[1].type).toBe('feature');
+  });
+
+  it('should keep edges inside a view and lift cross-view edges to the overview', () => {
+    const { overview, views } = splitIntoViews(acme);
+
+    expect(views[0].edges.map((e) => e.id)).toContain('component-refunds-component-disputes');
+    expect(views[1].edges.map((e) => e.id)).toEqual(['feature-billing-component-invoices']);
+    expect(overview.edges).toContainEqual(
+      expect.objectContaining({ source: 'feature-billing', target: 'feature-payments', type: 'depends-on' })
+    );
+  });
+
+  it('should cap every view breadth first', () => {
+    const { overview, views } = splitIntoViews(acme, { maxNodesPerView: 3 });
+
+    expect(ids(overview.nodes)).toEqual(['product-acme', 'feature-payments', 'feature-billing']);
+    expect(ids(views[0].nodes)).toEqual(['feature-payments', 'component-refunds', 'component-disputes']);
+  });
+
+  it('should use every root as a top-level node without a single product', () => {
+    const { overview, views } = splitIntoViews(result(
+      [
+        node('product-s3', 'product', 'S3'),
+        node('product-ec2', 'product', 'EC2'),
+        node('feature-buckets', 'feature', 'Buckets'),
+        node('feature-instances', 'feature', 'Instances'),
+      ],
+      [edge('product-s3', 'feature-buckets'), edge('product-ec2', 'feature-instances')]
+    ));
+
+    expect(ids(overview.nodes)).toEqual(['product-s3', 'product-ec2']);
+    expect(views.map((v) => v.slug)).toEqual(['s3', 'ec2']);
+  });
+
+  it('should keep slugs unique', () => {
+    const { views } = splitIntoViews(result(
+      [
+        node('product-acme', 'product', 'Acme'),
+        node('feature-a', 'feature', 'Overview'),
+        node('feature-b', 'feature', 'API'),
+        node('feature-c', 'feature', 'api!'),
+        node('component-a', 'component', 'Intro'),
+        node('component-b', 'component', 'Auth'),
+        node('component-c', 'component', 'Errors'),
+      ],
+      [
+        edge('product-acme', 'feature-a'),
+        edge('product-acme', 'feature-b'),
+        edge('product-acme', 'feature-c'),
+        edge('feature-a', 'component-a'),
+        edge('feature-b', 'component-b'),
+        edge('feature-c', 'component-c'),
+      ]
+    ));
+
+    expect(views.map((v) => v.slug)).toEqual(['overview-2', 'api', 'api-2']);
+  });
+});
@@ -0,0 +1,204 @@
+// View splitting - turns one large result into an overview plus one view per top-level product
+
+import type { ExtractedNode, ExtractedEdge, ParseResult } from './types';
+
+/**
+ * One view of a multi-view map, ready to be laid out and stored as a product_views row
+ */
+export interface GeneratedView {
+  /** View title (the top-level node's label, or "Overview") */
+  title: string;
+  /** URL slug, unique within the map */
+  slug: string;
+  nodes: ExtractedNode[];
+  edges: ExtractedEdge[];
+}
+
+/**
+ * Result of splitIntoViews
+ */
+export interface SplitViewsResult {
+  /** Product and top-level nodes; top-level nodes refer to their detail view */
+  overview: GeneratedView;
+  /** One view per top-level node that has children, in overview order */
+  views: GeneratedView[];
+}
+
+/**
+ * Options for splitIntoViews
+ */
+export interface SplitViewsOptions {
+  /** Node cap for every view, including the overview (default: 50) */
+  maxNodesPerView?: number;
+}
+
+/** Slug of the overview; detail views never get it */
+export const OVERVIEW_SLUG = 'overview';
+
+const OVERVIEW_TITLE = 'Overview';
+
+/** Same cap filterNodes applies to a single-view map */
+const MAX_NODES_PER_VIEW = 50;
+
+/**
+ * Split a parse result into an overview and one detail view per top-level node
+ *
+ * The hierarchy edges decide the split. With a single product root, its
+ * children are the top-level nodes and the overview shows the product with
+ * them; otherwise every root is a top-level node. Each top-level node with
+ * children gets a detail view rooted at it (as the view's product) holding its
+ * subtree, breadth first up to the node cap, with types reassigned by depth.
+ * Overview nodes get `referTo` links into their views and view roots link back
+ * to the overview. Non-hierarchy edges stay in the view holding both ends;
+ * edges between subtrees become one edge between their top-level nodes in the
+ * overview.
+ *
+ * @param result - Validated parse result
+ * @param options - Node cap per view
+ * @returns Overview and detail views; no detail views if nothing has children
+ */
+export function splitIntoViews(result: ParseResult, options: SplitViewsOptions = {}): SplitViewsResult {
+  const { maxNodesPerView = MAX_NODES_PER_VIEW } = options;
+  const nodeById = new Map(result.nodes.map((node) => [node.id, node]));
+
+  // Children in edge order, each node under its first parent only
+  const childrenById = new Map<string, string[]>();
+  const hasParent = new Set<string>();
+  for (const edge of result.edges) {
+    if (edge.type !== 'hierarchy' || !nodeById.has(edge.source) || !nodeById.has(edge.target)) continue;
+    if (edge.source === edge.target || hasParent.has(edge.target)) continue;
+    hasParent.add(edge.target);
+    childrenById.set(edge.source, [...(childrenById.get(edge.source) || []), edge.target]);
+  }
+
+  const roots = result.nodes.filter((node) => !hasParent.has(node.id));
+  const hub = roots.length === 1 && roots[0].type === 'product' ? roots[0] : null;
+  const topLevel = (hub ? (childrenById.get(hub.id) || []).map((id) => nodeById.get(id)!) : roots)
+    .slice(0, hub ? maxNodesPerView - 1 : maxNodesPerView);
+
+  // Which top-level node each node belongs to
+  const ownerById = new Map<string, string>();
+  const subtrees = new Map<string, ExtractedNode[]>();
+  for (const top of topLevel) {
+    subtrees.set(top.id, collectSubtree(top.id, childrenById, nodeById, ownerById, maxNodesPerView));
+  }
+
+  const usedSlugs = new Set([OVERVIEW_SLUG]);
+  const views: GeneratedView[] = [];
+  const viewByTop = new Map<string, GeneratedView>();
+
+  for (const top of topLevel) {
+    const subtree = subtrees.get(top.id)!;
+    if (subtree.length < 2) continue;
+
+    const ids = new Set(subtree.map((node) => node.id));
+    const depthById = new Map<string, number>([[top.id, 0]]);
+    for (const node of subtree) {
+      for (const childId of childrenById.get(node.id) || []) {
+        if (ids.has(childId)) depthById.set(childId, depthById.get(node.id)! + 1);
+      }
+    }
+
+    const view: GeneratedView = {
+      title: top.data.label,
+      slug: uniqueSlug(top.data.label, usedSlugs),
+      nodes: subtree.map((node) => {
+        const depth = depthById.get(node.id) || 0;
+        return {
+          ...node,
+          type: depth === 0 ? 'product' : depth === 1 ? 'feature' : 'component',
+          level: depth + 1,
+          data: depth === 0
+            ? { ...node.data, referTo: { slug: OVERVIEW_SLUG, title: OVERVIEW_TITLE } }
+            : { ...node.data },
+        };
+      }),
+      edges: result.edges.filter((edge) => ids.has(edge.source) && ids.has(edge.target)),
+    };
+
+    views.push(view);
+    viewByTop.set(top.id, view);
+  }
+
+  // Overview: the product, the top-level nodes and the links between their subtrees
+  const overviewNodes: ExtractedNode[] = [
+    ...(hub ? [{ ...hub, data: { ...hub.data } }] : []),
+    ...topLevel.map((top) => {
+      const view = viewByTop.get(top.id);
+      return {
+        ...top,
+        data: view ? { ...top.data, referTo: { slug: view.slug, title: view.title } } : { ...top.data },
+      };
+    }),
+  ];
+
+  const overviewEdges: ExtractedEdge[] = hub
+    ? result.edges.filter((edge) => edge.type === 'hierarchy' && edge.source === hub.id && ownerById.get(edge.target) === edge.target)
+    : [];
+
+  const linkedPairs = new Set<string>();
+  for (const edge of result.edges) {
+    if (edge.type === 'hierarchy') continue;
+    const source = ownerById.get(edge.source);
+    const target = ownerById.get(edge.target);
+    if (!source || !target || source === target) continue;
+
+    const key = source < target ? `${source}|${target}` : `${target}|${source}`;
+    if (linkedPairs.has(key)) continue;
+    linkedPairs.add(key);
+
+    const direct = edge.source === source && edge.target === target;
+    overviewEdges.push(direct ? edge : {
+      id: `view-${source}-${target}`,
+      source,
+      target,
+      type: edge.type,
+      label: edge.label,
+      confidence: edge.confidence,
+      inferenceMethod: edge.inferenceMethod,
+    });
+  }
+
+  return {
+    overview: { title: OVERVIEW_TITLE, slug: OVERVIEW_SLUG, nodes: overviewNodes, edges: overviewEdges },
+    views,
+  };
+}
+
+/**
+ * Collect a node's subtree breadth first, so the cap drops the deepest nodes
+ * @returns Subtree nodes, root first
+ */
+function collectSubtree(
+  rootId: string,
+  childrenById: Map<string, string[]>,
+  nodeById: Map<string, ExtractedNode>,
+  ownerById: Map<string, string>,
+  maxNodes: number
+): ExtractedNode[] {
+  const subtree: ExtractedNode[] = [];
+  const queue = [rootId];
+
+  while (queue.length > 0 && subtree.length < maxNodes) {
+    const id = queue.shift()!;
+    if (ownerById.has(id)) continue;
+    ownerById.set(id, rootId);
+    subtree.push(nodeById.get(id)!);
+    queue.push(...(childrenById.get(id) || []));
+  }
+
+  return subtree;
+}
+
+/**
+ * Turn a label into a slug not used yet ("Lambda" → "lambda", then "lambda-2")
+ */
+function uniqueSlug(label: string, usedSlugs: Set<string>): string {
+  const base = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'view';
+  let slug = base;
+  for (let suffix = 2; usedSlugs.has(slug); suffix++) {
+    slug = `${base}-${suffix}`;
+  }
+  usedSlugs.add(slug);
+  return slug;
+}
@@ -0,0 +1,149 @@
+// Unit tests for orthogonal edge routing
+
+import { describe, it, expect } from 'vitest';
+import { Position } from 'reactflow';
+import type { XYPosition } from 'reactflow';
+import { getFlowEdgeRoutes, routeEdges } from './edge-routing';
+import type { EdgeRouteRequest, RouteRect } from './edge-routing';
+import { hierarchy, nodeAt } from './test-utils';
+
+/** Edge leaving the bottom of one point and entering the top of another */
+const downward = (id: string, from: XYPosition, to: XYPosition): EdgeRouteRequest => ({
+  id,
+  sourcePoint: from,
+  sourcePosition: Position.Bottom,
+  targetPoint: to,
+  targetPosition: Position.Top,
+});
+
+/** Whether a horizontal or vertical segment passes through the inside of a rectangle */
+function crosses(a: XYPosition, b: XYPosition, rect: RouteRect): boolean {
+  const [minX, maxX] = [Math.min(a.x, b.x), Math.max(a.x, b.x)];
+  const [minY, maxY] = [Math.min(a.y, b.y), Math.max(a.y, b.y)];
+  return minX < rect.x + rect.width && maxX > rect.x && minY < rect.y + rect.height && maxY > rect.y;
+}
+
+function crossesAny(points: XYPosition[], rect: RouteRect): boolean {
+  return points.slice(1).some((point, index) => crosses(points[index], point, rect));
+}
+
+function isOrthogonal(points: XYPosition[]): boolean {
+  return points.slice(1).every((point, index) => point.x === points[index].x || point.y === points[index].y);
+}
+
+describe('routeEdges', () => {
+  // A node straight between the two ends of an edge
+  const blocker: RouteRect = { id: 'blocker', x: 0, y: 150, width: 180, height: 60 };
+  const request = downward('a-b', { x: 90, y: 0 }, { x: 90, y: 400 });
+
+  it('should route around nodes in the way', () => {
+    const route = routeEdges([blocker], [request]).get('a-b')!;
+
+    expect(crossesAny(route, blocker)).toBe(false);
+    expect(route.length).toBeGreaterThan(2);
+  });
+
+  it('should keep the clearance around the nodes it passes', () => {
+    const route = routeEdges([blocker], [request]).get('a-b')!;
+    const grown = { id: 'grown', x: blocker.x - 10, y: blocker.y - 10, width: blocker.width + 20, height: blocker.height + 20 };
+
+    expect(crossesAny(route, grown)).toBe(false);
+  });
+
+  it('should run a straight line when nothing is in the way', () => {
+    const route = routeEdges([], [request]).get('a-b')!;
+
+    expect(route).toEqual([{ x: 90, y: 0 }, { x: 90, y: 400 }]);
+  });
+
+  it('should only use horizontal and vertical segments', () => {
+    const requests = [
+      request,
+      downward('diagonal', { x: 0, y: 0 }, { x: 500, y: 300 }),
+      { ...downward('sideways', { x: 180, y: 30 }, { x: 600, y: 330 }), sourcePosition: Position.Right, targetPosition: Position.Left },
+    ];
+
+    const routes = routeEdges([blocker, { id: 'other', x: 300, y: 100, width: 180, height: 60 }], requests);
+
+    for (const [id, route] of routes) {
+      expect(isOrthogonal(route), id).toBe(true);
+    }
+  });
+
+  it('should start and end on the edge end points', () => {
+    const route = routeEdges([blocker], [request]).get('a-b')!;
+
+    expect(route[0]).toEqual(request.sourcePoint);
+    expect(route[route.length - 1]).toEqual(request.targetPoint);
+  });
+
+  it('should spread apart edges that share a line', () => {
+    // Two edges between the same points would draw over each other
+    const routes = routeEdges([], [downward('first', { x: 90, y: 0 }, { x: 90, y: 400 }), downward('second', { x: 90, y: 0 }, { x: 90, y: 400 })]);
+    const [first, second] = [routes.get('first')!, routes.get('second')!];
+
+    expect(Math.abs(first[0].x - second[0].x)).toBeGreaterThanOrEqual(8);
+    expect(isOrthogonal(first) && isOrthogonal(second)).toBe(true);
+  });
+
+  it('should leave edges on lines well apart where they are', () => {
+    const routes = routeEdges([], [downward('left', { x: 0, y: 0 }, { x: 0, y: 400 }), downward('right', { x: 100, y: 0 }, { x: 100, y: 400 })]);
+
+    expect(routes.get('left')![0].x).toBe(0);
+    expect(routes.get('right')![0].x).toBe(100);
+  });
+});
+
+describe('getFlowEdgeRoutes', () => {
+  const nodes = [nodeAt('a', 0, 0), nodeAt('b', 0, 400), nodeAt('c', 400, 0), nodeAt('x', 1000, 200)];
+  const edges = [hierarchy('a', 'b'), hierarchy('c', 'x')];
+
+  // Node x dropped onto the line from a to b, its top well clear of that line
+  const onTheLine = { x: -60, y: 200 };
+  const rectOf = (position: XYPosition): RouteRect => ({ id: 'x', ...position, width: 180, height: 60 });
+
+  it('should reuse the routes while no node moves', () => {
+    const routes = getFlowEdgeRoutes(nodes, edges);
+    const selected = nodes.map((n) => (n.id === 'a' ? { ...n, selected: true } : n));
+
+    expect(getFlowEdgeRoutes(nodes, edges)).toBe(routes);
+    expect(getFlowEdgeRoutes(selected, edges)).toBe(routes);
+  });
+
+  it('should only reroute the edges of the dragged node during a drag', () => {
+    const before = getFlowEdgeRoutes(nodes, edges);
+    const dragged = nodes.map((n) => (n.id === 'x' ? { ...n, position: onTheLine, dragging: true } : n));
+
+    const during = getFlowEdgeRoutes(dragged, edges);
+
+    expect(during.get('a-b')).toEqual(before.get('a-b'));
+    expect(during.get('c-x')).not.toEqual(before.get('c-x'));
+    expect(during.get('c-x')![during.get('c-x')!.length - 1]).toEqual({ x: onTheLine.x + 90, y: onTheLine.y });
+  });
+
+  it('should reroute every edge once the drag ends', () => {
+    getFlowEdgeRoutes(nodes, edges);
+    const dragged = nodes.map((n) => (n.id === 'x' ? { ...n, position: onTheLine, dragging: true } : n));
+    expect(crossesAny(getFlowEdgeRoutes(dragged, edges).get('a-b')!, rectOf(onTheLine))).toBe(true);
+
+    const dropped = dragged.map((n) => (n.id === 'x' ? { ...n, dragging: false } : n));
+    const after = getFlowEdgeRoutes(dropped, edges);
+
+    expect(crossesAny(after.get('a-b')!, rectOf(onTheLine))).toBe(false);
+  });
+
+  it('should route around moved nodes when they are placed without a drag', () => {
+    getFlowEdgeRoutes(nodes, edges);
+    const laidOut = nodes.map((n) => (n.id === 'x' ? { ...n, position: onTheLine } : n));
+
+    expect(crossesAny(getFlowEdgeRoutes(laidOut, edges).get('a-b')!, rectOf(onTheLine))).toBe(false);
+  });
+
+  it('should skip hidden edges and edges to hidden nodes', () => {
+    const hidden = nodes.map((n) => (n.id === 'x' ? { ...n, hidden: true } : n));
+
+    const routes = getFlowEdgeRoutes(hidden, [...edges, { ...hierarchy('a', 'c'), hidden: true }]);
+
+    expect(Array.from(routes.keys())).toEqual(['a-b']);
+  });
+});
@@ -0,0 +1,588 @@
+/**
+ * Orthogonal edge routing: edges run in horizontal and vertical segments
+ * around the nodes in their way, with rounded corners, and edges that share
+ * a stretch of line are spread apart so each stays visible.
+ * Used by the editor and viewer edge components and by the SVG export.
+ */
+
+import { Position, getSmoothStepPath, useStore } from 'reactflow';
+import type { Node, Edge, XYPosition } from 'reactflow';
+import { nodeSize } from './layout/tree';
+import { getFloatingEdgeParams } from './floating-edge-utils';
+import { DEFAULT_EDGE_SPACING } from './edge-spacing';
+
+export interface RouteRect {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface EdgeEndpoints {
+  sourcePoint: XYPosition;
+  sourcePosition: Position;
+  targetPoint: XYPosition;
+  targetPosition: Position;
+}
+
+export interface EdgeRouteRequest extends EdgeEndpoints {
+  id: string;
+}
+
+/** Distance an edge runs straight out of a node before it may turn */
+const STUB_LENGTH = 20;
+
+/** Clearance kept between edges and the nodes they pass */
+const NODE_MARGIN = 12;
+
+/** How far outside the box between its two ends a route may detour */
+const DETOUR_MARGIN = 200;
+
+/** Extra cost of a turn, in pixels of length, so routes prefer fewer corners */
+const BEND_PENALTY = 40;
+
+/** Radius of the rounded corners */
+export const CORNER_RADIUS = 8;
+
+interface Box {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/** Unit steps, indexed as right, down, left, up */
+const STEPS: XYPosition[] = [
+  { x: 1, y: 0 },
+  { x: 0, y: 1 },
+  { x: -1, y: 0 },
+  { x: 0, y: -1 },
+];
+
+/** Step pointing away from the node on each side */
+const OUTWARD: Record<Position, number> = {
+  [Position.Right]: 0,
+  [Position.Bottom]: 1,
+  [Position.Left]: 2,
+  [Position.Top]: 3,
+};
+
+/**
+ * Where an edge leaves its source and enters its target: the middle of the
+ * side its handle sits on (handle IDs start with the side, e.g. 'bottom-source'),
+ * or the facing sides for floating edges
+ */
+export function getEdgeEndpoints(edge: Edge, source: RouteRect, target: RouteRect): EdgeEndpoints {
+  if (edge.data?.floating) {
+    const asNode = (rect: RouteRect) =>
+      ({ id: rect.id, position: { x: rect.x, y: rect.y }, width: rect.width, height: rect.height, data: {} }) as Node;
+    const params = getFloatingEdgeParams(asNode(source), asNode(target));
+    return {
+      sourcePoint: { x: params.sx, y: params.sy },
+      sourcePosition: params.sourcePos,
+      targetPoint: { x: params.tx, y: params.ty },
+      targetPosition: params.targetPos,
+    };
+  }
+
+  const sourcePosition = handleSide(edge.sourceHandle, Position.Bottom);
+  const targetPosition = handleSide(edge.targetHandle, Position.Top);
+  return {
+    sourcePoint: sidePoint(source, sourcePosition),
+    sourcePosition,
+    targetPoint: sidePoint(target, targetPosition),
+    targetPosition,
+  };
+}
+
+/**
+ * Route edges around obstacles
+ * @param obstacles - Rectangles edges must not cross (group nodes are usually left out)
+ * @param requests - Edges with their end points
+ * @returns Corner points of each route, from source to target
+ */
+export function routeEdges(obstacles: RouteRect[], requests: EdgeRouteRequest[]): Map<string, XYPosition[]> {
+  const boxes = obstacleBoxes(obstacles);
+  const routes = new Map<string, XYPosition[]>();
+  for (const request of requests) {
+    routes.set(request.id, routeEdge(request, boxes));
+  }
+  separateParallelSegments(routes);
+  return routes;
+}
+
+interface FlowRoutes {
+  nodes: ReadonlyMap<string, Node> | Node[];
+  rects: Map<string, RouteRect>;
+  /** Routes before parallel segments were spread apart */
+  unseparated: Map<string, XYPosition[]>;
+  routes: Map<string, XYPosition[]>;
+  /** False while some routes were kept from before a drag moved nodes around them */
+  complete: boolean;
+}
+
+const flowRouteCache = new WeakMap<Edge[], FlowRoutes>();
+
+/**
+ * Routes for every edge of a React Flow canvas
+ * Cached per edge collection, so every edge component of a canvas can ask on
+ * each render: routes are reused while no node moves or resizes, and while a
+ * node is dragged only the edges attached to the nodes that moved are routed
+ * again. The rest are routed once the drag ends.
+ * @param nodes - The canvas nodes (React Flow's nodeInternals, or a node array)
+ */
+export function getFlowEdgeRoutes(nodes: ReadonlyMap<string, Node> | Node[], edges: Edge[]): Map<string, XYPosition[]> {
+  const cached = flowRouteCache.get(edges);
+  if (cached && cached.nodes === nodes) {
+    return cached.routes;
+  }
+
+  const nodeList = Array.isArray(nodes) ? nodes : Array.from(nodes.values());
+  const rects = new Map<string, RouteRect>();
+  for (const node of nodeList) {
+    if (node.hidden) continue;
+    const position = node.positionAbsolute ?? node.position;
+    rects.set(node.id, { id: node.id, x: position.x, y: position.y, ...nodeSize(node) });
+  }
+
+  const dragging = nodeList.some((node) => node.dragging);
+  const moved = cached ? movedRects(cached.rects, rects) : null;
+  if (cached && moved!.size === 0 && (cached.complete || dragging)) {
+    cached.nodes = nodes;
+    return cached.routes;
+  }
+  const reuse = dragging && moved ? cached!.unseparated : null;
+
+  const boxes = obstacleBoxes(
+    nodeList.filter((node) => node.type !== 'group' && rects.has(node.id)).map((node) => rects.get(node.id)!)
+  );
+  const unseparated = new Map<string, XYPosition[]>();
+  for (const edge of edges) {
+    const source = rects.get(edge.source);
+    const target = rects.get(edge.target);
+    if (!source || !target || edge.hidden) continue;
+    const previous = reuse?.get(edge.id);
+    if (previous && !moved!.has(edge.source) && !moved!.has(edge.target)) {
+      unseparated.set(edge.id, previous);
+      continue;
+    }
+    unseparated.set(edge.id, routeEdge({ id: edge.id, ...getEdgeEndpoints(edge, source, target) }, boxes));
+  }
+
+  // Spreading mutates the points, so it works on copies and the plain routes stay reusable
+  const routes = new Map(Array.from(unseparated, ([id, points]) => [id, points.map((point) => ({ ...point }))]));
+  separateParallelSegments(routes);
+  flowRouteCache.set(edges, { nodes, rects, unseparated, routes, complete: !reuse });
+  return routes;
+}
+
+/**
+ * Path of a canvas edge: its orthogonal route around the other nodes, the
+ * same one the SVG export draws, or a smooth step path until it has one
+ * For edge components; reads the nodes and edges from the React Flow store
+ * @param id - Edge ID
+ * @param fallbackParams - Handle positions for the smooth step path
+ * @returns Path, and the label position
+ */
+export function useRoutedEdgePath(
+  id: string,
+  fallbackParams: Parameters<typeof getSmoothStepPath>[0]
+): [path: string, labelX: number, labelY: number] {
+  const edges = useStore((state) => state.edges);
+  const nodes = useStore((state) => state.nodeInternals);
+
+  const route = getFlowEdgeRoutes(nodes, edges).get(id);
+  if (route) {
+    return getRoundedPath(route);
+  }
+  const [path, labelX, labelY] = getSmoothStepPath(fallbackParams);
+  return [path, labelX, labelY];
+}
+
+/**
+ * SVG path through the corner points of a route, with rounded corners
+ * @returns Path, and the label position halfway along the route
+ */
+export function getRoundedPath(points: XYPosition[], radius = CORNER_RADIUS): [path: string, labelX: number, labelY: number] {
+  if (points.length === 0) {
+    return ['', 0, 0];
+  }
+
+  let path = `M ${points[0].x} ${points[0].y}`;
+  for (let i = 1; i < points.length - 1; i++) {
+    const [previous, corner, next] = [points[i - 1], points[i], points[i + 1]];
+    const before = distance(previous, corner);
+    const after = distance(corner, next);
+    if (before === 0 || after === 0) continue;
+    const r = Math.min(radius, before / 2, after / 2);
+    const start = { x: corner.x + ((previous.x - corner.x) / before) * r, y: corner.y + ((previous.y - corner.y) / before) * r };
+    const end = { x: corner.x + ((next.x - corner.x) / after) * r, y: corner.y + ((next.y - corner.y) / after) * r };
+    path += ` L ${start.x} ${start.y} Q ${corner.x} ${corner.y} ${end.x} ${end.y}`;
+  }
+  const last = points[points.length - 1];
+  path += ` L ${last.x} ${last.y}`;
+
+  const [labelX, labelY] = pointAlong(points, 0.5);
+  return [path, labelX, labelY];
+}
+
+/**
+ * Obstacle rectangles grown by the clearance edges keep from nodes
+ */
+function obstacleBoxes(obstacles: RouteRect[]): Box[] {
+  return obstacles.map((rect) => ({
+    minX: rect.x - NODE_MARGIN,
+    minY: rect.y - NODE_MARGIN,
+    maxX: rect.x + rect.width + NODE_MARGIN,
+    maxY: rect.y + rect.height + NODE_MARGIN,
+  }));
+}
+
+/**
+ * IDs of the nodes that moved, resized, appeared or disappeared between two sets of rectangles
+ */
+function movedRects(before: Map<string, RouteRect>, after: Map<string, RouteRect>): Set<string> {
+  const moved = new Set<string>();
+  for (const [id, rect] of after) {
+    const old = before.get(id);
+    if (!old || old.x !== rect.x || old.y !== rect.y || old.width !== rect.width || old.height !== rect.height) {
+      moved.add(id);
+    }
+  }
+  for (const id of before.keys()) {
+    if (!after.has(id)) moved.add(id);
+  }
+  return moved;
+}
+
+/**
+ * Shortest route with few turns on a grid made of the obstacle borders,
+ * or a plain three-segment route when the obstacles leave no way through
+ */
+function routeEdge(request: EdgeRouteRequest, obstacles: Box[]): XYPosition[] {
+  const { sourcePoint, targetPoint } = request;
+  const sourceStep = OUTWARD[request.sourcePosition];
+  const targetStep = OUTWARD[request.targetPosition];
+  const start = offsetPoint(sourcePoint, STEPS[sourceStep], STUB_LENGTH);
+  const end = offsetPoint(targetPoint, STEPS[targetStep], STUB_LENGTH);
+
+  const area: Box = {
+    minX: Math.min(start.x, end.x) - DETOUR_MARGIN,
+    minY: Math.min(start.y, end.y) - DETOUR_MARGIN,
+    maxX: Math.max(start.x, end.x) + DETOUR_MARGIN,
+    maxY: Math.max(start.y, end.y) + DETOUR_MARGIN,
+  };
+  // Nodes that crowd the end points would leave no way out, so they are ignored
+  const boxes = obstacles.filter(
+    (box) => box.minX < area.maxX && box.maxX > area.minX && box.minY < area.maxY && box.maxY > area.minY &&
+      !contains(box, start) && !contains(box, end)
+  );
+
+  const within = (min: number, max: number) => (value: number) => value >= min && value <= max;
+  const xs = uniqueSorted([start.x, end.x, (start.x + end.x) / 2, area.minX, area.maxX, ...boxes.flatMap((box) => [box.minX, box.maxX])])
+    .filter(within(area.minX, area.maxX));
+  const ys = uniqueSorted([start.y, end.y, (start.y + end.y) / 2, area.minY, area.maxY, ...boxes.flatMap((box) => [box.minY, box.maxY])])
+    .filter(within(area.minY, area.maxY));
+
+  const path = searchGrid(xs, ys, boxes, start, end, sourceStep, (targetStep + 2) % 4);
+  const points = path || fallbackRoute(start, end, sourceStep % 2 === 1, targetStep % 2 === 1);
+  return simplify([sourcePoint, ...points, targetPoint]);
+}
+
+/**
+ * A* over the grid lines; a state is a grid point plus the direction it was entered from
+ * @param firstStep - Direction of the first move (out of the source)
+ * @param lastStep - Direction of the final move (into the target)
+ */
+function searchGrid(
+  xs: number[],
+  ys: number[],
+  boxes: Box[],
+  start: XYPosition,
+  end: XYPosition,
+  firstStep: number,
+  lastStep: number
+): XYPosition[] | null {
+  const columns = xs.length;
+  const rows = ys.length;
+  const startIndex = xs.indexOf(start.x) + ys.indexOf(start.y) * columns;
+  const endIndex = xs.indexOf(end.x) + ys.indexOf(end.y) * columns;
+
+  // Moves from a grid point to its right or lower neighbour that cross an obstacle.
+  // Every obstacle border is a grid line, so a move crosses one iff its middle is inside it
+  const blockedRight = new Uint8Array(columns * rows);
+  const blockedDown = new Uint8Array(columns * rows);
+  for (const box of boxes) {
+    const [firstColumn, lastColumn] = indexRange(xs, box.minX, box.maxX);
+    const [firstRow, lastRow] = indexRange(ys, box.minY, box.maxY);
+    for (let row = firstRow; row <= lastRow; row++) {
+      for (let column = firstColumn; column <= lastColumn; column++) {
+        const x = xs[column];
+        const y = ys[row];
+        if (column + 1 < columns && y > box.minY && y < box.maxY && (x + xs[column + 1]) / 2 > box.minX && (x + xs[column + 1]) / 2 < box.maxX) {
+          blockedRight[column + row * columns] = 1;
+        }
+        if (row + 1 < rows && x > box.minX && x < box.maxX && (y + ys[row + 1]) / 2 > box.minY && (y + ys[row + 1]) / 2 < box.maxY) {
+          blockedDown[column + row * columns] = 1;
+        }
+      }
+    }
+  }
+
+  const neighbour = (index: number, step: number): number => {
+    const column = index % columns;
+    const row = (index - column) / columns;
+    switch (step) {
+      case 0: return column + 1 < columns && !blockedRight[index] ? index + 1 : -1;
+      case 1: return row + 1 < rows && !blockedDown[index] ? index + columns : -1;
+      case 2: return column > 0 && !blockedRight[index - 1] ? index - 1 : -1;
+      default: return row > 0 && !blockedDown[index - columns] ? index - columns : -1;
+    }
+  };
+  const pointOf = (index: number): XYPosition => ({ x: xs[index % columns], y: ys[Math.floor(index / columns)] });
+  const estimate = (index: number) => {
+    const point = pointOf(index);
+    return Math.abs(point.x - end.x) + Math.abs(point.y - end.y);
+  };
+
+  const cost = new Float64Array(columns * rows * 4).fill(Infinity);
+  const previous = new Int32Array(columns * rows * 4).fill(-1);
+  const queue = new MinQueue();
+  const first = startIndex * 4 + firstStep;
+  cost[first] = 0;
+  queue.push(first, estimate(startIndex));
+
+  let best = -1;
+  let bestCost = Infinity;
+  while (queue.size > 0) {
+    const { item: state, priority } = queue.pop();
+    if (priority >= bestCost) break;
+    const index = state >> 2;
+    const step = state & 3;
+    if (index === endIndex) {
+      const total = cost[state] + (step === lastStep ? 0 : BEND_PENALTY);
+      if (total < bestCost) {
+        best = state;
+        bestCost = total;
+      }
+      continue;
+    }
+
+    for (let nextStep = 0; nextStep < 4; nextStep++) {
+      if (nextStep === (step + 2) % 4) continue;
+      const next = neighbour(index, nextStep);
+      if (next < 0) continue;
+      const nextState = next * 4 + nextStep;
+      const nextCost = cost[state] + distance(pointOf(index), pointOf(next)) + (nextStep === step ? 0 : BEND_PENALTY);
+      if (nextCost < cost[nextState]) {
+        cost[nextState] = nextCost;
+        previous[nextState] = state;
+        queue.push(nextState, nextCost + estimate(next));
+      }
+    }
+  }
+
+  if (best < 0) return null;
+  const points: XYPosition[] = [];
+  for (let state = best; state >= 0; state = previous[state]) {
+    points.unshift(pointOf(state >> 2));
+  }
+  return points;
+}
+
+/**
+ * Route that ignores obstacles: out of the source, across, and into the target
+ */
+function fallbackRoute(start: XYPosition, end: XYPosition, sourceVertical: boolean, targetVertical: boolean): XYPosition[] {
+  if (sourceVertical && targetVertical) {
+    const y = (start.y + end.y) / 2;
+    return [start, { x: start.x, y }, { x: end.x, y }, end];
+  }
+  if (!sourceVertical && !targetVertical) {
+    const x = (start.x + end.x) / 2;
+    return [start, { x, y: start.y }, { x, y: end.y }, end];
+  }
+  return [start, sourceVertical ? { x: start.x, y: end.y } : { x: end.x, y: start.y }, end];
+}
+
+/**
+ * Spread apart segments of different edges that run along the same line, or
+ * close enough to it to look like one, evenly around their middle
+ */
+function separateParallelSegments(routes: Map<string, XYPosition[]>): void {
+  const { baseSpacing, maxEdges } = DEFAULT_EDGE_SPACING;
+
+  // Vertical segments share an x, horizontal ones a y
+  for (const axis of ['x', 'y'] as const) {
+    const along = axis === 'x' ? 'y' : 'x';
+    const segments: Array<{ points: XYPosition[]; index: number; line: number; from: number; to: number }> = [];
+    for (const points of routes.values()) {
+      for (let index = 0; index < points.length - 1; index++) {
+        const [a, b] = [points[index], points[index + 1]];
+        if (Math.abs(a[axis] - b[axis]) > 0.5 || Math.abs(a[along] - b[along]) < 0.5) continue;
+        segments.push({ points, index, line: a[axis], from: Math.min(a[along], b[along]), to: Math.max(a[along], b[along]) });
+      }
+    }
+
+    // Segments of different edges that overlap on (nearly) the same line
+    const cluster = segments.map((_, i) => i);
+    const find = (i: number): number => (cluster[i] === i ? i : (cluster[i] = find(cluster[i])));
+    for (let i = 0; i < segments.length; i++) {
+      for (let j = i + 1; j < segments.length; j++) {
+        const [a, b] = [segments[i], segments[j]];
+        if (a.points !== b.points && Math.abs(a.line - b.line) < baseSpacing && a.from < b.to - 0.5 && b.from < a.to - 0.5) {
+          cluster[find(i)] = find(j);
+        }
+      }
+    }
+
+    const clusters = new Map<number, typeof segments>();
+    segments.forEach((segment, i) => clusters.set(find(i), [...(clusters.get(find(i)) || []), segment]));
+    for (const members of clusters.values()) {
+      if (members.length < 2) continue;
+      members.sort((a, b) => a.line - b.line || a.from - b.from);
+      const middle = members.reduce((sum, member) => sum + member.line, 0) / members.length;
+      const count = Math.min(members.length, maxEdges);
+      const spacing = Math.min(baseSpacing, (2 * (NODE_MARGIN - 2)) / (count - 1));
+      members.forEach((member, position) => {
+        // Never further than the clearance around nodes, so no segment is pushed into one
+        const shift = clamp(middle + (Math.min(position, count - 1) - (count - 1) / 2) * spacing - member.line, NODE_MARGIN - 2);
+        member.points[member.index][axis] += shift;
+        member.points[member.index + 1][axis] += shift;
+      });
+    }
+  }
+}
+
+/**
+ * Drop repeated points and points in the middle of straight runs
+ */
+function simplify(points: XYPosition[]): XYPosition[] {
+  const result: XYPosition[] = [];
+  for (const point of points) {
+    const last = result[result.length - 1];
+    if (last && last.x === point.x && last.y === point.y) continue;
+    const beforeLast = result[result.length - 2];
+    if (
+      beforeLast &&
+      ((beforeLast.x === last.x && last.x === point.x && (last.y - beforeLast.y) * (point.y - last.y) >= 0) ||
+        (beforeLast.y === last.y && last.y === point.y && (last.x - beforeLast.x) * (point.x - last.x) >= 0))
+    ) {
+      result[result.length - 1] = { ...point };
+      continue;
+    }
+    result.push({ ...point });
+  }
+  return result;
+}
+
+/**
+ * Point at a fraction of the way along a polyline
+ */
+function pointAlong(points: XYPosition[], fraction: number): [number, number] {
+  const total = points.slice(1).reduce((sum, point, index) => sum + distance(points[index], point), 0);
+  let remaining = total * fraction;
+  for (let i = 1; i < points.length; i++) {
+    const length = distance(points[i - 1], points[i]);
+    if (length >= remaining && length > 0) {
+      const t = remaining / length;
+      return [points[i - 1].x + (points[i].x - points[i - 1].x) * t, points[i - 1].y + (points[i].y - points[i - 1].y) * t];
+    }
+    remaining -= length;
+  }
+  return [points[0].x, points[0].y];
+}
+
+function handleSide(handleId: string | null | undefined, fallback: Position): Position {
+  const side = handleId?.split('-')[0];
+  return side === 'top' ? Position.Top
+    : side === 'bottom' ? Position.Bottom
+    : side === 'left' ? Position.Left
+    : side === 'right' ? Position.Right
+    : fallback;
+}
+
+function sidePoint(rect: RouteRect, side: Position): XYPosition {
+  switch (side) {
+    case Position.Top: return { x: rect.x + rect.width / 2, y: rect.y };
+    case Position.Bottom: return { x: rect.x + rect.width / 2, y: rect.y + rect.height };
+    case Position.Left: return { x: rect.x, y: rect.y + rect.height / 2 };
+    default: return { x: rect.x + rect.width, y: rect.y + rect.height / 2 };
+  }
+}
+
+function offsetPoint(point: XYPosition, step: XYPosition, length: number): XYPosition {
+  return { x: point.x + step.x * length, y: point.y + step.y * length };
+}
+
+function contains(box: Box, point: XYPosition): boolean {
+  return point.x > box.minX && point.x < box.maxX && point.y > box.minY && point.y < box.maxY;
+}
+
+/**
+ * Indices of the sorted values from just before min to just after max
+ */
+function indexRange(values: number[], min: number, max: number): [number, number] {
+  let first = 0;
+  while (first < values.length - 1 && values[first + 1] <= min) first++;
+  let last = values.length - 1;
+  while (last > 0 && values[last - 1] >= max) last--;
+  return [first, last];
+}
+
+function clamp(value: number, limit: number): number {
+  return Math.max(-limit, Math.min(limit, value));
+}
+
+function uniqueSorted(values: number[]): number[] {
+  return Array.from(new Set(values)).sort((a, b) => a - b);
+}
+
+function distance(a: XYPosition, b: XYPosition): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/**
+ * Binary heap of numbers by priority, smallest first
+ */
+class MinQueue {
+  private items: Array<{ item: number; priority: number }> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: number, priority: number): void {
+    const items = this.items;
+    items.push({ item, priority });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].priority <= items[i].priority) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): { item: number; priority: number } {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].priority < items[smallest].priority) smallest = left;
+        if (right < items.length && items[right].priority < items[smallest].priority) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
@@ -1 +1,5 @@
 export * from './svg';
+export * from './png';
+// The rest of pdf.ts is exported for its tests only
+export { exportToPDF } from './pdf';
+export type { PDFPage, PDFExportOptions } from './pdf';
@@ -0,0 +1,182 @@
+// Unit tests for the PDF exporter's path, color and text translation and its file writer
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { PDFWriter, encodeText, isWinAnsi, normalizeColor, parseColor, parsePath } from './pdf';
+
+describe('parsePath', () => {
+  it('should translate lines and closed shapes', () => {
+    const path = parsePath('M 10 20 L 30 20 H 50 V 60 Z');
+
+    expect(path.ops).toBe('10 20 m 30 20 l 50 20 l 50 60 l h');
+    expect(path.end).toEqual({ x: 10, y: 20 });
+  });
+
+  it('should read coordinates after a move as lines', () => {
+    expect(parsePath('M0,0 10,10 20-5').ops).toBe('0 0 m 10 10 l 20 -5 l');
+  });
+
+  it('should turn quadratic curves into cubic ones', () => {
+    expect(parsePath('M 0 0 Q 30 0 30 30').ops).toBe('0 0 m 20 0 30 10 30 30 c');
+  });
+
+  it('should report the end point and direction of the last segment', () => {
+    const curve = parsePath('M 0 0 C 0 50 100 50 100 100');
+    const line = parsePath('M 0 0 L 100 0 L 100 -40');
+
+    expect(curve.end).toEqual({ x: 100, y: 100 });
+    expect(curve.direction).toBeCloseTo(Math.PI / 2);
+    expect(line.direction).toBeCloseTo(-Math.PI / 2);
+  });
+
+  it('should ignore zero-length segments when finding the direction', () => {
+    expect(parsePath('M 0 0 L 50 0 L 50 0').direction).toBe(0);
+  });
+
+  it('should handle exponents and return no end for empty data', () => {
+    expect(parsePath('M 1e2 0.5e1 L 2e-2 0').ops).toBe('100 5 m 0.02 0 l');
+    expect(parsePath('')).toEqual({ ops: '', end: null, direction: null });
+  });
+});
+
+describe('parseColor', () => {
+  // A canvas that knows a few colors, and keeps the last valid one for the rest
+  const canvasColors: Record<string, string> = {
+    rebeccapurple: '#663399',
+    'hsl(0, 100%, 50%)': '#ff0000',
+    'hsla(0, 0%, 0%, 0)': 'rgba(0, 0, 0, 0)',
+  };
+  let fillStyle = '#000000';
+  const context = {
+    get fillStyle() {
+      return fillStyle;
+    },
+    set fillStyle(value: string) {
+      if (value.startsWith('#') || value in canvasColors) fillStyle = canvasColors[value] ?? value;
+    },
+  };
+
+  beforeAll(() => {
+    vi.stubGlobal('document', { createElement: () => ({ getContext: () => context }) });
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should read hex colors', () => {
+    expect(parseColor('#ffffff')).toBe('1 1 1');
+    expect(parseColor('#F00')).toBe('1 0 0');
+  });
+
+  it('should read rgb() and rgba() with numbers or percentages', () => {
+    expect(parseColor('rgb(255, 128, 0)')).toBe('1 0.5 0');
+    expect(parseColor('rgb(100% 0% 50% / 0.5)')).toBe('1 0 0.5');
+    expect(parseColor('rgba(0,0,0,0.2)')).toBe('0 0 0');
+  });
+
+  it('should treat none and fully transparent colors as no color', () => {
+    expect(parseColor(null)).toBeNull();
+    expect(parseColor('none')).toBeNull();
+    expect(parseColor('transparent')).toBeNull();
+    expect(parseColor('rgba(10, 20, 30, 0)')).toBeNull();
+    expect(parseColor('hsla(0, 0%, 0%, 0)')).toBeNull();
+  });
+
+  it('should resolve named and hsl() colors through the canvas', () => {
+    expect(normalizeColor('rebeccapurple')).toBe('#663399');
+    expect(parseColor('rebeccapurple')).toBe('0.4 0.2 0.6');
+    expect(parseColor('hsl(0, 100%, 50%)')).toBe('1 0 0');
+  });
+
+  it('should draw colors it cannot read in black', () => {
+    expect(normalizeColor('not-a-color')).toBe('#000000');
+    expect(parseColor('not-a-color')).toBe('0 0 0');
+  });
+
+  it('should take currentColor from the element or its ancestors', () => {
+    const parent = { getAttribute: (name: string) => (name === 'color' ? '#0000ff' : null), parentElement: null };
+    const element = { getAttribute: () => 'currentColor', parentElement: parent } as unknown as Element;
+
+    expect(parseColor('currentColor', element)).toBe('0 0 1');
+  });
+});
+
+describe('encodeText', () => {
+  it('should encode Latin-1 text as WinAnsi codes', () => {
+    expect(encodeText('Café')).toBe('<436166e9>');
+  });
+
+  it('should map typographic characters outside Latin-1 to their WinAnsi codes', () => {
+    expect(encodeText('“€5” – ok…')).toBe('<938035942096206f6b85>');
+    expect(isWinAnsi('“€5” – ok…')).toBe(true);
+  });
+
+  it('should replace characters the encoding lacks with one "?" each', () => {
+    expect(encodeText('日本')).toBe('<3f3f>');
+    expect(encodeText('a😀b')).toBe('<613f62>');
+    expect(isWinAnsi('Привет')).toBe(false);
+  });
+});
+
+describe('PDFWriter', () => {
+  /** Document with two pages and an optional logo, one character per byte */
+  async function writeDocument(logo: number[] | null = null): Promise<string> {
+    const writer = new PDFWriter();
+    writer.opacityState(0.5);
+    const jpeg = logo ? { width: 2, height: 1, jpeg: new Uint8Array(logo) } : null;
+    const blob = await writer.finish(['BT /F1 12 Tf (Cover) Tj ET', '0 0 m 10 10 l S'], 'Café map', jpeg);
+    return Array.from(new Uint8Array(await blob.arrayBuffer()), (byte) => String.fromCharCode(byte)).join('');
+  }
+
+  /** Byte offsets listed in the cross-reference table, and where the table starts */
+  function readXref(text: string) {
+    const xref = Number(text.match(/startxref\n(\d+)\n%%EOF\n$/)![1]);
+    const [, count, entries] = text.slice(xref).match(/^xref\n0 (\d+)\n0000000000 65535 f \n((?:\d{10} 00000 n \n)*)/)!;
+    const offsets = entries.trim().split('\n').map((entry) => Number(entry.slice(0, 10)));
+    return { text, xref, count: Number(count), offsets };
+  }
+
+  it('should point startxref at the cross-reference table', async () => {
+    const { text, xref } = readXref(await writeDocument());
+
+    expect(text.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(text.slice(xref, xref + 5)).toBe('xref\n');
+  });
+
+  it('should list the byte offset of every object', async () => {
+    const { text, count, offsets } = readXref(await writeDocument());
+
+    expect(offsets).toHaveLength(count - 1);
+    offsets.forEach((offset, index) => {
+      expect(text.slice(offset).startsWith(`${index + 1} 0 obj\n`), `object ${index + 1}`).toBe(true);
+    });
+    expect(text).toMatch(new RegExp(`trailer\\n<< /Size ${count} /Root 1 0 R /Info 3 0 R >>`));
+  });
+
+  it('should keep the offsets right after binary image data', async () => {
+    // Bytes that are not valid UTF-8 and would change length if re-encoded
+    const { text, offsets } = readXref(await writeDocument([0xff, 0xd8, 0xe2, 0x80, 0x00, 0xff, 0xd9]));
+
+    offsets.forEach((offset, index) => {
+      expect(text.slice(offset).startsWith(`${index + 1} 0 obj\n`), `object ${index + 1}`).toBe(true);
+    });
+    expect(text).toContain('/Subtype /Image /Width 2 /Height 1');
+    expect(text).toContain('/Length 7 >>\nstream\n\xff\xd8\xe2\x80\x00\xff\xd9\nendstream');
+  });
+
+  it('should give every stream its length in bytes', async () => {
+    const { text } = readXref(await writeDocument());
+
+    for (const [, length, data] of text.matchAll(/\/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/g)) {
+      expect(data.length).toBe(Number(length));
+    }
+    expect(text).toContain('/Type /Pages /Kids [');
+    expect(text).toContain('/Count 2');
+  });
+
+  it('should write the title as UTF-16 so any character fits', async () => {
+    const { text } = readXref(await writeDocument());
+
+    expect(text).toContain('/Title <feff00430061006600e90020006d00610070>');
+  });
+});
@@ -0,0 +1,769 @@
+/**
+ * PDF Exporter for DocMaps
+ *
+ * Writes vector PDFs without a PDF library: each map is drawn as an SVG
+ * document first (see createMapSVG), and its shapes and text are translated
+ * into PDF drawing operators using the standard Helvetica and Courier fonts.
+ * Text those fonts cannot show (e.g. CJK or Cyrillic) is rendered by the
+ * browser and embedded as an image instead. Multi-view maps get one page per view, after a cover page.
+ */
+
+import type { Node, Edge } from 'reactflow';
+import { createMapSVG } from './svg';
+import { canvasToBytes, downloadBlob, exportFileName, loadImage, measureText } from './shared';
+
+export interface PDFPage {
+  /** Printed above the map */
+  title: string;
+  nodes: Node[];
+  edges: Edge[];
+}
+
+export interface PDFExportOptions {
+  title: string;
+  description?: string | null;
+  logoUrl?: string | null;
+  /** Add a cover page even for a single page (always added for several pages) */
+  cover?: boolean;
+}
+
+// A4 landscape, in points
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const PAGE_MARGIN = 36;
+const HEADER_HEIGHT = 40;
+
+/** Largest scale for a map on its page, so small maps are not blown up */
+const MAX_MAP_SCALE = 0.75;
+
+const LOGO_MAX_WIDTH = 160;
+const LOGO_MAX_HEIGHT = 80;
+
+/** Control point distance for drawing a quarter circle with one cubic Bezier */
+const KAPPA = 0.5523;
+
+const PDF_FONT_FAMILY = 'Helvetica, Arial, sans-serif';
+const PDF_MONO_FONT_FAMILY = 'Courier, monospace';
+
+/** Image pixels per unit of text drawn as an image, enough for print */
+const TEXT_IMAGE_SCALE = 4;
+
+/** Standard PDF fonts, by resource name */
+const FONTS = {
+  F1: 'Helvetica',
+  F2: 'Helvetica-Bold',
+  F3: 'Courier',
+} as const;
+
+type FontName = keyof typeof FONTS;
+
+interface LogoImage {
+  width: number;
+  height: number;
+  jpeg: Uint8Array<ArrayBuffer>;
+}
+
+/** Text rendered by the browser, as the coverage of each pixel */
+interface TextImage {
+  /** Size in text units, with the baseline `ascent` below the top */
+  width: number;
+  height: number;
+  ascent: number;
+  columns: number;
+  rows: number;
+  alpha: Uint8Array<ArrayBuffer>;
+}
+
+/**
+ * Export one or more maps to a PDF document
+ */
+export async function exportToPDF(pages: PDFPage[], options: PDFExportOptions): Promise<void> {
+  const mapPages = pages.filter((page) => page.nodes.length > 0);
+  if (mapPages.length === 0) {
+    throw new Error('No nodes to export');
+  }
+
+  const writer = new PDFWriter();
+  const contents: string[] = [];
+
+  const withCover = mapPages.length > 1 || options.cover === true;
+  const logo = withCover && options.logoUrl ? await loadLogo(options.logoUrl) : null;
+  if (withCover) {
+    contents.push(drawCoverPage(mapPages, options, logo, writer));
+  }
+
+  const pageCount = mapPages.length + (withCover ? 1 : 0);
+  mapPages.forEach((page, index) => {
+    const pageNumber = index + 1 + (withCover ? 1 : 0);
+    contents.push(drawMapPage(page, writer, `${pageNumber} / ${pageCount}`));
+  });
+
+  const blob = await writer.finish(contents, options.title, logo);
+  downloadBlob(blob, exportFileName(options.title, 'pdf'));
+}
+
+/**
+ * Page with the map title, description, logo and list of views
+ */
+function drawCoverPage(pages: PDFPage[], options: PDFExportOptions, logo: LogoImage | null, writer: PDFWriter): string {
+  const ops: string[] = [];
+  const left = PAGE_MARGIN * 2;
+  const maxWidth = PAGE_WIDTH - left * 2;
+  let y = PAGE_HEIGHT - PAGE_MARGIN * 2;
+
+  if (logo) {
+    const scale = Math.min(LOGO_MAX_WIDTH / logo.width, LOGO_MAX_HEIGHT / logo.height, 1);
+    const width = logo.width * scale;
+    const height = logo.height * scale;
+    y -= height;
+    ops.push(`q ${num(width)} 0 0 ${num(height)} ${num(left)} ${num(y)} cm /Logo Do Q`);
+    y -= 32;
+  }
+
+  y -= 28;
+  for (const line of wrapText(options.title, 28, '700', maxWidth)) {
+    ops.push(textOp(line, left, y, 28, 'F2', '#111827', writer));
+    y -= 34;
+  }
+
+  if (options.description) {
+    y -= 4;
+    for (const line of wrapText(options.description, 12, '400', maxWidth)) {
+      ops.push(textOp(line, left, y, 12, 'F1', '#4b5563', writer));
+      y -= 17;
+    }
+  }
+
+  if (pages.length > 1) {
+    y -= 20;
+    ops.push(textOp(`${pages.length} views`, left, y, 11, 'F2', '#6b7280', writer));
+    y -= 20;
+    pages.forEach((page, index) => {
+      if (y < PAGE_MARGIN * 2) return;
+      ops.push(textOp(`${index + 1}.  ${page.title}`, left, y, 12, 'F1', '#111827', writer));
+      y -= 18;
+    });
+  }
+
+  const exported = `Exported ${new Date().toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' })}`;
+  ops.push(textOp(exported, left, PAGE_MARGIN, 9, 'F1', '#9ca3af', writer));
+
+  return ops.join('\n');
+}
+
+/**
+ * Page with a title and one map, scaled to fit
+ */
+function drawMapPage(page: PDFPage, writer: PDFWriter, footer: string): string {
+  const ops: string[] = [];
+  ops.push(textOp(page.title, PAGE_MARGIN, PAGE_HEIGHT - PAGE_MARGIN - 18, 18, 'F2', '#111827', writer));
+  ops.push(textOp(footer, PAGE_WIDTH - PAGE_MARGIN - measurePDFText(footer, 9, 'F1'), PAGE_MARGIN / 2, 9, 'F1', '#9ca3af', writer));
+
+  const svg = createMapSVG(page.nodes, page.edges);
+  const svgWidth = Number(svg.getAttribute('width'));
+  const svgHeight = Number(svg.getAttribute('height'));
+  const areaWidth = PAGE_WIDTH - PAGE_MARGIN * 2;
+  const areaHeight = PAGE_HEIGHT - PAGE_MARGIN * 2 - HEADER_HEIGHT;
+  const scale = Math.min(areaWidth / svgWidth, areaHeight / svgHeight, MAX_MAP_SCALE);
+  const left = PAGE_MARGIN + (areaWidth - svgWidth * scale) / 2;
+  const top = PAGE_HEIGHT - PAGE_MARGIN - HEADER_HEIGHT - (areaHeight - svgHeight * scale) / 2;
+
+  // Flip the y axis so the SVG coordinates can be used as they are
+  ops.push(`q ${num(scale)} 0 0 ${num(-scale)} ${num(left)} ${num(top)} cm`);
+  const context: SVGContext = { writer, ids: collectIds(svg) };
+  Array.from(svg.children).forEach((child) => drawElement(child, context, ops));
+  ops.push('Q');
+
+  return ops.join('\n');
+}
+
+interface SVGContext {
+  writer: PDFWriter;
+  /** Elements with an id, for clip paths and markers */
+  ids: Map<string, Element>;
+}
+
+function collectIds(svg: SVGSVGElement): Map<string, Element> {
+  const ids = new Map<string, Element>();
+  svg.querySelectorAll('[id]').forEach((element) => ids.set(element.getAttribute('id')!, element));
+  return ids;
+}
+
+function referencedElement(value: string | null, context: SVGContext): Element | undefined {
+  const match = value?.match(/^url\(#(.+)\)$/);
+  return match ? context.ids.get(match[1]) : undefined;
+}
+
+/**
+ * Translate an SVG element into PDF operators
+ * Filters (the node shadows) have no equivalent here and are left out.
+ */
+function drawElement(element: Element, context: SVGContext, ops: string[]): void {
+  const tag = element.tagName.toLowerCase();
+  if (tag === 'defs' || tag === 'clippath' || tag === 'marker') return;
+
+  if (tag === 'g') {
+    Array.from(element.children).forEach((child) => drawElement(child, context, ops));
+    return;
+  }
+
+  const shape = shapePath(element);
+  if (shape === null && tag !== 'text') return;
+
+  ops.push('q');
+  const clip = referencedElement(element.getAttribute('clip-path'), context);
+  const clipShape = clip?.firstElementChild ? shapePath(clip.firstElementChild) : null;
+  if (clipShape) {
+    ops.push(`${clipShape} W n`);
+  }
+
+  const opacity = Number(element.getAttribute('opacity') ?? 1);
+  if (opacity < 1) {
+    ops.push(`/${context.writer.opacityState(opacity)} gs`);
+  }
+
+  if (tag === 'text') {
+    drawText(element, context.writer, ops);
+  } else if (shape !== null) {
+    drawShape(element, shape, ops);
+    const marker = referencedElement(element.getAttribute('marker-end'), context);
+    if (marker && tag === 'path') {
+      drawMarker(element, marker, ops);
+    }
+  }
+  ops.push('Q');
+}
+
+/**
+ * Path operators for the outline of a basic shape, or null for other elements
+ */
+function shapePath(element: Element): string | null {
+  const attr = (name: string) => Number(element.getAttribute(name) ?? 0);
+  switch (element.tagName.toLowerCase()) {
+    case 'rect':
+      return roundedRectPath(attr('x'), attr('y'), attr('width'), attr('height'), attr('rx'));
+    case 'circle':
+      return ellipsePath(attr('cx'), attr('cy'), attr('r'));
+    case 'path':
+      return parsePath(element.getAttribute('d') || '').ops;
+    default:
+      return null;
+  }
+}
+
+function drawShape(element: Element, shape: string, ops: string[]): void {
+  const fill = parseColor(element.getAttribute('fill') ?? '#000000', element);
+  const stroke = parseColor(element.getAttribute('stroke'), element);
+
+  if (fill) ops.push(`${fill} rg`);
+  if (stroke) {
+    ops.push(`${stroke} RG ${num(Number(element.getAttribute('stroke-width') ?? 1))} w`);
+    const dashes = element.getAttribute('stroke-dasharray');
+    if (dashes) {
+      ops.push(`[${dashes.split(/[\s,]+/).map(Number).map(num).join(' ')}] 0 d`);
+    }
+  }
+
+  const paint = fill && stroke ? 'B' : fill ? 'f' : stroke ? 'S' : 'n';
+  ops.push(`${shape} ${paint}`);
+}
+
+/**
+ * Draw an arrow marker at the end of a path, turned along its last segment
+ * Matches the exporter's markers: orient="auto" and markerUnits="strokeWidth".
+ */
+function drawMarker(path: Element, marker: Element, ops: string[]): void {
+  const { end, direction } = parsePath(path.getAttribute('d') || '');
+  const markerPath = marker.querySelector('path');
+  if (!end || !direction || !markerPath) return;
+
+  const strokeWidth = Number(path.getAttribute('stroke-width') ?? 1);
+  const cos = Math.cos(direction) * strokeWidth;
+  const sin = Math.sin(direction) * strokeWidth;
+  const refX = Number(marker.getAttribute('refX') ?? 0);
+  const refY = Number(marker.getAttribute('refY') ?? 0);
+
+  ops.push('q [] 0 d');
+  ops.push(`${num(cos)} ${num(sin)} ${num(-sin)} ${num(cos)} ${num(end.x)} ${num(end.y)} cm`);
+  ops.push(`1 0 0 1 ${num(-refX)} ${num(-refY)} cm`);
+  drawShape(markerPath, parsePath(markerPath.getAttribute('d') || '').ops, ops);
+  ops.push('Q');
+}
+
+function drawText(element: Element, writer: PDFWriter, ops: string[]): void {
+  const text = element.textContent || '';
+  if (!text) return;
+
+  const fontSize = Number(element.getAttribute('font-size') ?? 12);
+  const weight = Number(element.getAttribute('font-weight') ?? 400);
+  const monospace = /mono|consolas|menlo/i.test(element.getAttribute('font-family') || '');
+  const font: FontName = monospace ? 'F3' : weight >= 600 ? 'F2' : 'F1';
+
+  let x = Number(element.getAttribute('x') ?? 0);
+  let y = Number(element.getAttribute('y') ?? 0);
+  const anchor = element.getAttribute('text-anchor');
+  if (anchor === 'middle' || anchor === 'end') {
+    x -= measurePDFText(text, fontSize, font) / (anchor === 'middle' ? 2 : 1);
+  }
+  if (element.getAttribute('dominant-baseline') === 'middle') {
+    // Baseline sits below the middle of the lowercase letters
+    y += fontSize * 0.35;
+  }
+
+  const fill = colorChannels(element.getAttribute('fill') ?? '#000000', element) || [0, 0, 0];
+  const image = isWinAnsi(text) ? null : writer.textImage(text, fontSize, font, fill);
+  if (image) {
+    // The page is drawn with a flipped y axis, so the image is flipped back
+    const { width, height, ascent } = image.image;
+    ops.push(`q ${num(width)} 0 0 ${num(-height)} ${num(x)} ${num(y - ascent + height)} cm /${image.name} Do Q`);
+    return;
+  }
+  // The page is drawn with a flipped y axis, so flip the glyphs back
+  ops.push(`BT /${font} ${num(fontSize)} Tf ${toOperands(fill)} rg 1 0 0 -1 ${num(x)} ${num(y)} Tm ${encodeText(text)} Tj ET`);
+}
+
+/**
+ * Text in page coordinates (y up)
+ */
+function textOp(text: string, x: number, y: number, fontSize: number, font: FontName, color: string, writer: PDFWriter): string {
+  const fill = colorChannels(color) || [0, 0, 0];
+  const image = isWinAnsi(text) ? null : writer.textImage(text, fontSize, font, fill);
+  if (image) {
+    const { width, height, ascent } = image.image;
+    return `q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(y + ascent - height)} cm /${image.name} Do Q`;
+  }
+  return `BT /${font} ${num(fontSize)} Tf ${toOperands(fill)} rg ${num(x)} ${num(y)} Td ${encodeText(text)} Tj ET`;
+}
+
+function measurePDFText(text: string, fontSize: number, font: FontName): number {
+  if (font === 'F3' && isWinAnsi(text)) {
+    // Every Courier glyph is 600 units wide
+    return text.length * fontSize * 0.6;
+  }
+  return measureText(text, fontSize, font === 'F2' ? '700' : '400', font === 'F3' ? PDF_MONO_FONT_FAMILY : PDF_FONT_FAMILY);
+}
+
+/**
+ * Render text with the browser's fonts, which cover the characters the
+ * standard PDF fonts lack, or null where there is no canvas
+ */
+function renderTextImage(text: string, fontSize: number, font: FontName): TextImage | null {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const cssFont = `${font === 'F2' ? '700' : '400'} ${fontSize * TEXT_IMAGE_SCALE}px ${font === 'F3' ? PDF_MONO_FONT_FAMILY : PDF_FONT_FAMILY}`;
+  ctx.font = cssFont;
+  // Room for tall glyphs above the baseline and descenders below it
+  const ascent = fontSize;
+  const columns = Math.max(1, Math.ceil(ctx.measureText(text).width));
+  const rows = Math.ceil(fontSize * 1.3 * TEXT_IMAGE_SCALE);
+  canvas.width = columns;
+  canvas.height = rows;
+
+  // Resizing the canvas resets its state
+  ctx.font = cssFont;
+  ctx.fillStyle = '#000000';
+  ctx.fillText(text, 0, ascent * TEXT_IMAGE_SCALE);
+  const pixels = ctx.getImageData(0, 0, columns, rows).data;
+  const alpha = new Uint8Array(columns * rows);
+  for (let i = 0; i < alpha.length; i++) {
+    alpha[i] = pixels[i * 4 + 3];
+  }
+
+  return { width: columns / TEXT_IMAGE_SCALE, height: rows / TEXT_IMAGE_SCALE, ascent, columns, rows, alpha };
+}
+
+function wrapText(text: string, fontSize: number, fontWeight: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\n+/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measureText(candidate, fontSize, fontWeight, PDF_FONT_FAMILY) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    if (line) lines.push(line);
+  }
+  return lines;
+}
+
+function roundedRectPath(x: number, y: number, width: number, height: number, rx: number): string {
+  const r = Math.min(rx, width / 2, height / 2);
+  if (r <= 0) {
+    return `${num(x)} ${num(y)} ${num(width)} ${num(height)} re`;
+  }
+  const k = r * KAPPA;
+  const right = x + width;
+  const bottom = y + height;
+  return [
+    `${num(x + r)} ${num(y)} m`,
+    `${num(right - r)} ${num(y)} l`,
+    `${num(right - r + k)} ${num(y)} ${num(right)} ${num(y + r - k)} ${num(right)} ${num(y + r)} c`,
+    `${num(right)} ${num(bottom - r)} l`,
+    `${num(right)} ${num(bottom - r + k)} ${num(right - r + k)} ${num(bottom)} ${num(right - r)} ${num(bottom)} c`,
+    `${num(x + r)} ${num(bottom)} l`,
+    `${num(x + r - k)} ${num(bottom)} ${num(x)} ${num(bottom - r + k)} ${num(x)} ${num(bottom - r)} c`,
+    `${num(x)} ${num(y + r)} l`,
+    `${num(x)} ${num(y + r - k)} ${num(x + r - k)} ${num(y)} ${num(x + r)} ${num(y)} c h`,
+  ].join(' ');
+}
+
+function ellipsePath(cx: number, cy: number, r: number): string {
+  const k = r * KAPPA;
+  return [
+    `${num(cx + r)} ${num(cy)} m`,
+    `${num(cx + r)} ${num(cy + k)} ${num(cx + k)} ${num(cy + r)} ${num(cx)} ${num(cy + r)} c`,
+    `${num(cx - k)} ${num(cy + r)} ${num(cx - r)} ${num(cy + k)} ${num(cx - r)} ${num(cy)} c`,
+    `${num(cx - r)} ${num(cy - k)} ${num(cx - k)} ${num(cy - r)} ${num(cx)} ${num(cy - r)} c`,
+    `${num(cx + k)} ${num(cy - r)} ${num(cx + r)} ${num(cy - k)} ${num(cx + r)} ${num(cy)} c h`,
+  ].join(' ');
+}
+
+/**
+ * Convert SVG path data (absolute M, L, H, V, Q, C and Z commands, as the
+ * exporter writes them) to PDF path operators
+ * @returns The operators, the end point and the direction of the last segment, in radians
+ */
+export function parsePath(d: string): { ops: string; end: { x: number; y: number } | null; direction: number | null } {
+  const tokens = d.match(/[MLHVQCZ]|-?\d*\.?\d+(?:e[-+]?\d+)?/gi) || [];
+  const ops: string[] = [];
+  let index = 0;
+  let command = '';
+  let current = { x: 0, y: 0 };
+  let start = { x: 0, y: 0 };
+  let direction: number | null = null;
+  const next = () => Number(tokens[index++]);
+  const turn = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+    if (from.x !== to.x || from.y !== to.y) direction = Math.atan2(to.y - from.y, to.x - from.x);
+  };
+
+  while (index < tokens.length) {
+    if (/^[a-z]$/i.test(tokens[index])) {
+      command = tokens[index++].toUpperCase();
+    }
+    switch (command) {
+      case 'M':
+        current = start = { x: next(), y: next() };
+        ops.push(`${num(current.x)} ${num(current.y)} m`);
+        command = 'L';
+        break;
+      case 'L':
+      case 'H':
+      case 'V': {
+        const point = {
+          x: command === 'V' ? current.x : next(),
+          y: command === 'H' ? current.y : next(),
+        };
+        turn(current, point);
+        ops.push(`${num(point.x)} ${num(point.y)} l`);
+        current = point;
+        break;
+      }
+      case 'Q': {
+        const control = { x: next(), y: next() };
+        const point = { x: next(), y: next() };
+        // A quadratic curve is a cubic one with both control points two thirds of the way to it
+        const c1 = { x: current.x + (2 / 3) * (control.x - current.x), y: current.y + (2 / 3) * (control.y - current.y) };
+        const c2 = { x: point.x + (2 / 3) * (control.x - point.x), y: point.y + (2 / 3) * (control.y - point.y) };
+        ops.push(`${num(c1.x)} ${num(c1.y)} ${num(c2.x)} ${num(c2.y)} ${num(point.x)} ${num(point.y)} c`);
+        turn(control, point);
+        current = point;
+        break;
+      }
+      case 'C': {
+        const c1 = { x: next(), y: next() };
+        const c2 = { x: next(), y: next() };
+        const point = { x: next(), y: next() };
+        ops.push(`${num(c1.x)} ${num(c1.y)} ${num(c2.x)} ${num(c2.y)} ${num(point.x)} ${num(point.y)} c`);
+        turn(c2, point);
+        current = point;
+        break;
+      }
+      case 'Z':
+        ops.push('h');
+        current = start;
+        command = '';
+        break;
+      default:
+        // Unsupported command: skip its arguments
+        index++;
+    }
+  }
+
+  return { ops: ops.join(' '), end: ops.length > 0 ? current : null, direction };
+}
+
+/**
+ * PDF color operands for an SVG color, or null for none
+ */
+export function parseColor(value: string | null, element?: Element): string | null {
+  const rgb = colorChannels(value, element);
+  return rgb && toOperands(rgb);
+}
+
+function toOperands(rgb: number[]): string {
+  return rgb.map((channel) => num(channel / 255)).join(' ');
+}
+
+/**
+ * Red, green and blue (0-255) of an SVG color, or null for none
+ * Named colors, hsl() and other CSS syntax are normalized by a canvas;
+ * currentColor comes from the element or its ancestors, or the page text color.
+ * Colors that cannot be read are black, as in SVG.
+ */
+function colorChannels(value: string | null, element?: Element): number[] | null {
+  if (!value || value === 'none' || value === 'transparent') return null;
+  if (value.toLowerCase() === 'currentcolor') {
+    return colorChannels(currentColor(element));
+  }
+
+  const hex = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].replace(/./g, '$&$&') : hex[1];
+    return [0, 2, 4].map((offset) => parseInt(digits.slice(offset, offset + 2), 16));
+  }
+
+  const functional = value.match(/^rgba?\(([^)]+)\)$/i);
+  if (functional) {
+    // Both rgb(1, 2, 3 / 0.5) and rgba(1,2,3,0.5), with numbers or percentages
+    const parts = functional[1].trim().split(/\s*[,/]\s*|\s+/);
+    if (parts.length > 3 && parseFloat(parts[3]) === 0) return null;
+    const rgb = parts.slice(0, 3).map((part) => (part.endsWith('%') ? parseFloat(part) * 2.55 : Number(part)));
+    return rgb.length === 3 && !rgb.some(Number.isNaN) ? rgb.map((channel) => Math.max(0, Math.min(255, channel))) : [0, 0, 0];
+  }
+
+  const normalized = normalizeColor(value);
+  return normalized && normalized !== value ? colorChannels(normalized) : [0, 0, 0];
+}
+
+/**
+ * Value of the nearest `color`, which currentColor stands for
+ */
+function currentColor(element?: Element): string {
+  for (let current = element ?? null; current; current = current.parentElement) {
+    const color = current.getAttribute('color') || (current as HTMLElement).style?.color;
+    if (color && color.toLowerCase() !== 'currentcolor') return color;
+  }
+  return getComputedStyle(document.body).color || '#000000';
+}
+
+let colorContext: CanvasRenderingContext2D | null | undefined;
+
+/**
+ * Any CSS color as the canvas reports it back: #rrggbb, or rgba() when translucent
+ */
+export function normalizeColor(value: string): string | null {
+  if (colorContext === undefined) {
+    colorContext = document.createElement('canvas').getContext('2d');
+  }
+  if (!colorContext) return null;
+  colorContext.fillStyle = '#000000';
+  colorContext.fillStyle = value;
+  return typeof colorContext.fillStyle === 'string' ? colorContext.fillStyle : null;
+}
+
+/**
+ * Hex string in WinAnsiEncoding, the encoding of the standard fonts
+ * Characters the encoding lacks are replaced with "?"; text with any of them
+ * is drawn as an image where the browser can render it.
+ */
+export function encodeText(text: string): string {
+  let hex = '';
+  for (const char of text) {
+    hex += (winAnsiCode(char) ?? 0x3f).toString(16).padStart(2, '0');
+  }
+  return `<${hex}>`;
+}
+
+function winAnsiCode(char: string): number | null {
+  const code = char.codePointAt(0)!;
+  return WIN_ANSI_EXTRAS[char] ?? (code < 0x80 || (code >= 0xa0 && code <= 0xff) ? code : null);
+}
+
+export function isWinAnsi(text: string): boolean {
+  return Array.from(text).every((char) => winAnsiCode(char) !== null);
+}
+
+/**
+ * Text string for document metadata, in UTF-16BE so any character fits
+ */
+function encodeTextString(text: string): string {
+  let hex = 'feff';
+  for (let i = 0; i < text.length; i++) {
+    hex += text.charCodeAt(i).toString(16).padStart(4, '0');
+  }
+  return `<${hex}>`;
+}
+
+/** WinAnsiEncoding codes for common characters outside Latin-1 */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+/**
+ * Number in PDF syntax: at most two decimals, no exponent
+ */
+function num(value: number): string {
+  const rounded = Math.round(value * 100) / 100;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+}
+
+/**
+ * Logo as a JPEG for the cover page, or null if it cannot be loaded
+ * (e.g. the image host does not allow cross-origin reads)
+ */
+async function loadLogo(url: string): Promise<LogoImage | null> {
+  try {
+    const image = await loadImage(url, true);
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx || canvas.width === 0 || canvas.height === 0) return null;
+    // JPEG has no transparency
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0);
+    return { width: canvas.width, height: canvas.height, jpeg: await canvasToBytes(canvas, 'image/jpeg', 0.92) };
+  } catch (error) {
+    console.warn('Skipping logo in PDF export:', error);
+    return null;
+  }
+}
+
+/**
+ * zlib-compressed bytes for a FlateDecode stream, or null where the browser cannot compress
+ */
+async function deflate(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer> | null> {
+  if (typeof CompressionStream === 'undefined') return null;
+  const compressed = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(compressed).arrayBuffer());
+}
+
+/**
+ * Minimal PDF file writer: numbered objects, a cross-reference table and a trailer
+ */
+export class PDFWriter {
+  private opacities = new Map<number, string>();
+  private textImages = new Map<string, { name: string; color: number[]; image: TextImage }>();
+
+  /**
+   * Name of an image of the text in the given color, or null where it cannot be rendered
+   * Each image is a single pixel of the color, shown through the text as its soft mask.
+   */
+  textImage(text: string, fontSize: number, font: FontName, color: number[]): { name: string; image: TextImage } | null {
+    const key = `${font} ${fontSize} ${color.join(',')} ${text}`;
+    if (!this.textImages.has(key)) {
+      const image = renderTextImage(text, fontSize, font);
+      if (!image) return null;
+      this.textImages.set(key, { name: `Text${this.textImages.size}`, color, image });
+    }
+    return this.textImages.get(key)!;
+  }
+
+  /** Name of a graphics state with the given fill and stroke opacity */
+  opacityState(opacity: number): string {
+    const key = Math.round(opacity * 1000) / 1000;
+    if (!this.opacities.has(key)) {
+      this.opacities.set(key, `GS${this.opacities.size}`);
+    }
+    return this.opacities.get(key)!;
+  }
+
+  async finish(contents: string[], title: string, logo: LogoImage | null): Promise<Blob> {
+    const objects: Array<Array<string | Uint8Array<ArrayBuffer>>> = [];
+    const add = (...parts: Array<string | Uint8Array<ArrayBuffer>>) => {
+      objects.push(parts);
+      return objects.length;
+    };
+    const stream = (dictionary: string, data: Uint8Array<ArrayBuffer>) =>
+      add(`<< ${dictionary} /Length ${data.length} >>\nstream\n`, data, '\nendstream');
+
+    const catalog = add('');
+    const pagesId = add('');
+    const info = add(`<< /Title ${encodeTextString(title)} /Producer (DocMaps) /CreationDate (D:${pdfDate(new Date())}) >>`);
+
+    const fonts = Object.entries(FONTS)
+      .map(([name, font]) => `/${name} ${add(`<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`)} 0 R`)
+      .join(' ');
+    const states = Array.from(this.opacities)
+      .map(([opacity, name]) => `/${name} << /Type /ExtGState /ca ${opacity} /CA ${opacity} >>`)
+      .join(' ');
+    const logoId = logo
+      ? stream(
+          `/Type /XObject /Subtype /Image /Width ${logo.width} /Height ${logo.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode`,
+          logo.jpeg
+        )
+      : null;
+    const xObjects = logoId ? [`/Logo ${logoId} 0 R`] : [];
+    for (const { name, color, image } of this.textImages.values()) {
+      const compressed = await deflate(image.alpha);
+      const maskId = stream(
+        `/Type /XObject /Subtype /Image /Width ${image.columns} /Height ${image.rows} /ColorSpace /DeviceGray /BitsPerComponent 8${compressed ? ' /Filter /FlateDecode' : ''}`,
+        compressed ?? image.alpha
+      );
+      const imageId = stream(
+        `/Type /XObject /Subtype /Image /Width 1 /Height 1 /ColorSpace /DeviceRGB /BitsPerComponent 8 /SMask ${maskId} 0 R`,
+        Uint8Array.from(color.map(Math.round))
+      );
+      xObjects.push(`/${name} ${imageId} 0 R`);
+    }
+    const resources = add(
+      `<< /Font << ${fonts} >> /ExtGState << ${states} >>${xObjects.length > 0 ? ` /XObject << ${xObjects.join(' ')} >>` : ''} >>`
+    );
+
+    const pageIds = contents.map((content) => {
+      const contentId = stream('', latin1(content));
+      return add(
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources ${resources} 0 R /Contents ${contentId} 0 R >>`
+      );
+    });
+
+    objects[catalog - 1] = [`<< /Type /Catalog /Pages ${pagesId} 0 R >>`];
+    objects[pagesId - 1] = [`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`];
+
+    const chunks: Array<Uint8Array<ArrayBuffer>> = [];
+    let offset = 0;
+    const write = (part: string | Uint8Array<ArrayBuffer>) => {
+      const bytes = typeof part === 'string' ? latin1(part) : part;
+      chunks.push(bytes);
+      offset += bytes.length;
+    };
+
+    // The binary comment marks the file as binary for transfer tools
+    write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+    const offsets = objects.map((parts, index) => {
+      const start = offset;
+      write(`${index + 1} 0 obj\n`);
+      parts.forEach(write);
+      write('\nendobj\n');
+      return start;
+    });
+
+    const xref = offset;
+    write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+    offsets.forEach((start) => write(`${String(start).padStart(10, '0')} 00000 n \n`));
+    write(`trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+    return new Blob(chunks, { type: 'application/pdf' });
+  }
+}
+
+function latin1(text: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+function pdfDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
@@ -0,0 +1,57 @@
+// Unit tests for fitting PNG exports to the browser's canvas
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { applyLayout } from '../layout';
+import { hierarchy, node } from '../test-utils';
+import { getMapSize } from './svg';
+import { MAX_CANVAS_PIXELS, MAX_IOS_CANVAS_PIXELS, fitPNGScale } from './png';
+
+// A product with 8 features of 9 components each: 81 nodes
+const features = Array.from({ length: 8 }, (_, i) => node(`feature-${i}`));
+const components = features.flatMap((feature) =>
+  Array.from({ length: 9 }, (_, j) => node(`${feature.id}-component-${j}`, 'component'))
+);
+const nodes = [node('product', 'product'), ...features, ...components];
+const edges = [
+  ...features.map((feature) => hierarchy('product', feature.id)),
+  ...components.map((component) => hierarchy(component.id.replace(/-component-\d+$/, ''), component.id)),
+];
+
+/** Canvas area of a map at a scale, as the export rounds it */
+const area = ({ width, height }: { width: number; height: number }, scale: number) =>
+  Math.round(width * scale) * Math.round(height * scale);
+
+describe('fitPNGScale', () => {
+  beforeAll(() => {
+    // No canvas: text is measured by its length
+    vi.stubGlobal('document', { createElement: () => ({ getContext: () => null }) });
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it.each(['radial', 'force'] as const)('should export a large %s layout at every scale the viewer offers', (engine) => {
+    const size = getMapSize(applyLayout(nodes, edges, { engine }));
+    expect(area(size, 1)).toBeGreaterThan(MAX_IOS_CANVAS_PIXELS);
+
+    // Desktop browsers fit it at 1×, and at a lower scale than asked for above that
+    expect(fitPNGScale(size.width, size.height, 1, MAX_CANVAS_PIXELS)).toBe(1);
+    for (const scale of [1, 2, 4]) {
+      const desktop = fitPNGScale(size.width, size.height, scale, MAX_CANVAS_PIXELS);
+      const iOS = fitPNGScale(size.width, size.height, scale, MAX_IOS_CANVAS_PIXELS);
+
+      expect(area(size, desktop)).toBeLessThanOrEqual(MAX_CANVAS_PIXELS);
+      expect(area(size, iOS)).toBeLessThanOrEqual(MAX_IOS_CANVAS_PIXELS);
+      expect(iOS).toBeGreaterThan(0.5);
+    }
+  });
+
+  it('should keep the scale asked for when the map fits', () => {
+    expect(fitPNGScale(1200, 800, 4)).toBe(4);
+  });
+
+  it('should keep within the longest canvas side', () => {
+    expect(Math.round(40000 * fitPNGScale(40000, 300, 2))).toBeLessThanOrEqual(32767);
+  });
+});
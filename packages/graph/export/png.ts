@@ -0,0 +1,140 @@
+/**
+ * PNG Exporter for DocMaps
+ *
+ * Rasterizes the SVG export at a chosen scale, and records the matching
+ * print resolution in the file so slide and document editors place it at
+ * the intended size.
+ */
+
+import type { Node, Edge } from 'reactflow';
+import { createMapSVG, serializeSVG } from './svg';
+import type { ExportOptions } from './svg';
+import { canvasToBytes, downloadBlob, exportFileName, loadImage } from './shared';
+
+export interface PNGExportOptions extends ExportOptions {
+  /** Output pixels per map pixel (default: 2, or dpi / 96 when a dpi is given) */
+  scale?: number;
+  /** Print resolution stored in the file (default: 96 × scale) */
+  dpi?: number;
+}
+
+/** Resolution of one CSS pixel */
+const CSS_DPI = 96;
+
+const DEFAULT_PNG_SCALE = 2;
+
+export interface PNGExportResult {
+  /** Scale used: below the one asked for when the map is too large for the browser's canvas */
+  scale: number;
+}
+
+/** Largest canvas area desktop and Android browsers allocate; Firefox is the lowest, at about 11180 × 11180 */
+export const MAX_CANVAS_PIXELS = 11180 * 11180;
+
+/** Largest canvas area Safari on iOS and iPadOS allocates */
+export const MAX_IOS_CANVAS_PIXELS = 4096 * 4096;
+
+/** Longest canvas side Chrome and Firefox allocate */
+const MAX_CANVAS_SIDE = 32767;
+
+/**
+ * Export nodes and edges to PNG
+ * Maps too large for the browser's canvas at the scale asked for are exported at the largest scale that fits.
+ */
+export async function exportToPNG(
+  nodes: Node[],
+  edges: Edge[],
+  options: PNGExportOptions
+): Promise<PNGExportResult> {
+  const svg = createMapSVG(nodes, edges, options);
+  const requested = options.scale ?? (options.dpi ? options.dpi / CSS_DPI : DEFAULT_PNG_SCALE);
+  const mapWidth = Number(svg.getAttribute('width'));
+  const mapHeight = Number(svg.getAttribute('height'));
+  const scale = fitPNGScale(mapWidth, mapHeight, requested);
+  const width = Math.round(mapWidth * scale);
+  const height = Math.round(mapHeight * scale);
+
+  const image = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(serializeSVG(svg))}`);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas is not available');
+  }
+  ctx.drawImage(image, 0, 0, width, height);
+
+  // A smaller scale keeps the printed size, at a lower resolution
+  const dpi = ((options.dpi ?? CSS_DPI * requested) * scale) / requested;
+  const png = setPNGResolution(await canvasToBytes(canvas, 'image/png'), dpi);
+  downloadBlob(new Blob([png], { type: 'image/png' }), exportFileName(options.title, 'png'));
+  return { scale };
+}
+
+/**
+ * Largest scale, up to the one asked for, at which a map fits the browser's canvas
+ * @param width - Map width at 1×
+ * @param height - Map height at 1×
+ * @param scale - Scale asked for
+ * @param maxPixels - Largest canvas area (default: the current browser's)
+ * @returns The scale asked for, or a smaller one rounded down to hundredths
+ */
+export function fitPNGScale(width: number, height: number, scale: number, maxPixels: number = canvasPixelLimit()): number {
+  const fit = Math.min(Math.sqrt(maxPixels / (width * height)), MAX_CANVAS_SIDE / Math.max(width, height));
+  // Rounding down keeps the rounded pixel size within the limit
+  return fit >= scale ? scale : Math.floor(fit * 100) / 100;
+}
+
+/**
+ * Canvas area limit of the current browser
+ */
+function canvasPixelLimit(): number {
+  if (typeof navigator === 'undefined') return MAX_CANVAS_PIXELS;
+  // iPadOS reports itself as a Mac, one with a touch screen
+  const iOS = /iPad|iPhone|iPod/.test(navigator.userAgent) || (/Macintosh/.test(navigator.userAgent) && navigator.maxTouchPoints > 1);
+  return iOS ? MAX_IOS_CANVAS_PIXELS : MAX_CANVAS_PIXELS;
+}
+
+/**
+ * Add a pHYs chunk (physical pixel size) right after the IHDR chunk
+ */
+function setPNGResolution(png: Uint8Array, dpi: number): Uint8Array<ArrayBuffer> {
+  // 8-byte signature, then IHDR: 4 length + 4 type + 13 data + 4 CRC
+  const ihdrEnd = 33;
+  const pixelsPerMeter = Math.round(dpi / 0.0254);
+
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pixelsPerMeter);
+  view.setUint32(12, pixelsPerMeter);
+  chunk[16] = 1; // unit: meter
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  const result = new Uint8Array(png.length + chunk.length);
+  result.set(png.subarray(0, ihdrEnd), 0);
+  result.set(chunk, ihdrEnd);
+  result.set(png.subarray(ihdrEnd), ihdrEnd + chunk.length);
+  return result;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
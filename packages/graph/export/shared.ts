@@ -0,0 +1,60 @@
+/**
+ * Helpers shared by the SVG, PNG and PDF exporters
+ */
+
+export const SYSTEM_FONT = 'system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+
+/**
+ * Measure text width using canvas
+ */
+export function measureText(text: string, fontSize: number, fontWeight: string, fontFamily = SYSTEM_FONT): number {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return text.length * fontSize * 0.6;
+  ctx.font = `${fontWeight} ${fontSize}px ${fontFamily}`;
+  return ctx.measureText(text).width;
+}
+
+/**
+ * File name for an export, e.g. "Stripe API" -> "stripe-api.pdf"
+ */
+export function exportFileName(title: string, extension: string): string {
+  return `${title.replace(/[^a-z0-9]/gi, '-').toLowerCase()}.${extension}`;
+}
+
+/**
+ * Save a file through the browser
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Load an image, e.g. a rendered SVG or a map logo
+ * @param crossOrigin - Request the image with CORS so a canvas it is drawn on stays readable
+ */
+export function loadImage(src: string, crossOrigin = false): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    if (crossOrigin) image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load image'));
+    image.src = src;
+  });
+}
+
+/**
+ * Encode a canvas as an image file
+ */
+export async function canvasToBytes(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Uint8Array<ArrayBuffer>> {
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+  if (!blob) {
+    throw new Error(`Failed to encode ${type}`);
+  }
+  return new Uint8Array(await blob.arrayBuffer());
+}
@@ -6,9 +6,12 @@
  * edge labels, and accurate arrow markers.
  */
 
-import type { Node, Edge } from 'reactflow';
+import type { Node, Edge, XYPosition } from 'reactflow';
+import { getEdgeEndpoints, getRoundedPath, routeEdges } from '../edge-routing';
+import type { EdgeRouteRequest, RouteRect } from '../edge-routing';
+import { downloadBlob, exportFileName, measureText } from './shared';
 
-interface ExportOptions {
+export interface ExportOptions {
   title: string;
   backgroundColor?: string;
   padding?: number;
@@ -74,17 +77,6 @@ const STATUS_COLORS = {
   deprecated: '#ef4444',
 } as const;
 
-/**
- * Measure text width using canvas
- */
-function measureText(text: string, fontSize: number, fontWeight: string): number {
-  const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d');
-  if (!ctx) return text.length * fontSize * 0.6;
-  ctx.font = `${fontWeight} ${fontSize}px system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif`;
-  return ctx.measureText(text).width;
-}
-
 /**
  * Calculate node dimensions based on type and content
  */
@@ -405,37 +397,22 @@ function drawStatusIndicator(
 
 /**
  * Draw an edge with optional label
+ * @param route - Corner points of the routed edge, in SVG coordinates
  */
 function drawEdge(
   svgNS: string,
   edge: Edge,
-  sourceNode: Node,
-  targetNode: Node,
-  offsetX: number,
-  offsetY: number,
-  nodeDimensions: Map<string, { width: number; height: number }>
+  route: XYPosition[]
 ): Element {
   const g = document.createElementNS(svgNS, 'g');
   
-  const sourceDims = nodeDimensions.get(sourceNode.id)!;
-  const targetDims = nodeDimensions.get(targetNode.id)!;
-  
-  // Calculate connection points (bottom center of source, top center of target)
-  const sx = sourceNode.position.x + offsetX + sourceDims.width / 2;
-  const sy = sourceNode.position.y + offsetY + sourceDims.height;
-  const tx = targetNode.position.x + offsetX + targetDims.width / 2;
-  const ty = targetNode.position.y + offsetY;
-  
   const edgeType = (edge.data?.edgeType || 'hierarchy') as keyof typeof EDGE_CONFIG;
   const config = EDGE_CONFIG[edgeType] || EDGE_CONFIG.hierarchy;
   
-  // Calculate bezier curve control points
-  const dy = ty - sy;
-  const controlOffset = Math.max(40, Math.abs(dy) * 0.4);
-  
-  // Create smooth bezier path
+  // Same orthogonal route as on the canvas
+  const [d, midX, midY] = getRoundedPath(route);
   const path = document.createElementNS(svgNS, 'path');
-  path.setAttribute('d', `M ${sx} ${sy} C ${sx} ${sy + controlOffset}, ${tx} ${ty - controlOffset}, ${tx} ${ty}`);
+  path.setAttribute('d', d);
   path.setAttribute('fill', 'none');
   path.setAttribute('stroke', config.color);
   path.setAttribute('stroke-width', String(config.strokeWidth));
@@ -448,10 +425,6 @@ function drawEdge(
   // Draw edge label if present
   const edgeLabel = edge.data?.label || edge.label;
   if (edgeLabel) {
-    // Calculate label position (middle of the curve)
-    const midX = (sx + tx) / 2;
-    const midY = (sy + ty) / 2;
-    
     // Background for label
     const labelText = String(edgeLabel);
     const labelWidth = measureText(labelText, 11, '500') + 12;
@@ -485,27 +458,54 @@ function drawEdge(
 }
 
 /**
- * Export nodes and edges to SVG
+ * Route the edges around the nodes as they are drawn in the export
  */
-export function exportToSVG(
+function routeExportEdges(
   nodes: Node[],
   edges: Edge[],
-  options: ExportOptions
-): void {
-  if (nodes.length === 0) {
-    throw new Error('No nodes to export');
-  }
-  
-  const { title, backgroundColor = '#f8fafc', padding = 80 } = options;
-  const svgNS = 'http://www.w3.org/2000/svg';
-  
-  // Pre-calculate all node dimensions
+  nodeDimensions: Map<string, { width: number; height: number }>,
+  offsetX: number,
+  offsetY: number
+): Map<string, XYPosition[]> {
+  const rects = new Map<string, RouteRect>();
+  nodes.forEach(node => {
+    const dims = nodeDimensions.get(node.id)!;
+    rects.set(node.id, { id: node.id, x: node.position.x + offsetX, y: node.position.y + offsetY, ...dims });
+  });
+
+  const requests: EdgeRouteRequest[] = [];
+  edges.forEach(edge => {
+    const source = rects.get(edge.source);
+    const target = rects.get(edge.target);
+    if (source && target) {
+      requests.push({ id: edge.id, ...getEdgeEndpoints(edge, source, target) });
+    }
+  });
+
+  const obstacles = nodes.filter(node => node.type !== 'group').map(node => rects.get(node.id)!);
+  return routeEdges(obstacles, requests);
+}
+
+/** Space around the nodes, in map pixels */
+const DEFAULT_PADDING = 80;
+
+/**
+ * Size of the exported drawing of a map, in map pixels
+ */
+export function getMapSize(nodes: Node[], padding: number = DEFAULT_PADDING): { width: number; height: number } {
+  const { width, height } = measureMap(nodes, padding);
+  return { width, height };
+}
+
+/**
+ * Node dimensions, and the size and offset that fit all nodes with padding around them
+ */
+function measureMap(nodes: Node[], padding: number) {
   const nodeDimensions = new Map<string, { width: number; height: number }>();
   nodes.forEach(node => {
     nodeDimensions.set(node.id, getNodeDimensions(node));
   });
-  
-  // Calculate bounds
+
   let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
   nodes.forEach(node => {
     const dims = nodeDimensions.get(node.id)!;
@@ -514,14 +514,36 @@ export function exportToSVG(
     maxX = Math.max(maxX, node.position.x + dims.width);
     maxY = Math.max(maxY, node.position.y + dims.height);
   });
+
+  return {
+    nodeDimensions,
+    width: maxX - minX + padding * 2,
+    height: maxY - minY + padding * 2,
+    offsetX: -minX + padding,
+    offsetY: -minY + padding,
+  };
+}
+
+/**
+ * Draw a map as an SVG document, sized to fit its nodes
+ * The SVG, PNG and PDF exports all start from this document.
+ */
+export function createMapSVG(
+  nodes: Node[],
+  edges: Edge[],
+  options: Omit<ExportOptions, 'title'> = {}
+): SVGSVGElement {
+  if (nodes.length === 0) {
+    throw new Error('No nodes to export');
+  }
   
-  const svgWidth = maxX - minX + padding * 2;
-  const svgHeight = maxY - minY + padding * 2;
-  const offsetX = -minX + padding;
-  const offsetY = -minY + padding;
+  const { backgroundColor = '#f8fafc', padding = DEFAULT_PADDING } = options;
+  const svgNS = 'http://www.w3.org/2000/svg';
+  
+  const { nodeDimensions, width: svgWidth, height: svgHeight, offsetX, offsetY } = measureMap(nodes, padding);
   
   // Create SVG element
-  const svg = document.createElementNS(svgNS, 'svg');
+  const svg = document.createElementNS(svgNS, 'svg') as SVGSVGElement;
   svg.setAttribute('xmlns', svgNS);
   svg.setAttribute('width', String(svgWidth));
   svg.setAttribute('height', String(svgHeight));
@@ -540,11 +562,11 @@ export function exportToSVG(
   // Draw edges first (behind nodes)
   const edgesGroup = document.createElementNS(svgNS, 'g');
   edgesGroup.setAttribute('class', 'edges');
+  const routes = routeExportEdges(nodes, edges, nodeDimensions, offsetX, offsetY);
   edges.forEach(edge => {
-    const sourceNode = nodes.find(n => n.id === edge.source);
-    const targetNode = nodes.find(n => n.id === edge.target);
-    if (sourceNode && targetNode) {
-      edgesGroup.appendChild(drawEdge(svgNS, edge, sourceNode, targetNode, offsetX, offsetY, nodeDimensions));
+    const route = routes.get(edge.id);
+    if (route) {
+      edgesGroup.appendChild(drawEdge(svgNS, edge, route));
     }
   });
   svg.appendChild(edgesGroup);
@@ -582,16 +604,26 @@ export function exportToSVG(
   });
   svg.appendChild(nodesGroup);
   
-  // Serialize and download
+  return svg;
+}
+
+/**
+ * Serialize an SVG document to a standalone file
+ */
+export function serializeSVG(svg: SVGSVGElement): string {
   const serializer = new XMLSerializer();
-  let svgString = serializer.serializeToString(svg);
-  svgString = '<?xml version="1.0" encoding="UTF-8"?>\n' + svgString;
-  
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' + serializer.serializeToString(svg);
+}
+
+/**
+ * Export nodes and edges to SVG
+ */
+export function exportToSVG(
+  nodes: Node[],
+  edges: Edge[],
+  options: ExportOptions
+): void {
+  const svgString = serializeSVG(createMapSVG(nodes, edges, options));
   const blob = new Blob([svgString], { type: 'image/svg+xml;charset=utf-8' });
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement('a');
-  link.download = `${title.replace(/[^a-z0-9]/gi, '-').toLowerCase()}.svg`;
-  link.href = url;
-  link.click();
-  URL.revokeObjectURL(url);
+  downloadBlob(blob, exportFileName(options.title, 'svg'));
 }
@@ -127,6 +127,7 @@ export function removeFromGroup(
 
 /**
  * Ungroup all nodes - removes the group
+ * Inside a nested group, its children move up to the parent group
  */
 export function ungroupAll(nodes: Node[], groupId: string): Node[] {
   const groupNode = nodes.find(n => n.id === groupId && n.type === 'group');
@@ -134,38 +135,38 @@ export function ungroupAll(nodes: Node[], groupId: string): Node[] {
     throw new Error('Group node not found');
   }
 
-  // Simply remove the group node
-  return nodes.filter(n => n.id !== groupId);
+  const childNodeIds: string[] = groupNode.data.childNodeIds || [];
+
+  return nodes
+    .filter(n => n.id !== groupId)
+    .map(node => {
+      const parentChildIds: string[] = node.type === 'group' ? node.data.childNodeIds || [] : [];
+      if (!parentChildIds.includes(groupId)) return node;
+
+      const newChildIds = [...new Set(parentChildIds.flatMap((id) => (id === groupId ? childNodeIds : [id])))];
+      return {
+        ...node,
+        data: {
+          ...node.data,
+          childNodeIds: newChildIds,
+          childCount: newChildIds.length,
+        },
+      };
+    });
 }
 
 /**
  * Validate group operations
+ * Groups may contain other groups, but never themselves (directly or through
+ * a nested group), and a node belongs to at most one group
+ * @param groupId - Group the nodes are added to (for 'add')
  */
 export function validateGroupOperation(
   nodes: Node[],
   operation: 'create' | 'add' | 'remove',
-  nodeIds: string[]
+  nodeIds: string[],
+  groupId?: string
 ): { isValid: boolean; reason?: string } {
-  // Prevent nested groups
-  const hasGroupNode = nodeIds.some(id => {
-    const node = nodes.find(n => n.id === id);
-    return node?.type === 'group';
-  });
-
-  if (hasGroupNode && operation === 'create') {
-    return {
-      isValid: false,
-      reason: 'Cannot create a group containing another group',
-    };
-  }
-
-  if (hasGroupNode && operation === 'add') {
-    return {
-      isValid: false,
-      reason: 'Cannot add a group to another group',
-    };
-  }
-
   // Check if nodes exist
   const allNodesExist = nodeIds.every(id => nodes.find(n => n.id === id));
   if (!allNodesExist) {
@@ -175,11 +176,31 @@ export function validateGroupOperation(
     };
   }
 
+  if (operation === 'create') {
+    const parentIds = new Set(nodeIds.map(id => getParentGroup(nodes, id)?.id));
+    if (parentIds.size > 1) {
+      return {
+        isValid: false,
+        reason: 'Nodes from different groups cannot be grouped together',
+      };
+    }
+  }
+
+  if (operation === 'add' && groupId) {
+    const containsTarget = nodeIds.some(id => id === groupId || getGroupDescendantIds(nodes, id).includes(groupId));
+    if (containsTarget) {
+      return {
+        isValid: false,
+        reason: 'Cannot add a group to itself or to a group inside it',
+      };
+    }
+  }
+
   return { isValid: true };
 }
 
 /**
- * Get all child nodes of a group (recursively if nested groups are supported in future)
+ * Get the direct child nodes of a group
  */
 export function getGroupChildren(nodes: Node[], groupId: string): Node[] {
   const groupNode = nodes.find(n => n.id === groupId && n.type === 'group');
@@ -189,6 +210,23 @@ export function getGroupChildren(nodes: Node[], groupId: string): Node[] {
   return nodes.filter(n => childNodeIds.includes(n.id));
 }
 
+/**
+ * Get the IDs of every node inside a group, including the contents of nested groups
+ */
+export function getGroupDescendantIds(nodes: Node[], groupId: string): string[] {
+  const descendants: string[] = [];
+  const visit = (id: string) => {
+    for (const child of getGroupChildren(nodes, id)) {
+      // Guards against groups that contain each other
+      if (child.id === groupId || descendants.includes(child.id)) continue;
+      descendants.push(child.id);
+      visit(child.id);
+    }
+  };
+  visit(groupId);
+  return descendants;
+}
+
 /**
  * Check if a node is part of any group
  */
@@ -227,7 +265,8 @@ export function moveGroupWithChildren(
   const groupNode = nodes.find(n => n.id === groupId && n.type === 'group');
   if (!groupNode) return nodes;
 
-  const childNodeIds = groupNode.data.childNodeIds || [];
+  // Nested groups move with everything inside them
+  const childNodeIds = getGroupDescendantIds(nodes, groupId);
 
   return nodes.map(node => {
     if (node.id === groupId) {
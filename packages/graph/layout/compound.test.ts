@@ -0,0 +1,126 @@
+// Unit tests for compound (grouped) layout
+
+import { describe, it, expect } from 'vitest';
+import type { Node } from 'reactflow';
+import { applyLayout } from './index';
+import { getGroupParents, GROUP_PADDING } from './compound';
+import { hierarchy, laidOutBoxes, node, overlappingPairs } from '../test-utils';
+import type { Box } from '../test-utils';
+
+const group = (id: string, childNodeIds: string[], extra: Partial<Node> = {}): Node =>
+  node(id, 'group', { data: { label: id, childNodeIds }, ...extra });
+
+/** Box of a laid-out node; groups are sized through their style */
+const box = (result: Node[], id: string): Box => laidOutBoxes(result).get(id)!;
+
+/** Whether `outer` contains `inner` with at least `padding` to spare on every side */
+function contains(outer: Box, inner: Box, padding: number = 0): boolean {
+  const epsilon = 1e-6;
+  return (
+    inner.x >= outer.x + padding - epsilon &&
+    inner.y >= outer.y + padding - epsilon &&
+    inner.x + inner.width <= outer.x + outer.width - padding + epsilon &&
+    inner.y + inner.height <= outer.y + outer.height - padding + epsilon
+  );
+}
+
+const nodes = [
+  node('product', 'product'),
+  group('payments', ['charges', 'refunds', 'disputes']),
+  node('charges', 'component'),
+  node('refunds', 'component'),
+  node('disputes', 'component'),
+  group('platform', ['auth', 'storage']),
+  node('auth', 'component'),
+  group('storage', ['buckets', 'objects']),
+  node('buckets', 'component'),
+  node('objects', 'component'),
+];
+
+const edges = [
+  hierarchy('product', 'payments'),
+  hierarchy('product', 'platform'),
+  hierarchy('payments', 'charges'),
+  hierarchy('payments', 'refunds'),
+  hierarchy('charges', 'disputes'),
+  hierarchy('platform', 'auth'),
+  hierarchy('platform', 'storage'),
+  hierarchy('storage', 'buckets'),
+  hierarchy('storage', 'objects'),
+];
+
+describe('getGroupParents', () => {
+  it('should map each child to the group that lists it', () => {
+    const parents = getGroupParents(nodes);
+
+    expect(parents.get('charges')).toBe('payments');
+    expect(parents.get('storage')).toBe('platform');
+    expect(parents.get('objects')).toBe('storage');
+    expect(parents.has('product')).toBe(false);
+  });
+
+  it('should give a node listed by two groups to the first one', () => {
+    const parents = getGroupParents([group('a', ['shared']), group('b', ['shared']), node('shared')]);
+
+    expect(parents.get('shared')).toBe('a');
+  });
+
+  it('should ignore memberships that would make a group contain itself', () => {
+    const parents = getGroupParents([group('a', ['a', 'b']), group('b', ['a']), node('missing-child')]);
+
+    expect(parents.get('b')).toBe('a');
+    expect(parents.has('a')).toBe(false);
+  });
+});
+
+describe('applyLayout with groups', () => {
+  it.each(['dagre', 'radial', 'mind-map', 'force', 'grid'] as const)(
+    'should size each group to contain its children (%s)',
+    (engine) => {
+      const result = applyLayout(nodes, edges, { engine });
+
+      for (const [childId, groupId] of getGroupParents(nodes)) {
+        const inside = contains(box(result, groupId), box(result, childId), GROUP_PADDING);
+        expect(inside, `${groupId} contains ${childId}`).toBe(true);
+      }
+    }
+  );
+
+  it.each(['dagre', 'radial', 'mind-map', 'force', 'grid'] as const)(
+    'should keep top-level groups and nodes apart (%s)',
+    (engine) => {
+      const result = applyLayout(nodes, edges, { engine });
+      const topLevel = result.filter((n) => ['product', 'payments', 'platform'].includes(n.id));
+
+      expect(overlappingPairs(laidOutBoxes(topLevel))).toEqual([]);
+    }
+  );
+
+  it('should scale the group padding with the spacing', () => {
+    const result = applyLayout(nodes, edges, { spacing: 2 });
+
+    expect(contains(box(result, 'payments'), box(result, 'charges'), GROUP_PADDING * 2)).toBe(true);
+  });
+
+  it('should keep the children of a fixed group in place', () => {
+    const moved: Record<string, { x: number; y: number }> = {
+      charges: { x: 1200, y: 800 },
+      refunds: { x: 1500, y: 800 },
+    };
+    const positioned = nodes.map((n) => (moved[n.id] ? { ...n, position: moved[n.id] } : n));
+
+    const result = applyLayout(positioned, edges, { fixed: { payments: { x: 1100, y: 700 } } });
+
+    expect(result.find((n) => n.id === 'charges')!.position).toEqual({ x: 1200, y: 800 });
+    expect(result.find((n) => n.id === 'refunds')!.position).toEqual({ x: 1500, y: 800 });
+    expect(contains(box(result, 'payments'), box(result, 'charges'), GROUP_PADDING)).toBe(true);
+  });
+
+  it('should grow a group around a fixed child', () => {
+    const result = applyLayout(nodes, edges, { fixed: { buckets: { x: 2000, y: 2000 } } });
+
+    expect(result.find((n) => n.id === 'buckets')!.position).toEqual({ x: 2000, y: 2000 });
+    expect(contains(box(result, 'storage'), box(result, 'buckets'), GROUP_PADDING)).toBe(true);
+    expect(contains(box(result, 'platform'), box(result, 'storage'), GROUP_PADDING)).toBe(true);
+  });
+});
@@ -0,0 +1,168 @@
+import type { Node, Edge } from 'reactflow';
+import { nodeSize } from './tree';
+import type { Point, Size } from './tree';
+import type { FixedPositions } from './incremental';
+
+/**
+ * Compound layout for maps with groups: each group's children are laid out
+ * as a cluster first, the group is sized to fit them, and then the group is
+ * laid out as a single node among its siblings. Nested groups repeat this
+ * from the innermost group outwards.
+ */
+
+/** Space between a group's border and its children, before spacing is applied */
+export const GROUP_PADDING = 40;
+
+/**
+ * Lays out the nodes of one level (top-level nodes or the children of one group)
+ * @param nodes - Nodes of the level; groups carry the size of their laid-out contents
+ * @param edges - Edges between those nodes
+ * @param fixed - Nodes of the level that keep their top-left position
+ * @returns Node centers
+ */
+export type LevelLayout = (nodes: Node[], edges: Edge[], fixed: FixedPositions) => Map<string, Point>;
+
+export interface CompoundLayout {
+  /** Centers of every node, groups included */
+  centers: Map<string, Point>;
+  /** New size of each group that has children */
+  groupSizes: Map<string, Size>;
+}
+
+interface Cluster {
+  centers: Map<string, Point>;
+  /** Bounding box of the cluster, in the same coordinates as the centers */
+  bounds: { minX: number; minY: number; maxX: number; maxY: number };
+  /** The cluster holds fixed nodes, so its coordinates are the map's own */
+  anchored: boolean;
+}
+
+/**
+ * Direct parent group of each grouped node, from the groups' `childNodeIds`
+ * A node listed by several groups belongs to the first; memberships that
+ * would make a group contain itself are ignored.
+ */
+export function getGroupParents(nodes: Node[]): Map<string, string> {
+  const ids = new Set(nodes.map((node) => node.id));
+  const parents = new Map<string, string>();
+  for (const group of nodes) {
+    if (group.type !== 'group') continue;
+    for (const childId of (group.data?.childNodeIds || []) as string[]) {
+      if (!ids.has(childId) || childId === group.id || parents.has(childId)) continue;
+      // Walk up from the group; reaching the child would close a loop
+      let ancestor: string | undefined = group.id;
+      while (ancestor && ancestor !== childId) ancestor = parents.get(ancestor);
+      if (!ancestor) parents.set(childId, group.id);
+    }
+  }
+  return parents;
+}
+
+/**
+ * Lay out a map level by level, so groups contain their children
+ * @param layoutLevel - Lays out the nodes of one level
+ * @param fixed - Nodes that keep their top-left position; a fixed group keeps its children in place too
+ * @param padding - Space between a group's border and its children
+ */
+export function compoundLayout(
+  nodes: Node[],
+  edges: Edge[],
+  layoutLevel: LevelLayout,
+  fixed: FixedPositions,
+  padding: number
+): CompoundLayout {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const parents = getGroupParents(nodes);
+  const children = new Map<string, string[]>();
+  const topLevel: string[] = [];
+  for (const node of nodes) {
+    const parent = parents.get(node.id);
+    if (parent) {
+      children.set(parent, [...(children.get(parent) || []), node.id]);
+    } else {
+      topLevel.push(node.id);
+    }
+  }
+
+  // Fixing a group fixes everything inside it
+  const allFixed: FixedPositions = { ...fixed };
+  const fixDescendants = (id: string) => {
+    for (const child of children.get(id) || []) {
+      allFixed[child] = allFixed[child] || { ...byId.get(child)!.position };
+      fixDescendants(child);
+    }
+  };
+  Object.keys(fixed).forEach(fixDescendants);
+
+  // Level member that contains each node, for lifting edges to the level
+  const memberOf = (id: string, members: Set<string>): string | undefined => {
+    let current: string | undefined = id;
+    while (current && !members.has(current)) current = parents.get(current);
+    return current;
+  };
+
+  const groupSizes = new Map<string, Size>();
+
+  const layoutCluster = (memberIds: string[]): Cluster => {
+    const members = new Set(memberIds);
+    const inner = new Map<string, Cluster>();
+    const levelNodes: Node[] = [];
+    const levelFixed: FixedPositions = {};
+
+    for (const id of memberIds) {
+      const node = byId.get(id)!;
+      const kids = children.get(id);
+      if (!kids) {
+        levelNodes.push(node);
+        if (allFixed[id]) levelFixed[id] = allFixed[id];
+        continue;
+      }
+
+      const cluster = layoutCluster(kids);
+      const { minX, minY, maxX, maxY } = cluster.bounds;
+      const size = { width: maxX - minX + padding * 2, height: maxY - minY + padding * 2 };
+      inner.set(id, cluster);
+      groupSizes.set(id, size);
+      levelNodes.push({ ...node, ...size });
+      if (cluster.anchored) {
+        // Stays around its fixed children, wherever that puts it
+        levelFixed[id] = { x: minX - padding, y: minY - padding };
+      }
+    }
+
+    const levelEdges: Edge[] = [];
+    for (const edge of edges) {
+      const source = memberOf(edge.source, members);
+      const target = memberOf(edge.target, members);
+      if (!source || !target || source === target) continue;
+      levelEdges.push({ ...edge, source, target });
+    }
+
+    const centers = layoutLevel(levelNodes, levelEdges, levelFixed);
+
+    // Move each group's contents into the box the level gave the group
+    for (const [id, cluster] of inner) {
+      const center = centers.get(id)!;
+      const size = groupSizes.get(id)!;
+      const dx = center.x - size.width / 2 + padding - cluster.bounds.minX;
+      const dy = center.y - size.height / 2 + padding - cluster.bounds.minY;
+      for (const [childId, childCenter] of cluster.centers) {
+        centers.set(childId, { x: childCenter.x + dx, y: childCenter.y + dy });
+      }
+    }
+
+    const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    for (const node of levelNodes) {
+      const center = centers.get(node.id)!;
+      const { width, height } = nodeSize(node);
+      bounds.minX = Math.min(bounds.minX, center.x - width / 2);
+      bounds.minY = Math.min(bounds.minY, center.y - height / 2);
+      bounds.maxX = Math.max(bounds.maxX, center.x + width / 2);
+      bounds.maxY = Math.max(bounds.maxY, center.y + height / 2);
+    }
+
+    return { centers, bounds, anchored: Object.keys(levelFixed).length > 0 };
+  };
+
+  return { centers: layoutCluster(topLevel).centers, groupSizes };
+}
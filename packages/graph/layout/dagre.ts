@@ -0,0 +1,38 @@
+import dagre from 'dagre';
+import type { Node, Edge } from 'reactflow';
+import { nodeSize } from './tree';
+import type { Point } from './tree';
+
+/** Dagre's default gap between nodes and between ranks, before spacing is applied */
+const DAGRE_GAP = 50;
+
+/**
+ * Compute node centers for a layered (dagre) layout
+ * @param direction - TB = top-bottom, LR = left-right
+ * @param spacing - Scale for the gaps between nodes and ranks
+ */
+export function dagreLayout(nodes: Node[], edges: Edge[], direction: 'TB' | 'LR', spacing: number): Map<string, Point> {
+  const dagreGraph = new dagre.graphlib.Graph();
+  dagreGraph.setDefaultEdgeLabel(() => ({}));
+
+  // Set graph direction (TB = top-bottom, LR = left-right)
+  dagreGraph.setGraph({ rankdir: direction, nodesep: DAGRE_GAP * spacing, ranksep: DAGRE_GAP * spacing });
+
+  // Add nodes to the graph with their dimensions
+  nodes.forEach((node) => {
+    dagreGraph.setNode(node.id, nodeSize(node));
+  });
+
+  // Add edges to the graph
+  edges.forEach((edge) => {
+    dagreGraph.setEdge(edge.source, edge.target);
+  });
+
+  // Run the layout algorithm
+  dagre.layout(dagreGraph);
+
+  return new Map(nodes.map((node) => {
+    const { x, y } = dagreGraph.node(node.id);
+    return [node.id, { x, y }];
+  }));
+}
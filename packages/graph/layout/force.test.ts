@@ -0,0 +1,98 @@
+// Unit tests for the force-directed layout
+
+import { describe, it, expect } from 'vitest';
+import { forceLayout } from './force';
+import type { Point } from './tree';
+import { centeredBoxes, edge, node, overlappingPairs } from '../test-utils';
+
+// Two clusters of related features, joined to the product by one edge each
+const nodes = [
+  node('product', 'product'),
+  ...['a1', 'a2', 'a3', 'a4'].map((id) => node(id)),
+  ...['b1', 'b2', 'b3', 'b4'].map((id) => node(id)),
+];
+
+const edges = [
+  edge('product', 'a1', 'hierarchy'),
+  edge('product', 'b1', 'hierarchy'),
+  edge('a1', 'a2'),
+  edge('a2', 'a3'),
+  edge('a3', 'a4'),
+  edge('a4', 'a1', 'depends-on'),
+  edge('b1', 'b2'),
+  edge('b2', 'b3'),
+  edge('b3', 'b4'),
+  edge('b4', 'b1', 'depends-on'),
+];
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+function meanDistance(centers: Map<string, Point>, from: string[], to: string[]): number {
+  let total = 0;
+  let pairs = 0;
+  for (const a of from) {
+    for (const b of to) {
+      if (a === b) continue;
+      total += distance(centers.get(a)!, centers.get(b)!);
+      pairs++;
+    }
+  }
+  return total / pairs;
+}
+
+describe('forceLayout', () => {
+  it('should position every node', () => {
+    const centers = forceLayout(nodes, edges, 1);
+
+    expect(Array.from(centers.keys()).sort()).toEqual(nodes.map((n) => n.id).sort());
+    centers.forEach((center) => {
+      expect(Number.isFinite(center.x) && Number.isFinite(center.y)).toBe(true);
+    });
+  });
+
+  it('should be deterministic', () => {
+    expect(forceLayout(nodes, edges, 1)).toEqual(forceLayout(nodes, edges, 1));
+  });
+
+  it('should leave no two nodes overlapping', () => {
+    // Every node linked to every other: the springs pull them into one spot
+    const dense = ['a', 'b', 'c', 'd', 'e', 'f'].map((id) => node(id));
+    const denseEdges = dense.flatMap((a, i) => dense.slice(i + 1).map((b) => edge(a.id, b.id)));
+
+    const centers = forceLayout(dense, denseEdges, 1);
+
+    expect(overlappingPairs(centeredBoxes(dense, centers))).toEqual([]);
+  });
+
+  it('should keep linked nodes closer together than unlinked ones', () => {
+    const centers = forceLayout(nodes, edges, 1);
+    const clusterA = ['a1', 'a2', 'a3', 'a4'];
+    const clusterB = ['b1', 'b2', 'b3', 'b4'];
+
+    const within = (meanDistance(centers, clusterA, clusterA) + meanDistance(centers, clusterB, clusterB)) / 2;
+
+    expect(within).toBeLessThan(meanDistance(centers, clusterA, clusterB));
+  });
+
+  it('should spread nodes further apart with more spacing', () => {
+    const tight = forceLayout(nodes, edges, 0.5);
+    const loose = forceLayout(nodes, edges, 2);
+    const ids = nodes.map((n) => n.id);
+
+    expect(meanDistance(loose, ids, ids)).toBeGreaterThan(meanDistance(tight, ids, ids));
+  });
+
+  it('should start from the current positions when the nodes are placed', () => {
+    // Unplaced, two nodes start side by side on a circle and stay that way
+    const stacked = [
+      { ...node('a'), position: { x: 0, y: 0 } },
+      { ...node('b'), position: { x: 0, y: 500 } },
+    ];
+
+    const centers = forceLayout(stacked, [edge('a', 'b')], 1);
+
+    const a = centers.get('a')!;
+    const b = centers.get('b')!;
+    expect(Math.abs(b.y - a.y)).toBeGreaterThan(Math.abs(b.x - a.x));
+  });
+});
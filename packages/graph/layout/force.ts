@@ -0,0 +1,154 @@
+import type { Node, Edge } from 'reactflow';
+import { nodeSize } from './tree';
+import type { Point, Size } from './tree';
+
+/**
+ * Force-directed layout (Fruchterman-Reingold): every edge pulls its nodes
+ * together and every pair of nodes pushes apart, so clusters of `related`
+ * and `depends-on` links end up next to each other whatever the hierarchy.
+ * Deterministic: starts from the current positions, or a circle if the
+ * nodes have not been placed yet.
+ */
+
+/** Target edge length between node borders, before spacing is applied */
+const EDGE_LENGTH = 120;
+
+/** Simulation steps */
+const ITERATIONS = 300;
+
+/** Passes that push apart nodes still overlapping after the simulation */
+const OVERLAP_PASSES = 50;
+
+/** Gap kept between nodes when removing overlaps, before spacing is applied */
+const NODE_GAP = 20;
+
+/** Pull towards the middle, per pixel of distance, so disconnected parts stay close */
+const GRAVITY = 1;
+
+/**
+ * Compute node centers for a force-directed layout
+ * @param spacing - Scale for edge lengths and the gaps between nodes
+ */
+export function forceLayout(nodes: Node[], edges: Edge[], spacing: number): Map<string, Point> {
+  const count = nodes.length;
+  const sizes: Size[] = nodes.map(nodeSize);
+  const indexById = new Map(nodes.map((node, index) => [node.id, index]));
+  const meanExtent = sizes.reduce((sum, size) => sum + Math.max(size.width, size.height), 0) / Math.max(count, 1);
+  const ideal = meanExtent + EDGE_LENGTH * spacing;
+
+  const positions = initialPositions(nodes, sizes, ideal);
+
+  // One spring per connected pair, however many edges join them
+  const springs = new Map<string, [number, number]>();
+  for (const edge of edges) {
+    const source = indexById.get(edge.source);
+    const target = indexById.get(edge.target);
+    if (source === undefined || target === undefined || source === target) continue;
+    springs.set(source < target ? `${source}-${target}` : `${target}-${source}`, [source, target]);
+  }
+
+  let temperature = ideal * 2;
+  const cooling = temperature / ITERATIONS;
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const displacement = positions.map(() => ({ x: 0, y: 0 }));
+
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const { dx, dy, distance } = separation(positions[i], positions[j], i, j);
+        const force = (ideal * ideal) / distance;
+        displacement[i].x += (dx / distance) * force;
+        displacement[i].y += (dy / distance) * force;
+        displacement[j].x -= (dx / distance) * force;
+        displacement[j].y -= (dy / distance) * force;
+      }
+    }
+
+    for (const [i, j] of springs.values()) {
+      const { dx, dy, distance } = separation(positions[i], positions[j], i, j);
+      const force = (distance * distance) / ideal;
+      displacement[i].x -= (dx / distance) * force;
+      displacement[i].y -= (dy / distance) * force;
+      displacement[j].x += (dx / distance) * force;
+      displacement[j].y += (dy / distance) * force;
+    }
+
+    for (let i = 0; i < count; i++) {
+      displacement[i].x -= positions[i].x * GRAVITY;
+      displacement[i].y -= positions[i].y * GRAVITY;
+      const length = Math.hypot(displacement[i].x, displacement[i].y);
+      if (length === 0) continue;
+      // Moves shrink as the layout cools, so it settles instead of oscillating
+      const step = Math.min(length, temperature);
+      positions[i].x += (displacement[i].x / length) * step;
+      positions[i].y += (displacement[i].y / length) * step;
+    }
+
+    temperature = Math.max(temperature - cooling, 1);
+  }
+
+  removeOverlaps(positions, sizes, NODE_GAP * spacing);
+
+  return new Map(nodes.map((node, index) => [node.id, positions[index]]));
+}
+
+/**
+ * Current node centers, unless every node sits in the same spot
+ */
+function initialPositions(nodes: Node[], sizes: Size[], radius: number): Point[] {
+  const current = nodes.map((node, index) => ({
+    x: node.position.x + sizes[index].width / 2,
+    y: node.position.y + sizes[index].height / 2,
+  }));
+  const placed = current.some((point) => point.x !== current[0].x || point.y !== current[0].y);
+  if (placed) {
+    return current;
+  }
+  const ringRadius = (radius * nodes.length) / (2 * Math.PI);
+  return nodes.map((_, index) => {
+    const angle = (2 * Math.PI * index) / nodes.length;
+    return { x: ringRadius * Math.cos(angle), y: ringRadius * Math.sin(angle) };
+  });
+}
+
+/**
+ * Vector from b to a; nodes in the same spot are nudged apart in a fixed direction
+ */
+function separation(a: Point, b: Point, i: number, j: number): { dx: number; dy: number; distance: number } {
+  let dx = a.x - b.x;
+  let dy = a.y - b.y;
+  if (dx === 0 && dy === 0) {
+    const angle = (i + j) * 2.399963; // golden angle
+    dx = Math.cos(angle) * 0.01;
+    dy = Math.sin(angle) * 0.01;
+  }
+  return { dx, dy, distance: Math.max(Math.hypot(dx, dy), 0.01) };
+}
+
+/**
+ * Push overlapping nodes apart along the axis where they overlap least
+ */
+function removeOverlaps(positions: Point[], sizes: Size[], gap: number): void {
+  for (let pass = 0; pass < OVERLAP_PASSES; pass++) {
+    let moved = false;
+    for (let i = 0; i < positions.length; i++) {
+      for (let j = i + 1; j < positions.length; j++) {
+        const overlapX = (sizes[i].width + sizes[j].width) / 2 + gap - Math.abs(positions[i].x - positions[j].x);
+        const overlapY = (sizes[i].height + sizes[j].height) / 2 + gap - Math.abs(positions[i].y - positions[j].y);
+        if (overlapX <= 0 || overlapY <= 0) continue;
+
+        moved = true;
+        if (overlapX < overlapY) {
+          const shift = (positions[i].x <= positions[j].x ? -overlapX : overlapX) / 2;
+          positions[i].x += shift;
+          positions[j].x -= shift;
+        } else {
+          const shift = (positions[i].y <= positions[j].y ? -overlapY : overlapY) / 2;
+          positions[i].y += shift;
+          positions[j].y -= shift;
+        }
+      }
+    }
+    if (!moved) break;
+  }
+}
@@ -0,0 +1,67 @@
+// Unit tests for the grid layout
+
+import { describe, it, expect } from 'vitest';
+import { gridLayout } from './grid';
+import { centeredBoxes, hierarchy, node, overlappingPairs } from '../test-utils';
+
+const nodes = [
+  node('product', 'product'),
+  node('payments'),
+  node('charges', 'component'),
+  node('refunds', 'component'),
+  node('webhooks'),
+  node('events', 'component'),
+  node('auth'),
+];
+
+const edges = [
+  hierarchy('product', 'payments'),
+  hierarchy('payments', 'charges'),
+  hierarchy('payments', 'refunds'),
+  hierarchy('product', 'webhooks'),
+  hierarchy('webhooks', 'events'),
+  hierarchy('product', 'auth'),
+];
+
+/** Node IDs of each row, left to right */
+function rows(centers: Map<string, { x: number; y: number }>): string[][] {
+  const byRow = new Map<number, Array<[string, number]>>();
+  centers.forEach(({ x, y }, id) => byRow.set(y, [...(byRow.get(y) || []), [id, x]]));
+  return Array.from(byRow)
+    .sort(([a], [b]) => a - b)
+    .map(([, cells]) => cells.sort(([, a], [, b]) => a - b).map(([id]) => id));
+}
+
+describe('gridLayout', () => {
+  it('should pack nodes row by row in hierarchy order', () => {
+    const centers = gridLayout(nodes, edges, 1);
+
+    expect(rows(centers)).toEqual([
+      ['product', 'payments', 'charges'],
+      ['refunds', 'webhooks', 'events'],
+      ['auth'],
+    ]);
+  });
+
+  it('should use the number of columns asked for', () => {
+    const centers = gridLayout(nodes, edges, 1, 2);
+
+    expect(rows(centers).map((row) => row.length)).toEqual([2, 2, 2, 1]);
+  });
+
+  it('should leave no two nodes overlapping', () => {
+    const centers = gridLayout(nodes, edges, 1);
+
+    expect(overlappingPairs(centeredBoxes(nodes, centers))).toEqual([]);
+  });
+
+  it('should leave no two nodes overlapping at the tightest spacing', () => {
+    const centers = gridLayout(nodes, edges, 0.5, 1);
+
+    expect(overlappingPairs(centeredBoxes(nodes, centers))).toEqual([]);
+  });
+
+  it('should be deterministic', () => {
+    expect(gridLayout(nodes, edges, 1)).toEqual(gridLayout(nodes, edges, 1));
+  });
+});
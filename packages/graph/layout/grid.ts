@@ -0,0 +1,55 @@
+import type { Node, Edge } from 'reactflow';
+import { buildLayoutTree, depthFirstOrder, nodeSize } from './tree';
+import type { Point, Size } from './tree';
+
+/**
+ * Grid layout: nodes packed row by row in hierarchy order, so each feature
+ * is followed by its components. Columns are as wide as their widest node and
+ * rows as tall as their tallest, which keeps long feature lists compact.
+ */
+
+/** Gap between cells, before spacing is applied */
+const CELL_GAP = 40;
+
+/**
+ * Compute node centers for a grid layout
+ * @param spacing - Scale for the gaps between cells
+ * @param columns - Number of columns (default: about as many as rows, which suits wide nodes)
+ */
+export function gridLayout(nodes: Node[], edges: Edge[], spacing: number, columns?: number): Map<string, Point> {
+  const sizes = new Map<string, Size>(nodes.map((node) => [node.id, nodeSize(node)]));
+  const order = depthFirstOrder(buildLayoutTree(nodes, edges));
+  const columnCount = Math.max(1, Math.min(columns || Math.ceil(Math.sqrt(order.length)), order.length));
+  const gap = CELL_GAP * spacing;
+
+  const columnWidths: number[] = [];
+  const rowHeights: number[] = [];
+  order.forEach((id, index) => {
+    const { width, height } = sizes.get(id)!;
+    const column = index % columnCount;
+    const row = Math.floor(index / columnCount);
+    columnWidths[column] = Math.max(columnWidths[column] || 0, width);
+    rowHeights[row] = Math.max(rowHeights[row] || 0, height);
+  });
+
+  const columnStarts = offsets(columnWidths, gap);
+  const rowStarts = offsets(rowHeights, gap);
+
+  return new Map(
+    order.map((id, index) => {
+      const column = index % columnCount;
+      const row = Math.floor(index / columnCount);
+      return [id, { x: columnStarts[column] + columnWidths[column] / 2, y: rowStarts[row] + rowHeights[row] / 2 }];
+    })
+  );
+}
+
+function offsets(lengths: number[], gap: number): number[] {
+  const starts: number[] = [];
+  let position = 0;
+  for (const length of lengths) {
+    starts.push(position);
+    position += length + gap;
+  }
+  return starts;
+}
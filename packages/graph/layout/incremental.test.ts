@@ -0,0 +1,132 @@
+// Unit tests for constrained layout around fixed nodes
+
+import { describe, it, expect } from 'vitest';
+import { applyLayout } from './index';
+import { getFixedPositions, placeAroundFixed } from './incremental';
+import { hierarchy, laidOutBoxes, node, overlappingPairs } from '../test-utils';
+
+const nodes = [
+  node('product', 'product'),
+  node('billing'),
+  node('invoices', 'component'),
+  node('webhooks'),
+  node('events', 'component'),
+  node('retries', 'component'),
+];
+
+const edges = [
+  hierarchy('product', 'billing'),
+  hierarchy('billing', 'invoices'),
+  hierarchy('product', 'webhooks'),
+  hierarchy('webhooks', 'events'),
+  hierarchy('webhooks', 'retries'),
+];
+
+describe('getFixedPositions', () => {
+  it('should keep pinned nodes', () => {
+    const fixed = getFixedPositions([
+      node('a', 'feature', { position: { x: 10, y: 20 }, data: { label: 'A', pinned: true } }),
+      node('b'),
+    ]);
+
+    expect(fixed).toEqual({ a: { x: 10, y: 20 } });
+  });
+
+  it('should keep unselected nodes only when something is selected', () => {
+    const selection = [node('a', 'feature', { selected: true }), node('b', 'feature', { position: { x: 5, y: 5 } })];
+
+    expect(getFixedPositions(selection, { keepUnselected: true })).toEqual({ b: { x: 5, y: 5 } });
+    expect(getFixedPositions([node('a'), node('b')], { keepUnselected: true })).toEqual({});
+  });
+});
+
+describe('applyLayout with fixed nodes', () => {
+  const fixed = {
+    product: { x: 400, y: 0 },
+    webhooks: { x: 900, y: 300 },
+  };
+
+  it.each(['dagre', 'radial', 'mind-map', 'force', 'grid'] as const)('should never move fixed nodes (%s)', (engine) => {
+    const result = applyLayout(nodes, edges, { engine, fixed });
+
+    expect(result.find((n) => n.id === 'product')!.position).toEqual(fixed.product);
+    expect(result.find((n) => n.id === 'webhooks')!.position).toEqual(fixed.webhooks);
+  });
+
+  it.each(['dagre', 'radial', 'mind-map', 'force', 'grid'] as const)(
+    'should place free nodes without overlapping any other node (%s)',
+    (engine) => {
+      const result = applyLayout(nodes, edges, { engine, fixed });
+
+      expect(overlappingPairs(laidOutBoxes(result))).toEqual([]);
+    }
+  );
+
+  it('should keep free nodes next to the fixed node they hang off', () => {
+    const result = applyLayout(nodes, edges, { fixed });
+    const webhooks = result.find((n) => n.id === 'webhooks')!;
+    const events = result.find((n) => n.id === 'events')!;
+    const invoices = result.find((n) => n.id === 'invoices')!;
+
+    // Events moved with Webhooks; Invoices stayed under the product
+    expect(Math.abs(events.position.x - webhooks.position.x)).toBeLessThan(400);
+    expect(events.position.y).toBeGreaterThan(webhooks.position.y);
+    expect(Math.abs(invoices.position.x - webhooks.position.x)).toBeGreaterThan(Math.abs(events.position.x - webhooks.position.x));
+  });
+
+  it('should return every node as it was when all of them are fixed', () => {
+    const allFixed = Object.fromEntries(nodes.map((n, index) => [n.id, { x: index * 300, y: 0 }]));
+
+    const result = applyLayout(nodes, edges, { fixed: allFixed });
+
+    expect(result.map((n) => n.position)).toEqual(nodes.map((_, index) => ({ x: index * 300, y: 0 })));
+  });
+});
+
+describe('placeAroundFixed', () => {
+  const pair = [node('fixed'), node('free')];
+
+  it('should leave a free node at its ideal spot when nothing is in the way', () => {
+    const ideal = new Map([
+      ['fixed', { x: 0, y: 0 }],
+      ['free', { x: 1000, y: 1000 }],
+    ]);
+
+    const centers = placeAroundFixed(pair, [], ideal, { fixed: { x: -90, y: -30 } }, 30);
+
+    expect(centers.get('free')).toEqual({ x: 1000, y: 1000 });
+  });
+
+  it('should move a free node just clear of a fixed node on its ideal spot', () => {
+    const edge = { id: 'e', source: 'fixed', target: 'free' };
+    const ideal = new Map([
+      ['fixed', { x: 0, y: 0 }],
+      ['free', { x: 0, y: 0 }],
+    ]);
+
+    const centers = placeAroundFixed(pair, [edge], ideal, { fixed: { x: -90, y: -30 } }, 30);
+    const free = centers.get('free')!;
+
+    // Feature nodes are 180 × 60: clear means 210 apart horizontally or 90 vertically
+    expect(Math.abs(free.x) >= 210 || Math.abs(free.y) >= 90).toBe(true);
+    // ...and no further than one search step past that
+    expect(Math.hypot(free.x, free.y)).toBeLessThanOrEqual(210 + 30);
+  });
+
+  it('should shift a connected cluster as far as its anchor moved', () => {
+    const cluster = [node('anchor'), node('a'), node('b')];
+    const clusterEdges = [hierarchy('anchor', 'a'), hierarchy('a', 'b')];
+    const ideal = new Map([
+      ['anchor', { x: 0, y: 0 }],
+      ['a', { x: 0, y: 200 }],
+      ['b', { x: 0, y: 400 }],
+    ]);
+
+    // The anchor was dragged 500 to the right of where the engine put it
+    const centers = placeAroundFixed(cluster, clusterEdges, ideal, { anchor: { x: 410, y: -30 } }, 30);
+
+    expect(centers.get('anchor')).toEqual({ x: 500, y: 0 });
+    expect(centers.get('a')).toEqual({ x: 500, y: 200 });
+    expect(centers.get('b')).toEqual({ x: 500, y: 400 });
+  });
+});
@@ -0,0 +1,168 @@
+import type { Node, Edge, XYPosition } from 'reactflow';
+import { nodeSize } from './tree';
+import type { Point, Size } from './tree';
+
+/**
+ * Constrained layout: fixed nodes stay where they are, and the others go
+ * where the layout engine would put them relative to the fixed nodes they
+ * are connected to, moved just far enough not to overlap anything.
+ */
+
+/** Top-left positions of nodes that must not move, keyed by node ID */
+export type FixedPositions = Record<string, XYPosition>;
+
+/** Rings searched around a node's ideal spot before giving up on avoiding overlaps */
+const MAX_SEARCH_RINGS = 200;
+
+/**
+ * Positions to keep when laying out part of a map: pinned nodes and, if asked,
+ * every node outside the selection
+ * @param nodes - All nodes of the map
+ * @param options.keepUnselected - Only move selected nodes (when any are selected)
+ */
+export function getFixedPositions(nodes: Node[], options: { keepUnselected?: boolean } = {}): FixedPositions {
+  const hasSelection = nodes.some((node) => node.selected);
+  const fixed: FixedPositions = {};
+  for (const node of nodes) {
+    if (node.data?.pinned || (options.keepUnselected && hasSelection && !node.selected)) {
+      fixed[node.id] = { ...node.position };
+    }
+  }
+  return fixed;
+}
+
+/**
+ * Move the free nodes of a layout next to the fixed ones
+ * @param nodes - All nodes being laid out
+ * @param edges - Edges between them
+ * @param ideal - Node centers computed by a layout engine for the whole map
+ * @param fixed - Top-left positions of the nodes that keep their place
+ * @param gap - Space kept between nodes
+ * @returns Centers of every node, fixed ones included
+ */
+export function placeAroundFixed(
+  nodes: Node[],
+  edges: Edge[],
+  ideal: Map<string, Point>,
+  fixed: FixedPositions,
+  gap: number
+): Map<string, Point> {
+  const sizes = new Map<string, Size>(nodes.map((node) => [node.id, nodeSize(node)]));
+  const centers = new Map<string, Point>();
+  const obstacles: Array<{ center: Point; size: Size }> = [];
+
+  for (const node of nodes) {
+    const position = fixed[node.id];
+    if (!position) continue;
+    const size = sizes.get(node.id)!;
+    const center = { x: position.x + size.width / 2, y: position.y + size.height / 2 };
+    centers.set(node.id, center);
+    obstacles.push({ center, size });
+  }
+
+  const free = nodes.filter((node) => !fixed[node.id] && ideal.has(node.id)).map((node) => node.id);
+  if (centers.size === 0) {
+    free.forEach((id) => centers.set(id, ideal.get(id)!));
+    return centers;
+  }
+
+  for (const cluster of connectedClusters(free, edges)) {
+    // Keep the cluster's shape, shifted by how far its fixed neighbours are from where the engine put them
+    const members = new Set(cluster);
+    const anchors = new Set<string>();
+    for (const edge of edges) {
+      if (members.has(edge.source) && centers.has(edge.target)) anchors.add(edge.target);
+      if (members.has(edge.target) && centers.has(edge.source)) anchors.add(edge.source);
+    }
+    const anchorIds = Array.from(anchors.size > 0 ? anchors : centers.keys()).filter((id) => ideal.has(id));
+    const offset = anchorIds.reduce(
+      (sum, id) => ({
+        x: sum.x + (centers.get(id)!.x - ideal.get(id)!.x) / anchorIds.length,
+        y: sum.y + (centers.get(id)!.y - ideal.get(id)!.y) / anchorIds.length,
+      }),
+      { x: 0, y: 0 }
+    );
+
+    // Nodes closest to their anchors claim their spots first
+    const anchorCenter = averagePoint(anchorIds.map((id) => centers.get(id)!));
+    const targets = cluster
+      .map((id) => ({ id, target: { x: ideal.get(id)!.x + offset.x, y: ideal.get(id)!.y + offset.y } }))
+      .sort((a, b) => distance(a.target, anchorCenter) - distance(b.target, anchorCenter));
+
+    for (const { id, target } of targets) {
+      const size = sizes.get(id)!;
+      const center = nearestFreeSpot(target, size, obstacles, gap);
+      centers.set(id, center);
+      obstacles.push({ center, size });
+    }
+  }
+
+  return centers;
+}
+
+/**
+ * Groups of free nodes connected to each other by edges, in map order
+ */
+function connectedClusters(ids: string[], edges: Edge[]): string[][] {
+  const parent = new Map(ids.map((id) => [id, id]));
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+  for (const edge of edges) {
+    if (parent.has(edge.source) && parent.has(edge.target)) {
+      parent.set(find(edge.source), find(edge.target));
+    }
+  }
+
+  const clusters = new Map<string, string[]>();
+  for (const id of ids) {
+    const root = find(id);
+    clusters.set(root, [...(clusters.get(root) || []), id]);
+  }
+  return Array.from(clusters.values());
+}
+
+/**
+ * Closest spot to a target where a node overlaps none of the obstacles,
+ * searched on growing square rings around the target
+ */
+function nearestFreeSpot(target: Point, size: Size, obstacles: Array<{ center: Point; size: Size }>, gap: number): Point {
+  const step = Math.max(gap, 10);
+  const fits = (center: Point) =>
+    obstacles.every(
+      (obstacle) =>
+        Math.abs(center.x - obstacle.center.x) >= (size.width + obstacle.size.width) / 2 + gap ||
+        Math.abs(center.y - obstacle.center.y) >= (size.height + obstacle.size.height) / 2 + gap
+    );
+
+  for (let ring = 0; ring <= MAX_SEARCH_RINGS; ring++) {
+    const candidates: Point[] = ring === 0 ? [target] : [];
+    for (let offset = -ring; ring > 0 && offset <= ring; offset++) {
+      candidates.push({ x: target.x + offset * step, y: target.y - ring * step });
+      candidates.push({ x: target.x + offset * step, y: target.y + ring * step });
+      if (Math.abs(offset) < ring) {
+        candidates.push({ x: target.x - ring * step, y: target.y + offset * step });
+        candidates.push({ x: target.x + ring * step, y: target.y + offset * step });
+      }
+    }
+    candidates.sort((a, b) => distance(a, target) - distance(b, target));
+    const spot = candidates.find(fits);
+    if (spot) return spot;
+  }
+  return target;
+}
+
+function averagePoint(points: Point[]): Point {
+  if (points.length === 0) return { x: 0, y: 0 };
+  return {
+    x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+    y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+  };
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
@@ -1,49 +1,117 @@
-import dagre from 'dagre';
 import type { Node, Edge } from 'reactflow';
+import { dagreLayout } from './dagre';
+import { radialLayout } from './radial';
+import { mindMapLayout } from './mind-map';
+import { forceLayout } from './force';
+import { gridLayout } from './grid';
+import { placeAroundFixed } from './incremental';
+import type { FixedPositions } from './incremental';
+import { compoundLayout, GROUP_PADDING } from './compound';
+import { nodeSize } from './tree';
+import type { Point } from './tree';
 
+export type LayoutDirection = 'TB' | 'LR';
+
+/**
+ * Layout engines:
+ * - dagre: layered tree, top-bottom or left-right
+ * - radial: the product in the middle, each level on a ring around it
+ * - mind-map: the product in the middle, branches split between both sides
+ * - force: force-directed, for maps with many related/depends-on edges
+ * - grid: compact rows in hierarchy order, for long feature lists
+ */
+export type LayoutEngine = 'dagre' | 'radial' | 'mind-map' | 'force' | 'grid';
+
+export interface LayoutOptions {
+  /** Layout engine (default: 'dagre') */
+  engine?: LayoutEngine;
+  /** Direction of the dagre layout (default: 'TB') */
+  direction?: LayoutDirection;
+  /** Scale for the gaps between nodes, levels and rings (default: 1) */
+  spacing?: number;
+  /** Number of grid columns (default: about as many as rows) */
+  columns?: number;
+  /**
+   * Nodes that keep their top-left position; the rest are placed around them
+   * without overlapping (see getFixedPositions)
+   */
+  fixed?: FixedPositions;
+}
+
+/** Spacing values accepted by the layouts; the editor slider uses the same range */
+export const MIN_LAYOUT_SPACING = 0.5;
+export const MAX_LAYOUT_SPACING = 2;
+
+/** Gap kept between fixed and newly placed nodes, before spacing is applied */
+const FIXED_NODE_GAP = 30;
+
+/**
+ * Position the nodes of a map
+ * Groups are laid out as one node holding their children, and resized to fit them.
+ * @param nodes - Nodes to position
+ * @param edges - Edges between them; hierarchy edges shape the tree layouts
+ * @param options - Engine, spacing and fixed nodes, or just a dagre direction
+ * @returns Nodes with new top-left positions
+ */
 export function applyLayout(
   nodes: Node[],
   edges: Edge[],
-  direction: 'TB' | 'LR' = 'TB'
+  options: LayoutDirection | LayoutOptions = 'TB'
 ): Node[] {
-  const dagreGraph = new dagre.graphlib.Graph();
-  dagreGraph.setDefaultEdgeLabel(() => ({}));
-
-  // Set graph direction (TB = top-bottom, LR = left-right)
-  dagreGraph.setGraph({ rankdir: direction });
-
-  // Add nodes to the graph with their dimensions
-  nodes.forEach((node) => {
-    // Different node types have different sizes
-    const width = node.type === 'product' ? 250 : node.type === 'component' ? 200 : 180;
-    const height = node.type === 'product' ? 100 : node.type === 'component' ? 80 : 60;
-    
-    dagreGraph.setNode(node.id, { width, height });
-  });
+  const { engine = 'dagre', direction = 'TB', spacing = 1, columns, fixed = {} } =
+    typeof options === 'string' ? { direction: options } : options;
+  const scale = Math.min(Math.max(spacing, MIN_LAYOUT_SPACING), MAX_LAYOUT_SPACING);
+  if (nodes.every((node) => fixed[node.id])) {
+    return nodes.map((node) => ({ ...node, position: { ...fixed[node.id] } }));
+  }
 
-  // Add edges to the graph
-  edges.forEach((edge) => {
-    dagreGraph.setEdge(edge.source, edge.target);
-  });
+  const layoutLevel = (levelNodes: Node[], levelEdges: Edge[], levelFixed: FixedPositions) => {
+    let centers: Map<string, Point>;
+    switch (engine) {
+      case 'radial':
+        centers = radialLayout(levelNodes, levelEdges, scale);
+        break;
+      case 'mind-map':
+        centers = mindMapLayout(levelNodes, levelEdges, scale);
+        break;
+      case 'force':
+        centers = forceLayout(levelNodes, levelEdges, scale);
+        break;
+      case 'grid':
+        centers = gridLayout(levelNodes, levelEdges, scale, columns);
+        break;
+      default:
+        centers = dagreLayout(levelNodes, levelEdges, direction, scale);
+    }
+    if (Object.keys(levelFixed).length > 0) {
+      centers = placeAroundFixed(levelNodes, levelEdges, centers, levelFixed, FIXED_NODE_GAP * scale);
+    }
+    return centers;
+  };
 
-  // Run the layout algorithm
-  dagre.layout(dagreGraph);
+  const { centers, groupSizes } = compoundLayout(nodes, edges, layoutLevel, fixed, GROUP_PADDING * scale);
 
   // Map nodes with new positions
-  const layoutedNodes = nodes.map((node) => {
-    const nodeWithPosition = dagreGraph.node(node.id);
-    const width = nodeWithPosition.width;
-    const height = nodeWithPosition.height;
+  return nodes.map((node) => {
+    const center = centers.get(node.id);
+    if (!center) {
+      return node;
+    }
+    const groupSize = groupSizes.get(node.id);
+    const { width, height } = groupSize || nodeSize(node);
 
     return {
       ...node,
       position: {
         // Center the node at the calculated position
-        x: nodeWithPosition.x - width / 2,
-        y: nodeWithPosition.y - height / 2,
+        x: center.x - width / 2,
+        y: center.y - height / 2,
       },
+      ...(groupSize && { style: { ...node.style, width, height } }),
     };
   });
-
-  return layoutedNodes;
 }
+
+export { getFixedPositions, placeAroundFixed } from './incremental';
+export type { FixedPositions } from './incremental';
+export { getGroupParents } from './compound';
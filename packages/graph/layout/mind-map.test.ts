@@ -0,0 +1,67 @@
+// Unit tests for the mind-map layout
+
+import { describe, it, expect } from 'vitest';
+import { mindMapLayout } from './mind-map';
+import { centeredBoxes, hierarchy, node, overlappingPairs } from '../test-utils';
+
+const nodes = [
+  node('product', 'product'),
+  node('payments'),
+  node('charges', 'component'),
+  node('refunds', 'component'),
+  node('disputes', 'component'),
+  node('webhooks'),
+  node('events', 'component'),
+  node('retries', 'component'),
+  node('auth'),
+  node('tokens', 'component'),
+];
+
+const edges = [
+  hierarchy('product', 'payments'),
+  hierarchy('payments', 'charges'),
+  hierarchy('payments', 'refunds'),
+  hierarchy('payments', 'disputes'),
+  hierarchy('product', 'webhooks'),
+  hierarchy('webhooks', 'events'),
+  hierarchy('webhooks', 'retries'),
+  hierarchy('product', 'auth'),
+  hierarchy('auth', 'tokens'),
+];
+
+describe('mindMapLayout', () => {
+  it('should put the product in the middle and branches on both sides', () => {
+    const centers = mindMapLayout(nodes, edges, 1);
+
+    expect(centers.get('product')).toEqual({ x: 0, y: 0 });
+    const sides = ['payments', 'webhooks', 'auth'].map((id) => Math.sign(centers.get(id)!.x));
+    expect(sides).toContain(1);
+    expect(sides).toContain(-1);
+  });
+
+  it('should grow each branch away from the middle', () => {
+    const centers = mindMapLayout(nodes, edges, 1);
+    const payments = centers.get('payments')!;
+
+    ['charges', 'refunds', 'disputes'].forEach((id) => {
+      expect(Math.abs(centers.get(id)!.x)).toBeGreaterThan(Math.abs(payments.x));
+      expect(Math.sign(centers.get(id)!.x)).toBe(Math.sign(payments.x));
+    });
+  });
+
+  it('should leave no two nodes overlapping', () => {
+    const centers = mindMapLayout(nodes, edges, 1);
+
+    expect(overlappingPairs(centeredBoxes(nodes, centers))).toEqual([]);
+  });
+
+  it('should leave no two nodes overlapping at the tightest spacing', () => {
+    const centers = mindMapLayout(nodes, edges, 0.5);
+
+    expect(overlappingPairs(centeredBoxes(nodes, centers))).toEqual([]);
+  });
+
+  it('should be deterministic', () => {
+    expect(mindMapLayout(nodes, edges, 1)).toEqual(mindMapLayout(nodes, edges, 1));
+  });
+});
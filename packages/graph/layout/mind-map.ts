@@ -0,0 +1,107 @@
+import type { Node, Edge } from 'reactflow';
+import { buildLayoutTree, nodeSize, VIRTUAL_ROOT } from './tree';
+import type { Point, Size } from './tree';
+
+/**
+ * Mind-map layout: the product in the middle, its branches split between the
+ * right and left sides so both sides are about as tall, and each branch laid
+ * out as a horizontal tree growing away from the middle.
+ */
+
+/** Gap between levels, before spacing is applied */
+const LEVEL_GAP = 80;
+
+/** Gap between siblings, before spacing is applied */
+const SIBLING_GAP = 24;
+
+/**
+ * Compute node centers for a mind-map layout
+ * @param spacing - Scale for the gaps between levels and siblings
+ */
+export function mindMapLayout(nodes: Node[], edges: Edge[], spacing: number): Map<string, Point> {
+  const tree = buildLayoutTree(nodes, edges);
+  const sizes = new Map<string, Size>(nodes.map((node) => [node.id, nodeSize(node)]));
+  const sizeOf = (id: string) => sizes.get(id) || { width: 0, height: 0 };
+  const siblingGap = SIBLING_GAP * spacing;
+  const levelGap = LEVEL_GAP * spacing;
+
+  // Height each subtree needs
+  const heights = new Map<string, number>();
+  const measure = (id: string): number => {
+    const kids = tree.children.get(id) || [];
+    const childrenHeight = kids.reduce((sum, child) => sum + measure(child), 0) + siblingGap * Math.max(kids.length - 1, 0);
+    const height = Math.max(sizeOf(id).height, childrenHeight);
+    heights.set(id, height);
+    return height;
+  };
+  measure(tree.root);
+
+  const branches = tree.children.get(tree.root) || [];
+  const split = balancedSplit(branches.map((id) => heights.get(id) || 0));
+  const sides: Array<{ ids: string[]; direction: 1 | -1 }> = [
+    { ids: branches.slice(0, split), direction: 1 },
+    { ids: branches.slice(split), direction: -1 },
+  ];
+
+  const centers = new Map<string, Point>();
+  if (tree.root !== VIRTUAL_ROOT) {
+    centers.set(tree.root, { x: 0, y: 0 });
+  }
+
+  for (const side of sides) {
+    // Line up each level in a column as wide as its widest node
+    const columnWidths: number[] = [];
+    const collect = (id: string, depth: number) => {
+      columnWidths[depth] = Math.max(columnWidths[depth] || 0, sizeOf(id).width);
+      (tree.children.get(id) || []).forEach((child) => collect(child, depth + 1));
+    };
+    side.ids.forEach((id) => collect(id, 0));
+    const columnCenters: number[] = [];
+    let edge = sizeOf(tree.root).width / 2;
+    columnWidths.forEach((width, depth) => {
+      columnCenters[depth] = edge + levelGap + width / 2;
+      edge = columnCenters[depth] + width / 2;
+    });
+
+    const place = (id: string, depth: number, top: number) => {
+      const height = heights.get(id) || 0;
+      centers.set(id, { x: side.direction * columnCenters[depth], y: top + height / 2 });
+      const kids = tree.children.get(id) || [];
+      const childrenHeight = kids.reduce((sum, child) => sum + (heights.get(child) || 0), 0) + siblingGap * Math.max(kids.length - 1, 0);
+      let childTop = top + (height - childrenHeight) / 2;
+      for (const child of kids) {
+        place(child, depth + 1, childTop);
+        childTop += (heights.get(child) || 0) + siblingGap;
+      }
+    };
+
+    const sideHeight = side.ids.reduce((sum, id) => sum + (heights.get(id) || 0), 0) + siblingGap * Math.max(side.ids.length - 1, 0);
+    let top = -sideHeight / 2;
+    for (const id of side.ids) {
+      place(id, 0, top);
+      top += (heights.get(id) || 0) + siblingGap;
+    }
+  }
+
+  return centers;
+}
+
+/**
+ * Number of branches (in order) to put on the right so both sides are as even as possible
+ */
+function balancedSplit(weights: number[]): number {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let best = weights.length;
+  let bestDifference = Infinity;
+  let right = 0;
+  for (let count = 0; count <= weights.length; count++) {
+    const difference = Math.abs(right - (total - right));
+    // Ties go to the right side, where reading starts
+    if (difference < bestDifference || (difference === bestDifference && count > best)) {
+      best = count;
+      bestDifference = difference;
+    }
+    right += weights[count] || 0;
+  }
+  return best;
+}
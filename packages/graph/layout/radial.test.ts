@@ -0,0 +1,93 @@
+// Unit tests for the radial layout
+
+import { describe, it, expect } from 'vitest';
+import { radialLayout } from './radial';
+import { nodeSize } from './tree';
+import type { Point } from './tree';
+import { centeredBoxes, hierarchy, node, overlappingPairs } from '../test-utils';
+
+const nodes = [
+  node('product', 'product'),
+  node('payments'),
+  node('charges', 'component'),
+  node('refunds', 'component'),
+  node('disputes', 'component'),
+  node('webhooks'),
+  node('events', 'component'),
+  node('auth'),
+];
+
+const edges = [
+  hierarchy('product', 'payments'),
+  hierarchy('payments', 'charges'),
+  hierarchy('payments', 'refunds'),
+  hierarchy('payments', 'disputes'),
+  hierarchy('product', 'webhooks'),
+  hierarchy('webhooks', 'events'),
+  hierarchy('product', 'auth'),
+];
+
+const radius = (point: Point) => Math.hypot(point.x, point.y);
+
+/** Angle of a point clockwise from the top, between 0 and 2π */
+const angle = (point: Point) => (Math.atan2(point.y, point.x) + Math.PI / 2 + 2 * Math.PI) % (2 * Math.PI);
+
+describe('radialLayout', () => {
+  it('should put the product in the middle', () => {
+    const centers = radialLayout(nodes, edges, 1);
+
+    expect(centers.get('product')).toEqual({ x: 0, y: 0 });
+  });
+
+  it('should put each level on its own ring, further out than the last', () => {
+    const centers = radialLayout(nodes, edges, 1);
+    const features = ['payments', 'webhooks', 'auth'].map((id) => radius(centers.get(id)!));
+    const components = ['charges', 'refunds', 'disputes', 'events'].map((id) => radius(centers.get(id)!));
+
+    features.forEach((r) => expect(r).toBeCloseTo(features[0], 6));
+    components.forEach((r) => expect(r).toBeCloseTo(components[0], 6));
+    expect(features[0]).toBeGreaterThan(0);
+    expect(components[0]).toBeGreaterThan(features[0]);
+  });
+
+  it('should give each subtree a slice of the circle in proportion to its leaves', () => {
+    const centers = radialLayout(nodes, edges, 1);
+
+    // 5 leaves: Payments gets 3/5 of the circle, Webhooks and Auth 1/5 each
+    expect(angle(centers.get('payments')!)).toBeCloseTo((3 * Math.PI) / 5, 6);
+    expect(angle(centers.get('webhooks')!)).toBeCloseTo((7 * Math.PI) / 5, 6);
+    expect(angle(centers.get('auth')!)).toBeCloseTo((9 * Math.PI) / 5, 6);
+    // Children sit in their parent's slice
+    expect(angle(centers.get('events')!)).toBeCloseTo(angle(centers.get('webhooks')!), 6);
+    ['charges', 'refunds', 'disputes'].forEach((id) => {
+      expect(angle(centers.get(id)!)).toBeGreaterThan(0);
+      expect(angle(centers.get(id)!)).toBeLessThan((6 * Math.PI) / 5);
+    });
+  });
+
+  it('should leave no two nodes on a ring overlapping', () => {
+    const centers = radialLayout(nodes, edges, 1);
+
+    expect(overlappingPairs(centeredBoxes(nodes, centers))).toEqual([]);
+  });
+
+  it('should widen the rings with more spacing', () => {
+    const tight = radialLayout(nodes, edges, 0.5);
+    const loose = radialLayout(nodes, edges, 2);
+
+    expect(radius(loose.get('payments')!)).toBeGreaterThan(radius(tight.get('payments')!));
+    expect(radius(loose.get('events')!)).toBeGreaterThan(radius(tight.get('events')!));
+  });
+
+  it('should place a crowded ring far enough out to fit its nodes', () => {
+    const many = [node('product', 'product'), ...Array.from({ length: 24 }, (_, i) => node(`feature-${i}`))];
+    const manyEdges = many.slice(1).map((n) => hierarchy('product', n.id));
+
+    const centers = radialLayout(many, manyEdges, 1);
+    const first = centers.get('feature-0')!;
+    const second = centers.get('feature-1')!;
+
+    // Neighbours are at least one node width apart along the ring
+    expect(Math.hypot(first.x - second.x, first.y - second.y)).toBeGreaterThanOrEqual(nodeSize(many[1]).width);
+  });
+});
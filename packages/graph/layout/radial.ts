@@ -0,0 +1,64 @@
+import type { Node, Edge } from 'reactflow';
+import { buildLayoutTree, countLeaves, nodeSize, VIRTUAL_ROOT } from './tree';
+import type { Point, Size } from './tree';
+
+/**
+ * Radial layout: the product in the middle, each level of the hierarchy on a
+ * ring around it. Every subtree gets a slice of the circle in proportion to
+ * its leaves, so large features get room without crowding small ones.
+ */
+
+/** Gap between rings, before spacing is applied */
+const RING_GAP = 120;
+
+/** Gap between neighbours on a ring, before spacing is applied */
+const NODE_GAP = 30;
+
+/**
+ * Compute node centers for a radial layout
+ * @param spacing - Scale for the gaps between rings and nodes
+ */
+export function radialLayout(nodes: Node[], edges: Edge[], spacing: number): Map<string, Point> {
+  const tree = buildLayoutTree(nodes, edges);
+  const leaves = countLeaves(tree);
+  const sizes = new Map<string, Size>(nodes.map((node) => [node.id, nodeSize(node)]));
+  const sizeOf = (id: string) => sizes.get(id) || { width: 0, height: 0 };
+
+  // Slice of the circle for each node, and the nodes on each ring
+  const angles = new Map<string, { start: number; span: number }>();
+  const rings: string[][] = [];
+  const assign = (id: string, depth: number, start: number, span: number) => {
+    angles.set(id, { start, span });
+    (rings[depth] = rings[depth] || []).push(id);
+    let childStart = start;
+    for (const child of tree.children.get(id) || []) {
+      const childSpan = (span * (leaves.get(child) || 1)) / (leaves.get(id) || 1);
+      assign(child, depth + 1, childStart, childSpan);
+      childStart += childSpan;
+    }
+  };
+  assign(tree.root, 0, 0, 2 * Math.PI);
+
+  // Each ring clears the previous one, and is wide enough for its narrowest slice
+  const extent = (id: string) => Math.max(sizeOf(id).width, sizeOf(id).height);
+  const radii: number[] = [0];
+  for (let depth = 1; depth < rings.length; depth++) {
+    const previousExtent = Math.max(...rings[depth - 1].map(extent));
+    const ringExtent = Math.max(...rings[depth].map(extent));
+    const narrowest = Math.min(...rings[depth].map((id) => angles.get(id)!.span));
+    const clearance = radii[depth - 1] + previousExtent / 2 + RING_GAP * spacing + ringExtent / 2;
+    const room = narrowest < 2 * Math.PI ? (ringExtent + NODE_GAP * spacing) / narrowest : 0;
+    radii.push(Math.max(clearance, room));
+  }
+
+  const centers = new Map<string, Point>();
+  rings.forEach((ring, depth) => {
+    for (const id of ring) {
+      if (id === VIRTUAL_ROOT) continue;
+      const { start, span } = angles.get(id)!;
+      const angle = start + span / 2 - Math.PI / 2;
+      centers.set(id, { x: radii[depth] * Math.cos(angle), y: radii[depth] * Math.sin(angle) });
+    }
+  });
+  return centers;
+}
@@ -0,0 +1,137 @@
+import type { Node, Edge } from 'reactflow';
+
+/**
+ * Hierarchy shared by the tree-shaped layouts (radial, mind-map, grid)
+ */
+
+/** Parent of the top-level nodes when a map has several */
+export const VIRTUAL_ROOT = '__layout_root__';
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface LayoutTree {
+  /** Top-level node: the product, or VIRTUAL_ROOT when there are several */
+  root: string;
+  /** Child IDs per node, in map order */
+  children: Map<string, string[]>;
+}
+
+/**
+ * Size of a node: its measured size, or the default for its type
+ */
+export function nodeSize(node: Node): Size {
+  if (node.width && node.height) {
+    return { width: node.width, height: node.height };
+  }
+  const width = node.type === 'product' ? 250 : node.type === 'component' ? 200 : 180;
+  const height = node.type === 'product' ? 100 : node.type === 'component' ? 80 : 60;
+  return { width, height };
+}
+
+/**
+ * Arrange the nodes of a map into a tree
+ * Hierarchy edges come first; nodes they do not reach hang off a node they
+ * share another edge with, and anything still unconnected hangs off the
+ * product (or becomes top-level in maps without a single product)
+ */
+export function buildLayoutTree(nodes: Node[], edges: Edge[]): LayoutTree {
+  const ids = new Set(nodes.map((node) => node.id));
+  const children = new Map<string, string[]>(nodes.map((node) => [node.id, []]));
+  const hierarchyTargets = new Map<string, string[]>();
+  const neighbours = new Map<string, string[]>();
+  const hasParent = new Set<string>();
+
+  for (const edge of edges) {
+    if (!ids.has(edge.source) || !ids.has(edge.target) || edge.source === edge.target) continue;
+    if (edge.type === 'hierarchy') {
+      hierarchyTargets.set(edge.source, [...(hierarchyTargets.get(edge.source) || []), edge.target]);
+      hasParent.add(edge.target);
+    } else {
+      neighbours.set(edge.source, [...(neighbours.get(edge.source) || []), edge.target]);
+      neighbours.set(edge.target, [...(neighbours.get(edge.target) || []), edge.source]);
+    }
+  }
+
+  const placed = new Set<string>();
+  const roots: string[] = [];
+  const attach = (parent: string, child: string) => {
+    children.get(parent)!.push(child);
+    placed.add(child);
+  };
+  // Breadth-first, so each node hangs off the closest node that reaches it
+  const walk = (start: string[], next: (id: string) => string[]) => {
+    const queue = [...start];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      for (const child of next(id)) {
+        if (placed.has(child)) continue;
+        attach(id, child);
+        queue.push(child);
+      }
+    }
+  };
+
+  const products = nodes.filter((node) => node.type === 'product' && !hasParent.has(node.id));
+  const topLevel = products.length > 0 ? products : nodes.filter((node) => !hasParent.has(node.id));
+  for (const node of topLevel) {
+    roots.push(node.id);
+    placed.add(node.id);
+  }
+  walk(roots, (id) => hierarchyTargets.get(id) || []);
+
+  // Cycles and nodes linked only by other edge types
+  while (placed.size < nodes.length) {
+    walk(Array.from(placed), (id) => neighbours.get(id) || []);
+    const orphan = nodes.find((node) => !placed.has(node.id));
+    if (!orphan) break;
+    if (products.length === 1) {
+      attach(products[0].id, orphan.id);
+    } else {
+      roots.push(orphan.id);
+      placed.add(orphan.id);
+    }
+    walk([orphan.id], (id) => hierarchyTargets.get(id) || []);
+  }
+
+  if (roots.length === 1) {
+    return { root: roots[0], children };
+  }
+  children.set(VIRTUAL_ROOT, roots);
+  return { root: VIRTUAL_ROOT, children };
+}
+
+/**
+ * Number of leaves under each node (a leaf counts itself)
+ */
+export function countLeaves(tree: LayoutTree): Map<string, number> {
+  const leaves = new Map<string, number>();
+  const count = (id: string): number => {
+    const kids = tree.children.get(id) || [];
+    const total = kids.length === 0 ? 1 : kids.reduce((sum, child) => sum + count(child), 0);
+    leaves.set(id, total);
+    return total;
+  };
+  count(tree.root);
+  return leaves;
+}
+
+/**
+ * Node IDs in depth-first order, parents before their children
+ */
+export function depthFirstOrder(tree: LayoutTree): string[] {
+  const order: string[] = [];
+  const visit = (id: string) => {
+    if (id !== VIRTUAL_ROOT) order.push(id);
+    (tree.children.get(id) || []).forEach(visit);
+  };
+  visit(tree.root);
+  return order;
+}
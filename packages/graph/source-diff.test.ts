@@ -0,0 +1,193 @@
+// Unit tests for diffing a map against a fresh generation from its source
+
+import { describe, it, expect } from 'vitest';
+import type { Node, Edge } from 'reactflow';
+import { applySourceDiff, computeSourceDiff } from './source-diff';
+import type { SourceSnapshot } from './source-diff';
+
+const node = (id: string, label: string, x = 0, y = 0, data: Record<string, unknown> = {}): Node => ({
+  id,
+  type: 'feature',
+  position: { x, y },
+  data: { label, ...data },
+});
+
+const edge = (source: string, target: string, extra: Partial<Edge> = {}): Edge => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  type: 'hierarchy',
+  ...extra,
+});
+
+/** Generated map: Payments with Charges and Refunds below it, plus a hand-added note */
+const current: SourceSnapshot = {
+  nodes: [
+    node('payments', 'Payments', 0, 0),
+    node('charges', 'Charges', -100, 200),
+    node('refunds', 'Refunds', 100, 200),
+    node('note', 'Team notes', 400, 0),
+  ],
+  edges: [edge('payments', 'charges'), edge('payments', 'refunds'), edge('note', 'payments')],
+  generatedNodeIds: ['payments', 'charges', 'refunds'],
+  generatedEdgeIds: ['payments-charges', 'payments-refunds'],
+};
+
+describe('computeSourceDiff', () => {
+  it('should report nothing when the source is unchanged', () => {
+    const diff = computeSourceDiff(current, {
+      nodes: current.nodes.slice(0, 3),
+      edges: current.edges.slice(0, 2),
+    });
+
+    expect(diff.changes).toEqual([]);
+    expect(diff.unchangedEdgeIds).toEqual(['payments-charges', 'payments-refunds']);
+  });
+
+  it('should never remove manual nodes and edges', () => {
+    const diff = computeSourceDiff(current, { nodes: [node('payments', 'Payments')], edges: [] });
+
+    expect(diff.changes.map((change) => change.id)).toEqual([
+      'node:removed:charges',
+      'node:removed:refunds',
+      'edge:removed:payments-charges',
+      'edge:removed:payments-refunds',
+    ]);
+  });
+
+  it('should find renames by docUrl', () => {
+    const snapshot: SourceSnapshot = {
+      ...current,
+      nodes: current.nodes.map((n) => (n.id === 'refunds' ? node('refunds', 'Refunds', 100, 200, { docUrl: '/refunds' }) : n)),
+    };
+
+    const diff = computeSourceDiff(snapshot, {
+      nodes: [node('payments', 'Payments'), node('charges', 'Charges'), node('returns', 'Returning money', 0, 0, { docUrl: '/refunds' })],
+      edges: [edge('payments', 'charges'), edge('payments', 'returns')],
+    });
+
+    expect(diff.changes).toEqual([
+      expect.objectContaining({ id: 'node:renamed:refunds', label: 'Returning money', previousLabel: 'Refunds' }),
+    ]);
+    expect(diff.unchangedEdgeIds).toContain('payments-refunds');
+  });
+
+  it('should find renames by a similar label of the same type', () => {
+    const diff = computeSourceDiff(current, {
+      nodes: [node('payments', 'Payments'), node('charges', 'Charges'), node('refund', 'Refund')],
+      edges: [edge('payments', 'charges'), edge('payments', 'refund')],
+    });
+
+    expect(diff.changes.map((change) => change.id)).toEqual(['node:renamed:refunds']);
+  });
+
+  it('should not rename manual nodes or nodes of another type', () => {
+    const diff = computeSourceDiff(current, {
+      nodes: [
+        node('payments', 'Payments'),
+        node('charges', 'Charges'),
+        { ...node('refunds-product', 'Refunds'), type: 'product' },
+        node('team-note', 'Team note'),
+      ],
+      edges: [],
+    });
+
+    expect(diff.changes.filter((change) => change.entity === 'node').map((change) => change.id)).toEqual([
+      'node:added:refunds-product',
+      'node:added:team-note',
+      'node:removed:refunds',
+    ]);
+  });
+
+  it('should place added nodes relative to their hand-moved parent', () => {
+    // Payments was moved from (0, 0) to (500, 300) by hand
+    const moved: SourceSnapshot = {
+      ...current,
+      nodes: current.nodes.map((n) => (n.id === 'payments' ? { ...n, position: { x: 500, y: 300 } } : n)),
+    };
+
+    const diff = computeSourceDiff(moved, {
+      nodes: [node('payments', 'Payments', 0, 0), node('charges', 'Charges'), node('refunds', 'Refunds'), node('disputes', 'Disputes', 300, 200)],
+      edges: [edge('payments', 'charges'), edge('payments', 'refunds'), edge('payments', 'disputes')],
+    });
+
+    const added = diff.changes.find((change) => change.id === 'node:added:disputes');
+    expect(added?.entity === 'node' && added.node?.position).toEqual({ x: 800, y: 500 });
+  });
+
+  it('should not propose removing manual edges between generated nodes on maps without edge IDs', () => {
+    // Saved before auto_generated_edge_ids: the user later linked Charges to Refunds by hand
+    const legacy: SourceSnapshot = {
+      nodes: current.nodes,
+      edges: [...current.edges, edge('charges', 'refunds', { type: 'related' })],
+      generatedNodeIds: current.generatedNodeIds,
+    };
+
+    const diff = computeSourceDiff(legacy, {
+      nodes: current.nodes.slice(0, 3),
+      edges: current.edges.slice(0, 2),
+    });
+
+    expect(diff.changes).toEqual([]);
+    // The edges the source still produces are tracked from now on
+    expect(applySourceDiff(legacy, diff, []).generatedEdgeIds).toEqual(['payments-charges', 'payments-refunds']);
+  });
+});
+
+describe('applySourceDiff', () => {
+  const fresh = {
+    nodes: [node('payments', 'Payments'), node('charges', 'Charges'), node('disputes', 'Disputes', 300, 200)],
+    edges: [edge('payments', 'charges'), edge('payments', 'disputes'), edge('charges', 'disputes')],
+  };
+
+  it('should apply the accepted changes and keep manual content', () => {
+    const diff = computeSourceDiff(current, fresh);
+    const result = applySourceDiff(current, diff, diff.changes.map((change) => change.id));
+
+    expect(result.nodes.map((n) => n.id)).toEqual(['payments', 'charges', 'note', 'disputes']);
+    expect(result.edges.map((e) => e.id)).toEqual([
+      'payments-charges',
+      'note-payments',
+      'payments-disputes',
+      'charges-disputes',
+    ]);
+    expect(result.generatedNodeIds).toEqual(['payments', 'charges', 'disputes']);
+    expect(result.generatedEdgeIds).toEqual(['payments-charges', 'payments-disputes', 'charges-disputes']);
+  });
+
+  it('should keep the positions of existing nodes', () => {
+    const diff = computeSourceDiff(current, fresh);
+    const result = applySourceDiff(current, diff, diff.changes.map((change) => change.id));
+
+    expect(result.nodes.find((n) => n.id === 'charges')?.position).toEqual({ x: -100, y: 200 });
+    expect(result.nodes.find((n) => n.id === 'note')?.position).toEqual({ x: 400, y: 0 });
+  });
+
+  it('should drop the edges of a rejected node addition', () => {
+    const diff = computeSourceDiff(current, fresh);
+    const accepted = diff.changes.map((change) => change.id).filter((id) => id !== 'node:added:disputes');
+    const result = applySourceDiff(current, diff, accepted);
+
+    expect(result.nodes.map((n) => n.id)).not.toContain('disputes');
+    expect(result.edges.some((e) => e.source === 'disputes' || e.target === 'disputes')).toBe(false);
+  });
+
+  it('should keep a node whose removal was rejected, with its edges', () => {
+    const diff = computeSourceDiff(current, fresh);
+    const result = applySourceDiff(current, diff, []);
+
+    expect(result.nodes).toEqual(current.nodes);
+    expect(result.edges).toEqual(current.edges);
+    expect(result.generatedNodeIds).toEqual(current.generatedNodeIds);
+  });
+
+  it('should apply accepted renames', () => {
+    const diff = computeSourceDiff(current, {
+      nodes: [node('payments', 'Payments'), node('charges', 'Charges'), node('refund', 'Refund')],
+      edges: [edge('payments', 'charges'), edge('payments', 'refund')],
+    });
+    const result = applySourceDiff(current, diff, ['node:renamed:refunds']);
+
+    expect(result.nodes.find((n) => n.id === 'refunds')?.data.label).toBe('Refund');
+  });
+});
@@ -0,0 +1,401 @@
+import type { Node, Edge } from 'reactflow';
+
+/**
+ * Diff between a map and a fresh generation from its documentation source.
+ * Only generated content is ever removed or renamed: manual nodes, manual
+ * edges and all node positions are left alone.
+ */
+
+export type SourceChangeKind = 'added' | 'removed' | 'renamed';
+
+export interface NodeSourceChange {
+  /** Stable change ID, used to accept or reject the change */
+  id: string;
+  entity: 'node';
+  kind: SourceChangeKind;
+  /** Current node ID (or the new node's ID for additions) */
+  nodeId: string;
+  nodeType?: string;
+  label: string;
+  previousLabel?: string;
+  /** Node to insert (additions only) */
+  node?: Node;
+}
+
+export interface EdgeSourceChange {
+  id: string;
+  entity: 'edge';
+  kind: SourceChangeKind;
+  /** Current edge ID (or the new edge's ID for additions) */
+  edgeId: string;
+  source: string;
+  target: string;
+  /** Labels of the connected nodes, for display */
+  sourceLabel: string;
+  targetLabel: string;
+  label?: string;
+  previousLabel?: string;
+  /** Edge to insert (additions only) */
+  edge?: Edge;
+}
+
+export type SourceChange = NodeSourceChange | EdgeSourceChange;
+
+/**
+ * A map's canvas together with what was generated on it
+ */
+export interface SourceSnapshot {
+  nodes: Node[];
+  edges: Edge[];
+  /** IDs of nodes created by generation (everything else is manual) */
+  generatedNodeIds: string[];
+  /** IDs of edges created by generation (unset for maps saved before they were tracked) */
+  generatedEdgeIds?: string[];
+}
+
+export interface SourceDiff {
+  changes: SourceChange[];
+  /** Current edge IDs the fresh generation still produces */
+  unchangedEdgeIds: string[];
+}
+
+/** Label similarity needed to treat a removed + added pair as a rename */
+const RENAME_SIMILARITY = 0.6;
+
+/** Offset for added nodes whose parent is not on the map */
+const ORPHAN_OFFSET = 40;
+
+/**
+ * Compare the current map with a fresh generation
+ *
+ * Fresh nodes are matched to current nodes by ID, then by type plus docUrl or
+ * a similar label (a rename). Unmatched fresh nodes are additions; unmatched
+ * generated nodes are removals. Added nodes are placed relative to their
+ * parent's current position, so the existing layout is kept.
+ */
+export function computeSourceDiff(
+  current: SourceSnapshot,
+  fresh: { nodes: Node[]; edges: Edge[] }
+): SourceDiff {
+  const generatedNodes = new Set(current.generatedNodeIds);
+  const generatedEdges = resolveGeneratedEdgeIds(current);
+  const currentById = new Map(current.nodes.map((node) => [node.id, node]));
+  const changes: SourceChange[] = [];
+
+  // fresh node ID -> current node ID
+  const mapping = new Map<string, string>();
+  const matchedCurrent = new Set<string>();
+
+  for (const node of fresh.nodes) {
+    if (currentById.has(node.id)) {
+      mapping.set(node.id, node.id);
+      matchedCurrent.add(node.id);
+    }
+  }
+
+  // Renames: only generated nodes can be renamed by the source
+  const unmatchedFresh = fresh.nodes.filter((node) => !mapping.has(node.id));
+  const renameCandidates = current.nodes.filter(
+    (node) => generatedNodes.has(node.id) && !matchedCurrent.has(node.id)
+  );
+
+  for (const node of unmatchedFresh) {
+    const match = findRenamed(node, renameCandidates.filter((candidate) => !matchedCurrent.has(candidate.id)));
+    if (match) {
+      mapping.set(node.id, match.id);
+      matchedCurrent.add(match.id);
+    }
+  }
+
+  for (const node of fresh.nodes) {
+    const currentId = mapping.get(node.id);
+    const existing = currentId ? currentById.get(currentId) : undefined;
+
+    if (existing) {
+      if (generatedNodes.has(existing.id) && existing.data?.label !== node.data?.label) {
+        changes.push({
+          id: `node:renamed:${existing.id}`,
+          entity: 'node',
+          kind: 'renamed',
+          nodeId: existing.id,
+          nodeType: existing.type,
+          label: node.data?.label,
+          previousLabel: existing.data?.label,
+        });
+      }
+      continue;
+    }
+
+    changes.push({
+      id: `node:added:${node.id}`,
+      entity: 'node',
+      kind: 'added',
+      nodeId: node.id,
+      nodeType: node.type,
+      label: node.data?.label,
+      node: {
+        ...node,
+        position: placeAddedNode(node, fresh, mapping, currentById),
+      },
+    });
+  }
+
+  for (const node of current.nodes) {
+    if (generatedNodes.has(node.id) && !matchedCurrent.has(node.id)) {
+      changes.push({
+        id: `node:removed:${node.id}`,
+        entity: 'node',
+        kind: 'removed',
+        nodeId: node.id,
+        nodeType: node.type,
+        label: node.data?.label,
+      });
+    }
+  }
+
+  // Edges are compared by their endpoints, after mapping fresh IDs
+  const labelOf = (id: string): string =>
+    currentById.get(id)?.data?.label
+    ?? fresh.nodes.find((node) => node.id === id)?.data?.label
+    ?? id;
+
+  const currentByPair = new Map<string, Edge>();
+  for (const edge of current.edges) {
+    currentByPair.set(pairKey(edge.source, edge.target), edge);
+  }
+
+  const freshPairs = new Set<string>();
+  const unchangedEdgeIds: string[] = [];
+
+  for (const edge of fresh.edges) {
+    const source = mapping.get(edge.source) ?? edge.source;
+    const target = mapping.get(edge.target) ?? edge.target;
+    const key = pairKey(source, target);
+    if (source === target || freshPairs.has(key)) continue;
+    freshPairs.add(key);
+
+    const existing = currentByPair.get(key);
+    if (existing) {
+      unchangedEdgeIds.push(existing.id);
+      const label = edgeLabel(edge);
+      if (generatedEdges.has(existing.id) && label && label !== edgeLabel(existing)) {
+        changes.push({
+          id: `edge:renamed:${existing.id}`,
+          entity: 'edge',
+          kind: 'renamed',
+          edgeId: existing.id,
+          source,
+          target,
+          sourceLabel: labelOf(source),
+          targetLabel: labelOf(target),
+          label,
+          previousLabel: edgeLabel(existing),
+        });
+      }
+      continue;
+    }
+
+    const edgeId = `${source}-${target}`;
+    changes.push({
+      id: `edge:added:${edgeId}`,
+      entity: 'edge',
+      kind: 'added',
+      edgeId,
+      source,
+      target,
+      sourceLabel: labelOf(source),
+      targetLabel: labelOf(target),
+      label: edgeLabel(edge),
+      edge: { ...edge, id: edgeId, source, target },
+    });
+  }
+
+  for (const edge of current.edges) {
+    if (!generatedEdges.has(edge.id) || freshPairs.has(pairKey(edge.source, edge.target))) continue;
+
+    changes.push({
+      id: `edge:removed:${edge.id}`,
+      entity: 'edge',
+      kind: 'removed',
+      edgeId: edge.id,
+      source: edge.source,
+      target: edge.target,
+      sourceLabel: labelOf(edge.source),
+      targetLabel: labelOf(edge.target),
+      label: edgeLabel(edge),
+    });
+  }
+
+  return { changes, unchangedEdgeIds };
+}
+
+/**
+ * Apply the accepted changes of a diff
+ *
+ * Added edges are skipped when an endpoint is missing (e.g. its node addition
+ * was rejected); removing a node also removes its edges.
+ *
+ * @returns Updated canvas and the generated node/edge IDs to store
+ */
+export function applySourceDiff(
+  current: SourceSnapshot,
+  diff: SourceDiff,
+  acceptedChangeIds: Iterable<string>
+): Required<SourceSnapshot> {
+  const accepted = new Set(acceptedChangeIds);
+  const changes = diff.changes.filter((change) => accepted.has(change.id));
+
+  const removedNodes = new Set<string>();
+  const renamedNodes = new Map<string, string>();
+  const addedNodes: Node[] = [];
+  const removedEdges = new Set<string>();
+  const renamedEdges = new Map<string, string | undefined>();
+  const addedEdges: Edge[] = [];
+
+  for (const change of changes) {
+    if (change.entity === 'node') {
+      if (change.kind === 'removed') removedNodes.add(change.nodeId);
+      if (change.kind === 'renamed') renamedNodes.set(change.nodeId, change.label);
+      if (change.kind === 'added' && change.node) addedNodes.push(change.node);
+    } else {
+      if (change.kind === 'removed') removedEdges.add(change.edgeId);
+      if (change.kind === 'renamed') renamedEdges.set(change.edgeId, change.label);
+      if (change.kind === 'added' && change.edge) addedEdges.push(change.edge);
+    }
+  }
+
+  const existingIds = new Set(current.nodes.map((node) => node.id));
+  const nodes = [
+    ...current.nodes
+      .filter((node) => !removedNodes.has(node.id))
+      .map((node) => renamedNodes.has(node.id)
+        ? { ...node, data: { ...node.data, label: renamedNodes.get(node.id) } }
+        : node),
+    ...addedNodes.filter((node) => !existingIds.has(node.id)),
+  ];
+
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  const connects = (edge: Edge) => nodeIds.has(edge.source) && nodeIds.has(edge.target);
+  const edgeIds = new Set(current.edges.map((edge) => edge.id));
+
+  const edges = [
+    ...current.edges
+      .filter((edge) => !removedEdges.has(edge.id) && connects(edge))
+      .map((edge) => renamedEdges.has(edge.id)
+        ? { ...edge, label: renamedEdges.get(edge.id) }
+        : edge),
+    ...addedEdges.filter((edge) => connects(edge) && !edgeIds.has(edge.id)),
+  ];
+
+  const generatedNodes = new Set([...current.generatedNodeIds, ...addedNodes.map((node) => node.id)]);
+  const generatedEdges = new Set([
+    ...resolveGeneratedEdgeIds(current),
+    ...diff.unchangedEdgeIds,
+    ...addedEdges.map((edge) => edge.id),
+  ]);
+
+  return {
+    nodes,
+    edges,
+    generatedNodeIds: nodes.filter((node) => generatedNodes.has(node.id)).map((node) => node.id),
+    generatedEdgeIds: edges.filter((edge) => generatedEdges.has(edge.id)).map((edge) => edge.id),
+  };
+}
+
+/**
+ * Generated edges. Maps saved before edge IDs were tracked cannot tell manual
+ * edges between generated nodes from generated ones, so none of their edges
+ * count: they are never removed or renamed, and the edges the fresh generation
+ * still produces are recorded as generated when the diff is applied
+ */
+function resolveGeneratedEdgeIds(snapshot: SourceSnapshot): Set<string> {
+  return new Set(snapshot.generatedEdgeIds ?? []);
+}
+
+function edgeLabel(edge: Edge): string | undefined {
+  return typeof edge.label === 'string' && edge.label ? edge.label : undefined;
+}
+
+function pairKey(source: string, target: string): string {
+  return `${source}->${target}`;
+}
+
+/**
+ * Find the current node a fresh node was renamed from: same type, and the
+ * same docUrl or a similar label
+ */
+function findRenamed(node: Node, candidates: Node[]): Node | undefined {
+  const sameType = candidates.filter((candidate) => candidate.type === node.type);
+
+  const docUrl = node.data?.docUrl;
+  if (docUrl) {
+    const byUrl = sameType.find((candidate) => candidate.data?.docUrl === docUrl);
+    if (byUrl) return byUrl;
+  }
+
+  let best: Node | undefined;
+  let bestScore = RENAME_SIMILARITY;
+  for (const candidate of sameType) {
+    const score = labelSimilarity(node.data?.label || '', candidate.data?.label || '');
+    if (score >= bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Dice coefficient over character bigrams (0-1)
+ */
+function labelSimilarity(a: string, b: string): number {
+  const left = a.toLowerCase().trim();
+  const right = b.toLowerCase().trim();
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < left.length - 1; i++) {
+    const bigram = left.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < right.length - 1; i++) {
+    const bigram = right.slice(i, i + 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap++;
+    }
+  }
+
+  return (2 * overlap) / (left.length + right.length - 2);
+}
+
+/**
+ * Keep an added node where the fresh layout put it relative to its parent,
+ * anchored at the parent's current (possibly hand-moved) position
+ */
+function placeAddedNode(
+  node: Node,
+  fresh: { nodes: Node[]; edges: Edge[] },
+  mapping: Map<string, string>,
+  currentById: Map<string, Node>
+): { x: number; y: number } {
+  const parentEdge = fresh.edges.find((edge) => edge.target === node.id && mapping.has(edge.source));
+  const freshParent = parentEdge && fresh.nodes.find((candidate) => candidate.id === parentEdge.source);
+  const currentParent = parentEdge && currentById.get(mapping.get(parentEdge.source)!);
+
+  if (freshParent && currentParent) {
+    return {
+      x: currentParent.position.x + (node.position.x - freshParent.position.x),
+      y: currentParent.position.y + (node.position.y - freshParent.position.y),
+    };
+  }
+
+  return {
+    x: node.position.x + ORPHAN_OFFSET,
+    y: node.position.y + ORPHAN_OFFSET,
+  };
+}
@@ -0,0 +1,87 @@
+// Node and edge factories and overlap checks shared by the graph tests
+
+import type { Node, Edge } from 'reactflow';
+import { nodeSize } from './layout/tree';
+import type { Point } from './layout/tree';
+
+export const node = (id: string, type: string = 'feature', extra: Partial<Node> = {}): Node => ({
+  id,
+  type,
+  position: { x: 0, y: 0 },
+  data: { label: id },
+  ...extra,
+});
+
+/** Feature node with its top-left corner at a point */
+export const nodeAt = (id: string, x: number, y: number, extra: Partial<Node> = {}): Node =>
+  node(id, 'feature', { position: { x, y }, ...extra });
+
+export const edge = (source: string, target: string, type: string = 'related'): Edge => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  type,
+});
+
+export const hierarchy = (source: string, target: string): Edge => edge(source, target, 'hierarchy');
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Boxes of laid-out nodes, from their top-left positions; groups are sized through their style
+ */
+export function laidOutBoxes(nodes: Node[]): Map<string, Box> {
+  return new Map(
+    nodes.map((laidOut) => {
+      const width = Number(laidOut.style?.width ?? nodeSize(laidOut).width);
+      const height = Number(laidOut.style?.height ?? nodeSize(laidOut).height);
+      return [laidOut.id, { x: laidOut.position.x, y: laidOut.position.y, width, height }];
+    })
+  );
+}
+
+/**
+ * Boxes of nodes around the centers a layout engine returned
+ */
+export function centeredBoxes(nodes: Node[], centers: Map<string, Point>): Map<string, Box> {
+  return new Map(
+    nodes.map((n) => {
+      const { width, height } = nodeSize(n);
+      const center = centers.get(n.id)!;
+      return [n.id, { x: center.x - width / 2, y: center.y - height / 2, width, height }];
+    })
+  );
+}
+
+/** Whether two boxes overlap; boxes that only touch do not */
+export function overlap(a: Box, b: Box): boolean {
+  // Allows for rounding in boxes built from centers
+  const epsilon = 1e-6;
+  return (
+    a.x < b.x + b.width - epsilon &&
+    b.x < a.x + a.width - epsilon &&
+    a.y < b.y + b.height - epsilon &&
+    b.y < a.y + a.height - epsilon
+  );
+}
+
+/**
+ * Every pair of overlapping boxes, as "a overlaps b", so a failing test names them
+ */
+export function overlappingPairs(boxes: Map<string, Box>): string[] {
+  const entries = Array.from(boxes);
+  const pairs: string[] = [];
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) {
+      if (overlap(entries[i][1], entries[j][1])) {
+        pairs.push(`${entries[i][0]} overlaps ${entries[j][0]}`);
+      }
+    }
+  }
+  return pairs;
+}
@@ -0,0 +1,44 @@
+-- Migration: Create documentation_cache table
+-- Date: 2026-10-18
+-- Author: DocMaps Team
+--
+-- Description:
+-- Backing table for PostgresCacheStore in @docmaps/doc-parser. Pages fetched
+-- during map generation (including every page of a deep crawl) are stored here
+-- with their ETag/Last-Modified headers, so every server instance shares one
+-- cache and stale pages can be revalidated with a conditional request (304)
+-- instead of being re-rendered in the headless browser.
+--
+-- The table is only accessed by the server with a direct database connection.
+-- RLS is enabled without policies so the anon and authenticated roles cannot
+-- read or poison cached pages through the API.
+--
+-- Dependencies:
+-- None
+--
+-- Rollback:
+-- DROP TABLE IF EXISTS documentation_cache;
+
+-- =====================================================
+-- CREATE DOCUMENTATION CACHE TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS documentation_cache (
+  url TEXT PRIMARY KEY,
+  html TEXT NOT NULL,
+  final_url TEXT,
+  content_type TEXT,
+  etag TEXT,
+  last_modified TEXT,
+  cached_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ttl_ms BIGINT NOT NULL
+);
+
+-- Lets a scheduled job prune old entries: DELETE ... WHERE cached_at < NOW() - INTERVAL '7 days'
+CREATE INDEX IF NOT EXISTS idx_documentation_cache_cached_at
+  ON documentation_cache (cached_at);
+
+ALTER TABLE documentation_cache ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE documentation_cache IS
+'Fetched documentation pages shared by all server instances (see PostgresCacheStore). Keyed by fetcher kind and requested URL (static:https://... or browser:https://...); etag/last_modified are sent back as If-None-Match/If-Modified-Since.';
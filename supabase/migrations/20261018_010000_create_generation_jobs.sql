@@ -0,0 +1,92 @@
+-- Migration: Create generation_jobs table
+-- Date: 2026-10-18
+-- Author: DocMaps Team
+--
+-- Description:
+-- Map generation used to run inside a single SSE request: closing the tab lost
+-- the work and cancelling only closed the client's connection. Each generation
+-- is now a job row that the job runner moves through its states:
+--
+--   queued -> crawling -> parsing -> layouting -> saving -> done
+--                    \-> failed / cancelled (from any active state)
+--
+-- Progress (every crawled page, node and edge counts) is written to the row as
+-- it happens, so clients can reconnect to a job's progress stream by its ID.
+-- Cancelling sets the status to 'cancelled'; the runner notices on its next
+-- progress write and aborts the crawl and browser.
+--
+-- Users can read and create their own jobs but not update them: only the
+-- service-role runner and the API routes (cancel, stalled-job cleanup) write
+-- to a job, so a client cannot mark a job done or point it at another map.
+--
+-- Dependencies:
+-- Requires the maps table and update_updated_at_column() (initial schema)
+--
+-- Rollback:
+-- DROP TABLE IF EXISTS generation_jobs;
+
+-- =====================================================
+-- CREATE GENERATION_JOBS TABLE
+-- =====================================================
+CREATE TABLE IF NOT EXISTS generation_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'crawling', 'parsing', 'layouting', 'saving', 'done', 'failed', 'cancelled')),
+  source_url TEXT NOT NULL,
+  options JSONB NOT NULL DEFAULT '{}'::jsonb,
+  message TEXT,
+  progress JSONB NOT NULL DEFAULT '{"pages": []}'::jsonb,
+  error JSONB,
+  map_id UUID REFERENCES maps(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  finished_at TIMESTAMPTZ
+);
+
+-- =====================================================
+-- INDEXES FOR GENERATION_JOBS
+-- =====================================================
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_user_created
+  ON generation_jobs(user_id, created_at DESC);
+
+-- =====================================================
+-- RLS POLICIES FOR GENERATION_JOBS
+-- =====================================================
+ALTER TABLE generation_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own generation jobs"
+  ON generation_jobs FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own generation jobs"
+  ON generation_jobs FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- No UPDATE policy: jobs are only updated with the service role (see above)
+
+-- =====================================================
+-- TRIGGER FOR UPDATED_AT
+-- =====================================================
+DROP TRIGGER IF EXISTS update_generation_jobs_updated_at ON generation_jobs;
+CREATE TRIGGER update_generation_jobs_updated_at
+  BEFORE UPDATE ON generation_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- COMMENTS (Documentation)
+-- =====================================================
+COMMENT ON TABLE generation_jobs IS 'Map generation jobs with their state and progress';
+COMMENT ON COLUMN generation_jobs.source_url IS 'Documentation URL, or upload://<file name> for uploaded specs';
+COMMENT ON COLUMN generation_jobs.options IS 'Generation options, e.g. {"ensemble": true}';
+COMMENT ON COLUMN generation_jobs.message IS 'Human-readable description of the current step';
+COMMENT ON COLUMN generation_jobs.progress IS
+'Progress details. Structure:
+{
+  "pages": [{ "url": "https://docs.example.com/guides", "status": "fetched", "fromCache": false }],
+  "nodes": 42,
+  "edges": 41
+}';
+COMMENT ON COLUMN generation_jobs.error IS 'Failure details: { "code": "FETCH_FAILED", "message": "...", "details": "..." }';
+COMMENT ON COLUMN generation_jobs.map_id IS 'Map created by the job (set when status is done)';